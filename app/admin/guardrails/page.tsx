@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { GuardrailSettingsForm } from '@/components/ai/guardrail-settings'
+import { useAIModels } from '@/hooks/use-ai-models'
+import { DEFAULT_GUARDRAIL_POLICY, GuardrailPolicy } from '@/lib/types/guardrails'
+import { toast } from 'sonner'
+import { ArrowLeft, Loader2, Save } from 'lucide-react'
+
+export default function GuardrailsPage() {
+  const router = useRouter()
+  const { models } = useAIModels()
+  const [policy, setPolicy] = useState<GuardrailPolicy>(DEFAULT_GUARDRAIL_POLICY)
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [])
+
+  const fetchPolicy = async () => {
+    try {
+      const response = await fetch('/api/admin/guardrails')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load guardrail policy')
+      setPolicy(data.policy)
+      setUpdatedAt(data.updatedAt)
+    } catch (error: any) {
+      console.error('Error fetching guardrail policy:', error)
+      toast.error(error.message || 'Failed to load guardrail policy')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const savePolicy = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/guardrails', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        // Unfinished pattern rows are dropped
+        body: JSON.stringify({
+          ...policy,
+          patterns: { ...policy.patterns, rules: policy.patterns.rules.filter(rule => rule.pattern) }
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save guardrail policy')
+      }
+      setPolicy(data.policy)
+      setUpdatedAt(new Date().toISOString())
+      toast.success('Guardrail policy saved')
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => router.push('/dashboard')}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-3xl font-bold">Guardrails</h1>
+        </div>
+        <Button onClick={savePolicy} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Policy
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Platform policy</CardTitle>
+          <CardDescription>
+            Applies to every agent; agents can add their own checks but not turn these off. Triggers are logged as security events.
+            {updatedAt && ` Last updated ${new Date(updatedAt).toLocaleString()}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <GuardrailSettingsForm value={policy} onChange={setPolicy} models={models} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -37,6 +37,19 @@ interface SystemMetrics {
   }>
 }
 
+interface ProviderCircuit {
+  key: string
+  provider: string
+  model: string | null
+  state: 'closed' | 'open' | 'half_open'
+  requests: number
+  errorRate: number
+  slowRate: number
+  p95LatencyMs: number
+  openedAt: string | null
+  reason: string | null
+}
+
 interface DailyUsage {
   date: string
   totalUsers: number
@@ -49,6 +62,8 @@ interface DailyUsage {
 export default function MonitoringDashboard() {
   const [systemHealth, setSystemHealth] = useState<SystemMetrics | null>(null)
   const [dailyUsage, setDailyUsage] = useState<DailyUsage[]>([])
+  const [circuits, setCircuits] = useState<ProviderCircuit[]>([])
+  const [circuitsShared, setCircuitsShared] = useState(true)
   const [isLoading, setIsLoading] = useState(true)
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
   const [autoRefresh, setAutoRefresh] = useState(true)
@@ -67,6 +82,20 @@ export default function MonitoringDashboard() {
     }
   }
 
+  // Fetch AI provider circuit breakers
+  const fetchCircuits = async () => {
+    try {
+      const response = await fetch('/api/admin/monitoring/providers')
+      if (response.ok) {
+        const data = await response.json()
+        setCircuits(data.circuits || [])
+        setCircuitsShared(data.shared)
+      }
+    } catch (error) {
+      console.error('Error fetching provider circuits:', error)
+    }
+  }
+
   // Fetch daily usage data
   const fetchDailyUsage = async () => {
     try {
@@ -84,7 +113,7 @@ export default function MonitoringDashboard() {
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true)
-      await Promise.all([fetchSystemHealth(), fetchDailyUsage()])
+      await Promise.all([fetchSystemHealth(), fetchCircuits(), fetchDailyUsage()])
       setIsLoading(false)
     }
     loadData()
@@ -96,6 +125,7 @@ export default function MonitoringDashboard() {
 
     const interval = setInterval(() => {
       fetchSystemHealth()
+      fetchCircuits()
     }, 30000)
 
     return () => clearInterval(interval)
@@ -205,7 +235,10 @@ export default function MonitoringDashboard() {
             <Button
               variant="outline"
               size="sm"
-              onClick={fetchSystemHealth}
+              onClick={() => {
+                fetchSystemHealth()
+                fetchCircuits()
+              }}
             >
               Refresh Now
             </Button>
@@ -377,6 +410,68 @@ export default function MonitoringDashboard() {
         </div>
       )}
 
+      {/* AI Provider Circuits */}
+      {circuits.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Server className="h-5 w-5 text-gray-500" />
+              AI Provider Circuits
+            </CardTitle>
+            <CardDescription>
+              Providers and models are skipped while their circuit is open; one trial call is let through after 30s
+              {!circuitsShared && ' (Redis unavailable: showing this server only)'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b">
+                  <tr>
+                    <th className="text-left pb-2">Provider / Model</th>
+                    <th className="text-left pb-2">State</th>
+                    <th className="text-right pb-2">Calls (2 min)</th>
+                    <th className="text-right pb-2">Error Rate</th>
+                    <th className="text-right pb-2">Slow Calls</th>
+                    <th className="text-right pb-2">P95</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {circuits.map(circuit => (
+                    <tr key={circuit.key} className="border-b">
+                      <td className="py-2">
+                        <div className={circuit.model ? 'pl-4 text-gray-700' : 'font-medium'}>
+                          {circuit.model || circuit.provider}
+                        </div>
+                        {circuit.state !== 'closed' && circuit.reason && (
+                          <div className="text-xs text-gray-500">
+                            {circuit.reason}
+                            {circuit.openedAt && ` · opened ${new Date(circuit.openedAt).toLocaleTimeString()}`}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded ${
+                          circuit.state === 'open' ? 'bg-red-100 text-red-700' :
+                          circuit.state === 'half_open' ? 'bg-yellow-100 text-yellow-700' :
+                          'bg-green-100 text-green-700'
+                        }`}>
+                          {circuit.state.replace('_', '-').toUpperCase()}
+                        </span>
+                      </td>
+                      <td className="text-right">{circuit.requests}</td>
+                      <td className="text-right">{(circuit.errorRate * 100).toFixed(0)}%</td>
+                      <td className="text-right">{(circuit.slowRate * 100).toFixed(0)}%</td>
+                      <td className="text-right">{circuit.p95LatencyMs.toLocaleString()}ms</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Scaling Recommendations */}
       <Card className="mb-8">
         <CardHeader>
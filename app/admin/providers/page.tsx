@@ -0,0 +1,249 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ProviderFormDialog } from '@/components/admin/provider-form-dialog'
+import { toast } from 'sonner'
+import { ArrowLeft, Edit2, Loader2, Plus, Server, Trash2, Wifi } from 'lucide-react'
+import { RegisteredProviderWithModels } from '@/lib/types/providers'
+
+export default function ProvidersPage() {
+  const router = useRouter()
+  const [providers, setProviders] = useState<RegisteredProviderWithModels[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<RegisteredProviderWithModels | null>(null)
+  const [deleting, setDeleting] = useState<RegisteredProviderWithModels | null>(null)
+  const [testing, setTesting] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchProviders()
+  }, [])
+
+  const fetchProviders = async () => {
+    try {
+      const response = await fetch('/api/admin/providers')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load providers')
+      setProviders(data.providers || [])
+    } catch (error: any) {
+      console.error('Error fetching providers:', error)
+      toast.error(error.message || 'Failed to load providers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleActive = async (provider: RegisteredProviderWithModels) => {
+    try {
+      const response = await fetch(`/api/admin/providers/${provider.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !provider.is_active })
+      })
+      if (!response.ok) throw new Error('Failed to update provider')
+      setProviders(prev => prev.map(p => (p.id === provider.id ? { ...p, is_active: !provider.is_active } : p)))
+    } catch (error: any) {
+      toast.error(error.message)
+    }
+  }
+
+  const testConnection = async (provider: RegisteredProviderWithModels) => {
+    setTesting(provider.id)
+    try {
+      const model = provider.models.find(m => m.is_active)
+      const response = await fetch('/api/admin/test-connection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: provider.name, modelId: model?.model_id })
+      })
+      const result = await response.json()
+      if (result.success) {
+        toast.success(result.message || `${provider.display_name} is reachable`)
+      } else {
+        toast.error(result.error || 'Connection failed')
+      }
+    } catch (error) {
+      toast.error('Connection test failed')
+    } finally {
+      setTesting(null)
+    }
+  }
+
+  const deleteProvider = async () => {
+    if (!deleting) return
+    try {
+      const response = await fetch(`/api/admin/providers/${deleting.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete provider')
+      toast.success(`${deleting.display_name} removed`)
+      setProviders(prev => prev.filter(p => p.id !== deleting.id))
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-full">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => router.push('/dashboard')}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-3xl font-bold">Providers</h1>
+        </div>
+        <Button onClick={() => { setEditing(null); setDialogOpen(true) }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Register Provider
+        </Button>
+      </div>
+
+      {providers.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Server className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
+            <p className="font-medium">No providers registered</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Add Ollama, vLLM, OpenRouter, Azure OpenAI or any other OpenAI-compatible endpoint.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {providers.map(provider => (
+            <Card key={provider.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="flex items-center gap-2">
+                      {provider.display_name}
+                      <Badge variant="outline" className="font-mono text-xs">{provider.name}</Badge>
+                    </CardTitle>
+                    <CardDescription className="font-mono text-xs truncate mt-1">
+                      {provider.api_base_url}
+                    </CardDescription>
+                  </div>
+                  <Switch
+                    checked={!!provider.is_active}
+                    onCheckedChange={() => toggleActive(provider)}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {provider.api_key_env_var ? (
+                    <Badge variant={provider.apiKeyConfigured ? 'secondary' : 'destructive'}>
+                      {provider.api_key_env_var} {provider.apiKeyConfigured ? 'set' : 'missing'}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">No auth</Badge>
+                  )}
+                  {Object.keys(provider.response_mapping || {}).length > 0 && (
+                    <Badge variant="outline">Custom response mapping</Badge>
+                  )}
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium mb-1">Models</p>
+                  {provider.models.filter(m => m.is_active).length === 0 ? (
+                    <p className="text-sm text-muted-foreground">None</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {provider.models.filter(m => m.is_active).map(model => (
+                        <Badge key={model.id} variant="outline" className="font-mono text-xs">
+                          {model.model_id}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testConnection(provider)}
+                    disabled={testing === provider.id}
+                  >
+                    {testing === provider.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Wifi className="h-4 w-4 mr-1" />
+                    )}
+                    Test
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => { setEditing(provider); setDialogOpen(true) }}
+                  >
+                    <Edit2 className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeleting(provider)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ProviderFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        provider={editing}
+        onSaved={fetchProviders}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {deleting?.display_name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its models are deactivated. Agents using them fall back to the default model.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteProvider}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -170,11 +170,11 @@ async function reprocessMissingEmbeddings(supabase: any) {
     console.log(`Found ${missingChunks?.length || 0} chunks without embeddings across ${agents.length} agents`)
 
     // Start embedding generation for each agent
-    const embeddingService = new EmbeddingService()
     const results = []
 
     for (const agentId of agents) {
       try {
+        const embeddingService = await EmbeddingService.forAgent(agentId as string)
         const result = await embeddingService.generateEmbeddingsForAgent(agentId as string)
         results.push({
           agentId,
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { z } from 'zod'
+import { isAdminEmail } from '@/lib/utils/admin-access'
+import { resolveGuardrailPolicy } from '@/lib/types/guardrails'
+import { GuardrailPolicySchema } from '@/lib/ai/guardrail-schema'
+
+// The platform guardrail policy, applied to every agent alongside any checks of its own.
+// Stored in system_settings; non-public settings are written with the service role.
+
+async function isAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { ok: false, status: 401 }
+  if (!isAdminEmail(user.email)) return { ok: false, status: 403 }
+  return { ok: true, status: 200 }
+}
+
+export async function GET() {
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const supabase = createServiceClient()
+    const { data: setting, error } = await supabase
+      .from('system_settings')
+      .select('setting_value, updated_at')
+      .eq('setting_key', 'guardrail_policy')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching guardrail policy:', error)
+      return NextResponse.json({ error: 'Failed to fetch guardrail policy' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      policy: resolveGuardrailPolicy(setting?.setting_value),
+      updatedAt: setting?.updated_at || null
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/guardrails:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const policy = GuardrailPolicySchema.parse(await request.json())
+    policy.blockedTopics.topics = policy.blockedTopics.topics.filter(Boolean)
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('system_settings')
+      .upsert({
+        setting_key: 'guardrail_policy',
+        setting_value: policy,
+        setting_type: 'json',
+        category: 'security',
+        description: 'Input and output checks applied to every agent, in addition to its own guardrails',
+        is_public: false,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'setting_key'
+      })
+
+    if (error) {
+      console.error('Error saving guardrail policy:', error)
+      return NextResponse.json({ error: 'Failed to save guardrail policy' }, { status: 500 })
+    }
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid guardrail policy', details: error.errors }, { status: 400 })
+    }
+    console.error('Error in PUT /api/admin/guardrails:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdminEmail } from '@/lib/utils/admin-access'
+import { getCircuitBreaker } from '@/lib/ai/circuit-breaker'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdminEmail(user.email)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const breaker = getCircuitBreaker()
+    const circuits = await breaker.getSnapshots()
+
+    // shared is false when circuits are only this instance's view
+    return NextResponse.json({ circuits, shared: breaker.isShared() })
+  } catch (error: any) {
+    console.error('Error fetching provider circuits:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch provider circuits' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { z } from 'zod'
+import { isAdminEmail } from '@/lib/utils/admin-access'
+import { UpdateProviderSchema } from '@/lib/ai/provider-schema'
+import { saveProviderModels } from '@/lib/ai/registered-providers'
+
+async function isAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { ok: false, status: 401 }
+  if (!isAdminEmail(user.email)) return { ok: false, status: 403 }
+  return { ok: true, status: 200 }
+}
+
+// Only registered providers can be changed here, never the built-in ones
+async function getRegisteredProvider(providerId: string) {
+  const supabase = createServiceClient()
+  const { data: provider } = await supabase
+    .from('ai_providers')
+    .select('id, name')
+    .eq('id', providerId)
+    .eq('provider_class', 'CustomProvider')
+    .eq('is_builtin', false)
+    .maybeSingle()
+
+  return provider
+}
+
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ providerId: string }> }
+) {
+  const params = await props.params
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const provider = await getRegisteredProvider(params.providerId)
+    if (!provider) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    const input = UpdateProviderSchema.parse(await request.json())
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (input.displayName !== undefined) updates.display_name = input.displayName
+    if (input.apiBaseUrl !== undefined) updates.api_base_url = input.apiBaseUrl
+    if (input.authHeaderName !== undefined) updates.auth_header_name = input.authHeaderName
+    if (input.authHeaderPrefix !== undefined) updates.auth_header_prefix = input.authHeaderPrefix
+    if (input.apiKeyEnvVar !== undefined) {
+      updates.api_key_env_var = input.apiKeyEnvVar
+      updates.required_env_vars = input.apiKeyEnvVar ? [input.apiKeyEnvVar] : []
+    }
+    if (input.headers !== undefined) updates.default_headers = input.headers
+    if (input.queryParams !== undefined) updates.query_params = input.queryParams
+    if (input.responseMapping !== undefined) updates.response_mapping = input.responseMapping
+    if (input.isActive !== undefined) updates.is_active = input.isActive
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('ai_providers')
+      .update(updates)
+      .eq('id', provider.id)
+
+    if (error) {
+      console.error('Error updating provider:', error)
+      return NextResponse.json({ error: 'Failed to update provider' }, { status: 500 })
+    }
+
+    if (input.models) {
+      await saveProviderModels(provider, input.models)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error in PATCH /api/admin/providers/[providerId]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ providerId: string }> }
+) {
+  const params = await props.params
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const provider = await getRegisteredProvider(params.providerId)
+    if (!provider) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    const supabase = createServiceClient()
+
+    // Agents may still reference the models, so they're deactivated rather than deleted
+    await supabase
+      .from('ai_models')
+      .update({ is_active: false, provider_id: null, updated_at: new Date().toISOString() })
+      .eq('provider', provider.name)
+
+    const { error } = await supabase
+      .from('ai_providers')
+      .delete()
+      .eq('id', provider.id)
+
+    if (error) {
+      console.error('Error deleting provider:', error)
+      return NextResponse.json({ error: 'Failed to delete provider' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/providers/[providerId]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
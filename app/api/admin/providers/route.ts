@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { z } from 'zod'
+import { isAdminEmail } from '@/lib/utils/admin-access'
+import { CreateProviderSchema } from '@/lib/ai/provider-schema'
+import { listRegisteredProviders, saveProviderModels } from '@/lib/ai/registered-providers'
+
+// Registered OpenAI-compatible providers. ai_providers has no RLS, so the
+// platform admin check happens here and writes use the service role.
+
+async function isAdmin() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { ok: false, status: 401 }
+  if (!isAdminEmail(user.email)) return { ok: false, status: 403 }
+  return { ok: true, status: 200 }
+}
+
+export async function GET() {
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const providers = await listRegisteredProviders()
+    return NextResponse.json({ providers })
+  } catch (error) {
+    console.error('Error in GET /api/admin/providers:', error)
+    return NextResponse.json({ error: 'Failed to fetch providers' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await isAdmin()
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 401 ? 'Unauthorized' : 'Admin access required' }, { status: access.status })
+    }
+
+    const input = CreateProviderSchema.parse(await request.json())
+    const supabase = createServiceClient()
+
+    const { data: existing } = await supabase
+      .from('ai_providers')
+      .select('id')
+      .eq('name', input.name)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json({ error: `A provider named ${input.name} already exists` }, { status: 409 })
+    }
+
+    const { data: provider, error } = await supabase
+      .from('ai_providers')
+      .insert({
+        name: input.name,
+        display_name: input.displayName,
+        provider_class: 'CustomProvider',
+        api_base_url: input.apiBaseUrl,
+        auth_header_name: input.authHeaderName,
+        auth_header_prefix: input.authHeaderPrefix,
+        api_key_env_var: input.apiKeyEnvVar,
+        required_env_vars: input.apiKeyEnvVar ? [input.apiKeyEnvVar] : [],
+        default_headers: input.headers,
+        query_params: input.queryParams,
+        response_mapping: input.responseMapping,
+        features: { streaming: true, functions: false, vision: false },
+        is_active: input.isActive,
+        is_builtin: false
+      })
+      .select('id, name')
+      .single()
+
+    if (error || !provider) {
+      console.error('Error creating provider:', error)
+      return NextResponse.json({ error: 'Failed to create provider' }, { status: 500 })
+    }
+
+    await saveProviderModels(provider, input.models)
+
+    return NextResponse.json({ provider }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error in POST /api/admin/providers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
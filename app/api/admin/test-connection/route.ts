@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AnthropicProvider } from '@/lib/ai/providers/anthropic'
+import { loadRegisteredProvider } from '@/lib/ai/registered-providers'
 
 export async function POST(request: NextRequest) {
   try {
-    const { provider, modelId } = await request.json()
+    const body = await request.json()
+    // The admin Models page sends the whole model row
+    const provider = body.provider ?? body.model?.provider
+    const modelId = body.modelId ?? body.model?.model_id
 
     switch (provider) {
       case 'openai': {
@@ -147,36 +152,51 @@ export async function POST(request: NextRequest) {
       }
 
       case 'anthropic': {
-        const apiKey = process.env.ANTHROPIC_API_KEY
-        if (!apiKey) {
+        const anthropic = new AnthropicProvider()
+        await anthropic.initialize({})
+        if (!anthropic.isConfigured()) {
           return NextResponse.json({
             success: false,
             error: 'Anthropic API key not configured',
-            provider: 'anthropic'
+            provider: 'anthropic',
+            modelId
           })
         }
 
-        // Test Anthropic connection with minimal completion (1-2 tokens max)
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01',
-            'content-type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'claude-3-haiku-20240307', // Cheapest model
-            messages: [{ role: 'user', content: 'Hi' }],
-            max_tokens: 1 // Minimum tokens
+        // If testing specific model, make minimal completion through the provider chat uses
+        if (modelId) {
+          try {
+            await anthropic.chat({
+              model: modelId,
+              messages: [{ role: 'user', content: 'Say "test"' }],
+              maxTokens: 5,
+              temperature: 0
+            })
+          } catch (error: any) {
+            return NextResponse.json({
+              success: false,
+              error: `Model ${modelId} test failed`,
+              details: error.message,
+              provider: 'anthropic',
+              modelId
+            })
+          }
+
+          return NextResponse.json({
+            success: true,
+            message: `Model ${modelId} working correctly`,
+            provider: 'anthropic',
+            modelId
           })
-        })
+        }
 
-        if (!response.ok) {
-          const error = await response.text()
+        // Otherwise test general connection
+        const health = await anthropic.healthCheck()
+        if (!health.isHealthy) {
           return NextResponse.json({
             success: false,
-            error: `Anthropic API error: ${response.status}`,
-            details: error,
+            error: 'Anthropic API error',
+            details: health.error,
             provider: 'anthropic'
           })
         }
@@ -259,11 +279,67 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      default:
+      default: {
+        const registered = provider ? await loadRegisteredProvider(provider) : null
+        if (!registered) {
+          return NextResponse.json({
+            success: false,
+            error: `Unknown provider: ${provider}`
+          })
+        }
+        if (!registered.isConfigured()) {
+          return NextResponse.json({
+            success: false,
+            error: `${provider} is missing its base URL or API key`,
+            provider,
+            modelId
+          })
+        }
+
+        // If testing specific model, make minimal completion
+        if (modelId) {
+          try {
+            await registered.chat({
+              model: modelId,
+              messages: [{ role: 'user', content: 'Say "test"' }],
+              maxTokens: 5,
+              temperature: 0
+            })
+          } catch (error: any) {
+            return NextResponse.json({
+              success: false,
+              error: `Model ${modelId} test failed`,
+              details: error.message,
+              provider,
+              modelId
+            })
+          }
+
+          return NextResponse.json({
+            success: true,
+            message: `Model ${modelId} working correctly`,
+            provider,
+            modelId
+          })
+        }
+
+        // Otherwise test general connection
+        const health = await registered.healthCheck()
+        if (!health.isHealthy) {
+          return NextResponse.json({
+            success: false,
+            error: `${provider} API error`,
+            details: health.error,
+            provider
+          })
+        }
+
         return NextResponse.json({
-          success: false,
-          error: `Unknown provider: ${provider}`
+          success: true,
+          message: `${provider} connection successful`,
+          provider
         })
+      }
     }
   } catch (error: any) {
     console.error('Connection test error:', error)
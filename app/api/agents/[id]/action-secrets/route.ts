@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { z } from 'zod'
+import { SecretSchema } from '@/lib/actions/schema'
+import { encryptSecret, isEncryptionConfigured } from '@/lib/utils/encryption'
+
+// Secrets are stored encrypted, with the service role only; the API checks
+// ownership first and never returns values, just names
+
+async function getOwnedAgent(agentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { agent: null, status: 401 }
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, project_id, projects!inner(owner_id)')
+    .eq('id', agentId)
+    .single()
+
+  if (!agent || (agent as any).projects.owner_id !== user.id) {
+    return { agent: null, status: 404 }
+  }
+
+  return { agent, status: 200 }
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const serviceClient = createServiceClient()
+    const { data: secrets, error } = await serviceClient
+      .from('agent_action_secrets')
+      .select('name, updated_at')
+      .eq('agent_id', params.id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching secrets:', error)
+      return NextResponse.json({ error: 'Failed to fetch secrets' }, { status: 500 })
+    }
+
+    return NextResponse.json({ secrets: secrets || [] })
+  } catch (error) {
+    console.error('Get secrets error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Create or replace a secret
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    if (!isEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'Storing secrets is not enabled on this server' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = SecretSchema.parse(body)
+
+    const serviceClient = createServiceClient()
+    const { error } = await serviceClient
+      .from('agent_action_secrets')
+      .upsert({
+        agent_id: params.id,
+        project_id: agent.project_id,
+        name: validatedData.name,
+        encrypted_value: encryptSecret(validatedData.value),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'agent_id,name' })
+
+    if (error) {
+      console.error('Error saving secret:', error)
+      return NextResponse.json({ error: 'Failed to save secret' }, { status: 500 })
+    }
+
+    return NextResponse.json({ name: validatedData.name })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Save secret error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const name = request.nextUrl.searchParams.get('name')
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 })
+    }
+
+    const serviceClient = createServiceClient()
+    const { error } = await serviceClient
+      .from('agent_action_secrets')
+      .delete()
+      .eq('agent_id', params.id)
+      .eq('name', name)
+
+    if (error) {
+      console.error('Error deleting secret:', error)
+      return NextResponse.json({ error: 'Failed to delete secret' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete secret error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { UpdateActionSchema, parseActionConfig } from '@/lib/actions/schema'
+
+async function getOwnedAction(agentId: string, actionId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, action: null, status: 401 }
+  }
+
+  const { data: action } = await supabase
+    .from('agent_actions')
+    .select('*, projects!inner(owner_id)')
+    .eq('id', actionId)
+    .eq('agent_id', agentId)
+    .single()
+
+  if (!action || (action as any).projects.owner_id !== user.id) {
+    return { supabase, action: null, status: 404 }
+  }
+
+  return { supabase, action, status: 200 }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; actionId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, action, status } = await getOwnedAction(params.id, params.actionId)
+
+    if (!action) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Action not found' }, { status })
+    }
+
+    const body = await request.json()
+    const validatedData = UpdateActionSchema.parse(body)
+
+    const updates: Record<string, any> = {
+      ...validatedData,
+      updated_at: new Date().toISOString()
+    }
+    if (validatedData.config) {
+      updates.config = parseActionConfig(action.type, validatedData.config)
+    }
+
+    const { data: updated, error } = await supabase
+      .from('agent_actions')
+      .update(updates)
+      .eq('id', params.actionId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `An action named ${validatedData.name} already exists` }, { status: 409 })
+      }
+      console.error('Error updating action:', error)
+      return NextResponse.json({ error: 'Failed to update action' }, { status: 500 })
+    }
+
+    return NextResponse.json({ action: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Update action error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; actionId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, action, status } = await getOwnedAction(params.id, params.actionId)
+
+    if (!action) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Action not found' }, { status })
+    }
+
+    const { error } = await supabase
+      .from('agent_actions')
+      .delete()
+      .eq('id', params.actionId)
+
+    if (error) {
+      console.error('Error deleting action:', error)
+      return NextResponse.json({ error: 'Failed to delete action' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete action error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
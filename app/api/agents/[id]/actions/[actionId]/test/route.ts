@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { ActionExecutor } from '@/lib/services/action-executor'
+import { checkRateLimit } from '@/lib/utils/security'
+import type { AgentAction } from '@/lib/types/actions'
+
+const TestActionSchema = z.object({
+  arguments: z.record(z.any()).default({})
+})
+
+/**
+ * Test-run an action with hand-written arguments, enabled or not
+ * Returns the tool output plus the request/response trace (secrets masked)
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; actionId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: action } = await supabase
+      .from('agent_actions')
+      .select('*, projects!inner(owner_id)')
+      .eq('id', params.actionId)
+      .eq('agent_id', params.id)
+      .single()
+
+    if (!action || (action as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Action not found' }, { status: 404 })
+    }
+
+    const rateLimit = await checkRateLimit(`action-test:${user.id}`, 20, 60000) // 20 runs per minute
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetTime - Date.now()) / 1000)} seconds` },
+        { status: 429 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = TestActionSchema.parse(body)
+
+    const executor = new ActionExecutor([action as unknown as AgentAction], {
+      agentId: params.id,
+      projectId: action.project_id,
+      sessionId: `test_${Date.now()}`
+    })
+
+    const result = await executor.execute({
+      id: `test-${Date.now()}`,
+      name: action.name,
+      arguments: validatedData.arguments
+    })
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Test action error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { CreateActionSchema, parseActionConfig } from '@/lib/actions/schema'
+
+async function getOwnedAgent(agentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, agent: null, status: 401 }
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, project_id, projects!inner(owner_id)')
+    .eq('id', agentId)
+    .single()
+
+  if (!agent || (agent as any).projects.owner_id !== user.id) {
+    return { supabase, agent: null, status: 404 }
+  }
+
+  return { supabase, agent, status: 200 }
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const { data: actions, error } = await supabase
+      .from('agent_actions')
+      .select('*')
+      .eq('agent_id', params.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching actions:', error)
+      return NextResponse.json({ error: 'Failed to fetch actions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ actions: actions || [] })
+  } catch (error) {
+    console.error('Get actions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Create an action; it is offered to the model on the agent's next message
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const body = await request.json()
+    const validatedData = CreateActionSchema.parse(body)
+    const config = parseActionConfig(validatedData.type, validatedData.config)
+
+    const { data: action, error } = await supabase
+      .from('agent_actions')
+      .insert({
+        agent_id: params.id,
+        project_id: agent.project_id,
+        type: validatedData.type,
+        name: validatedData.name,
+        description: validatedData.description,
+        parameters: validatedData.parameters as Record<string, any>,
+        config,
+        enabled: validatedData.enabled ?? true
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // 23505: unique (agent_id, name)
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `An action named ${validatedData.name} already exists` }, { status: 409 })
+      }
+      console.error('Error creating action:', error)
+      return NextResponse.json({ error: 'Failed to create action' }, { status: 500 })
+    }
+
+    return NextResponse.json({ action }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Create action error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const MAX_LIMIT = 100
+
+/**
+ * Latest activity of an agent, newest first; ?sourceId= narrows it to one
+ * source and ?limit= caps the count (20 by default)
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_LIMIT)
+    const sourceId = searchParams.get('sourceId')
+
+    let query = supabase
+      .from('agent_activities')
+      .select('*')
+      .eq('agent_id', params.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (sourceId) {
+      query = query.eq('source_id', sourceId)
+    }
+
+    const { data: activities, error } = await query
+    if (error) {
+      console.error('Error fetching activity:', error)
+      return NextResponse.json({ error: 'Failed to fetch activity' }, { status: 500 })
+    }
+
+    return NextResponse.json({ activities: activities || [] })
+  } catch (error) {
+    console.error('Get activity error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { queueConversationAnalysis } from '@/lib/queue/analysis-processor'
+import { ConversationAnalyzer } from '@/lib/services/conversation-analyzer'
+import { checkRateLimit } from '@/lib/utils/security'
+
+// Conversations analyzed inline when the queue isn't available
+const INLINE_LIMIT = 20
+
+/**
+ * Analyze conversations now instead of waiting for the scheduled run
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, project_id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const rateLimit = await checkRateLimit(`analytics-analyze:${params.id}`, 3, 60000)
+    if (!rateLimit.allowed) {
+      return NextResponse.json({ error: 'Analysis was just started, try again in a minute' }, { status: 429 })
+    }
+
+    const job = { agentId: params.id, projectId: agent.project_id }
+    const jobId = await queueConversationAnalysis(job, { delay: 0, jobId: `analysis-${params.id}-${Date.now()}` })
+    if (jobId) {
+      return NextResponse.json({ queued: true, jobId })
+    }
+
+    const stats = await new ConversationAnalyzer(job.agentId, job.projectId).run(INLINE_LIMIT)
+    return NextResponse.json({ queued: false, stats })
+  } catch (error: any) {
+    console.error('Analyze conversations error:', error)
+    return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { DailySentiment, resolveDateRange } from '@/lib/types/analytics'
+
+/**
+ * Daily conversation sentiment for ?from=YYYY-MM-DD&to=YYYY-MM-DD (last 30 days by default)
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const { from, to } = resolveDateRange(request.nextUrl.searchParams)
+
+    const { data: rows, error } = await supabase
+      .from('analytics_daily_sentiment')
+      .select('day, positive, neutral, negative, avg_score')
+      .eq('agent_id', params.id)
+      .gte('day', from)
+      .lte('day', to)
+      .order('day', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching sentiment:', error)
+      return NextResponse.json({ error: 'Failed to fetch sentiment' }, { status: 500 })
+    }
+
+    const daily: DailySentiment[] = rows || []
+    const totals = daily.reduce(
+      (sum, day) => ({
+        positive: sum.positive + day.positive,
+        neutral: sum.neutral + day.neutral,
+        negative: sum.negative + day.negative,
+        weightedScore: sum.weightedScore + (day.avg_score || 0) * (day.positive + day.neutral + day.negative)
+      }),
+      { positive: 0, neutral: 0, negative: 0, weightedScore: 0 }
+    )
+    const conversations = totals.positive + totals.neutral + totals.negative
+
+    const { data: latest } = await supabase
+      .from('conversation_analyses')
+      .select('analyzed_at')
+      .eq('agent_id', params.id)
+      .order('analyzed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return NextResponse.json({
+      from,
+      to,
+      daily,
+      totals: {
+        conversations,
+        positive: totals.positive,
+        neutral: totals.neutral,
+        negative: totals.negative,
+        avgScore: conversations > 0 ? totals.weightedScore / conversations : null
+      },
+      lastAnalyzedAt: latest?.analyzed_at || null
+    })
+  } catch (error) {
+    console.error('Get sentiment error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { resolveDateRange } from '@/lib/types/analytics'
+
+/**
+ * Questions in a topic asked in ?from=YYYY-MM-DD&to=YYYY-MM-DD, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; topicId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: topic } = await supabase
+      .from('conversation_topics')
+      .select('id, label, sample_questions, projects!inner(owner_id)')
+      .eq('id', params.topicId)
+      .eq('agent_id', params.id)
+      .single()
+
+    if (!topic || (topic as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Topic not found' }, { status: 404 })
+    }
+
+    const { from, to } = resolveDateRange(request.nextUrl.searchParams)
+
+    const { data: questions, error } = await supabase
+      .from('message_topics')
+      .select('message_id, conversation_id, question, asked_at')
+      .eq('topic_id', params.topicId)
+      .gte('asked_at', `${from}T00:00:00Z`)
+      .lte('asked_at', `${to}T23:59:59.999Z`)
+      .order('asked_at', { ascending: false })
+      .limit(100)
+
+    if (error) {
+      console.error('Error fetching topic questions:', error)
+      return NextResponse.json({ error: 'Failed to fetch topic questions' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      topic: { id: topic.id, label: topic.label, sample_questions: topic.sample_questions },
+      questions: questions || []
+    })
+  } catch (error) {
+    console.error('Get topic questions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { resolveDateRange, TopicSummary } from '@/lib/types/analytics'
+
+/**
+ * Topics asked about in ?from=YYYY-MM-DD&to=YYYY-MM-DD, most asked first
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const { from, to } = resolveDateRange(request.nextUrl.searchParams)
+
+    const { data: rows, error } = await supabase
+      .from('analytics_daily_topics')
+      .select('topic_id, day, question_count, conversation_count')
+      .eq('agent_id', params.id)
+      .gte('day', from)
+      .lte('day', to)
+
+    if (error) {
+      console.error('Error fetching topics:', error)
+      return NextResponse.json({ error: 'Failed to fetch topics' }, { status: 500 })
+    }
+
+    // Conversation counts are per day, so a conversation spanning days counts once per day
+    const counts = new Map<string, { questions: number; conversations: number }>()
+    for (const row of rows || []) {
+      const entry = counts.get(row.topic_id) || { questions: 0, conversations: 0 }
+      entry.questions += row.question_count
+      entry.conversations += row.conversation_count
+      counts.set(row.topic_id, entry)
+    }
+
+    let topics: TopicSummary[] = []
+    if (counts.size > 0) {
+      const { data: details } = await supabase
+        .from('conversation_topics')
+        .select('id, label, sample_questions')
+        .in('id', Array.from(counts.keys()))
+
+      topics = (details || [])
+        .map(topic => ({
+          ...topic,
+          question_count: counts.get(topic.id)?.questions || 0,
+          conversation_count: counts.get(topic.id)?.conversations || 0
+        }))
+        .sort((a, b) => b.question_count - a.question_count)
+    }
+
+    return NextResponse.json({
+      from,
+      to,
+      topics,
+      totalQuestions: topics.reduce((sum, topic) => sum + topic.question_count, 0)
+    })
+  } catch (error) {
+    console.error('Get topics error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
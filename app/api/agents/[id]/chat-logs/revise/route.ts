@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { KnowledgeGapService } from '@/lib/services/knowledge-gap-service'
 
 export async function POST(
   request: NextRequest,
@@ -19,7 +20,8 @@ export async function POST(
       originalQuestion,
       originalAnswer,
       revisedAnswer,
-      confidenceScore
+      confidenceScore,
+      gapId
     } = body
     const { id: agentId } = await params
 
@@ -100,10 +102,17 @@ export async function POST(
 
     if (chunkError) throw chunkError
 
+    // The new Q&A answers the knowledge gap this message was flagged under
+    const gaps = new KnowledgeGapService(agentId, agent.project_id, supabase)
+    const resolvedGapId = gapId
+      ? (await gaps.setStatus(gapId, 'resolved', qaSource.id)).id
+      : await gaps.resolveForMessage(messageId, qaSource.id)
+
     return NextResponse.json({
       success: true,
       message: 'Answer revised and added to training set',
-      qaSourceId: qaSource.id
+      qaSourceId: qaSource.id,
+      resolvedGapId
     })
 
   } catch (error) {
@@ -1,5 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { resolveDateRange, SENTIMENTS, Sentiment } from '@/lib/types/analytics'
+import { ChatImageStore } from '@/lib/services/chat-images'
 
 export async function GET(
   request: NextRequest,
@@ -18,9 +20,50 @@ export async function GET(
     const source = searchParams.get('source')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
+    const sentiment = searchParams.get('sentiment')
+    const topicId = searchParams.get('topicId')
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
 
+    // Analytics drill-downs narrow to the conversations counted on the charts,
+    // using the same from/to days the analytics routes aggregate over
+    let analyticsIds: string[] | null = null
+    if (sentiment || topicId) {
+      const { from, to } = resolveDateRange(searchParams)
+
+      if (sentiment) {
+        if (!SENTIMENTS.includes(sentiment as Sentiment)) {
+          return NextResponse.json({ error: 'Invalid sentiment' }, { status: 400 })
+        }
+        const { data: analyses } = await supabase
+          .from('conversation_analyses')
+          .select('conversation_id')
+          .eq('agent_id', agentId)
+          .eq('sentiment', sentiment)
+          .gte('conversation_date', from)
+          .lte('conversation_date', to)
+        analyticsIds = (analyses || []).map(row => row.conversation_id)
+      }
+
+      if (topicId) {
+        const { data: questions } = await supabase
+          .from('message_topics')
+          .select('conversation_id')
+          .eq('agent_id', agentId)
+          .eq('topic_id', topicId)
+          .gte('asked_at', `${from}T00:00:00Z`)
+          .lte('asked_at', `${to}T23:59:59.999Z`)
+        const topicIds = new Set((questions || []).map(row => row.conversation_id))
+        analyticsIds = analyticsIds
+          ? analyticsIds.filter(id => topicIds.has(id))
+          : Array.from(topicIds)
+      }
+
+      if (!analyticsIds || analyticsIds.length === 0) {
+        return NextResponse.json({ conversations: [], total: 0, limit, offset })
+      }
+    }
+
     // Build query
     let query = supabase
       .from('conversations')
@@ -33,6 +76,7 @@ export async function GET(
           created_at,
           confidence_score,
           source_chunks,
+          embedding_search_query,
           metadata,
           revised_at,
           original_content
@@ -48,6 +92,10 @@ export async function GET(
       query = query.eq('source', source)
     }
 
+    if (analyticsIds) {
+      query = query.in('id', analyticsIds)
+    }
+
     if (startDate) {
       query = query.gte('started_at', startDate)
     }
@@ -60,10 +108,32 @@ export async function GET(
 
     if (error) throw error
 
+    // Chat images are private; messages keep storage paths, which are signed
+    // here. Older messages hold full URLs and pass through unchanged.
+    const imagePaths = (conversations || []).flatMap(conv =>
+      ((conv as any).messages || []).flatMap((message: any) =>
+        (message.metadata?.images || []).filter((image: string) => !/^https?:\/\//i.test(image))
+      )
+    )
+    const signedImages = imagePaths.length > 0
+      ? await new ChatImageStore(agentId).signedUrls(imagePaths)
+      : {}
+    const withSignedImages = (message: any) => message.metadata?.images?.length > 0
+      ? {
+          ...message,
+          metadata: {
+            ...message.metadata,
+            images: message.metadata.images
+              .map((image: string) => /^https?:\/\//i.test(image) ? image : signedImages[image])
+              .filter(Boolean)
+          }
+        }
+      : message
+
     // Process conversations to add relative time and format data
     const processedConversations = conversations?.map(conv => ({
       ...conv,
-      messages: conv.messages?.sort((a: any, b: any) =>
+      messages: conv.messages?.map(withSignedImages).sort((a: any, b: any) =>
         new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       )
     }))
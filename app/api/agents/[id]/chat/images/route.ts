@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ChatImageStore } from '@/lib/services/chat-images'
+import { CHAT_IMAGE_TYPES, MAX_CHAT_IMAGE_BYTES, MAX_CHAT_IMAGES } from '@/lib/types/chat-images'
+
+/**
+ * Upload images to send with the next chat message
+ * Takes multipart form data with one or more "images" files and returns
+ * their storage URLs, which go in the chat request's images field.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const files = formData.getAll('images').filter((file): file is File => file instanceof File && file.size > 0)
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No images provided' }, { status: 400 })
+    }
+    if (files.length > MAX_CHAT_IMAGES) {
+      return NextResponse.json({ error: `Send at most ${MAX_CHAT_IMAGES} images at a time` }, { status: 400 })
+    }
+
+    const invalid = files.find(file => !CHAT_IMAGE_TYPES.includes(file.type) || file.size > MAX_CHAT_IMAGE_BYTES)
+    if (invalid) {
+      return NextResponse.json({
+        error: `${invalid.name} must be a JPEG, PNG, GIF or WebP image under ${MAX_CHAT_IMAGE_BYTES / 1024 / 1024}MB`
+      }, { status: 400 })
+    }
+
+    const store = new ChatImageStore(agent.id)
+    const images = await Promise.all(files.map(file => store.store(file, file.type)))
+
+    return NextResponse.json({ images })
+  } catch (error: any) {
+    console.error('Chat image upload error:', error)
+    return NextResponse.json({ error: error.message || 'Failed to upload images' }, { status: 500 })
+  }
+}
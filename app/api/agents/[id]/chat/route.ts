@@ -1,39 +1,97 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
-import { ChatMessage } from '@/lib/ai/providers/base'
-import { EmbeddingService } from '@/lib/services/embedding-service'
+import { createServiceClient } from '@/lib/supabase/service'
+import { chatWithProjectCredentials, streamWithProjectCredentials } from '@/lib/ai/server-utils'
+import { ChatMessage, ToolDefinition } from '@/lib/ai/providers/base'
+import { prepareImages } from '@/lib/ai/utils/images'
+import { HybridRetriever } from '@/lib/services/hybrid-retriever'
+import { ChatImageStore } from '@/lib/services/chat-images'
+import { IMAGE_ONLY_MESSAGE, MAX_CHAT_IMAGES } from '@/lib/types/chat-images'
+import { QueryRewriter } from '@/lib/services/query-rewriter'
+import { resolveRetrievalSettings } from '@/lib/types/retrieval'
 import { modelService } from '@/lib/services/model-service'
 import { z } from 'zod'
 import { injectLinksIntoResponse, extractLinksFromText, type ExtractedLink } from '@/lib/utils/link-extractor'
-import { getProviderManager } from '@/lib/ai/provider-manager'
+import { planRoute, runRoute } from '@/lib/ai/model-router'
+import { resolveRoutingPolicy, RoutingDecision } from '@/lib/types/routing'
+import { buildPromptContext, smallestContextWindow } from '@/lib/ai/context-budget'
+import { mayUsePlatformKeys, ProjectCredentialError } from '@/lib/ai/project-credentials'
+import { formatSSE, SSE_HEADERS } from '@/lib/utils/sse'
+import { isInternalRequest } from '@/lib/utils/security'
+import { ActionExecutor, ToolLoopResult } from '@/lib/services/action-executor'
+import type { ToolCallRecord } from '@/lib/types/actions'
+import { resolveLeadFormSettings } from '@/lib/types/leads'
+import { isLeadFormDue, leadFormActions, leadFormInstructions, SHOW_LEAD_FORM_TOOL } from '@/lib/actions/lead-form'
+import { queueConversationAnalysis } from '@/lib/queue/analysis-processor'
+import { queueMemoryRefresh } from '@/lib/queue/memory-processor'
+import { ConversationMemory, formatConversationSummary } from '@/lib/services/conversation-memory'
+import { resolveMemorySettings } from '@/lib/types/memory'
+import { Guardrails } from '@/lib/services/guardrails'
+import type { GuardrailVerdict } from '@/lib/types/guardrails'
+import { detectKnowledgeGap, KnowledgeGapService } from '@/lib/services/knowledge-gap-service'
+import { resolveKnowledgeGapSettings } from '@/lib/types/knowledge-gaps'
+import type { Citation } from '@/lib/types/citations'
+import { CitableContext, CITATION_INSTRUCTIONS, CitationStream, extractCitations, formatCitableContexts } from '@/lib/utils/citations'
+
+// Links listed in the prompt from crawled content; a docs page can hold hundreds
+const MAX_CONTEXT_LINKS = 30
 
 const ChatRequestSchema = z.object({
-  message: z.string().min(1),
+  message: z.string().default(''),
+  // Signed URLs (or storage paths) returned by /api/agents/[id]/chat/images
+  images: z.array(z.string()).max(MAX_CHAT_IMAGES).optional().default([]),
   sessionId: z.string().optional(),
   useRAG: z.boolean().optional().default(true),
   maxContextChunks: z.number().optional().default(5),
   similarityThreshold: z.number().optional().default(0.7),
   sourceTypes: z.array(z.string()).optional(),
   model: z.string().optional(),
-  temperature: z.number().optional()
+  temperature: z.number().optional(),
+  stream: z.boolean().optional().default(false),
+  // Where the visitor is chatting; messaging channels collect lead details conversationally
+  channel: z.enum(['web', 'messenger', 'instagram']).optional().default('web')
+}).refine(data => data.message.trim().length > 0 || data.images.length > 0, {
+  message: 'A message or an image is required',
+  path: ['message']
 })
 
+// A retrieved chunk, joined with its source, as a numbered prompt context
+function toCitableContext(chunk: any): CitableContext {
+  return {
+    sourceId: chunk.sourceId || null,
+    sourceName: chunk.source?.name || 'Unknown',
+    sourceType: chunk.source?.type || 'unknown',
+    content: chunk.content,
+    chunkMetadata: chunk.metadata,
+    sourceMetadata: chunk.sourceMetadata
+  }
+}
 
 /**
  * RAG-Enhanced Chat Endpoint
  *
  * WORKFLOW:
- * 1. User sends a question
- * 2. Backend embeds the question using EmbeddingService
- * 3. Search vector database (pgvector) for top N similar chunks
+ * 1. User sends a question, optionally with images uploaded beforehand.
+ *    Input guardrails may mask parts of it, or block or hand it off
+ *    without calling a model
+ * 2. Backend rewrites the question into standalone search queries using the
+ *    conversation (per the agent's retrieval settings) and embeds them
+ * 3. Search vector database (pgvector) for top N similar chunks, fused with
+ *    full-text keyword hits when the agent uses hybrid retrieval
  * 4. Stack prompts in this specific order:
  *    - Hidden prompt (master system rules - not visible to clients)
  *    - Client prompt (agent's custom prompt/persona - visible to clients)
+ *    - Conversation summary (turns older than the recent ones sent verbatim)
  *    - RAG context (retrieved knowledge chunks)
  *    - User message (the actual question)
- * 5. Send everything to LLM (OpenAI, Anthropic, etc.)
- * 6. Return ONLY the assistant's reply to user
+ *    Knowledge and history are trimmed to the models' context window,
+ *    least similar chunks and oldest messages first
+ * 5. Send everything to LLM (OpenAI, Anthropic, etc.) along with the agent's
+ *    enabled actions as tools; tool calls are run server-side and their
+ *    results sent back until the model answers. Images go to models that
+ *    support vision; others are told what was attached
+ * 6. Return ONLY the assistant's reply to user, once the output guardrails
+ *    have checked it (as JSON, or as server-sent events when `stream: true`)
  *
  * The hidden prompt acts as a "constitution" for safety and core rules,
  * the client prompt provides brand/tone customization,
@@ -45,18 +103,35 @@ export async function POST(
 ) {
   const params = await props.params
   try {
-    const supabase = await createClient()
+    // Messaging webhooks call in server-to-server, without a user session
+    const internal = isInternalRequest(request)
+    const supabase = internal ? createServiceClient() : await createClient()
 
     // Check authentication
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    let userId: string | undefined
+    if (!internal) {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      userId = user.id
     }
 
     const agentId = params.id
     const body = await request.json()
     const validatedData = ChatRequestSchema.parse(body)
 
+    // Only images uploaded for this agent are accepted
+    const images = await new ChatImageStore(agentId).resolve(validatedData.images)
+    const imageOnly = !validatedData.message.trim()
+    if (imageOnly && images.length === 0) {
+      return NextResponse.json({ error: 'Images must be uploaded through the chat images endpoint' }, { status: 400 })
+    }
+    // Picture-only messages still need text for history, routing and the logs
+    if (imageOnly) {
+      validatedData.message = IMAGE_ONLY_MESSAGE
+    }
+
     // Get agent details with prompt template
     const { data: agent, error: agentError } = await supabase
       .from('agents')
@@ -83,12 +158,150 @@ export async function POST(
       .eq('setting_key', 'master_system_prompt')
       .single()
 
-    // Build context using RAG if enabled
-    let context = ''
+    // Create session if needed
+    const sessionId = validatedData.sessionId || `session_${Date.now()}`
+
+    // Get or create conversation
+    let conversation
+    const { data: existingConv } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('agent_id', agentId)
+      .eq('session_id', sessionId)
+      .single()
+
+    if (existingConv) {
+      conversation = existingConv
+    } else {
+      const { data: newConv } = await supabase
+        .from('conversations')
+        .insert({
+          agent_id: agentId,
+          project_id: agent.project_id,
+          session_id: sessionId,
+          channel: validatedData.channel
+        })
+        .select()
+        .single()
+      conversation = newConv
+
+      // Log conversation start
+      if (conversation) {
+        await supabase
+          .from('usage_logs')
+          .insert({
+            project_id: agent.project_id,
+            agent_id: agentId,
+            type: 'event',
+            model: agent.model || 'gpt-3.5-turbo',
+            action: 'conversation_start',
+            credits_used: 0,
+            input_tokens: 0,
+            output_tokens: 0,
+            total_tokens: 0,
+            cost_usd: 0,
+            conversation_id: conversation.id
+          })
+      }
+    }
+
+    // Guardrails: the agent's own policy, or the platform's
+    const guardrails = await Guardrails.forAgent(agent, {
+      agentId,
+      projectId: agent.project_id,
+      model: validatedData.model || agent.model || '',
+      channel: validatedData.channel,
+      conversationId: conversation?.id,
+      userId
+    })
+
+    // Masked input is what gets searched, sent and stored
+    const inputVerdict = await guardrails.checkInput(validatedData.message)
+    if (inputVerdict.action === 'redact') {
+      validatedData.message = inputVerdict.text
+    }
+
+    // Blocked and handed-off messages never reach the model
+    if (inputVerdict.action === 'block' || inputVerdict.action === 'handoff') {
+      const response = inputVerdict.text
+
+      if (conversation) {
+        await supabase
+          .from('messages')
+          .insert([
+            {
+              conversation_id: conversation.id,
+              agent_id: agentId,
+              project_id: agent.project_id,
+              role: 'user',
+              content: validatedData.message,
+              rag_enabled: false,
+              metadata: {
+                guardrails: inputVerdict.triggers as Record<string, any>[],
+                ...(images.length > 0 && { images: images.map(image => image.path) })
+              }
+            },
+            {
+              conversation_id: conversation.id,
+              agent_id: agentId,
+              project_id: agent.project_id,
+              role: 'assistant',
+              content: response,
+              rag_enabled: false,
+              metadata: { guardrail: inputVerdict.action, streamed: validatedData.stream }
+            }
+          ])
+      }
+
+      const reply = {
+        response,
+        images: [],
+        sessionId,
+        tokensUsed: 0,
+        model: null,
+        ragEnabled: false,
+        contextUsed: 0,
+        citations: [],
+        showLeadForm: false
+      }
+
+      if (validatedData.stream) {
+        return new Response(formatSSE('done', { ...reply, contextChunks: [] }), { headers: SSE_HEADERS })
+      }
+      return NextResponse.json(reply)
+    }
+
+    // Conversation memory: the last few turns verbatim plus a summary of the rest
+    const memory = conversation
+      ? await new ConversationMemory(agentId, agent.project_id).load(conversation, resolveMemorySettings(agent.config))
+      : { summary: null, recent: [] as ChatMessage[], totalMessages: 0 }
+    const history = memory.recent
+    const summaryPrompt = formatConversationSummary(memory.summary)
+
+    if (conversation) {
+      console.log(`[Chat] Loaded conversation memory for session ${sessionId}:`, {
+        conversationId: conversation.id,
+        recentMessages: history.length,
+        totalMessages: memory.totalMessages,
+        hasSummary: !!memory.summary
+      })
+    }
+
+    // Knowledge the context budget picks from: relevant chunks when RAG is on,
+    // otherwise the agent's first sources
+    let relevantChunks: any[] = []
+    let fallbackSources: Array<{ name: string; type: string; content: string | null }> = []
     let contextChunks: any[] = []
-    let ragEnabled = validatedData.useRAG
+    // Numbered contexts the model can cite, in prompt order
+    let citableContexts: CitableContext[] = []
+    // Everything the retriever returned, kept for knowledge gap detection
+    let retrievedChunks: Array<{ similarity: number; matchedBy?: string[] }> = []
+    // A picture-only message has nothing to search the knowledge base for
+    let ragEnabled = validatedData.useRAG && !imageOnly
     let qaImages: string[] = []
     let contextLinks: ExtractedLink[] = [] // Collect all links from context
+    // Queries the knowledge base was searched with, one per line
+    let embeddingSearchQuery: string | null = null
 
     // Check if agent has embeddings
     if (ragEnabled) {
@@ -106,15 +319,32 @@ export async function POST(
       console.log(`[Chat] Using RAG for agent ${agentId}`)
 
       try {
-        // Use embedding service to find relevant chunks
-        const embeddingService = new EmbeddingService()
-        const similarChunks = await embeddingService.searchSimilarChunks(
-          agentId,
-          validatedData.message,
-          validatedData.maxContextChunks,
-          validatedData.similarityThreshold,
-          validatedData.sourceTypes
-        )
+        const retrievalSettings = resolveRetrievalSettings(agent.config)
+
+        // Follow-ups are searched as standalone questions, optionally with
+        // paraphrases and a hypothetical answer
+        const queryModel = retrievalSettings.queryModel || validatedData.model || agent.model
+        const searchQueries = queryModel
+          ? await new QueryRewriter(agent.project_id, queryModel).rewrite(validatedData.message, memory, retrievalSettings)
+          : { primary: validatedData.message, extra: [] }
+        embeddingSearchQuery = [searchQueries.primary, ...searchQueries.extra].join('\n')
+
+        // Hybrid (vector + keyword) retrieval using the agent's retrieval settings
+        const retriever = new HybridRetriever()
+        const similarChunks = await retriever.search(agentId, searchQueries.primary, {
+          limit: validatedData.maxContextChunks,
+          similarityThreshold: validatedData.similarityThreshold,
+          sourceTypes: validatedData.sourceTypes,
+          settings: retrievalSettings,
+          projectId: agent.project_id,
+          defaultModel: validatedData.model || agent.model || undefined,
+          extraQueries: searchQueries.extra
+        })
+
+        retrievedChunks = similarChunks
+
+        const isRelevantChunk = (chunk: any) =>
+          chunk.similarity >= validatedData.similarityThreshold || chunk.matchedBy?.includes('keyword')
 
         if (similarChunks.length > 0) {
           // Get source information for each chunk
@@ -135,6 +365,7 @@ export async function POST(
 
                 return {
                   ...chunk,
+                  sourceId: sourceChunk.source_id,
                   source: source,
                   sourceMetadata: source?.metadata,
                   sourceLinks: source?.links,
@@ -145,14 +376,10 @@ export async function POST(
             })
           )
 
-          // Build context from relevant chunks
-          context = chunksWithSources.map((chunk: any, index) => {
-            const sourceName = chunk.source?.name || 'Unknown'
-            const sourceType = chunk.source?.type || 'unknown'
-
-            // Collect images from Q&A sources
-            if (sourceType === 'qa' && chunk.sourceMetadata?.images?.length > 0) {
-              // Add unique images (avoid duplicates)
+          // Collect Q&A images and links from every retrieved chunk
+          chunksWithSources.forEach((chunk: any) => {
+            // Add unique images (avoid duplicates)
+            if (chunk.source?.type === 'qa' && chunk.sourceMetadata?.images?.length > 0) {
               chunk.sourceMetadata.images.forEach((img: string) => {
                 if (!qaImages.includes(img)) {
                   qaImages.push(img)
@@ -160,35 +387,27 @@ export async function POST(
               })
             }
 
-            // Collect links from sources
+            // Add link if not already in contextLinks (avoid duplicates)
             if (chunk.sourceLinks && Array.isArray(chunk.sourceLinks)) {
               chunk.sourceLinks.forEach((link: ExtractedLink) => {
-                // Add link if not already in contextLinks (avoid duplicates)
                 if (!contextLinks.find(l => l.url === link.url)) {
                   contextLinks.push(link)
                 }
               })
             }
 
-            // Format each chunk cleanly for LLM consumption
-            // Only include high-quality content (similarity > threshold)
-            if (chunk.similarity >= validatedData.similarityThreshold) {
-              return `### Context ${index + 1} (Source: ${sourceName})\n${chunk.content}`
+            // Crawled pages keep their links as Markdown [text](url)
+            if (chunk.source?.type === 'website' && typeof chunk.content === 'string') {
+              extractLinksFromText(chunk.content).forEach(link => {
+                if (link.verified && contextLinks.length < MAX_CONTEXT_LINKS && !contextLinks.find(l => l.url === link.url)) {
+                  contextLinks.push(link)
+                }
+              })
             }
-            return null
-          }).filter(Boolean).join('\n\n')
-
-          contextChunks = chunksWithSources
-            .filter((c: any) => c.similarity >= validatedData.similarityThreshold)
-            .slice(0, 5) // Keep only top 5 chunks
-            .map((c: any) => ({
-              id: c.id,
-              content: c.content,
-              similarity: c.similarity,
-              source: c.source?.name,
-              type: c.source?.type,
-              position: c.position
-            }))
+          })
+
+          // Relevant chunks only (similarity > threshold or exact keyword match)
+          relevantChunks = chunksWithSources.filter(isRelevantChunk)
 
           console.log(`[Chat] Found ${similarChunks.length} relevant chunks`)
         } else {
@@ -210,57 +429,7 @@ export async function POST(
         .eq('status', 'ready')
         .limit(5) // Limit sources to prevent context overflow
 
-      if (sources && sources.length > 0) {
-        context = sources.map(s => {
-          return `[Source: ${s.name} (${s.type})]\n${s.content?.substring(0, 2000) || ''}` // Limit content length
-        }).join('\n\n')
-      }
-    }
-
-    // Create session if needed
-    const sessionId = validatedData.sessionId || `session_${Date.now()}`
-
-    // Get or create conversation
-    let conversation
-    const { data: existingConv } = await supabase
-      .from('conversations')
-      .select('*')
-      .eq('agent_id', agentId)
-      .eq('session_id', sessionId)
-      .single()
-
-    if (existingConv) {
-      conversation = existingConv
-    } else {
-      const { data: newConv } = await supabase
-        .from('conversations')
-        .insert({
-          agent_id: agentId,
-          project_id: agent.project_id,
-          session_id: sessionId
-        })
-        .select()
-        .single()
-      conversation = newConv
-
-      // Log conversation start
-      if (conversation) {
-        await supabase
-          .from('usage_logs')
-          .insert({
-            project_id: agent.project_id,
-            agent_id: agentId,
-            type: 'event',
-            model: agent.model || 'gpt-3.5-turbo',
-            action: 'conversation_start',
-            credits_used: 0,
-            input_tokens: 0,
-            output_tokens: 0,
-            total_tokens: 0,
-            cost_usd: 0,
-            conversation_id: conversation.id
-          })
-      }
+      fallbackSources = sources || []
     }
 
     // Build proper prompt stack in the correct order:
@@ -282,15 +451,127 @@ export async function POST(
       clientPrompt = agent.system_prompt || `You are a helpful AI assistant. Answer questions accurately and concisely.`
     }
 
-    // 3. RAG CONTEXT - Retrieved knowledge from vector search
-    let ragContext = ''
-    if (context) {
-      ragContext = `## RELEVANT KNOWLEDGE BASE CONTEXT:\n${context}`
+    // Lead form: the web widget renders it, messaging channels ask for the details in chat
+    const leadForm = resolveLeadFormSettings(agent.config)
+    let previousUserMessages = 0
+    if (leadForm.enabled && conversation) {
+      const { count } = await supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', conversation.id)
+        .eq('role', 'user')
+      previousUserMessages = count || 0
+    }
+    const leadFormState = {
+      channel: validatedData.channel,
+      userMessageCount: previousUserMessages + 1,
+      hasContact: !!conversation?.contact_id
+    }
+
+    const leadFormPrompt = leadFormInstructions(leadForm, leadFormState)
+
+    // Get model name - use request model, then agent's model, then system default
+    let modelName = validatedData.model || agent.model
+
+    // If no model specified, get the system default
+    if (!modelName) {
+      modelName = await modelService.getDefaultModel(true)
+
+      // If still no model (system has no models configured), return error
+      if (!modelName) {
+        return NextResponse.json({
+          error: 'No AI models configured. Please contact administrator.'
+        }, { status: 500 })
+      }
+    }
+
+    // Validate the model is still active
+    const isModelValid = await modelService.isModelValid(modelName, true)
+    if (!isModelValid) {
+      // Model no longer valid, try to get default
+      modelName = await modelService.getDefaultModel(true)
+      if (!modelName) {
+        return NextResponse.json({
+          error: 'Selected model is no longer available and no fallback model configured.'
+        }, { status: 500 })
+      }
+    }
+
+    // Ordered models to try: a matching routing rule's model, the agent's
+    // model, its fallback chain, then one catalog model per other provider
+    const routeCandidates = await planRoute({
+      policy: resolveRoutingPolicy(agent.config),
+      defaultModel: modelName,
+      signals: {
+        message: validatedData.message,
+        conversationMessages: memory.totalMessages,
+        topRetrievalScore: ragEnabled
+          ? retrievedChunks.reduce((best, chunk) => Math.max(best, chunk.similarity), 0)
+          : null
+      },
+      explicitModel: !!validatedData.model,
+      // Catalog fallbacks run on platform keys, which a project paying with
+      // its own keys may only use when its plan allows
+      allowCatalogFallbacks: await mayUsePlatformKeys(agent.project_id)
+    })
+
+    // 3. RAG CONTEXT - Retrieved knowledge, numbered so the model can cite it,
+    // plus the links found in the retrieved sources
+    const renderKnowledge = (items: any[]): string => {
+      if (items.length === 0) return ''
+
+      if (!ragEnabled) {
+        return `## RELEVANT KNOWLEDGE BASE CONTEXT:\n${items.map(s => {
+          return `[Source: ${s.name} (${s.type})]\n${s.content?.substring(0, 2000) || ''}` // Limit content length
+        }).join('\n\n')}`
+      }
+
+      let section = `## RELEVANT KNOWLEDGE BASE CONTEXT:\n${formatCitableContexts(items.map(toCitableContext))}`
 
       // Add link information if available
       if (contextLinks.length > 0) {
-        ragContext += `\n\n## AVAILABLE LINKS:\nWhen you need to reference links in your response, use the exact link text and URL as provided below:\n${contextLinks.map(link => `- "${link.text}": ${link.url}`).join('\n')}\n\nAlways preserve the exact link text and URL when referencing them.`
+        section += `\n\n## AVAILABLE LINKS:\nWhen you need to reference links in your response, use the exact link text and URL as provided below:\n${contextLinks.map(link => `- "${link.text}": ${link.url}`).join('\n')}\n\nAlways preserve the exact link text and URL when referencing them.`
       }
+
+      // Add final RAG instruction for clarity
+      section += `\n\n## RAG INSTRUCTIONS:\n1. Base your answers on the provided context above\n2. If the answer is in the context, provide it accurately\n3. If the answer is NOT in the context, say "I don't have that information in my knowledge base"\n4. Never make up information not present in the context\n5. Cite the numbered contexts you used as described below`
+      section += `\n\n${CITATION_INSTRUCTIONS}`
+      return section
+    }
+
+    // Fit knowledge and history into the smallest context window the reply
+    // may come from, dropping the least similar chunks and oldest messages
+    const promptContext = buildPromptContext({
+      model: routeCandidates[0]?.model || modelName,
+      contextWindow: smallestContextWindow(routeCandidates.map(candidate => candidate.contextWindow)),
+      maxReplyTokens: agent.max_tokens,
+      instructions: [
+        hiddenPrompt,
+        clientPrompt && `## ASSISTANT INSTRUCTIONS:\n${clientPrompt}`,
+        summaryPrompt,
+        leadFormPrompt
+      ].filter(Boolean).join('\n\n'),
+      knowledge: ragEnabled
+        ? relevantChunks.map(chunk => ({ item: chunk, score: chunk.similarity }))
+        : fallbackSources.map((source, index) => ({ item: source, score: -index })),
+      renderKnowledge,
+      history,
+      message: validatedData.message
+    })
+
+    if (ragEnabled) {
+      citableContexts = promptContext.knowledge.map(toCitableContext)
+      contextChunks = promptContext.knowledge
+        .slice(0, 5) // Keep only top 5 chunks
+        .map((c: any) => ({
+          id: c.id,
+          content: c.content,
+          similarity: c.similarity,
+          source: c.source?.name,
+          type: c.source?.type,
+          position: c.position,
+          matchedBy: c.matchedBy
+        }))
     }
 
     // Stack everything in the correct order
@@ -306,14 +587,18 @@ export async function POST(
       systemPrompt += `\n\n## ASSISTANT INSTRUCTIONS:\n${clientPrompt}`
     }
 
+    // Earlier turns that no longer fit verbatim
+    if (summaryPrompt) {
+      systemPrompt += `\n\n${summaryPrompt}`
+    }
+
     // Layer 3: RAG context (knowledge base)
-    if (ragContext) {
-      systemPrompt += `\n\n${ragContext}`
+    if (promptContext.knowledgeText) {
+      systemPrompt += `\n\n${promptContext.knowledgeText}`
     }
 
-    // Add final RAG instruction for clarity
-    if (ragEnabled && contextChunks.length > 0) {
-      systemPrompt += `\n\n## RAG INSTRUCTIONS:\n1. Base your answers on the provided context above\n2. If the answer is in the context, provide it accurately\n3. If the answer is NOT in the context, say "I don't have that information in my knowledge base"\n4. Never make up information not present in the context\n5. When citing information, reference the source when possible`
+    if (leadFormPrompt) {
+      systemPrompt += `\n\n${leadFormPrompt}`
     }
 
     // Log prompt stacking for debugging (only in development)
@@ -321,7 +606,7 @@ export async function POST(
       console.log('[Chat] Prompt Stack Order:')
       console.log('  1. Hidden Prompt:', hiddenPrompt ? '✓' : '✗')
       console.log('  2. Client Prompt:', clientPrompt ? '✓' : '✗')
-      console.log('  3. RAG Context:', ragContext ? `✓ (${contextChunks.length} chunks)` : '✗')
+      console.log('  3. RAG Context:', promptContext.knowledgeText ? `✓ (${promptContext.knowledge.length} chunks)` : '✗')
       console.log('  4. User Message:', validatedData.message.substring(0, 50) + '...')
     }
 
@@ -333,38 +618,14 @@ export async function POST(
       }
     ]
 
-    // Get conversation history (all previous messages)
-    if (conversation) {
-      const { data: history } = await supabase
-        .from('messages')
-        .select('role, content, created_at')
-        .eq('conversation_id', conversation.id)
-        .order('created_at', { ascending: true })
-        .limit(20) // Increased limit for better context
-
-      console.log(`[Chat] Loading conversation history for session ${sessionId}:`, {
-        conversationId: conversation.id,
-        messageCount: history?.length || 0,
-        sessionId
-      })
-
-      if (history && history.length > 0) {
-        // Add all previous messages to context
-        history.forEach(msg => {
-          if (msg.role !== 'system') {
-            messages.push({
-              role: msg.role as 'user' | 'assistant',
-              content: msg.content
-            })
-          }
-        })
-      }
-    }
+    // History that fit the context budget
+    messages.push(...promptContext.history)
 
     // Always add the current user message
     messages.push({
       role: 'user',
-      content: validatedData.message
+      content: validatedData.message,
+      ...(images.length > 0 && { images })
     })
 
     console.log(`[Chat] Final messages array for AI:`, {
@@ -372,205 +633,335 @@ export async function POST(
       messages: messages.map(m => ({ role: m.role, length: m.content.length }))
     })
 
-    // Call AI service with project-specific credentials
-    let response = ''
-    let tokensUsed = 0
-    let costUsd = 0
-
-    // Get model name - use request model, then agent's model, then system default
-    let modelName = validatedData.model || agent.model
+    const chatOptions = {
+      temperature: validatedData.temperature ?? agent.temperature ?? undefined,
+      maxTokens: agent.max_tokens ?? undefined
+    }
 
-    // If no model specified, get the system default
-    if (!modelName) {
-      modelName = await modelService.getDefaultModel(true)
+    const supportsVision = (model: string) =>
+      routeCandidates.some(candidate => candidate.model === model && candidate.supportsVision)
 
-      // If still no model (system has no models configured), return error
-      if (!modelName) {
-        return NextResponse.json({
-          error: 'No AI models configured. Please contact administrator.'
-        }, { status: 500 })
-      }
+    const actionContext = {
+      agentId,
+      projectId: agent.project_id,
+      conversationId: conversation?.id,
+      sessionId,
+      channel: validatedData.channel
     }
+    const actionExecutor = await ActionExecutor.forAgent(
+      actionContext,
+      leadFormActions(leadForm, { ...actionContext, ...leadFormState })
+    )
+
+    /**
+     * Generate the reply, log usage and persist the exchange.
+     * When onDelta is given, text is forwarded as the provider streams it;
+     * onToolCall is told about every action the model ran.
+     */
+    const completeChat = async (
+      onDelta?: (delta: string) => void,
+      onToolCall?: (record: ToolCallRecord) => void
+    ) => {
+      let response = ''
+      let tokensUsed = 0
+      let costUsd = 0
+      let citations: Citation[] = []
+      let outputVerdict: GuardrailVerdict | null = null
+      const toolCalls: ToolCallRecord[] = []
+      // The model that answered, once routing has picked one
+      let answeringModel = modelName
+      let routing: RoutingDecision | null = null
+      // A model that already streamed text can't be swapped for the next one
+      let streamed = false
+      const forwardDelta = onDelta && ((delta: string) => {
+        streamed = true
+        onDelta(delta)
+      })
 
-    // Validate the model is still active
-    const isModelValid = await modelService.isModelValid(modelName, true)
-    if (!isModelValid) {
-      // Model no longer valid, try to get default
-      modelName = await modelService.getDefaultModel(true)
-      if (!modelName) {
-        return NextResponse.json({
-          error: 'Selected model is no longer available and no fallback model configured.'
-        }, { status: 500 })
+      const generateWith = (model: string, tools?: ToolDefinition[]): Promise<ToolLoopResult> => {
+        const options = tools ? { ...chatOptions, tools } : chatOptions
+        // Models without vision get a note about the images instead
+        const prompt = prepareImages(messages, supportsVision(model))
+        return forwardDelta
+          ? streamWithProjectCredentials(agent.project_id, model, prompt, forwardDelta, options)
+          : chatWithProjectCredentials(agent.project_id, model, prompt, options)
       }
-    }
-
-    try {
-      // First try the normal chat with project credentials
-      let result
-      let usedFallback = false
+      const generate = (tools?: ToolDefinition[]) => generateWith(answeringModel, tools)
 
       try {
-        result = await chatWithProjectCredentials(
-          agent.project_id,
-          modelName,
-          messages,
-          {
-            temperature: validatedData.temperature ?? agent.temperature,
-            maxTokens: agent.max_tokens
-          }
+        const routed = await runRoute(
+          routeCandidates,
+          candidate => generateWith(candidate.model, actionExecutor.tools),
+          () => !streamed
         )
-      } catch (primaryError: any) {
-        console.error('Primary provider failed:', primaryError.message)
+        let result: ToolLoopResult = routed.result
+        routing = routed.decision
+        answeringModel = routing.model
+
+        // Run requested actions and hand the results back until the model replies
+        const loop = await actionExecutor.runToolLoop(result, messages, generate, onToolCall)
+        result = loop.result
+        toolCalls.push(...loop.toolCalls)
+
+        // Output guardrails see the raw reply, before citations are numbered
+        outputVerdict = await guardrails.checkOutput(result.content)
+
+        // Number the contexts the reply cites in order of use
+        const cited = extractCitations(outputVerdict.text, citableContexts)
+        response = cited.text
+        citations = cited.citations
+
+        // Process response to inject links if any were found in context
+        if (contextLinks.length > 0) {
+          response = injectLinksIntoResponse(response, contextLinks)
+        }
 
-        // Try fallback providers
-        const providerManager = getProviderManager()
-        const providerName = modelName.includes('gpt') ? 'openai' : modelName.includes('gemini') ? 'google' : 'openai'
+        tokensUsed = result.usage?.totalTokens || 0
+        costUsd = result.estimatedCost || 0
 
-        try {
-          const fallbackResult = await providerManager.chatWithFallback(
-            {
-              model: modelName,
-              messages,
-              temperature: validatedData.temperature ?? agent.temperature,
-              maxTokens: agent.max_tokens
-            },
-            providerName
-          )
-
-          result = {
-            content: fallbackResult.content,
-            usage: fallbackResult.usage,
-            estimatedCost: 0
-          }
-          usedFallback = true
-          console.log(`Successfully used fallback provider: ${fallbackResult.provider}`)
-        } catch (fallbackError: any) {
-          console.error('All providers failed:', fallbackError.message)
-          throw fallbackError
+        // Log usage
+        const creditsUsed = Math.max(1, Math.ceil(tokensUsed / 100))
+        await supabase
+          .from('usage_logs')
+          .insert({
+            project_id: agent.project_id,
+            agent_id: agentId,
+            type: 'completion',
+            model: answeringModel,
+            action: 'message',
+            credits_used: creditsUsed,
+            input_tokens: result.usage?.promptTokens || 0,
+            output_tokens: result.usage?.completionTokens || 0,
+            total_tokens: tokensUsed,
+            cost_usd: costUsd,
+            conversation_id: conversation?.id,
+            key_source: result.keySource || 'platform',
+            credential_id: result.credentialId || null
+          })
+      } catch (error: any) {
+        console.error('AI Service error:', error)
+
+        // Provide specific error messages based on error type
+        if (error instanceof ProjectCredentialError) {
+          response = `⚠️ ${error.message}`
+        } else if (error.message?.includes('not configured')) {
+          response = '⚠️ The AI service is not properly configured. Please check your API keys in the settings.'
+        } else if (error.message?.includes('503') || error.message?.includes('Service Unavailable')) {
+          response = '⚠️ The AI service is temporarily unavailable. This is usually a temporary issue with the AI provider. Please try again in a few moments.'
+        } else if (error.message?.includes('429') || error.message?.includes('rate limit')) {
+          response = '⚠️ Rate limit reached. Please wait a moment before trying again.'
+        } else if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
+          response = '⚠️ Authentication failed. Please check your API credentials.'
+        } else if (error.message?.includes('All AI providers are currently unavailable')) {
+          response = '⚠️ All AI services are currently unavailable. This may be due to service outages. Please try again later or contact support if the issue persists.'
+        } else {
+          // Generic error with helpful context
+          response = `⚠️ I encountered an error while processing your request. Error details: ${error.message || 'Unknown error'}. Please try again or contact support if this continues.`
         }
       }
 
-      response = result.content
+      // Blocked and handed-off replies say nothing about the knowledge base
+      const replaced = outputVerdict?.action === 'block' || outputVerdict?.action === 'handoff'
 
-      // Process response to inject links if any were found in context
-      if (contextLinks.length > 0) {
-        response = injectLinksIntoResponse(response, contextLinks)
-      }
+      // Store both user message and assistant response
+      if (conversation) {
+        // Store user message first
+        await supabase
+          .from('messages')
+          .insert({
+            conversation_id: conversation.id,
+            agent_id: agentId,
+            project_id: agent.project_id,
+            role: 'user',
+            content: validatedData.message,
+            rag_enabled: ragEnabled,
+            ...((images.length > 0 || inputVerdict.triggers.length > 0) && {
+              metadata: {
+                ...(images.length > 0 && { images: images.map(image => image.path) }),
+                ...(inputVerdict.triggers.length > 0 && { guardrails: inputVerdict.triggers as Record<string, any>[] })
+              }
+            })
+          })
 
-      tokensUsed = result.usage?.totalTokens || 0
-      costUsd = result.estimatedCost || 0
+        // Store assistant response with context metadata
+        const { data: assistantMessage } = await supabase
+          .from('messages')
+          .insert({
+            conversation_id: conversation.id,
+            agent_id: agentId,
+            project_id: agent.project_id,
+            role: 'assistant',
+            content: response,
+            rag_enabled: ragEnabled,
+            context_chunks: contextChunks.length > 0 ? contextChunks : null,
+            embedding_search_query: ragEnabled ? embeddingSearchQuery : null,
+            metadata: {
+              tokensUsed,
+              costUsd,
+              model: answeringModel,
+              ...(routing && { routing: routing as Record<string, any> }),
+              contextChunksCount: contextChunks.length,
+              streamed: !!onDelta,
+              tokenBudget: promptContext.breakdown as Record<string, any>,
+              ...(images.length > 0 && { imagesViewed: supportsVision(answeringModel) }),
+              ...(citations.length > 0 && { citations: citations as Record<string, any>[] }),
+              ...(outputVerdict?.action && {
+                guardrail: outputVerdict.action,
+                guardrails: outputVerdict.triggers as Record<string, any>[]
+              }),
+              ...(toolCalls.length > 0 && { toolCalls })
+            }
+          })
+          .select('id')
+          .single()
+
+        // Flag answers the knowledge base couldn't support for the knowledge gaps report
+        if (ragEnabled && !replaced) {
+          const gap = detectKnowledgeGap({
+            question: validatedData.message,
+            answer: response,
+            retrieved: retrievedChunks,
+            relevantCount: contextChunks.length,
+            usedActions: toolCalls.length > 0
+          }, resolveKnowledgeGapSettings(agent.config))
+
+          if (gap) {
+            try {
+              await new KnowledgeGapService(agentId, agent.project_id).record({
+                question: validatedData.message,
+                answer: response,
+                reason: gap.reason,
+                topSimilarity: gap.topSimilarity,
+                conversationId: conversation.id,
+                messageId: assistantMessage?.id
+              })
+            } catch (error) {
+              console.error('[Chat] Failed to record knowledge gap:', error)
+            }
+          }
+        }
 
-      // Log usage
-      const creditsUsed = Math.max(1, Math.ceil(tokensUsed / 100))
-      await supabase
-        .from('usage_logs')
-        .insert({
-          project_id: agent.project_id,
-          agent_id: agentId,
-          type: 'completion',
-          model: modelName,
-          action: 'message',
-          credits_used: creditsUsed,
-          input_tokens: result.usage?.promptTokens || 0,
-          output_tokens: result.usage?.completionTokens || 0,
-          total_tokens: tokensUsed,
-          cost_usd: costUsd,
-          conversation_id: conversation?.id
+        // Always store chat session with source chunks for easy retrieval
+        console.log('[Chat] Storing chat session with chunks:', {
+          agentId,
+          sessionId,
+          chunksCount: contextChunks.length,
+          chunks: contextChunks
         })
-    } catch (error: any) {
-      console.error('AI Service error:', error)
-
-      // Provide specific error messages based on error type
-      if (error.message?.includes('not configured')) {
-        response = '⚠️ The AI service is not properly configured. Please check your API keys in the settings.'
-      } else if (error.message?.includes('503') || error.message?.includes('Service Unavailable')) {
-        response = '⚠️ The AI service is temporarily unavailable. This is usually a temporary issue with the AI provider. Please try again in a few moments.'
-      } else if (error.message?.includes('429') || error.message?.includes('rate limit')) {
-        response = '⚠️ Rate limit reached. Please wait a moment before trying again.'
-      } else if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        response = '⚠️ Authentication failed. Please check your API credentials.'
-      } else if (error.message?.includes('All AI providers are currently unavailable')) {
-        response = '⚠️ All AI services are currently unavailable. This may be due to service outages. Please try again later or contact support if the issue persists.'
-      } else {
-        // Generic error with helpful context
-        response = `⚠️ I encountered an error while processing your request. Error details: ${error.message || 'Unknown error'}. Please try again or contact support if this continues.`
+
+        const { data: chatSession, error: chatSessionError } = await supabase
+          .from('chat_sessions')
+          .insert({
+            agent_id: agentId,
+            session_id: sessionId,
+            user_message: validatedData.message,
+            assistant_response: response,
+            source_chunks: contextChunks.length > 0 ? contextChunks : null,
+            model: answeringModel,
+            temperature: validatedData.temperature ?? agent.temperature,
+            user_id: userId
+          })
+          .select()
+          .single()
+
+        if (chatSessionError) {
+          console.error('[Chat] Failed to store chat session:', chatSessionError)
+        } else {
+          console.log('[Chat] Chat session stored successfully:', chatSession?.id)
+        }
+
+        // Sentiment and topics are worked out in the background once the chat goes quiet
+        await queueConversationAnalysis({ agentId, projectId: agent.project_id })
+
+        // Turns leaving the verbatim window are folded into the summary in the background
+        await queueMemoryRefresh({ conversationId: conversation.id, agentId, projectId: agent.project_id })
+      }
+
+      // Tell the widget to render the lead form under this reply
+      const showLeadForm = (validatedData.channel === 'web' && isLeadFormDue(leadForm, leadFormState)) ||
+        toolCalls.some(call => call.name === SHOW_LEAD_FORM_TOOL && !call.error)
+
+      return {
+        response,
+        tokensUsed,
+        costUsd,
+        toolCalls,
+        showLeadForm,
+        citations,
+        model: answeringModel,
+        images: replaced ? [] : qaImages
       }
     }
 
-    // Store both user message and assistant response
-    if (conversation) {
-      // Store user message first
-      await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversation.id,
-          agent_id: agentId,
-          project_id: agent.project_id,
-          role: 'user',
-          content: validatedData.message,
-          rag_enabled: ragEnabled
-        })
+    // Server-sent events: "token" events while generating, a "tool_call" event
+    // per action run, then a single "done" event once the messages and
+    // chat_sessions rows have been written
+    if (validatedData.stream) {
+      const encoder = new TextEncoder()
 
-      // Store assistant response with context metadata
-      await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversation.id,
-          agent_id: agentId,
-          project_id: agent.project_id,
-          role: 'assistant',
-          content: response,
-          rag_enabled: ragEnabled,
-          context_chunks: contextChunks.length > 0 ? contextChunks : null,
-          embedding_search_query: ragEnabled ? validatedData.message : null,
-          metadata: {
-            tokensUsed,
-            costUsd,
-            model: modelName,
-            contextChunksCount: contextChunks.length
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: string, data: unknown) => {
+            controller.enqueue(encoder.encode(formatSSE(event, data)))
           }
-        })
 
-      // Always store chat session with source chunks for easy retrieval
-      console.log('[Chat] Storing chat session with chunks:', {
-        agentId,
-        sessionId,
-        chunksCount: contextChunks.length,
-        chunks: contextChunks
-      })
+          // Streamed text carries the same citation numbers as the finished reply
+          const citationStream = new CitationStream(citableContexts)
+          const sendToken = (content: string) => {
+            if (content) send('token', { content })
+          }
 
-      const { data: chatSession, error: chatSessionError } = await supabase
-        .from('chat_sessions')
-        .insert({
-          agent_id: agentId,
-          session_id: sessionId,
-          user_message: validatedData.message,
-          assistant_response: response,
-          source_chunks: contextChunks.length > 0 ? contextChunks : null,
-          model: modelName,
-          temperature: validatedData.temperature ?? agent.temperature,
-          user_id: user.id
-        })
-        .select()
-        .single()
+          try {
+            // A reply the output guardrails check is only sent once they have
+            const { response, tokensUsed, showLeadForm, citations, model, images: replyImages } = await completeChat(
+              guardrails.checksOutput ? undefined : (delta) => sendToken(citationStream.push(delta)),
+              (record) => send('tool_call', {
+                id: record.id,
+                name: record.name,
+                arguments: record.arguments,
+                error: record.error,
+                durationMs: record.durationMs
+              })
+            )
+            sendToken(citationStream.flush())
+
+            send('done', {
+              response,
+              images: replyImages,
+              sessionId,
+              tokensUsed,
+              model,
+              ragEnabled,
+              contextUsed: contextChunks.length,
+              contextChunks,
+              citations,
+              showLeadForm
+            })
+          } catch (error: any) {
+            console.error('[Chat] Streaming error:', error)
+            send('error', { error: 'Internal server error' })
+          } finally {
+            controller.close()
+          }
+        }
+      })
 
-      if (chatSessionError) {
-        console.error('[Chat] Failed to store chat session:', chatSessionError)
-      } else {
-        console.log('[Chat] Chat session stored successfully:', chatSession?.id)
-      }
+      return new Response(stream, { headers: SSE_HEADERS })
     }
 
+    const { response, tokensUsed, showLeadForm, citations, model, images: replyImages } = await completeChat()
+
     return NextResponse.json({
       response,
-      images: qaImages, // Include Q&A images if found
+      images: replyImages, // Include Q&A images if found
       sessionId,
       tokensUsed,
+      model,
       ragEnabled,
-      contextUsed: contextChunks.length
-      // Removed sourceChunks from response - will fetch separately
+      contextUsed: contextChunks.length,
+      citations,
+      showLeadForm
     })
-
   } catch (error) {
     console.error('Chat error:', error)
     if (error instanceof z.ZodError) {
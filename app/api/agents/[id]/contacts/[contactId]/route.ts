@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { CONTACT_STATUSES } from '@/lib/types/leads'
+
+const UpdateContactSchema = z.object({
+  name: z.string().max(200).nullable().optional(),
+  company: z.string().max(200).nullable().optional(),
+  status: z.enum(CONTACT_STATUSES as [string, ...string[]]).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  notes: z.string().max(5000).nullable().optional()
+})
+
+async function getOwnedContact(agentId: string, contactId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, contact: null, status: 401 }
+  }
+
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('id, projects!inner(owner_id)')
+    .eq('id', contactId)
+    .eq('agent_id', agentId)
+    .single()
+
+  if (!contact || (contact as any).projects.owner_id !== user.id) {
+    return { supabase, contact: null, status: 404 }
+  }
+
+  return { supabase, contact, status: 200 }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; contactId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, contact, status } = await getOwnedContact(params.id, params.contactId)
+
+    if (!contact) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Contact not found' }, { status })
+    }
+
+    const body = await request.json()
+    const updates = UpdateContactSchema.parse(body)
+
+    const { data: updated, error } = await supabase
+      .from('contacts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', params.contactId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating contact:', error)
+      return NextResponse.json({ error: 'Failed to update contact' }, { status: 500 })
+    }
+
+    return NextResponse.json({ contact: updated })
+  } catch (error) {
+    console.error('Update contact error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Delete a contact; its leads and conversations are kept but unlinked
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; contactId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, contact, status } = await getOwnedContact(params.id, params.contactId)
+
+    if (!contact) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Contact not found' }, { status })
+    }
+
+    const { error } = await supabase
+      .from('contacts')
+      .delete()
+      .eq('id', params.contactId)
+
+    if (error) {
+      console.error('Error deleting contact:', error)
+      return NextResponse.json({ error: 'Failed to delete contact' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete contact error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
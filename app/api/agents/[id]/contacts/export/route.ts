@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ContactService } from '@/lib/services/contact-service'
+import { toCsv } from '@/lib/utils/csv'
+
+/**
+ * Download the agent's contacts as CSV
+ * Custom form answers get one column per field key.
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, name, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const contacts = await new ContactService(supabase).listContacts(params.id)
+    const fieldKeys = Array.from(new Set(contacts.flatMap(contact => Object.keys(contact.fields || {})))).sort()
+
+    const csv = toCsv([
+      ['Name', 'Email', 'Phone', 'Company', 'Status', 'Source', 'Tags', 'Notes', 'First Contact', 'Last Contact', 'Conversations', 'Messages', ...fieldKeys],
+      ...contacts.map(contact => [
+        contact.name,
+        contact.email,
+        contact.phone,
+        contact.company,
+        contact.status,
+        contact.source,
+        contact.tags,
+        contact.notes,
+        contact.first_contact_at,
+        contact.last_contact_at,
+        contact.conversation_count,
+        contact.message_count,
+        ...fieldKeys.map(key => contact.fields?.[key])
+      ])
+    ])
+
+    const filename = `contacts-${new Date().toISOString().split('T')[0]}.csv`
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Export contacts error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
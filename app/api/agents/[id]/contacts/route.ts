@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { ContactService } from '@/lib/services/contact-service'
+
+const CreateContactSchema = z.object({
+  name: z.string().max(200).optional(),
+  email: z.string().email().max(320).optional().or(z.literal('')),
+  phone: z.string().max(50).optional(),
+  company: z.string().max(200).optional(),
+  notes: z.string().max(5000).optional()
+}).refine(data => data.name || data.email || data.phone, 'A name, email or phone is required')
+
+async function getOwnedAgent(agentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, agent: null, status: 401 }
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, project_id, projects!inner(owner_id)')
+    .eq('id', agentId)
+    .single()
+
+  if (!agent || (agent as any).projects.owner_id !== user.id) {
+    return { supabase, agent: null, status: 404 }
+  }
+
+  return { supabase, agent, status: 200 }
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const contacts = await new ContactService(supabase).listContacts(params.id)
+
+    return NextResponse.json({ contacts })
+  } catch (error) {
+    console.error('Get contacts error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Add a contact by hand; details matching an existing contact are merged into it
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const body = await request.json()
+    const { notes, ...details } = CreateContactSchema.parse(body)
+
+    const service = new ContactService(supabase)
+    const { contact, created } = await service.upsertContact({
+      agentId: params.id,
+      projectId: agent.project_id,
+      source: 'manual',
+      ...details
+    })
+
+    if (notes && !contact.notes) {
+      await supabase
+        .from('contacts')
+        .update({ notes })
+        .eq('id', contact.id)
+      contact.notes = notes
+    }
+
+    return NextResponse.json({ contact, created }, { status: created ? 201 : 200 })
+  } catch (error) {
+    console.error('Create contact error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { EmbeddingService } from '@/lib/services/embedding-service'
 
 export async function GET(
   request: NextRequest,
@@ -32,14 +33,18 @@ export async function GET(
       return NextResponse.json({ error: 'Failed to fetch statistics' }, { status: 500 })
     }
 
-    // Get chunk statistics
+    const embeddingService = await EmbeddingService.forProject(agent.project_id)
+
+    // Get chunk statistics (embedding_model is set whenever a chunk is embedded)
     const { data: chunkStats } = await supabase
       .from('source_chunks')
-      .select('id, embedding')
+      .select('id, embedding_model')
       .eq('agent_id', params.id)
 
     const totalChunks = chunkStats?.length || 0
-    const chunksWithEmbeddings = chunkStats?.filter(c => c.embedding !== null).length || 0
+    const chunksWithEmbeddings = chunkStats?.filter(c => c.embedding_model === embeddingService.model).length || 0
+    // Embedded with a previous model, waiting for the re-embedding job
+    const staleChunks = chunkStats?.filter(c => c.embedding_model && c.embedding_model !== embeddingService.model).length || 0
 
     // Calculate statistics by source type
     const statsByType: Record<string, any> = {}
@@ -92,7 +97,7 @@ export async function GET(
       .limit(10)
 
     // Check if embeddings need regeneration
-    const needsRegeneration = untrainedSources > 0 || chunksWithEmbeddings === 0
+    const needsRegeneration = untrainedSources > 0 || chunksWithEmbeddings === 0 || staleChunks > 0
 
     return NextResponse.json({
       agentId: params.id,
@@ -106,7 +111,8 @@ export async function GET(
       chunks: {
         total: totalChunks,
         withEmbeddings: chunksWithEmbeddings,
-        withoutEmbeddings: totalChunks - chunksWithEmbeddings
+        withoutEmbeddings: totalChunks - chunksWithEmbeddings - staleChunks,
+        stale: staleChunks
       },
       sources: {
         total: trainedSources + untrainedSources,
@@ -117,11 +123,12 @@ export async function GET(
       cost: {
         totalTokens,
         totalCostUSD: totalCost,
-        model: 'text-embedding-3-small',
-        pricePerMillionTokens: 20 // $0.02 per million tokens
+        provider: embeddingService.providerName,
+        model: embeddingService.model,
+        pricePerMillionTokens: await embeddingService.estimateCost(1_000_000)
       },
       recentActivity: recentActivity || [],
-      recommendations: getRecommendations(chunksWithEmbeddings, totalChunks, untrainedSources, statsByType)
+      recommendations: getRecommendations(chunksWithEmbeddings, totalChunks, untrainedSources, statsByType, staleChunks)
     })
 
   } catch (error) {
@@ -137,10 +144,15 @@ function getRecommendations(
   chunksWithEmbeddings: number,
   totalChunks: number,
   untrainedSources: number,
-  statsByType: Record<string, any>
+  statsByType: Record<string, any>,
+  staleChunks: number
 ): string[] {
   const recommendations = []
 
+  if (staleChunks > 0) {
+    recommendations.push(`${staleChunks} chunks were embedded with a previous embedding model and are being re-embedded`)
+  }
+
   if (untrainedSources > 0) {
     recommendations.push(`Train ${untrainedSources} untrained sources to enable RAG for them`)
   }
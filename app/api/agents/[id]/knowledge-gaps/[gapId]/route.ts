@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { KnowledgeGapService } from '@/lib/services/knowledge-gap-service'
+import { KNOWLEDGE_GAP_STATUSES, KnowledgeGapStatus } from '@/lib/types/knowledge-gaps'
+
+const UpdateGapSchema = z.object({
+  status: z.enum(KNOWLEDGE_GAP_STATUSES as [string, ...string[]]),
+  // Q&A source that answers the gap, when resolving it
+  sourceId: z.string().uuid().nullable().optional()
+})
+
+async function getOwnedAgent(agentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, agent: null, status: 401 }
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, project_id, projects!inner(owner_id)')
+    .eq('id', agentId)
+    .single()
+
+  if (!agent || (agent as any).projects.owner_id !== user.id) {
+    return { supabase, agent: null, status: 404 }
+  }
+
+  return { supabase, agent, status: 200 }
+}
+
+/**
+ * A knowledge gap with its latest questions, used to pre-fill the Q&A editor
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; gapId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const gap = await new KnowledgeGapService(params.id, agent.project_id, supabase).getGap(params.gapId)
+    if (!gap) {
+      return NextResponse.json({ error: 'Knowledge gap not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ gap })
+  } catch (error) {
+    console.error('Get knowledge gap error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Resolve, dismiss or reopen a knowledge gap
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; gapId: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, agent, status } = await getOwnedAgent(params.id)
+
+    if (!agent) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Agent not found' }, { status })
+    }
+
+    const body = await request.json()
+    const update = UpdateGapSchema.parse(body)
+
+    const service = new KnowledgeGapService(params.id, agent.project_id, supabase)
+    if (!(await service.getGap(params.gapId))) {
+      return NextResponse.json({ error: 'Knowledge gap not found' }, { status: 404 })
+    }
+
+    const gap = await service.setStatus(params.gapId, update.status as KnowledgeGapStatus, update.sourceId)
+
+    return NextResponse.json({ gap })
+  } catch (error) {
+    console.error('Update knowledge gap error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
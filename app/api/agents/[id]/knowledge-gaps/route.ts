@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { KnowledgeGapService } from '@/lib/services/knowledge-gap-service'
+import { KNOWLEDGE_GAP_STATUSES, KnowledgeGapStatus } from '@/lib/types/knowledge-gaps'
+
+/**
+ * Knowledge gaps for ?status=open|resolved|dismissed (open by default),
+ * most asked first, each with its latest questions
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, project_id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const status = (request.nextUrl.searchParams.get('status') || 'open') as KnowledgeGapStatus
+    if (!KNOWLEDGE_GAP_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const gaps = await new KnowledgeGapService(params.id, agent.project_id, supabase).listGaps(status)
+
+    return NextResponse.json({ gaps })
+  } catch (error) {
+    console.error('Get knowledge gaps error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
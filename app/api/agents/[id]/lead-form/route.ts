@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { z } from 'zod'
+import { checkSharedRateLimit, getUserIP } from '@/lib/utils/security'
+import { ContactService } from '@/lib/services/contact-service'
+import { leadFormErrors } from '@/lib/actions/lead-form'
+import { resolveLeadFormSettings } from '@/lib/types/leads'
+
+// GET and POST are public so the embedded widget can show and submit the
+// form; PUT (saving the settings) is owner-only
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/
+
+const LeadFormSettingsSchema = z.object({
+  enabled: z.boolean(),
+  title: z.string().min(1).max(200),
+  description: z.string().max(1000).default(''),
+  fields: z.array(z.object({
+    key: z.string().regex(FIELD_KEY_PATTERN, 'Use lower-case letters, numbers and underscores'),
+    label: z.string().min(1).max(100),
+    type: z.enum(['text', 'email', 'tel', 'textarea']),
+    required: z.boolean()
+  })).min(1).max(20).refine(
+    fields => new Set(fields.map(field => field.key)).size === fields.length,
+    'Field keys must be unique'
+  ),
+  trigger: z.enum(['on_start', 'after_messages', 'model']),
+  afterMessages: z.number().int().min(1).max(50),
+  submitLabel: z.string().min(1).max(50),
+  successMessage: z.string().min(1).max(500)
+})
+
+const SubmitSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+  values: z.record(z.string().max(2000))
+})
+
+async function getLeadFormAgent(agentId: string) {
+  const supabase = createServiceClient()
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, project_id, config')
+    .eq('id', agentId)
+    .single()
+  return agent
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const agent = await getLeadFormAgent(params.id)
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const settings = resolveLeadFormSettings(agent.config)
+    return NextResponse.json({ leadForm: settings.enabled ? settings : null })
+  } catch (error) {
+    console.error('Get lead form error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const ip = await getUserIP()
+    const rateLimit = await checkSharedRateLimit(`lead-form:${params.id}:${ip || 'unknown'}`, 5, 60000)
+    if (!rateLimit.allowed) {
+      return NextResponse.json({ error: 'Too many submissions, please try again later' }, { status: 429 })
+    }
+
+    const body = await request.json()
+    const { sessionId, values } = SubmitSchema.parse(body)
+
+    const agent = await getLeadFormAgent(params.id)
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const settings = resolveLeadFormSettings(agent.config)
+    if (!settings.enabled) {
+      return NextResponse.json({ error: 'Lead form is not enabled' }, { status: 400 })
+    }
+
+    // Only keep answers to fields the form actually has
+    const answers = Object.fromEntries(
+      settings.fields
+        .filter(field => values[field.key]?.trim())
+        .map(field => [field.key, values[field.key].trim()])
+    )
+
+    const errors = leadFormErrors(settings, answers)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0], details: errors }, { status: 400 })
+    }
+
+    // Link the submission to the chat it was made from, starting one if the
+    // form was shown before the first message
+    const supabase = createServiceClient()
+    let { data: conversation } = await supabase
+      .from('conversations')
+      .select('id')
+      .eq('agent_id', agent.id)
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (!conversation) {
+      const { data: newConv } = await supabase
+        .from('conversations')
+        .insert({
+          agent_id: agent.id,
+          project_id: agent.project_id,
+          session_id: sessionId,
+          channel: 'web'
+        })
+        .select('id')
+        .single()
+      conversation = newConv
+    }
+
+    // Saved as a submission of its own; a contact with the same email is
+    // linked to it but not changed, as anyone can submit any email
+    const { fields, ...details } = ContactService.splitValues(answers)
+    await new ContactService(supabase).captureLead({
+      agentId: agent.id,
+      projectId: agent.project_id,
+      conversationId: conversation?.id,
+      sessionId,
+      source: 'form',
+      ...details,
+      fields
+    })
+
+    // Whether the email was already known isn't the submitter's business
+    return NextResponse.json({
+      success: true,
+      message: settings.successMessage
+    })
+  } catch (error) {
+    console.error('Submit lead form error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, config, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const leadForm = LeadFormSettingsSchema.parse(body)
+
+    const config = agent.config && typeof agent.config === 'object' ? agent.config as Record<string, any> : {}
+    const { error } = await supabase
+      .from('agents')
+      .update({ config: { ...config, leadForm } })
+      .eq('id', params.id)
+
+    if (error) {
+      console.error('Error saving lead form:', error)
+      return NextResponse.json({ error: 'Failed to save lead form' }, { status: 500 })
+    }
+
+    return NextResponse.json({ leadForm })
+  } catch (error) {
+    console.error('Update lead form error:', error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * Lead captures (form submissions and lead actions), newest first
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, projects!inner(owner_id)')
+      .eq('id', params.id)
+      .single()
+
+    if (!agent || (agent as any).projects.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const { data: leads, count, error } = await supabase
+      .from('leads')
+      .select('*', { count: 'exact' })
+      .eq('agent_id', params.id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('Error fetching leads:', error)
+      return NextResponse.json({ error: 'Failed to fetch leads' }, { status: 500 })
+    }
+
+    return NextResponse.json({ leads: leads || [], total: count || 0 })
+  } catch (error) {
+    console.error('Get leads error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
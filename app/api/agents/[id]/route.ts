@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { AgentGuardrailSettingsSchema } from '@/lib/ai/guardrail-schema'
 
 const UpdateAgentSchema = z.object({
   name: z.string().optional(),
-  system_prompt: z.string().optional(),
+  system_prompt: z.string().nullable().optional(),
   prompt_template_id: z.string().uuid().nullable().optional(),
   custom_user_prompt: z.string().nullable().optional(),
   model: z.string().optional(),
   temperature: z.number().min(0).max(2).optional(),
   max_tokens: z.number().min(1).optional(),
-  greeting_message: z.string().optional()
+  greeting_message: z.string().optional(),
+  // Guardrail patterns run on every message, so they're checked before they're stored
+  config: z.record(z.any()).superRefine((config, ctx) => {
+    if (config.guardrails === undefined) return
+    const guardrails = AgentGuardrailSettingsSchema.safeParse(config.guardrails)
+    if (!guardrails.success) {
+      guardrails.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['guardrails', ...issue.path] }))
+    }
+  }).optional()
 })
 
 export async function GET(
@@ -111,7 +120,7 @@ export async function PATCH(
   } catch (error) {
     console.error('Update agent error:', error)
     if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: 'Invalid request data' }, { status: 400 })
+      return NextResponse.json({ error: 'Invalid request data', details: error.errors }, { status: 400 })
     }
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
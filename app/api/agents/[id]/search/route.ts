@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { EmbeddingService } from '@/lib/services/embedding-service'
+import { HybridRetriever } from '@/lib/services/hybrid-retriever'
+import { resolveRetrievalSettings, RetrievalSettings } from '@/lib/types/retrieval'
 
 export const runtime = 'nodejs'
 
@@ -15,7 +16,7 @@ export async function POST(
     // Get the agent to ensure it exists
     const { data: agent, error: agentError } = await supabase
       .from('agents')
-      .select('project_id, name')
+      .select('project_id, name, model, config')
       .eq('id', params.id)
       .single()
 
@@ -24,26 +25,36 @@ export async function POST(
     }
 
     // Get search parameters from request body
+    // mode / reranker override the agent's retrieval settings for this request
     const body = await request.json()
-    const { query, limit = 5, similarityThreshold = 0.7, sourceTypes } = body
+    const { query, limit = 5, similarityThreshold = 0.7, sourceTypes, mode, reranker } = body
 
     if (!query) {
       return NextResponse.json({ error: 'Query is required' }, { status: 400 })
     }
 
+    if (mode && !['vector', 'hybrid'].includes(mode)) {
+      return NextResponse.json({ error: 'mode must be "vector" or "hybrid"' }, { status: 400 })
+    }
+
     console.log(`[Search] Agent ${params.id}: Searching for "${query}"`)
 
-    // Initialize embedding service
-    const embeddingService = new EmbeddingService()
+    const settings: RetrievalSettings = {
+      ...resolveRetrievalSettings(agent.config),
+      ...(mode ? { mode } : {}),
+      ...(reranker ? { reranker } : {})
+    }
 
-    // Search for similar chunks
-    const results = await embeddingService.searchSimilarChunks(
-      params.id,
-      query,
+    // Search for similar chunks (vector, or vector + keyword fused)
+    const retriever = new HybridRetriever()
+    const results = await retriever.search(params.id, query, {
       limit,
       similarityThreshold,
-      sourceTypes
-    )
+      sourceTypes,
+      settings,
+      projectId: agent.project_id,
+      defaultModel: agent.model || undefined
+    })
 
     console.log(`[Search] Found ${results.length} similar chunks`)
 
@@ -76,6 +87,8 @@ export async function POST(
     return NextResponse.json({
       success: true,
       query,
+      mode: settings.mode,
+      reranker: settings.reranker,
       results: chunksWithSources,
       totalResults: results.length
     })
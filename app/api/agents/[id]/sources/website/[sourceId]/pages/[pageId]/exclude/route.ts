@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { WebsitePageStore } from '@/lib/services/website-pages'
+import { sanitizeError } from '@/lib/utils/security'
+
+/**
+ * Exclude one page: its chunks are deleted and later crawls skip it.
+ * Re-fetching the page includes it again.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; sourceId: string; pageId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: page } = await supabase
+      .from('website_pages')
+      .select('id, url, source_id, agent_id, project_id')
+      .eq('id', params.pageId)
+      .eq('source_id', params.sourceId)
+      .eq('agent_id', params.id)
+      .single()
+
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 })
+    }
+
+    await new WebsitePageStore(page.source_id, page.agent_id, page.project_id).excludePage(page.url)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in POST /api/agents/[id]/sources/website/[sourceId]/pages/[pageId]/exclude:', error)
+    return NextResponse.json({ error: sanitizeError(error) }, { status: 500 })
+  }
+}
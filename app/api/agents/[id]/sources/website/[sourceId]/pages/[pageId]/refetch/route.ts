@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UnifiedCrawler } from '@/lib/crawler/unified-crawler'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import { WebsitePageStore } from '@/lib/services/website-pages'
+import { resolveCrawlRules } from '@/lib/types/crawler'
+import { sanitizeError, checkRateLimit } from '@/lib/utils/security'
+
+/**
+ * Fetch one page again and replace its chunks, without re-crawling the site
+ * Also includes an excluded page again. On a trained source the new chunks are
+ * embedded right away, so the agent stays trained.
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; sourceId: string; pageId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rateLimit = await checkRateLimit(user.id, 20, 60000) // 20 page re-fetches per minute
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetTime - Date.now()) / 1000)} seconds` },
+        { status: 429 }
+      )
+    }
+
+    const { data: page } = await supabase
+      .from('website_pages')
+      .select('id, url, source_id, agent_id, project_id')
+      .eq('id', params.pageId)
+      .eq('source_id', params.sourceId)
+      .eq('agent_id', params.id)
+      .single()
+
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 })
+    }
+
+    const { data: source } = await supabase
+      .from('sources')
+      .select('status, is_trained, metadata')
+      .eq('id', page.source_id)
+      .single()
+
+    if (!source) {
+      return NextResponse.json({ error: 'Source not found' }, { status: 404 })
+    }
+
+    // A running crawl rewrites every page; this one would be lost or duplicated
+    if (['pending', 'queued', 'processing'].includes(source.status)) {
+      return NextResponse.json({ error: 'The website is being crawled. Try again when it finishes.' }, { status: 409 })
+    }
+
+    const metadata = (source.metadata || {}) as Record<string, any>
+    const crawler = new UnifiedCrawler({
+      maxPages: 1,
+      crawlSubpages: false,
+      crawlRules: resolveCrawlRules(metadata.crawl_rules),
+      fullPageContent: metadata.full_page_content || false,
+      // One page can't show what repeats, so the source's crawls decide
+      repeatedBlocks: metadata.repeated_blocks || [],
+      useCache: false
+    })
+
+    const [result] = await crawler.crawlWebsite(page.url)
+    if (!result || result.error || !result.content) {
+      const message = result?.error || 'The page could not be fetched (blocked by robots.txt or no content)'
+
+      await supabase
+        .from('website_pages')
+        .update({
+          status_code: result?.statusCode ?? null,
+          error_message: message,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', page.id)
+
+      return NextResponse.json({ error: message }, { status: 502 })
+    }
+
+    const pages = new WebsitePageStore(page.source_id, page.agent_id, page.project_id)
+    const chunkCount = await pages.replacePage(result)
+
+    let trained = false
+    if (source.is_trained) {
+      const embeddingService = await EmbeddingService.forProject(page.project_id)
+      const embedResult = await embeddingService.generateEmbeddingsForAgent(page.agent_id, undefined, page.source_id)
+      trained = embedResult.success
+
+      if (!trained) {
+        await supabase
+          .from('sources')
+          .update({ is_trained: false })
+          .eq('id', page.source_id)
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('website_pages')
+      .select('*')
+      .eq('id', page.id)
+      .single()
+
+    return NextResponse.json({ success: true, page: updated, chunkCount, trained })
+  } catch (error) {
+    console.error('Error in POST /api/agents/[id]/sources/website/[sourceId]/pages/[pageId]/refetch:', error)
+    return NextResponse.json({ error: sanitizeError(error) }, { status: 500 })
+  }
+}
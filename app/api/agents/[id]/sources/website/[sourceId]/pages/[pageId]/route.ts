@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { WebsitePageStore } from '@/lib/services/website-pages'
+import { WebsitePage } from '@/lib/types/crawler'
+import { sanitizeError } from '@/lib/utils/security'
+
+/**
+ * Delete one page and its chunks; the rest of the website stays as crawled
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; sourceId: string; pageId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: page } = await supabase
+      .from('website_pages')
+      .select('*')
+      .eq('id', params.pageId)
+      .eq('source_id', params.sourceId)
+      .eq('agent_id', params.id)
+      .single()
+
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 })
+    }
+
+    await new WebsitePageStore(page.source_id, page.agent_id, page.project_id).deletePage(page as WebsitePage)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/agents/[id]/sources/website/[sourceId]/pages/[pageId]:', error)
+    return NextResponse.json({ error: sanitizeError(error) }, { status: 500 })
+  }
+}
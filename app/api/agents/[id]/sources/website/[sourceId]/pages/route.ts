@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { WebsitePageStatus } from '@/lib/types/crawler'
+import { sanitizeError } from '@/lib/utils/security'
+
+const PAGE_STATUSES: WebsitePageStatus[] = ['crawled', 'error', 'excluded']
+const MAX_LIMIT = 200
+
+/**
+ * Pages of a website source, in URL order. ?search= matches URL or title,
+ * ?status= filters by page status; ?limit= and ?offset= page through them.
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: source } = await supabase
+      .from('sources')
+      .select('id')
+      .eq('id', params.sourceId)
+      .eq('agent_id', params.id)
+      .eq('type', 'website')
+      .single()
+
+    if (!source) {
+      return NextResponse.json({ error: 'Source not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status') as WebsitePageStatus | null
+    if (status && !PAGE_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+    // Characters with a meaning in PostgREST filters or LIKE patterns are dropped
+    const search = (searchParams.get('search') || '').replace(/[,()"\\%_*]/g, '').trim()
+
+    let query = supabase
+      .from('website_pages')
+      .select('*', { count: 'exact' })
+      .eq('source_id', source.id)
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+    if (search) {
+      query = query.or(`url.ilike.%${search}%,title.ilike.%${search}%`)
+    }
+
+    const { data: pages, count, error } = await query
+      .order('url', { ascending: true })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('Error fetching website pages:', error)
+      return NextResponse.json({ error: 'Failed to fetch pages' }, { status: 500 })
+    }
+
+    return NextResponse.json({ pages: pages || [], total: count || 0 })
+  } catch (error) {
+    console.error('Error in GET /api/agents/[id]/sources/website/[sourceId]/pages:', error)
+    return NextResponse.json({ error: sanitizeError(error) }, { status: 500 })
+  }
+}
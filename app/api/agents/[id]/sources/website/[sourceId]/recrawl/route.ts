@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { scrapeWebsiteWithPlaywright } from '@/lib/sources/playwright-scraper'
+import { UnifiedCrawler } from '@/lib/crawler/unified-crawler'
+import { CrawlMode, CrawlRules, resolveCrawlRules } from '@/lib/types/crawler'
 import { ChunkManager } from '@/lib/services/chunk-manager'
+import { WebsitePageStore } from '@/lib/services/website-pages'
 import { sanitizeError, validateCrawlUrl, checkRateLimit } from '@/lib/utils/security'
 
 export async function POST(
@@ -93,9 +95,20 @@ export async function POST(
     const crawlSubpages = source.metadata?.crawl_subpages !== false
     const maxPages = Math.min(source.metadata?.max_pages || 200, 1000) // Cap at 1000
     const fullPageContent = source.metadata?.full_page_content || false
+    const { crawl_mode, crawl_rules, repeated_blocks } = (source.metadata || {}) as Record<string, any>
+    const crawlMode: CrawlMode = crawl_mode === 'sitemap' ? 'sitemap' : 'links'
+    const crawlRules = resolveCrawlRules(crawl_rules)
+    const repeatedBlocks: string[] = repeated_blocks || []
 
     // Start crawling
-    processWebsiteAsync(params.sourceId, params.id, source.project_id, url, crawlSubpages, maxPages, fullPageContent)
+    processWebsiteAsync(params.sourceId, params.id, source.project_id, url, {
+      crawlSubpages,
+      maxPages,
+      fullPageContent,
+      crawlMode,
+      crawlRules,
+      repeatedBlocks
+    })
 
     return NextResponse.json({
       success: true,
@@ -132,12 +145,29 @@ async function processWebsiteAsync(
   agentId: string,
   projectId: string,
   url: string,
-  crawlSubpages: boolean,
-  maxPages: number,
-  fullPageContent: boolean
+  options: {
+    crawlSubpages: boolean
+    maxPages: number
+    fullPageContent: boolean
+    crawlMode: CrawlMode
+    crawlRules: CrawlRules
+    // Boilerplate found by earlier crawls of the source
+    repeatedBlocks: string[]
+  }
 ) {
+  const { crawlSubpages, maxPages, fullPageContent, crawlMode, crawlRules, repeatedBlocks } = options
   const supabase = await createClient()
   let chunksDeleted = false
+  // Settings kept in every metadata update so the next re-crawl uses them too
+  const crawlSettings = {
+    url,
+    crawl_subpages: crawlSubpages,
+    crawl_mode: crawlMode,
+    crawl_rules: crawlRules,
+    max_pages: maxPages,
+    full_page_content: fullPageContent,
+    repeated_blocks: repeatedBlocks
+  }
 
   try {
     console.log(`Starting re-crawl for ${url} with maxPages=${maxPages}, crawlSubpages=${crawlSubpages}, fullPageContent=${fullPageContent}`)
@@ -154,10 +184,7 @@ async function processWebsiteAsync(
       await supabase.from('sources').update({
         status: 'processing',
         metadata: {
-          url,
-          crawl_subpages: crawlSubpages,
-          max_pages: maxPages,
-          full_page_content: fullPageContent,
+          ...crawlSettings,
           pages_crawled: progress.current, // Track actual crawled pages
           crawl_progress: {
             current: progress.current,
@@ -194,8 +221,20 @@ async function processWebsiteAsync(
       console.log(`[Re-crawl Progress] ${sourceId}: ${progress.phase} - ${progress.current}/${progress.total}`)
     }
 
-    // Crawl the website with progress tracking using Playwright
-    const results = await scrapeWebsiteWithPlaywright(url, maxPages, crawlSubpages, progressCallback, fullPageContent)
+    const pages = new WebsitePageStore(sourceId, agentId, projectId)
+
+    // Crawl the website with progress tracking; chunks are written below once the crawl succeeds
+    const crawler = new UnifiedCrawler({
+      maxPages,
+      crawlSubpages,
+      crawlMode,
+      crawlRules,
+      excludedUrls: await pages.excludedUrls(),
+      fullPageContent,
+      repeatedBlocks,
+      onProgress: progressCallback
+    })
+    const results = await crawler.crawlWebsite(url)
     const validPages = results.filter(page => !page.error && page.content)
 
     if (validPages.length === 0) {
@@ -206,10 +245,7 @@ async function processWebsiteAsync(
         size_kb: 0,
         chunk_count: 0,
         metadata: {
-          url,
-          crawl_subpages: crawlSubpages,
-          max_pages: maxPages,
-          full_page_content: fullPageContent,
+          ...crawlSettings,
           pages_crawled: attemptedUrls.length,
           crawled_pages: attemptedUrls,
           crawl_errors: results.filter(r => r.error).map(r => ({
@@ -224,19 +260,9 @@ async function processWebsiteAsync(
       return
     }
 
-    // Now that crawl succeeded, delete old chunks
-    const { error: deleteError } = await supabase
-      .from('source_chunks')
-      .delete()
-      .eq('source_id', sourceId)
-
-    if (deleteError) {
-      console.error('Failed to delete old chunks:', deleteError)
-      throw new Error('Failed to clear old content')
-    }
-
+    // Now that crawl succeeded, replace the old content; unchanged chunks keep their embeddings
     chunksDeleted = true
-    console.log('Old chunks deleted, processing new content...')
+    const chunkSync = await ChunkManager.beginChunkSync(sourceId)
 
     // Calculate total size
     let totalSizeKb = 0
@@ -244,36 +270,25 @@ async function processWebsiteAsync(
 
     // Process each valid page
     for (const page of validPages) {
-      const pageContent = `URL: ${page.url}\nTitle: ${page.title}\n\n${page.content}`
-      const sizeKb = Math.ceil(Buffer.byteLength(pageContent, 'utf8') / 1024)
-      totalSizeKb += sizeKb
-
-      // Create chunks for the page content
-      const chunkManager = new ChunkManager(supabase)
-      const chunks = await chunkManager.createChunks(
-        sourceId,
-        pageContent,
-        {
-          url: page.url,
-          title: page.title,
-          links: page.links,
-          images: page.images
-        }
-      )
+      totalSizeKb += Math.ceil(Buffer.byteLength(page.content, 'utf8') / 1024)
+      totalChunks += await pages.savePage(page, chunkSync)
+    }
 
-      totalChunks += chunks.length
+    for (const page of results.filter(r => r.error)) {
+      await pages.savePageError(page)
     }
 
+    await ChunkManager.finishChunkSync(chunkSync)
+    await pages.removeMissing(results.map(r => r.url))
+
     // Update source with results
     await supabase.from('sources').update({
       status: 'ready',
       size_kb: totalSizeKb,
       chunk_count: totalChunks,
       metadata: {
-        url,
-        crawl_subpages: crawlSubpages,
-        max_pages: maxPages,
-        full_page_content: fullPageContent,
+        ...crawlSettings,
+        repeated_blocks: crawler.repeatedBlocks(),
         pages_crawled: validPages.length,
         crawled_pages: validPages.map(p => p.url),
         discovered_links: Array.from(discoveredLinks),
@@ -293,21 +308,21 @@ async function processWebsiteAsync(
   } catch (error: any) {
     console.error(`Re-crawl error:`, error)
 
-    // If we deleted chunks but failed to add new ones, we have a problem
+    // If we started replacing chunks but didn't finish, old and new content are mixed
     if (chunksDeleted) {
-      console.error('CRITICAL: Chunks were deleted but new crawl failed!')
+      console.error('CRITICAL: Re-crawl failed while replacing chunks!')
       // Mark source as requiring attention
       await supabase.from('sources').update({
         status: 'error',
         metadata: {
           ...((await supabase.from('sources').select('metadata').eq('id', sourceId).single()).data?.metadata || {}),
-          error_message: 'Re-crawl failed after deleting existing content. Manual intervention required.',
+          error_message: 'Re-crawl failed while replacing existing content. Re-crawl again to fix it.',
           critical_error: true,
           recrawl_failed_at: new Date().toISOString()
         }
       }).eq('id', sourceId)
     } else {
-      // Chunks not deleted yet, so we can safely restore
+      // Chunks not touched yet, so we can safely restore
       await supabase.from('sources').update({
         status: 'ready',
         metadata: {
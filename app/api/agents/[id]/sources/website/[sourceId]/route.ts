@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { CrawlRulesSchema } from '@/lib/crawler/crawl-rules'
+import { scheduleRecrawl } from '@/lib/queue/website-processor'
+import { resolveCrawlRules } from '@/lib/types/crawler'
+import { sanitizeError, validateCrawlUrl } from '@/lib/utils/security'
+
+// Five or six fields (optional seconds first), as BullMQ's cron parser takes them
+const CRON_PATTERN = /^\s*(\S+\s+){4,5}\S+\s*$/
+
+const RecrawlScheduleSchema = z.object({
+  frequency: z.enum(['off', 'daily', 'weekly', 'cron']),
+  cron: z.string().trim().max(100).nullable().default(null)
+}).refine(
+  schedule => schedule.frequency !== 'cron' || (!!schedule.cron && CRON_PATTERN.test(schedule.cron)),
+  { message: 'Enter a cron expression with five fields, such as 0 3 * * 1', path: ['cron'] }
+)
+
+// Changes apply from the next crawl; re-crawl the source to use them
+const UpdateWebsiteSchema = z.object({
+  url: z.string().trim().min(1).max(2048).optional(),
+  crawlRules: CrawlRulesSchema.optional(),
+  // Keep whole pages instead of their main content
+  fullPageContent: z.boolean().optional(),
+  recrawlSchedule: RecrawlScheduleSchema.optional()
+})
+
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  const params = await props.params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { url, crawlRules, fullPageContent, recrawlSchedule } = UpdateWebsiteSchema.parse(await request.json())
+
+    const { data: source, error: sourceError } = await supabase
+      .from('sources')
+      .select('id, project_id, website_url, metadata')
+      .eq('id', params.sourceId)
+      .eq('agent_id', params.id)
+      .eq('type', 'website')
+      .single()
+
+    if (sourceError || !source) {
+      return NextResponse.json({ error: 'Source not found' }, { status: 404 })
+    }
+
+    const metadata = (source.metadata || {}) as Record<string, any>
+    const updates: Record<string, any> = {}
+
+    if (url) {
+      const urlValidation = validateCrawlUrl(url)
+      if (!urlValidation.valid) {
+        return NextResponse.json({ error: urlValidation.error || 'Invalid URL' }, { status: 400 })
+      }
+      updates.name = urlValidation.normalizedUrl
+      updates.website_url = urlValidation.normalizedUrl
+      metadata.url = urlValidation.normalizedUrl
+    }
+
+    if (crawlRules) {
+      metadata.crawl_rules = crawlRules
+    }
+
+    if (fullPageContent !== undefined) {
+      metadata.full_page_content = fullPageContent
+    }
+
+    if (recrawlSchedule) {
+      const schedule = {
+        frequency: recrawlSchedule.frequency,
+        cron: recrawlSchedule.frequency === 'cron' ? recrawlSchedule.cron : null
+      }
+
+      // Scheduled runs re-read these settings from the source before crawling
+      try {
+        const scheduled = await scheduleRecrawl({
+          sourceId: source.id,
+          agentId: params.id,
+          projectId: source.project_id,
+          url: metadata.url || source.website_url,
+          crawlSubpages: metadata.crawl_subpages !== false,
+          maxPages: metadata.max_pages || 50,
+          crawlMode: metadata.crawl_mode === 'sitemap' ? 'sitemap' : 'links',
+          crawlRules: resolveCrawlRules(metadata.crawl_rules),
+          fullPageContent: metadata.full_page_content === true
+        }, schedule)
+
+        if (!scheduled) {
+          return NextResponse.json(
+            { error: 'Scheduled re-crawls are unavailable right now. Please try again later.' },
+            { status: 503 }
+          )
+        }
+      } catch (error: any) {
+        return NextResponse.json({ error: `Invalid schedule: ${error.message}` }, { status: 400 })
+      }
+
+      metadata.recrawl_schedule = schedule
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('sources')
+      .update({ ...updates, metadata, updated_at: new Date().toISOString() })
+      .eq('id', params.sourceId)
+      .select('id, name, website_url, metadata')
+      .single()
+
+    if (updateError) {
+      console.error('Error updating website source:', updateError)
+      return NextResponse.json({ error: 'Failed to update website source' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, source: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error in PATCH /api/agents/[id]/sources/website/[sourceId]:', error)
+    return NextResponse.json({ error: sanitizeError(error) }, { status: 500 })
+  }
+}
+
+// The website page sends URL edits with PUT
+export const PUT = PATCH
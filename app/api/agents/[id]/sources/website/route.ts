@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { queueWebsiteCrawl, getJobStatus } from '@/lib/queue/website-processor'
+import { queueWebsiteCrawl, getJobStatus, unscheduleRecrawl } from '@/lib/queue/website-processor'
 import { scrapeWebsite, CrawlProgress } from '@/lib/sources/website-scraper'
 import { ChunkManager } from '@/lib/services/chunk-manager'
+import { WebsitePageStore } from '@/lib/services/website-pages'
+import { resolveRecrawlSchedule } from '@/lib/types/crawler'
+import type { CrawlMode } from '@/lib/types/crawler'
+import { CrawlRulesSchema } from '@/lib/crawler/crawl-rules'
 import {
   sanitizeError,
   validateCrawlUrl,
@@ -24,7 +28,9 @@ export async function POST(
   const params = await props.params
   try {
     const supabase = await createClient()
-    const { url, crawlSubpages, maxPages, fullPageContent } = await request.json()
+    const { url, crawlSubpages, maxPages, fullPageContent, crawlMode, crawlRules } = await request.json()
+    const safeCrawlMode: CrawlMode = crawlMode === 'sitemap' ? 'sitemap' : 'links'
+    const parsedRules = CrawlRulesSchema.safeParse(crawlRules ?? {})
 
     // Get authenticated user
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -72,6 +78,14 @@ export async function POST(
 
     const validatedUrl = urlValidation.normalizedUrl!
 
+    if (!parsedRules.success) {
+      return NextResponse.json(
+        { error: parsedRules.error.errors[0]?.message || 'Invalid crawl rules', details: parsedRules.error.errors },
+        { status: 400 }
+      )
+    }
+    const safeCrawlRules = parsedRules.data
+
     // Validate maxPages
     const safeMaxPages = Math.min(Math.max(1, maxPages || 10), 1000) // Cap at 1000 pages
 
@@ -102,6 +116,8 @@ export async function POST(
         metadata: {
           url: validatedUrl,
           crawl_subpages: crawlSubpages || false,
+          crawl_mode: safeCrawlMode,
+          crawl_rules: safeCrawlRules,
           max_pages: safeMaxPages,
           pages_crawled: 0,
           crawled_pages: [],
@@ -129,7 +145,10 @@ export async function POST(
       projectId: agent.project_id,
       url: validatedUrl,
       crawlSubpages: crawlSubpages || false,
-      maxPages: safeMaxPages
+      maxPages: safeMaxPages,
+      crawlMode: safeCrawlMode,
+      crawlRules: safeCrawlRules,
+      fullPageContent: fullPageContent === true
     })
 
     // If queue is available, update status to queued
@@ -382,7 +401,7 @@ async function processWebsiteDirectly(
             discovered_links: Array.from(discoveredLinks),
             crawl_errors: [],
             crawl_progress: progressData,
-            full_page_content: false
+            full_page_content: fullPageContent
           }
         })
         .eq('id', sourceId)
@@ -457,7 +476,7 @@ async function processWebsiteDirectly(
             crawl_errors: crawlErrors,
             crawl_progress: null,
             total_chunks: 0,
-            full_page_content: false,
+            full_page_content: fullPageContent,
             crawl_completed_at: new Date().toISOString()
           },
           updated_at: new Date().toISOString()
@@ -470,35 +489,27 @@ async function processWebsiteDirectly(
     console.log(`Processing ${validPages.length} pages`)
 
     // Process each page separately to maintain page boundaries
+    // One sync session across all pages, so unchanged chunks keep their embeddings
     let totalChunks = 0
     let totalSize = 0
+    const chunkSync = await ChunkManager.beginChunkSync(sourceId, supabase)
 
-    for (const page of validPages) {
-      // Store chunks for each page with page-specific metadata
-      const chunkCount = await ChunkManager.storeChunks({
-        sourceId,
-        agentId,
-        projectId,
-        content: page.content || '',
-        metadata: {
-          type: 'website',
-          page_url: page.url,
-          page_title: page.title || page.url,
-          root_url: normalizedUrl,
-          crawl_timestamp: new Date().toISOString(),
-          // Add link depth if available
-          depth: page.url === url ? 0 : page.url.split('/').length - url.split('/').length
-        },
-        chunkSize: 4000, // Larger chunks for websites
-        chunkOverlap: 400, // Maintain overlap for context
-        supabaseClient: supabase
-      })
+    const pages = new WebsitePageStore(sourceId, agentId, projectId)
+    // This scraper can't skip pages, so excluded ones are dropped here
+    const excludedUrls = new Set(await pages.excludedUrls())
+
+    for (const page of validPages.filter(p => !excludedUrls.has(p.url))) {
+      // Each page gets a website_pages row; its chunks point back to it
+      const chunkCount = await pages.savePage(page, chunkSync)
 
       totalChunks += chunkCount
       totalSize += (page.content || '').length
       console.log(`Chunked page ${page.url}: ${chunkCount} chunks`)
     }
 
+    const chunkStats = await ChunkManager.finishChunkSync(chunkSync, supabase)
+    await pages.removeMissing(validPages.map(p => p.url))
+
     // Calculate size in KB
     const sizeKb = Math.ceil(totalSize / 1024)
 
@@ -519,7 +530,8 @@ async function processWebsiteDirectly(
           crawl_errors: crawlErrors,
           crawl_progress: null,
           total_chunks: totalChunks,
-          full_page_content: false,
+          chunk_sync: chunkStats,
+          full_page_content: fullPageContent,
           crawl_completed_at: new Date().toISOString()
         },
         updated_at: new Date().toISOString()
@@ -565,7 +577,7 @@ async function processWebsiteDirectly(
           crawl_errors: [{ url: normalizedUrl, error: error.message || 'Failed to crawl' }],
           crawl_progress: null,
           error_message: error.message || 'Failed to crawl website',
-          full_page_content: false,
+          full_page_content: fullPageContent,
           crawl_completed_at: new Date().toISOString()
         },
         updated_at: new Date().toISOString()
@@ -726,7 +738,8 @@ export async function PATCH(
           projectId: agent?.project_id || '',
           url: source.website_url,
           crawlSubpages: source.metadata?.crawl_subpages || false,
-          maxPages: source.metadata?.max_pages || 10
+          maxPages: source.metadata?.max_pages || 10,
+          fullPageContent: (source.metadata as Record<string, any> | null)?.full_page_content === true
         })
 
         // Fallback to direct processing if queue unavailable
@@ -761,7 +774,7 @@ export async function PATCH(
         // Get current source
         const { data: source, error: fetchError } = await supabase
           .from('sources')
-          .select('metadata, chunk_count')
+          .select('id, project_id')
           .eq('id', sourceId)
           .eq('agent_id', params.id)
           .single()
@@ -773,41 +786,11 @@ export async function PATCH(
           )
         }
 
-        // Remove link from crawled pages
-        const crawledPages = source.metadata?.crawled_pages || []
-        const updatedPages = crawledPages.filter((url: string) => url !== linkUrl)
-
-        // Delete chunks from this URL
-        const { data: deletedChunks } = await supabase
-          .from('source_chunks')
-          .delete()
-          .eq('source_id', sourceId)
-          .eq('metadata->page_url', linkUrl)
-          .select('id')
-
-        const deletedCount = deletedChunks?.length || 0
-
-        // Update source metadata and chunk count
-        const { error: updateError } = await supabase
-          .from('sources')
-          .update({
-            chunk_count: Math.max(0, (source.chunk_count || 0) - deletedCount),
-            metadata: {
-              ...source.metadata,
-              crawled_pages: updatedPages,
-              pages_crawled: updatedPages.length,
-              excluded_links: [
-                ...(source.metadata?.excluded_links || []),
-                linkUrl
-              ],
-              total_chunks: Math.max(0, (source.metadata?.total_chunks || 0) - deletedCount)
-            },
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', sourceId)
-
-        if (updateError) {
-          console.error('Exclude link error:', updateError)
+        // Drops the page's chunks and keeps later crawls away from it
+        try {
+          await new WebsitePageStore(source.id, params.id, source.project_id).excludePage(linkUrl)
+        } catch (error) {
+          console.error('Exclude link error:', error)
           return NextResponse.json(
             { error: 'Failed to exclude link' },
             { status: 500 }
@@ -855,7 +838,7 @@ export async function DELETE(
     // Get sources to check if they're trained
     const { data: sources, error: fetchError } = await supabase
       .from('sources')
-      .select('id, is_trained')
+      .select('id, is_trained, metadata')
       .in('id', sourceIds)
       .eq('agent_id', params.id)
 
@@ -928,6 +911,12 @@ export async function DELETE(
       console.log(`Hard deleted ${untrainedIds.length} untrained website sources`)
     }
 
+    // Stop automatic re-crawls of the deleted websites
+    const scheduledIds = sources
+      .filter(s => resolveRecrawlSchedule((s.metadata as Record<string, any> | null)?.recrawl_schedule).frequency !== 'off')
+      .map(s => s.id)
+    await Promise.all(scheduledIds.map(id => unscheduleRecrawl(id)))
+
     // Update agent's source count
     const { data: stats } = await supabase
       .from('sources')
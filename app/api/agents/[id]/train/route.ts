@@ -55,6 +55,33 @@ export async function POST(
       )
     }
 
+    const embeddingService = await EmbeddingService.forProject(agent.project_id)
+    const embeddingModel = embeddingService.model
+
+    // What re-chunking did since the last run, as counted by ChunkManager.finishChunkSync;
+    // removed also covers the chunks of removed sources
+    const { data: agentSources } = await supabase
+      .from('sources')
+      .select('id, status, pending_added_chunks, pending_reused_chunks, pending_removed_chunks')
+      .eq('agent_id', params.id)
+
+    const removedSourceIds = (agentSources || []).filter(s => s.status === 'removed').map(s => s.id)
+    let removedSourceChunkCount = 0
+    if (removedSourceIds.length > 0) {
+      const { count } = await supabase
+        .from('source_chunks')
+        .select('id', { count: 'exact', head: true })
+        .in('source_id', removedSourceIds)
+      removedSourceChunkCount = count || 0
+    }
+
+    const chunkStats = {
+      reused: (agentSources || []).reduce((sum, s) => sum + (s.pending_reused_chunks || 0), 0),
+      added: (agentSources || []).reduce((sum, s) => sum + (s.pending_added_chunks || 0), 0),
+      removed: removedSourceChunkCount +
+        (agentSources || []).reduce((sum, s) => sum + (s.pending_removed_chunks || 0), 0)
+    }
+
     // Generate embeddings if enabled
     let embeddingResults = {
       success: false,
@@ -67,7 +94,6 @@ export async function POST(
     if (generateEmbeddings) {
       console.log('Generating embeddings for agent:', params.id)
       try {
-        const embeddingService = new EmbeddingService()
         embeddingResults = await embeddingService.generateEmbeddingsForAgent(params.id)
 
         console.log('Embedding generation results:', embeddingResults)
@@ -78,7 +104,7 @@ export async function POST(
             .from('sources')
             .update({
               is_trained: true,
-              embedding_model: 'text-embedding-3-small',
+              embedding_model: embeddingModel,
               embedding_generated_at: new Date().toISOString(),
               total_embedding_tokens: embeddingResults.totalTokens,
               embedding_cost_usd: embeddingResults.totalCost
@@ -103,6 +129,25 @@ export async function POST(
       // Don't fail the whole operation if delete fails
     }
 
+    // Subtract the chunk changes this run reported, once their chunks are embedded.
+    // Counts added by a crawl that finished meanwhile stay for the next run.
+    if (!generateEmbeddings || embeddingResults.success) {
+      const reported = (agentSources || []).filter(s =>
+        s.status !== 'removed' &&
+        (s.pending_added_chunks > 0 || s.pending_reused_chunks > 0 || s.pending_removed_chunks > 0)
+      )
+      const results = await Promise.all(reported.map(s => supabase.rpc('adjust_pending_chunk_counts', {
+        p_source_id: s.id,
+        p_added: -s.pending_added_chunks,
+        p_reused: -s.pending_reused_chunks,
+        p_removed: -s.pending_removed_chunks
+      })))
+      const countError = results.find(result => result.error)?.error
+      if (countError) {
+        console.error('Error updating pending chunk counts:', countError)
+      }
+    }
+
     // Update agent's last_trained_at timestamp
     const { error: agentUpdateError } = await supabase
       .from('agents')
@@ -143,6 +188,7 @@ export async function POST(
       sourcesUpdated: updatedSources?.length || 0,
       totalSources,
       totalSizeKb,
+      chunks: chunkStats,
       embeddingsGenerated: embeddingResults.totalProcessed,
       embeddingCost: embeddingResults.totalCost
     })
@@ -156,18 +202,19 @@ export async function POST(
     return NextResponse.json({
       success: true,
       message: generateEmbeddings
-        ? `Training completed successfully. ${updatedSources?.length || 0} sources trained, ${embeddingResults.totalProcessed} embeddings generated.`
+        ? `Training completed successfully. ${updatedSources?.length || 0} sources trained, ${embeddingResults.totalProcessed} embeddings generated, ${chunkStats.reused} chunks reused, ${chunkStats.removed} removed.`
         : `Training completed successfully. ${updatedSources?.length || 0} sources trained.`,
       stats: {
         sourcesUpdated: updatedSources?.length || 0,
         totalSources,
         totalSizeKb,
+        chunks: chunkStats,
         embeddings: generateEmbeddings ? {
           generated: embeddingResults.totalProcessed,
           failed: embeddingResults.totalFailed,
           tokens: embeddingResults.totalTokens,
           cost: embeddingResults.totalCost,
-          model: 'text-embedding-3-small'
+          model: embeddingModel
         } : null
       }
     })
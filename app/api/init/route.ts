@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
-import { initWebsiteQueue, initWebsiteWorker } from '@/lib/queue/website-processor'
+import { initializeQueues } from '@/lib/queue'
+import { initWebsiteQueue } from '@/lib/queue/website-processor'
 
 // This initializes queue workers on first API call
 let initialized = false
@@ -9,9 +10,10 @@ export async function GET() {
     console.log('Initializing queue system...')
 
     const queue = initWebsiteQueue()
-    const worker = initWebsiteWorker()
 
-    if (queue && worker) {
+    if (queue) {
+      // Usually already started from instrumentation.ts; starting again is a no-op
+      initializeQueues()
       console.log('✅ Queue system initialized with Redis')
       initialized = true
       return NextResponse.json({
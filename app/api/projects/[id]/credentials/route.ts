@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { createProvider } from '@/lib/ai/server-utils'
+import {
+  deleteProjectCredential,
+  isPlatformFallbackAllowed,
+  listKeyedProviders,
+  listProjectCredentials,
+  saveProjectCredential
+} from '@/lib/ai/project-credentials'
+import { isEncryptionConfigured } from '@/lib/utils/encryption'
+
+export const runtime = 'nodejs'
+
+// Keys are write-only: responses carry the hint and status, never the key
+
+const saveCredentialSchema = z.object({
+  provider: z.string().min(1).max(50),
+  apiKey: z.string().trim().min(8).max(500)
+})
+
+async function getOwnedProject(projectId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { user: null, project: null, status: 401 }
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, owner_id')
+    .eq('id', projectId)
+    .single()
+
+  if (!project || project.owner_id !== user.id) {
+    return { user, project: null, status: 404 }
+  }
+
+  return { user, project, status: 200 }
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { project, status } = await getOwnedProject(params.id)
+
+    if (!project) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Project not found' }, { status })
+    }
+
+    const [credentials, providers, platformFallback] = await Promise.all([
+      listProjectCredentials(params.id),
+      listKeyedProviders(),
+      isPlatformFallbackAllowed(params.id)
+    ])
+
+    return NextResponse.json({
+      credentials,
+      providers,
+      platformFallback,
+      encryptionConfigured: isEncryptionConfigured()
+    })
+  } catch (error) {
+    console.error('Get credentials error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Save or replace the project's key for a provider
+ * The key must pass the provider's health check before it's stored.
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { user, project, status } = await getOwnedProject(params.id)
+
+    if (!project || !user) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Project not found' }, { status })
+    }
+
+    if (!isEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'Storing API keys is not enabled on this server' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+    const { provider: providerName, apiKey } = saveCredentialSchema.parse(body)
+
+    const providers = await listKeyedProviders()
+    if (!providers.some(provider => provider.name === providerName)) {
+      return NextResponse.json({ error: `Unknown provider: ${providerName}` }, { status: 400 })
+    }
+
+    const provider = await createProvider(providerName, apiKey)
+    if (!provider?.healthCheck) {
+      return NextResponse.json({ error: `Keys for ${providerName} can't be verified` }, { status: 400 })
+    }
+
+    const health = await provider.healthCheck()
+    if (!health.isHealthy) {
+      return NextResponse.json(
+        { error: `Key check failed: ${health.error || 'the provider rejected the key'}` },
+        { status: 400 }
+      )
+    }
+
+    await saveProjectCredential(params.id, providerName, apiKey, user.id)
+
+    return NextResponse.json({ provider: providerName, responseTime: health.responseTime })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Save credential error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { project, status } = await getOwnedProject(params.id)
+
+    if (!project) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Project not found' }, { status })
+    }
+
+    const provider = request.nextUrl.searchParams.get('provider')
+    if (!provider) {
+      return NextResponse.json({ error: 'provider is required' }, { status: 400 })
+    }
+
+    await deleteProjectCredential(params.id, provider)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete credential error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
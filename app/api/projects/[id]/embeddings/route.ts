@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { createProjectEmbeddingProvider } from '@/lib/ai/embedding-providers'
+import { queueReembedding } from '@/lib/queue/reembedding-processor'
+import { resolveEmbeddingSettings } from '@/lib/types/embeddings'
+
+export const runtime = 'nodejs'
+
+const updateEmbeddingSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1)
+})
+
+async function getOwnedProject(projectId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { supabase, project: null, status: 401 }
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, owner_id, embedding_provider, embedding_model')
+    .eq('id', projectId)
+    .single()
+
+  if (!project || project.owner_id !== user.id) {
+    return { supabase, project: null, status: 404 }
+  }
+
+  return { supabase, project, status: 200 }
+}
+
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  const { project, status } = await getOwnedProject(params.id)
+
+  if (!project) {
+    return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Project not found' }, { status })
+  }
+
+  return NextResponse.json({ settings: resolveEmbeddingSettings(project) })
+}
+
+/**
+ * Change the project's embedding provider/model
+ * Every agent in the project is queued for re-embedding when the model changes
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+) {
+  const params = await props.params
+  try {
+    const { supabase, project, status } = await getOwnedProject(params.id)
+
+    if (!project) {
+      return NextResponse.json({ error: status === 401 ? 'Unauthorized' : 'Project not found' }, { status })
+    }
+
+    const body = await request.json()
+    const settings = updateEmbeddingSchema.parse(body)
+
+    // Make sure the provider works before switching every agent over to it
+    let dimensions: number
+    try {
+      const { provider } = await createProjectEmbeddingProvider(params.id, settings.provider)
+      const probe = await provider.embed!({ input: 'test', model: settings.model })
+      dimensions = probe.dimensions
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Embedding provider check failed: ${error.message}` },
+        { status: 400 }
+      )
+    }
+
+    const previous = resolveEmbeddingSettings(project)
+
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({
+        embedding_provider: settings.provider,
+        embedding_model: settings.model,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+
+    if (updateError) {
+      console.error('Error updating embedding settings:', updateError)
+      return NextResponse.json({ error: 'Failed to update embedding settings' }, { status: 500 })
+    }
+
+    let agentCount = 0
+    let queued = 0
+
+    if (previous.model !== settings.model) {
+      const { data: agents } = await supabase
+        .from('agents')
+        .select('id')
+        .eq('project_id', params.id)
+
+      agentCount = agents?.length || 0
+
+      for (const agent of agents || []) {
+        const jobId = await queueReembedding({
+          agentId: agent.id,
+          projectId: params.id,
+          model: settings.model
+        })
+        if (jobId) queued++
+      }
+
+      console.log(`[Embeddings] Project ${params.id} switched ${previous.model} -> ${settings.model}, queued ${queued}/${agentCount} agents`)
+    }
+
+    return NextResponse.json({
+      settings,
+      dimensions,
+      reembedding: {
+        agents: agentCount,
+        queued,
+        // Without a queue, stale chunks are re-embedded the next time each agent is trained
+        pendingRetrain: agentCount - queued
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Embedding settings error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import crypto from 'crypto'
+import { formatCitationFootnotes } from '@/lib/utils/citations'
+import { ChatImageStore } from '@/lib/services/chat-images'
+import { internalRequestHeaders } from '@/lib/utils/security'
 
 // Facebook webhook verification token (should be in env)
 const WEBHOOK_VERIFY_TOKEN = process.env.FACEBOOK_WEBHOOK_VERIFY_TOKEN || 'alonchat_webhook_token_2024'
@@ -225,51 +228,64 @@ async function handleMessage(
 
   // If not an echo and from user, generate AI response
   if (!isEcho && senderId !== integration.page_id) {
-    await generateAIResponse(supabase, integration, conversation, messageText, senderId)
+    await generateAIResponse(supabase, integration, conversation, messageText, imageAttachmentUrls(attachments), senderId)
   }
 }
 
+// Image attachments the agent can look at
+function imageAttachmentUrls(attachments: any[]): string[] {
+  return attachments
+    .filter(attachment => attachment.type === 'image' && attachment.payload?.url)
+    .map(attachment => attachment.payload.url)
+}
+
 // Generate AI response using the agent
 async function generateAIResponse(
   supabase: any,
   integration: any,
   conversation: any,
-  userMessage: string,
+  userMessage: string | undefined,
+  imageUrls: string[],
   recipientId: string
 ) {
+  if (!userMessage && imageUrls.length === 0) return
+
   try {
-    // Get recent conversation history for context
-    const { data: recentMessages } = await supabase
-      .from('facebook_messages')
-      .select('sender_type, message_text')
-      .eq('conversation_id', conversation.id)
-      .order('sent_at', { ascending: false })
-      .limit(10)
-
-    // Build conversation context
-    const messages = recentMessages?.reverse().map((msg: any) => ({
-      role: msg.sender_type === 'user' ? 'user' : 'assistant',
-      content: msg.message_text
-    })) || []
-
-    // Call the agent's chat endpoint
+    // Attachment URLs expire, so images are copied to storage before the chat route sees them
+    const images = imageUrls.length > 0
+      ? await new ChatImageStore(integration.agent_id).storeFromUrls(imageUrls)
+      : []
+    if (!userMessage && images.length === 0) return
+
+    // Call the agent's chat endpoint; it keeps the thread's memory (recent
+    // turns and a running summary) under the session id. There's no user
+    // session here, so the call authenticates as an internal request.
     const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/agents/${integration.agent_id}/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...internalRequestHeaders() },
       body: JSON.stringify({
-        message: userMessage,
+        message: userMessage || '',
+        images: images.map(image => image.path),
         sessionId: `facebook_${conversation.id}`,
-        messages: messages
+        channel: 'messenger'
       })
     })
 
     const data = await response.json()
+    if (!response.ok) {
+      throw new Error(`Chat endpoint returned ${response.status}: ${data.error || 'unknown error'}`)
+    }
 
     if (data.response) {
+      // Replies are plain text, so sources are listed underneath as footnotes
+      const reply = data.citations?.length
+        ? `${data.response}\n\n${formatCitationFootnotes(data.citations)}`
+        : data.response
+
       // Send response back to Facebook
       await sendMessageToFacebook(
         recipientId,
-        data.response,
+        reply,
         integration.page_access_token
       )
 
@@ -282,7 +298,7 @@ async function generateAIResponse(
           sender_id: integration.page_id,
           sender_type: 'page',
           recipient_id: recipientId,
-          message_text: data.response,
+          message_text: reply,
           is_echo: false,
           sent_at: new Date().toISOString()
         })
@@ -375,7 +391,7 @@ async function handlePostback(
     })
 
   // Generate AI response for the postback
-  await generateAIResponse(supabase, integration, conversation, title, senderId)
+  await generateAIResponse(supabase, integration, conversation, title, [], senderId)
 }
 
 // Handle message read events
@@ -536,7 +552,7 @@ async function handleInstagramMessage(
 
   // If not an echo and from user, generate AI response
   if (!message.is_echo && senderId !== integration.instagram_account_id) {
-    await generateInstagramAIResponse(supabase, integration, conversation, messageText, senderId)
+    await generateInstagramAIResponse(supabase, integration, conversation, messageText, imageAttachmentUrls(attachments), senderId)
   }
 }
 
@@ -545,42 +561,48 @@ async function generateInstagramAIResponse(
   supabase: any,
   integration: any,
   conversation: any,
-  userMessage: string,
+  userMessage: string | undefined,
+  imageUrls: string[],
   recipientId: string
 ) {
+  if (!userMessage && imageUrls.length === 0) return
+
   try {
-    // Get recent conversation history for context
-    const { data: recentMessages } = await supabase
-      .from('instagram_messages')
-      .select('sender_type, message_text')
-      .eq('conversation_id', conversation.id)
-      .order('sent_at', { ascending: false })
-      .limit(10)
-
-    // Build conversation context
-    const messages = recentMessages?.reverse().map((msg: any) => ({
-      role: msg.sender_type === 'user' ? 'user' : 'assistant',
-      content: msg.message_text
-    })) || []
-
-    // Call the agent's chat endpoint
+    // Attachment URLs expire, so images are copied to storage before the chat route sees them
+    const images = imageUrls.length > 0
+      ? await new ChatImageStore(integration.agent_id).storeFromUrls(imageUrls)
+      : []
+    if (!userMessage && images.length === 0) return
+
+    // Call the agent's chat endpoint; it keeps the thread's memory (recent
+    // turns and a running summary) under the session id. There's no user
+    // session here, so the call authenticates as an internal request.
     const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/agents/${integration.agent_id}/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...internalRequestHeaders() },
       body: JSON.stringify({
-        message: userMessage,
+        message: userMessage || '',
+        images: images.map(image => image.path),
         sessionId: `instagram_${conversation.id}`,
-        messages: messages
+        channel: 'instagram'
       })
     })
 
     const data = await response.json()
+    if (!response.ok) {
+      throw new Error(`Chat endpoint returned ${response.status}: ${data.error || 'unknown error'}`)
+    }
 
     if (data.response) {
+      // Replies are plain text, so sources are listed underneath as footnotes
+      const reply = data.citations?.length
+        ? `${data.response}\n\n${formatCitationFootnotes(data.citations)}`
+        : data.response
+
       // Send response back to Instagram
       await sendMessageToInstagram(
         recipientId,
-        data.response,
+        reply,
         integration.access_token
       )
 
@@ -593,7 +615,7 @@ async function generateInstagramAIResponse(
           sender_id: integration.instagram_account_id,
           sender_type: 'business',
           recipient_id: recipientId,
-          message_text: data.response,
+          message_text: reply,
           is_echo: false,
           sent_at: new Date().toISOString()
         })
@@ -686,7 +708,7 @@ async function handleInstagramPostback(
     })
 
   // Generate AI response for the postback
-  await generateInstagramAIResponse(supabase, integration, conversation, title, senderId)
+  await generateInstagramAIResponse(supabase, integration, conversation, title, [], senderId)
 }
 
 // Handle Instagram read receipts
@@ -1,9 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
 import { createClient } from '@/lib/supabase/server'
 import { MessengerService } from '@/lib/services/messenger-service'
 import { EmbeddingService } from '@/lib/services/embedding-service'
 import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
-import { ChatMessage } from '@/lib/ai/providers/base'
+import { ChatMessage, ToolDefinition } from '@/lib/ai/providers/base'
+import { prepareImages } from '@/lib/ai/utils/images'
+import { ChatImageStore } from '@/lib/services/chat-images'
+import { IMAGE_ONLY_MESSAGE } from '@/lib/types/chat-images'
+import { ActionExecutor } from '@/lib/services/action-executor'
+import { planRoute, runRoute } from '@/lib/ai/model-router'
+import { mayUsePlatformKeys } from '@/lib/ai/project-credentials'
+import { resolveRoutingPolicy } from '@/lib/types/routing'
+import { resolveRetrievalSettings } from '@/lib/types/retrieval'
+import { QueryRewriter } from '@/lib/services/query-rewriter'
+import { buildPromptContext, KnowledgeItem, smallestContextWindow } from '@/lib/ai/context-budget'
+import { resolveLeadFormSettings } from '@/lib/types/leads'
+import { leadFormActions, leadFormInstructions } from '@/lib/actions/lead-form'
+import { queueConversationAnalysis } from '@/lib/queue/analysis-processor'
+import { queueMemoryRefresh } from '@/lib/queue/memory-processor'
+import { ConversationMemory, formatConversationSummary } from '@/lib/services/conversation-memory'
+import { resolveMemorySettings } from '@/lib/types/memory'
+import { Guardrails } from '@/lib/services/guardrails'
+import {
+  CitableContext,
+  CITATION_INSTRUCTIONS,
+  extractCitations,
+  formatCitableContexts,
+  formatCitationFootnotes
+} from '@/lib/utils/citations'
 
 // Webhook verification (Facebook will send GET request to verify)
 export async function GET(request: NextRequest) {
@@ -22,10 +47,34 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Check Meta's x-hub-signature-256 header, an HMAC of the raw body keyed
+ * with the app secret
+ */
+function hasValidSignature(rawBody: string, signature: string | null): boolean {
+  const secret = process.env.MESSENGER_APP_SECRET || process.env.FACEBOOK_APP_SECRET
+  if (!secret) {
+    console.error('MESSENGER_APP_SECRET is not configured')
+    return false
+  }
+  if (!signature) return false
+
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`)
+  const received = Buffer.from(signature)
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+}
+
 // Handle incoming messages
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
+    // Only Meta may post here: the body names attachment URLs we fetch
+    const rawBody = await request.text()
+    if (!hasValidSignature(rawBody, request.headers.get('x-hub-signature-256'))) {
+      console.error('Invalid Messenger webhook signature')
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 })
+    }
+
+    const body = JSON.parse(rawBody)
     const supabase = await createClient()
 
     // Facebook can send multiple entries
@@ -58,18 +107,21 @@ export async function POST(request: NextRequest) {
         await messenger.markSeen(senderId)
         await messenger.showTyping(senderId)
 
-        // Handle text messages
-        if (webhookEvent.message.text) {
+        // Images are answered together with any text sent alongside them
+        const imageUrls: string[] = (webhookEvent.message.attachments || [])
+          .filter((attachment: any) => attachment.type === 'image' && attachment.payload?.url)
+          .map((attachment: any) => attachment.payload.url)
+
+        if (webhookEvent.message.text || imageUrls.length > 0) {
           await handleTextMessage(
             senderId,
-            webhookEvent.message.text,
+            webhookEvent.message.text || '',
             agent,
-            messenger
+            messenger,
+            imageUrls
           )
-        }
-
-        // Handle attachments (images, etc.)
-        if (webhookEvent.message.attachments) {
+        } else if (webhookEvent.message.attachments) {
+          // Other attachments (audio, files, ...)
           await handleAttachments(
             senderId,
             webhookEvent.message.attachments,
@@ -92,13 +144,18 @@ export async function POST(request: NextRequest) {
 
 async function handleTextMessage(
   senderId: string,
-  text: string,
+  messageText: string,
   agent: any,
-  messenger: MessengerService
+  messenger: MessengerService,
+  imageUrls: string[] = []
 ) {
   try {
     const supabase = await createClient()
 
+    // Picture-only messages still need text for history, routing and the logs
+    const imageOnly = !messageText.trim()
+    let text = imageOnly ? IMAGE_ONLY_MESSAGE : messageText
+
     // Get or create conversation
     let conversation
     const { data: existingConv } = await supabase
@@ -124,6 +181,62 @@ async function handleTextMessage(
       conversation = newConv
     }
 
+    const guardrails = await Guardrails.forAgent(agent, {
+      agentId: agent.id,
+      projectId: agent.project_id,
+      model: agent.model || '',
+      channel: 'messenger',
+      conversationId: conversation?.id
+    })
+
+    // Masked input is what gets searched, sent and stored
+    const inputVerdict = await guardrails.checkInput(text)
+    if (inputVerdict.action === 'redact') {
+      text = inputVerdict.text
+    }
+
+    // Blocked and handed-off messages never reach the model
+    if (inputVerdict.action === 'block' || inputVerdict.action === 'handoff') {
+      await messenger.sendTextMessage(senderId, inputVerdict.text)
+
+      if (conversation) {
+        await supabase
+          .from('messages')
+          .insert([
+            {
+              conversation_id: conversation.id,
+              agent_id: agent.id,
+              project_id: agent.project_id,
+              role: 'user',
+              content: text,
+              platform: 'messenger',
+              metadata: { guardrails: inputVerdict.triggers as Record<string, any>[] }
+            },
+            {
+              conversation_id: conversation.id,
+              agent_id: agent.id,
+              project_id: agent.project_id,
+              role: 'assistant',
+              content: inputVerdict.text,
+              platform: 'messenger',
+              metadata: { guardrail: inputVerdict.action }
+            }
+          ])
+      }
+      return
+    }
+
+    // Load memory before storing the new message so it isn't part of the history
+    const memory = conversation
+      ? await new ConversationMemory(agent.id, agent.project_id).load(conversation, resolveMemorySettings(agent.config))
+      : { summary: null, recent: [] as ChatMessage[], totalMessages: 0 }
+    const summaryPrompt = formatConversationSummary(memory.summary)
+
+    // Attachment URLs expire, so the images are copied to storage first
+    const images = imageUrls.length > 0
+      ? await new ChatImageStore(agent.id).storeFromUrls(imageUrls)
+      : []
+
     // Store user message
     if (conversation) {
       await supabase
@@ -134,22 +247,52 @@ async function handleTextMessage(
           project_id: agent.project_id,
           role: 'user',
           content: text,
-          platform: 'messenger'
+          platform: 'messenger',
+          ...((images.length > 0 || inputVerdict.triggers.length > 0) && {
+            metadata: {
+              ...(images.length > 0 && { images: images.map(image => image.path) }),
+              ...(inputVerdict.triggers.length > 0 && { guardrails: inputVerdict.triggers as Record<string, any>[] })
+            }
+          })
         })
     }
 
     // Use RAG to find relevant context
-    let context = ''
     let qaImages: string[] = []
+    const knowledge: KnowledgeItem<CitableContext>[] = []
+
+    // Follow-ups are searched as standalone questions, optionally with
+    // paraphrases and a hypothetical answer
+    const retrievalSettings = resolveRetrievalSettings(agent.config)
+    const queryModel = retrievalSettings.queryModel || agent.model
+    // A picture-only message has nothing to search the knowledge base for
+    const searchQueries = imageOnly
+      ? null
+      : queryModel
+        ? await new QueryRewriter(agent.project_id, queryModel).rewrite(text, memory, retrievalSettings)
+        : { primary: text, extra: [] }
 
     // Initialize embedding service
-    const embeddingService = new EmbeddingService()
-    const similarChunks = await embeddingService.searchSimilarChunks(
-      agent.id,
-      text,
-      5,
-      0.7
-    )
+    const embeddingService = await EmbeddingService.forProject(agent.project_id)
+    const searches = searchQueries
+      ? await Promise.all(
+        [searchQueries.primary, ...searchQueries.extra].map(query =>
+          embeddingService.searchSimilarChunks(agent.id, query, 5, 0.7)
+        )
+      )
+      : []
+
+    // A chunk found by several queries keeps its best similarity
+    const bestMatches = new Map<string, (typeof searches)[number][number]>()
+    searches.flat().forEach(chunk => {
+      const existing = bestMatches.get(chunk.id)
+      if (!existing || chunk.similarity > existing.similarity) {
+        bestMatches.set(chunk.id, chunk)
+      }
+    })
+    const similarChunks = Array.from(bestMatches.values())
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 5)
 
     if (similarChunks.length > 0) {
       // Get source information and images
@@ -162,58 +305,159 @@ async function handleTextMessage(
           .eq('id', chunk.id)
           .single()
 
-        if (sourceChunk) {
-          const { data: source } = await supabase
+        const { data: source } = sourceChunk
+          ? await supabase
             .from('sources')
             .select('name, type, metadata')
             .eq('id', sourceChunk.source_id)
             .single()
+          : { data: null }
 
-          // Collect Q&A images
-          if (source?.type === 'qa' && source?.metadata?.images?.length > 0) {
-            source.metadata.images.forEach((img: string) => {
-              if (!qaImages.includes(img)) {
-                qaImages.push(img)
-              }
-            })
-          }
+        knowledge.push({
+          item: {
+            sourceId: sourceChunk?.source_id || null,
+            sourceName: source?.name || 'Unknown',
+            sourceType: source?.type || 'unknown',
+            content: chunk.content,
+            chunkMetadata: chunk.metadata,
+            sourceMetadata: source?.metadata as Record<string, any> | null
+          },
+          score: chunk.similarity
+        })
+
+        // Collect Q&A images
+        if (source?.type === 'qa' && source?.metadata?.images?.length > 0) {
+          source.metadata.images.forEach((img: string) => {
+            if (!qaImages.includes(img)) {
+              qaImages.push(img)
+            }
+          })
         }
       }
+    }
 
-      // Build context
-      context = similarChunks.map((chunk: any, index) => {
-        return `[Context ${index + 1}]\n${chunk.content}`
-      }).join('\n\n')
+    // Lead form details are collected conversationally on Messenger
+    const leadForm = resolveLeadFormSettings(agent.config)
+    let userMessageCount = 1
+    if (leadForm.enabled && conversation) {
+      const { count } = await supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', conversation.id)
+        .eq('role', 'user')
+      userMessageCount = count || 1
+    }
+    const leadFormState = {
+      channel: 'messenger' as const,
+      userMessageCount,
+      hasContact: !!conversation?.contact_id
     }
+    const leadFormPrompt = leadFormInstructions(leadForm, leadFormState)
+
+    // Pick the model with the agent's routing policy
+    const routeCandidates = await planRoute({
+      policy: resolveRoutingPolicy(agent.config),
+      defaultModel: agent.model || 'gpt-3.5-turbo',
+      signals: {
+        message: text,
+        conversationMessages: memory.totalMessages,
+        topRetrievalScore: similarChunks.reduce((best, chunk) => Math.max(best, chunk.similarity), 0)
+      },
+      allowCatalogFallbacks: await mayUsePlatformKeys(agent.project_id)
+    })
+
+    // Fit knowledge and history into the smallest context window the reply may
+    // come from, least similar chunks and oldest messages first. Only the
+    // default prompt carries knowledge; agents with their own system prompt
+    // answer from that alone.
+    const defaultPrompt = 'You are a helpful AI assistant. Use the following knowledge base to answer questions:'
+    const promptContext = buildPromptContext({
+      model: routeCandidates[0]?.model || agent.model || 'gpt-3.5-turbo',
+      contextWindow: smallestContextWindow(routeCandidates.map(candidate => candidate.contextWindow)),
+      maxReplyTokens: agent.max_tokens,
+      instructions: [agent.system_prompt || defaultPrompt, summaryPrompt, leadFormPrompt].filter(Boolean).join('\n\n'),
+      knowledge: agent.system_prompt ? [] : knowledge,
+      // Numbered so the model can cite it
+      renderKnowledge: (items) => items.length > 0
+        ? `${formatCitableContexts(items)}\n\n${CITATION_INSTRUCTIONS}`
+        : '',
+      history: memory.recent,
+      message: text
+    })
+    const citableContexts = promptContext.knowledge
 
     // Prepare messages for AI
+    let systemPrompt = agent.system_prompt || `${defaultPrompt}\n\n${promptContext.knowledgeText}`
+    if (summaryPrompt) {
+      systemPrompt += `\n\n${summaryPrompt}`
+    }
+    if (leadFormPrompt) {
+      systemPrompt += `\n\n${leadFormPrompt}`
+    }
+
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content: agent.system_prompt || `You are a helpful AI assistant. Use the following knowledge base to answer questions:\n\n${context}`
+        content: systemPrompt
       },
+      ...promptContext.history,
       {
         role: 'user',
-        content: text
+        content: text,
+        ...(images.length > 0 && { images })
       }
     ]
 
-    // Get AI response
-    const result = await chatWithProjectCredentials(
+    const actionContext = {
+      agentId: agent.id,
+      projectId: agent.project_id,
+      conversationId: conversation?.id,
+      sessionId: conversation?.session_id,
+      channel: 'messenger' as const
+    }
+    const actionExecutor = await ActionExecutor.forAgent(
+      actionContext,
+      leadFormActions(leadForm, { ...actionContext, ...leadFormState })
+    )
+
+    // Get AI response, running any actions the model calls
+    // Models without vision get a note about the images instead
+    const supportsVision = (model: string) =>
+      routeCandidates.some(candidate => candidate.model === model && candidate.supportsVision)
+    const generateWith = (model: string, tools?: ToolDefinition[]) => chatWithProjectCredentials(
       agent.project_id,
-      agent.model || 'gpt-3.5-turbo',
-      messages,
+      model,
+      prepareImages(messages, supportsVision(model)),
       {
         temperature: agent.temperature,
-        maxTokens: agent.max_tokens
+        maxTokens: agent.max_tokens,
+        ...(tools && { tools })
       }
     )
+    const routed = await runRoute(
+      routeCandidates,
+      candidate => generateWith(candidate.model, actionExecutor.tools)
+    )
+    const { result, toolCalls } = await actionExecutor.runToolLoop(
+      routed.result,
+      messages,
+      tools => generateWith(routed.decision.model, tools)
+    )
+
+    // Output guardrails see the raw reply, before citations are numbered
+    const outputVerdict = await guardrails.checkOutput(result.content)
+
+    // Messenger replies are plain text, so sources are listed underneath as footnotes
+    const { text: replyText, citations } = extractCitations(outputVerdict.text, citableContexts)
+    const reply = citations.length > 0
+      ? `${replyText}\n\n${formatCitationFootnotes(citations)}`
+      : replyText
 
     // Send text response
-    await messenger.sendTextMessage(senderId, result.content)
+    await messenger.sendTextMessage(senderId, reply)
 
-    // Send images if found
-    if (qaImages.length > 0) {
+    // Send images if found, unless the reply was blocked or handed off
+    if (qaImages.length > 0 && outputVerdict.action !== 'block' && outputVerdict.action !== 'handoff') {
       await messenger.sendMultipleImages(senderId, qaImages)
     }
 
@@ -226,13 +470,27 @@ async function handleTextMessage(
           agent_id: agent.id,
           project_id: agent.project_id,
           role: 'assistant',
-          content: result.content,
+          content: replyText,
           platform: 'messenger',
+          embedding_search_query: searchQueries ? [searchQueries.primary, ...searchQueries.extra].join('\n') : null,
           metadata: {
             images: qaImages,
-            tokensUsed: result.usage?.totalTokens || 0
+            ...(citations.length > 0 && { citations: citations as Record<string, any>[] }),
+            tokensUsed: result.usage?.totalTokens || 0,
+            model: routed.decision.model,
+            tokenBudget: promptContext.breakdown as Record<string, any>,
+            ...(images.length > 0 && { imagesViewed: supportsVision(routed.decision.model) }),
+            routing: routed.decision as Record<string, any>,
+            ...(outputVerdict.action && {
+              guardrail: outputVerdict.action,
+              guardrails: outputVerdict.triggers as Record<string, any>[]
+            }),
+            ...(toolCalls.length > 0 && { toolCalls })
           }
         })
+
+      await queueConversationAnalysis({ agentId: agent.id, projectId: agent.project_id })
+      await queueMemoryRefresh({ conversationId: conversation.id, agentId: agent.id, projectId: agent.project_id })
     }
   } catch (error) {
     console.error('Error handling text message:', error)
@@ -249,14 +507,11 @@ async function handleAttachments(
   agent: any,
   messenger: MessengerService
 ) {
-  // For now, just acknowledge image attachments
-  for (const attachment of attachments) {
-    if (attachment.type === 'image') {
-      await messenger.sendTextMessage(
-        senderId,
-        'Thank you for the image. I can see it but currently I can only respond to text messages. How can I help you today?'
-      )
-      break
-    }
+  // Images are handled with the text; anything else is only acknowledged
+  if (attachments.length > 0) {
+    await messenger.sendTextMessage(
+      senderId,
+      'Thank you for sending that. I can read text messages and images, but not this kind of attachment. How can I help you today?'
+    )
   }
 }
\ No newline at end of file
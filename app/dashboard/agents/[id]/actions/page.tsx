@@ -1,125 +1,189 @@
 'use client'
 
-import { useState } from 'react'
-import { Search, Plus, Globe, FileText } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { Search, Plus, Globe, Zap, Trash2, Loader2, Pencil, Play, Settings } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
+import { ActionFormDialog } from '@/components/agents/action-form-dialog'
+import { ActionTestDialog } from '@/components/agents/action-test-dialog'
+import { ActionSecretsPanel } from '@/components/agents/action-secrets-panel'
+import { LeadFormSettingsDialog } from '@/components/agents/lead-form-settings-dialog'
+import type { AgentAction, ActionType } from '@/lib/types/actions'
 
-interface Action {
+interface CatalogItem {
   id: string
   name: string
   title: string
   description: string
   icon: any
   iconColor: string
-  enabled: boolean
-  needsConnection?: boolean
-  connectionText?: string
-  hasCreateAction?: boolean
+  // Backed by an action handler; items without one are not available yet
+  type?: ActionType
 }
 
+const CATALOG: CatalogItem[] = [
+  {
+    id: 'form',
+    name: 'Form',
+    title: 'Collect Leads',
+    description: 'Collect leads from your website',
+    icon: (
+      <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
+        <circle cx="9" cy="9" r="4" fill="#FF1493" />
+        <circle cx="15" cy="15" r="4" fill="#FF1493" opacity="0.6" />
+      </svg>
+    ),
+    iconColor: 'bg-pink-100',
+    type: 'lead_capture',
+  },
+  {
+    id: 'http',
+    name: 'API Request',
+    title: 'Call an API',
+    description: 'Send data from the conversation to your own endpoint and use the response in the reply',
+    icon: <Zap className="w-8 h-8 text-amber-500" />,
+    iconColor: 'bg-amber-100',
+    type: 'http_request',
+  },
+  {
+    id: 'button',
+    name: 'Button',
+    title: 'Custom Button',
+    description: 'Custom button to trigger your own links',
+    icon: (
+      <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
+        <rect x="4" y="4" width="6" height="6" fill="#333" />
+        <rect x="14" y="4" width="6" height="6" fill="#333" />
+        <rect x="4" y="14" width="6" height="6" fill="#333" />
+        <rect x="14" y="14" width="6" height="6" fill="#333" />
+      </svg>
+    ),
+    iconColor: 'bg-gray-100',
+  },
+  {
+    id: 'search',
+    name: 'Search',
+    title: 'Web Search',
+    description: 'Search the web for information and feed the results back to the chatbot',
+    icon: <Globe className="w-8 h-8 text-gray-700" />,
+    iconColor: 'bg-gray-100',
+  },
+  {
+    id: 'slack',
+    name: 'Slack',
+    title: 'Send Message',
+    description: 'Send message to a Slack channel',
+    icon: (
+      <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
+        <rect x="5" y="5" width="5" height="5" fill="#36C5F0" />
+        <rect x="14" y="5" width="5" height="5" fill="#2EB67D" />
+        <rect x="5" y="14" width="5" height="5" fill="#ECB22E" />
+        <rect x="14" y="14" width="5" height="5" fill="#E01E5A" />
+      </svg>
+    ),
+    iconColor: 'bg-gray-100',
+  },
+  {
+    id: 'cal',
+    name: 'Cal.com',
+    title: 'Get Available Slots',
+    description: 'Retrieve and book available slots from your Cal.com account',
+    icon: (
+      <div className="w-8 h-8 bg-gray-900 rounded-md flex items-center justify-center">
+        <span className="text-white font-bold text-xs">Cal</span>
+      </div>
+    ),
+    iconColor: 'bg-gray-100',
+  },
+  {
+    id: 'calendly',
+    name: 'Calendly',
+    title: 'Get Available Slots',
+    description: 'Retrieve and book available slots from your Calendly account',
+    icon: (
+      <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
+        <span className="text-white font-bold text-xs">C</span>
+      </div>
+    ),
+    iconColor: 'bg-blue-100',
+  },
+]
+
 export default function ActionsPage() {
+  const params = useParams()
+  const agentId = params.id as string
+
   const [searchQuery, setSearchQuery] = useState('')
-  const [actions, setActions] = useState<Action[]>([
-    {
-      id: 'form',
-      name: 'Form',
-      title: 'Collect Leads',
-      description: 'Collect leads from your website',
-      icon: (
-        <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
-          <circle cx="9" cy="9" r="4" fill="#FF1493" />
-          <circle cx="15" cy="15" r="4" fill="#FF1493" opacity="0.6" />
-        </svg>
-      ),
-      iconColor: 'bg-pink-100',
-      enabled: false,
-      hasCreateAction: true,
-    },
-    {
-      id: 'button',
-      name: 'Button',
-      title: 'Custom Button',
-      description: 'Custom button to trigger your own links',
-      icon: (
-        <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
-          <rect x="4" y="4" width="6" height="6" fill="#333" />
-          <rect x="14" y="4" width="6" height="6" fill="#333" />
-          <rect x="4" y="14" width="6" height="6" fill="#333" />
-          <rect x="14" y="14" width="6" height="6" fill="#333" />
-        </svg>
-      ),
-      iconColor: 'bg-gray-100',
-      enabled: false,
-    },
-    {
-      id: 'search',
-      name: 'Search',
-      title: 'Web Search',
-      description: 'Search the web for information and feed the results back to the chatbot',
-      icon: <Globe className="w-8 h-8 text-gray-700" />,
-      iconColor: 'bg-gray-100',
-      enabled: false,
-    },
-    {
-      id: 'slack',
-      name: 'Slack',
-      title: 'Send Message',
-      description: 'Send message to a Slack channel',
-      icon: (
-        <svg className="w-8 h-8" viewBox="0 0 24 24" fill="none">
-          <rect x="5" y="5" width="5" height="5" fill="#36C5F0" />
-          <rect x="14" y="5" width="5" height="5" fill="#2EB67D" />
-          <rect x="5" y="14" width="5" height="5" fill="#ECB22E" />
-          <rect x="14" y="14" width="5" height="5" fill="#E01E5A" />
-        </svg>
-      ),
-      iconColor: 'bg-gray-100',
-      enabled: false,
-      needsConnection: true,
-      connectionText: 'Please connect your Slack account first',
-      hasCreateAction: true,
-    },
-    {
-      id: 'cal',
-      name: 'Cal.com',
-      title: 'Get Available Slots',
-      description: 'Retrieve and book available slots from your Cal.com account',
-      icon: (
-        <div className="w-8 h-8 bg-gray-900 rounded-md flex items-center justify-center">
-          <span className="text-white font-bold text-xs">Cal</span>
-        </div>
-      ),
-      iconColor: 'bg-gray-100',
-      enabled: false,
-    },
-    {
-      id: 'calendly',
-      name: 'Calendly',
-      title: 'Get Available Slots',
-      description: 'Retrieve and book available slots from your Calendly account',
-      icon: (
-        <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-          <span className="text-white font-bold text-xs">C</span>
-        </div>
-      ),
-      iconColor: 'bg-blue-100',
-      enabled: false,
-      hasCreateAction: true,
-    },
-  ])
-
-  const filteredActions = actions.filter(action =>
-    action.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    action.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    action.description.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  const [actions, setActions] = useState<AgentAction[]>([])
+  const [loading, setLoading] = useState(true)
+  // Type of the action being created, or the action being edited
+  const [formType, setFormType] = useState<ActionType | null>(null)
+  const [editing, setEditing] = useState<AgentAction | null>(null)
+  const [testing, setTesting] = useState<AgentAction | null>(null)
+  const [leadFormOpen, setLeadFormOpen] = useState(false)
+
+  useEffect(() => {
+    fetchActions()
+  }, [agentId])
 
-  const toggleAction = (id: string) => {
-    setActions(actions.map(action =>
-      action.id === id ? { ...action, enabled: !action.enabled } : action
-    ))
+  const fetchActions = async () => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}/actions`)
+      if (!response.ok) throw new Error('Failed to load actions')
+      const data = await response.json()
+      setActions(data.actions)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load actions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const matchesSearch = (...fields: string[]) =>
+    fields.some(field => field.toLowerCase().includes(searchQuery.toLowerCase()))
+
+  const filteredCatalog = CATALOG.filter(item => matchesSearch(item.name, item.title, item.description))
+  const filteredActions = actions.filter(action => matchesSearch(action.name, action.description))
+
+  const toggleAction = async (action: AgentAction) => {
+    setActions(actions.map(a => a.id === action.id ? { ...a, enabled: !a.enabled } : a))
+
+    const response = await fetch(`/api/agents/${agentId}/actions/${action.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !action.enabled })
+    })
+
+    if (!response.ok) {
+      toast.error('Failed to update action')
+      setActions(current => current.map(a => a.id === action.id ? { ...a, enabled: action.enabled } : a))
+    }
+  }
+
+  const deleteAction = async (action: AgentAction) => {
+    const response = await fetch(`/api/agents/${agentId}/actions/${action.id}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+      toast.error('Failed to delete action')
+      return
+    }
+
+    setActions(current => current.filter(a => a.id !== action.id))
+    toast.success(`Deleted ${action.name}`)
+  }
+
+  const openForm = (type: ActionType | null, action: AgentAction | null = null) => {
+    setEditing(action)
+    setFormType(action?.type || type)
+  }
+
+  const handleSaved = (saved: AgentAction) => {
+    setActions(current => current.some(a => a.id === saved.id)
+      ? current.map(a => a.id === saved.id ? saved : a)
+      : [...current, saved])
   }
 
   return (
@@ -136,81 +200,142 @@ export default function ActionsPage() {
             className="pl-10 pr-4 py-2"
           />
         </div>
-        <Button className="ml-4 bg-gray-900 hover:bg-gray-800 text-white">
+        <Button
+          className="ml-4 bg-gray-900 hover:bg-gray-800 text-white"
+          onClick={() => openForm('http_request')}
+        >
           Create custom action
         </Button>
       </div>
 
+      {/* Agent's actions */}
+      <div className="mb-10">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Your actions</h2>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading actions...
+          </div>
+        ) : filteredActions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No actions yet. Create one below and the agent can call it during conversations.
+          </p>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {filteredActions.map((action) => (
+              <div key={action.id} className="flex items-center justify-between p-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm font-medium text-gray-900">{action.name}</span>
+                    <span className="text-xs text-gray-500 bg-gray-100 rounded px-2 py-0.5">
+                      {action.type === 'lead_capture' ? 'Lead capture' : `${action.config?.method} request`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 truncate">{action.description}</p>
+                </div>
+                <div className="flex items-center gap-4 ml-4">
+                  <Switch
+                    checked={action.enabled}
+                    onCheckedChange={() => toggleAction(action)}
+                  />
+                  <button
+                    className="text-gray-400 hover:text-gray-900"
+                    onClick={() => setTesting(action)}
+                    aria-label={`Test ${action.name}`}
+                  >
+                    <Play className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="text-gray-400 hover:text-gray-900"
+                    onClick={() => openForm(null, action)}
+                    aria-label={`Edit ${action.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => deleteAction(action)}
+                    aria-label={`Delete ${action.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Actions Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {filteredActions.map((action) => (
+        {filteredCatalog.map((item) => (
           <div
-            key={action.id}
+            key={item.id}
             className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow"
           >
-            <div className="flex items-start justify-between mb-4">
-              <div className="flex items-start gap-4">
-                <div className={`p-3 rounded-lg ${action.iconColor}`}>
-                  {action.icon}
-                </div>
-                <div className="flex-1">
-                  <h3 className="font-semibold text-gray-900">{action.name}</h3>
-                  <p className="text-sm text-gray-600 mt-1">{action.title}</p>
-                  <p className="text-xs text-gray-500 mt-2">{action.description}</p>
-                </div>
+            <div className="flex items-start gap-4 mb-4">
+              <div className={`p-3 rounded-lg ${item.iconColor}`}>
+                {item.icon}
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">{item.name}</h3>
+                <p className="text-sm text-gray-600 mt-1">{item.title}</p>
+                <p className="text-xs text-gray-500 mt-2">{item.description}</p>
               </div>
-              <Switch
-                checked={action.enabled}
-                onCheckedChange={() => toggleAction(action.id)}
-              />
             </div>
 
             {/* Action buttons */}
-            <div className="mt-6">
-              {action.needsConnection ? (
-                <div className="bg-gray-900 text-white text-sm px-4 py-2 rounded-md text-center">
-                  {action.connectionText}
-                </div>
+            <div className="mt-6 flex items-center justify-center gap-6">
+              {item.type === 'lead_capture' && (
+                <button
+                  className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium"
+                  onClick={() => setLeadFormOpen(true)}
+                >
+                  <Settings className="h-4 w-4" />
+                  Configure Form
+                </button>
+              )}
+              {item.type ? (
+                <button
+                  className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium"
+                  onClick={() => openForm(item.type!)}
+                >
+                  <Plus className="h-4 w-4" />
+                  Create Action
+                </button>
               ) : (
-                <div className="flex items-center justify-center">
-                  {action.hasCreateAction ? (
-                    <button className="flex items-center gap-2 text-gray-600 hover:text-gray-900 text-sm font-medium">
-                      <Plus className="h-4 w-4" />
-                      Create Action
-                    </button>
-                  ) : (
-                    <button className="text-gray-600 hover:text-gray-900 text-sm font-medium">
-                      Customize
-                    </button>
-                  )}
-                </div>
+                <span className="text-xs text-gray-400 font-medium">Coming soon</span>
               )}
             </div>
-
-            {/* Slack icon placeholder */}
-            {action.id === 'slack' && (
-              <div className="mt-4 flex justify-center">
-                <svg className="w-20 h-20 text-gray-300" viewBox="0 0 24 24" fill="none">
-                  <path
-                    d="M12 3L3 9v6c0 5.25 3.64 10.14 8.5 11.39 4.86-1.25 8.5-6.14 8.5-11.39V9l-9-6z"
-                    stroke="currentColor"
-                    strokeWidth="1.5"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  />
-                  <path
-                    d="M8.5 12l2 2 3.5-3.5"
-                    stroke="currentColor"
-                    strokeWidth="1.5"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  />
-                </svg>
-              </div>
-            )}
           </div>
         ))}
       </div>
+
+      {/* Secrets for API request actions */}
+      <div className="mt-10 max-w-2xl">
+        <ActionSecretsPanel agentId={agentId} />
+      </div>
+
+      <ActionFormDialog
+        agentId={agentId}
+        type={formType}
+        action={editing}
+        open={!!formType}
+        onOpenChange={(open) => !open && setFormType(null)}
+        onSaved={handleSaved}
+      />
+
+      <ActionTestDialog
+        agentId={agentId}
+        action={testing}
+        onOpenChange={(open) => !open && setTesting(null)}
+      />
+
+      <LeadFormSettingsDialog
+        agentId={agentId}
+        open={leadFormOpen}
+        onOpenChange={setLeadFormOpen}
+      />
     </div>
   )
-}
\ No newline at end of file
+}
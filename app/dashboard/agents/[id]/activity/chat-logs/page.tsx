@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import {
   RefreshCw,
@@ -34,6 +34,8 @@ interface Message {
   revised_at?: string
   original_content?: string
   source_chunks?: any[]
+  // Queries the knowledge base was searched with, one per line
+  embedding_search_query?: string | null
 }
 
 interface Conversation {
@@ -49,8 +51,18 @@ interface Conversation {
 export default function ChatLogsPage() {
   const params = useParams()
   const agentId = params.id as string
+  const router = useRouter()
+  const searchParams = useSearchParams()
   const supabase = createClient()
 
+  // Drill-down filters linked from the sentiment and topics analytics pages
+  const sentimentFilter = searchParams.get('sentiment')
+  const topicFilter = searchParams.get('topicId')
+  const topicLabel = searchParams.get('topic')
+  const analyticsFrom = searchParams.get('from')
+  const analyticsTo = searchParams.get('to')
+  const hasAnalyticsFilter = !!(sentimentFilter || topicFilter)
+
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedSource, setSelectedSource] = useState<string>('all')
@@ -84,7 +96,7 @@ export default function ChatLogsPage() {
 
   useEffect(() => {
     fetchChatLogs()
-  }, [agentId, selectedSource])
+  }, [agentId, selectedSource, sentimentFilter, topicFilter, analyticsFrom, analyticsTo])
 
   const fetchChatLogs = async () => {
     try {
@@ -93,14 +105,26 @@ export default function ChatLogsPage() {
       if (selectedSource !== 'all') {
         params.append('source', selectedSource)
       }
+      if (sentimentFilter) {
+        params.append('sentiment', sentimentFilter)
+      }
+      if (topicFilter) {
+        params.append('topicId', topicFilter)
+      }
+      if (hasAnalyticsFilter && analyticsFrom && analyticsTo) {
+        params.append('from', analyticsFrom)
+        params.append('to', analyticsTo)
+      }
 
       const response = await fetch(`/api/agents/${agentId}/chat-logs?${params}`)
       const data = await response.json()
 
       if (response.ok) {
         setConversations(data.conversations || [])
-        if (data.conversations?.length > 0 && !selectedConversation) {
+        if (data.conversations?.length > 0 && !data.conversations.some((c: Conversation) => c.id === selectedConversation?.id)) {
           setSelectedConversation(data.conversations[0])
+        } else if (!data.conversations?.length) {
+          setSelectedConversation(null)
         }
       }
     } catch (error) {
@@ -211,7 +235,10 @@ export default function ChatLogsPage() {
       })
 
       if (response.ok) {
-        toast.success('Answer revised and added to training set')
+        const data = await response.json()
+        toast.success(data.resolvedGapId
+          ? 'Answer revised, added to training set and knowledge gap resolved'
+          : 'Answer revised and added to training set')
         setShowReviseModal(false)
         fetchChatLogs()
       } else {
@@ -296,6 +323,23 @@ export default function ChatLogsPage() {
               </div>
             </div>
           </div>
+          {hasAnalyticsFilter && (
+            <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700">
+              <span className="truncate">
+                {sentimentFilter && <>Sentiment: <span className="font-medium capitalize">{sentimentFilter}</span></>}
+                {sentimentFilter && topicFilter && ' · '}
+                {topicFilter && <>Topic: <span className="font-medium">{topicLabel || 'Selected topic'}</span></>}
+                {analyticsFrom && analyticsTo && ` · ${analyticsFrom} to ${analyticsTo}`}
+              </span>
+              <button
+                onClick={() => router.push(`/dashboard/agents/${agentId}/activity/chat-logs`)}
+                className="p-1 hover:bg-gray-200 rounded"
+                title="Clear filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Conversations List */}
@@ -312,9 +356,13 @@ export default function ChatLogsPage() {
           ) : conversations.length === 0 ? (
             <div className="text-center py-12">
               <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-sm font-medium text-gray-900 mb-2">No chat logs yet</h3>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                {hasAnalyticsFilter ? 'No matching chat logs' : 'No chat logs yet'}
+              </h3>
               <p className="text-xs text-gray-500">
-                Start a conversation in the Playground to see chat logs here
+                {hasAnalyticsFilter
+                  ? 'No analyzed conversations match this filter'
+                  : 'Start a conversation in the Playground to see chat logs here'}
               </p>
             </div>
           ) : (
@@ -389,6 +437,15 @@ export default function ChatLogsPage() {
                           : 'bg-white shadow-sm'
                       } rounded-lg p-4`}
                     >
+                      {message.role === 'user' && message.metadata?.images?.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {message.metadata.images.map((imageUrl: string, imageIdx: number) => (
+                            <a key={imageIdx} href={imageUrl} target="_blank" rel="noopener noreferrer">
+                              <img src={imageUrl} alt={`Attachment ${imageIdx + 1}`} className="h-24 rounded-lg object-cover" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
                       <div className="text-sm whitespace-pre-wrap">{message.content}</div>
                       <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
                         <div className="flex items-center gap-3">
@@ -411,6 +468,14 @@ export default function ChatLogsPage() {
                           </button>
                         )}
                       </div>
+                      {message.role === 'assistant' && message.embedding_search_query && (
+                        <div className="text-xs text-gray-400 mt-2">
+                          <span className="font-medium">Searched:</span>
+                          {message.embedding_search_query.split('\n').map((query, queryIdx) => (
+                            <div key={queryIdx} className="truncate" title={query}>{query}</div>
+                          ))}
+                        </div>
+                      )}
                       {message.revised_at && (
                         <div className="text-xs text-gray-400 mt-2">
                           Revised {getTimeAgo(message.revised_at)}
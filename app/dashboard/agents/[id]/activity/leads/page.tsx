@@ -1,13 +1,133 @@
 'use client'
 
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { RefreshCw, Mail, Phone, Users } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+
+interface Lead {
+  id: string
+  contact_id: string | null
+  conversation_id: string | null
+  source: string | null
+  name: string | null
+  email: string | null
+  phone: string | null
+  data: Record<string, any> | null
+  created_at: string
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  form: 'Lead form',
+  chat: 'Chat action',
+  messenger: 'Messenger',
+  instagram: 'Instagram'
+}
+
 export default function LeadsPage() {
+  const params = useParams()
+  const agentId = params.id as string
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadLeads()
+  }, [agentId])
+
+  const loadLeads = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/leads`)
+      if (!response.ok) throw new Error('Failed to load leads')
+      const data = await response.json()
+      setLeads(data.leads || [])
+      setTotal(data.total || 0)
+    } catch (error) {
+      console.error('Error loading leads:', error)
+      toast.error('Failed to load leads')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return (
     <div className="p-8">
-      <h1 className="text-2xl font-semibold text-gray-900 mb-8">Leads</h1>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Leads</h1>
+          <p className="text-gray-600 mt-1">Every time a visitor left their details ({total})</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link
+            href={`/dashboard/agents/${agentId}/contacts`}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Users className="h-4 w-4" />
+            Contacts
+          </Link>
+          <button
+            onClick={loadLeads}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
 
-      <div className="bg-white border border-gray-200 rounded-lg p-6 min-h-[400px]">
-        <p className="text-gray-500 text-center mt-8">Leads will appear here</p>
+      <div className="bg-white border border-gray-200 rounded-lg min-h-[400px]">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="text-gray-500 text-center pt-16">
+            Leads will appear here when visitors fill in the lead form or share their details in chat
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {leads.map((lead) => (
+              <div key={lead.id} className="px-6 py-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{lead.name || lead.email || lead.phone || 'Anonymous'}</h3>
+                    <div className="flex items-center gap-4 mt-1 text-sm text-gray-600">
+                      {lead.email && (
+                        <span className="flex items-center gap-1">
+                          <Mail className="h-3 w-3" />
+                          {lead.email}
+                        </span>
+                      )}
+                      {lead.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone className="h-3 w-3" />
+                          {lead.phone}
+                        </span>
+                      )}
+                      {Object.entries(lead.data || {}).map(([key, value]) => (
+                        <span key={key}>
+                          {key}: {String(value)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full">
+                      {SOURCE_LABELS[lead.source || ''] || 'Chat action'}
+                    </span>
+                    <p className="mt-2">{formatDistanceToNow(new Date(lead.created_at), { addSuffix: true })}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
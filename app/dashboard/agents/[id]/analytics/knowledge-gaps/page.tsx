@@ -0,0 +1,206 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { EyeOff, Plus, RefreshCw, RotateCcw, SearchX } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  KnowledgeGapReason,
+  KnowledgeGapStatus,
+  KnowledgeGapWithQuestions,
+  KNOWLEDGE_GAP_STATUSES
+} from '@/lib/types/knowledge-gaps'
+
+const STATUS_LABELS: Record<KnowledgeGapStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed'
+}
+
+const REASON_LABELS: Record<KnowledgeGapReason, string> = {
+  no_context: 'Nothing found',
+  low_similarity: 'Weak match',
+  refusal: "Couldn't answer"
+}
+
+export default function KnowledgeGapsPage() {
+  const params = useParams()
+  const agentId = params.id as string
+  const router = useRouter()
+
+  const [status, setStatus] = useState<KnowledgeGapStatus>('open')
+  const [gaps, setGaps] = useState<KnowledgeGapWithQuestions[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadGaps()
+  }, [agentId, status])
+
+  const loadGaps = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/knowledge-gaps?status=${status}`)
+      if (!response.ok) throw new Error('Failed to load knowledge gaps')
+      const data = await response.json()
+      setGaps(data.gaps || [])
+    } catch (error) {
+      console.error('Error loading knowledge gaps:', error)
+      toast.error('Failed to load knowledge gaps')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateStatus = async (gapId: string, newStatus: KnowledgeGapStatus) => {
+    setUpdatingId(gapId)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/knowledge-gaps/${gapId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus })
+      })
+      if (!response.ok) throw new Error('Failed to update knowledge gap')
+      setGaps(prev => prev.filter(gap => gap.id !== gapId))
+      toast.success(newStatus === 'dismissed' ? 'Gap dismissed' : 'Gap reopened')
+    } catch (error) {
+      console.error('Error updating knowledge gap:', error)
+      toast.error('Failed to update knowledge gap')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  // Opens the Q&A editor pre-filled with the gap's questions
+  const addAnswer = (gapId: string) => {
+    router.push(`/dashboard/agents/${agentId}/sources/qa?gapId=${gapId}`)
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Knowledge gaps</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Questions your agent couldn&apos;t answer from its sources, grouped by meaning
+          </p>
+        </div>
+        <button
+          onClick={loadGaps}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className="h-4 w-4 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {KNOWLEDGE_GAP_STATUSES.map(value => (
+          <button
+            key={value}
+            onClick={() => setStatus(value)}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+              status === value
+                ? 'bg-gray-900 text-white border-gray-900'
+                : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {STATUS_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-28 bg-white border border-gray-200 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : gaps.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 min-h-[300px] flex flex-col items-center justify-center text-center">
+          <SearchX className="h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">
+            {status === 'open' ? 'No open knowledge gaps' : `No ${STATUS_LABELS[status].toLowerCase()} knowledge gaps`}
+          </p>
+          {status === 'open' && (
+            <p className="text-sm text-gray-400 mt-1">
+              Questions the knowledge base can&apos;t answer will be collected here
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {gaps.map(gap => {
+            const reasons = Array.from(new Set(gap.questions.map(question => question.reason)))
+            const otherQuestions = Array.from(new Set(gap.questions.map(question => question.question)))
+              .filter(question => question !== gap.label)
+
+            return (
+              <div key={gap.id} className="bg-white border border-gray-200 rounded-lg p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{gap.label}</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full">
+                        Asked {gap.question_count} {gap.question_count === 1 ? 'time' : 'times'}
+                      </span>
+                      {reasons.map(reason => (
+                        <span key={reason} className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded-full">
+                          {REASON_LABELS[reason]}
+                        </span>
+                      ))}
+                      {gap.last_asked_at && (
+                        <span>Last asked {formatDistanceToNow(new Date(gap.last_asked_at), { addSuffix: true })}</span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {status === 'open' && (
+                      <>
+                        <Button size="sm" onClick={() => addAnswer(gap.id)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add answer
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateStatus(gap.id, 'dismissed')}
+                          disabled={updatingId === gap.id}
+                        >
+                          <EyeOff className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                      </>
+                    )}
+                    {status !== 'open' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateStatus(gap.id, 'open')}
+                        disabled={updatingId === gap.id}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {otherQuestions.length > 0 && (
+                  <ul className="mt-3 space-y-1 border-t border-gray-100 pt-3">
+                    {otherQuestions.map(question => (
+                      <li key={question} className="text-sm text-gray-600 truncate">“{question}”</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,173 @@
 'use client'
 
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { eachDayOfInterval, format, formatDistanceToNow, parseISO, subDays } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { toast } from 'sonner'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { RunAnalysisButton } from '@/components/agents/run-analysis-button'
+import { DailySentiment, Sentiment, SENTIMENTS } from '@/lib/types/analytics'
+
+const SENTIMENT_COLORS: Record<Sentiment, string> = {
+  positive: '#22c55e',
+  neutral: '#9ca3af',
+  negative: '#ef4444'
+}
+
+interface SentimentTotals {
+  conversations: number
+  positive: number
+  neutral: number
+  negative: number
+  avgScore: number | null
+}
+
 export default function SentimentPage() {
+  const params = useParams()
+  const agentId = params.id as string
+  const router = useRouter()
+
+  const [range, setRange] = useState(() => ({ from: subDays(new Date(), 29), to: new Date() }))
+  const [daily, setDaily] = useState<DailySentiment[]>([])
+  const [totals, setTotals] = useState<SentimentTotals | null>(null)
+  const [lastAnalyzedAt, setLastAnalyzedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const from = format(range.from, 'yyyy-MM-dd')
+  const to = format(range.to, 'yyyy-MM-dd')
+
+  useEffect(() => {
+    fetchSentiment()
+  }, [agentId, from, to])
+
+  const fetchSentiment = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/agents/${agentId}/analytics/sentiment?from=${from}&to=${to}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sentiment')
+      }
+
+      setDaily(data.daily)
+      setTotals(data.totals)
+      setLastAnalyzedAt(data.lastAnalyzedAt)
+    } catch (error: any) {
+      console.error('Error fetching sentiment:', error)
+      toast.error(error.message || 'Failed to load sentiment')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openChatLogs = (sentiment: Sentiment, dayFrom: string = from, dayTo: string = to) => {
+    router.push(`/dashboard/agents/${agentId}/activity/chat-logs?sentiment=${sentiment}&from=${dayFrom}&to=${dayTo}`)
+  }
+
+  // Fill days without analyzed conversations so the axis covers the whole range
+  const byDay = new Map(daily.map(row => [row.day, row]))
+  const chartData = eachDayOfInterval({ start: range.from, end: range.to }).map(date => {
+    const day = format(date, 'yyyy-MM-dd')
+    const row = byDay.get(day)
+    return {
+      day,
+      label: format(date, 'MMM d'),
+      positive: row?.positive || 0,
+      neutral: row?.neutral || 0,
+      negative: row?.negative || 0
+    }
+  })
+
+  const share = (count: number) =>
+    totals && totals.conversations > 0 ? `${Math.round((count / totals.conversations) * 100)}%` : '0%'
+
   return (
     <div className="p-8">
-      <h1 className="text-2xl font-semibold text-gray-900 mb-8">Sentiment</h1>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Sentiment</h1>
+          {lastAnalyzedAt && (
+            <p className="text-sm text-gray-500 mt-1">
+              Last analyzed {formatDistanceToNow(parseISO(lastAnalyzedAt), { addSuffix: true })}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <RunAnalysisButton agentId={agentId} onComplete={fetchSentiment} />
+          <DateRangePicker
+            className="w-[260px]"
+            initialRange={range}
+            onDateChange={(start, end) => setRange({ from: start, to: end })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <div className="text-3xl font-bold text-gray-900">{totals?.conversations ?? 0}</div>
+          <div className="text-sm text-gray-500 mt-2">Conversations analyzed</div>
+          {totals?.avgScore !== null && totals?.avgScore !== undefined && (
+            <div className="text-xs text-gray-400 mt-1">Average score {totals.avgScore.toFixed(2)}</div>
+          )}
+        </div>
+        {SENTIMENTS.map(sentiment => (
+          <button
+            key={sentiment}
+            onClick={() => openChatLogs(sentiment)}
+            disabled={!totals?.[sentiment]}
+            className="bg-white border border-gray-200 rounded-lg p-6 text-left hover:border-gray-300 transition-colors disabled:cursor-default"
+          >
+            <div className="flex items-baseline gap-2">
+              <span className="text-3xl font-bold text-gray-900">{share(totals?.[sentiment] || 0)}</span>
+              <span className="text-sm text-gray-500">{totals?.[sentiment] || 0}</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-500 mt-2">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: SENTIMENT_COLORS[sentiment] }} />
+              <span className="capitalize">{sentiment}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Sentiment over time</h2>
+        <p className="text-sm text-gray-500 mb-6">Click a bar to see the conversations behind it</p>
 
-      <div className="bg-white border border-gray-200 rounded-lg p-6 min-h-[400px]">
-        <p className="text-gray-500 text-center mt-8">Sentiment analysis will appear here</p>
+        {loading ? (
+          <div className="h-80 bg-gray-50 rounded animate-pulse" />
+        ) : totals?.conversations ? (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+                <Tooltip cursor={{ fill: '#f9fafb' }} />
+                <Legend formatter={(value: string) => <span className="capitalize text-sm text-gray-600">{value}</span>} />
+                {SENTIMENTS.map(sentiment => (
+                  <Bar
+                    key={sentiment}
+                    dataKey={sentiment}
+                    stackId="sentiment"
+                    fill={SENTIMENT_COLORS[sentiment]}
+                    className="cursor-pointer"
+                    onClick={(entry: any) => openChatLogs(sentiment, entry.payload.day, entry.payload.day)}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="h-80 flex flex-col items-center justify-center text-center">
+            <p className="text-gray-500">No analyzed conversations in this period</p>
+            <p className="text-sm text-gray-400 mt-1">
+              Conversations are analyzed a few minutes after they go quiet
+            </p>
+          </div>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,13 +1,208 @@
 'use client'
 
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { format, formatDistanceToNow, parseISO, subDays } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { ExternalLink, Loader2, MessageSquare } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { RunAnalysisButton } from '@/components/agents/run-analysis-button'
+import { TopicQuestion, TopicSummary } from '@/lib/types/analytics'
+
+// Topics plotted on the chart; the table below lists all of them
+const CHART_TOPICS = 10
+
 export default function TopicsPage() {
+  const params = useParams()
+  const agentId = params.id as string
+  const router = useRouter()
+
+  const [range, setRange] = useState(() => ({ from: subDays(new Date(), 29), to: new Date() }))
+  const [topics, setTopics] = useState<TopicSummary[]>([])
+  const [totalQuestions, setTotalQuestions] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [selectedTopic, setSelectedTopic] = useState<TopicSummary | null>(null)
+  const [questions, setQuestions] = useState<TopicQuestion[]>([])
+  const [loadingQuestions, setLoadingQuestions] = useState(false)
+
+  const from = format(range.from, 'yyyy-MM-dd')
+  const to = format(range.to, 'yyyy-MM-dd')
+
+  useEffect(() => {
+    fetchTopics()
+  }, [agentId, from, to])
+
+  useEffect(() => {
+    if (selectedTopic) {
+      fetchQuestions(selectedTopic.id)
+    } else {
+      setQuestions([])
+    }
+  }, [selectedTopic?.id, from, to])
+
+  const fetchTopics = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/agents/${agentId}/analytics/topics?from=${from}&to=${to}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load topics')
+      }
+
+      setTopics(data.topics)
+      setTotalQuestions(data.totalQuestions)
+      setSelectedTopic(current =>
+        data.topics.find((topic: TopicSummary) => topic.id === current?.id) || data.topics[0] || null
+      )
+    } catch (error: any) {
+      console.error('Error fetching topics:', error)
+      toast.error(error.message || 'Failed to load topics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchQuestions = async (topicId: string) => {
+    try {
+      setLoadingQuestions(true)
+      const response = await fetch(`/api/agents/${agentId}/analytics/topics/${topicId}?from=${from}&to=${to}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load questions')
+      }
+
+      setQuestions(data.questions)
+    } catch (error: any) {
+      console.error('Error fetching topic questions:', error)
+      toast.error(error.message || 'Failed to load questions')
+    } finally {
+      setLoadingQuestions(false)
+    }
+  }
+
+  const openChatLogs = (topic: TopicSummary) => {
+    const query = new URLSearchParams({ topicId: topic.id, topic: topic.label, from, to })
+    router.push(`/dashboard/agents/${agentId}/activity/chat-logs?${query}`)
+  }
+
+  const chartData = topics.slice(0, CHART_TOPICS).map(topic => ({
+    id: topic.id,
+    label: topic.label.length > 40 ? `${topic.label.slice(0, 40)}…` : topic.label,
+    questions: topic.question_count
+  }))
+
   return (
     <div className="p-8">
-      <h1 className="text-2xl font-semibold text-gray-900 mb-8">Topics</h1>
-
-      <div className="bg-white border border-gray-200 rounded-lg p-6 min-h-[400px]">
-        <p className="text-gray-500 text-center mt-8">Topics analysis will appear here</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Topics</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {totalQuestions} questions across {topics.length} topics
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <RunAnalysisButton agentId={agentId} onComplete={fetchTopics} />
+          <DateRangePicker
+            className="w-[260px]"
+            initialRange={range}
+            onDateChange={(start, end) => setRange({ from: start, to: end })}
+          />
+        </div>
       </div>
+
+      {loading ? (
+        <div className="h-96 bg-white border border-gray-200 rounded-lg animate-pulse" />
+      ) : topics.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 min-h-[400px] flex flex-col items-center justify-center text-center">
+          <MessageSquare className="h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">No topics in this period</p>
+          <p className="text-sm text-gray-400 mt-1">
+            Questions are grouped into topics a few minutes after conversations go quiet
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white border border-gray-200 rounded-lg p-6 mb-8">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Most asked topics</h2>
+            <p className="text-sm text-gray-500 mb-6">Click a topic to see the questions behind it</p>
+            <div style={{ height: Math.max(chartData.length * 40, 160) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e5e7eb" />
+                  <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="label" width={260} tick={{ fontSize: 12, fill: '#374151' }} tickLine={false} axisLine={false} />
+                  <Tooltip cursor={{ fill: '#f9fafb' }} />
+                  <Bar
+                    dataKey="questions"
+                    fill="#3b82f6"
+                    radius={[0, 4, 4, 0]}
+                    className="cursor-pointer"
+                    onClick={(entry: any) => setSelectedTopic(topics.find(topic => topic.id === entry.payload.id) || null)}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="grid grid-cols-[1fr_auto_auto] gap-4 px-6 py-3 border-b border-gray-200 text-xs font-medium text-gray-500 uppercase">
+                <span>Topic</span>
+                <span>Questions</span>
+                <span>Chats</span>
+              </div>
+              <div className="max-h-[480px] overflow-y-auto">
+                {topics.map(topic => (
+                  <button
+                    key={topic.id}
+                    onClick={() => setSelectedTopic(topic)}
+                    className={`grid grid-cols-[1fr_auto_auto] gap-4 w-full px-6 py-3 text-left text-sm border-b border-gray-100 last:border-0 transition-colors ${
+                      selectedTopic?.id === topic.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-gray-900 truncate">{topic.label}</span>
+                    <span className="text-gray-600 w-16 text-right">{topic.question_count}</span>
+                    <span className="text-gray-600 w-12 text-right">{topic.conversation_count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {selectedTopic && (
+              <div className="bg-white border border-gray-200 rounded-lg p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <h3 className="font-medium text-gray-900">{selectedTopic.label}</h3>
+                  <Button variant="outline" size="sm" onClick={() => openChatLogs(selectedTopic)}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    View chats
+                  </Button>
+                </div>
+
+                {loadingQuestions ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                  </div>
+                ) : (
+                  <ul className="space-y-3 max-h-[400px] overflow-y-auto">
+                    {questions.map(question => (
+                      <li key={question.message_id} className="text-sm">
+                        <p className="text-gray-900">{question.question}</p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {formatDistanceToNow(parseISO(question.asked_at), { addSuffix: true })}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -2,13 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
-import { createClient } from '@/lib/supabase/client'
 import {
   Users,
   Mail,
   Phone,
   Building,
-  MapPin,
   Calendar,
   MessageSquare,
   Filter,
@@ -17,28 +15,17 @@ import {
   Plus,
   Star,
   Tag,
-  MoreVertical,
-  Edit,
   Trash2,
-  ExternalLink
+  ExternalLink,
+  Instagram,
+  Facebook
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { CONTACT_STATUSES, ContactStatus, ContactWithActivity } from '@/lib/types/leads'
 
-interface Contact {
-  id: string
-  name: string
-  email: string
-  phone?: string
-  company?: string
-  location?: string
-  status: 'new' | 'contacted' | 'qualified' | 'converted'
-  source: 'chat' | 'form' | 'manual'
-  tags: string[]
-  first_contact: string
-  last_contact: string
-  message_count: number
-  notes?: string
-}
+type Contact = ContactWithActivity
+
+const EMPTY_CONTACT = { name: '', email: '', phone: '', company: '', notes: '' }
 
 export default function ContactsPage() {
   const params = useParams()
@@ -49,7 +36,8 @@ export default function ContactsPage() {
   const [selectedStatus, setSelectedStatus] = useState<string>('all')
   const [selectedSource, setSelectedSource] = useState<string>('all')
   const [showAddModal, setShowAddModal] = useState(false)
-  const supabase = createClient()
+  const [newContact, setNewContact] = useState(EMPTY_CONTACT)
+  const [saving, setSaving] = useState(false)
 
   useEffect(() => {
     loadContacts()
@@ -57,85 +45,74 @@ export default function ContactsPage() {
 
   const loadContacts = async () => {
     try {
-      // For now, we'll use mock data since the contacts table might not exist yet
-      const mockContacts: Contact[] = [
-        {
-          id: '1',
-          name: 'Sarah Johnson',
-          email: 'sarah.johnson@example.com',
-          phone: '+1 (555) 123-4567',
-          company: 'Acme Corp',
-          location: 'New York, NY',
-          status: 'qualified',
-          source: 'chat',
-          tags: ['premium', 'enterprise'],
-          first_contact: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          last_contact: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          message_count: 8,
-          notes: 'Interested in enterprise plan, needs demo scheduled'
-        },
-        {
-          id: '2',
-          name: 'Michael Chen',
-          email: 'mchen@techstartup.com',
-          company: 'TechStartup Inc',
-          location: 'San Francisco, CA',
-          status: 'new',
-          source: 'chat',
-          tags: ['startup', 'technical'],
-          first_contact: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          last_contact: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          message_count: 3
-        },
-        {
-          id: '3',
-          name: 'Emily Rodriguez',
-          email: 'emily.r@consulting.com',
-          phone: '+1 (555) 987-6543',
-          company: 'Business Consulting LLC',
-          status: 'contacted',
-          source: 'form',
-          tags: ['consulting', 'small-business'],
-          first_contact: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-          last_contact: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-          message_count: 12,
-          notes: 'Requested pricing for team of 10'
-        },
-        {
-          id: '4',
-          name: 'David Kim',
-          email: 'david@freelancer.dev',
-          status: 'converted',
-          source: 'chat',
-          tags: ['freelancer', 'developer'],
-          first_contact: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-          last_contact: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          message_count: 15,
-          notes: 'Upgraded to Pro plan, very satisfied'
-        },
-        {
-          id: '5',
-          name: 'Lisa Thompson',
-          email: 'lisa.thompson@agency.com',
-          phone: '+1 (555) 456-7890',
-          company: 'Digital Marketing Agency',
-          location: 'Austin, TX',
-          status: 'new',
-          source: 'chat',
-          tags: ['marketing', 'agency'],
-          first_contact: new Date().toISOString(),
-          last_contact: new Date().toISOString(),
-          message_count: 1
-        }
-      ]
-      setContacts(mockContacts)
+      const response = await fetch(`/api/agents/${agentId}/contacts`)
+      if (!response.ok) throw new Error('Failed to load contacts')
+      const data = await response.json()
+      setContacts(data.contacts || [])
     } catch (error) {
       console.error('Error loading contacts:', error)
+      toast.error('Failed to load contacts')
     } finally {
       setLoading(false)
     }
   }
 
+  const updateContact = async (contactId: string, updates: Partial<Contact>) => {
+    try {
+      const response = await fetch(`/api/agents/${agentId}/contacts/${contactId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      })
+      if (!response.ok) throw new Error('Failed to update contact')
+      const data = await response.json()
+      setContacts(prev => prev.map(c => c.id === contactId ? { ...c, ...data.contact } : c))
+    } catch (error) {
+      console.error('Error updating contact:', error)
+      toast.error('Failed to update contact')
+    }
+  }
+
+  const deleteContact = async (contact: Contact) => {
+    if (!confirm(`Delete ${contact.name || contact.email || 'this contact'}? Their conversations are kept.`)) return
+
+    try {
+      const response = await fetch(`/api/agents/${agentId}/contacts/${contact.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete contact')
+      setContacts(prev => prev.filter(c => c.id !== contact.id))
+      toast.success('Contact deleted')
+    } catch (error) {
+      console.error('Error deleting contact:', error)
+      toast.error('Failed to delete contact')
+    }
+  }
+
+  const addContact = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/contacts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newContact)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to add contact')
+        return
+      }
+
+      toast.success(data.created ? 'Contact added' : 'Merged with an existing contact')
+      setShowAddModal(false)
+      setNewContact(EMPTY_CONTACT)
+      loadContacts()
+    } catch (error) {
+      console.error('Error adding contact:', error)
+      toast.error('Failed to add contact')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const getStatusColor = (status: Contact['status']) => {
     switch (status) {
       case 'new':
@@ -159,16 +136,19 @@ export default function ContactsPage() {
         return ExternalLink
       case 'manual':
         return Plus
+      case 'messenger':
+        return Facebook
+      case 'instagram':
+        return Instagram
       default:
         return Users
     }
   }
 
   const filteredContacts = contacts.filter((contact) => {
+    const query = searchQuery.toLowerCase()
     const matchesSearch =
-      contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      contact.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      contact.company?.toLowerCase().includes(searchQuery.toLowerCase()) || false
+      [contact.name, contact.email, contact.phone, contact.company].some(value => value?.toLowerCase().includes(query))
 
     const matchesStatus = selectedStatus === 'all' || contact.status === selectedStatus
     const matchesSource = selectedSource === 'all' || contact.source === selectedSource
@@ -191,32 +171,9 @@ export default function ContactsPage() {
     })
   }
 
+  // Server-side export so custom form fields and all contacts are included
   const exportContacts = () => {
-    const csv = [
-      ['Name', 'Email', 'Phone', 'Company', 'Status', 'Source', 'First Contact', 'Last Contact', 'Messages'],
-      ...filteredContacts.map(contact => [
-        contact.name,
-        contact.email,
-        contact.phone || '',
-        contact.company || '',
-        contact.status,
-        contact.source,
-        formatDate(contact.first_contact),
-        formatDate(contact.last_contact),
-        contact.message_count.toString()
-      ])
-    ].map(row => row.join(',')).join('\n')
-
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `contacts-${new Date().toISOString().split('T')[0]}.csv`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    window.URL.revokeObjectURL(url)
-    toast.success('Contacts exported successfully')
+    window.location.href = `/api/agents/${agentId}/contacts/export`
   }
 
   return (
@@ -329,6 +286,8 @@ export default function ContactsPage() {
             <option value="chat">Chat</option>
             <option value="form">Form</option>
             <option value="manual">Manual</option>
+            <option value="messenger">Messenger</option>
+            <option value="instagram">Instagram</option>
           </select>
         </div>
       </div>
@@ -379,12 +338,12 @@ export default function ContactsPage() {
                     <div className="flex items-center gap-4">
                       <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
                         <span className="text-white font-semibold text-sm">
-                          {contact.name.charAt(0).toUpperCase()}
+                          {(contact.name || contact.email || '?').charAt(0).toUpperCase()}
                         </span>
                       </div>
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-1">
-                          <h3 className="font-medium text-gray-900">{contact.name}</h3>
+                          <h3 className="font-medium text-gray-900">{contact.name || contact.email || contact.phone}</h3>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(contact.status)}`}>
                             {contact.status}
                           </span>
@@ -395,10 +354,12 @@ export default function ContactsPage() {
                           ))}
                         </div>
                         <div className="flex items-center gap-4 text-sm text-gray-600">
-                          <span className="flex items-center gap-1">
-                            <Mail className="h-3 w-3" />
-                            {contact.email}
-                          </span>
+                          {contact.email && (
+                            <span className="flex items-center gap-1">
+                              <Mail className="h-3 w-3" />
+                              {contact.email}
+                            </span>
+                          )}
                           {contact.phone && (
                             <span className="flex items-center gap-1">
                               <Phone className="h-3 w-3" />
@@ -411,12 +372,6 @@ export default function ContactsPage() {
                               {contact.company}
                             </span>
                           )}
-                          {contact.location && (
-                            <span className="flex items-center gap-1">
-                              <MapPin className="h-3 w-3" />
-                              {contact.location}
-                            </span>
-                          )}
                         </div>
                         <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
                           <span className="flex items-center gap-1">
@@ -425,21 +380,35 @@ export default function ContactsPage() {
                           </span>
                           <span className="flex items-center gap-1">
                             <Calendar className="h-3 w-3" />
-                            First contact {formatDate(contact.first_contact)}
+                            First contact {formatDate(contact.first_contact_at)}
                           </span>
                           <span className="flex items-center gap-1">
                             <MessageSquare className="h-3 w-3" />
                             {contact.message_count} messages
                           </span>
+                          {Object.entries(contact.fields || {}).map(([key, value]) => (
+                            <span key={key}>
+                              {key}: {String(value)}
+                            </span>
+                          ))}
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg">
-                        <MoreVertical className="h-4 w-4" />
+                      <select
+                        value={contact.status}
+                        onChange={(e) => updateContact(contact.id, { status: e.target.value as ContactStatus })}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {CONTACT_STATUSES.map((status) => (
+                          <option key={status} value={status}>{status}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => deleteContact(contact)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                      >
+                        <Trash2 className="h-4 w-4" />
                       </button>
                     </div>
                   </div>
@@ -462,24 +431,38 @@ export default function ContactsPage() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
             <h3 className="text-lg font-semibold mb-4">Add Contact</h3>
-            <p className="text-gray-600 mb-6">
-              Manual contact creation is coming soon! For now, contacts are automatically captured when users interact with your agent.
-            </p>
+            <div className="space-y-3 mb-6">
+              {(['name', 'email', 'phone', 'company'] as const).map((key) => (
+                <input
+                  key={key}
+                  type={key === 'email' ? 'email' : key === 'phone' ? 'tel' : 'text'}
+                  placeholder={key.charAt(0).toUpperCase() + key.slice(1)}
+                  value={newContact[key]}
+                  onChange={(e) => setNewContact({ ...newContact, [key]: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ))}
+              <textarea
+                placeholder="Notes"
+                value={newContact.notes}
+                onChange={(e) => setNewContact({ ...newContact, notes: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
             <div className="flex gap-3">
               <button
                 onClick={() => setShowAddModal(false)}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
               >
-                Close
+                Cancel
               </button>
               <button
-                onClick={() => {
-                  setShowAddModal(false)
-                  toast.info('Manual contact creation coming soon!')
-                }}
-                className="flex-1 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-900"
+                onClick={addContact}
+                disabled={saving || (!newContact.name && !newContact.email && !newContact.phone)}
+                className="flex-1 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
               >
-                Get Notified
+                {saving ? 'Adding...' : 'Add Contact'}
               </button>
             </div>
           </div>
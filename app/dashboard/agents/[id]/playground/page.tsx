@@ -10,12 +10,18 @@ import { configService, AIModel, PromptPreset } from '@/lib/api/config'
 import { ModelDropdown } from '@/components/ui/model-dropdown'
 import { TemplateSelector } from '@/components/ai/template-selector'
 import { usePromptTemplates } from '@/hooks/use-prompt-templates'
+import { isEventStream, readSSEStream } from '@/lib/utils/sse'
+import Citations from '@/components/chat/Citations'
+import { AttachImageButton, AttachmentPreviews, uploadChatImages } from '@/components/chat/ImageAttachments'
+import type { Citation } from '@/lib/types/citations'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: Citation[]
+  images?: string[]
 }
 
 export default function PlaygroundPage() {
@@ -24,6 +30,8 @@ export default function PlaygroundPage() {
   const agentId = params.id as string
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
+  // Images picked for the next message
+  const [attachments, setAttachments] = useState<File[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [agent, setAgent] = useState<any>(null)
   const [temperature, setTemperature] = useState(0.5)
@@ -133,7 +141,7 @@ export default function PlaygroundPage() {
   }
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return
+    if ((!input.trim() && attachments.length === 0) || isLoading) return
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -144,10 +152,17 @@ export default function PlaygroundPage() {
 
     setMessages(prev => [...prev, userMessage])
     const currentInput = input.trim()
+    const files = attachments
     setInput('')
+    setAttachments([])
     setIsLoading(true)
 
     try {
+      const images = await uploadChatImages(agentId, files)
+      if (images.length > 0) {
+        setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, images } : m))
+      }
+
       const response = await fetch(`/api/agents/${agentId}/chat`, {
         method: 'POST',
         headers: {
@@ -155,26 +170,55 @@ export default function PlaygroundPage() {
         },
         body: JSON.stringify({
           message: currentInput,
+          images,
           sessionId: sessionId,
           model: selectedModel,
-          temperature: temperature
+          temperature: temperature,
+          stream: true
         })
       })
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to get response')
+      if (!response.ok || !isEventStream(response)) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to get response')
       }
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: data.response,
+        content: '',
         timestamp: new Date()
       }
 
-      setMessages(prev => [...prev, assistantMessage])
+      const updateAssistant = (content: string, citations?: Citation[]) => {
+        setMessages(prev => {
+          if (prev.some(m => m.id === assistantMessage.id)) {
+            return prev.map(m => m.id === assistantMessage.id ? { ...m, content, citations } : m)
+          }
+          return [...prev, { ...assistantMessage, content, citations }]
+        })
+      }
+
+      // Render tokens as they arrive; the "done" event carries the final
+      // reply (with links injected) plus usage and context chunks
+      let streamedText = ''
+      let data: any = null
+      await readSSEStream(response, (event, payload) => {
+        if (event === 'token') {
+          streamedText += payload.content
+          updateAssistant(streamedText)
+          setIsLoading(false)
+        } else if (event === 'done') {
+          data = payload
+          updateAssistant(payload.response, payload.citations)
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Failed to get response')
+        }
+      })
+
+      if (!data) {
+        throw new Error('Response stream ended unexpectedly')
+      }
 
       // Save conversation to database
       try {
@@ -194,14 +238,14 @@ export default function PlaygroundPage() {
             messages: [
               {
                 role: 'user',
-                content: userInput,
+                content: currentInput,
                 created_at: userMessage.timestamp.toISOString()
               },
               {
                 role: 'assistant',
                 content: data.response,
                 confidence_score: data.confidence_score || 0.85,
-                source_chunks: data.sourceChunks,
+                source_chunks: data.contextChunks,
                 created_at: assistantMessage.timestamp.toISOString()
               }
             ]
@@ -502,14 +546,32 @@ export default function PlaygroundPage() {
                     <Bot className="h-4 w-4 text-white" />
                   </div>
                 )}
-                <div
-                  className={`max-w-[70%] px-4 py-2.5 ${
-                    message.role === 'user'
-                      ? 'bg-gray-900 text-white rounded-full'
-                      : 'bg-gray-100 text-gray-900 rounded-2xl'
-                  }`}
-                >
-                  <p className="whitespace-pre-wrap">{message.content}</p>
+                <div className={`max-w-[70%] flex flex-col gap-2 ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  {message.images && message.images.length > 0 && (
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {message.images.map((imageUrl, idx) => (
+                        <img
+                          key={idx}
+                          src={imageUrl}
+                          alt={`Attachment ${idx + 1}`}
+                          className="h-24 rounded-lg object-cover cursor-pointer"
+                          onClick={() => window.open(imageUrl, '_blank')}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <div
+                    className={`px-4 py-2.5 ${
+                      message.role === 'user'
+                        ? 'bg-gray-900 text-white rounded-full'
+                        : 'bg-gray-100 text-gray-900 rounded-2xl'
+                    }`}
+                  >
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                    {message.citations && (
+                      <Citations citations={message.citations} className="border-t border-gray-200 pt-2" />
+                    )}
+                  </div>
                 </div>
                 {message.role === 'user' && (
                   <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center flex-shrink-0">
@@ -540,13 +602,18 @@ export default function PlaygroundPage() {
 
           {/* Input */}
           <div className="px-4 py-3 border-t border-gray-100 bg-white">
+            <AttachmentPreviews
+              files={attachments}
+              onRemove={(index) => setAttachments(prev => prev.filter((_, i) => i !== index))}
+            />
             <div className="flex gap-2 items-center">
+              <AttachImageButton files={attachments} onChange={setAttachments} disabled={isLoading} />
               <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyPress={(e) => {
-                  if (e.key === 'Enter' && !isLoading && input.trim()) {
+                  if (e.key === 'Enter' && !isLoading && (input.trim() || attachments.length > 0)) {
                     handleSend()
                   }
                 }}
@@ -559,7 +626,7 @@ export default function PlaygroundPage() {
               </button>
               <button
                 onClick={handleSend}
-                disabled={!input.trim() || isLoading}
+                disabled={(!input.trim() && attachments.length === 0) || isLoading}
                 className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Send className="h-5 w-5 text-gray-600" />
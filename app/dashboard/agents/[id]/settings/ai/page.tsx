@@ -23,6 +23,14 @@ import { ModelSelector } from '@/components/ai/model-selector'
 import { TemplateSelector } from '@/components/ai/template-selector'
 import { TemperatureSlider } from '@/components/ai/temperature-slider'
 import { PromptEditor } from '@/components/ai/prompt-editor'
+import { RetrievalSettingsForm } from '@/components/ai/retrieval-settings'
+import { RetrievalSettings, DEFAULT_RETRIEVAL_SETTINGS, resolveRetrievalSettings } from '@/lib/types/retrieval'
+import { RoutingSettingsForm } from '@/components/ai/routing-settings'
+import { RoutingPolicy, DEFAULT_ROUTING_POLICY, resolveRoutingPolicy } from '@/lib/types/routing'
+import { GuardrailSettingsForm } from '@/components/ai/guardrail-settings'
+import { AgentGuardrailSettings, guardrailPatternProblem, resolveAgentGuardrailSettings } from '@/lib/types/guardrails'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 
 export default function AISettingsPage() {
   const params = useParams()
@@ -30,7 +38,7 @@ export default function AISettingsPage() {
   const agentId = params.id as string
 
   // Use shared hooks
-  const { agent, loading: agentLoading, updateAgent } = useAgent(agentId)
+  const { agent, loading: agentLoading } = useAgent(agentId)
   const { models, loading: modelsLoading } = useAIModels()
   const { templates, loading: templatesLoading, getTemplateById } = usePromptTemplates()
 
@@ -42,12 +50,18 @@ export default function AISettingsPage() {
   const [customMode, setCustomMode] = useState(false)
   const [customUserPrompt, setCustomUserPrompt] = useState('')
   const [showCustomOverrides, setShowCustomOverrides] = useState(false)
+  const [retrieval, setRetrieval] = useState<RetrievalSettings>(DEFAULT_RETRIEVAL_SETTINGS)
+  const [routing, setRouting] = useState<RoutingPolicy>(DEFAULT_ROUTING_POLICY)
+  const [guardrails, setGuardrails] = useState<AgentGuardrailSettings>(resolveAgentGuardrailSettings(null))
 
   // Initialize form from agent data
   useEffect(() => {
     if (agent) {
       setSelectedModel(agent.model || 'gemini-1.5-flash')
       setTemperature(agent.temperature || 0)
+      setRetrieval(resolveRetrievalSettings(agent.config))
+      setRouting(resolveRoutingPolicy(agent.config))
+      setGuardrails(resolveAgentGuardrailSettings(agent.config))
 
       if (agent.prompt_template_id) {
         setSelectedTemplateId(agent.prompt_template_id)
@@ -85,11 +99,36 @@ export default function AISettingsPage() {
   }
 
   const handleSave = async () => {
+    const unsafePattern = guardrails.patterns.rules.find(rule => rule.pattern && guardrailPatternProblem(rule.pattern))
+    if (unsafePattern) {
+      toast({
+        title: 'Error',
+        description: `Pattern "${unsafePattern.name || unsafePattern.pattern}": ${guardrailPatternProblem(unsafePattern.pattern)}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
     setSaving(true)
     try {
       const updates: any = {
         model: selectedModel,
         temperature: temperature,
+        config: {
+          ...(agent?.config || {}),
+          retrieval,
+          // Unfinished rows without a model are dropped
+          routing: {
+            ...routing,
+            rules: routing.rules.filter(rule => rule.model),
+            fallbackChain: routing.fallbackChain.filter(Boolean)
+          },
+          guardrails: {
+            ...guardrails,
+            blockedTopics: { ...guardrails.blockedTopics, topics: guardrails.blockedTopics.topics.map(topic => topic.trim()).filter(Boolean) },
+            patterns: { ...guardrails.patterns, rules: guardrails.patterns.rules.filter(rule => rule.pattern) }
+          }
+        }
       }
 
       if (customMode) {
@@ -115,10 +154,16 @@ export default function AISettingsPage() {
         }
       }
 
-      const { error } = await updateAgent(updates)
+      // Saved through the API so the guardrail patterns are checked on the server too
+      const response = await fetch(`/api/agents/${agentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      })
 
-      if (error) {
-        throw new Error(error)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save settings')
       }
 
       toast({
@@ -207,6 +252,72 @@ export default function AISettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Retrieval Configuration */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Knowledge Retrieval</CardTitle>
+              <CardDescription>
+                How the agent searches its sources before answering
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RetrievalSettingsForm
+                value={retrieval}
+                onChange={setRetrieval}
+                models={models}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Model Routing */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Model Routing</CardTitle>
+              <CardDescription>
+                Which model answers each message, and what to try when it fails
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RoutingSettingsForm
+                value={routing}
+                onChange={setRouting}
+                models={models}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Guardrails */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Guardrails</CardTitle>
+              <CardDescription>
+                Checks on visitor messages and replies for blocked topics, personal data and harmful content
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Use custom guardrails</Label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Off: the platform policy applies. On: these checks apply as well; the platform policy stays in force.
+                  </p>
+                </div>
+                <Switch
+                  checked={guardrails.override}
+                  onCheckedChange={(override) => setGuardrails({ ...guardrails, override })}
+                />
+              </div>
+
+              {guardrails.override && (
+                <GuardrailSettingsForm
+                  value={guardrails}
+                  onChange={(policy) => setGuardrails({ ...policy, override: true })}
+                  models={models}
+                />
+              )}
+            </CardContent>
+          </Card>
+
           {/* Save Button */}
           <div className="flex justify-end">
             <Button
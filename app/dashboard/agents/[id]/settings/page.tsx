@@ -88,7 +88,7 @@ export default function SettingsPage() {
       setAvailableModels([
         { id: 'gpt-4-mini', name: 'gpt-4-mini', provider: 'openai' },
         { id: 'gpt-3.5-turbo', name: 'gpt-3.5-turbo', provider: 'openai' },
-        { id: 'claude-3-haiku', name: 'claude-3-haiku', provider: 'anthropic' }
+        { id: 'claude-haiku-4-5', name: 'claude-haiku-4-5', provider: 'anthropic' }
       ] as AIModel[])
     } finally {
       setModelsLoading(false)
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { AlertCircle, Loader2, Trash2, Plus, X, MoreHorizontal, Edit, ChevronRight, HelpCircle, Image, MessageSquare } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Button } from '@/components/ui/button'
@@ -37,6 +37,10 @@ export default function QAPage() {
   const { toast } = useToast()
   const fileInputRef = useRef<HTMLInputElement>(null)
   const agentId = Array.isArray(params.id) ? params.id[0] : params.id
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  // Set when opened from the knowledge gaps report to answer a gap
+  const gapId = searchParams.get('gapId')
 
   // Form states
   const [title, setTitle] = useState('')
@@ -69,6 +73,26 @@ export default function QAPage() {
     }
   }, [agentId, refreshTrigger])
 
+  // Pre-fill the form with the questions visitors asked
+  useEffect(() => {
+    if (!agentId || !gapId) return
+
+    const loadGap = async () => {
+      try {
+        const response = await fetch(`/api/agents/${agentId}/knowledge-gaps/${gapId}`)
+        if (!response.ok) throw new Error('Failed to load knowledge gap')
+        const { gap } = await response.json()
+        const asked: string[] = Array.from(new Set([gap.label, ...gap.questions.map((q: any) => q.question)]))
+        setTitle(gap.label.length > 60 ? `${gap.label.slice(0, 60)}…` : gap.label)
+        setQuestions(asked.slice(0, 5))
+      } catch (error) {
+        console.error('Error loading knowledge gap:', error)
+      }
+    }
+
+    loadGap()
+  }, [agentId, gapId])
+
   // Cleanup previews on unmount
   useEffect(() => {
     return () => {
@@ -180,9 +204,21 @@ export default function QAPage() {
         throw new Error(data.error || 'Failed to add Q&A')
       }
 
+      if (gapId) {
+        const gapResponse = await fetch(`/api/agents/${agentId}/knowledge-gaps/${gapId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'resolved', sourceId: data.source?.id })
+        })
+        if (!gapResponse.ok) {
+          console.error('Failed to resolve knowledge gap:', await gapResponse.text())
+        }
+        router.replace(`/dashboard/agents/${agentId}/sources/qa`)
+      }
+
       toast({
         title: 'Success',
-        description: 'Q&A added successfully',
+        description: gapId ? 'Q&A added and knowledge gap resolved' : 'Q&A added successfully',
       })
 
       // Reset form
@@ -384,6 +420,19 @@ export default function QAPage() {
             <div className="p-8">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Add Q&A</h2>
 
+              {gapId && (
+                <div className="flex items-start justify-between gap-3 bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 text-sm text-blue-800">
+                  <span>Answering a knowledge gap: these questions were asked but the knowledge base had no answer.</span>
+                  <button
+                    onClick={() => router.replace(`/dashboard/agents/${agentId}/sources/qa`)}
+                    className="p-1 hover:bg-blue-100 rounded"
+                    title="Cancel"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
               <div className="space-y-4">
                 {/* Title */}
                 <div>
@@ -26,6 +26,7 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { usePagination } from '@/hooks/usePagination'
 import { PaginationControls } from '@/components/ui/pagination-controls'
 import { WebsiteViewer } from '@/components/agents/website-viewer'
+import { CrawlRulesFields, EMPTY_CRAWL_RULES_FORM, fromCrawlRulesForm } from '@/features/website-sources/components/CrawlRulesFields'
 
 interface SubLink {
   url: string
@@ -78,8 +79,7 @@ export default function WebsitePage() {
   const [editUrl, setEditUrl] = useState('')
   const [openDropdown, setOpenDropdown] = useState<string | null>(null)
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false)
-  const [includeOnlyPaths, setIncludeOnlyPaths] = useState('')
-  const [excludePaths, setExcludePaths] = useState('')
+  const [crawlRules, setCrawlRules] = useState(EMPTY_CRAWL_RULES_FORM)
   const [slowScraping, setSlowScraping] = useState(false)
   const [fullPageContent, setFullPageContent] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
@@ -315,8 +315,10 @@ export default function WebsitePage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           url: fullUrl,
-          crawlSubpages: crawlOption === 'crawl', // Always crawl subpages when in crawl mode
-          maxPages: crawlOption === 'crawl' ? maxPages : 1,
+          crawlSubpages: crawlOption !== 'individual', // Always crawl subpages when in crawl mode
+          crawlMode: crawlOption === 'sitemap' ? 'sitemap' : 'links',
+          maxPages: crawlOption !== 'individual' ? maxPages : 1,
+          crawlRules: fromCrawlRulesForm(crawlRules),
           fullPageContent
         }),
       })
@@ -336,12 +338,13 @@ export default function WebsitePage() {
         }
         setRefreshTrigger(prev => prev + 1)
       } else {
-        throw new Error('Failed to start crawling')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to start website crawling')
       }
-    } catch (error) {
+    } catch (error: any) {
       toast({
         title: 'Error',
-        description: 'Failed to start website crawling',
+        description: error.message || 'Failed to start website crawling',
         variant: 'destructive',
       })
     } finally {
@@ -415,10 +418,10 @@ export default function WebsitePage() {
 
   const handleExcludeLink = async (sourceId: string, linkUrl: string) => {
     try {
-      const response = await fetch(`/api/agents/${params.id}/sources/website/${sourceId}/exclude`, {
-        method: 'POST',
+      const response = await fetch(`/api/agents/${params.id}/sources/website`, {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: linkUrl }),
+        body: JSON.stringify({ action: 'exclude-link', sourceId, linkUrl }),
       })
 
       if (response.ok) {
@@ -684,6 +687,16 @@ export default function WebsitePage() {
                 >
                   Crawl links
                 </button>
+                <button
+                  onClick={() => setCrawlOption('sitemap')}
+                  className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    crawlOption === 'sitemap'
+                      ? 'bg-gray-100 text-gray-900'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  Sitemap
+                </button>
                 <button
                   onClick={() => setCrawlOption('individual')}
                   className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
@@ -754,6 +767,14 @@ export default function WebsitePage() {
                       />
                     </div>
                   </div>
+                  {crawlOption === 'sitemap' && (
+                    <div className="flex items-start gap-1.5 mt-2">
+                      <Info className="h-3 w-3 text-gray-400 mt-0.5" />
+                      <p className="text-xs text-gray-500">
+                        Pages listed in the site&apos;s sitemap (from robots.txt or /sitemap.xml) are crawled first, then links are followed if pages remain.
+                      </p>
+                    </div>
+                  )}
                   {crawlOption === 'crawl' && (
                     <div className="flex items-start gap-1.5 mt-2">
                       <Info className="h-3 w-3 text-gray-400 mt-0.5" />
@@ -764,7 +785,7 @@ export default function WebsitePage() {
                   )}
                 </div>
 
-                {crawlOption === 'crawl' && (
+                {crawlOption !== 'individual' && (
                   <>
                     {/* Advanced Options Dropdown */}
                     <div className="border-t pt-4">
@@ -803,29 +824,7 @@ export default function WebsitePage() {
                             />
                           </div>
 
-                          <div>
-                            <label className="text-sm font-medium text-gray-700 mb-2 block">
-                              Include only paths
-                            </label>
-                            <Input
-                              value={includeOnlyPaths}
-                              onChange={(e) => setIncludeOnlyPaths(e.target.value)}
-                              placeholder="Ex: blog/*, dev/*"
-                              className="text-sm"
-                            />
-                          </div>
-
-                          <div>
-                            <label className="text-sm font-medium text-gray-700 mb-2 block">
-                              Exclude paths
-                            </label>
-                            <Input
-                              value={excludePaths}
-                              onChange={(e) => setExcludePaths(e.target.value)}
-                              placeholder="Ex: blog/*, dev/*"
-                              className="text-sm"
-                            />
-                          </div>
+                          <CrawlRulesFields value={crawlRules} onChange={setCrawlRules} />
 
                           <div className="flex items-center gap-2">
                             <input
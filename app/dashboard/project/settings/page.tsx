@@ -5,9 +5,14 @@ import { createClient } from '@/lib/supabase/client'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { toast } from 'sonner'
 import { AlertCircle, AlertTriangle } from 'lucide-react'
+import { EMBEDDING_MODEL_OPTIONS, resolveEmbeddingSettings } from '@/lib/types/embeddings'
+import { ProviderCredentialsPanel } from '@/components/providers/provider-credentials-panel'
+
+const CUSTOM_EMBEDDING_OPTION = 'custom'
 
 export default function GeneralSettingsPage() {
   const [project, setProject] = useState<any>(null)
@@ -18,6 +23,10 @@ export default function GeneralSettingsPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [deleteConfirmation, setDeleteConfirmation] = useState('')
   const [deleting, setDeleting] = useState(false)
+  const [embeddingOption, setEmbeddingOption] = useState('')
+  const [embeddingProvider, setEmbeddingProvider] = useState('')
+  const [embeddingModel, setEmbeddingModel] = useState('')
+  const [savingEmbeddings, setSavingEmbeddings] = useState(false)
   const supabase = createClient()
 
   useEffect(() => {
@@ -40,6 +49,14 @@ export default function GeneralSettingsPage() {
         setProject(projects[0])
         setProjectName(projects[0].name)
         setProjectSlug(projects[0].url_slug)
+
+        const embedding = resolveEmbeddingSettings(projects[0])
+        const known = EMBEDDING_MODEL_OPTIONS.find(
+          option => option.provider === embedding.provider && option.model === embedding.model
+        )
+        setEmbeddingOption(known ? `${known.provider}:${known.model}` : CUSTOM_EMBEDDING_OPTION)
+        setEmbeddingProvider(embedding.provider)
+        setEmbeddingModel(embedding.model)
       }
     } catch (error) {
       console.error('Error loading project:', error)
@@ -70,6 +87,44 @@ export default function GeneralSettingsPage() {
     }
   }
 
+  function handleEmbeddingOptionChange(value: string) {
+    setEmbeddingOption(value)
+    const option = EMBEDDING_MODEL_OPTIONS.find(o => `${o.provider}:${o.model}` === value)
+    if (option) {
+      setEmbeddingProvider(option.provider)
+      setEmbeddingModel(option.model)
+    }
+  }
+
+  async function handleSaveEmbeddings() {
+    setSavingEmbeddings(true)
+    try {
+      const response = await fetch(`/api/projects/${project.id}/embeddings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: embeddingProvider, model: embeddingModel })
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      if (data.reembedding.agents > 0) {
+        toast.success(
+          data.reembedding.queued > 0
+            ? `Embedding model updated. Re-embedding ${data.reembedding.queued} agent(s) in the background.`
+            : 'Embedding model updated. Retrain your agents to re-embed their sources.'
+        )
+      } else {
+        toast.success('Embedding settings saved')
+      }
+      loadProject()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save embedding settings')
+    } finally {
+      setSavingEmbeddings(false)
+    }
+  }
+
   async function handleDeleteConfirm() {
     if (deleteConfirmation !== 'I understand') {
       toast.error('Please type "I understand" to confirm')
@@ -141,6 +196,74 @@ export default function GeneralSettingsPage() {
         </div>
       </div>
 
+      {/* Embeddings */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Embeddings</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          The model used to index your sources and search them when answering.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Embedding model</Label>
+            <Select value={embeddingOption} onValueChange={handleEmbeddingOptionChange}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMBEDDING_MODEL_OPTIONS.map(option => (
+                  <SelectItem key={`${option.provider}:${option.model}`} value={`${option.provider}:${option.model}`}>
+                    {option.label} ({option.dimensions} dimensions)
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_EMBEDDING_OPTION}>Custom OpenAI-compatible provider</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {embeddingOption === CUSTOM_EMBEDDING_OPTION && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="embedding-provider">Provider name</Label>
+                <Input
+                  id="embedding-provider"
+                  value={embeddingProvider}
+                  onChange={(e) => setEmbeddingProvider(e.target.value)}
+                  placeholder="my-provider"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="embedding-model">Model</Label>
+                <Input
+                  id="embedding-model"
+                  value={embeddingModel}
+                  onChange={(e) => setEmbeddingModel(e.target.value)}
+                  placeholder="nomic-embed-text"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500 flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            Changing the model re-embeds every source in this project
+          </p>
+
+          <Button
+            onClick={handleSaveEmbeddings}
+            disabled={savingEmbeddings || !embeddingProvider || !embeddingModel}
+            className="bg-gray-900 hover:bg-gray-800 text-white"
+          >
+            {savingEmbeddings ? 'Checking provider...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Provider API keys */}
+      {project && <ProviderCredentialsPanel projectId={project.id} />}
+
       {/* Delete Project */}
       <div className="border-2 border-red-200 bg-red-50 rounded-lg p-6">
         <h2 className="text-lg font-medium text-gray-900 mb-2">Delete project</h2>
@@ -3,6 +3,12 @@
 import { useState, useRef, useEffect } from 'react'
 import { Send, X, Minimize2, Bot } from 'lucide-react'
 import { ChatMessageRenderer } from '@/components/ui/safe-html-renderer'
+import { isEventStream, readSSEStream } from '@/lib/utils/sse'
+import LeadForm, { fetchLeadForm } from '@/components/chat/LeadForm'
+import Citations from '@/components/chat/Citations'
+import { AttachImageButton, AttachmentPreviews, uploadChatImages } from '@/components/chat/ImageAttachments'
+import type { LeadFormSettings } from '@/lib/types/leads'
+import type { Citation } from '@/lib/types/citations'
 
 interface Message {
   id: string
@@ -10,15 +16,54 @@ interface Message {
   role: 'user' | 'assistant'
   timestamp: Date
   images?: string[]
+  citations?: Citation[]
+}
+
+// Session for this browser tab, so messages and lead details join one conversation
+function getSessionId(agentId: string): string {
+  const key = `alonchat_session_${agentId}`
+  let sessionId = sessionStorage.getItem(key)
+  if (!sessionId) {
+    sessionId = `widget_${agentId}_${Date.now()}`
+    sessionStorage.setItem(key, sessionId)
+  }
+  return sessionId
 }
 
 export default function WidgetChatPage({ params }: { params: { id: string } }) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState('')
+  // Images picked for the next message
+  const [attachments, setAttachments] = useState<File[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [agentConfig, setAgentConfig] = useState<any>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const [isInitialized, setIsInitialized] = useState(false)
+  const [leadForm, setLeadForm] = useState<LeadFormSettings | null>(null)
+  const [showLeadForm, setShowLeadForm] = useState(false)
+  // Submitted or dismissed; don't offer the form again this session
+  const [leadFormDone, setLeadFormDone] = useState(false)
+
+  useEffect(() => {
+    fetchLeadForm(params.id).then(settings => {
+      setLeadForm(settings)
+      setShowLeadForm(settings?.trigger === 'on_start')
+    })
+  }, [params.id])
+
+  // An on_start form has to be filled in before chatting
+  const leadFormBlocking = showLeadForm && leadForm?.trigger === 'on_start'
+
+  const handleLeadSubmitted = (message: string) => {
+    setShowLeadForm(false)
+    setLeadFormDone(true)
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: message,
+      role: 'assistant',
+      timestamp: new Date()
+    }])
+  }
 
   useEffect(() => {
     // Listen for configuration from parent window
@@ -44,14 +89,14 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [messages, showLeadForm])
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return
+    if ((!inputMessage.trim() && attachments.length === 0) || isLoading || leadFormBlocking) return
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -60,11 +105,18 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
       timestamp: new Date()
     }
 
+    const files = attachments
     setMessages(prev => [...prev, userMessage])
     setInputMessage('')
+    setAttachments([])
     setIsLoading(true)
 
     try {
+      const images = await uploadChatImages(params.id, files)
+      if (images.length > 0) {
+        setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, images } : m))
+      }
+
       const response = await fetch(`/api/agents/${params.id}/chat`, {
         method: 'POST',
         headers: {
@@ -72,25 +124,46 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
         },
         body: JSON.stringify({
           message: inputMessage,
-          conversation_id: sessionStorage.getItem('conversation_id') || undefined
+          images,
+          sessionId: getSessionId(params.id),
+          stream: true
         })
       })
 
-      const data = await response.json()
-
-      if (data.conversation_id && !sessionStorage.getItem('conversation_id')) {
-        sessionStorage.setItem('conversation_id', data.conversation_id)
+      if (!response.ok || !isEventStream(response)) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to get response')
       }
 
-      const assistantMessage: Message = {
-        id: Date.now().toString(),
-        content: data.response,
-        role: 'assistant',
-        timestamp: new Date(),
-        images: data.images || []
+      const assistantId = `${Date.now()}_assistant`
+      const updateAssistant = (changes: Partial<Message>) => {
+        setMessages(prev => {
+          if (prev.some(m => m.id === assistantId)) {
+            return prev.map(m => m.id === assistantId ? { ...m, ...changes } : m)
+          }
+          return [...prev, {
+            id: assistantId,
+            content: '',
+            role: 'assistant',
+            timestamp: new Date(),
+            ...changes
+          }]
+        })
       }
 
-      setMessages(prev => [...prev, assistantMessage])
+      let streamedText = ''
+      await readSSEStream(response, (event, data) => {
+        if (event === 'token') {
+          streamedText += data.content
+          updateAssistant({ content: streamedText })
+          setIsLoading(false)
+        } else if (event === 'done') {
+          updateAssistant({ content: data.response, images: data.images || [], citations: data.citations || [] })
+          if (data.showLeadForm && !leadFormDone) setShowLeadForm(true)
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Failed to get response')
+        }
+      })
     } catch (error) {
       console.error('Failed to send message:', error)
       const errorMessage: Message = {
@@ -176,6 +249,9 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
                     content={message.content}
                     className={message.role === 'user' ? 'text-white' : 'text-gray-900'}
                   />
+                  {message.citations && (
+                    <Citations citations={message.citations} className="border-t border-gray-200 pt-2" />
+                  )}
                 </div>
                 {/* Display images if present */}
                 {message.images && message.images.length > 0 && (
@@ -201,6 +277,18 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
             </div>
           </div>
         ))}
+        {showLeadForm && leadForm && (
+          <LeadForm
+            agentId={params.id}
+            sessionId={getSessionId(params.id)}
+            settings={leadForm}
+            onSubmitted={handleLeadSubmitted}
+            onDismiss={() => {
+              setShowLeadForm(false)
+              setLeadFormDone(true)
+            }}
+          />
+        )}
         {isLoading && (
           <div className="flex justify-start">
             <div className="flex gap-2">
@@ -222,18 +310,24 @@ export default function WidgetChatPage({ params }: { params: { id: string } }) {
 
       {/* Input */}
       <div className="border-t border-gray-200 px-4 py-3">
+        <AttachmentPreviews
+          files={attachments}
+          onRemove={(index) => setAttachments(prev => prev.filter((_, i) => i !== index))}
+        />
         <div className="flex gap-2">
+          <AttachImageButton files={attachments} onChange={setAttachments} disabled={isLoading || leadFormBlocking} />
           <input
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
             placeholder="Type your message..."
+            disabled={leadFormBlocking}
             className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
           />
           <button
             onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isLoading}
+            disabled={(!inputMessage.trim() && attachments.length === 0) || isLoading || leadFormBlocking}
             className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-900 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
           >
             <Send className="h-5 w-5" />
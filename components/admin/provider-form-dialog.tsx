@@ -0,0 +1,406 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { DEFAULT_RESPONSE_MAPPING, RegisteredProviderWithModels } from '@/lib/types/providers'
+
+interface ModelRow {
+  modelId: string
+  displayName: string
+  inputPricePerMillion: string
+  outputPricePerMillion: string
+}
+
+interface ProviderForm {
+  name: string
+  displayName: string
+  apiBaseUrl: string
+  authHeaderName: string
+  authHeaderPrefix: string
+  apiKeyEnvVar: string
+  headers: string
+  queryParams: string
+  responseMapping: string
+  models: ModelRow[]
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  displayName: '',
+  apiBaseUrl: '',
+  authHeaderName: 'Authorization',
+  authHeaderPrefix: 'Bearer',
+  apiKeyEnvVar: '',
+  headers: '{}',
+  queryParams: '{}',
+  responseMapping: '{}',
+  models: []
+}
+
+// Starting points for common OpenAI-compatible servers
+const PRESETS: Array<{ label: string; form: Partial<ProviderForm> }> = [
+  {
+    label: 'Ollama',
+    form: { name: 'ollama', displayName: 'Ollama', apiBaseUrl: 'http://localhost:11434/v1', apiKeyEnvVar: '' }
+  },
+  {
+    label: 'vLLM',
+    form: { name: 'vllm', displayName: 'vLLM', apiBaseUrl: 'http://localhost:8000/v1', apiKeyEnvVar: 'CUSTOM_PROVIDER_VLLM_API_KEY' }
+  },
+  {
+    label: 'OpenRouter',
+    form: {
+      name: 'openrouter',
+      displayName: 'OpenRouter',
+      apiBaseUrl: 'https://openrouter.ai/api/v1',
+      apiKeyEnvVar: 'CUSTOM_PROVIDER_OPENROUTER_API_KEY',
+      headers: JSON.stringify({ 'X-Title': 'Chatbot' }, null, 2)
+    }
+  },
+  {
+    label: 'Azure OpenAI',
+    form: {
+      name: 'azure-openai',
+      displayName: 'Azure OpenAI',
+      apiBaseUrl: 'https://YOUR-RESOURCE.openai.azure.com/openai/deployments/{model}',
+      authHeaderName: 'api-key',
+      authHeaderPrefix: '',
+      apiKeyEnvVar: 'CUSTOM_PROVIDER_AZURE_OPENAI_API_KEY',
+      queryParams: JSON.stringify({ 'api-version': '2024-10-21' }, null, 2)
+    }
+  }
+]
+
+function toForm(provider: RegisteredProviderWithModels): ProviderForm {
+  return {
+    name: provider.name,
+    displayName: provider.display_name,
+    apiBaseUrl: provider.api_base_url || '',
+    authHeaderName: provider.auth_header_name || 'Authorization',
+    authHeaderPrefix: provider.auth_header_prefix ?? 'Bearer',
+    apiKeyEnvVar: provider.api_key_env_var || '',
+    headers: JSON.stringify(provider.default_headers || {}, null, 2),
+    queryParams: JSON.stringify(provider.query_params || {}, null, 2),
+    responseMapping: JSON.stringify(provider.response_mapping || {}, null, 2),
+    models: provider.models
+      .filter(model => model.is_active)
+      .map(model => ({
+        modelId: model.model_id,
+        displayName: model.display_name,
+        inputPricePerMillion: model.input_price_per_million?.toString() ?? '',
+        outputPricePerMillion: model.output_price_per_million?.toString() ?? ''
+      }))
+  }
+}
+
+function parseJsonField(value: string, label: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(value || '{}')
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch {
+    // Reported below
+  }
+  throw new Error(`${label} must be a JSON object`)
+}
+
+interface ProviderFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edits this provider; creates a new one when null
+  provider: RegisteredProviderWithModels | null
+  onSaved: () => void
+}
+
+export function ProviderFormDialog({ open, onOpenChange, provider, onSaved }: ProviderFormDialogProps) {
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setForm(provider ? toForm(provider) : EMPTY_FORM)
+    }
+  }, [open, provider])
+
+  const update = (changes: Partial<ProviderForm>) => setForm(prev => ({ ...prev, ...changes }))
+
+  const updateModel = (index: number, changes: Partial<ModelRow>) => {
+    setForm(prev => ({
+      ...prev,
+      models: prev.models.map((model, i) => (i === index ? { ...model, ...changes } : model))
+    }))
+  }
+
+  const handleSave = async () => {
+    let payload: Record<string, any>
+    try {
+      payload = {
+        displayName: form.displayName.trim(),
+        apiBaseUrl: form.apiBaseUrl.trim(),
+        authHeaderName: form.authHeaderName.trim() || 'Authorization',
+        authHeaderPrefix: form.authHeaderPrefix.trim(),
+        apiKeyEnvVar: form.apiKeyEnvVar.trim() || null,
+        headers: parseJsonField(form.headers, 'Headers'),
+        queryParams: parseJsonField(form.queryParams, 'Query parameters'),
+        responseMapping: parseJsonField(form.responseMapping, 'Response mapping'),
+        models: form.models
+          .filter(model => model.modelId.trim())
+          .map(model => ({
+            modelId: model.modelId.trim(),
+            displayName: model.displayName.trim() || model.modelId.trim(),
+            inputPricePerMillion: model.inputPricePerMillion ? parseFloat(model.inputPricePerMillion) : undefined,
+            outputPricePerMillion: model.outputPricePerMillion ? parseFloat(model.outputPricePerMillion) : undefined
+          }))
+      }
+      if (!provider) payload.name = form.name.trim()
+    } catch (error: any) {
+      toast.error(error.message)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(provider ? `/api/admin/providers/${provider.id}` : '/api/admin/providers', {
+        method: provider ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details?.[0]
+        throw new Error(detail ? `${detail.path?.join('.')}: ${detail.message}` : data.error || 'Failed to save provider')
+      }
+
+      toast.success(provider ? 'Provider updated' : 'Provider registered')
+      onOpenChange(false)
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving provider:', error)
+      toast.error(error.message || 'Failed to save provider')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{provider ? `Edit ${provider.display_name}` : 'Register Provider'}</DialogTitle>
+          <DialogDescription>
+            Any server that speaks the OpenAI chat completions API
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4 px-1 overflow-y-auto flex-1 max-h-[65vh]">
+          {!provider && (
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map(preset => (
+                <Button
+                  key={preset.label}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...EMPTY_FORM, ...preset.form })}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="provider-name">Name *</Label>
+              <Input
+                id="provider-name"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="e.g., ollama"
+                disabled={!!provider}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="provider-display-name">Display Name *</Label>
+              <Input
+                id="provider-display-name"
+                value={form.displayName}
+                onChange={(e) => update({ displayName: e.target.value })}
+                placeholder="e.g., Ollama"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="provider-base-url">Base URL *</Label>
+            <Input
+              id="provider-base-url"
+              value={form.apiBaseUrl}
+              onChange={(e) => update({ apiBaseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+            />
+            <p className="text-xs text-muted-foreground">
+              /chat/completions is appended. Use {'{model}'} where the model belongs in the path.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="provider-key-var">API Key Variable</Label>
+              <Input
+                id="provider-key-var"
+                value={form.apiKeyEnvVar}
+                onChange={(e) => update({ apiKeyEnvVar: e.target.value })}
+                placeholder="None"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="provider-auth-header">Auth Header</Label>
+              <Input
+                id="provider-auth-header"
+                value={form.authHeaderName}
+                onChange={(e) => update({ authHeaderName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="provider-auth-prefix">Auth Prefix</Label>
+              <Input
+                id="provider-auth-prefix"
+                value={form.authHeaderPrefix}
+                onChange={(e) => update({ authHeaderPrefix: e.target.value })}
+                placeholder="None"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            The key is read from this environment variable on the server, which must be named
+            CUSTOM_PROVIDER_&lt;NAME&gt;_API_KEY. Leave it empty for servers without auth.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="provider-headers">Extra Headers</Label>
+              <Textarea
+                id="provider-headers"
+                value={form.headers}
+                onChange={(e) => update({ headers: e.target.value })}
+                rows={3}
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="provider-query">Query Parameters</Label>
+              <Textarea
+                id="provider-query"
+                value={form.queryParams}
+                onChange={(e) => update({ queryParams: e.target.value })}
+                rows={3}
+                className="font-mono text-xs"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="provider-mapping">Response Mapping</Label>
+            <Textarea
+              id="provider-mapping"
+              value={form.responseMapping}
+              onChange={(e) => update({ responseMapping: e.target.value })}
+              rows={3}
+              className="font-mono text-xs"
+              placeholder={JSON.stringify({ content: DEFAULT_RESPONSE_MAPPING.content })}
+            />
+            <p className="text-xs text-muted-foreground">
+              JSONPath overrides for {Object.keys(DEFAULT_RESPONSE_MAPPING).join(', ')}. Leave empty for the OpenAI format.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Models</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update({
+                  models: [...form.models, { modelId: '', displayName: '', inputPricePerMillion: '', outputPricePerMillion: '' }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Model
+              </Button>
+            </div>
+            {form.models.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No models yet. Agents can only use models listed here.</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_90px_90px_32px] gap-2 text-xs text-muted-foreground">
+                  <span>Model ID</span>
+                  <span>Display name</span>
+                  <span>$ in / 1M</span>
+                  <span>$ out / 1M</span>
+                  <span />
+                </div>
+                {form.models.map((model, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_90px_90px_32px] gap-2">
+                    <Input
+                      value={model.modelId}
+                      onChange={(e) => updateModel(index, { modelId: e.target.value })}
+                      placeholder="llama3.1:8b"
+                      className="font-mono text-xs"
+                    />
+                    <Input
+                      value={model.displayName}
+                      onChange={(e) => updateModel(index, { displayName: e.target.value })}
+                      placeholder="Llama 3.1 8B"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={model.inputPricePerMillion}
+                      onChange={(e) => updateModel(index, { inputPricePerMillion: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={model.outputPricePerMillion}
+                      onChange={(e) => updateModel(index, { outputPricePerMillion: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="px-2"
+                      onClick={() => update({ models: form.models.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {provider ? 'Save Changes' : 'Register'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
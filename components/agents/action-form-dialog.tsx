@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AgentAction,
+  ActionType,
+  DEFAULT_LEAD_CAPTURE_PARAMETERS,
+  HTTP_ACTION_DEFAULT_TIMEOUT_MS,
+  HTTP_ACTION_METHODS,
+} from '@/lib/types/actions'
+
+const EMPTY_PARAMETERS = { type: 'object', properties: {} }
+
+interface ActionForm {
+  type: ActionType
+  name: string
+  description: string
+  parameters: string
+  confirmationMessage: string
+  url: string
+  method: string
+  headers: string
+  bodyTemplate: string
+  timeoutMs: string
+  responseMapping: string
+}
+
+const toJson = (value: any) => value && Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : ''
+
+function formFor(type: ActionType, action?: AgentAction | null): ActionForm {
+  const isLead = type === 'lead_capture'
+  const config = action?.config || {}
+  return {
+    type,
+    name: action?.name ?? (isLead ? 'capture_lead' : ''),
+    description: action?.description ?? (isLead
+      ? 'Save the user\'s contact details once they have shared their name and an email or phone number'
+      : ''),
+    parameters: JSON.stringify(action?.parameters ?? (isLead ? DEFAULT_LEAD_CAPTURE_PARAMETERS : EMPTY_PARAMETERS), null, 2),
+    confirmationMessage: config.confirmationMessage || '',
+    url: config.url || '',
+    method: config.method || 'POST',
+    headers: toJson(config.headers),
+    bodyTemplate: config.bodyTemplate || '',
+    timeoutMs: String(config.timeoutMs || HTTP_ACTION_DEFAULT_TIMEOUT_MS),
+    responseMapping: toJson(config.responseMapping),
+  }
+}
+
+interface ActionFormDialogProps {
+  agentId: string
+  // Type of a new action; ignored when editing
+  type: ActionType | null
+  // Action being edited, null when creating
+  action: AgentAction | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (action: AgentAction) => void
+}
+
+export function ActionFormDialog({ agentId, type, action, open, onOpenChange, onSaved }: ActionFormDialogProps) {
+  const [form, setForm] = useState<ActionForm>(formFor(type || 'http_request'))
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setForm(formFor(action?.type || type || 'http_request', action))
+  }, [open, action, type])
+
+  const update = (changes: Partial<ActionForm>) => setForm({ ...form, ...changes })
+
+  const save = async () => {
+    let parameters: Record<string, any>
+    let headers: Record<string, string> | undefined
+    let responseMapping: Record<string, string> | undefined
+    try {
+      parameters = JSON.parse(form.parameters)
+      headers = form.headers.trim() ? JSON.parse(form.headers) : undefined
+      responseMapping = form.responseMapping.trim() ? JSON.parse(form.responseMapping) : undefined
+    } catch {
+      toast.error('Parameters, headers and response mapping must be valid JSON')
+      return
+    }
+
+    const config = form.type === 'http_request'
+      ? {
+          url: form.url,
+          method: form.method,
+          headers,
+          bodyTemplate: form.bodyTemplate.trim() || undefined,
+          timeoutMs: Number(form.timeoutMs) || undefined,
+          responseMapping,
+        }
+      : { confirmationMessage: form.confirmationMessage || undefined }
+
+    setSaving(true)
+    try {
+      const response = await fetch(
+        action ? `/api/agents/${agentId}/actions/${action.id}` : `/api/agents/${agentId}/actions`,
+        {
+          method: action ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(action ? {} : { type: form.type }),
+            name: form.name,
+            description: form.description,
+            parameters,
+            config,
+          })
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        const detail = data.details?.[0]
+        throw new Error(detail ? `${detail.path?.join('.')}: ${detail.message}` : data.error || 'Failed to save action')
+      }
+
+      onSaved(data.action)
+      onOpenChange(false)
+      toast.success(`${action ? 'Updated' : 'Created'} ${data.action.name}`)
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {form.type === 'lead_capture' ? 'Collect Leads' : 'API Request'}
+          </DialogTitle>
+          <DialogDescription>
+            The agent decides when to call this action based on its description.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="action-name">Name</Label>
+            <Input
+              id="action-name"
+              placeholder="get_order_status"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="action-description">When should the agent use it?</Label>
+            <Textarea
+              id="action-description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+
+          {form.type === 'http_request' ? (
+            <>
+              <div className="space-y-2">
+                <Label>Request</Label>
+                <div className="flex gap-2">
+                  <Select value={form.method} onValueChange={(method) => update({ method })}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HTTP_ACTION_METHODS.map(method => (
+                        <SelectItem key={method} value={method}>{method}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="https://api.example.com/orders/{{order_id}}"
+                    value={form.url}
+                    onChange={(e) => update({ url: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Use {'{{name}}'} for arguments and {'{{secrets.NAME}}'} for stored secrets.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="action-headers">Headers (JSON, optional)</Label>
+                <Textarea
+                  id="action-headers"
+                  rows={2}
+                  className="font-mono text-xs"
+                  placeholder='{"Authorization": "Bearer {{secrets.API_KEY}}"}'
+                  value={form.headers}
+                  onChange={(e) => update({ headers: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="action-body">Body template (JSON, optional)</Label>
+                <Textarea
+                  id="action-body"
+                  rows={4}
+                  className="font-mono text-xs"
+                  placeholder='{"orderId": "{{order_id}}", "source": "chat"}'
+                  value={form.bodyTemplate}
+                  onChange={(e) => update({ bodyTemplate: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="action-mapping">Response mapping (JSON, optional)</Label>
+                <Textarea
+                  id="action-mapping"
+                  rows={3}
+                  className="font-mono text-xs"
+                  placeholder='{"status": "$.order.status", "items": "$.order.items[*].name"}'
+                  value={form.responseMapping}
+                  onChange={(e) => update({ responseMapping: e.target.value })}
+                />
+                <p className="text-xs text-gray-500">
+                  Only the mapped fields are sent back to the agent. Leave empty to send the whole response.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="action-timeout">Timeout (ms)</Label>
+                <Input
+                  id="action-timeout"
+                  type="number"
+                  className="w-32"
+                  value={form.timeoutMs}
+                  onChange={(e) => update({ timeoutMs: e.target.value })}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="action-confirmation">Instructions after saving (optional)</Label>
+              <Input
+                id="action-confirmation"
+                placeholder="Thank the user and say the team will reply within a day"
+                value={form.confirmationMessage}
+                onChange={(e) => update({ confirmationMessage: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="action-parameters">Parameters (JSON schema)</Label>
+            <Textarea
+              id="action-parameters"
+              rows={8}
+              className="font-mono text-xs"
+              value={form.parameters}
+              onChange={(e) => update({ parameters: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !form.name || !form.description}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {action ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { KeyRound, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface SecretSummary {
+  name: string
+  updated_at: string | null
+}
+
+/**
+ * Agent secrets for HTTP actions. Values are write-only: once saved they can
+ * be replaced or deleted but never read back.
+ */
+export function ActionSecretsPanel({ agentId }: { agentId: string }) {
+  const [secrets, setSecrets] = useState<SecretSummary[]>([])
+  const [name, setName] = useState('')
+  const [value, setValue] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchSecrets()
+  }, [agentId])
+
+  const fetchSecrets = async () => {
+    const response = await fetch(`/api/agents/${agentId}/action-secrets`)
+    if (response.ok) {
+      const data = await response.json()
+      setSecrets(data.secrets)
+    }
+  }
+
+  const saveSecret = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/action-secrets`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, value })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save secret')
+      }
+
+      toast.success(`Saved ${data.name}`)
+      setName('')
+      setValue('')
+      fetchSecrets()
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteSecret = async (secretName: string) => {
+    const response = await fetch(
+      `/api/agents/${agentId}/action-secrets?name=${encodeURIComponent(secretName)}`,
+      { method: 'DELETE' }
+    )
+    if (!response.ok) {
+      toast.error('Failed to delete secret')
+      return
+    }
+    setSecrets(current => current.filter(secret => secret.name !== secretName))
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound className="h-4 w-4 text-gray-500" />
+        <h3 className="font-medium text-gray-900">Secrets</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Reference these in API request actions as {'{{secrets.NAME}}'}. Values are hidden once saved.
+      </p>
+
+      {secrets.length > 0 && (
+        <div className="divide-y divide-gray-100 mb-4">
+          {secrets.map(secret => (
+            <div key={secret.name} className="flex items-center justify-between py-2">
+              <span className="font-mono text-sm text-gray-900">{secret.name}</span>
+              <button
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => deleteSecret(secret.name)}
+                aria-label={`Delete ${secret.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="API_KEY"
+          className="font-mono w-48"
+          value={name}
+          onChange={(e) => setName(e.target.value.toUpperCase())}
+        />
+        <Input
+          type="password"
+          placeholder="Value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <Button variant="outline" onClick={saveSecret} disabled={saving || !name || !value}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Play } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { AgentAction, HttpActionTrace, ToolCallRecord } from '@/lib/types/actions'
+
+interface ActionTestDialogProps {
+  agentId: string
+  action: AgentAction | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Example arguments built from the action's parameter schema
+function sampleArguments(action: AgentAction): Record<string, any> {
+  const properties = action.parameters?.properties || {}
+  return Object.fromEntries(
+    Object.entries(properties).map(([name, schema]: [string, any]) => [
+      name,
+      schema.type === 'number' || schema.type === 'integer' ? 0 : schema.type === 'boolean' ? false : ''
+    ])
+  )
+}
+
+/**
+ * Test console: runs the action with hand-written arguments and shows the
+ * request that was sent and what the agent would get back
+ */
+export function ActionTestDialog({ agentId, action, onOpenChange }: ActionTestDialogProps) {
+  const [args, setArgs] = useState('{}')
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<ToolCallRecord | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (action) {
+      setArgs(JSON.stringify(sampleArguments(action), null, 2))
+      setResult(null)
+      setError(null)
+    }
+  }, [action])
+
+  const run = async () => {
+    if (!action) return
+
+    let parsed: Record<string, any>
+    try {
+      parsed = JSON.parse(args)
+    } catch {
+      setError('Arguments must be valid JSON')
+      return
+    }
+
+    setRunning(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/actions/${action.id}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ arguments: parsed })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Test run failed')
+      setResult(data.result)
+    } catch (err: any) {
+      setError(err.message)
+      setResult(null)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const trace: HttpActionTrace | undefined = result?.data?.trace
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Test {action?.name}</DialogTitle>
+          <DialogDescription>
+            Runs the action for real with these arguments, as if the agent had called it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="test-arguments">Arguments</Label>
+            <Textarea
+              id="test-arguments"
+              rows={6}
+              className="font-mono text-xs"
+              value={args}
+              onChange={(e) => setArgs(e.target.value)}
+            />
+          </div>
+
+          <Button onClick={run} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Run
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className={result.error ? 'text-red-600 font-medium' : 'text-green-600 font-medium'}>
+                  {result.error ? 'Failed' : 'Succeeded'}
+                </span>
+                <span className="text-gray-500">in {result.durationMs} ms</span>
+              </div>
+
+              {trace && (
+                <div className="space-y-1">
+                  <Label>Request</Label>
+                  <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-x-auto whitespace-pre-wrap break-all">
+                    {`${trace.method} ${trace.url}\n`}
+                    {Object.entries(trace.headers).map(([name, value]) => `${name}: ${value}\n`).join('')}
+                    {trace.body ? `\n${trace.body}` : ''}
+                  </pre>
+                </div>
+              )}
+
+              {trace?.status !== undefined && (
+                <div className="space-y-1">
+                  <Label>Response ({trace.status})</Label>
+                  <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-x-auto whitespace-pre-wrap break-all max-h-48">
+                    {trace.responseBody}
+                  </pre>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Sent to the agent</Label>
+                <pre className="bg-gray-900 text-gray-100 rounded p-3 text-xs overflow-x-auto whitespace-pre-wrap break-all max-h-48">
+                  {result.output}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
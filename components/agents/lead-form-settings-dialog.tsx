@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DEFAULT_LEAD_FORM_SETTINGS,
+  LeadFieldType,
+  LeadFormField,
+  LeadFormSettings,
+  LeadFormTrigger,
+  resolveLeadFormSettings,
+} from '@/lib/types/leads'
+
+const FIELD_TYPES: { value: LeadFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'email', label: 'Email' },
+  { value: 'tel', label: 'Phone' },
+  { value: 'textarea', label: 'Long text' },
+]
+
+const TRIGGERS: { value: LeadFormTrigger; label: string }[] = [
+  { value: 'on_start', label: 'Before the first message' },
+  { value: 'after_messages', label: 'After a number of messages' },
+  { value: 'model', label: 'When the agent decides to ask' },
+]
+
+// name/email/phone/company fill the contact's own columns, anything else is a custom field
+const keyFor = (label: string) => label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40)
+
+interface LeadFormSettingsDialogProps {
+  agentId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function LeadFormSettingsDialog({ agentId, open, onOpenChange }: LeadFormSettingsDialogProps) {
+  const [settings, setSettings] = useState<LeadFormSettings>(DEFAULT_LEAD_FORM_SETTINGS)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) loadSettings()
+  }, [open, agentId])
+
+  const loadSettings = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}`)
+      if (!response.ok) throw new Error('Failed to load agent')
+      const data = await response.json()
+      setSettings(resolveLeadFormSettings(data.agent?.config))
+    } catch (error) {
+      console.error('Error loading lead form:', error)
+      toast.error('Failed to load lead form settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const update = (changes: Partial<LeadFormSettings>) => setSettings({ ...settings, ...changes })
+
+  const updateField = (index: number, changes: Partial<LeadFormField>) => {
+    update({ fields: settings.fields.map((field, i) => i === index ? { ...field, ...changes } : field) })
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/lead-form`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        const detail = data.details?.[0]
+        throw new Error(detail ? `${detail.path?.join('.')}: ${detail.message}` : data.error || 'Failed to save lead form')
+      }
+
+      onOpenChange(false)
+      toast.success(settings.enabled ? 'Lead form enabled' : 'Lead form saved')
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lead Form</DialogTitle>
+          <DialogDescription>
+            Shown in the chat widget; on Messenger and Instagram the agent asks for the same fields.
+            Submissions appear under Contacts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="lead-form-enabled">Enabled</Label>
+              <Switch
+                id="lead-form-enabled"
+                checked={settings.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lead-form-title">Title</Label>
+              <Input
+                id="lead-form-title"
+                value={settings.title}
+                onChange={(e) => update({ title: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lead-form-description">Description (optional)</Label>
+              <Textarea
+                id="lead-form-description"
+                value={settings.description}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              {settings.fields.map((field, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={field.label}
+                    placeholder="Label"
+                    onChange={(e) => updateField(index, { label: e.target.value, key: keyFor(e.target.value) || field.key })}
+                  />
+                  <Select value={field.type} onValueChange={(type) => updateField(index, { type: type as LeadFieldType })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={field.required}
+                      onChange={(e) => updateField(index, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={settings.fields.length === 1}
+                    onClick={() => update({ fields: settings.fields.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({
+                  fields: [...settings.fields, { key: `field_${settings.fields.length + 1}`, label: '', type: 'text', required: false }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add field
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Show the form</Label>
+                <Select value={settings.trigger} onValueChange={(trigger) => update({ trigger: trigger as LeadFormTrigger })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRIGGERS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {settings.trigger === 'after_messages' && (
+                <div className="space-y-2">
+                  <Label htmlFor="lead-form-after">Visitor messages</Label>
+                  <Input
+                    id="lead-form-after"
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={settings.afterMessages}
+                    onChange={(e) => update({ afterMessages: Number(e.target.value) || 1 })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lead-form-submit">Button label</Label>
+                <Input
+                  id="lead-form-submit"
+                  value={settings.submitLabel}
+                  onChange={(e) => update({ submitLabel: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lead-form-success">Thank-you message</Label>
+                <Input
+                  id="lead-form-success"
+                  value={settings.successMessage}
+                  onChange={(e) => update({ successMessage: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || loading}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
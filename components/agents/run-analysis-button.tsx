@@ -0,0 +1,52 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+
+interface RunAnalysisButtonProps {
+  agentId: string
+  onComplete?: () => void
+}
+
+/**
+ * Starts a conversation analysis run instead of waiting for the scheduled one
+ */
+export function RunAnalysisButton({ agentId, onComplete }: RunAnalysisButtonProps) {
+  const [running, setRunning] = useState(false)
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/analytics/analyze`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start analysis')
+      }
+
+      if (data.queued) {
+        toast.success('Analysis started, results will appear in a few minutes')
+      } else {
+        toast.success(`Analyzed ${data.stats.conversations} conversations`)
+        onComplete?.()
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start analysis')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" onClick={handleRun} disabled={running}>
+      {running ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <RefreshCw className="h-4 w-4 mr-2" />
+      )}
+      Run analysis
+    </Button>
+  )
+}
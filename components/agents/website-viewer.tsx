@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
 import { ArrowLeft, Globe, CheckCircle, AlertCircle, Loader2, MoreHorizontal, Trash2, RefreshCw } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
@@ -10,7 +11,15 @@ import {
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
 import { Button } from '@/components/ui/button'
+import { toast } from '@/components/ui/use-toast'
 import { formatDistanceToNow } from 'date-fns'
+import { Input } from '@/components/ui/input'
+import { RecrawlFrequency, resolveCrawlRules, resolveRecrawlSchedule } from '@/lib/types/crawler'
+import type { AgentActivity } from '@/lib/types/activity'
+import { CrawlRulesFields, fromCrawlRulesForm, toCrawlRulesForm } from '@/features/website-sources/components/CrawlRulesFields'
+import { WebsitePagesPanel } from '@/features/website-sources/components/WebsitePagesPanel'
+import { ActivityFeed } from '@/features/collaboration/components/ActivityFeed'
+import type { Activity } from '@/features/collaboration/types'
 
 interface SubLink {
   url: string
@@ -38,9 +47,118 @@ interface WebsiteViewerProps {
   onBack: () => void
 }
 
+// Change reports list every URL; the feed shows their counts
+function toFeedActivity(activity: AgentActivity): Activity {
+  const { added, removed, modified } = activity.metadata || {}
+
+  return {
+    id: activity.id,
+    type: activity.type,
+    userId: 'system',
+    userName: 'System',
+    agentId: activity.agent_id,
+    targetId: activity.source_id || undefined,
+    targetType: 'source',
+    description: activity.description,
+    metadata: Array.isArray(added)
+      ? { added: added.length, removed: removed?.length || 0, modified: modified?.length || 0 }
+      : undefined,
+    timestamp: new Date(activity.created_at)
+  }
+}
+
 export function WebsiteViewer({ website, subLink, onBack }: WebsiteViewerProps) {
+  const params = useParams()
   const [content, setContent] = useState<string>('')
   const [isLoadingContent, setIsLoadingContent] = useState(true)
+  const [crawlRules, setCrawlRules] = useState(() => toCrawlRulesForm(resolveCrawlRules(website.metadata?.crawl_rules)))
+  const [fullPageContent, setFullPageContent] = useState(website.metadata?.full_page_content === true)
+  const [isSavingRules, setIsSavingRules] = useState(false)
+  const [recrawlSchedule, setRecrawlSchedule] = useState(() => resolveRecrawlSchedule(website.metadata?.recrawl_schedule))
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false)
+  const [activities, setActivities] = useState<Activity[]>([])
+
+  const saveCrawlRules = async () => {
+    setIsSavingRules(true)
+    try {
+      const agentId = website.agent_id || window.location.pathname.split('/')[3]
+      const response = await fetch(`/api/agents/${agentId}/sources/website/${website.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ crawlRules: fromCrawlRulesForm(crawlRules), fullPageContent }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save crawl rules')
+      }
+
+      setCrawlRules(toCrawlRulesForm(resolveCrawlRules(data.source?.metadata?.crawl_rules)))
+      setFullPageContent(data.source?.metadata?.full_page_content === true)
+      toast({
+        title: 'Crawl rules saved',
+        description: 'They apply from the next re-crawl.',
+      })
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save crawl rules',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSavingRules(false)
+    }
+  }
+
+  const saveRecrawlSchedule = async () => {
+    setIsSavingSchedule(true)
+    try {
+      const agentId = website.agent_id || window.location.pathname.split('/')[3]
+      const response = await fetch(`/api/agents/${agentId}/sources/website/${website.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recrawlSchedule }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save schedule')
+      }
+
+      const saved = resolveRecrawlSchedule(data.source?.metadata?.recrawl_schedule)
+      setRecrawlSchedule(saved)
+      toast({
+        title: saved.frequency === 'off' ? 'Automatic re-crawl turned off' : 'Re-crawl schedule saved',
+        description: saved.frequency === 'off' ? undefined : 'Only changed pages are re-processed on each run.',
+      })
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save schedule',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSavingSchedule(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!website.id) return
+
+    const fetchActivity = async () => {
+      try {
+        const agentId = website.agent_id || window.location.pathname.split('/')[3]
+        const response = await fetch(`/api/agents/${agentId}/activity?sourceId=${website.id}&limit=10`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setActivities((data.activities || []).map(toFeedActivity))
+        }
+      } catch (error) {
+        console.error('Error fetching activity:', error)
+      }
+    }
+
+    fetchActivity()
+  }, [website.id, website.agent_id])
 
   useEffect(() => {
     // Check if this is a discovered-only link (not crawled)
@@ -206,6 +324,14 @@ export function WebsiteViewer({ website, subLink, onBack }: WebsiteViewerProps)
 
         {/* Document Content */}
         <div className="flex-1 overflow-y-auto bg-gray-50 p-8">
+          {!subLink && website.id && (
+            <div className="mb-6">
+              <WebsitePagesPanel
+                agentId={website.agent_id || (params.id as string)}
+                sourceId={website.id}
+              />
+            </div>
+          )}
           <div className="w-full">
             {isLoadingContent ? (
               <div className="bg-white rounded-lg border border-gray-200 p-8">
@@ -267,7 +393,7 @@ export function WebsiteViewer({ website, subLink, onBack }: WebsiteViewerProps)
       </div>
 
       {/* Details Sidebar */}
-      <div className="w-80 border-l bg-gray-50 flex flex-col px-6 py-6 space-y-6">
+      <div className="w-80 border-l bg-gray-50 flex flex-col px-6 py-6 space-y-6 overflow-y-auto">
         <div>
           <h3 className="text-sm font-semibold text-gray-900">Details</h3>
         </div>
@@ -307,6 +433,79 @@ export function WebsiteViewer({ website, subLink, onBack }: WebsiteViewerProps)
             </div>
           )}
         </div>
+
+        <div className="border-t pt-6 space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Crawl rules</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Which links are followed and what is kept of each page. Changes apply from the next re-crawl.
+            </p>
+          </div>
+          <CrawlRulesFields value={crawlRules} onChange={setCrawlRules} />
+          <div>
+            <label className="text-sm font-medium text-gray-700">Page content</label>
+            <select
+              value={fullPageContent ? 'full' : 'main'}
+              onChange={(e) => setFullPageContent(e.target.value === 'full')}
+              className="mt-1 w-full h-10 px-3 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="main">Main content</option>
+              <option value="full">Full page</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Main content drops navigation, cookie banners, footers and text repeated on every page.
+            </p>
+          </div>
+          <Button onClick={saveCrawlRules} disabled={isSavingRules} size="sm" className="w-full">
+            {isSavingRules && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save rules
+          </Button>
+        </div>
+
+        <div className="border-t pt-6 space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Automatic re-crawl</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Unchanged pages are skipped; changed pages are re-processed and re-trained.
+            </p>
+          </div>
+          <select
+            value={recrawlSchedule.frequency}
+            onChange={(e) => setRecrawlSchedule({ ...recrawlSchedule, frequency: e.target.value as RecrawlFrequency })}
+            className="w-full h-10 px-3 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="off">Off</option>
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="cron">Custom (cron)</option>
+          </select>
+          {recrawlSchedule.frequency === 'cron' && (
+            <div>
+              <Input
+                placeholder="0 3 * * 1"
+                value={recrawlSchedule.cron || ''}
+                onChange={(e) => setRecrawlSchedule({ ...recrawlSchedule, cron: e.target.value })}
+              />
+              <p className="text-xs text-gray-500 mt-1">Minute, hour, day of month, month, day of week (UTC).</p>
+            </div>
+          )}
+          {website.metadata?.last_recrawl_at && (
+            <p className="text-xs text-gray-500">
+              Last run {formatDistanceToNow(new Date(website.metadata.last_recrawl_at), { addSuffix: true })}
+            </p>
+          )}
+          <Button onClick={saveRecrawlSchedule} disabled={isSavingSchedule} size="sm" className="w-full">
+            {isSavingSchedule && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save schedule
+          </Button>
+        </div>
+
+        {activities.length > 0 && (
+          <div className="border-t pt-6 space-y-4">
+            <h3 className="text-sm font-semibold text-gray-900">Recent changes</h3>
+            <ActivityFeed activities={activities} maxHeight="320px" />
+          </div>
+        )}
       </div>
     </div>
   )
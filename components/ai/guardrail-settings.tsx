@@ -0,0 +1,244 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  GuardrailAction,
+  GuardrailCheck,
+  GuardrailPattern,
+  GuardrailPolicy,
+  guardrailPatternProblem,
+  PII_TYPES,
+  PiiType
+} from '@/lib/types/guardrails'
+import { AIModel } from '@/hooks/use-ai-models'
+
+interface GuardrailSettingsFormProps {
+  value: GuardrailPolicy
+  onChange: (value: GuardrailPolicy) => void
+  models: AIModel[]
+  className?: string
+}
+
+const PII_LABELS: Record<PiiType, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Card numbers'
+}
+
+const NEW_PATTERN: GuardrailPattern = { name: '', pattern: '' }
+
+type DetectorKey = 'blockedTopics' | 'patterns' | 'pii' | 'moderation'
+
+export function GuardrailSettingsForm({
+  value,
+  onChange,
+  models,
+  className = ''
+}: GuardrailSettingsFormProps) {
+  const update = (changes: Partial<GuardrailPolicy>) => onChange({ ...value, ...changes })
+
+  const updateDetector = <K extends DetectorKey>(key: K, changes: Partial<GuardrailPolicy[K]>) =>
+    update({ [key]: { ...value[key], ...changes } } as Partial<GuardrailPolicy>)
+
+  const updatePattern = (index: number, changes: Partial<GuardrailPattern>) =>
+    updateDetector('patterns', {
+      rules: value.patterns.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    })
+
+  // Where a detector runs and what happens when it fires
+  const checkControls = (key: DetectorKey, masks = true) => {
+    const check: GuardrailCheck = value[key]
+    return (
+      <div className="grid grid-cols-3 gap-3 items-center">
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <Switch checked={check.input} onCheckedChange={(input) => updateDetector(key, { input })} />
+          Visitor messages
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <Switch checked={check.output} onCheckedChange={(output) => updateDetector(key, { output })} />
+          Replies
+        </label>
+        <Select
+          value={check.action}
+          onValueChange={(action) => updateDetector(key, { action: action as GuardrailAction })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="block">Block</SelectItem>
+            {masks && <SelectItem value="redact">Redact</SelectItem>}
+            {masks && <SelectItem value="rewrite">Rewrite reply</SelectItem>}
+            <SelectItem value="handoff">Hand off to a person</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Guardrails</Label>
+          <p className="text-xs text-gray-500 mt-1">
+            Check visitor messages before they reach the model and replies before they reach the visitor.
+          </p>
+        </div>
+        <Switch checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Blocked topics</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                One word or phrase per line, matched as whole words regardless of case.
+              </p>
+            </div>
+            <Textarea
+              value={value.blockedTopics.topics.join('\n')}
+              onChange={(e) => updateDetector('blockedTopics', { topics: e.target.value.split('\n') })}
+              placeholder={'competitor pricing\nmedical advice'}
+              rows={4}
+            />
+            {checkControls('blockedTopics')}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Custom patterns</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                Regular expressions for anything else to catch, such as internal ticket or account numbers.
+              </p>
+            </div>
+            {value.patterns.rules.map((rule, index) => {
+              const problem = rule.pattern ? guardrailPatternProblem(rule.pattern) : null
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+                    <Input
+                      value={rule.name}
+                      onChange={(e) => updatePattern(index, { name: e.target.value })}
+                      placeholder="Name"
+                    />
+                    <Input
+                      value={rule.pattern}
+                      onChange={(e) => updatePattern(index, { pattern: e.target.value })}
+                      placeholder="ACC-\d{6}"
+                      className={`font-mono ${problem ? 'border-red-500' : ''}`}
+                    />
+                    <button
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => updateDetector('patterns', { rules: value.patterns.rules.filter((_, i) => i !== index) })}
+                      aria-label={`Remove pattern ${rule.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {problem && <p className="text-xs text-red-600">{problem}</p>}
+                </div>
+              )
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateDetector('patterns', { rules: [...value.patterns.rules, NEW_PATTERN] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add pattern
+            </Button>
+            {checkControls('patterns')}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Personal data</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                Card numbers must pass the Luhn check; phone numbers need 9 to 15 digits.
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {PII_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 text-xs text-gray-600">
+                  <Switch
+                    checked={value.pii.types.includes(type)}
+                    onCheckedChange={(checked) => updateDetector('pii', {
+                      types: checked
+                        ? [...value.pii.types, type]
+                        : value.pii.types.filter(existing => existing !== type)
+                    })}
+                  />
+                  {PII_LABELS[type]}
+                </label>
+              ))}
+            </div>
+            {checkControls('pii')}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Model moderation</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                A model flags hateful, harassing, sexual, violent, self-harm or illegal content. Adds a model call per check.
+              </p>
+            </div>
+            {checkControls('moderation', false)}
+            {(value.moderation.input || value.moderation.output) && (
+              <div>
+                <Label className="text-xs text-gray-600">Moderation model</Label>
+                <Select
+                  value={value.moderation.model || 'agent'}
+                  onValueChange={(model) => updateDetector('moderation', { model: model === 'agent' ? undefined : model })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="agent">Same as agent model</SelectItem>
+                    {models.map(model => (
+                      <SelectItem key={model.id} value={model.name}>
+                        {model.display_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Also writes replies set to &quot;Rewrite reply&quot;.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Block message</Label>
+            <Textarea
+              value={value.blockMessage}
+              onChange={(e) => update({ blockMessage: e.target.value })}
+              rows={2}
+              className="mt-2"
+            />
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Handoff message</Label>
+            <Textarea
+              value={value.handoffMessage}
+              onChange={(e) => update({ handoffMessage: e.target.value })}
+              rows={2}
+              className="mt-2"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Sent when a check hands the conversation to your team; the conversation is flagged for follow-up.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
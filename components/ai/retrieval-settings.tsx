@@ -0,0 +1,166 @@
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RetrievalSettings, RetrievalMode, RerankerName } from '@/lib/types/retrieval'
+import { AIModel } from '@/hooks/use-ai-models'
+
+interface RetrievalSettingsFormProps {
+  value: RetrievalSettings
+  onChange: (value: RetrievalSettings) => void
+  models: AIModel[]
+  className?: string
+}
+
+export function RetrievalSettingsForm({
+  value,
+  onChange,
+  models,
+  className = ''
+}: RetrievalSettingsFormProps) {
+  const update = (changes: Partial<RetrievalSettings>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className={`space-y-5 ${className}`}>
+      <div>
+        <Label className="text-sm font-medium text-gray-700">Search mode</Label>
+        <Select value={value.mode} onValueChange={(mode) => update({ mode: mode as RetrievalMode })}>
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hybrid">Hybrid (semantic + keyword)</SelectItem>
+            <SelectItem value="vector">Semantic only</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">
+          Hybrid search also matches exact terms such as product SKUs, error codes and names.
+        </p>
+      </div>
+
+      {value.mode === 'hybrid' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label className="text-sm font-medium text-gray-700">Keyword weight</Label>
+            <span className="text-sm font-medium text-gray-900">{value.keywordWeight.toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={value.keywordWeight}
+            onChange={(e) => update({ keywordWeight: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+          <div className="flex justify-between mt-1">
+            <span className="text-xs text-gray-500">Favor meaning</span>
+            <span className="text-xs text-gray-500">Favor exact terms</span>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label className="text-sm font-medium text-gray-700">Reranking</Label>
+        <Select value={value.reranker} onValueChange={(reranker) => update({ reranker: reranker as RerankerName })}>
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Off</SelectItem>
+            <SelectItem value="llm">AI reranker</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">
+          The AI reranker re-scores retrieved passages with a model. More accurate, but adds latency and cost.
+        </p>
+      </div>
+
+      {value.reranker === 'llm' && (
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Reranker model</Label>
+          <Select
+            value={value.rerankerModel || 'agent'}
+            onValueChange={(model) => update({ rerankerModel: model === 'agent' ? undefined : model })}
+          >
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="agent">Same as agent model</SelectItem>
+              {models.map(model => (
+                <SelectItem key={model.id} value={model.name}>
+                  {model.display_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Rewrite follow-up questions</Label>
+          <p className="text-xs text-gray-500 mt-1">
+            Turn follow-ups like &quot;how much is it?&quot; into a standalone search using the conversation.
+          </p>
+        </div>
+        <Switch checked={value.queryRewrite} onCheckedChange={(queryRewrite) => update({ queryRewrite })} />
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium text-gray-700">Extra search queries</Label>
+        <Select
+          value={String(value.multiQueryCount)}
+          onValueChange={(count) => update({ multiQueryCount: parseInt(count, 10) })}
+        >
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">Off</SelectItem>
+            <SelectItem value="2">2 paraphrases</SelectItem>
+            <SelectItem value="3">3 paraphrases</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">
+          Also search with differently worded versions of the question and merge the results.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Hypothetical answer search</Label>
+          <p className="text-xs text-gray-500 mt-1">
+            Also search with a draft answer written by the model (HyDE). Helps when questions are worded unlike the docs.
+          </p>
+        </div>
+        <Switch checked={value.hyde} onCheckedChange={(hyde) => update({ hyde })} />
+      </div>
+
+      {(value.queryRewrite || value.multiQueryCount > 0 || value.hyde) && (
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Query model</Label>
+          <Select
+            value={value.queryModel || 'agent'}
+            onValueChange={(model) => update({ queryModel: model === 'agent' ? undefined : model })}
+          >
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="agent">Same as agent model</SelectItem>
+              {models.map(model => (
+                <SelectItem key={model.id} value={model.name}>
+                  {model.display_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 mt-1">
+            Writing the queries adds a model call before each answer; a small, fast model keeps latency down.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
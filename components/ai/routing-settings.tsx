@@ -0,0 +1,188 @@
+import { Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RoutingConditions, RoutingPolicy, RoutingRule } from '@/lib/types/routing'
+import { AIModel } from '@/hooks/use-ai-models'
+
+interface RoutingSettingsFormProps {
+  value: RoutingPolicy
+  onChange: (value: RoutingPolicy) => void
+  models: AIModel[]
+  className?: string
+}
+
+const NEW_RULE: RoutingRule = { name: 'Small talk', when: { smallTalk: true }, model: '' }
+
+export function RoutingSettingsForm({
+  value,
+  onChange,
+  models,
+  className = ''
+}: RoutingSettingsFormProps) {
+  const update = (changes: Partial<RoutingPolicy>) => onChange({ ...value, ...changes })
+
+  const updateRule = (index: number, changes: Partial<RoutingRule>) =>
+    update({ rules: value.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) })
+
+  const updateConditions = (index: number, changes: Partial<RoutingConditions>) =>
+    updateRule(index, { when: { ...value.rules[index].when, ...changes } })
+
+  // Empty inputs clear the condition
+  const numberOrUndefined = (input: string) => input === '' ? undefined : Number(input)
+
+  const modelSelect = (model: string, onSelect: (model: string) => void, placeholder: string) => (
+    <Select value={model || undefined} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {models.map(option => (
+          <SelectItem key={option.id} value={option.name}>
+            {option.display_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className={`space-y-5 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Routing rules</Label>
+          <p className="text-xs text-gray-500 mt-1">
+            Answer simple messages with a cheaper model and escalate hard ones. Without rules every message uses the agent model.
+          </p>
+        </div>
+        <Switch checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="space-y-3">
+            {value.rules.map((rule, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                    placeholder="Rule name"
+                  />
+                  {modelSelect(rule.model, (model) => updateRule(index, { model }), 'Use model')}
+                  <button
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => update({ rules: value.rules.filter((_, i) => i !== index) })}
+                    aria-label={`Remove rule ${rule.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    <Switch
+                      checked={!!rule.when.smallTalk}
+                      onCheckedChange={(smallTalk) => updateConditions(index, { smallTalk: smallTalk || undefined })}
+                    />
+                    Greetings and small talk
+                  </label>
+                  <div>
+                    <Label className="text-xs text-gray-600">Message up to (characters)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rule.when.maxMessageChars ?? ''}
+                      onChange={(e) => updateConditions(index, { maxMessageChars: numberOrUndefined(e.target.value) })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs text-gray-600">Best retrieval score below (0-1)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={rule.when.maxRetrievalScore ?? ''}
+                      onChange={(e) => updateConditions(index, { maxRetrievalScore: numberOrUndefined(e.target.value) })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs text-gray-600">Conversation has at least (messages)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rule.when.minConversationMessages ?? ''}
+                      onChange={(e) => updateConditions(index, { minConversationMessages: numberOrUndefined(e.target.value) })}
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={() => update({ rules: [...value.rules, NEW_RULE] })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add rule
+            </Button>
+            <p className="text-xs text-gray-500">
+              Rules are checked in order and the first match wins. Every condition set on a rule has to hold.
+            </p>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Fallback chain</Label>
+            <p className="text-xs text-gray-500 mt-1 mb-2">
+              Tried in order when the chosen model fails or its provider is down.
+            </p>
+            <div className="space-y-2">
+              {value.fallbackChain.map((model, index) => (
+                <div key={index} className="grid grid-cols-[1fr_auto] gap-2 items-center">
+                  {modelSelect(
+                    model,
+                    (selected) => update({
+                      fallbackChain: value.fallbackChain.map((m, i) => i === index ? selected : m)
+                    }),
+                    'Fallback model'
+                  )}
+                  <button
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => update({ fallbackChain: value.fallbackChain.filter((_, i) => i !== index) })}
+                    aria-label="Remove fallback model"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ fallbackChain: [...value.fallbackChain, ''] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add fallback
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Catalog fallbacks</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                After the chain, try the platform&apos;s fallback model for each other provider.
+              </p>
+            </div>
+            <Switch
+              checked={value.useCatalogFallbacks}
+              onCheckedChange={(useCatalogFallbacks) => update({ useCatalogFallbacks })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,12 +3,18 @@
 import { useState, useRef, useEffect } from 'react'
 import { Send, X, MessageCircle, RefreshCw, Minimize2 } from 'lucide-react'
 import { toast } from 'sonner'
+import { isEventStream, readSSEStream } from '@/lib/utils/sse'
+import LeadForm, { fetchLeadForm } from '@/components/chat/LeadForm'
+import Citations from '@/components/chat/Citations'
+import type { LeadFormSettings } from '@/lib/types/leads'
+import type { Citation } from '@/lib/types/citations'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: Citation[]
 }
 
 interface ChatWidgetProps {
@@ -38,18 +44,45 @@ export default function ChatWidget({
   ])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [leadForm, setLeadForm] = useState<LeadFormSettings | null>(null)
+  const [showLeadForm, setShowLeadForm] = useState(false)
+  // Submitted or dismissed; don't offer the form again this session
+  const [leadFormDone, setLeadFormDone] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // One conversation per widget session, so history and lead details stay linked
+  const sessionIdRef = useRef(`widget_${agentId}_${Date.now()}`)
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [messages, showLeadForm])
+
+  useEffect(() => {
+    fetchLeadForm(agentId).then(settings => {
+      setLeadForm(settings)
+      setShowLeadForm(settings?.trigger === 'on_start')
+    })
+  }, [agentId])
+
+  // An on_start form has to be filled in before chatting
+  const leadFormBlocking = showLeadForm && leadForm?.trigger === 'on_start'
+
+  const handleLeadSubmitted = (message: string) => {
+    setShowLeadForm(false)
+    setLeadFormDone(true)
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: message,
+      timestamp: new Date()
+    }])
+  }
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return
+    if (!input.trim() || isLoading || leadFormBlocking) return
 
     const messageText = input.trim()
     const userMessage: Message = {
@@ -71,24 +104,39 @@ export default function ChatWidget({
         },
         body: JSON.stringify({
           message: messageText,
-          sessionId: `widget_${agentId}_${Date.now()}`
+          sessionId: sessionIdRef.current,
+          stream: true
         })
       })
 
-      const data = await response.json()
-
-      if (!response.ok) {
+      if (!response.ok || !isEventStream(response)) {
+        const data = await response.json()
         throw new Error(data.error || 'Failed to get response')
       }
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date()
+      const assistantId = (Date.now() + 1).toString()
+      const updateAssistant = (content: string, citations?: Citation[]) => {
+        setMessages(prev => {
+          if (prev.some(m => m.id === assistantId)) {
+            return prev.map(m => m.id === assistantId ? { ...m, content, citations } : m)
+          }
+          return [...prev, { id: assistantId, role: 'assistant', content, timestamp: new Date(), citations }]
+        })
       }
 
-      setMessages(prev => [...prev, assistantMessage])
+      let streamedText = ''
+      await readSSEStream(response, (event, data) => {
+        if (event === 'token') {
+          streamedText += data.content
+          updateAssistant(streamedText)
+          setIsLoading(false)
+        } else if (event === 'done') {
+          updateAssistant(data.response, data.citations)
+          if (data.showLeadForm && !leadFormDone) setShowLeadForm(true)
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Failed to get response')
+        }
+      })
     } catch (error) {
       console.error('Error:', error)
       toast.error(error instanceof Error ? error.message : 'Failed to get response')
@@ -160,6 +208,9 @@ export default function ChatWidget({
                       content: welcomeMessage,
                       timestamp: new Date()
                     }])
+                    sessionIdRef.current = `widget_${agentId}_${Date.now()}`
+                    setLeadFormDone(false)
+                    setShowLeadForm(leadForm?.trigger === 'on_start')
                   }}
                   className="p-1.5 hover:bg-white/20 rounded transition-colors"
                 >
@@ -193,6 +244,9 @@ export default function ChatWidget({
                           } shadow-sm`}
                         >
                           {message.content}
+                          {message.citations && (
+                            <Citations citations={message.citations} className="border-t border-gray-100 pt-2" />
+                          )}
                         </div>
                         <p className={`text-xs text-gray-400 mt-1 px-1 ${
                           message.role === 'user' ? 'text-right' : ''
@@ -206,6 +260,19 @@ export default function ChatWidget({
                     </div>
                   ))}
 
+                  {showLeadForm && leadForm && (
+                    <LeadForm
+                      agentId={agentId}
+                      sessionId={sessionIdRef.current}
+                      settings={leadForm}
+                      onSubmitted={handleLeadSubmitted}
+                      onDismiss={() => {
+                        setShowLeadForm(false)
+                        setLeadFormDone(true)
+                      }}
+                    />
+                  )}
+
                   {/* Typing Indicator */}
                   {isLoading && (
                     <div className="flex justify-start animate-fadeIn">
@@ -232,11 +299,11 @@ export default function ChatWidget({
                       onKeyPress={(e) => e.key === 'Enter' && handleSend()}
                       placeholder="Type your message..."
                       className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-full focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-100"
-                      disabled={isLoading}
+                      disabled={isLoading || leadFormBlocking}
                     />
                     <button
                       onClick={handleSend}
-                      disabled={!input.trim() || isLoading}
+                      disabled={!input.trim() || isLoading || leadFormBlocking}
                       className={`p-2 rounded-full transition-all ${
                         input.trim() && !isLoading
                           ? 'bg-gradient-to-r from-blue-600 to-blue-500 text-white hover:shadow-md'
@@ -0,0 +1,49 @@
+'use client'
+
+import { ExternalLink, FileText } from 'lucide-react'
+import type { Citation } from '@/lib/types/citations'
+
+interface CitationsProps {
+  citations: Citation[]
+  className?: string
+}
+
+/**
+ * Footnotes for the [n] markers in an assistant reply
+ */
+export default function Citations({ citations, className = '' }: CitationsProps) {
+  if (citations.length === 0) return null
+
+  return (
+    <ol className={`mt-2 space-y-1.5 text-xs ${className}`}>
+      {citations.map(citation => {
+        const label = citation.page ? `${citation.sourceName}, p. ${citation.page}` : citation.sourceName
+
+        return (
+          <li key={citation.index} className="flex gap-1.5" title={citation.snippet}>
+            <span className="text-gray-400 flex-shrink-0">[{citation.index}]</span>
+            <div className="min-w-0">
+              {citation.url ? (
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-blue-600 hover:underline max-w-full"
+                >
+                  <span className="truncate">{label}</span>
+                  <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                </a>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-gray-700 max-w-full">
+                  <FileText className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{label}</span>
+                </span>
+              )}
+              <p className="text-gray-500 line-clamp-2">{citation.snippet}</p>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { ImagePlus, X } from 'lucide-react'
+import { CHAT_IMAGE_TYPES, MAX_CHAT_IMAGES } from '@/lib/types/chat-images'
+
+/**
+ * Upload picked images before sending; returns the URLs for the chat request
+ */
+export async function uploadChatImages(agentId: string, files: File[]): Promise<string[]> {
+  if (files.length === 0) return []
+
+  const formData = new FormData()
+  files.forEach(file => formData.append('images', file))
+
+  const response = await fetch(`/api/agents/${agentId}/chat/images`, {
+    method: 'POST',
+    body: formData
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to upload images')
+  }
+
+  return (data.images || []).map((image: { url: string }) => image.url)
+}
+
+interface AttachImageButtonProps {
+  files: File[]
+  onChange: (files: File[]) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Paperclip-style button that adds images to the next message
+ */
+export function AttachImageButton({ files, onChange, disabled, className = '' }: AttachImageButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const full = files.length >= MAX_CHAT_IMAGES
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={CHAT_IMAGE_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const picked = Array.from(e.target.files || []).filter(file => CHAT_IMAGE_TYPES.includes(file.type))
+          onChange([...files, ...picked].slice(0, MAX_CHAT_IMAGES))
+          e.target.value = ''
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || full}
+        title={full ? `Up to ${MAX_CHAT_IMAGES} images per message` : 'Attach images'}
+        className={`p-2 text-gray-500 hover:text-gray-900 rounded-lg transition-colors disabled:text-gray-300 disabled:cursor-not-allowed ${className}`}
+      >
+        <ImagePlus className="h-5 w-5" />
+      </button>
+    </>
+  )
+}
+
+interface AttachmentPreviewsProps {
+  files: File[]
+  onRemove: (index: number) => void
+}
+
+/**
+ * Thumbnails of the images waiting to be sent
+ */
+export function AttachmentPreviews({ files, onRemove }: AttachmentPreviewsProps) {
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files])
+
+  useEffect(() => {
+    return () => previews.forEach(url => URL.revokeObjectURL(url))
+  }, [previews])
+
+  if (files.length === 0) return null
+
+  return (
+    <div className="flex gap-2 mb-2">
+      {previews.map((url, index) => (
+        <div key={url} className="relative">
+          <img src={url} alt={files[index].name} className="h-14 w-14 object-cover rounded-lg border border-gray-200" />
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="absolute -top-1.5 -right-1.5 bg-black text-white rounded-full p-0.5"
+            title="Remove"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
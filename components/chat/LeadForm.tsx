@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import type { LeadFormSettings } from '@/lib/types/leads'
+
+/**
+ * The agent's lead form, or null when it is disabled
+ */
+export async function fetchLeadForm(agentId: string): Promise<LeadFormSettings | null> {
+  try {
+    const response = await fetch(`/api/agents/${agentId}/lead-form`)
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.leadForm || null
+  } catch (error) {
+    console.error('Error loading lead form:', error)
+    return null
+  }
+}
+
+interface LeadFormProps {
+  agentId: string
+  sessionId: string
+  settings: LeadFormSettings
+  // Called with the thank-you message once the details are saved
+  onSubmitted: (message: string) => void
+  onDismiss?: () => void
+}
+
+/**
+ * Lead form rendered inside the chat, used by ChatWidget and the embeddable widget page
+ */
+export default function LeadForm({ agentId, sessionId, settings, onSubmitted, onDismiss }: LeadFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/agents/${agentId}/lead-form`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, values })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to submit, please try again')
+        return
+      }
+
+      onSubmitted(data.message || settings.successMessage)
+    } catch {
+      setError('Failed to submit, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-2xl p-4 shadow-sm space-y-3">
+      <div>
+        <h4 className="font-semibold text-sm text-gray-900">{settings.title}</h4>
+        {settings.description && (
+          <p className="text-xs text-gray-500 mt-1">{settings.description}</p>
+        )}
+      </div>
+
+      {settings.fields.map((field) => {
+        const inputProps = {
+          id: `lead-${field.key}`,
+          value: values[field.key] || '',
+          required: field.required,
+          placeholder: field.label + (field.required ? ' *' : ''),
+          className: 'w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-100',
+        }
+
+        return field.type === 'textarea' ? (
+          <textarea
+            key={field.key}
+            {...inputProps}
+            rows={3}
+            onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+          />
+        ) : (
+          <input
+            key={field.key}
+            {...inputProps}
+            type={field.type}
+            onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+          />
+        )
+      })}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-lg hover:shadow-md disabled:opacity-50"
+        >
+          {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {settings.submitLabel}
+        </button>
+        {onDismiss && settings.trigger !== 'on_start' && (
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            Not now
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
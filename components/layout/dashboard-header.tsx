@@ -2,7 +2,7 @@
 
 import Link from 'next/link'
 import { usePathname, useParams, useRouter } from 'next/navigation'
-import { Bot, ChevronRight, User, Settings, LogOut, Shield, Database, LayoutDashboard, FileText } from 'lucide-react'
+import { Bot, ChevronRight, User, Settings, LogOut, Shield, Database, LayoutDashboard, FileText, Server, ShieldCheck } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { isAdminEmailClient } from '@/lib/utils/admin-access'
@@ -184,6 +184,16 @@ export function DashboardHeader({ projectName, agentName }: DashboardHeaderProps
                   <Database className="mr-2 h-4 w-4 text-red-600" />
                   <span className="text-red-600">Manage Models</span>
                 </DropdownMenuItem>
+
+                <DropdownMenuItem onClick={() => router.push('/admin/providers')}>
+                  <Server className="mr-2 h-4 w-4 text-red-600" />
+                  <span className="text-red-600">Providers</span>
+                </DropdownMenuItem>
+
+                <DropdownMenuItem onClick={() => router.push('/admin/guardrails')}>
+                  <ShieldCheck className="mr-2 h-4 w-4 text-red-600" />
+                  <span className="text-red-600">Guardrails</span>
+                </DropdownMenuItem>
               </>
             )}
 
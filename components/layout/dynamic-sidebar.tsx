@@ -31,6 +31,7 @@ import {
   Puzzle,
   Brain,
   Palette,
+  SearchX,
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
@@ -145,6 +146,7 @@ export function DynamicSidebar() {
     { name: 'Chats', href: `/dashboard/agents/${agentId}/analytics/chats`, icon: LineChart },
     { name: 'Topics', href: `/dashboard/agents/${agentId}/analytics/topics`, icon: Hash },
     { name: 'Sentiment', href: `/dashboard/agents/${agentId}/analytics/sentiment`, icon: Heart },
+    { name: 'Knowledge gaps', href: `/dashboard/agents/${agentId}/analytics/knowledge-gaps`, icon: SearchX },
   ]
 
   // Sources subsections with counts
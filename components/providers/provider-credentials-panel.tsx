@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AlertCircle, CheckCircle, KeyRound, Loader2, Trash2, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface CredentialSummary {
+  provider: string
+  key_hint: string | null
+  status: 'valid' | 'invalid'
+  last_validated_at: string | null
+  last_error: string | null
+}
+
+interface KeyedProvider {
+  name: string
+  display_name: string
+}
+
+/**
+ * The project's own provider API keys. Keys are checked with the provider
+ * before they're saved and can be replaced or removed but never read back.
+ */
+export function ProviderCredentialsPanel({ projectId }: { projectId: string }) {
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([])
+  const [providers, setProviders] = useState<KeyedProvider[]>([])
+  const [platformFallback, setPlatformFallback] = useState(false)
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true)
+  const [provider, setProvider] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchCredentials()
+  }, [projectId])
+
+  const fetchCredentials = async () => {
+    const response = await fetch(`/api/projects/${projectId}/credentials`)
+    if (response.ok) {
+      const data = await response.json()
+      setCredentials(data.credentials)
+      setProviders(data.providers)
+      setPlatformFallback(data.platformFallback)
+      setEncryptionConfigured(data.encryptionConfigured)
+      setProvider(current => current || data.providers[0]?.name || '')
+    }
+  }
+
+  const saveCredential = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/credentials`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, apiKey })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save key')
+      }
+
+      toast.success(`${displayName(provider)} key verified and saved`)
+      setApiKey('')
+      fetchCredentials()
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteCredential = async (providerName: string) => {
+    const response = await fetch(
+      `/api/projects/${projectId}/credentials?provider=${encodeURIComponent(providerName)}`,
+      { method: 'DELETE' }
+    )
+    if (!response.ok) {
+      toast.error('Failed to remove key')
+      return
+    }
+    setCredentials(current => current.filter(credential => credential.provider !== providerName))
+  }
+
+  const displayName = (providerName: string) =>
+    providers.find(p => p.name === providerName)?.display_name || providerName
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound className="h-4 w-4 text-gray-500" />
+        <h2 className="text-lg font-medium text-gray-900">Provider API keys</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Calls to a provider with a key here are billed to that account instead of the platform.
+        {platformFallback
+          ? ' If a key stops working, your plan falls back to platform keys.'
+          : ' If a key stops working, calls to that provider fail until it is replaced.'}
+      </p>
+
+      {!encryptionConfigured && (
+        <p className="text-sm text-amber-700 flex items-center gap-1 mb-4">
+          <AlertCircle className="h-3 w-3" />
+          Storing API keys is not enabled on this server.
+        </p>
+      )}
+
+      {credentials.length > 0 && (
+        <div className="divide-y divide-gray-100 mb-4">
+          {credentials.map(credential => (
+            <div key={credential.provider} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  {credential.status === 'valid' ? (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-600" />
+                  )}
+                  <span className="text-sm text-gray-900">{displayName(credential.provider)}</span>
+                  <span className="font-mono text-xs text-gray-500">{credential.key_hint}</span>
+                </div>
+                {credential.status === 'invalid' && credential.last_error && (
+                  <p className="text-xs text-red-600 mt-1 truncate" title={credential.last_error}>
+                    {credential.last_error}
+                  </p>
+                )}
+              </div>
+              <button
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => deleteCredential(credential.provider)}
+                aria-label={`Remove ${displayName(credential.provider)} key`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-[160px_1fr_auto] gap-2 items-end">
+        <div>
+          <Label>Provider</Label>
+          <Select value={provider} onValueChange={setProvider}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.map(option => (
+                <SelectItem key={option.name} value={option.name}>
+                  {option.display_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="provider-api-key">API key</Label>
+          <Input
+            id="provider-api-key"
+            type="password"
+            autoComplete="off"
+            placeholder={credentials.some(c => c.provider === provider) ? 'Replace the saved key' : 'sk-...'}
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={saveCredential}
+          disabled={saving || !provider || !apiKey || !encryptionConfigured}
+        >
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {saving ? 'Checking...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  )
+}
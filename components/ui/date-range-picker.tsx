@@ -14,14 +14,17 @@ import {
 interface DateRangePickerProps {
   className?: string
   onDateChange?: (startDate: Date, endDate: Date) => void
+  initialRange?: { from: Date; to: Date }
 }
 
-export function DateRangePicker({ className, onDateChange }: DateRangePickerProps) {
-  const [date, setDate] = React.useState<{ from: Date; to: Date }>({
+export function DateRangePicker({ className, onDateChange, initialRange }: DateRangePickerProps) {
+  const [date, setDate] = React.useState<{ from: Date; to: Date }>(initialRange || {
     from: new Date(2025, 8, 1), // Sep 1, 2025
     to: new Date(2025, 8, 23), // Sep 23, 2025
   })
-  const [currentMonth, setCurrentMonth] = React.useState(new Date(2025, 8))
+  const [currentMonth, setCurrentMonth] = React.useState(
+    new Date(date.to.getFullYear(), date.to.getMonth())
+  )
   const [isOpen, setIsOpen] = React.useState(false)
   const [selecting, setSelecting] = React.useState<'from' | 'to' | null>(null)
 
@@ -53,14 +56,13 @@ export function DateRangePicker({ className, onDateChange }: DateRangePickerProp
       setDate({ from: clickedDate, to: clickedDate })
       setSelecting('to')
     } else {
-      if (clickedDate >= date.from) {
-        setDate({ ...date, to: clickedDate })
-      } else {
-        setDate({ from: clickedDate, to: date.from })
-      }
+      const range = clickedDate >= date.from
+        ? { from: date.from, to: clickedDate }
+        : { from: clickedDate, to: date.from }
+      setDate(range)
       setSelecting(null)
       if (onDateChange) {
-        onDateChange(date.from, clickedDate)
+        onDateChange(range.from, range.to)
       }
     }
   }
@@ -38,6 +38,7 @@ const activityIcons: Record<ActivityType, React.ElementType> = {
   source_deleted: Trash,
   crawl_started: Play,
   crawl_completed: CheckCircle,
+  crawl_failed: XCircle,
   qa_added: MessageSquare,
   qa_updated: Edit,
   qa_deleted: Trash,
@@ -55,6 +56,7 @@ const activityColors: Record<ActivityType, string> = {
   source_deleted: 'text-red-600',
   crawl_started: 'text-yellow-600',
   crawl_completed: 'text-green-600',
+  crawl_failed: 'text-red-600',
   qa_added: 'text-green-600',
   qa_updated: 'text-blue-600',
   qa_deleted: 'text-red-600',
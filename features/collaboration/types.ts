@@ -48,6 +48,7 @@ export type ActivityType =
   | 'source_deleted'
   | 'crawl_started'
   | 'crawl_completed'
+  | 'crawl_failed'
   | 'qa_added'
   | 'qa_updated'
   | 'qa_deleted'
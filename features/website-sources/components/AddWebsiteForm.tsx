@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
 import { useAddWebsiteSource } from '../hooks/useWebsiteSources'
+import { CrawlRulesFields, EMPTY_CRAWL_RULES_FORM, fromCrawlRulesForm } from './CrawlRulesFields'
 
 interface AddWebsiteFormProps {
   agentId: string
@@ -20,8 +21,7 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
   const [crawlOption, setCrawlOption] = useState('crawl')
   const [maxPages, setMaxPages] = useState(200)
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false)
-  const [includeOnlyPaths, setIncludeOnlyPaths] = useState('')
-  const [excludePaths, setExcludePaths] = useState('')
+  const [crawlRules, setCrawlRules] = useState(EMPTY_CRAWL_RULES_FORM)
   const [slowScraping, setSlowScraping] = useState(false)
   const [fullPageContent, setFullPageContent] = useState(false)
 
@@ -43,10 +43,9 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
     await addWebsiteMutation.mutateAsync({
       agentId,
       url: fullUrl,
-      crawlOption: crawlOption as 'single' | 'crawl',
+      crawlOption: crawlOption as 'single' | 'crawl' | 'sitemap',
       maxPages,
-      includeOnlyPaths,
-      excludePaths,
+      crawlRules: fromCrawlRulesForm(crawlRules),
       slowScraping,
       fullPageContent,
     })
@@ -55,8 +54,7 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
     setUrl('')
     setCrawlOption('crawl')
     setMaxPages(200)
-    setIncludeOnlyPaths('')
-    setExcludePaths('')
+    setCrawlRules(EMPTY_CRAWL_RULES_FORM)
     setSlowScraping(false)
     setFullPageContent(false)
     setShowAdvancedOptions(false)
@@ -146,9 +144,10 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
             className="px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             <option value="crawl">🕸️ Crawl subpages</option>
+            <option value="sitemap">🗺️ Crawl from sitemap</option>
             <option value="single">📄 Single page only</option>
           </select>
-          {crawlOption === 'crawl' && (
+          {crawlOption !== 'single' && (
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Max pages:</span>
               <Input
@@ -163,6 +162,12 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
           )}
         </div>
 
+        {crawlOption === 'sitemap' && (
+          <p className="text-xs text-gray-500">
+            Crawls the pages listed in the site&apos;s sitemap (from robots.txt or /sitemap.xml) first, then follows links if pages remain.
+          </p>
+        )}
+
         {/* Advanced Options */}
         <div className="border-t pt-3">
           <button
@@ -180,31 +185,9 @@ export function AddWebsiteForm({ agentId, onSuccess, showRetrainingAlert }: AddW
 
           {showAdvancedOptions && (
             <div className="mt-3 space-y-3">
-              <div>
-                <label className="text-sm font-medium text-gray-700">Include only paths</label>
-                <Input
-                  placeholder="/blog/*, /docs/*"
-                  value={includeOnlyPaths}
-                  onChange={(e) => setIncludeOnlyPaths(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Comma-separated paths to include. Use * as wildcard.
-                </p>
-              </div>
-
-              <div>
-                <label className="text-sm font-medium text-gray-700">Exclude paths</label>
-                <Input
-                  placeholder="/admin/*, /private/*"
-                  value={excludePaths}
-                  onChange={(e) => setExcludePaths(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Comma-separated paths to exclude. Use * as wildcard.
-                </p>
-              </div>
+              {crawlOption !== 'single' && (
+                <CrawlRulesFields value={crawlRules} onChange={setCrawlRules} />
+              )}
 
               <div className="space-y-2">
                 <label className="flex items-center gap-2">
@@ -0,0 +1,154 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { CrawlRules, QueryParamMode, parsePatternList } from '@/lib/types/crawler'
+
+// Crawl rules as typed into the form; lists stay text until submitted
+export interface CrawlRulesFormValues {
+  include: string
+  exclude: string
+  pathPrefix: string
+  maxDepth: string
+  queryParams: QueryParamMode
+  keepParams: string
+  includeSubdomains: boolean
+}
+
+export const EMPTY_CRAWL_RULES_FORM: CrawlRulesFormValues = {
+  include: '',
+  exclude: '',
+  pathPrefix: '',
+  maxDepth: '',
+  queryParams: 'strip-tracking',
+  keepParams: '',
+  includeSubdomains: false
+}
+
+export function toCrawlRulesForm(rules: CrawlRules): CrawlRulesFormValues {
+  return {
+    // One per line, so regex: patterns with commas survive a round trip
+    include: rules.include.join('\n'),
+    exclude: rules.exclude.join('\n'),
+    pathPrefix: rules.pathPrefix || '',
+    maxDepth: rules.maxDepth === null ? '' : String(rules.maxDepth),
+    queryParams: rules.queryParams,
+    keepParams: rules.keepParams.join(', '),
+    includeSubdomains: rules.includeSubdomains
+  }
+}
+
+export function fromCrawlRulesForm(values: CrawlRulesFormValues): CrawlRules {
+  const depth = parseInt(values.maxDepth, 10)
+
+  return {
+    include: parsePatternList(values.include),
+    exclude: parsePatternList(values.exclude),
+    pathPrefix: values.pathPrefix.trim() || null,
+    maxDepth: isNaN(depth) || depth < 0 ? null : depth,
+    queryParams: values.queryParams,
+    keepParams: parsePatternList(values.keepParams),
+    includeSubdomains: values.includeSubdomains
+  }
+}
+
+interface CrawlRulesFieldsProps {
+  value: CrawlRulesFormValues
+  onChange: (value: CrawlRulesFormValues) => void
+}
+
+export function CrawlRulesFields({ value, onChange }: CrawlRulesFieldsProps) {
+  const update = (changes: Partial<CrawlRulesFormValues>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium text-gray-700">Include only paths</label>
+        <textarea
+          placeholder={'/docs/*\n/guides/*'}
+          value={value.include}
+          onChange={(e) => update({ include: e.target.value })}
+          rows={2}
+          className="mt-1 w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Comma or line separated. Use * as wildcard, or regex: for a regular expression.
+        </p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700">Exclude paths</label>
+        <textarea
+          placeholder={'/blog/*\n/login'}
+          value={value.exclude}
+          onChange={(e) => update({ exclude: e.target.value })}
+          rows={2}
+          className="mt-1 w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Excluded paths are skipped even when they match an include pattern.
+        </p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700">Stay under path</label>
+        <Input
+          placeholder="Start URL's path"
+          value={value.pathPrefix}
+          onChange={(e) => update({ pathPrefix: e.target.value })}
+          className="mt-1"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Leave empty to stay under the start URL&apos;s path. Enter / to crawl the whole site.
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700">Max link depth</label>
+          <Input
+            type="number"
+            placeholder="No limit"
+            value={value.maxDepth}
+            onChange={(e) => update({ maxDepth: e.target.value })}
+            min={0}
+            max={100}
+            className="mt-1"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700">Query strings</label>
+          <select
+            value={value.queryParams}
+            onChange={(e) => update({ queryParams: e.target.value as QueryParamMode })}
+            className="mt-1 w-full h-10 px-3 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="strip-tracking">Drop tracking parameters</option>
+            <option value="strip">Drop all</option>
+            <option value="keep">Keep all</option>
+          </select>
+        </div>
+      </div>
+
+      {value.queryParams !== 'keep' && (
+        <div>
+          <label className="text-sm font-medium text-gray-700">Always keep parameters</label>
+          <Input
+            placeholder="page, lang"
+            value={value.keepParams}
+            onChange={(e) => update({ keepParams: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2">
+        <Checkbox
+          checked={value.includeSubdomains}
+          onCheckedChange={(checked) => update({ includeSubdomains: checked })}
+        />
+        <span className="text-sm text-gray-700">Include subdomains</span>
+      </label>
+    </div>
+  )
+}
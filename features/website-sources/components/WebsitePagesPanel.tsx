@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Ban, ExternalLink, Loader2, MoreHorizontal, RefreshCw, Search, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { WebsitePage, WebsitePageStatus } from '@/lib/types/crawler'
+import {
+  useDeleteWebsitePage,
+  useExcludeWebsitePage,
+  useRefetchWebsitePage,
+  useWebsitePages,
+} from '../hooks/useWebsitePages'
+
+const PAGE_SIZE = 25
+
+const STATUS_BADGES: Record<WebsitePageStatus, { label: string; className: string }> = {
+  crawled: { label: 'Crawled', className: 'bg-green-100 text-green-800' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-700' },
+  excluded: { label: 'Excluded', className: 'bg-gray-100 text-gray-600' },
+}
+
+interface WebsitePagesPanelProps {
+  agentId: string
+  sourceId: string
+}
+
+/**
+ * The crawled pages of a website source, each of which can be re-fetched,
+ * excluded or deleted without re-crawling the whole site
+ */
+export function WebsitePagesPanel({ agentId, sourceId }: WebsitePagesPanelProps) {
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [status, setStatus] = useState<WebsitePageStatus | ''>('')
+  const [offset, setOffset] = useState(0)
+
+  // Query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setOffset(0)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const { data, isLoading } = useWebsitePages(agentId, sourceId, {
+    search: search || undefined,
+    status: status || undefined,
+    limit: PAGE_SIZE,
+    offset,
+  })
+  const refetchPage = useRefetchWebsitePage()
+  const excludePage = useExcludeWebsitePage()
+  const deletePage = useDeleteWebsitePage()
+
+  const pages = data?.pages || []
+  const total = data?.total || 0
+  const isBusy = (page: WebsitePage) =>
+    (refetchPage.isPending && refetchPage.variables?.pageId === page.id) ||
+    (excludePage.isPending && excludePage.variables?.pageId === page.id) ||
+    (deletePage.isPending && deletePage.variables?.pageId === page.id)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="flex items-center gap-3 border-b px-4 py-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex-1">
+          Pages {total > 0 && <span className="font-normal text-gray-500">({total})</span>}
+        </h3>
+        <div className="relative w-64">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            placeholder="Search URL or title"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="h-9 pl-8"
+          />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as WebsitePageStatus | '')
+            setOffset(0)
+          }}
+          className="h-9 px-3 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All pages</option>
+          <option value="crawled">Crawled</option>
+          <option value="error">Errors</option>
+          <option value="excluded">Excluded</option>
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : pages.length === 0 ? (
+        <p className="py-10 text-center text-sm text-gray-500">
+          {search || status ? 'No pages match the filter' : 'No pages yet. They appear as the website is crawled.'}
+        </p>
+      ) : (
+        <div className="divide-y">
+          {pages.map(page => {
+            const badge = STATUS_BADGES[page.status]
+            const busy = isBusy(page)
+            const params = { agentId, sourceId, pageId: page.id }
+
+            return (
+              <div key={page.id} className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 truncate" title={page.title || page.url}>
+                    {page.title || page.url}
+                  </p>
+                  <a
+                    href={page.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 max-w-full"
+                  >
+                    <span className="truncate">{page.url}</span>
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                  </a>
+                  {page.status === 'error' && page.error_message && (
+                    <p className="text-xs text-red-600 truncate">{page.error_message}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-3 flex-shrink-0 text-xs text-gray-500">
+                  {page.status_code && <span title="HTTP status">{page.status_code}</span>}
+                  {page.status === 'crawled' && (
+                    <span>{page.chunk_count === 1 ? '1 chunk' : `${page.chunk_count} chunks`}</span>
+                  )}
+                  {page.crawled_at && (
+                    <span title={new Date(page.crawled_at).toLocaleString()}>
+                      {formatDistanceToNow(new Date(page.crawled_at), { addSuffix: true })}
+                    </span>
+                  )}
+                  <span className={`px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>
+                </div>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={busy}>
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <MoreHorizontal className="h-4 w-4" />}
+                      <span className="sr-only">Page actions</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => refetchPage.mutate(params)}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      {page.status === 'excluded' ? 'Include and fetch' : 'Re-fetch'}
+                    </DropdownMenuItem>
+                    {page.status !== 'excluded' && (
+                      <DropdownMenuItem onClick={() => excludePage.mutate(params)}>
+                        <Ban className="h-4 w-4 mr-2" />
+                        Exclude
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => deletePage.mutate(params)} className="text-red-600">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between border-t px-4 py-2 text-xs text-gray-500">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
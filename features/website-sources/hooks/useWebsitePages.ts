@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import type { WebsitePage, WebsitePageStatus } from '@/lib/types/crawler'
+
+export interface WebsitePagesFilter {
+  search?: string
+  status?: WebsitePageStatus
+  limit?: number
+  offset?: number
+}
+
+interface PageActionParams {
+  agentId: string
+  sourceId: string
+  pageId: string
+}
+
+// Fetch the pages of one website source
+export function useWebsitePages(agentId: string, sourceId: string, filter: WebsitePagesFilter = {}) {
+  return useQuery({
+    queryKey: ['website-pages', sourceId, filter],
+    queryFn: async () => {
+      const query = new URLSearchParams()
+      if (filter.search) query.set('search', filter.search)
+      if (filter.status) query.set('status', filter.status)
+      if (filter.limit) query.set('limit', String(filter.limit))
+      if (filter.offset) query.set('offset', String(filter.offset))
+
+      const response = await fetch(`/api/agents/${agentId}/sources/website/${sourceId}/pages?${query}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch website pages')
+      }
+      return response.json() as Promise<{ pages: WebsitePage[]; total: number }>
+    },
+    enabled: !!agentId && !!sourceId,
+  })
+}
+
+// Page actions change the source's totals too, so both lists are refreshed
+function useInvalidatePages() {
+  const queryClient = useQueryClient()
+
+  return (variables: PageActionParams) => {
+    queryClient.invalidateQueries({ queryKey: ['website-pages', variables.sourceId] })
+    queryClient.invalidateQueries({ queryKey: ['website-sources', variables.agentId] })
+  }
+}
+
+// Fetch one page again, replacing its chunks
+export function useRefetchWebsitePage() {
+  const invalidate = useInvalidatePages()
+
+  return useMutation({
+    mutationFn: async ({ agentId, sourceId, pageId }: PageActionParams) => {
+      const response = await fetch(
+        `/api/agents/${agentId}/sources/website/${sourceId}/pages/${pageId}/refetch`,
+        { method: 'POST' }
+      )
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to re-fetch page')
+      }
+
+      return data
+    },
+    onSuccess: (_, variables) => {
+      invalidate(variables)
+      toast.success('Page re-fetched')
+    },
+    onError: (error: Error, variables) => {
+      // A failed fetch is recorded on the page
+      invalidate(variables)
+      toast.error(error.message || 'Failed to re-fetch page')
+    },
+  })
+}
+
+// Exclude one page from the agent and from later crawls
+export function useExcludeWebsitePage() {
+  const invalidate = useInvalidatePages()
+
+  return useMutation({
+    mutationFn: async ({ agentId, sourceId, pageId }: PageActionParams) => {
+      const response = await fetch(
+        `/api/agents/${agentId}/sources/website/${sourceId}/pages/${pageId}/exclude`,
+        { method: 'POST' }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to exclude page')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_, variables) => {
+      invalidate(variables)
+      toast.success('Page excluded')
+    },
+    onError: () => {
+      toast.error('Failed to exclude page')
+    },
+  })
+}
+
+// Delete one page and its content
+export function useDeleteWebsitePage() {
+  const invalidate = useInvalidatePages()
+
+  return useMutation({
+    mutationFn: async ({ agentId, sourceId, pageId }: PageActionParams) => {
+      const response = await fetch(
+        `/api/agents/${agentId}/sources/website/${sourceId}/pages/${pageId}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to delete page')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_, variables) => {
+      invalidate(variables)
+      toast.success('Page deleted')
+    },
+    onError: () => {
+      toast.error('Failed to delete page')
+    },
+  })
+}
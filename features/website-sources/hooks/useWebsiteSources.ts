@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
+import type { CrawlRules } from '@/lib/types/crawler'
 
 export interface SubLink {
   url: string
@@ -36,10 +37,10 @@ export interface WebsiteSource {
 export interface AddWebsiteParams {
   agentId: string
   url: string
-  crawlOption: 'single' | 'crawl'
+  // sitemap: seed the crawl from the site's sitemaps
+  crawlOption: 'single' | 'crawl' | 'sitemap'
   maxPages?: number
-  includeOnlyPaths?: string
-  excludePaths?: string
+  crawlRules?: CrawlRules
   slowScraping?: boolean
   fullPageContent?: boolean
 }
@@ -74,12 +75,12 @@ export function useAddWebsiteSource() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           url: params.url,
-          crawl_subpages: params.crawlOption === 'crawl',
-          max_pages: params.maxPages || 200,
-          include_only_paths: params.includeOnlyPaths,
-          exclude_paths: params.excludePaths,
-          slow_scraping: params.slowScraping,
-          full_page_content: params.fullPageContent,
+          crawlSubpages: params.crawlOption !== 'single',
+          crawlMode: params.crawlOption === 'sitemap' ? 'sitemap' : 'links',
+          maxPages: params.crawlOption === 'single' ? 1 : params.maxPages || 200,
+          crawlRules: params.crawlRules,
+          slowScraping: params.slowScraping,
+          fullPageContent: params.fullPageContent,
         }),
       })
 
@@ -155,7 +156,7 @@ export function useRecrawlWebsite() {
   })
 }
 
-// Update website source URL
+// Update website source URL or crawl rules
 export function useUpdateWebsiteSource() {
   const queryClient = useQueryClient()
 
@@ -163,30 +164,33 @@ export function useUpdateWebsiteSource() {
     mutationFn: async ({
       agentId,
       sourceId,
-      url
+      url,
+      crawlRules
     }: {
       agentId: string
       sourceId: string
-      url: string
+      url?: string
+      crawlRules?: CrawlRules
     }) => {
       const response = await fetch(`/api/agents/${agentId}/sources/website/${sourceId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({ url, crawlRules }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update website source')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to update website source')
       }
 
       return response.json()
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['website-sources', variables.agentId] })
-      toast.success('Website URL updated')
+      toast.success(variables.crawlRules ? 'Crawl rules saved' : 'Website URL updated')
     },
-    onError: () => {
-      toast.error('Failed to update website URL')
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update website source')
     },
   })
 }
\ No newline at end of file
@@ -13,6 +13,7 @@ export interface Agent {
   greeting_message?: string
   status?: string
   last_trained_at?: string
+  config?: Record<string, any>
   created_at: string
   updated_at: string
   project_id: string
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Workers need Node APIs (BullMQ, Redis); the edge runtime registers too
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { initializeQueues } = await import('@/lib/queue')
+    initializeQueues()
+  }
+}
@@ -0,0 +1,3 @@
+// The jest global in test files; jest.mock is only hoisted above the imports
+// when it's called on the global rather than the @jest/globals import
+declare const jest: typeof import('@jest/globals')['jest']
@@ -0,0 +1,13 @@
+const nextJest = require('next/jest')
+
+const createJestConfig = nextJest({ dir: './' })
+
+// Unit tests live in __tests__ next to the code they cover; tests/ holds the
+// Playwright specs, which run with `npx playwright test`
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  },
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/.next/', '<rootDir>/tests/']
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals'
+import { assertJsonPath, mapResponse, selectJsonPath } from '../json-path'
+
+const order = {
+  id: 42,
+  status: 'shipped',
+  customer: { name: 'Ada', 'e-mail': 'ada@example.com' },
+  items: [
+    { sku: 'A-1', qty: 2 },
+    { sku: 'B-7', qty: 1 }
+  ],
+  tracking: null
+}
+
+describe('selectJsonPath', () => {
+  it('selects the root, keys and indexes', () => {
+    expect(selectJsonPath(order, '$')).toBe(order)
+    expect(selectJsonPath(order, '$.status')).toBe('shipped')
+    expect(selectJsonPath(order, '$.customer.name')).toBe('Ada')
+    expect(selectJsonPath(order, "$.customer['e-mail']")).toBe('ada@example.com')
+    expect(selectJsonPath(order, '$.items[1].sku')).toBe('B-7')
+  })
+
+  it('returns an array for wildcards', () => {
+    expect(selectJsonPath(order, '$.items[*].sku')).toEqual(['A-1', 'B-7'])
+    expect(selectJsonPath(order, '$.customer.*')).toEqual(['Ada', 'ada@example.com'])
+    expect(selectJsonPath(order, '$.missing[*]')).toEqual([])
+  })
+
+  it('returns undefined for paths that are not there', () => {
+    expect(selectJsonPath(order, '$.items[5].sku')).toBeUndefined()
+    expect(selectJsonPath(order, '$.tracking.number')).toBeUndefined()
+  })
+
+  it('rejects paths it cannot evaluate', () => {
+    expect(() => selectJsonPath(order, 'status')).toThrow('must start with $')
+    expect(() => selectJsonPath(order, '$..sku')).toThrow('Unsupported JSONPath')
+    expect(() => selectJsonPath(order, '$.items[?(@.qty > 1)]')).toThrow('Unsupported JSONPath')
+  })
+})
+
+describe('mapResponse', () => {
+  it('maps each key to its path, with null for missing values', () => {
+    expect(mapResponse(order, { status: '$.status', skus: '$.items[*].sku', eta: '$.eta' })).toEqual({
+      status: 'shipped',
+      skus: ['A-1', 'B-7'],
+      eta: null
+    })
+  })
+})
+
+describe('assertJsonPath', () => {
+  it('accepts supported paths and throws on the rest', () => {
+    expect(() => assertJsonPath('$.data[0].id')).not.toThrow()
+    expect(() => assertJsonPath('$.data[')).toThrow()
+  })
+})
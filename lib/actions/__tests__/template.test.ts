@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals'
+import { renderJsonTemplate, renderTemplate, templatePlaceholders } from '../template'
+
+const variables = {
+  order: { id: 'A 17/2', total: 12.5, paid: true, items: ['mug'] },
+  secrets: { API_KEY: 'sk-123' },
+  empty: null
+}
+
+describe('templatePlaceholders', () => {
+  it('lists the placeholder paths', () => {
+    expect(templatePlaceholders('/orders/{{ order.id }}?key={{secrets.API_KEY}}')).toEqual(['order.id', 'secrets.API_KEY'])
+  })
+})
+
+describe('renderTemplate', () => {
+  it('substitutes dot paths', () => {
+    expect(renderTemplate('Order {{order.id}} costs {{ order.total }}', variables)).toBe('Order A 17/2 costs 12.5')
+  })
+
+  it('renders missing and null values as empty strings', () => {
+    expect(renderTemplate('[{{order.missing}}][{{empty}}][{{nope.deeper}}]', variables)).toBe('[][][]')
+  })
+
+  it('renders objects as JSON', () => {
+    expect(renderTemplate('{{order.items}}', variables)).toBe('["mug"]')
+  })
+
+  it('encodes each substituted value, not the template', () => {
+    expect(renderTemplate('https://api.example.com/orders/{{order.id}}?a=b', variables, encodeURIComponent))
+      .toBe('https://api.example.com/orders/A%2017%2F2?a=b')
+  })
+})
+
+describe('renderJsonTemplate', () => {
+  it('keeps the type of values that fill a whole string', () => {
+    expect(renderJsonTemplate(
+      '{"total": "{{order.total}}", "paid": "{{order.paid}}", "items": "{{order.items}}", "note": "Order {{order.id}}"}',
+      variables
+    )).toEqual({ total: 12.5, paid: true, items: ['mug'], note: 'Order A 17/2' })
+  })
+
+  it('renders nested arrays and objects, with null for missing values', () => {
+    expect(renderJsonTemplate('{"list": [{"id": "{{order.id}}"}, "{{order.missing}}", 3]}', variables))
+      .toEqual({ list: [{ id: 'A 17/2' }, null, 3] })
+  })
+
+  it('does not let values break out of their JSON string', () => {
+    const result = renderJsonTemplate('{"text": "Hi {{name}}"}', { name: '", "admin": true, "x": "' })
+    expect(result).toEqual({ text: 'Hi ", "admin": true, "x": "' })
+  })
+
+  it('throws on invalid JSON', () => {
+    expect(() => renderJsonTemplate('{not json}', variables)).toThrow()
+  })
+})
@@ -0,0 +1,140 @@
+import { validateOutboundUrl } from '@/lib/utils/security'
+import {
+  ExecutableAction,
+  ActionContext,
+  ActionResult,
+  HttpActionTrace,
+  HttpRequestConfig,
+  HTTP_ACTION_DEFAULT_TIMEOUT_MS,
+  HTTP_ACTION_MAX_TIMEOUT_MS
+} from '@/lib/types/actions'
+import { renderJsonTemplate, renderTemplate, templatePlaceholders } from './template'
+import { mapResponse } from './json-path'
+
+// Keep tool results small enough to send back to the model
+const MAX_RESPONSE_LENGTH = 4000
+const MASK = '****'
+
+function truncate(text: string, length = MAX_RESPONSE_LENGTH) {
+  return text.length > length ? `${text.substring(0, length)}...` : text
+}
+
+function templatesOf(config: HttpRequestConfig): string[] {
+  return [config.url, config.bodyTemplate || '', ...Object.values(config.headers || {})]
+}
+
+/**
+ * Secrets for the agent, requested only when a template references one
+ */
+async function loadSecrets(context: ActionContext, config: HttpRequestConfig): Promise<Record<string, string>> {
+  const referenced = templatesOf(config)
+    .flatMap(templatePlaceholders)
+    .some(path => path.startsWith('secrets.'))
+
+  if (!referenced) return {}
+  if (!context.secrets) {
+    throw new Error('Secrets are only available to actions run by the action executor')
+  }
+
+  return context.secrets()
+}
+
+function maskSecrets(text: string, secrets: Record<string, string>): string {
+  return Object.values(secrets)
+    .filter(value => value.length >= 4)
+    .reduce((masked, value) => masked.split(value).join(MASK), text)
+}
+
+/**
+ * HTTP action: renders the URL, headers and body from the model's arguments,
+ * calls the endpoint and returns the (optionally mapped) response.
+ * Without a body template, GET/DELETE put unused arguments in the query
+ * string and other methods send all arguments as a JSON body.
+ */
+export async function runHttpRequest(
+  action: ExecutableAction,
+  args: Record<string, any>,
+  context: ActionContext
+): Promise<ActionResult> {
+  const config = action.config as HttpRequestConfig
+
+  if (!config?.url) {
+    throw new Error(`Action ${action.name} has no URL configured`)
+  }
+
+  const secrets = await loadSecrets(context, config)
+  const variables = { ...args, secrets }
+  const method = config.method || 'POST'
+  const timeoutMs = Math.min(config.timeoutMs || HTTP_ACTION_DEFAULT_TIMEOUT_MS, HTTP_ACTION_MAX_TIMEOUT_MS)
+
+  const target = new URL(renderTemplate(config.url, variables, encodeURIComponent))
+  const headers: Record<string, string> = { 'Accept': 'application/json, text/plain;q=0.9' }
+  for (const [name, value] of Object.entries(config.headers || {})) {
+    headers[name] = renderTemplate(value, variables)
+  }
+
+  let body: string | undefined
+  if (config.bodyTemplate) {
+    body = JSON.stringify(renderJsonTemplate(config.bodyTemplate, variables))
+  } else if (method === 'GET' || method === 'DELETE') {
+    const used = new Set(templatePlaceholders(config.url))
+    for (const [key, value] of Object.entries(args)) {
+      if (!used.has(key) && value !== undefined && value !== null) {
+        target.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value))
+      }
+    }
+  } else {
+    body = JSON.stringify(args)
+  }
+  if (body && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const trace: HttpActionTrace = {
+    method,
+    url: maskSecrets(target.toString(), secrets),
+    headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, maskSecrets(value, secrets)])),
+    body: body ? maskSecrets(body, secrets) : undefined
+  }
+
+  // Arguments can end up in the host via templating, so check the final URL
+  const check = await validateOutboundUrl(target.toString())
+  if (!check.valid) {
+    return { output: `Error: URL not allowed (${check.error})`, error: check.error, data: { trace } }
+  }
+
+  const response = await fetch(target, {
+    method,
+    headers,
+    body,
+    // Redirects could point at internal hosts the check above never saw
+    redirect: 'manual',
+    signal: AbortSignal.timeout(timeoutMs)
+  })
+  const text = await response.text()
+
+  trace.status = response.status
+  trace.responseBody = truncate(maskSecrets(text, secrets), 2000)
+
+  if (!response.ok) {
+    const error = response.status >= 300 && response.status < 400
+      ? `HTTP ${response.status}: redirects are not followed`
+      : `HTTP ${response.status}`
+    return { output: `Error: ${error}: ${truncate(text, 200)}`, error, data: { trace } }
+  }
+
+  if (config.responseMapping && Object.keys(config.responseMapping).length > 0) {
+    let json: any
+    try {
+      json = JSON.parse(text)
+    } catch {
+      return { output: 'Error: response is not JSON, so it could not be mapped', error: 'Response is not JSON', data: { trace } }
+    }
+    return {
+      output: truncate(JSON.stringify(mapResponse(json, config.responseMapping))),
+      data: { trace }
+    }
+  }
+
+  return { output: truncate(text), data: { trace } }
+}
@@ -0,0 +1,70 @@
+/**
+ * Minimal JSONPath used to map HTTP action responses
+ * Supports $, .key, ['key'], [index] and [*]; a path with [*] returns an array
+ */
+
+type Segment = string | number | '*'
+
+function parsePath(path: string): Segment[] {
+  const trimmed = path.trim()
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`)
+  }
+
+  const segments: Segment[] = []
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\*\]|\.\*|\[['"]([^'"]+)['"]\]/g
+  let position = 1
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(trimmed)) !== null) {
+    if (match.index !== position) break
+    if (match[1] !== undefined) segments.push(match[1])
+    else if (match[2] !== undefined) segments.push(Number(match[2]))
+    else if (match[3] !== undefined) segments.push(match[3])
+    else segments.push('*')
+    position = pattern.lastIndex
+  }
+
+  if (position !== trimmed.length) {
+    throw new Error(`Unsupported JSONPath: ${path}`)
+  }
+
+  return segments
+}
+
+export function selectJsonPath(data: any, path: string): any {
+  const segments = parsePath(path)
+  let values: any[] = [data]
+
+  for (const segment of segments) {
+    const next: any[] = []
+    for (const value of values) {
+      if (value === null || value === undefined) continue
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : typeof value === 'object' ? Object.values(value) : []))
+      } else if (value[segment] !== undefined) {
+        next.push(value[segment])
+      }
+    }
+    values = next
+  }
+
+  // Even when nothing matched, so mappings always get the same type back
+  return segments.includes('*') ? values : values[0]
+}
+
+/**
+ * Apply an output key -> JSONPath mapping to a response body
+ */
+export function mapResponse(data: any, mapping: Record<string, string>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(mapping).map(([key, path]) => [key, selectJsonPath(data, path) ?? null])
+  )
+}
+
+/**
+ * Throw on paths selectJsonPath can't handle, for validating saved mappings
+ */
+export function assertJsonPath(path: string) {
+  parsePath(path)
+}
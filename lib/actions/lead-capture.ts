@@ -0,0 +1,34 @@
+import { ContactService } from '@/lib/services/contact-service'
+import { ExecutableAction, ActionContext, ActionResult } from '@/lib/types/actions'
+
+/**
+ * Built-in lead capture: store the contact details the model collected
+ * name/email/phone/company fill the contact, any other argument is kept as a field
+ */
+export async function captureLead(
+  action: ExecutableAction,
+  args: Record<string, any>,
+  context: ActionContext
+): Promise<ActionResult> {
+  const { fields, ...details } = ContactService.splitValues(args)
+
+  if (!details.name && !details.email && !details.phone) {
+    return { output: 'No contact details were provided. Ask the user for their name and email or phone number first.' }
+  }
+
+  const { contact, created, leadId } = await new ContactService().captureLead({
+    agentId: context.agentId,
+    projectId: context.projectId,
+    conversationId: context.conversationId,
+    sessionId: context.sessionId,
+    actionId: action.id,
+    source: context.channel && context.channel !== 'web' ? context.channel : 'chat',
+    ...details,
+    fields
+  })
+
+  return {
+    output: action.config?.confirmationMessage || 'The contact details were saved. Let the user know someone will be in touch.',
+    data: { leadId, contactId: contact.id, created }
+  }
+}
@@ -0,0 +1,154 @@
+import { ContactService } from '@/lib/services/contact-service'
+import { BuiltInAction, ExecutableAction, ActionContext, ActionResult } from '@/lib/types/actions'
+import { ChatChannel, LeadFormSettings } from '@/lib/types/leads'
+
+/**
+ * Lead form as seen by the model
+ * On the web the widget renders the form, so the model only gets a tool to
+ * show it (when trigger is "model"). Messenger and Instagram can't render
+ * forms, so the model collects the same fields conversationally and saves
+ * them with a tool whose parameters mirror the form.
+ */
+
+export const SHOW_LEAD_FORM_TOOL = 'show_lead_form'
+export const SAVE_CONTACT_TOOL = 'save_contact_details'
+
+interface LeadFormState {
+  channel: ChatChannel
+  // Visitor messages so far, including the current one
+  userMessageCount: number
+  // The conversation is already linked to a contact
+  hasContact: boolean
+}
+
+function fieldList(settings: LeadFormSettings): string {
+  return settings.fields
+    .map(field => `${field.label}${field.required ? '' : ' (optional)'}`)
+    .join(', ')
+}
+
+/**
+ * Problems with submitted values: missing required fields, malformed emails
+ */
+export function leadFormErrors(settings: LeadFormSettings, values: Record<string, any>): string[] {
+  const errors: string[] = []
+
+  for (const field of settings.fields) {
+    const value = String(values[field.key] ?? '').trim()
+    if (!value) {
+      if (field.required) errors.push(`${field.label} is required`)
+    } else if (field.type === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      errors.push(`${field.label} must be a valid email address`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Whether the form is due now (on_start / after_messages triggers)
+ */
+export function isLeadFormDue(settings: LeadFormSettings, state: Omit<LeadFormState, 'channel'>): boolean {
+  if (!settings.enabled || state.hasContact) return false
+  if (settings.trigger === 'on_start') return true
+  if (settings.trigger === 'after_messages') return state.userMessageCount >= settings.afterMessages
+  return false
+}
+
+/**
+ * Built-in actions for the lead form on this channel
+ */
+export function leadFormActions(
+  settings: LeadFormSettings,
+  context: ActionContext & LeadFormState
+): BuiltInAction[] {
+  if (!settings.enabled || context.hasContact) return []
+
+  const base = {
+    id: 'lead-form',
+    agent_id: context.agentId,
+    project_id: context.projectId,
+    enabled: true,
+    config: { settings }
+  }
+
+  if (context.channel === 'web') {
+    if (settings.trigger !== 'model') return []
+    return [{
+      ...base,
+      type: 'lead_form_display',
+      name: SHOW_LEAD_FORM_TOOL,
+      description: `Show the visitor a contact form asking for ${fieldList(settings)}. Use it when they want to be contacted, ask for a quote or a follow-up, or show buying intent.`,
+      parameters: { type: 'object', properties: {} }
+    }]
+  }
+
+  return [{
+    ...base,
+    type: 'lead_form_capture',
+    name: SAVE_CONTACT_TOOL,
+    description: `Save the user's contact details (${fieldList(settings)}) once they have given them in the conversation.`,
+    parameters: {
+      type: 'object',
+      properties: Object.fromEntries(settings.fields.map(field => [
+        field.key,
+        { type: 'string', description: field.label }
+      ])),
+      required: settings.fields.filter(field => field.required).map(field => field.key)
+    }
+  }]
+}
+
+/**
+ * System prompt addition telling the model to ask for the details now
+ * Only used on messaging channels, the web widget shows the form itself
+ */
+export function leadFormInstructions(settings: LeadFormSettings, state: LeadFormState): string | null {
+  if (state.channel === 'web' || !isLeadFormDue(settings, state)) return null
+
+  return `## CONTACT DETAILS:\nPolitely ask the user for their ${fieldList(settings)} before continuing, one short question at a time. When they have answered, call ${SAVE_CONTACT_TOOL}. If they decline, carry on helping and don't ask again.`
+}
+
+export async function showLeadForm(
+  action: ExecutableAction,
+  _args: Record<string, any>,
+  _context: ActionContext
+): Promise<ActionResult> {
+  const settings = action.config.settings as LeadFormSettings
+  return {
+    output: `The contact form ("${settings.title}") is now shown below your reply. Briefly invite the visitor to fill it in.`,
+    data: { showLeadForm: true }
+  }
+}
+
+export async function saveLeadForm(
+  action: ExecutableAction,
+  args: Record<string, any>,
+  context: ActionContext
+): Promise<ActionResult> {
+  const settings = action.config.settings as LeadFormSettings
+
+  const errors = leadFormErrors(settings, args)
+  if (errors.length > 0) {
+    return {
+      output: `Not saved: ${errors.join('; ')}. Ask the user again.`,
+      error: errors.join('; ')
+    }
+  }
+
+  const { fields, ...details } = ContactService.splitValues(args)
+  const { contact } = await new ContactService().captureLead({
+    agentId: context.agentId,
+    projectId: context.projectId,
+    conversationId: context.conversationId,
+    sessionId: context.sessionId,
+    source: context.channel === 'instagram' ? 'instagram' : 'messenger',
+    ...details,
+    fields
+  })
+
+  return {
+    output: `Saved. Reply to the user with: ${settings.successMessage}`,
+    data: { contactId: contact.id }
+  }
+}
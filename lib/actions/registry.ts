@@ -0,0 +1,28 @@
+import { ExecutableAction, ActionContext, ActionResult, ActionType } from '@/lib/types/actions'
+import { captureLead } from './lead-capture'
+import { runHttpRequest } from './http-request'
+import { saveLeadForm, showLeadForm } from './lead-form'
+
+export type ActionHandler = (
+  action: ExecutableAction,
+  args: Record<string, any>,
+  context: ActionContext
+) => Promise<ActionResult>
+
+const handlers = new Map<string, ActionHandler>([
+  ['lead_capture', captureLead],
+  ['http_request', runHttpRequest],
+  ['lead_form_display', showLeadForm],
+  ['lead_form_capture', saveLeadForm]
+])
+
+/**
+ * Register a handler for an additional action type
+ */
+export function registerActionHandler(type: ActionType | string, handler: ActionHandler) {
+  handlers.set(type, handler)
+}
+
+export function getActionHandler(type: string): ActionHandler | null {
+  return handlers.get(type) || null
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { validateCrawlUrl } from '@/lib/utils/security'
+import { ACTION_NAME_PATTERN, HTTP_ACTION_METHODS, HTTP_ACTION_MAX_TIMEOUT_MS, SECRET_NAME_PATTERN } from '@/lib/types/actions'
+import { renderTemplate } from './template'
+import { assertJsonPath } from './json-path'
+
+const ParametersSchema = z.object({
+  type: z.literal('object'),
+  properties: z.record(z.any()).default({}),
+  required: z.array(z.string()).optional()
+}).passthrough()
+
+export const LeadCaptureConfigSchema = z.object({
+  confirmationMessage: z.string().max(500).optional()
+})
+
+export const HttpRequestConfigSchema = z.object({
+  url: z.string().min(1).max(2048),
+  method: z.enum(HTTP_ACTION_METHODS).default('POST'),
+  headers: z.record(z.string()).optional(),
+  bodyTemplate: z.string().max(20000).optional(),
+  timeoutMs: z.number().int().min(1000).max(HTTP_ACTION_MAX_TIMEOUT_MS).optional(),
+  responseMapping: z.record(z.string()).optional()
+}).superRefine((config, ctx) => {
+  // Placeholders may only appear in the path and query, so the host is known when saving
+  const sample = renderTemplate(config.url, {}, () => 'x')
+  const check = validateCrawlUrl(sample)
+  if (!check.valid || !/^https?:\/\//i.test(config.url)) {
+    ctx.addIssue({ code: 'custom', path: ['url'], message: check.error || 'URL must start with http:// or https://' })
+  } else if (new URL(sample).host !== new URL(renderTemplate(config.url, {}, () => 'y')).host) {
+    ctx.addIssue({ code: 'custom', path: ['url'], message: 'Placeholders are not allowed in the host' })
+  }
+
+  if (config.bodyTemplate) {
+    try {
+      JSON.parse(config.bodyTemplate)
+    } catch {
+      ctx.addIssue({ code: 'custom', path: ['bodyTemplate'], message: 'Body template must be valid JSON' })
+    }
+  }
+
+  for (const [key, path] of Object.entries(config.responseMapping || {})) {
+    try {
+      assertJsonPath(path)
+    } catch (error: any) {
+      ctx.addIssue({ code: 'custom', path: ['responseMapping', key], message: error.message })
+    }
+  }
+})
+
+const actionFields = {
+  name: z.string().regex(ACTION_NAME_PATTERN, 'Use letters, numbers, underscores or dashes (max 64)'),
+  description: z.string().min(1).max(1000),
+  parameters: ParametersSchema,
+  enabled: z.boolean().optional()
+}
+
+export const CreateActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('lead_capture'), config: LeadCaptureConfigSchema.default({}), ...actionFields }),
+  z.object({ type: z.literal('http_request'), config: HttpRequestConfigSchema, ...actionFields })
+])
+
+export const UpdateActionSchema = z.object({
+  name: actionFields.name.optional(),
+  description: actionFields.description.optional(),
+  parameters: ParametersSchema.optional(),
+  config: z.record(z.any()).optional(),
+  enabled: z.boolean().optional()
+})
+
+/**
+ * Validate config for an action type, returning the parsed config
+ */
+export function parseActionConfig(type: string, config: unknown): Record<string, any> {
+  return type === 'http_request'
+    ? HttpRequestConfigSchema.parse(config)
+    : LeadCaptureConfigSchema.parse(config)
+}
+
+export const SecretSchema = z.object({
+  name: z.string().regex(SECRET_NAME_PATTERN, 'Use upper-case letters, numbers and underscores'),
+  value: z.string().min(1).max(4000)
+})
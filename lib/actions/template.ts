@@ -0,0 +1,58 @@
+/**
+ * {{placeholder}} templating for HTTP actions
+ * Placeholders are dot paths into the variables, e.g. {{order.id}} or {{secrets.API_KEY}}
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/
+
+function lookup(variables: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>(
+    (value, key) => (value !== null && value !== undefined ? value[key] : undefined),
+    variables
+  )
+}
+
+function stringify(value: any): string {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Placeholder paths used in a template
+ */
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER), match => match[1])
+}
+
+/**
+ * Substitute placeholders in a string; missing values render as ''
+ * encode is applied to each substituted value (e.g. encodeURIComponent for URLs)
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, any>,
+  encode: (value: string) => string = value => value
+): string {
+  return template.replace(PLACEHOLDER, (_, path) => encode(stringify(lookup(variables, path))))
+}
+
+/**
+ * Render a JSON template. Strings that are exactly one placeholder are
+ * replaced by the value itself so numbers, booleans and objects keep their type.
+ */
+export function renderJsonTemplate(template: string, variables: Record<string, any>): any {
+  const render = (node: any): any => {
+    if (typeof node === 'string') {
+      const whole = node.match(WHOLE_PLACEHOLDER)
+      return whole ? lookup(variables, whole[1]) ?? null : renderTemplate(node, variables)
+    }
+    if (Array.isArray(node)) return node.map(render)
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, render(value)]))
+    }
+    return node
+  }
+
+  return render(JSON.parse(template))
+}
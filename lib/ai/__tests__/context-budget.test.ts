@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildPromptContext, DEFAULT_CONTEXT_WINDOW, smallestContextWindow } from '../context-budget'
+import { ChatMessage } from '../providers/base'
+import { countTokens } from '../tokenizer'
+
+const model = 'gpt-4o-mini'
+
+// About 100 tokens of filler
+function paragraph(label: string): string {
+  return `${label}: ${'The quick brown fox jumps over the lazy dog. '.repeat(10)}`
+}
+
+function options(overrides: Partial<Parameters<typeof buildPromptContext<string>>[0]> = {}) {
+  return {
+    model,
+    contextWindow: 4000,
+    maxReplyTokens: 500,
+    instructions: 'You are a helpful assistant.',
+    knowledge: [],
+    renderKnowledge: (items: string[]) => items.join('\n\n'),
+    history: [],
+    message: 'What are your opening hours?',
+    ...overrides
+  }
+}
+
+describe('smallestContextWindow', () => {
+  it('takes the smallest known window', () => {
+    expect(smallestContextWindow([128000, null, 16000, undefined, 0])).toBe(16000)
+  })
+
+  it('falls back to the default when none is known', () => {
+    expect(smallestContextWindow([null, undefined])).toBe(DEFAULT_CONTEXT_WINDOW)
+  })
+})
+
+describe('buildPromptContext', () => {
+  it('keeps everything that fits', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello! How can I help?' }
+    ]
+    const result = buildPromptContext(options({
+      knowledge: [{ item: 'We open at 9am.', score: 0.9 }],
+      history
+    }))
+
+    expect(result.knowledge).toEqual(['We open at 9am.'])
+    expect(result.knowledgeText).toBe('We open at 9am.')
+    expect(result.history).toEqual(history)
+    expect(result.breakdown.droppedChunks).toBe(0)
+    expect(result.breakdown.droppedMessages).toBe(0)
+    expect(result.breakdown.total).toBeLessThanOrEqual(4000 - result.breakdown.reservedForReply)
+  })
+
+  it('drops the least relevant knowledge first and keeps the rest in order', () => {
+    const knowledge = [
+      { item: paragraph('first'), score: 0.9 },
+      { item: paragraph('second'), score: 0.2 },
+      { item: paragraph('third'), score: 0.8 },
+      { item: paragraph('fourth'), score: 0.5 }
+    ]
+    const result = buildPromptContext(options({ contextWindow: 600, maxReplyTokens: 150, knowledge }))
+
+    expect(result.breakdown.droppedChunks).toBeGreaterThan(0)
+    const kept = knowledge.filter(entry => result.knowledge.includes(entry.item))
+    const dropped = knowledge.filter(entry => !result.knowledge.includes(entry.item))
+    expect(Math.min(...kept.map(entry => entry.score))).toBeGreaterThan(Math.max(...dropped.map(entry => entry.score)))
+    expect(result.knowledge).toEqual(kept.map(entry => entry.item))
+    expect(result.breakdown.knowledge).toBe(countTokens(result.knowledgeText, model))
+  })
+
+  it('keeps the most recent history that fits', () => {
+    const history: ChatMessage[] = Array.from({ length: 20 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+      content: paragraph(`message ${i}`)
+    }))
+    const result = buildPromptContext(options({ contextWindow: 1500, maxReplyTokens: 300, history }))
+
+    expect(result.history.length).toBeGreaterThan(0)
+    expect(result.history.length).toBeLessThan(history.length)
+    expect(result.history).toEqual(history.slice(history.length - result.history.length))
+    expect(result.breakdown.droppedMessages).toBe(history.length - result.history.length)
+    expect(result.breakdown.total).toBeLessThanOrEqual(1500 - result.breakdown.reservedForReply)
+  })
+
+  it('never reserves more than a quarter of the window for the reply', () => {
+    expect(buildPromptContext(options({ contextWindow: 2000, maxReplyTokens: 4000 })).breakdown.reservedForReply).toBe(500)
+    expect(buildPromptContext(options({ maxReplyTokens: null })).breakdown.reservedForReply).toBe(1000)
+  })
+
+  it('always sends the instructions and message, even when nothing else fits', () => {
+    const instructions = paragraph('instructions').repeat(5)
+    const result = buildPromptContext(options({
+      contextWindow: 400,
+      instructions,
+      knowledge: [{ item: 'A fact.', score: 1 }],
+      history: [{ role: 'user', content: 'Earlier question' }]
+    }))
+
+    expect(result.breakdown.instructions).toBe(countTokens(instructions, model))
+    expect(result.knowledge).toEqual([])
+    expect(result.knowledgeText).toBe('')
+    expect(result.history).toEqual([])
+  })
+})
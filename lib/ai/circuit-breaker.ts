@@ -0,0 +1,447 @@
+import type IORedis from 'ioredis'
+import { getSharedConnection } from '@/lib/queue/redis-connection'
+import { createServiceClient } from '@/lib/supabase/service'
+
+/**
+ * Circuit breakers for AI providers
+ *
+ * Every provider has a provider-wide circuit, and every model a circuit of
+ * its own. A circuit opens when the outage rate or the slow-call rate of real
+ * calls in the rolling window crosses its threshold. After openMs one trial
+ * call is let through (half-open): success closes the circuit, failure opens
+ * it again. State lives in Redis when the shared connection is up so all
+ * instances agree, otherwise in this process.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerConfig {
+  // Rolling window the rates are calculated over
+  windowMs: number
+  // Calls needed in the window before the rates count
+  minRequests: number
+  // Share of calls failing with an outage that opens the circuit (0-1)
+  errorRateThreshold: number
+  // Calls slower than this count as slow
+  slowCallMs: number
+  // Share of slow calls that opens the circuit (0-1)
+  slowRateThreshold: number
+  // How long an open circuit rejects calls before allowing a trial
+  openMs: number
+  // A trial that never reports back frees the slot after this long
+  trialTimeoutMs: number
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  windowMs: 2 * 60 * 1000,
+  minRequests: 5,
+  errorRateThreshold: 0.5,
+  slowCallMs: 30000,
+  slowRateThreshold: 0.8,
+  openMs: 30000,
+  trialTimeoutMs: 60000
+}
+
+export interface CircuitSnapshot {
+  key: string
+  provider: string
+  // null for the provider-wide circuit
+  model: string | null
+  state: CircuitState
+  requests: number
+  errorRate: number
+  slowRate: number
+  p95LatencyMs: number
+  openedAt: string | null
+  reason: string | null
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public provider: string, public model: string | null) {
+    super(`${model || provider} is temporarily unavailable (circuit open)`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * Failures that say the provider is down rather than that the request was bad.
+ * Only these count against a circuit.
+ */
+export function isProviderOutage(error: any): boolean {
+  if (error instanceof CircuitOpenError) return false
+
+  const status = error?.status ?? error?.response?.status
+  if (typeof status === 'number' && status >= 500) return true
+
+  const message = String(error?.message || '')
+  return /\b5\d\d\b|service unavailable|overloaded|timeout|ECONNRESET|ETIMEDOUT|fetch failed|network/i.test(message)
+}
+
+interface CallSample {
+  at: number
+  ok: boolean
+  latencyMs: number
+}
+
+interface CircuitRecord {
+  state: CircuitState
+  openedAt: number | null
+  reason: string | null
+}
+
+const CLOSED: CircuitRecord = { state: 'closed', openedAt: null, reason: null }
+
+interface CircuitStore {
+  getRecord(key: string): Promise<CircuitRecord>
+  setRecord(key: string, record: CircuitRecord): Promise<void>
+  // Adds the sample and returns every sample still in the window
+  addSample(key: string, sample: CallSample, windowMs: number): Promise<CallSample[]>
+  getSamples(key: string, windowMs: number): Promise<CallSample[]>
+  clearSamples(key: string): Promise<void>
+  claimTrial(key: string, ttlMs: number): Promise<boolean>
+  releaseTrial(key: string): Promise<void>
+  keys(): Promise<string[]>
+}
+
+class MemoryCircuitStore implements CircuitStore {
+  private records = new Map<string, CircuitRecord>()
+  private samples = new Map<string, CallSample[]>()
+  private trials = new Map<string, number>()
+
+  async getRecord(key: string) {
+    return this.records.get(key) || CLOSED
+  }
+
+  async setRecord(key: string, record: CircuitRecord) {
+    this.records.set(key, record)
+  }
+
+  async addSample(key: string, sample: CallSample, windowMs: number) {
+    const samples = [...(await this.getSamples(key, windowMs)), sample]
+    this.samples.set(key, samples)
+    return samples
+  }
+
+  async getSamples(key: string, windowMs: number) {
+    const since = Date.now() - windowMs
+    return (this.samples.get(key) || []).filter(sample => sample.at > since)
+  }
+
+  async clearSamples(key: string) {
+    this.samples.delete(key)
+  }
+
+  async claimTrial(key: string, ttlMs: number) {
+    const claimedAt = this.trials.get(key)
+    if (claimedAt && Date.now() - claimedAt < ttlMs) return false
+    this.trials.set(key, Date.now())
+    return true
+  }
+
+  async releaseTrial(key: string) {
+    this.trials.delete(key)
+  }
+
+  async keys() {
+    return Array.from(new Set([...this.records.keys(), ...this.samples.keys()]))
+  }
+}
+
+const REDIS_PREFIX = 'circuit:'
+
+class RedisCircuitStore implements CircuitStore {
+  constructor(private redis: IORedis) {}
+
+  async getRecord(key: string): Promise<CircuitRecord> {
+    const stored = await this.redis.hgetall(`${REDIS_PREFIX}${key}:state`)
+    if (!stored.state) return CLOSED
+    return {
+      state: stored.state as CircuitState,
+      openedAt: stored.openedAt ? Number(stored.openedAt) : null,
+      reason: stored.reason || null
+    }
+  }
+
+  async setRecord(key: string, record: CircuitRecord) {
+    await this.redis.multi()
+      .hset(`${REDIS_PREFIX}${key}:state`, {
+        state: record.state,
+        openedAt: record.openedAt ?? '',
+        reason: record.reason ?? ''
+      })
+      .sadd(`${REDIS_PREFIX}keys`, key)
+      .exec()
+  }
+
+  async addSample(key: string, sample: CallSample, windowMs: number) {
+    const samplesKey = `${REDIS_PREFIX}${key}:calls`
+    const member = `${sample.at}:${sample.ok ? 1 : 0}:${sample.latencyMs}:${Math.random().toString(36).slice(2, 8)}`
+    const since = Date.now() - windowMs
+
+    const results = await this.redis.multi()
+      .zadd(samplesKey, sample.at, member)
+      .zremrangebyscore(samplesKey, 0, since)
+      .pexpire(samplesKey, windowMs * 2)
+      .sadd(`${REDIS_PREFIX}keys`, key)
+      .zrangebyscore(samplesKey, since, '+inf')
+      .exec()
+
+    return parseSamples((results?.[4]?.[1] as string[]) || [])
+  }
+
+  async getSamples(key: string, windowMs: number) {
+    const members = await this.redis.zrangebyscore(`${REDIS_PREFIX}${key}:calls`, Date.now() - windowMs, '+inf')
+    return parseSamples(members)
+  }
+
+  async clearSamples(key: string) {
+    await this.redis.del(`${REDIS_PREFIX}${key}:calls`)
+  }
+
+  async claimTrial(key: string, ttlMs: number) {
+    return (await this.redis.set(`${REDIS_PREFIX}${key}:trial`, '1', 'PX', ttlMs, 'NX')) === 'OK'
+  }
+
+  async releaseTrial(key: string) {
+    await this.redis.del(`${REDIS_PREFIX}${key}:trial`)
+  }
+
+  async keys() {
+    return this.redis.smembers(`${REDIS_PREFIX}keys`)
+  }
+}
+
+function parseSamples(members: string[]): CallSample[] {
+  return members.map(member => {
+    const [at, ok, latencyMs] = member.split(':')
+    return { at: Number(at), ok: ok === '1', latencyMs: Number(latencyMs) }
+  })
+}
+
+function circuitKey(provider: string, model?: string | null) {
+  return model ? `${provider}/${model}` : provider
+}
+
+function parseCircuitKey(key: string) {
+  const [provider, ...model] = key.split('/')
+  return { provider, model: model.length > 0 ? model.join('/') : null }
+}
+
+function summarize(samples: CallSample[], slowCallMs: number) {
+  const requests = samples.length
+  if (requests === 0) return { requests, errorRate: 0, slowRate: 0, p95LatencyMs: 0 }
+
+  const latencies = samples.map(sample => sample.latencyMs).sort((a, b) => a - b)
+  return {
+    requests,
+    errorRate: samples.filter(sample => !sample.ok).length / requests,
+    slowRate: samples.filter(sample => sample.latencyMs > slowCallMs).length / requests,
+    p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))]
+  }
+}
+
+// How often to ask for the shared Redis connection again while it's down
+const REDIS_RETRY_MS = 30000
+
+export class CircuitBreaker {
+  private memoryStore = new MemoryCircuitStore()
+  private redis: IORedis | null = null
+  private lastRedisAttempt = 0
+
+  constructor(private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {}
+
+  private getStore(): CircuitStore {
+    if (this.redis?.status !== 'ready' && Date.now() - this.lastRedisAttempt > REDIS_RETRY_MS) {
+      this.lastRedisAttempt = Date.now()
+      this.redis = getSharedConnection()
+    }
+    return this.redis?.status === 'ready' ? new RedisCircuitStore(this.redis) : this.memoryStore
+  }
+
+  isShared(): boolean {
+    return this.redis?.status === 'ready'
+  }
+
+  /**
+   * Whether a call to this provider and model may go ahead. Claims the trial
+   * slot when a circuit is due one, so only one caller gets true.
+   */
+  async canRequest(provider: string, model?: string | null): Promise<boolean> {
+    try {
+      const store = this.getStore()
+      for (const key of [circuitKey(provider), ...(model ? [circuitKey(provider, model)] : [])]) {
+        if (!(await this.allows(store, key))) return false
+      }
+      return true
+    } catch (error) {
+      // The breaker must never be the reason a call fails
+      console.error('[CircuitBreaker] State unavailable, allowing call:', error)
+      return true
+    }
+  }
+
+  private async allows(store: CircuitStore, key: string): Promise<boolean> {
+    const record = await store.getRecord(key)
+    if (record.state === 'closed') return true
+
+    if (record.state === 'open' && Date.now() - (record.openedAt || 0) < this.config.openMs) {
+      return false
+    }
+
+    if (!(await store.claimTrial(key, this.config.trialTimeoutMs))) return false
+    if (record.state === 'open') {
+      await store.setRecord(key, { ...record, state: 'half_open' })
+    }
+    return true
+  }
+
+  /**
+   * Feed the outcome of a call into the provider's and the model's circuits.
+   * Errors that aren't outages (bad requests, refused keys) count as answers.
+   */
+  async record(provider: string, model: string | null | undefined, latencyMs: number, error?: any): Promise<void> {
+    try {
+      const store = this.getStore()
+      const sample = { at: Date.now(), ok: !error || !isProviderOutage(error), latencyMs }
+
+      for (const key of [circuitKey(provider), ...(model ? [circuitKey(provider, model)] : [])]) {
+        await this.update(store, key, sample)
+      }
+    } catch (recordError) {
+      console.error('[CircuitBreaker] Failed to record call:', recordError)
+    }
+  }
+
+  private async update(store: CircuitStore, key: string, sample: CallSample) {
+    const samples = await store.addSample(key, sample, this.config.windowMs)
+    const record = await store.getRecord(key)
+
+    if (record.state === 'half_open') {
+      await store.releaseTrial(key)
+      if (sample.ok && sample.latencyMs <= this.config.slowCallMs) {
+        // Start the closed circuit with a clean window so old failures don't reopen it
+        await store.clearSamples(key)
+        await store.setRecord(key, CLOSED)
+        console.log(`[CircuitBreaker] ${key} closed after a successful trial`)
+      } else {
+        await store.setRecord(key, { state: 'open', openedAt: Date.now(), reason: 'Trial call failed' })
+        console.warn(`[CircuitBreaker] ${key} reopened after a failed trial`)
+      }
+      return
+    }
+
+    if (record.state === 'open') return
+
+    const stats = summarize(samples, this.config.slowCallMs)
+    if (stats.requests < this.config.minRequests) return
+
+    const reason = stats.errorRate >= this.config.errorRateThreshold
+      ? `${Math.round(stats.errorRate * 100)}% of ${stats.requests} calls failed`
+      : stats.slowRate >= this.config.slowRateThreshold
+        ? `${Math.round(stats.slowRate * 100)}% of ${stats.requests} calls took over ${this.config.slowCallMs / 1000}s`
+        : null
+    if (!reason) return
+
+    await store.setRecord(key, { state: 'open', openedAt: Date.now(), reason })
+    console.warn(`[CircuitBreaker] ${key} opened: ${reason}`)
+    await this.raiseAlert(key, reason, stats)
+  }
+
+  /**
+   * Open circuits show up under Active Alerts on the admin monitoring page.
+   * One unacknowledged alert per circuit; instances racing to open the same
+   * circuit find the existing one.
+   */
+  private async raiseAlert(key: string, reason: string, stats: ReturnType<typeof summarize>) {
+    const supabase = createServiceClient()
+    const { provider, model } = parseCircuitKey(key)
+    const byErrors = stats.errorRate >= this.config.errorRateThreshold
+
+    try {
+      const { data: existing } = await supabase
+        .from('scaling_alerts')
+        .select('id')
+        .eq('alert_type', 'provider_circuit_open')
+        .eq('acknowledged', false)
+        .contains('metadata', { circuit: key })
+        .limit(1)
+
+      if (existing && existing.length > 0) return
+
+      const { error } = await supabase
+        .from('scaling_alerts')
+        .insert({
+          alert_type: 'provider_circuit_open',
+          severity: model ? 'warning' : 'critical',
+          metric_name: byErrors ? `${key} error_rate` : `${key} slow_call_rate`,
+          current_value: Math.round((byErrors ? stats.errorRate : stats.slowRate) * 100),
+          threshold_value: Math.round((byErrors ? this.config.errorRateThreshold : this.config.slowRateThreshold) * 100),
+          recommendation: `${model || provider} is being skipped until a trial call succeeds (${reason}). Check the provider's status page and the fallback models.`,
+          metadata: { circuit: key, provider, model, reason }
+        })
+
+      if (error) {
+        console.error('[CircuitBreaker] Failed to create alert:', error)
+      }
+    } catch (error) {
+      console.error('[CircuitBreaker] Error creating alert:', error)
+    }
+  }
+
+  /**
+   * Run a provider call through the circuit. Throws CircuitOpenError without
+   * calling when the circuit is open, unless force is set (the caller has
+   * nothing left to try).
+   */
+  async call<T>(
+    provider: string,
+    model: string | null | undefined,
+    fn: () => Promise<T>,
+    options: { force?: boolean } = {}
+  ): Promise<T> {
+    if (!options.force && !(await this.canRequest(provider, model))) {
+      throw new CircuitOpenError(provider, model || null)
+    }
+
+    const startedAt = Date.now()
+    try {
+      const result = await fn()
+      await this.record(provider, model, Date.now() - startedAt)
+      return result
+    } catch (error) {
+      await this.record(provider, model, Date.now() - startedAt, error)
+      throw error
+    }
+  }
+
+  async getSnapshots(): Promise<CircuitSnapshot[]> {
+    const store = this.getStore()
+    const keys = (await store.keys()).sort()
+
+    return Promise.all(keys.map(async key => {
+      const [record, samples] = await Promise.all([
+        store.getRecord(key),
+        store.getSamples(key, this.config.windowMs)
+      ])
+
+      return {
+        key,
+        ...parseCircuitKey(key),
+        state: record.state,
+        ...summarize(samples, this.config.slowCallMs),
+        openedAt: record.openedAt ? new Date(record.openedAt).toISOString() : null,
+        reason: record.reason
+      }
+    }))
+  }
+}
+
+// Singleton instance
+let breakerInstance: CircuitBreaker | null = null
+
+export function getCircuitBreaker(): CircuitBreaker {
+  if (!breakerInstance) {
+    breakerInstance = new CircuitBreaker()
+  }
+  return breakerInstance
+}
@@ -0,0 +1,116 @@
+import { ChatMessage } from './providers/base'
+import { countMessageTokens, countTokens } from './tokenizer'
+import { TokenBreakdown } from '@/lib/types/context-budget'
+
+/**
+ * Fit the prompt stack into a model's context window
+ *
+ * The fixed layers (hidden prompt, agent instructions, the user's message)
+ * always go in. What's left after reserving room for the reply is split
+ * between retrieved knowledge, which gets up to KNOWLEDGE_SHARE and loses its
+ * lowest-similarity chunks first, and conversation history, which keeps the
+ * most recent messages that fit.
+ */
+
+// Used when no candidate model has context_window set in ai_models
+export const DEFAULT_CONTEXT_WINDOW = 8192
+// Reply reserve when the agent has no max_tokens
+const DEFAULT_REPLY_TOKENS = 1024
+// Share of the free space knowledge may take before history gets the rest
+const KNOWLEDGE_SHARE = 0.6
+
+export interface KnowledgeItem<T> {
+  item: T
+  // Higher is more relevant; the lowest is dropped first
+  score: number
+}
+
+export interface PromptContextOptions<T> {
+  // Model the tokens are counted for
+  model: string
+  contextWindow: number
+  maxReplyTokens?: number | null
+  // System text that is always sent in full
+  instructions: string
+  knowledge: KnowledgeItem<T>[]
+  // Knowledge section for the kept items, in their original order ('' for none)
+  renderKnowledge: (items: T[]) => string
+  history: ChatMessage[]
+  message: string
+}
+
+export interface PromptContext<T> {
+  knowledge: T[]
+  knowledgeText: string
+  history: ChatMessage[]
+  breakdown: TokenBreakdown
+}
+
+/**
+ * Smallest known context window among the models a reply may come from
+ */
+export function smallestContextWindow(windows: Array<number | null | undefined>): number {
+  const known = windows.filter((window): window is number => typeof window === 'number' && window > 0)
+  return known.length > 0 ? Math.min(...known) : DEFAULT_CONTEXT_WINDOW
+}
+
+export function buildPromptContext<T>(options: PromptContextOptions<T>): PromptContext<T> {
+  const { model, contextWindow } = options
+
+  // Never reserve more than a quarter of a small window for the reply
+  const reservedForReply = Math.min(options.maxReplyTokens || DEFAULT_REPLY_TOKENS, Math.floor(contextWindow / 4))
+  // Reply priming is counted once for the whole request, framing once per message
+  const priming = countMessageTokens([], model)
+  const framed = (message: ChatMessage) => countMessageTokens([message], model) - priming
+
+  const instructionTokens = countTokens(options.instructions, model)
+  const messageTokens = framed({ role: 'user', content: options.message })
+  const systemFraming = framed({ role: 'system', content: '' })
+
+  const available = Math.max(
+    0,
+    contextWindow - reservedForReply - priming - systemFraming - instructionTokens - messageTokens
+  )
+
+  // Knowledge: drop the least relevant chunk until the section fits its share
+  const knowledgeBudget = Math.floor(available * KNOWLEDGE_SHARE)
+  let kept = [...options.knowledge]
+  let knowledgeText = options.renderKnowledge(kept.map(entry => entry.item))
+  let knowledgeTokens = countTokens(knowledgeText, model)
+
+  while (kept.length > 0 && knowledgeTokens > knowledgeBudget) {
+    const lowest = kept.reduce((min, entry) => entry.score < min.score ? entry : min)
+    kept = kept.filter(entry => entry !== lowest)
+    knowledgeText = options.renderKnowledge(kept.map(entry => entry.item))
+    knowledgeTokens = countTokens(knowledgeText, model)
+  }
+
+  // History: newest first until the remaining space is used up
+  const historyBudget = available - knowledgeTokens
+  const history: ChatMessage[] = []
+  let historyTokens = 0
+  for (let i = options.history.length - 1; i >= 0; i--) {
+    const tokens = framed(options.history[i])
+    if (historyTokens + tokens > historyBudget) break
+    historyTokens += tokens
+    history.unshift(options.history[i])
+  }
+
+  return {
+    knowledge: kept.map(entry => entry.item),
+    knowledgeText,
+    history,
+    breakdown: {
+      model,
+      contextWindow,
+      reservedForReply,
+      instructions: instructionTokens,
+      knowledge: knowledgeTokens,
+      history: historyTokens,
+      message: messageTokens,
+      total: priming + systemFraming + instructionTokens + knowledgeTokens + historyTokens + messageTokens,
+      droppedChunks: options.knowledge.length - kept.length,
+      droppedMessages: options.history.length - history.length
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { AIProvider } from './providers/base'
+import { OpenAIProvider } from './providers/openai'
+import { GoogleProvider } from './providers/google'
+import { LocalEmbeddingProvider } from './providers/local'
+import { loadRegisteredProvider } from './registered-providers'
+import { KeySource, ProjectCredentialError, getProjectCredential, isPlatformFallbackAllowed } from './project-credentials'
+
+/**
+ * Create an initialized provider that can embed text
+ * Built-in providers read their keys from the environment unless apiKey is
+ * given; any other name is looked up in ai_providers and treated as an
+ * OpenAI-compatible endpoint.
+ * Uses the service client so it also works from queue workers.
+ */
+export async function createEmbeddingProvider(providerName: string, apiKey?: string): Promise<AIProvider> {
+  const config = apiKey ? { apiKey } : {}
+  let provider: AIProvider
+
+  switch (providerName) {
+    case 'openai':
+      provider = new OpenAIProvider()
+      await provider.initialize(config) // Falls back to OPENAI_API_KEY from env
+      break
+    case 'google':
+      provider = new GoogleProvider()
+      await provider.initialize(config) // Falls back to GEMINI_API_KEY from env
+      break
+    case 'local':
+      provider = new LocalEmbeddingProvider()
+      await provider.initialize({})
+      break
+    default: {
+      const registered = await loadRegisteredProvider(providerName, apiKey)
+      if (!registered) {
+        throw new Error(`Embedding provider ${providerName} not found`)
+      }
+      provider = registered
+    }
+  }
+
+  if (!provider.isConfigured()) {
+    throw new Error(`Provider ${providerName} not configured. Please ensure API keys are set in environment variables.`)
+  }
+
+  if (!provider.embed || (provider.supportsEmbeddings && !provider.supportsEmbeddings())) {
+    throw new Error(`Provider ${providerName} does not support embeddings`)
+  }
+
+  return provider
+}
+
+/**
+ * The embedding provider for a project: its own key when it saved a valid
+ * one (and useProjectKey isn't turned off after a failure), otherwise the
+ * platform key if the project has no key of its own or its plan allows
+ * falling back
+ */
+export async function createProjectEmbeddingProvider(
+  projectId: string,
+  providerName: string,
+  useProjectKey = true
+): Promise<{ provider: AIProvider; keySource: KeySource; credentialId: string | null }> {
+  const credential = await getProjectCredential(projectId, providerName)
+
+  if (credential?.status === 'valid' && useProjectKey) {
+    return {
+      provider: await createEmbeddingProvider(providerName, credential.apiKey),
+      keySource: 'project',
+      credentialId: credential.id
+    }
+  }
+
+  if (credential && !(await isPlatformFallbackAllowed(projectId))) {
+    throw new ProjectCredentialError(providerName, useProjectKey ? 'it was marked invalid' : 'it was refused')
+  }
+
+  return {
+    provider: await createEmbeddingProvider(providerName),
+    keySource: 'platform',
+    credentialId: null
+  }
+}
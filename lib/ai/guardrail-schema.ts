@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { guardrailPatternProblem, MAX_GUARDRAIL_PATTERN_LENGTH } from '@/lib/types/guardrails'
+
+const CheckSchema = z.object({
+  input: z.boolean(),
+  output: z.boolean(),
+  action: z.enum(['block', 'redact', 'rewrite', 'handoff'])
+})
+
+export const GuardrailPolicySchema = z.object({
+  enabled: z.boolean(),
+  blockedTopics: CheckSchema.extend({
+    topics: z.array(z.string().trim().max(200)).max(500)
+  }),
+  patterns: CheckSchema.extend({
+    rules: z.array(z.object({
+      name: z.string().trim().max(100),
+      pattern: z.string().min(1).max(MAX_GUARDRAIL_PATTERN_LENGTH).superRefine((pattern, ctx) => {
+        const problem = guardrailPatternProblem(pattern)
+        if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem })
+      })
+    })).max(50)
+  }),
+  pii: CheckSchema.extend({
+    types: z.array(z.enum(['email', 'phone', 'card']))
+  }),
+  moderation: CheckSchema.extend({
+    model: z.string().optional(),
+    categories: z.array(z.string()).min(1)
+  }),
+  blockMessage: z.string().trim().min(1).max(1000),
+  handoffMessage: z.string().trim().min(1).max(1000)
+})
+
+// An agent's own checks, stored in agents.config.guardrails
+export const AgentGuardrailSettingsSchema = GuardrailPolicySchema.extend({
+  override: z.boolean()
+})
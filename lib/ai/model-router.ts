@@ -0,0 +1,197 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { CircuitOpenError, getCircuitBreaker } from './circuit-breaker'
+import { ProjectCredentialError } from './project-credentials'
+import {
+  RouteAttempt,
+  RoutingConditions,
+  RoutingDecision,
+  RoutingPolicy,
+  RoutingRule,
+  RoutingSignals
+} from '@/lib/types/routing'
+
+/**
+ * Per-agent model routing
+ * planRoute turns an agent's policy into an ordered list of concrete ai_models
+ * rows; runRoute walks that list until one answers, skipping models whose
+ * circuit breaker is open, and reports which model answered and why.
+ */
+
+export interface RouteCandidate {
+  model: string
+  provider: string
+  // ai_models.context_window, null when unknown
+  contextWindow: number | null
+  // ai_models.supports_vision; other models get a note in place of images
+  supportsVision: boolean
+  // Why this model is in the list, e.g. 'agent model' or 'rule "Small talk" (...)'
+  reason: string
+}
+
+const SMALL_TALK_PATTERN = /^(hi+|hello|hey|hiya|yo|good (morning|afternoon|evening)|thanks|thank you|thx|ty|ok(ay)?|cool|great|nice|bye|goodbye|see you|how are you)\b/i
+
+/**
+ * Short greetings, thanks and acknowledgements
+ */
+export function isSmallTalk(message: string): boolean {
+  const text = message.trim()
+  return text.length <= 40 && SMALL_TALK_PATTERN.test(text)
+}
+
+function matchesConditions(when: RoutingConditions, signals: RoutingSignals): boolean {
+  if (when.maxMessageChars != null && signals.message.trim().length > when.maxMessageChars) return false
+  if (when.smallTalk && !isSmallTalk(signals.message)) return false
+  if (when.maxRetrievalScore != null &&
+      (signals.topRetrievalScore === null || signals.topRetrievalScore >= when.maxRetrievalScore)) return false
+  if (when.minConversationMessages != null && signals.conversationMessages < when.minConversationMessages) return false
+  return true
+}
+
+function describeMatch(rule: RoutingRule, signals: RoutingSignals): string {
+  const details: string[] = []
+  if (rule.when.smallTalk) details.push('small talk')
+  if (rule.when.maxMessageChars != null) details.push(`${signals.message.trim().length} chars`)
+  if (rule.when.maxRetrievalScore != null) details.push(`top retrieval score ${signals.topRetrievalScore?.toFixed(2)}`)
+  if (rule.when.minConversationMessages != null) details.push(`${signals.conversationMessages} earlier messages`)
+  return details.length > 0 ? `rule "${rule.name}" (${details.join(', ')})` : `rule "${rule.name}"`
+}
+
+/**
+ * Ordered models to try for a message
+ * explicitModel skips the rules because the caller asked for that model;
+ * allowCatalogFallbacks is false when the project may not use platform keys.
+ * Inactive or unknown models are dropped.
+ */
+export async function planRoute(options: {
+  policy: RoutingPolicy
+  defaultModel: string
+  signals: RoutingSignals
+  explicitModel?: boolean
+  allowCatalogFallbacks?: boolean
+}): Promise<RouteCandidate[]> {
+  const { policy, defaultModel, signals } = options
+  const wanted: Array<{ model: string; reason: string }> = []
+
+  if (policy.enabled && !options.explicitModel) {
+    const rule = policy.rules.find(rule => rule.model && matchesConditions(rule.when || {}, signals))
+    if (rule) {
+      wanted.push({ model: rule.model, reason: describeMatch(rule, signals) })
+    }
+  }
+
+  wanted.push({ model: defaultModel, reason: options.explicitModel ? 'requested model' : 'agent model' })
+
+  if (policy.enabled) {
+    for (const model of policy.fallbackChain) {
+      wanted.push({ model, reason: 'fallback chain' })
+    }
+  }
+
+  const supabase = createServiceClient()
+  const { data: catalog } = await supabase
+    .from('ai_models')
+    .select('name, provider, context_window, supports_vision')
+    .eq('is_active', true)
+    .order('is_fallback', { ascending: false })
+    .order('sort_order', { ascending: true })
+
+  const byName = new Map((catalog || []).map(model => [model.name, model]))
+  const candidates: RouteCandidate[] = []
+
+  for (const { model, reason } of wanted) {
+    const entry = byName.get(model)
+    if (!entry || candidates.some(candidate => candidate.model === model)) continue
+    candidates.push({
+      model,
+      provider: entry.provider,
+      contextWindow: entry.context_window,
+      supportsVision: !!entry.supports_vision,
+      reason
+    })
+  }
+
+  const useCatalog = (!policy.enabled || policy.useCatalogFallbacks) && options.allowCatalogFallbacks !== false
+  if (useCatalog) {
+    // One model per provider not already in the list, as ProviderManager picks them
+    const covered = new Set(candidates.map(candidate => candidate.provider))
+    for (const model of catalog || []) {
+      if (covered.has(model.provider)) continue
+      covered.add(model.provider)
+      candidates.push({
+        model: model.name,
+        provider: model.provider,
+        contextWindow: model.context_window,
+        supportsVision: !!model.supports_vision,
+        reason: 'catalog fallback'
+      })
+    }
+  }
+
+  return candidates
+}
+
+function explain(candidate: RouteCandidate, attempts: RouteAttempt[]): string {
+  const passed = attempts.filter(attempt => attempt.model !== candidate.model)
+  if (passed.length === 0) return candidate.reason
+
+  const why = passed.map(attempt => `${attempt.model} ${attempt.skipped ? 'circuit open' : 'failed'}`)
+  return `${candidate.reason} after ${why.join(', ')}`
+}
+
+/**
+ * Call each candidate in turn until one succeeds
+ * Models whose circuit is open are skipped unless they're the last option.
+ * The walk ends early when canRetry returns false (a failed attempt already
+ * sent something to the client) or when the project's own key was refused
+ * and its plan doesn't allow platform keys.
+ */
+export async function runRoute<T>(
+  candidates: RouteCandidate[],
+  call: (candidate: RouteCandidate) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<{ result: T; decision: RoutingDecision }> {
+  if (candidates.length === 0) {
+    throw new Error('No active model is available to answer. Please contact administrator.')
+  }
+
+  const breaker = getCircuitBreaker()
+  const attempts: RouteAttempt[] = []
+  let lastError: any
+
+  for (const [index, candidate] of candidates.entries()) {
+    const isLast = index === candidates.length - 1
+
+    try {
+      const result = await breaker.call(
+        candidate.provider,
+        candidate.model,
+        () => call(candidate),
+        { force: isLast }
+      )
+      attempts.push({ model: candidate.model, provider: candidate.provider })
+
+      return {
+        result,
+        decision: {
+          model: candidate.model,
+          provider: candidate.provider,
+          reason: explain(candidate, attempts),
+          attempts
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof CircuitOpenError) {
+        attempts.push({ model: candidate.model, provider: candidate.provider, skipped: true })
+        continue
+      }
+
+      lastError = error
+      attempts.push({ model: candidate.model, provider: candidate.provider, error: error.message })
+      console.error(`[Routing] ${candidate.model} failed:`, error.message)
+
+      if (error instanceof ProjectCredentialError || !canRetry()) break
+    }
+  }
+
+  throw lastError
+}
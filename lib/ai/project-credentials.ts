@@ -0,0 +1,218 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { PlanService } from '@/lib/plans/plan-service'
+import { decryptSecret, encryptSecret, secretHint } from '@/lib/utils/encryption'
+
+/**
+ * Per-project provider API keys ("bring your own key")
+ * Keys are encrypted before they reach the database and only decrypted on the
+ * server when a call is made. Rows are read and written with the service role
+ * after the API has checked project ownership; the browser only ever sees the
+ * key hint and validation status.
+ */
+
+// Whose key paid for a call, recorded on usage_logs.key_source
+export type KeySource = 'project' | 'platform'
+
+// Plan feature that lets a project fall back to platform keys when its own key fails
+export const PLATFORM_FALLBACK_FEATURE = 'platform_key_fallback'
+
+export interface ProjectCredential {
+  id: string
+  provider: string
+  apiKey: string
+  status: 'valid' | 'invalid'
+}
+
+export interface ProjectCredentialSummary {
+  provider: string
+  key_hint: string | null
+  status: 'valid' | 'invalid'
+  last_validated_at: string | null
+  last_error: string | null
+  updated_at: string | null
+}
+
+/**
+ * Thrown when a project's own key can't be used and its plan doesn't allow
+ * falling back to the platform key. Callers must not retry with platform keys.
+ */
+export class ProjectCredentialError extends Error {
+  constructor(public provider: string, reason: string) {
+    super(`The project's ${provider} API key can't be used (${reason}). Update it in project settings.`)
+    this.name = 'ProjectCredentialError'
+  }
+}
+
+export async function getProjectCredential(projectId: string, provider: string): Promise<ProjectCredential | null> {
+  const supabase = createServiceClient()
+  const { data: row } = await supabase
+    .from('project_provider_credentials')
+    .select('id, provider, encrypted_key, status')
+    .eq('project_id', projectId)
+    .eq('provider', provider)
+    .maybeSingle()
+
+  if (!row) return null
+
+  try {
+    return {
+      id: row.id,
+      provider: row.provider,
+      apiKey: decryptSecret(row.encrypted_key),
+      status: row.status as ProjectCredential['status']
+    }
+  } catch (error: any) {
+    // A rotated encryption key makes old rows unreadable; treat them as invalid
+    console.error(`Failed to decrypt ${provider} credential for project ${projectId}:`, error.message)
+    return { id: row.id, provider: row.provider, apiKey: '', status: 'invalid' }
+  }
+}
+
+export async function listProjectCredentials(projectId: string): Promise<ProjectCredentialSummary[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('project_provider_credentials')
+    .select('provider, key_hint, status, last_validated_at, last_error, updated_at')
+    .eq('project_id', projectId)
+    .order('provider')
+
+  if (error) {
+    throw new Error(`Failed to list credentials: ${error.message}`)
+  }
+
+  return (data || []) as ProjectCredentialSummary[]
+}
+
+/**
+ * Store a key that has already passed the provider's health check
+ */
+export async function saveProjectCredential(
+  projectId: string,
+  provider: string,
+  apiKey: string,
+  userId: string
+): Promise<void> {
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('project_provider_credentials')
+    .upsert({
+      project_id: projectId,
+      provider,
+      encrypted_key: encryptSecret(apiKey),
+      key_hint: secretHint(apiKey),
+      status: 'valid',
+      last_validated_at: now,
+      last_error: null,
+      created_by: userId,
+      updated_at: now
+    }, { onConflict: 'project_id,provider' })
+
+  if (error) {
+    throw new Error(`Failed to save credential: ${error.message}`)
+  }
+}
+
+export async function deleteProjectCredential(projectId: string, provider: string): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('project_provider_credentials')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('provider', provider)
+
+  if (error) {
+    throw new Error(`Failed to delete credential: ${error.message}`)
+  }
+}
+
+export async function markCredentialInvalid(credentialId: string, reason: string): Promise<void> {
+  const supabase = createServiceClient()
+  await supabase
+    .from('project_provider_credentials')
+    .update({
+      status: 'invalid',
+      last_error: reason.slice(0, 500),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', credentialId)
+}
+
+/**
+ * Whether the project's plan lets calls fall back to platform keys when the
+ * project's own key is invalid or rejected. Projects without a subscription
+ * are on the starter plan.
+ */
+export async function isPlatformFallbackAllowed(projectId: string): Promise<boolean> {
+  const planService = new PlanService()
+  const subscription = await planService.getProjectSubscriptionWithPlan(projectId)
+  const plan = subscription?.plan || await planService.getPlanByName('starter')
+
+  return plan ? planService.isPlanFeatureEnabled(plan, PLATFORM_FALLBACK_FEATURE) : false
+}
+
+/**
+ * Whether calls for this project may be paid with platform keys at all:
+ * always for projects without their own keys, otherwise only when the plan
+ * allows falling back
+ */
+export async function mayUsePlatformKeys(projectId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { count } = await supabase
+    .from('project_provider_credentials')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+
+  if (!count) return true
+  return isPlatformFallbackAllowed(projectId)
+}
+
+/**
+ * Errors that mean the key itself was refused (rather than the request or
+ * the provider being at fault), so the key should be marked invalid
+ */
+export function isRejectedKeyError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status
+  if (status === 401 || status === 403) return true
+
+  const message = String(error?.message || '')
+  return /\b(401|403)\b|invalid.{0,20}api.?key|incorrect api key|api key not valid|permission denied|unauthorized/i.test(message)
+}
+
+/**
+ * Errors where another key would likely succeed: a refused key, or one whose
+ * account is out of quota or credit
+ */
+export function isCredentialError(error: any): boolean {
+  if (isRejectedKeyError(error)) return true
+
+  const message = String(error?.message || '')
+  return /insufficient_quota|exceeded your current quota|credit balance is too low|billing/i.test(message)
+}
+
+// Built-in providers whose classes take an apiKey; registered ones are added when they use a key
+const KEYED_BUILTIN_PROVIDERS = ['openai', 'google', 'anthropic']
+
+/**
+ * Providers a project can store its own key for
+ */
+export async function listKeyedProviders(): Promise<Array<{ name: string; display_name: string }>> {
+  const supabase = createServiceClient()
+  const { data: rows, error } = await supabase
+    .from('ai_providers')
+    .select('name, display_name, provider_class, is_builtin, api_key_env_var')
+    .eq('is_active', true)
+    .order('display_name')
+
+  if (error) {
+    throw new Error(`Failed to list providers: ${error.message}`)
+  }
+
+  return (rows || [])
+    .filter(row =>
+      KEYED_BUILTIN_PROVIDERS.includes(row.name) ||
+      (row.provider_class === 'CustomProvider' && !row.is_builtin && !!row.api_key_env_var)
+    )
+    .map(row => ({ name: row.name, display_name: row.display_name }))
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
 import { AIProvider } from './providers/base'
+import { toCustomProviderOptions } from '@/lib/types/providers'
 
 // Dynamic provider loading system
 export class ProviderLoader {
@@ -46,12 +47,10 @@ export class ProviderLoader {
       if (provider) {
         // Initialize with config from database
         await provider.initialize({
-          apiBaseUrl: config.api_base_url,
-          authHeaderName: config.auth_header_name,
-          authHeaderPrefix: config.auth_header_prefix,
+          name: config.name,
           features: config.features,
           pricing: config.pricing,
-          ...config.config_schema
+          ...toCustomProviderOptions(config)
         })
 
         this.providers.set(config.name, provider)
@@ -74,13 +73,8 @@ export class ProviderLoader {
           return new GoogleProvider()
 
         case 'AnthropicProvider':
-          // Only load if file exists
-          try {
-            const { AnthropicProvider } = await import('./providers/anthropic')
-            return new AnthropicProvider()
-          } catch {
-            return null
-          }
+          const { AnthropicProvider } = await import('./providers/anthropic')
+          return new AnthropicProvider()
 
         case 'CustomProvider':
           const { CustomProvider } = await import('./providers/custom')
@@ -1,7 +1,11 @@
 import { AIProvider, ChatCompletionOptions, ChatCompletionResult, HealthCheckResult } from './providers/base'
 import { OpenAIProvider } from './providers/openai'
 import { GoogleProvider } from './providers/google'
+import { AnthropicProvider } from './providers/anthropic'
+import { loadRegisteredProviders } from './registered-providers'
 import { retryAICall } from '@/lib/utils/retry'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getCircuitBreaker } from './circuit-breaker'
 
 interface ProviderHealth {
   provider: string
@@ -32,6 +36,19 @@ export class ProviderManager {
     if (google.isConfigured()) {
       this.providers.set('google', google)
     }
+
+    // Initialize Anthropic
+    const anthropic = new AnthropicProvider()
+    await anthropic.initialize({})
+    if (anthropic.isConfigured()) {
+      this.providers.set('anthropic', anthropic)
+    }
+
+    // OpenAI-compatible providers registered by admins
+    const registered = await loadRegisteredProviders()
+    for (const [name, provider] of registered) {
+      this.providers.set(name, provider)
+    }
   }
 
   async getHealthStatus(): Promise<ProviderHealth[]> {
@@ -59,19 +76,33 @@ export class ProviderManager {
       if (provider.healthCheck) {
         const health = await provider.healthCheck()
         this.healthCache.set(name, health)
+        // Synthetic checks count towards the provider-wide circuit alongside real calls
+        await getCircuitBreaker().record(
+          name,
+          null,
+          health.responseTime || 0,
+          health.isHealthy ? undefined : new Error(health.error || 'Health check failed')
+        )
       }
     })
 
     await Promise.all(checks)
   }
 
+  /**
+   * Every attempt, retries included, goes through the provider's circuit
+   * breaker. An open circuit fails fast with CircuitOpenError, which
+   * retryAICall doesn't retry.
+   */
   async chatWithFallback(options: ChatCompletionOptions, preferredProvider?: string): Promise<ChatCompletionResult & { provider: string }> {
+    const breaker = getCircuitBreaker()
+
     // Try preferred provider first if specified
     if (preferredProvider && this.providers.has(preferredProvider)) {
       const provider = this.providers.get(preferredProvider)!
       try {
         const result = await retryAICall(
-          () => provider.chat(options),
+          () => breaker.call(preferredProvider, options.model, () => provider.chat(options)),
           preferredProvider
         )
         return { ...result, provider: preferredProvider }
@@ -89,10 +120,17 @@ export class ProviderManager {
       const provider = this.providers.get(providerName)
       if (!provider || providerName === preferredProvider) continue // Skip if already tried
 
+      // The requested model id only means something to its own provider
+      const model = await this.getFallbackModel(providerName)
+      if (!model) {
+        console.warn(`No active ${providerName} model to fall back to`)
+        continue
+      }
+
       try {
-        console.log(`Attempting to use ${providerName} provider...`)
+        console.log(`Attempting to use ${providerName} provider with ${model}...`)
         const result = await retryAICall(
-          () => provider.chat(options),
+          () => breaker.call(providerName, model, () => provider.chat({ ...options, model })),
           providerName
         )
         return { ...result, provider: providerName }
@@ -105,6 +143,25 @@ export class ProviderManager {
     throw new Error('All AI providers are currently unavailable. Please try again later.')
   }
 
+  /**
+   * Model id to use when a provider stands in for another one
+   * Prefers models flagged is_fallback in the admin Models page, then sort order.
+   */
+  private async getFallbackModel(providerName: string): Promise<string | null> {
+    const supabase = createServiceClient()
+    const { data: model } = await supabase
+      .from('ai_models')
+      .select('model_id')
+      .eq('provider', providerName)
+      .eq('is_active', true)
+      .order('is_fallback', { ascending: false })
+      .order('sort_order', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    return model?.model_id || null
+  }
+
   getAvailableProviders(): string[] {
     return Array.from(this.providers.keys())
   }
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import { assertJsonPath } from '@/lib/actions/json-path'
+import { PROVIDER_API_KEY_ENV_VAR_PATTERN, RESPONSE_MAPPING_FIELDS, ResponseMappingField } from '@/lib/types/providers'
+
+// Names the code already resolves to its own provider classes
+const RESERVED_PROVIDER_NAMES = ['openai', 'google', 'anthropic', 'custom', 'local']
+
+export const ProviderModelSchema = z.object({
+  modelId: z.string().min(1).max(200),
+  displayName: z.string().min(1).max(200),
+  contextWindow: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  inputPricePerMillion: z.number().min(0).optional(),
+  outputPricePerMillion: z.number().min(0).optional()
+})
+
+const providerFields = {
+  displayName: z.string().min(1).max(100),
+  // Self-hosted servers are the point, so private hosts are allowed; only admins register providers
+  apiBaseUrl: z.string().max(2048).regex(/^https?:\/\/[^\s]+$/i, 'Base URL must start with http:// or https://'),
+  authHeaderName: z.string().min(1).max(100).regex(/^[A-Za-z0-9-]+$/).default('Authorization'),
+  authHeaderPrefix: z.string().max(20).default('Bearer'),
+  apiKeyEnvVar: z.string().max(128).regex(PROVIDER_API_KEY_ENV_VAR_PATTERN, 'Use an environment variable named CUSTOM_PROVIDER_<NAME>_API_KEY').nullable().default(null),
+  headers: z.record(z.string().max(1000)).default({}),
+  queryParams: z.record(z.string().max(1000)).default({}),
+  responseMapping: z.record(z.string()).default({}),
+  isActive: z.boolean().default(true),
+  models: z.array(ProviderModelSchema).max(100).default([])
+}
+
+function checkResponseMapping(mapping: Record<string, string> | undefined, ctx: z.RefinementCtx) {
+  for (const [field, path] of Object.entries(mapping || {})) {
+    if (!RESPONSE_MAPPING_FIELDS.includes(field as ResponseMappingField)) {
+      ctx.addIssue({ code: 'custom', path: ['responseMapping', field], message: `Unknown field: ${field}` })
+      continue
+    }
+    try {
+      assertJsonPath(path)
+    } catch (error: any) {
+      ctx.addIssue({ code: 'custom', path: ['responseMapping', field], message: error.message })
+    }
+  }
+}
+
+export const CreateProviderSchema = z.object({
+  name: z.string()
+    .regex(/^[a-z][a-z0-9-]{1,49}$/, 'Use lowercase letters, numbers and dashes')
+    .refine(name => !RESERVED_PROVIDER_NAMES.includes(name), 'This name is used by a built-in provider'),
+  ...providerFields
+}).superRefine((provider, ctx) => checkResponseMapping(provider.responseMapping, ctx))
+
+export const UpdateProviderSchema = z.object({
+  displayName: providerFields.displayName.optional(),
+  apiBaseUrl: providerFields.apiBaseUrl.optional(),
+  authHeaderName: z.string().min(1).max(100).regex(/^[A-Za-z0-9-]+$/).optional(),
+  authHeaderPrefix: z.string().max(20).optional(),
+  apiKeyEnvVar: z.string().max(128).regex(PROVIDER_API_KEY_ENV_VAR_PATTERN, 'Use an environment variable named CUSTOM_PROVIDER_<NAME>_API_KEY').nullable().optional(),
+  headers: z.record(z.string().max(1000)).optional(),
+  queryParams: z.record(z.string().max(1000)).optional(),
+  responseMapping: z.record(z.string()).optional(),
+  isActive: z.boolean().optional(),
+  models: z.array(ProviderModelSchema).max(100).optional()
+}).superRefine((provider, ctx) => checkResponseMapping(provider.responseMapping, ctx))
+
+export type ProviderModelInput = z.infer<typeof ProviderModelSchema>
+export type CreateProviderInput = z.infer<typeof CreateProviderSchema>
+export type UpdateProviderInput = z.infer<typeof UpdateProviderSchema>
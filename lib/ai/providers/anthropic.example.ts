@@ -1,58 +0,0 @@
-/**
- * Example implementation for Anthropic Claude provider
- * To use:
- * 1. Install SDK: npm install @anthropic-ai/sdk
- * 2. Add ANTHROPIC_API_KEY to .env.local
- * 3. Register in provider-registry.ts
- */
-
-import { AIProvider, ChatCompletionOptions, ChatCompletionResult } from './base'
-
-export class AnthropicProvider implements AIProvider {
-  name = 'anthropic'
-  private client: any = null
-  private apiKey: string = ''
-
-  async initialize(config: Record<string, any>): Promise<void> {
-    this.apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY || ''
-    if (this.apiKey) {
-      // const Anthropic = await import('@anthropic-ai/sdk')
-      // this.client = new Anthropic.default({ apiKey: this.apiKey })
-    }
-  }
-
-  isConfigured(): boolean {
-    return !!this.client && !!this.apiKey
-  }
-
-  getRequiredEnvVars(): string[] {
-    return ['ANTHROPIC_API_KEY']
-  }
-
-  async chat(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
-    if (!this.client) {
-      throw new Error('Anthropic provider not configured')
-    }
-
-    // Implementation would go here
-    // const completion = await this.client.messages.create({...})
-
-    return {
-      content: '',
-      model: options.model,
-      usage: undefined
-    }
-  }
-
-  estimateCost(tokens: number, model: string): number {
-    const pricing: Record<string, number> = {
-      'claude-3-opus': 0.015,
-      'claude-3-sonnet': 0.003,
-      'claude-3-haiku': 0.00025,
-      'claude-2.1': 0.008,
-      'claude-instant': 0.00016
-    }
-    const pricePerToken = pricing[model] || 0.003
-    return (tokens * pricePerToken) / 1000
-  }
-}
\ No newline at end of file
@@ -0,0 +1,344 @@
+import { AIProvider, ChatCompletionOptions, ChatCompletionResult, ChatMessage, ChatStreamChunk, HealthCheckResult, ToolCall, ToolDefinition } from './base'
+import { sanitizeLLMOptions } from '../utils/sanitize-options'
+
+const DEFAULT_API_BASE_URL = 'https://api.anthropic.com/v1'
+const API_VERSION = '2023-06-01'
+
+interface ModelPricing {
+  input_per_million: number
+  output_per_million: number
+}
+
+// USD per million tokens, matched on model id prefix. Used when a model has
+// no pricing in the database.
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-5': { input_per_million: 5, output_per_million: 25 },
+  'claude-sonnet-4': { input_per_million: 3, output_per_million: 15 },
+  'claude-haiku-4-5': { input_per_million: 1, output_per_million: 5 },
+  'claude-3-5-sonnet': { input_per_million: 3, output_per_million: 15 },
+  'claude-3-5-haiku': { input_per_million: 0.8, output_per_million: 4 },
+  'claude-3-opus': { input_per_million: 15, output_per_million: 75 },
+  'claude-3-sonnet': { input_per_million: 3, output_per_million: 15 },
+  'claude-3-haiku': { input_per_million: 0.25, output_per_million: 1.25 }
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: AnthropicContentBlock[]
+}
+
+/**
+ * Anthropic Claude over the Messages API
+ * Talks to the REST API directly, the same way model discovery and the admin
+ * connection test do, so no SDK is needed.
+ */
+export class AnthropicProvider implements AIProvider {
+  name = 'anthropic'
+  private apiKey: string = ''
+  private apiBaseUrl: string = DEFAULT_API_BASE_URL
+  private pricing: Record<string, ModelPricing> = { ...DEFAULT_PRICING }
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    this.apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY || ''
+    this.apiBaseUrl = (config.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/$/, '')
+    // ai_providers.pricing, keyed by model id, overrides the built-in table
+    if (config.pricing && typeof config.pricing === 'object') {
+      this.pricing = { ...DEFAULT_PRICING, ...config.pricing }
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  getRequiredEnvVars(): string[] {
+    return ['ANTHROPIC_API_KEY']
+  }
+
+  async chat(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    if (!this.isConfigured()) {
+      throw new Error('Anthropic provider not configured')
+    }
+
+    const response = await this.request('/messages', {
+      method: 'POST',
+      body: JSON.stringify(this.buildRequestBody(options, false))
+    })
+    const data = await response.json()
+
+    const blocks: any[] = data.content || []
+    const content = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('')
+
+    return {
+      content,
+      model: data.model || options.model,
+      usage: this.toUsage(data.usage),
+      finishReason: data.stop_reason,
+      toolCalls: this.parseToolCalls(blocks.filter(block => block.type === 'tool_use'))
+    }
+  }
+
+  /**
+   * Stream a reply from the Messages API's server-sent events
+   * Prompt tokens arrive on message_start and the output count on
+   * message_delta, so usage and any tool calls are yielded once at the end.
+   */
+  async *chatStream(options: ChatCompletionOptions): AsyncIterable<ChatStreamChunk> {
+    if (!this.isConfigured()) {
+      throw new Error('Anthropic provider not configured')
+    }
+
+    const response = await this.request('/messages', {
+      method: 'POST',
+      body: JSON.stringify(this.buildRequestBody(options, true))
+    })
+
+    if (!response.body) {
+      throw new Error('Anthropic API error: response has no body to stream')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let usage: any = {}
+    let finishReason: string | undefined
+    // Tool input arrives as partial JSON, keyed by content block index
+    const pendingToolCalls: Array<{ id: string; name: string; input: string }> = []
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith('data:')) continue
+
+        let data: any
+        try {
+          data = JSON.parse(trimmed.slice(5).trim())
+        } catch {
+          continue // Ignore partial garbage
+        }
+
+        switch (data.type) {
+          case 'message_start':
+            usage = { ...data.message?.usage }
+            break
+          case 'content_block_start':
+            if (data.content_block?.type === 'tool_use') {
+              pendingToolCalls[data.index] = { id: data.content_block.id, name: data.content_block.name, input: '' }
+            }
+            break
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta' && data.delta.text) {
+              yield { delta: data.delta.text }
+            } else if (data.delta?.type === 'input_json_delta' && pendingToolCalls[data.index]) {
+              pendingToolCalls[data.index].input += data.delta.partial_json || ''
+            }
+            break
+          case 'message_delta':
+            finishReason = data.delta?.stop_reason || finishReason
+            usage = { ...usage, ...data.usage }
+            break
+          case 'error':
+            throw new Error(`Anthropic API error: ${data.error?.type || 'stream_error'} - ${data.error?.message || 'Unknown error'}`)
+        }
+      }
+    }
+
+    yield {
+      delta: '',
+      usage: this.toUsage(usage),
+      finishReason,
+      toolCalls: this.parseToolCalls(pendingToolCalls.filter(Boolean).map(call => {
+        let input: Record<string, any> = {}
+        try {
+          input = call.input ? JSON.parse(call.input) : {}
+        } catch {
+          // Malformed JSON from the model: run the tool with no arguments and let it report what's missing
+        }
+        return { id: call.id, name: call.name, input }
+      }))
+    }
+  }
+
+  estimateCost(tokens: number, model: string): number {
+    const pricing = this.getPricing(model)
+    if (!pricing) return 0
+    // Only the total is known here; chat prompts outweigh replies, so blend 3:1
+    const blended = (3 * pricing.input_per_million + pricing.output_per_million) / 4
+    return (tokens * blended) / 1_000_000
+  }
+
+  supportsEmbeddings(): boolean {
+    return false
+  }
+
+  supportsTools(): boolean {
+    return true
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    const startTime = Date.now()
+    try {
+      if (!this.isConfigured()) {
+        return {
+          isHealthy: false,
+          lastChecked: new Date(),
+          error: 'Anthropic provider not configured'
+        }
+      }
+
+      // Listing models checks the key without spending tokens
+      await this.request('/models?limit=1', { method: 'GET' })
+
+      return {
+        isHealthy: true,
+        lastChecked: new Date(),
+        responseTime: Date.now() - startTime
+      }
+    } catch (error: any) {
+      return {
+        isHealthy: false,
+        lastChecked: new Date(),
+        error: error.message,
+        responseTime: Date.now() - startTime
+      }
+    }
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.apiBaseUrl}${path}`, {
+      ...init,
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+        'content-type': 'application/json'
+      }
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Anthropic API error: ${response.status} - ${error}`)
+    }
+
+    return response
+  }
+
+  private buildRequestBody(options: ChatCompletionOptions, stream: boolean): Record<string, any> {
+    const safe = sanitizeLLMOptions(options, 'anthropic')
+    const { system, messages } = this.toAnthropicMessages(options.messages)
+
+    return {
+      model: options.model,
+      system,
+      messages,
+      max_tokens: safe.maxTokens,
+      temperature: safe.temperature,
+      top_p: safe.topP,
+      tools: this.toAnthropicTools(options.tools),
+      stream
+    }
+  }
+
+  /**
+   * Anthropic takes the system prompt as a separate field and only accepts
+   * alternating user/assistant turns. System messages are joined into that
+   * field, tool results are sent as tool_result blocks in a user turn, and
+   * consecutive turns with the same role are merged.
+   */
+  private toAnthropicMessages(messages: ChatMessage[]): { system?: string; messages: AnthropicMessage[] } {
+    const system: string[] = []
+    const result: AnthropicMessage[] = []
+
+    const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+      if (blocks.length === 0) return
+      const previous = result[result.length - 1]
+      if (previous?.role === role) {
+        previous.content.push(...blocks)
+      } else {
+        result.push({ role, content: blocks })
+      }
+    }
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        if (msg.content) system.push(msg.content)
+        continue
+      }
+
+      if (msg.role === 'tool') {
+        append('user', [{ type: 'tool_result', tool_use_id: msg.toolCallId || '', content: msg.content }])
+        continue
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        append('assistant', [
+          ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+          ...msg.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments }))
+        ])
+        continue
+      }
+
+      // Empty text blocks are rejected by the API
+      append(msg.role, [
+        ...(msg.role === 'user' && msg.images
+          ? msg.images.map(image => ({ type: 'image' as const, source: { type: 'url' as const, url: image.url } }))
+          : []),
+        ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : [])
+      ])
+    }
+
+    // The conversation has to open with a user turn, so a greeting shown
+    // before the visitor's first message is dropped
+    while (result[0]?.role === 'assistant') {
+      result.shift()
+    }
+
+    return { system: system.length > 0 ? system.join('\n\n') : undefined, messages: result }
+  }
+
+  private toAnthropicTools(tools?: ToolDefinition[]): Array<Record<string, any>> | undefined {
+    if (!tools?.length) return undefined
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }))
+  }
+
+  private parseToolCalls(blocks: Array<{ id: string; name: string; input?: Record<string, any> }>): ToolCall[] | undefined {
+    if (!blocks.length) return undefined
+    return blocks.map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }))
+  }
+
+  // Cached prompt tokens are reported separately from input_tokens
+  private toUsage(usage: any): ChatCompletionResult['usage'] {
+    if (!usage) return undefined
+    const promptTokens = (usage.input_tokens || 0)
+      + (usage.cache_creation_input_tokens || 0)
+      + (usage.cache_read_input_tokens || 0)
+    const completionTokens = usage.output_tokens || 0
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+  }
+
+  private getPricing(model: string): ModelPricing | undefined {
+    if (this.pricing[model]) return this.pricing[model]
+    // Dated ids like claude-haiku-4-5-20251001 share their family's price
+    const prefix = Object.keys(this.pricing).find(key => model.startsWith(key))
+    return prefix ? this.pricing[prefix] : undefined
+  }
+}
@@ -1,6 +1,36 @@
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant'
+  role: 'system' | 'user' | 'assistant' | 'tool'
   content: string
+  // Pictures sent with a user turn; only vision models receive them
+  images?: ChatImage[]
+  // Assistant turns that requested tools
+  toolCalls?: ToolCall[]
+  // Tool results: the call being answered and the tool's name
+  toolCallId?: string
+  name?: string
+}
+
+/**
+ * An image the provider can fetch, e.g. a public Supabase storage URL
+ */
+export interface ChatImage {
+  url: string
+  mimeType?: string
+}
+
+/**
+ * A function the model may call, described with a JSON schema
+ */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, any>
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, any>
 }
 
 export interface ChatCompletionOptions {
@@ -12,6 +42,8 @@ export interface ChatCompletionOptions {
   frequencyPenalty?: number
   presencePenalty?: number
   stream?: boolean
+  // Only sent to providers whose supportsTools() returns true
+  tools?: ToolDefinition[]
 }
 
 export interface ChatCompletionResult {
@@ -23,6 +55,16 @@ export interface ChatCompletionResult {
     totalTokens: number
   }
   finishReason?: string
+  toolCalls?: ToolCall[]
+}
+
+export interface ChatStreamChunk {
+  delta: string
+  // Only present on the final chunk, once the provider reports it
+  usage?: ChatCompletionResult['usage']
+  finishReason?: string
+  // Complete tool calls, emitted once all of their argument deltas have arrived
+  toolCalls?: ToolCall[]
 }
 
 export interface EmbeddingOptions {
@@ -51,10 +93,12 @@ export interface AIProvider {
   name: string
   initialize(config: Record<string, any>): Promise<void>
   chat(options: ChatCompletionOptions): Promise<ChatCompletionResult>
+  chatStream?(options: ChatCompletionOptions): AsyncIterable<ChatStreamChunk>
   isConfigured(): boolean
   getRequiredEnvVars(): string[]
   estimateCost(tokens: number, model: string): number
   embed?(options: EmbeddingOptions): Promise<EmbeddingResult>
   supportsEmbeddings?(): boolean
+  supportsTools?(): boolean
   healthCheck?(): Promise<HealthCheckResult>
 }
\ No newline at end of file
@@ -1,41 +1,46 @@
-import { AIProvider, ChatCompletionOptions, ChatCompletionResult } from './base'
+import { AIProvider, ChatCompletionOptions, ChatCompletionResult, ChatStreamChunk, EmbeddingOptions, EmbeddingResult, HealthCheckResult } from './base'
+import { selectJsonPath } from '@/lib/actions/json-path'
+import { DEFAULT_RESPONSE_MAPPING, isProviderApiKeyEnvVar, ResponseMapping, ResponseMappingField } from '@/lib/types/providers'
 
 /**
  * Generic custom provider for any OpenAI-compatible API
- * Can be configured entirely through database without code changes
+ * Can be configured entirely through database without code changes: see
+ * toCustomProviderOptions for how an ai_providers row maps onto initialize().
  */
 export class CustomProvider implements AIProvider {
   name = 'custom'
   private apiKey: string = ''
+  private requiresApiKey = false
   private apiBaseUrl: string = ''
   private authHeaderName: string = 'Authorization'
   private authHeaderPrefix: string = 'Bearer'
-  private requestTemplate: any = {}
-  private responseParser?: Function
+  private headers: Record<string, string> = {}
+  private queryParams: Record<string, string> = {}
+  private responseMapping: Record<ResponseMappingField, string> = { ...DEFAULT_RESPONSE_MAPPING }
+  private hasResponseMapping = false
 
   async initialize(config: Record<string, any>): Promise<void> {
-    // Get API key from environment or config
-    const envVarName = config.apiKeyEnvVar || 'CUSTOM_API_KEY'
-    this.apiKey = config.apiKey || process.env[envVarName] || ''
+    this.name = config.name || 'custom'
+
+    // The key is referenced by environment variable name, never stored in the database,
+    // and only CUSTOM_PROVIDER_*_API_KEY variables are read. Providers without one
+    // (a local Ollama or vLLM server) are called unauthenticated.
+    this.requiresApiKey = !!(config.apiKey || config.apiKeyEnvVar)
+    this.apiKey = config.apiKey || (isProviderApiKeyEnvVar(config.apiKeyEnvVar) ? process.env[config.apiKeyEnvVar] : '') || ''
 
     // Set API configuration
-    this.apiBaseUrl = config.apiBaseUrl || ''
+    this.apiBaseUrl = (config.apiBaseUrl || '').replace(/\/+$/, '')
     this.authHeaderName = config.authHeaderName || 'Authorization'
-    this.authHeaderPrefix = config.authHeaderPrefix || 'Bearer'
-    this.requestTemplate = config.requestTemplate || {}
-
-    // Parse response parser function if provided
-    if (config.responseParser) {
-      try {
-        this.responseParser = new Function('response', config.responseParser)
-      } catch (error) {
-        console.error('Invalid response parser function:', error)
-      }
-    }
+    this.authHeaderPrefix = config.authHeaderPrefix ?? 'Bearer'
+    this.headers = config.headers || {}
+    this.queryParams = config.queryParams || {}
+    this.responseMapping = { ...DEFAULT_RESPONSE_MAPPING, ...(config.responseMapping as ResponseMapping || {}) }
+    this.hasResponseMapping = Object.entries(this.responseMapping)
+      .some(([field, path]) => path !== DEFAULT_RESPONSE_MAPPING[field as ResponseMappingField])
   }
 
   isConfigured(): boolean {
-    return !!this.apiKey && !!this.apiBaseUrl
+    return !!this.apiBaseUrl && (!this.requiresApiKey || !!this.apiKey)
   }
 
   getRequiredEnvVars(): string[] {
@@ -44,32 +49,124 @@ export class CustomProvider implements AIProvider {
 
   async chat(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
     if (!this.isConfigured()) {
-      throw new Error('Custom provider not configured')
+      throw new Error(`Custom provider ${this.name} not configured`)
     }
 
-    // Build request body using template or default OpenAI format
-    const requestBody = this.requestTemplate.body || {
-      model: options.model,
-      messages: options.messages,
-      temperature: options.temperature,
-      max_tokens: options.maxTokens,
-      top_p: options.topP,
-      frequency_penalty: options.frequencyPenalty,
-      presence_penalty: options.presencePenalty,
-      stream: false
+    // Make API request
+    const response = await fetch(this.buildUrl('/chat/completions', options.model), {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildRequestBody(options, false))
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Custom API error: ${response.status} - ${error}`)
     }
 
-    // Build headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      [this.authHeaderName]: `${this.authHeaderPrefix} ${this.apiKey}`.trim()
+    const data = await response.json()
+    return this.parseResponse(data, options.model)
+  }
+
+  /**
+   * Stream an OpenAI-compatible chat completion (server-sent `data:` lines)
+   * A provider with its own response mapping isn't OpenAI-shaped, so its
+   * stream format is unknown; the reply is fetched whole and sent as one chunk.
+   */
+  async *chatStream(options: ChatCompletionOptions): AsyncIterable<ChatStreamChunk> {
+    if (!this.isConfigured()) {
+      throw new Error(`Custom provider ${this.name} not configured`)
     }
 
-    // Make API request
-    const response = await fetch(`${this.apiBaseUrl}/chat/completions`, {
+    if (this.hasResponseMapping) {
+      const result = await this.chat(options)
+      yield { delta: result.content, usage: result.usage, finishReason: result.finishReason }
+      return
+    }
+
+    const response = await fetch(this.buildUrl('/chat/completions', options.model), {
       method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildRequestBody(options, true))
+    })
+
+    if (!response.ok || !response.body) {
+      const error = await response.text()
+      throw new Error(`Custom API error: ${response.status} - ${error}`)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let finishReason: string | undefined
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith('data:')) continue
+
+        const payload = trimmed.slice(5).trim()
+        if (payload === '[DONE]') return
+
+        let data: any
+        try {
+          data = JSON.parse(payload)
+        } catch {
+          continue // Ignore keep-alives and partial garbage
+        }
+
+        const choice = data.choices?.[0]
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason
+        }
+        if (choice?.delta?.content) {
+          yield { delta: choice.delta.content }
+        }
+        if (data.usage) {
+          yield {
+            delta: '',
+            usage: {
+              promptTokens: data.usage.prompt_tokens,
+              completionTokens: data.usage.completion_tokens,
+              totalTokens: data.usage.total_tokens
+            },
+            finishReason
+          }
+        }
+      }
+    }
+  }
+
+  estimateCost(tokens: number, model: string): number {
+    // Cost would be configured in database per model
+    return 0
+  }
+
+  supportsEmbeddings(): boolean {
+    return true
+  }
+
+  /**
+   * OpenAI-compatible /embeddings endpoint
+   */
+  async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    if (!this.isConfigured()) {
+      throw new Error(`Custom provider ${this.name} not configured`)
+    }
+
+    const input = Array.isArray(options.input) ? options.input : [options.input]
+
+    const response = await fetch(this.buildUrl('/embeddings', options.model || ''), {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({ model: options.model, input })
     })
 
     if (!response.ok) {
@@ -79,26 +176,125 @@ export class CustomProvider implements AIProvider {
 
     const data = await response.json()
 
-    // Parse response using custom parser or default OpenAI format
-    if (this.responseParser) {
-      return this.responseParser(data)
+    // Keep input order even if the server returns items out of order
+    const embeddings: number[][] = (data.data || [])
+      .slice()
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item: any) => item.embedding)
+
+    const estimatedTokens = input.reduce((acc, text) => acc + Math.ceil(text.length / 4), 0)
+
+    return {
+      embeddings,
+      model: data.model || options.model || '',
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? estimatedTokens,
+        totalTokens: data.usage?.total_tokens ?? estimatedTokens
+      },
+      dimensions: embeddings[0]?.length || 0
+    }
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    const startTime = Date.now()
+    try {
+      if (!this.isConfigured()) {
+        return {
+          isHealthy: false,
+          lastChecked: new Date(),
+          error: `Custom provider ${this.name} not configured`
+        }
+      }
+
+      // OpenAI-compatible servers list their models without spending tokens
+      const response = await fetch(this.buildUrl('/models', ''), { headers: this.buildHeaders() })
+      if (!response.ok) {
+        throw new Error(`Custom API error: ${response.status}`)
+      }
+
+      return {
+        isHealthy: true,
+        lastChecked: new Date(),
+        responseTime: Date.now() - startTime
+      }
+    } catch (error: any) {
+      return {
+        isHealthy: false,
+        lastChecked: new Date(),
+        error: error.message,
+        responseTime: Date.now() - startTime
+      }
+    }
+  }
+
+  /**
+   * {model} in the base URL is replaced with the model id, for APIs that route
+   * by path such as Azure OpenAI deployments
+   */
+  private buildUrl(path: string, model: string): string {
+    const url = new URL(`${this.apiBaseUrl.replace('{model}', encodeURIComponent(model))}${path}`)
+    for (const [name, value] of Object.entries(this.queryParams)) {
+      url.searchParams.set(name, value)
+    }
+    return url.toString()
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json'
     }
+    if (this.apiKey) {
+      headers[this.authHeaderName] = `${this.authHeaderPrefix} ${this.apiKey}`.trim()
+    }
+    return headers
+  }
 
-    // Default OpenAI-compatible response parsing
+  private buildRequestBody(options: ChatCompletionOptions, stream: boolean): Record<string, any> {
     return {
-      content: data.choices?.[0]?.message?.content || '',
-      model: data.model || options.model,
-      usage: data.usage ? {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens
-      } : undefined,
-      finishReason: data.choices?.[0]?.finish_reason
+      model: options.model,
+      // Tool calls aren't sent to custom providers, so plain role/content pairs are enough
+      messages: options.messages.map(msg => ({ role: msg.role, content: msg.content })),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      frequency_penalty: options.frequencyPenalty,
+      presence_penalty: options.presencePenalty,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {})
     }
   }
 
-  estimateCost(tokens: number, model: string): number {
-    // Cost would be configured in database per model
-    return 0
+  /**
+   * Read a chat completion with the provider's JSONPath response mapping
+   * Mappings are data, not code, so a stored provider can't run anything here.
+   */
+  private parseResponse(data: any, requestedModel: string): ChatCompletionResult {
+    const select = (field: ResponseMappingField) => {
+      try {
+        return selectJsonPath(data, this.responseMapping[field])
+      } catch {
+        return undefined // Saved mappings are validated, but don't fail a reply over one
+      }
+    }
+    const toNumber = (value: any) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined)
+
+    const content = select('content')
+    // A wildcard path that matched nothing gives []
+    const noContent = content == null || (Array.isArray(content) && content.length === 0)
+    const promptTokens = toNumber(select('promptTokens'))
+    const completionTokens = toNumber(select('completionTokens'))
+    const finishReason = select('finishReason')
+
+    return {
+      content: typeof content === 'string' ? content : noContent ? '' : JSON.stringify(content),
+      model: typeof select('model') === 'string' ? select('model') : requestedModel,
+      usage: promptTokens !== undefined || completionTokens !== undefined ? {
+        promptTokens: promptTokens || 0,
+        completionTokens: completionTokens || 0,
+        totalTokens: toNumber(select('totalTokens')) ?? (promptTokens || 0) + (completionTokens || 0)
+      } : undefined,
+      finishReason: typeof finishReason === 'string' ? finishReason : undefined
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { AIProvider, ChatCompletionOptions, ChatCompletionResult, HealthCheckResult } from './base'
+import { GoogleGenerativeAI, Content, FunctionCall, FunctionDeclaration, Tool } from '@google/generative-ai'
+import { AIProvider, ChatCompletionOptions, ChatCompletionResult, ChatMessage, ChatStreamChunk, EmbeddingOptions, EmbeddingResult, HealthCheckResult, ToolCall, ToolDefinition } from './base'
 import { sanitizeLLMOptions } from '../utils/sanitize-options'
+import { fetchImageData } from '../utils/images'
 
 export class GoogleProvider implements AIProvider {
   name = 'google'
@@ -31,16 +32,14 @@ export class GoogleProvider implements AIProvider {
     const safe = sanitizeLLMOptions(options, 'google')
 
     const model = this.client.getGenerativeModel({
-      model: options.model
+      model: options.model,
+      tools: this.toGeminiTools(options.tools)
     })
 
     // Convert messages to Gemini format
-    const history = options.messages.slice(0, -1).map(msg => ({
-      role: msg.role === 'assistant' ? 'model' : msg.role === 'system' ? 'user' : msg.role,
-      parts: [{ text: msg.content }]
-    }))
-
-    const lastMessage = options.messages[options.messages.length - 1]
+    const contents = await this.toGeminiContents(options.messages)
+    const history = contents.slice(0, -1)
+    const lastMessage = contents[contents.length - 1]
 
     const chat = model.startChat({
       history,
@@ -51,8 +50,9 @@ export class GoogleProvider implements AIProvider {
       }
     })
 
-    const result = await chat.sendMessage(lastMessage.content)
+    const result = await chat.sendMessage(lastMessage.parts)
     const response = result.response.text()
+    const toolCalls = this.parseToolCalls(result.response.functionCalls())
 
     // Estimate tokens (rough estimate for Gemini)
     const estimatedInputTokens = options.messages.reduce((acc, msg) => acc + Math.ceil(msg.content.length / 4), 0)
@@ -65,8 +65,67 @@ export class GoogleProvider implements AIProvider {
         promptTokens: estimatedInputTokens,
         completionTokens: estimatedOutputTokens,
         totalTokens: estimatedInputTokens + estimatedOutputTokens
+      },
+      toolCalls
+    }
+  }
+
+  async *chatStream(options: ChatCompletionOptions): AsyncIterable<ChatStreamChunk> {
+    if (!this.client) {
+      throw new Error('Google provider not configured')
+    }
+
+    const safe = sanitizeLLMOptions(options, 'google')
+
+    const model = this.client.getGenerativeModel({
+      model: options.model,
+      tools: this.toGeminiTools(options.tools)
+    })
+
+    // Same history conversion as chat()
+    const contents = await this.toGeminiContents(options.messages)
+    const history = contents.slice(0, -1)
+    const lastMessage = contents[contents.length - 1]
+
+    const chat = model.startChat({
+      history,
+      generationConfig: {
+        temperature: safe.temperature,
+        maxOutputTokens: safe.maxTokens,
+        topP: safe.topP,
+      }
+    })
+
+    const result = await chat.sendMessageStream(lastMessage.parts)
+    let fullText = ''
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text()
+      if (text) {
+        fullText += text
+        yield { delta: text }
       }
     }
+
+    const response = await result.response
+    const usage = response.usageMetadata
+
+    // Fall back to the same rough estimate as chat() when usage metadata is missing
+    const promptTokens = usage?.promptTokenCount
+      ?? options.messages.reduce((acc, msg) => acc + Math.ceil(msg.content.length / 4), 0)
+    const completionTokens = usage?.candidatesTokenCount ?? Math.ceil(fullText.length / 4)
+
+    yield {
+      delta: '',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      finishReason: response.candidates?.[0]?.finishReason,
+      // Gemini returns function calls whole, never split across stream chunks
+      toolCalls: this.parseToolCalls(response.functionCalls())
+    }
   }
 
   estimateCost(tokens: number, model: string): number {
@@ -74,12 +133,153 @@ export class GoogleProvider implements AIProvider {
       'gemini-1.5-flash': 0, // Free tier
       'gemini-1.5-flash-8b': 0, // Free tier
       'gemini-1.5-pro': 0.00125,
-      'gemini-1.0-pro': 0.0005
+      'gemini-1.0-pro': 0.0005,
+      'text-embedding-004': 0 // Free tier
     }
     const pricePerToken = pricing[model] || 0
     return (tokens * pricePerToken) / 1000
   }
 
+  supportsEmbeddings(): boolean {
+    return true
+  }
+
+  supportsTools(): boolean {
+    return true
+  }
+
+  /**
+   * Gemini roles are user/model/function. System prompts are sent as user turns
+   * and consecutive tool results are merged, since Gemini expects every
+   * functionResponse for a turn in a single message. Images are sent inline,
+   * as Gemini can't fetch URLs outside its own file store.
+   */
+  private async toGeminiContents(messages: ChatMessage[]): Promise<Content[]> {
+    const contents: Content[] = []
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const part = {
+          functionResponse: {
+            name: msg.name || '',
+            response: { content: msg.content }
+          }
+        }
+        const previous = contents[contents.length - 1]
+        if (previous?.role === 'function') {
+          previous.parts.push(part)
+        } else {
+          contents.push({ role: 'function', parts: [part] })
+        }
+        continue
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(msg.content ? [{ text: msg.content }] : []),
+            ...msg.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        })
+        continue
+      }
+
+      const images = msg.role === 'user' && msg.images?.length
+        ? await Promise.all(msg.images.map(image => fetchImageData(image)))
+        : []
+
+      contents.push({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [
+          ...images.map(image => ({ inlineData: image })),
+          ...(msg.content || images.length === 0 ? [{ text: msg.content }] : [])
+        ]
+      })
+    }
+
+    return contents
+  }
+
+  private toGeminiTools(tools?: ToolDefinition[]): Tool[] | undefined {
+    if (!tools?.length) return undefined
+    return [{
+      functionDeclarations: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: this.toGeminiSchema(tool.parameters) as FunctionDeclaration['parameters']
+      }))
+    }]
+  }
+
+  // Gemini accepts an OpenAPI subset of JSON schema, drop everything else
+  private toGeminiSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema
+
+    const allowed = ['type', 'description', 'enum', 'format', 'required', 'nullable']
+    const result: Record<string, any> = {}
+
+    for (const key of allowed) {
+      if (schema[key] !== undefined) result[key] = schema[key]
+    }
+    if (schema.properties) {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, value]) => [name, this.toGeminiSchema(value)])
+      )
+    }
+    if (schema.items) {
+      result.items = this.toGeminiSchema(schema.items)
+    }
+
+    return result
+  }
+
+  // Gemini doesn't assign call ids, derive stable ones from the position
+  private parseToolCalls(calls?: FunctionCall[]): ToolCall[] | undefined {
+    if (!calls?.length) return undefined
+    return calls.map((call, index) => ({
+      id: `${call.name}-${index}`,
+      name: call.name,
+      arguments: (call.args || {}) as Record<string, any>
+    }))
+  }
+
+  async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    if (!this.client) {
+      throw new Error('Google provider not configured')
+    }
+
+    const model = options.model || 'text-embedding-004'
+    const input = Array.isArray(options.input) ? options.input : [options.input]
+
+    try {
+      const embeddingModel = this.client.getGenerativeModel({ model })
+      const response = await embeddingModel.batchEmbedContents({
+        requests: input.map(text => ({
+          content: { role: 'user', parts: [{ text }] }
+        }))
+      })
+
+      const embeddings = response.embeddings.map(item => item.values)
+
+      // The embedding API doesn't report usage, use the same rough estimate as chat()
+      const estimatedTokens = input.reduce((acc, text) => acc + Math.ceil(text.length / 4), 0)
+
+      return {
+        embeddings,
+        model,
+        usage: {
+          promptTokens: estimatedTokens,
+          totalTokens: estimatedTokens
+        },
+        dimensions: embeddings[0]?.length || 768
+      }
+    } catch (error: any) {
+      console.error('Google embedding error:', error)
+      throw new Error(`Embedding generation failed: ${error.message}`)
+    }
+  }
+
   async healthCheck(): Promise<HealthCheckResult> {
     const startTime = Date.now()
     try {
@@ -0,0 +1,84 @@
+import { AIProvider, ChatCompletionOptions, ChatCompletionResult, EmbeddingOptions, EmbeddingResult } from './base'
+
+/**
+ * Deterministic, offline embedding provider for tests and local development
+ * Uses feature hashing over lowercased word tokens, so texts sharing words
+ * get similar vectors without any network calls or API keys
+ */
+export class LocalEmbeddingProvider implements AIProvider {
+  name = 'local'
+  private static readonly DEFAULT_DIMENSIONS = 384
+
+  async initialize(config: Record<string, any>): Promise<void> {
+    // Nothing to configure
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  getRequiredEnvVars(): string[] {
+    return []
+  }
+
+  async chat(options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    throw new Error('Local provider only supports embeddings')
+  }
+
+  estimateCost(tokens: number, model: string): number {
+    return 0
+  }
+
+  supportsEmbeddings(): boolean {
+    return true
+  }
+
+  async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const model = options.model || `local-hash-${LocalEmbeddingProvider.DEFAULT_DIMENSIONS}`
+    const dimensions = this.parseDimensions(model)
+    const input = Array.isArray(options.input) ? options.input : [options.input]
+
+    const embeddings = input.map(text => this.hashEmbed(text, dimensions))
+    const estimatedTokens = input.reduce((acc, text) => acc + Math.ceil(text.length / 4), 0)
+
+    return {
+      embeddings,
+      model,
+      usage: {
+        promptTokens: estimatedTokens,
+        totalTokens: estimatedTokens
+      },
+      dimensions
+    }
+  }
+
+  // Model names look like "local-hash-384"
+  private parseDimensions(model: string): number {
+    const match = model.match(/(\d+)$/)
+    const dimensions = match ? parseInt(match[1], 10) : LocalEmbeddingProvider.DEFAULT_DIMENSIONS
+    return dimensions > 0 ? dimensions : LocalEmbeddingProvider.DEFAULT_DIMENSIONS
+  }
+
+  private hashEmbed(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0)
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+
+    for (const token of tokens) {
+      const hash = this.fnv1a(token)
+      // Low bit picks the sign so collisions tend to cancel out
+      vector[(hash >>> 1) % dimensions] += (hash & 1) ? 1 : -1
+    }
+
+    const norm = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+  }
+
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server'
+import { getProjectCredential } from '@/lib/ai/project-credentials'
 
 export interface ModelInfo {
   id: string
@@ -137,72 +138,69 @@ export async function discoverGeminiModels(apiKey: string): Promise<ModelInfo[]>
  * Discovers models from Anthropic API
  */
 export async function discoverAnthropicModels(apiKey: string): Promise<ModelInfo[]> {
-  // Anthropic doesn't have a models listing endpoint yet
-  // We need to maintain a curated list but fetch latest pricing/limits from their API
   try {
-    // For now, we'll check if the API key is valid and return known models
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20241022',
-        messages: [{ role: 'user', content: 'test' }],
-        max_tokens: 1,
-        stream: false,
-      }),
-    })
+    const models: ModelInfo[] = []
+    let afterId: string | null = null
 
-    // If we get a 401, the API key is invalid
-    if (response.status === 401) {
-      return []
-    }
+    // The models list is paginated, newest first
+    do {
+      const query: string = afterId ? `?limit=100&after_id=${afterId}` : '?limit=100'
+      const response = await fetch(`https://api.anthropic.com/v1/models${query}`, {
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+      })
 
-    // Return current Claude models (these need periodic updates)
-    return [
-      {
-        id: 'claude-3-5-sonnet-20241022',
-        name: 'claude-3-5-sonnet',
-        display_name: 'Claude 3.5 Sonnet',
-        provider: 'anthropic',
-        context_window: 200000,
-        max_output_tokens: 8192,
-        supports_vision: true,
-        supports_functions: true,
-        supports_streaming: true,
-      },
-      {
-        id: 'claude-3-5-haiku-20241022',
-        name: 'claude-3-5-haiku',
-        display_name: 'Claude 3.5 Haiku',
-        provider: 'anthropic',
-        context_window: 200000,
-        max_output_tokens: 8192,
-        supports_vision: true,
-        supports_functions: true,
-        supports_streaming: true,
-      },
-      {
-        id: 'claude-3-opus-20240229',
-        name: 'claude-3-opus',
-        display_name: 'Claude 3 Opus',
-        provider: 'anthropic',
-        context_window: 200000,
-        max_output_tokens: 4096,
-        supports_vision: true,
-        supports_functions: true,
-        supports_streaming: true,
-      },
-    ]
+      if (!response.ok) {
+        throw new Error(`Anthropic API error: ${response.status}`)
+      }
+
+      const data = await response.json()
+
+      for (const model of data.data || []) {
+        // Skip the retired Claude 2 and Instant models
+        if (!model.id.startsWith('claude-3') && !/^claude-(opus|sonnet|haiku)/.test(model.id)) {
+          continue
+        }
+
+        models.push({
+          id: model.id,
+          // Drop the snapshot date so re-syncing a newer snapshot updates the same row
+          name: model.id.replace(/-\d{8}$/, ''),
+          display_name: model.display_name || formatModelName(model.id),
+          provider: 'anthropic',
+          context_window: 200000,
+          max_output_tokens: getAnthropicMaxTokens(model.id),
+          supports_vision: true,
+          supports_functions: true,
+          supports_streaming: true,
+          metadata: {
+            created_at: model.created_at,
+          }
+        })
+      }
+
+      afterId = data.has_more ? data.last_id : null
+    } while (afterId)
+
+    return models
   } catch (error) {
-    console.error('Failed to validate Anthropic API:', error)
+    console.error('Failed to discover Anthropic models:', error)
     return []
   }
 }
 
+/**
+ * The project's own key for a provider when it saved a valid one, otherwise
+ * the platform key. Listing models costs nothing, so no plan check is needed.
+ */
+async function resolveDiscoveryKey(projectId: string, provider: string, envVar: string): Promise<string | undefined> {
+  const credential = await getProjectCredential(projectId, provider)
+  if (credential?.status === 'valid') return credential.apiKey
+  return process.env[envVar]
+}
+
 /**
  * Sync discovered models to database
  */
@@ -211,12 +209,13 @@ export async function syncDiscoveredModels(projectId: string) {
 
   const allModels: ModelInfo[] = []
 
-  // Discover models from all configured providers using environment variables
+  // Discover models with the project's own keys, or the platform keys from the environment
 
   // OpenAI
-  if (process.env.OPENAI_API_KEY) {
+  const openaiKey = await resolveDiscoveryKey(projectId, 'openai', 'OPENAI_API_KEY')
+  if (openaiKey) {
     try {
-      const openaiModels = await discoverOpenAIModels(process.env.OPENAI_API_KEY)
+      const openaiModels = await discoverOpenAIModels(openaiKey)
       allModels.push(...openaiModels)
     } catch (error) {
       console.error('Failed to discover OpenAI models:', error)
@@ -224,17 +223,26 @@ export async function syncDiscoveredModels(projectId: string) {
   }
 
   // Google Gemini
-  if (process.env.GEMINI_API_KEY) {
+  const geminiKey = await resolveDiscoveryKey(projectId, 'google', 'GEMINI_API_KEY')
+  if (geminiKey) {
     try {
-      const geminiModels = await discoverGeminiModels(process.env.GEMINI_API_KEY)
+      const geminiModels = await discoverGeminiModels(geminiKey)
       allModels.push(...geminiModels)
     } catch (error) {
       console.error('Failed to discover Gemini models:', error)
     }
   }
 
-  // Note: Anthropic models are typically static, not discoverable via API
-  // Add them manually if needed
+  // Anthropic
+  const anthropicKey = await resolveDiscoveryKey(projectId, 'anthropic', 'ANTHROPIC_API_KEY')
+  if (anthropicKey) {
+    try {
+      const anthropicModels = await discoverAnthropicModels(anthropicKey)
+      allModels.push(...anthropicModels)
+    } catch (error) {
+      console.error('Failed to discover Anthropic models:', error)
+    }
+  }
 
   // Sync to database
   let syncedCount = 0
@@ -328,6 +336,13 @@ function getOpenAIContextWindow(modelId: string): number {
   return 4096
 }
 
+function getAnthropicMaxTokens(modelId: string): number {
+  if (/^claude-(sonnet-4|haiku-4-5|opus-4-5)/.test(modelId)) return 64000
+  if (modelId.startsWith('claude-3-5') || modelId.startsWith('claude-3-7')) return 8192
+  if (modelId.startsWith('claude-3')) return 4096
+  return 8192
+}
+
 function getOpenAIMaxTokens(modelId: string): number {
   if (modelId.includes('o1-mini')) return 65536
   if (modelId.includes('o1')) return 100000
@@ -1,5 +1,6 @@
 import { OpenAI } from 'openai'
-import { AIProvider, ChatCompletionOptions, ChatCompletionResult, EmbeddingOptions, EmbeddingResult, HealthCheckResult } from './base'
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions'
+import { AIProvider, ChatCompletionOptions, ChatCompletionResult, ChatMessage, ChatStreamChunk, EmbeddingOptions, EmbeddingResult, HealthCheckResult, ToolCall, ToolDefinition } from './base'
 import { sanitizeLLMOptions } from '../utils/sanitize-options'
 
 export class OpenAIProvider implements AIProvider {
@@ -32,7 +33,8 @@ export class OpenAIProvider implements AIProvider {
 
     const completion = await this.client.chat.completions.create({
       model: options.model,
-      messages: options.messages,
+      messages: this.toOpenAIMessages(options.messages),
+      tools: this.toOpenAITools(options.tools),
       temperature: safe.temperature,
       max_tokens: safe.maxTokens,
       top_p: safe.topP,
@@ -49,7 +51,71 @@ export class OpenAIProvider implements AIProvider {
         completionTokens: completion.usage.completion_tokens,
         totalTokens: completion.usage.total_tokens
       } : undefined,
-      finishReason: completion.choices[0]?.finish_reason
+      finishReason: completion.choices[0]?.finish_reason,
+      toolCalls: this.parseToolCalls(completion.choices[0]?.message?.tool_calls)
+    }
+  }
+
+  async *chatStream(options: ChatCompletionOptions): AsyncIterable<ChatStreamChunk> {
+    if (!this.client) {
+      throw new Error('OpenAI provider not configured')
+    }
+
+    const safe = sanitizeLLMOptions(options, 'openai')
+
+    const stream = await this.client.chat.completions.create({
+      model: options.model,
+      messages: this.toOpenAIMessages(options.messages),
+      tools: this.toOpenAITools(options.tools),
+      temperature: safe.temperature,
+      max_tokens: safe.maxTokens,
+      top_p: safe.topP,
+      frequency_penalty: safe.frequencyPenalty,
+      presence_penalty: safe.presencePenalty,
+      stream: true,
+      stream_options: { include_usage: true }
+    })
+
+    let finishReason: string | undefined
+    // Tool call names/arguments arrive in fragments keyed by index
+    const pendingToolCalls: Array<{ id: string; name: string; arguments: string }> = []
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0]
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason
+      }
+      if (choice?.delta?.content) {
+        yield { delta: choice.delta.content }
+      }
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const pending = pendingToolCalls[fragment.index] ||= { id: '', name: '', arguments: '' }
+        if (fragment.id) pending.id = fragment.id
+        if (fragment.function?.name) pending.name += fragment.function.name
+        if (fragment.function?.arguments) pending.arguments += fragment.function.arguments
+      }
+      if (choice?.finish_reason === 'tool_calls') {
+        yield {
+          delta: '',
+          toolCalls: this.parseToolCalls(pendingToolCalls.map(call => ({
+            id: call.id,
+            function: { name: call.name, arguments: call.arguments }
+          })))
+        }
+      }
+
+      // With include_usage the last chunk has no choices, only usage
+      if (chunk.usage) {
+        yield {
+          delta: '',
+          usage: {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          },
+          finishReason
+        }
+      }
     }
   }
 
@@ -71,6 +137,66 @@ export class OpenAIProvider implements AIProvider {
     return true
   }
 
+  supportsTools(): boolean {
+    return true
+  }
+
+  private toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+    return messages.map((msg): ChatCompletionMessageParam => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId || '', content: msg.content }
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        }
+      }
+      if (msg.role === 'user' && msg.images?.length) {
+        return {
+          role: 'user',
+          content: [
+            ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+            ...msg.images.map(image => ({ type: 'image_url' as const, image_url: { url: image.url } }))
+          ]
+        }
+      }
+      return { role: msg.role, content: msg.content }
+    })
+  }
+
+  private toOpenAITools(tools?: ToolDefinition[]): ChatCompletionTool[] | undefined {
+    if (!tools?.length) return undefined
+    return tools.map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }))
+  }
+
+  private parseToolCalls(
+    toolCalls?: Array<{ id: string; function: { name: string; arguments: string } }>
+  ): ToolCall[] | undefined {
+    if (!toolCalls?.length) return undefined
+    return toolCalls.map(call => {
+      let args: Record<string, any> = {}
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {}
+      } catch {
+        // Malformed JSON from the model: run the tool with no arguments and let it report what's missing
+      }
+      return { id: call.id, name: call.function.name, arguments: args }
+    })
+  }
+
   async embed(options: EmbeddingOptions): Promise<EmbeddingResult> {
     if (!this.client) {
       throw new Error('OpenAI provider not configured')
@@ -0,0 +1,143 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { CustomProvider } from './providers/custom'
+import { isProviderApiKeyEnvVar, RegisteredProvider, RegisteredProviderModel, RegisteredProviderWithModels, toCustomProviderOptions } from '@/lib/types/providers'
+import type { ProviderModelInput } from './provider-schema'
+
+/**
+ * Providers admins registered in ai_providers, served by CustomProvider
+ * Uses the service client so it also works from queue workers. apiKey
+ * replaces the key from the provider's environment variable.
+ */
+export async function loadRegisteredProvider(name: string, apiKey?: string): Promise<CustomProvider | null> {
+  const supabase = createServiceClient()
+  const { data: row } = await supabase
+    .from('ai_providers')
+    .select('*')
+    .eq('name', name)
+    .eq('provider_class', 'CustomProvider')
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!row) return null
+
+  const provider = new CustomProvider()
+  await provider.initialize({ name: row.name, ...toCustomProviderOptions(row), ...(apiKey ? { apiKey } : {}) })
+  return provider
+}
+
+/**
+ * Every active registered provider whose base URL and key are in place
+ */
+export async function loadRegisteredProviders(): Promise<Map<string, CustomProvider>> {
+  const supabase = createServiceClient()
+  const { data: rows, error } = await supabase
+    .from('ai_providers')
+    .select('*')
+    .eq('provider_class', 'CustomProvider')
+    .eq('is_active', true)
+
+  const providers = new Map<string, CustomProvider>()
+  if (error) {
+    console.error('Failed to load registered providers:', error)
+    return providers
+  }
+
+  for (const row of rows || []) {
+    const provider = new CustomProvider()
+    await provider.initialize({ name: row.name, ...toCustomProviderOptions(row) })
+    if (provider.isConfigured()) {
+      providers.set(row.name, provider)
+    }
+  }
+
+  return providers
+}
+
+/**
+ * ai_models name for a registered provider's model, unique across providers
+ */
+export function registeredModelName(providerName: string, modelId: string): string {
+  return `${providerName}/${modelId}`
+}
+
+/**
+ * Make the provider's ai_models rows match the given list
+ * Models dropped from the list are deactivated rather than deleted, since
+ * agents may still point at them.
+ */
+export async function saveProviderModels(
+  provider: { id: string; name: string },
+  models: ProviderModelInput[]
+): Promise<void> {
+  const supabase = createServiceClient()
+  const names = models.map(model => registeredModelName(provider.name, model.modelId))
+
+  if (models.length > 0) {
+    const { error } = await supabase
+      .from('ai_models')
+      .upsert(models.map(model => ({
+        name: registeredModelName(provider.name, model.modelId),
+        display_name: model.displayName,
+        provider: provider.name,
+        provider_id: provider.id,
+        model_id: model.modelId,
+        context_window: model.contextWindow ?? null,
+        max_tokens: model.maxTokens ?? null,
+        input_price_per_million: model.inputPricePerMillion ?? null,
+        output_price_per_million: model.outputPricePerMillion ?? null,
+        // CustomProvider doesn't send tools
+        supports_functions: false,
+        supports_streaming: true,
+        is_active: true,
+        updated_at: new Date().toISOString()
+      })), { onConflict: 'name' })
+
+    if (error) {
+      throw new Error(`Failed to save provider models: ${error.message}`)
+    }
+  }
+
+  let stale = supabase
+    .from('ai_models')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('provider', provider.name)
+  if (names.length > 0) {
+    stale = stale.not('name', 'in', `(${names.map(name => `"${name.replace(/"/g, '\\"')}"`).join(',')})`)
+  }
+  const { error } = await stale
+
+  if (error) {
+    throw new Error(`Failed to deactivate removed models: ${error.message}`)
+  }
+}
+
+/**
+ * Registered providers with their models, for the admin page
+ * Keys are never returned, only whether the referenced variable is set.
+ */
+export async function listRegisteredProviders(): Promise<RegisteredProviderWithModels[]> {
+  const supabase = createServiceClient()
+  const { data: rows, error } = await supabase
+    .from('ai_providers')
+    .select('id, name, display_name, api_base_url, auth_header_name, auth_header_prefix, api_key_env_var, default_headers, query_params, response_mapping, is_active, created_at')
+    .eq('provider_class', 'CustomProvider')
+    .eq('is_builtin', false)
+    .order('display_name')
+
+  if (error) {
+    throw new Error(`Failed to list providers: ${error.message}`)
+  }
+  if (!rows?.length) return []
+
+  const { data: models } = await supabase
+    .from('ai_models')
+    .select('id, name, display_name, provider, model_id, context_window, max_tokens, input_price_per_million, output_price_per_million, is_active')
+    .in('provider', rows.map(row => row.name))
+    .order('display_name')
+
+  return rows.map(row => ({
+    ...(row as unknown as RegisteredProvider),
+    apiKeyConfigured: row.api_key_env_var ? isProviderApiKeyEnvVar(row.api_key_env_var) && !!process.env[row.api_key_env_var] : null,
+    models: (models || []).filter(model => model.provider === row.name) as RegisteredProviderModel[]
+  }))
+}
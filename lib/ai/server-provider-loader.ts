@@ -51,7 +51,18 @@ export class ServerProviderLoader {
           await googleProvider.initialize({}) // Uses GEMINI_API_KEY from env
           return googleProvider.isConfigured() ? googleProvider : null
 
+        case 'anthropic':
+          const { AnthropicProvider } = await import('./providers/anthropic')
+          const anthropicProvider = new AnthropicProvider()
+          await anthropicProvider.initialize({}) // Uses ANTHROPIC_API_KEY from env
+          return anthropicProvider.isConfigured() ? anthropicProvider : null
+
         default:
+          if (providerClass === 'CustomProvider') {
+            const { loadRegisteredProvider } = await import('./registered-providers')
+            const customProvider = await loadRegisteredProvider(providerName)
+            return customProvider?.isConfigured() ? customProvider : null
+          }
           console.warn(`Unknown provider: ${providerName}`)
           return null
       }
@@ -1,23 +1,44 @@
-import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import { OpenAIProvider } from './providers/openai'
 import { GoogleProvider } from './providers/google'
-import { AIProvider, ChatMessage, ChatCompletionOptions } from './providers/base'
+import { AnthropicProvider } from './providers/anthropic'
+import { loadRegisteredProvider } from './registered-providers'
+import { AIProvider, ChatMessage, ChatCompletionOptions, ChatCompletionResult } from './providers/base'
+import {
+  KeySource,
+  ProjectCredentialError,
+  getProjectCredential,
+  isCredentialError,
+  isPlatformFallbackAllowed,
+  isRejectedKeyError,
+  markCredentialInvalid
+} from './project-credentials'
 
-export async function getConfiguredProvider(projectId: string, providerName: string): Promise<AIProvider | null> {
-  // Simply create provider using environment variables
+/**
+ * Initialize a provider with the given key, or with the platform key from the
+ * environment when none is given
+ */
+export async function createProvider(providerName: string, apiKey?: string): Promise<AIProvider | null> {
+  const config = apiKey ? { apiKey } : {}
   let provider: AIProvider | null = null
 
   switch (providerName) {
     case 'openai':
       provider = new OpenAIProvider()
-      await provider.initialize({}) // Will use OPENAI_API_KEY from env
+      await provider.initialize(config) // Falls back to OPENAI_API_KEY from env
       break
     case 'google':
       provider = new GoogleProvider()
-      await provider.initialize({}) // Will use GEMINI_API_KEY from env
+      await provider.initialize(config) // Falls back to GEMINI_API_KEY from env
+      break
+    case 'anthropic':
+      provider = new AnthropicProvider()
+      await provider.initialize(config) // Falls back to ANTHROPIC_API_KEY from env
       break
     default:
-      return null
+      // Any other name is an OpenAI-compatible provider registered in ai_providers
+      provider = await loadRegisteredProvider(providerName, apiKey)
+      if (!provider) return null
   }
 
   // Check if provider was successfully configured
@@ -28,44 +49,216 @@ export async function getConfiguredProvider(projectId: string, providerName: str
   return provider
 }
 
-export async function chatWithProjectCredentials(
+export interface ProjectProvider {
+  provider: AIProvider
+  keySource: KeySource
+  credentialId: string | null
+}
+
+/**
+ * The provider a project's calls go through: its own key when it saved one,
+ * the platform key otherwise. Once the project's key is marked invalid, the
+ * platform key is only used if the plan allows falling back.
+ */
+export async function getConfiguredProvider(projectId: string, providerName: string): Promise<ProjectProvider | null> {
+  const credential = await getProjectCredential(projectId, providerName)
+
+  if (credential?.status === 'valid') {
+    const provider = await createProvider(providerName, credential.apiKey)
+    if (provider) {
+      return { provider, keySource: 'project', credentialId: credential.id }
+    }
+  }
+
+  if (credential && !(await isPlatformFallbackAllowed(projectId))) {
+    throw new ProjectCredentialError(providerName, 'it was marked invalid')
+  }
+
+  const provider = await createProvider(providerName)
+  return provider ? { provider, keySource: 'platform', credentialId: null } : null
+}
+
+/**
+ * Run a call through the project's provider. When the project's own key is
+ * refused or out of quota, refused keys are marked invalid and the call is
+ * retried once with the platform key if the plan allows it and canRetry says
+ * nothing has been sent to the client yet.
+ */
+async function callWithProjectProvider<T>(
   projectId: string,
-  modelName: string,
-  messages: ChatMessage[],
-  options?: Partial<ChatCompletionOptions>
-) {
-  const supabase = await createClient()
+  providerName: string,
+  call: (provider: AIProvider) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<ProjectProvider & { result: T }> {
+  const resolved = await getConfiguredProvider(projectId, providerName)
 
-  const { data: models } = await supabase
+  if (!resolved) {
+    throw new Error(`Provider ${providerName} not configured. Please ensure API keys are set in environment variables.`)
+  }
+
+  try {
+    return { ...resolved, result: await call(resolved.provider) }
+  } catch (error: any) {
+    if (resolved.keySource !== 'project' || !isCredentialError(error)) throw error
+
+    if (isRejectedKeyError(error)) {
+      await markCredentialInvalid(resolved.credentialId!, error.message)
+    }
+
+    if (!canRetry() || !(await isPlatformFallbackAllowed(projectId))) {
+      throw new ProjectCredentialError(providerName, error.message)
+    }
+
+    const platform = await createProvider(providerName)
+    if (!platform) {
+      throw new ProjectCredentialError(providerName, error.message)
+    }
+
+    console.warn(`[BYOK] ${providerName} key for project ${projectId} failed, retrying with the platform key: ${error.message}`)
+    return { provider: platform, keySource: 'platform', credentialId: null, result: await call(platform) }
+  }
+}
+
+/**
+ * The model's ai_models row. Uses the service client because background
+ * analysis and memory jobs call this from queue workers, outside any request.
+ */
+async function resolveModel(modelName: string) {
+  const supabase = createServiceClient()
+
+  const { data: model } = await supabase
     .from('ai_models')
     .select('*')
     .eq('name', modelName)
     .single()
 
-  if (!models) {
+  if (!model) {
     throw new Error(`Model ${modelName} not found`)
   }
 
-  const provider = await getConfiguredProvider(projectId, models.provider)
+  return model
+}
+
+/**
+ * Price a completion from the model's ai_models row, split by direction,
+ * falling back to the provider's built-in rates for unpriced models
+ */
+function estimateResultCost(provider: AIProvider, model: any, usage: ChatCompletionResult['usage']) {
+  if (usage && (model.input_price_per_million || model.output_price_per_million)) {
+    return (
+      usage.promptTokens * (model.input_price_per_million || 0) +
+      usage.completionTokens * (model.output_price_per_million || 0)
+    ) / 1_000_000
+  }
+  return provider.estimateCost(usage?.totalTokens || 0, model.model_id)
+}
+
+// Providers without function calling just never see the tools
+function withSupportedTools(provider: AIProvider, options?: Partial<ChatCompletionOptions>) {
+  if (!options?.tools || provider.supportsTools?.()) return options
+  const { tools, ...rest } = options
+  return rest
+}
 
-  if (!provider || !provider.isConfigured()) {
-    throw new Error(`Provider ${models.provider} not configured. Please ensure API keys are set in environment variables.`)
+export async function chatWithProjectCredentials(
+  projectId: string,
+  modelName: string,
+  messages: ChatMessage[],
+  options?: Partial<ChatCompletionOptions>
+) {
+  const models = await resolveModel(modelName)
+
+  const { provider, keySource, credentialId, result } = await callWithProjectProvider(
+    projectId,
+    models.provider,
+    provider => provider.chat({
+      model: models.model_id,
+      messages,
+      temperature: options?.temperature ?? 0.7,
+      maxTokens: options?.maxTokens ?? 500,
+      ...withSupportedTools(provider, options)
+    })
+  )
+
+  const cost = estimateResultCost(provider, models, result.usage)
+
+  return {
+    ...result,
+    estimatedCost: cost,
+    provider: models.provider,
+    modelName: models.name,
+    keySource,
+    credentialId
   }
+}
+
+/**
+ * Same as chatWithProjectCredentials, but forwards text to onDelta as the
+ * provider produces it. Providers without chatStream are called normally
+ * and their whole reply is emitted as a single delta.
+ */
+export async function streamWithProjectCredentials(
+  projectId: string,
+  modelName: string,
+  messages: ChatMessage[],
+  onDelta: (delta: string) => void,
+  options?: Partial<ChatCompletionOptions>
+) {
+  const models = await resolveModel(modelName)
+  let streamed = false
 
-  const result = await provider.chat({
-    model: models.model_id,
-    messages,
-    temperature: options?.temperature ?? 0.7,
-    maxTokens: options?.maxTokens ?? 500,
-    ...options
-  })
+  const generate = async (provider: AIProvider): Promise<ChatCompletionResult> => {
+    const chatOptions: ChatCompletionOptions = {
+      model: models.model_id,
+      messages,
+      temperature: options?.temperature ?? 0.7,
+      maxTokens: options?.maxTokens ?? 500,
+      ...withSupportedTools(provider, options),
+      stream: true
+    }
 
-  const cost = provider.estimateCost(result.usage?.totalTokens || 0, models.model_id)
+    if (!provider.chatStream) {
+      const result = await provider.chat({ ...chatOptions, stream: false })
+      streamed = true
+      onDelta(result.content)
+      return result
+    }
+
+    let content = ''
+    let usage: ChatCompletionResult['usage']
+    let finishReason: string | undefined
+    let toolCalls: ChatCompletionResult['toolCalls']
+
+    for await (const chunk of provider.chatStream(chatOptions)) {
+      if (chunk.delta) {
+        content += chunk.delta
+        streamed = true
+        onDelta(chunk.delta)
+      }
+      if (chunk.usage) usage = chunk.usage
+      if (chunk.finishReason) finishReason = chunk.finishReason
+      if (chunk.toolCalls) toolCalls = chunk.toolCalls
+    }
+
+    return { content, model: models.model_id, usage, finishReason, toolCalls }
+  }
+
+  // Once text has reached the client a retry would duplicate it
+  const { provider, keySource, credentialId, result } = await callWithProjectProvider(
+    projectId,
+    models.provider,
+    generate,
+    () => !streamed
+  )
+
+  const cost = estimateResultCost(provider, models, result.usage)
 
   return {
     ...result,
     estimatedCost: cost,
     provider: models.provider,
-    modelName: models.name
+    modelName: models.name,
+    keySource,
+    credentialId
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { get_encoding, Tiktoken, TiktokenEncoding } from 'tiktoken'
+import { ChatMessage } from './providers/base'
+
+/**
+ * Token counting with tiktoken
+ * OpenAI models use their own encoding; other providers' tokenizers aren't
+ * public, so cl100k_base stands in for them. That is within a few percent for
+ * English, far closer than characters / 4. If the WASM encoder can't load,
+ * counts fall back to the character estimate.
+ */
+
+// Chat formats wrap every message in a few tokens of role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Tokens that prime the assistant's reply
+const REPLY_PRIMING_TOKENS = 3
+
+const encoders = new Map<TiktokenEncoding, Tiktoken | null>()
+
+function encodingFor(model?: string): TiktokenEncoding {
+  return model && /gpt-4o|gpt-4\.1|gpt-5|\bo[134]\b|\bo[134]-/.test(model) ? 'o200k_base' : 'cl100k_base'
+}
+
+function getEncoder(model?: string): Tiktoken | null {
+  const encoding = encodingFor(model)
+  if (!encoders.has(encoding)) {
+    try {
+      encoders.set(encoding, get_encoding(encoding))
+    } catch (error) {
+      console.error(`[Tokenizer] Failed to load ${encoding}, estimating from length:`, error)
+      encoders.set(encoding, null)
+    }
+  }
+  return encoders.get(encoding) || null
+}
+
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0
+
+  const encoder = getEncoder(model)
+  // Special token text such as <|endoftext|> in user content is counted, not rejected
+  return encoder ? encoder.encode(text, 'all').length : Math.ceil(text.length / 4)
+}
+
+export function countMessageTokens(messages: ChatMessage[], model?: string): number {
+  return messages.reduce(
+    (total, message) => total + MESSAGE_OVERHEAD_TOKENS + countTokens(message.content, model),
+    REPLY_PRIMING_TOKENS
+  )
+}
+
+/**
+ * Cut text down to at most maxTokens tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  if (maxTokens <= 0) return ''
+
+  const encoder = getEncoder(model)
+  if (!encoder) return text.slice(0, maxTokens * 4)
+
+  const tokens = encoder.encode(text, 'all')
+  if (tokens.length <= maxTokens) return text
+  // A multi-byte character split at the cut decodes to U+FFFD; drop it
+  return new TextDecoder().decode(encoder.decode(tokens.slice(0, maxTokens))).replace(/�+$/, '')
+}
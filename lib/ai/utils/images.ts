@@ -0,0 +1,46 @@
+import { ChatImage, ChatMessage } from '../providers/base'
+
+// Providers reject larger inline images
+const MAX_INLINE_IMAGE_BYTES = 20 * 1024 * 1024
+
+/**
+ * Download an image for providers that only accept inline base64 data
+ */
+export async function fetchImageData(image: ChatImage): Promise<{ mimeType: string; data: string }> {
+  const response = await fetch(image.url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image ${image.url}: ${response.status}`)
+  }
+
+  const mimeType = image.mimeType || response.headers.get('content-type')?.split(';')[0] || 'image/jpeg'
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(`${image.url} is not an image (${mimeType})`)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error(`Image ${image.url} is larger than ${MAX_INLINE_IMAGE_BYTES / 1024 / 1024}MB`)
+  }
+
+  return { mimeType, data: buffer.toString('base64') }
+}
+
+/**
+ * Messages as a model sees them
+ * Vision models get the images; for the others each image-bearing turn says
+ * what was attached instead, so the reply can ask the visitor to describe it.
+ */
+export function prepareImages(messages: ChatMessage[], supportsVision: boolean): ChatMessage[] {
+  if (supportsVision || !messages.some(message => message.images?.length)) {
+    return messages
+  }
+
+  return messages.map(message => {
+    if (!message.images?.length) return message
+
+    const { images, ...rest } = message
+    const count = images.length === 1 ? 'an image' : `${images.length} images`
+    const note = `[The visitor attached ${count}, which you can't view. If it matters for the answer, ask them to describe it.]`
+    return { ...rest, content: message.content ? `${message.content}\n\n${note}` : note }
+  })
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from '@jest/globals'
+import { RobotsTxt } from '../robots'
+
+const site = 'https://example.com'
+
+describe('RobotsTxt', () => {
+  it('uses the * group when none names the crawler', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: Googlebot',
+      'Disallow: /',
+      '',
+      'User-agent: *',
+      'Disallow: /admin'
+    ].join('\n'))
+
+    expect(robots.isAllowed(`${site}/docs`)).toBe(true)
+    expect(robots.isAllowed(`${site}/admin/users`)).toBe(false)
+  })
+
+  it('prefers the group naming the crawler, case-insensitively', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Other',
+      'User-agent: alonchatbot',
+      'Disallow: /private',
+      'Crawl-delay: 2.5'
+    ].join('\n'))
+
+    expect(robots.isAllowed(`${site}/docs`)).toBe(true)
+    expect(robots.isAllowed(`${site}/private/page`)).toBe(false)
+    expect(robots.crawlDelay).toBe(2.5)
+  })
+
+  it('lets the longest matching rule win, and Allow win ties', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /shop',
+      'Allow: /shop/products',
+      'Disallow: /page',
+      'Allow: /page'
+    ].join('\n'))
+
+    expect(robots.isAllowed(`${site}/shop/cart`)).toBe(false)
+    expect(robots.isAllowed(`${site}/shop/products/mug`)).toBe(true)
+    expect(robots.isAllowed(`${site}/page`)).toBe(true)
+  })
+
+  it('supports * wildcards and $ anchors', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /*.pdf$',
+      'Disallow: /*?session='
+    ].join('\n'))
+
+    expect(robots.isAllowed(`${site}/files/manual.pdf`)).toBe(false)
+    expect(robots.isAllowed(`${site}/files/manual.pdf?download=1`)).toBe(true)
+    expect(robots.isAllowed(`${site}/cart?session=abc`)).toBe(false)
+    expect(robots.isAllowed(`${site}/cart?page=2`)).toBe(true)
+  })
+
+  it('treats regex characters in paths literally', () => {
+    const robots = RobotsTxt.parse('User-agent: *\nDisallow: /a.b(c)')
+
+    expect(robots.isAllowed(`${site}/a.b(c)/d`)).toBe(false)
+    expect(robots.isAllowed(`${site}/aXb(c)`)).toBe(true)
+  })
+
+  it('allows everything for an empty Disallow or no rules', () => {
+    expect(RobotsTxt.parse('User-agent: *\nDisallow:').isAllowed(`${site}/anything`)).toBe(true)
+    expect(RobotsTxt.allowAll().isAllowed(`${site}/anything`)).toBe(true)
+  })
+
+  it('always allows robots.txt itself', () => {
+    expect(RobotsTxt.parse('User-agent: *\nDisallow: /').isAllowed(`${site}/robots.txt`)).toBe(true)
+  })
+
+  it('ignores comments and collects sitemaps from anywhere in the file', () => {
+    const robots = RobotsTxt.parse([
+      'Sitemap: /sitemap.xml # main',
+      'User-agent: * # everyone',
+      'Disallow: /tmp # scratch',
+      'Sitemap: https://cdn.example.com/sitemap-2.xml',
+      'Sitemap: /sitemap.xml'
+    ].join('\r\n'), `${site}/robots.txt`)
+
+    expect(robots.isAllowed(`${site}/tmp/file`)).toBe(false)
+    expect(robots.sitemaps).toEqual([`${site}/sitemap.xml`, 'https://cdn.example.com/sitemap-2.xml'])
+  })
+})
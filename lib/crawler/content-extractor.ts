@@ -0,0 +1,383 @@
+import * as cheerio from 'cheerio'
+import { createHash } from 'crypto'
+
+// cheerio's node type, which it doesn't export
+type DomNode = Extract<Parameters<typeof cheerio.load>[0], { type: unknown }>
+
+// Stored content per page is capped, as before
+const MAX_CONTENT_LENGTH = 50000
+
+// Below this much text a candidate isn't the page's content; the cleaned body is used instead
+const MIN_CONTENT_LENGTH = 250
+
+// A block of text on this many pages of the crawl is boilerplate from then on
+const REPEATED_BLOCK_PAGES = 3
+// Shorter blocks (and headings) repeat legitimately, e.g. "Overview" on every docs page
+const MIN_REPEATED_BLOCK_LENGTH = 20
+// Repeated blocks remembered per source; the ones found most recently are kept
+const MAX_REPEATED_BLOCKS = 1000
+
+// Never content, whatever their class names say
+const NOISE_SELECTOR = [
+  'nav', 'aside', 'iframe', 'svg', 'canvas', 'template', 'dialog',
+  'button', 'input', 'select', 'textarea', 'label',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alertdialog"]', '[aria-modal="true"]',
+  '[hidden]', '[aria-hidden="true"]'
+].join(', ')
+
+// Class / id patterns, after Readability's candidate heuristics
+const CONSENT = /cookie|consent|gdpr|onetrust|cc-window/i
+const UNLIKELY = /-ad-|advert|banner|breadcrumb|combx|comment|community|disqus|footer|header|menu|modal|navbar|newsletter|pagination|pager|popup|related|share|shoutbox|sidebar|skip|social|sponsor|subscribe|toolbar|widget/i
+const MAYBE_CONTENT = /and|article|body|column|content|main|shadow/i
+const POSITIVE = /article|blog|body|content|docs?|entry|main|page|post|story|text/i
+const NEGATIVE = /banner|combx|comment|footer|footnote|hidden|masthead|media|meta|promo|related|scroll|share|sidebar|sponsor|tags|tool|widget/i
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+const BLOCK_TAGS = new Set([
+  ...HEADINGS, 'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th',
+  'pre', 'blockquote', 'figure', 'figcaption', 'hr', 'form', 'fieldset', 'details', 'summary', 'address'
+])
+
+export interface ContentExtractorOptions {
+  // Keep everything on the page instead of just its main content
+  fullPage?: boolean
+  // Hashes of blocks earlier crawls of the source found repeated; dropped from the first page on
+  repeatedBlocks?: string[]
+}
+
+/**
+ * Turn crawled pages into Markdown for chunking
+ * Finds the main content the way Readability does (semantic markup first, then
+ * text and link-density scoring), keeps headings, lists, tables and links as
+ * Markdown, and drops navigation, cookie banners and other chrome. One
+ * extractor is used per crawl: blocks repeated across the site's pages are
+ * dropped once they've been seen on a few pages, and the ones found are kept
+ * with the source so later crawls and single-page fetches drop them too.
+ * Full-page mode skips all boilerplate removal.
+ */
+export class ContentExtractor {
+  private fullPage: boolean
+  // Block hash -> pages of this crawl it appeared on; a page can be extracted
+  // twice (over HTTP, then rendered) and still counts once
+  private blockPages = new Map<string, Set<string>>()
+  private knownRepeated: Set<string>
+
+  constructor(options: ContentExtractorOptions = {}) {
+    this.fullPage = options.fullPage || false
+    this.knownRepeated = new Set(options.repeatedBlocks || [])
+  }
+
+  /**
+   * Hashes of the blocks known to repeat across the site, to seed the next
+   * crawl of the source with
+   */
+  repeatedBlocks(): string[] {
+    const found = Array.from(this.blockPages)
+      .filter(([, pages]) => pages.size >= REPEATED_BLOCK_PAGES)
+      .map(([hash]) => hash)
+    return Array.from(new Set([...found, ...this.knownRepeated])).slice(0, MAX_REPEATED_BLOCKS)
+  }
+
+  /**
+   * The page's content as Markdown; links are absolute, resolved against pageUrl
+   * The document isn't modified, so links can still be read from it afterwards.
+   */
+  extract($: cheerio.CheerioAPI, pageUrl: string): string {
+    const body = $('body').first().clone()
+    if (!body.length) return ''
+
+    let blocks: string[]
+    if (this.fullPage) {
+      blocks = this.renderBlocks($, body.contents().toArray(), pageUrl)
+    } else {
+      this.removeBoilerplate($, body)
+      const content = this.findMainContent($, body)
+      blocks = this.dropRepeatedBlocks(this.renderBlocks($, content.contents().toArray(), pageUrl), pageUrl)
+    }
+
+    return blocks.join('\n\n').slice(0, MAX_CONTENT_LENGTH)
+  }
+
+  private removeBoilerplate($: cheerio.CheerioAPI, body: cheerio.Cheerio<any>): void {
+    body.find(NOISE_SELECTOR).remove()
+
+    // Page headers and footers; an article's own header holds its title
+    body.find('header, footer')
+      .filter((_, element) => $(element).parents('article, main, [role="main"]').length === 0)
+      .remove()
+
+    body.find('[class], [id]').each((_, element) => {
+      const $element = $(element)
+      if ($element.is('main, article, [role="main"]')) return
+
+      const names = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`
+      const unlikely = CONSENT.test(names) || (UNLIKELY.test(names) && !MAYBE_CONTENT.test(names))
+      if (unlikely && $element.find('main, article, [role="main"]').length === 0) {
+        $element.remove()
+      }
+    })
+  }
+
+  /**
+   * The element holding the page's content: <main> or a lone <article> when
+   * the page marks it up, otherwise the best-scoring container
+   */
+  private findMainContent($: cheerio.CheerioAPI, body: cheerio.Cheerio<any>): cheerio.Cheerio<any> {
+    const hasContent = (element: cheerio.Cheerio<any>) => textLength(element) >= MIN_CONTENT_LENGTH
+
+    const main = body.find('main, [role="main"]').first()
+    if (main.length && hasContent(main)) return main
+
+    const articles = body.find('article')
+    if (articles.length === 1 && hasContent(articles)) return articles
+
+    const candidate = this.topCandidate($, body)
+    return candidate && hasContent(candidate) ? candidate : body
+  }
+
+  // Readability's scoring: paragraphs score their parent and grandparent by
+  // length and commas, discounted by the container's link density
+  private topCandidate($: cheerio.CheerioAPI, body: cheerio.Cheerio<any>): cheerio.Cheerio<any> | null {
+    const scores = new Map<DomNode, number>()
+    const initialScore = (element: DomNode) => {
+      const $element = $(element)
+      const names = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`
+      let score = $element.is('div') ? 5 : $element.is('pre, td, blockquote') ? 3 : $element.is('ol, ul, dl, form') ? -3 : 0
+      if (POSITIVE.test(names)) score += 25
+      if (NEGATIVE.test(names)) score -= 25
+      return score
+    }
+
+    body.find('p, pre, td, blockquote, div, section').each((_, element) => {
+      const $element = $(element)
+      // Containers only count when they hold text directly
+      if ($element.is('div, section') && $element.children().filter((_, child) => isBlock(child)).length > 0) return
+
+      const text = $element.text().replace(/\s+/g, ' ').trim()
+      if (text.length < 25) return
+
+      const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3)
+      $element.parents().slice(0, 3).each((level, ancestor) => {
+        if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor))
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+        scores.set(ancestor, scores.get(ancestor)! + score / divider)
+      })
+    })
+
+    let top: DomNode | null = null
+    let topScore = 0
+    for (const [element, score] of scores) {
+      const finalScore = score * (1 - linkDensity($, $(element)))
+      scores.set(element, finalScore)
+      if (finalScore > topScore) {
+        top = element
+        topScore = finalScore
+      }
+    }
+    if (!top) return null
+
+    // Content split over sibling containers scores their shared parent nearly as high
+    let candidate = $(top)
+    for (let parent = candidate.parent(); parent.length && scores.has(parent[0]); parent = parent.parent()) {
+      if (scores.get(parent[0])! < topScore * 0.75) break
+      candidate = parent
+    }
+
+    return candidate
+  }
+
+  // Drop blocks earlier crawls found repeated, and ones seen on enough pages
+  // of this crawl; a source's first pages keep what isn't known to repeat yet
+  private dropRepeatedBlocks(blocks: string[], pageUrl: string): string[] {
+    return blocks.filter(block => {
+      if (block.startsWith('#') || block.length < MIN_REPEATED_BLOCK_LENGTH) return true
+
+      const hash = createHash('sha256').update(block.toLowerCase()).digest('hex')
+      if (this.knownRepeated.has(hash)) return false
+
+      const pages = this.blockPages.get(hash) || new Set<string>()
+      pages.add(pageUrl)
+      this.blockPages.set(hash, pages)
+
+      return pages.size < REPEATED_BLOCK_PAGES
+    })
+  }
+
+  /**
+   * Markdown blocks for a run of nodes; inline content between blocks becomes paragraphs
+   */
+  private renderBlocks($: cheerio.CheerioAPI, nodes: DomNode[], pageUrl: string): string[] {
+    const blocks: string[] = []
+    let inline = ''
+
+    const flush = () => {
+      const paragraph = cleanText(inline)
+      if (paragraph) blocks.push(paragraph)
+      inline = ''
+    }
+
+    for (const node of nodes) {
+      const tag = tagName(node)
+      if (!tag || !BLOCK_TAGS.has(tag)) {
+        inline += this.renderInline($, [node], pageUrl)
+        continue
+      }
+
+      flush()
+      const $node = $(node)
+
+      if (HEADINGS.includes(tag)) {
+        const text = cleanText(this.renderInline($, $node.contents().toArray(), pageUrl)).replace(/\n/g, ' ')
+        if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`)
+      } else if (tag === 'ul' || tag === 'ol') {
+        const list = this.renderList($, $node, pageUrl, 0)
+        if (list) blocks.push(list)
+      } else if (tag === 'table') {
+        const table = this.renderTable($, $node, pageUrl)
+        if (table) blocks.push(table)
+      } else if (tag === 'pre') {
+        const code = $node.text().replace(/^\n+|\s+$/g, '')
+        if (code) blocks.push('```\n' + code + '\n```')
+      } else if (tag === 'blockquote') {
+        const quote = this.renderBlocks($, $node.contents().toArray(), pageUrl).join('\n\n')
+        if (quote) blocks.push(quote.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'))
+      } else if (tag !== 'hr') {
+        blocks.push(...this.renderBlocks($, $node.contents().toArray(), pageUrl))
+      }
+    }
+
+    flush()
+    return blocks
+  }
+
+  private renderInline($: cheerio.CheerioAPI, nodes: DomNode[], pageUrl: string): string {
+    return nodes.map(node => {
+      if (isText(node)) return (node as { data: string }).data.replace(/\s+/g, ' ')
+
+      const tag = tagName(node)
+      if (!tag) return ''
+
+      const $node = $(node)
+      const children = () => this.renderInline($, $node.contents().toArray(), pageUrl)
+
+      switch (tag) {
+        case 'br':
+          return '\n'
+        case 'img':
+          return ''
+        case 'code':
+          return $node.text().trim() ? `\`${$node.text().trim()}\`` : ''
+        case 'a': {
+          // Anchors are kept for the link extractor, which reads [text](url)
+          const text = cleanText(children()).replace(/\n/g, ' ')
+          const href = resolveLink($node.attr('href'), pageUrl)
+          return href && text ? `[${text.replace(/[[\]]/g, '')}](${href})` : text
+        }
+        default:
+          // Blocks inside inline content (a <div> in a list item) are separated by spaces
+          return BLOCK_TAGS.has(tag) ? ` ${children()} ` : children()
+      }
+    }).join('')
+  }
+
+  private renderList($: cheerio.CheerioAPI, list: cheerio.Cheerio<any>, pageUrl: string, depth: number): string {
+    const ordered = list.is('ol')
+    const lines: string[] = []
+
+    list.children('li').each((index, item) => {
+      const $item = $(item)
+      const contents = $item.contents().toArray()
+      const nested = contents.filter(node => tagName(node) === 'ul' || tagName(node) === 'ol')
+      const text = this.renderBlocks($, contents.filter(node => !nested.includes(node)), pageUrl)
+        .join(' ')
+        .replace(/\s*\n\s*/g, ' ')
+
+      const indent = '  '.repeat(depth)
+      if (text) lines.push(`${indent}${ordered ? `${index + 1}.` : '-'} ${text}`)
+      for (const child of nested) {
+        const sublist = this.renderList($, $(child), pageUrl, depth + 1)
+        if (sublist) lines.push(sublist)
+      }
+    })
+
+    return lines.join('\n')
+  }
+
+  private renderTable($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>, pageUrl: string): string {
+    const rows = table.find('tr')
+      // Rows of nested tables belong to those tables
+      .filter((_, row) => $(row).closest('table')[0] === table[0])
+      .map((_, row) => [$(row).children('th, td').map((_, cell) => {
+        const text = this.renderInline($, $(cell).contents().toArray(), pageUrl)
+        return cleanText(text).replace(/\n/g, ' ').replace(/\|/g, '\\|')
+      }).get()])
+      .get() as string[][]
+
+    const filled = rows.filter(cells => cells.some(Boolean))
+    if (filled.length === 0) return ''
+
+    // Single-column tables are usually layout; their cells read better as paragraphs
+    const columns = Math.max(...filled.map(cells => cells.length))
+    if (columns === 1) return filled.map(cells => cells[0]).filter(Boolean).join('\n\n')
+
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`
+
+    return [
+      line(filled[0]),
+      line(Array(columns).fill('---')),
+      ...filled.slice(1).map(line)
+    ].join('\n')
+  }
+}
+
+function tagName(node: { type: string; name?: string }): string | null {
+  return node.type === 'tag' && node.name ? node.name.toLowerCase() : null
+}
+
+function isText(node: { type: string }): boolean {
+  return node.type === 'text'
+}
+
+function isBlock(node: { type: string; name?: string }): boolean {
+  const tag = tagName(node)
+  return !!tag && BLOCK_TAGS.has(tag)
+}
+
+// Collapse whitespace within lines and drop empty lines
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+function textLength(element: cheerio.Cheerio<any>): number {
+  return element.text().replace(/\s+/g, ' ').trim().length
+}
+
+// Share of the element's text inside links; high for menus and link lists
+function linkDensity($: cheerio.CheerioAPI, element: cheerio.Cheerio<any>): number {
+  const total = textLength(element)
+  if (total === 0) return 0
+
+  let linked = 0
+  element.find('a').each((_, link) => {
+    linked += textLength($(link))
+  })
+  return Math.min(linked / total, 1)
+}
+
+function resolveLink(href: string | undefined, pageUrl: string): string | null {
+  if (!href || /^(#|mailto:|tel:|javascript:)/i.test(href)) return null
+
+  try {
+    const url = new URL(href, pageUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,154 @@
+import { z } from 'zod'
+import { CrawlRules } from '@/lib/types/crawler'
+
+const REGEX_PREFIX = 'regex:'
+
+// Dropped by the strip-tracking query mode
+const TRACKING_PARAMS = [
+  /^utm_/, /^gclid$/, /^dclid$/, /^gbraid$/, /^wbraid$/, /^fbclid$/, /^msclkid$/,
+  /^yclid$/, /^mc_cid$/, /^mc_eid$/, /^_ga$/, /^_gl$/, /^_hsenc$/, /^_hsmi$/, /^igshid$/
+]
+
+const patternSchema = z.string().trim().min(1).max(500).refine(pattern => {
+  try {
+    compilePattern(pattern)
+    return true
+  } catch {
+    return false
+  }
+}, 'Invalid regular expression')
+
+export const CrawlRulesSchema = z.object({
+  include: z.array(patternSchema).max(50).default([]),
+  exclude: z.array(patternSchema).max(50).default([]),
+  pathPrefix: z.string().trim().max(500).nullable().default(null)
+    .transform(prefix => prefix || null),
+  maxDepth: z.number().int().min(0).max(100).nullable().default(null),
+  queryParams: z.enum(['keep', 'strip-tracking', 'strip']).default('strip-tracking'),
+  keepParams: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  includeSubdomains: z.boolean().default(false)
+})
+
+/**
+ * Glob patterns match the whole path, and the query too when they contain ?.
+ * A trailing /* also matches the path itself, so /blog/* covers /blog.
+ * regex: patterns match anywhere in the path and query.
+ */
+function compilePattern(pattern: string): RegExp {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length))
+  }
+
+  let glob = pattern.startsWith('/') ? pattern : `/${pattern}`
+  let suffix = ''
+  if (glob.endsWith('/*')) {
+    glob = glob.slice(0, -2)
+    suffix = '(?:/.*)?'
+  }
+
+  const body = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  const query = glob.includes('?') ? '' : '(?:\\?.*)?'
+  return new RegExp(`^${body}${suffix}${query}$`, 'i')
+}
+
+/**
+ * Which URLs one crawl may visit, and the canonical form they're tracked under
+ */
+export class CrawlScope {
+  readonly maxDepth: number | null
+  private baseDomain: string
+  private pathPrefix: string
+  private include: RegExp[]
+  private exclude: RegExp[]
+
+  constructor(startUrl: string, private rules: CrawlRules) {
+    const start = new URL(startUrl)
+    this.baseDomain = start.hostname.replace(/^www\./i, '').toLowerCase()
+    this.pathPrefix = this.resolvePathPrefix(rules.pathPrefix, start.pathname)
+    this.maxDepth = rules.maxDepth
+    // Invalid patterns are rejected when rules are saved; skip any that slipped through
+    this.include = this.compileAll(rules.include)
+    this.exclude = this.compileAll(rules.exclude)
+  }
+
+  /**
+   * Canonical form of a URL: no fragment, query parameters filtered and
+   * sorted, no trailing slash
+   */
+  canonicalize(url: string): string {
+    try {
+      const parsed = new URL(url)
+      parsed.hash = ''
+
+      if (this.rules.queryParams !== 'keep') {
+        const keep = this.rules.keepParams.map(param => param.toLowerCase())
+        for (const name of Array.from(parsed.searchParams.keys())) {
+          const lower = name.toLowerCase()
+          const drop = this.rules.queryParams === 'strip'
+            ? !keep.includes(lower)
+            : TRACKING_PARAMS.some(tracking => tracking.test(lower)) && !keep.includes(lower)
+          if (drop) parsed.searchParams.delete(name)
+        }
+      }
+      parsed.searchParams.sort()
+      parsed.pathname = parsed.pathname.replace(/(.)\/+$/, '$1')
+
+      return parsed.toString().replace(/\/$/, '')
+    } catch {
+      return url
+    }
+  }
+
+  /**
+   * Whether the rules allow crawling a URL (depth is checked by the crawler)
+   */
+  allows(url: string): boolean {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return false
+    }
+
+    const host = parsed.hostname.replace(/^www\./i, '').toLowerCase()
+    const sameSite = host === this.baseDomain ||
+      (this.rules.includeSubdomains && host.endsWith(`.${this.baseDomain}`))
+    if (!sameSite) return false
+
+    const pathname = parsed.pathname.replace(/\/$/, '') || '/'
+    if (this.pathPrefix !== '/' && pathname !== this.pathPrefix && !pathname.startsWith(`${this.pathPrefix}/`)) {
+      return false
+    }
+
+    const target = parsed.pathname + parsed.search
+    if (this.exclude.some(pattern => pattern.test(target))) return false
+    if (this.include.length > 0 && !this.include.some(pattern => pattern.test(target))) return false
+
+    return true
+  }
+
+  // Without a prefix, pages under the start URL's directory (/docs for /docs or /docs/index.html)
+  private resolvePathPrefix(prefix: string | null, startPath: string): string {
+    let path = prefix ?? startPath
+    if (prefix === null && /\.[a-z0-9]+$/i.test(path)) {
+      path = path.slice(0, path.lastIndexOf('/'))
+    }
+
+    return `/${path.replace(/^\/+|\/+$/g, '')}`
+  }
+
+  private compileAll(patterns: string[]): RegExp[] {
+    return patterns.flatMap(pattern => {
+      try {
+        return [compilePattern(pattern)]
+      } catch {
+        console.warn(`[CrawlScope] Ignoring invalid pattern ${pattern}`)
+        return []
+      }
+    })
+  }
+}
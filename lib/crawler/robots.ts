@@ -0,0 +1,167 @@
+import { RobotsRule } from '@/lib/types/crawler'
+
+// Product token matched against User-agent lines
+export const CRAWLER_TOKEN = 'AlonChatBot'
+export const CRAWLER_USER_AGENT = `Mozilla/5.0 (compatible; ${CRAWLER_TOKEN}/1.0)`
+
+// robots.txt files beyond this are truncated, as Google does
+const MAX_ROBOTS_BYTES = 500 * 1024
+
+interface RobotsGroup {
+  agents: string[]
+  rules: RobotsRule[]
+  crawlDelay?: number
+}
+
+/**
+ * Parsed robots.txt for one origin
+ * Uses the group naming AlonChatBot, else the * group. The longest matching
+ * rule wins and Allow wins ties. A missing or unreadable file allows everything.
+ */
+export class RobotsTxt {
+  readonly rules: RobotsRule[]
+  // Seconds to wait between requests, if the site asks for it
+  readonly crawlDelay?: number
+  readonly sitemaps: string[]
+
+  private constructor(rules: RobotsRule[], sitemaps: string[], crawlDelay?: number) {
+    this.rules = rules
+    this.sitemaps = sitemaps
+    this.crawlDelay = crawlDelay
+  }
+
+  /**
+   * Fetch robots.txt for the origin of a URL
+   */
+  static async fetch(url: string): Promise<RobotsTxt> {
+    let robotsUrl: string
+    try {
+      robotsUrl = new URL('/robots.txt', url).toString()
+    } catch {
+      return RobotsTxt.allowAll()
+    }
+
+    try {
+      const response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(10000)
+      })
+
+      // 4xx means no restrictions; a 5xx is treated the same rather than stopping the crawl
+      if (!response.ok) {
+        console.log(`[Robots] No robots.txt at ${robotsUrl} (HTTP ${response.status})`)
+        return RobotsTxt.allowAll()
+      }
+
+      const text = (await response.text()).slice(0, MAX_ROBOTS_BYTES)
+      return RobotsTxt.parse(text, robotsUrl)
+    } catch (error: any) {
+      console.log(`[Robots] Failed to fetch ${robotsUrl}:`, error.message)
+      return RobotsTxt.allowAll()
+    }
+  }
+
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], [])
+  }
+
+  static parse(text: string, baseUrl?: string): RobotsTxt {
+    const groups: RobotsGroup[] = []
+    const sitemaps: string[] = []
+    let current: RobotsGroup | null = null
+    // Consecutive User-agent lines share one group
+    let collectingAgents = false
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim()
+      const separator = line.indexOf(':')
+      if (separator === -1) continue
+
+      const field = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
+
+      if (field === 'user-agent') {
+        if (!current || !collectingAgents) {
+          current = { agents: [], rules: [] }
+          groups.push(current)
+        }
+        current.agents.push(value.toLowerCase())
+        collectingAgents = true
+        continue
+      }
+
+      collectingAgents = false
+
+      if (field === 'sitemap') {
+        // Sitemap lines apply to every crawler, wherever they appear
+        try {
+          sitemaps.push(new URL(value, baseUrl).toString())
+        } catch {
+          // Ignore malformed sitemap URLs
+        }
+      } else if (current && (field === 'allow' || field === 'disallow')) {
+        // An empty Disallow allows everything
+        if (value) {
+          current.rules.push({ allow: field === 'allow', path: value })
+        }
+      } else if (current && field === 'crawl-delay') {
+        const delay = parseFloat(value)
+        if (!isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay
+        }
+      }
+    }
+
+    const token = CRAWLER_TOKEN.toLowerCase()
+    const group = groups.find(candidate => candidate.agents.some(agent => agent !== '*' && token.includes(agent)))
+      || groups.find(candidate => candidate.agents.includes('*'))
+
+    return new RobotsTxt(group?.rules || [], Array.from(new Set(sitemaps)), group?.crawlDelay)
+  }
+
+  isAllowed(url: string): boolean {
+    if (this.rules.length === 0) return true
+
+    let path: string
+    try {
+      const parsed = new URL(url)
+      path = parsed.pathname + parsed.search
+    } catch {
+      return false
+    }
+
+    // /robots.txt itself is always allowed
+    if (path === '/robots.txt') return true
+
+    let best: RobotsRule | null = null
+    for (const rule of this.rules) {
+      if (!this.matches(rule.path, path)) continue
+
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow && !best.allow)
+      ) {
+        best = rule
+      }
+    }
+
+    return best ? best.allow : true
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$')
+    const body = anchored ? pattern.slice(0, -1) : pattern
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+
+    try {
+      return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+    } catch {
+      return false
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import * as cheerio from 'cheerio'
+import { gunzipSync } from 'zlib'
+import { SitemapEntry } from '@/lib/types/crawler'
+import { validateCrawlUrl } from '@/lib/utils/security'
+import { CRAWLER_USER_AGENT } from './robots'
+
+// Limits from the sitemaps protocol, plus a cap on how far indexes are followed
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+const MAX_SITEMAP_FILES = 50
+const MAX_INDEX_DEPTH = 3
+
+/**
+ * Read page URLs from sitemaps
+ * Follows sitemap indexes and unpacks gzip-compressed sitemaps. Sitemaps that
+ * fail to load are skipped; the crawl falls back to following links.
+ */
+export class SitemapReader {
+  private visited = new Set<string>()
+  private entries = new Map<string, SitemapEntry>()
+
+  constructor(private maxUrls: number) {}
+
+  /**
+   * Pages listed in the given sitemaps, in the order they appear
+   */
+  async read(sitemapUrls: string[]): Promise<SitemapEntry[]> {
+    for (const url of sitemapUrls) {
+      await this.readSitemap(url, 0)
+      if (this.isFull()) break
+    }
+
+    return Array.from(this.entries.values())
+  }
+
+  private isFull(): boolean {
+    return this.entries.size >= this.maxUrls || this.visited.size >= MAX_SITEMAP_FILES
+  }
+
+  private async readSitemap(url: string, depth: number): Promise<void> {
+    if (this.visited.has(url) || this.isFull() || depth > MAX_INDEX_DEPTH) return
+    this.visited.add(url)
+
+    // Sitemap locations come from robots.txt and indexes, so they're checked like any crawl URL
+    if (!validateCrawlUrl(url).valid) {
+      console.warn(`[Sitemap] Skipping disallowed sitemap URL ${url}`)
+      return
+    }
+
+    const xml = await this.fetchXml(url)
+    if (!xml) return
+
+    const $ = cheerio.load(xml, { xml: true })
+
+    // <sitemapindex> lists further sitemaps
+    const children = $('sitemapindex > sitemap > loc')
+      .map((_, element) => $(element).text().trim())
+      .get()
+      .filter(Boolean)
+
+    for (const child of children) {
+      await this.readSitemap(child, depth + 1)
+      if (this.isFull()) return
+    }
+
+    $('urlset > url').each((_, element) => {
+      if (this.entries.size >= this.maxUrls) return false
+
+      const loc = $(element).children('loc').first().text().trim()
+      if (!loc || this.entries.has(loc)) return
+
+      const lastmod = $(element).children('lastmod').first().text().trim()
+      this.entries.set(loc, { url: loc, ...(lastmod && { lastmod: this.normalizeLastmod(lastmod) }) })
+    })
+
+    console.log(`[Sitemap] Read ${url}: ${children.length} sitemaps, ${this.entries.size} pages so far`)
+  }
+
+  private async fetchXml(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': CRAWLER_USER_AGENT,
+          'Accept': 'application/xml,text/xml,application/x-gzip,*/*;q=0.8'
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(30000)
+      })
+
+      if (!response.ok) {
+        console.log(`[Sitemap] ${url} returned HTTP ${response.status}`)
+        return null
+      }
+
+      const declaredSize = Number(response.headers.get('content-length') || 0)
+      if (declaredSize > MAX_SITEMAP_BYTES) {
+        console.warn(`[Sitemap] ${url} is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024}MB, skipping`)
+        return null
+      }
+
+      let buffer: Buffer = Buffer.from(await response.arrayBuffer())
+
+      // .xml.gz files; servers that set Content-Encoding are already unpacked by fetch
+      if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        buffer = gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES })
+      }
+
+      if (buffer.length > MAX_SITEMAP_BYTES) {
+        console.warn(`[Sitemap] ${url} is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024}MB, skipping`)
+        return null
+      }
+
+      return buffer.toString('utf8')
+    } catch (error: any) {
+      console.log(`[Sitemap] Failed to read ${url}:`, error.message)
+      return null
+    }
+  }
+
+  // W3C datetime in any of its precisions, stored as ISO 8601
+  private normalizeLastmod(value: string): string {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? value : date.toISOString()
+  }
+}
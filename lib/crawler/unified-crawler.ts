@@ -1,9 +1,22 @@
 import * as cheerio from 'cheerio'
 import { BrowserPool } from './browser-pool'
 import { CrawlCache } from './cache-manager'
-import { ChunkManager } from '@/lib/services/chunk-manager'
-import { CrawlResult, CrawlProgress, CrawlOptions } from '@/lib/types/crawler'
+import { ChunkSyncSession } from '@/lib/services/chunk-manager'
+import { WebsitePageStore } from '@/lib/services/website-pages'
+import {
+  CrawlResult,
+  CrawlProgress,
+  CrawlOptions,
+  CrawlMode,
+  CrawlRules,
+  DEFAULT_CRAWL_RULES,
+  PageValidator
+} from '@/lib/types/crawler'
 import { createServiceClient } from '@/lib/supabase/service'
+import { CRAWLER_USER_AGENT, RobotsTxt } from './robots'
+import { SitemapReader } from './sitemap'
+import { CrawlScope } from './crawl-rules'
+import { ContentExtractor } from './content-extractor'
 
 /**
  * UnifiedCrawler - Single source of truth for all crawling operations
@@ -12,45 +25,72 @@ import { createServiceClient } from '@/lib/supabase/service'
  * Features:
  * - HTTP-first approach for efficiency
  * - Browser pool for JS-heavy sites
- * - Built-in progressive chunking
- * - Per-domain rate limiting
+ * - Built-in progressive chunking, one website_pages row per page
+ * - Per-domain rate limiting, slowed down to the site's Crawl-delay
+ * - robots.txt rules for AlonChatBot (or *)
+ * - Sitemap seeding, so large sites reach content pages before navigation
+ * - Per-source crawl rules: include/exclude patterns, path prefix, depth, query canonicalization
+ * - Conditional requests (ETag / Last-Modified) against a previous crawl; unchanged pages keep their chunks
+ * - Main-content extraction to Markdown, dropping boilerplate repeated across the site (or the full page per source)
  * - Caching support
  */
 export class UnifiedCrawler {
   private browserPool: BrowserPool
   private cache: CrawlCache
-  private chunkManager = ChunkManager
   private crawledUrls = new Set<string>()
   private discoveredLinks = new Set<string>()
   private domainLastCrawl = new Map<string, number>()
-  private domainDelay = 1000 // 1 second between requests per domain
-  private baseDomain = ''
+  private domainDelay = 1000 // 1 second between requests per domain, raised by Crawl-delay
+  private maxDomainDelay = 30000 // Ignore Crawl-delay values beyond this
+  private scope!: CrawlScope
   private useCache = true // Enable caching by default
+  private robots = RobotsTxt.allowAll()
+  // Sitemap <lastmod> per URL
+  private lastmods = new Map<string, string>()
 
   // Crawler options
   private maxPages: number
   private crawlSubpages: boolean
-  private fullPageContent: boolean
+  private crawlMode: CrawlMode
+  private crawlRules: CrawlRules
+  private validators: Record<string, PageValidator>
+  private excludedUrls: Set<string>
+  private contentExtractor: ContentExtractor
   private onProgress?: (progress: CrawlProgress) => void | Promise<void>
 
   // For progressive saving
   private sourceId?: string
   private agentId?: string
   private projectId?: string
+  private chunkSync?: ChunkSyncSession
+  private pages?: WebsitePageStore
 
   constructor(options: CrawlOptions & {
     sourceId?: string
     agentId?: string
     projectId?: string
     useCache?: boolean
+    // Reuse unchanged chunks from the previous crawl of this source
+    chunkSync?: ChunkSyncSession
   }) {
     this.maxPages = options.maxPages || 10
     this.crawlSubpages = options.crawlSubpages !== false
-    this.fullPageContent = options.fullPageContent || false
+    this.crawlMode = options.crawlMode || 'links'
+    this.crawlRules = options.crawlRules || DEFAULT_CRAWL_RULES
+    this.validators = options.validators || {}
+    this.excludedUrls = new Set(options.excludedUrls || [])
+    this.contentExtractor = new ContentExtractor({
+      fullPage: options.fullPageContent,
+      repeatedBlocks: options.repeatedBlocks
+    })
     this.onProgress = options.onProgress
     this.sourceId = options.sourceId
     this.agentId = options.agentId
     this.projectId = options.projectId
+    this.chunkSync = options.chunkSync
+    if (this.sourceId && this.agentId && this.projectId) {
+      this.pages = new WebsitePageStore(this.sourceId, this.agentId, this.projectId)
+    }
     this.useCache = options.useCache !== false // Default to true
 
     this.browserPool = BrowserPool.getInstance()
@@ -62,12 +102,9 @@ export class UnifiedCrawler {
    */
   async crawlWebsite(startUrl: string): Promise<CrawlResult[]> {
     const results: CrawlResult[] = []
-    const urlQueue: string[] = [this.normalizeUrl(startUrl)]
 
-    // Extract base domain
     try {
-      const url = new URL(startUrl)
-      this.baseDomain = url.hostname.replace(/^www\./i, '')
+      this.scope = new CrawlScope(startUrl, this.crawlRules)
     } catch {
       return [{
         url: startUrl,
@@ -79,7 +116,10 @@ export class UnifiedCrawler {
       }]
     }
 
-    console.log(`[UnifiedCrawler] Starting crawl of ${startUrl}`)
+    // Depth counts the links followed from the start URL; sitemap pages are depth 0
+    const urlQueue: { url: string, depth: number }[] = [{ url: this.scope.canonicalize(startUrl), depth: 0 }]
+
+    console.log(`[UnifiedCrawler] Starting crawl of ${startUrl} (${this.crawlMode} mode)`)
 
     // Report initial progress
     if (this.onProgress) {
@@ -92,9 +132,30 @@ export class UnifiedCrawler {
       })
     }
 
+    this.robots = await RobotsTxt.fetch(startUrl)
+    if (this.robots.crawlDelay !== undefined) {
+      this.domainDelay = Math.min(Math.max(this.domainDelay, this.robots.crawlDelay * 1000), this.maxDomainDelay)
+      console.log(`[UnifiedCrawler] Crawl-delay ${this.robots.crawlDelay}s, waiting ${this.domainDelay}ms between requests`)
+    }
+
+    if (this.crawlMode === 'sitemap') {
+      const sitemapPages = await this.discoverSitemapPages(startUrl)
+      // The sitemap replaces the start page unless it lists it
+      if (sitemapPages.length > 0) {
+        urlQueue.splice(0, urlQueue.length, ...sitemapPages.map(url => ({ url, depth: 0 })))
+      }
+    }
+
+    // Pages of the previous crawl still in scope, after the pages above
+    for (const url of this.filterValidSubpages(Object.keys(this.validators))) {
+      if (!urlQueue.some(queued => queued.url === url)) {
+        urlQueue.push({ url, depth: this.validators[url].depth })
+      }
+    }
+
     // Main crawl loop
     while (urlQueue.length > 0 && results.length < this.maxPages) {
-      const currentUrl = urlQueue.shift()!
+      const { url: currentUrl, depth } = urlQueue.shift()!
 
       if (this.crawledUrls.has(currentUrl)) {
         continue
@@ -102,6 +163,16 @@ export class UnifiedCrawler {
 
       this.crawledUrls.add(currentUrl)
 
+      if (this.excludedUrls.has(currentUrl)) {
+        console.log(`[UnifiedCrawler] ${currentUrl} is excluded, skipping`)
+        continue
+      }
+
+      if (!this.robots.isAllowed(currentUrl)) {
+        console.log(`[UnifiedCrawler] robots.txt disallows ${currentUrl}, skipping`)
+        continue
+      }
+
       // Apply rate limiting
       await this.respectRateLimit(currentUrl)
 
@@ -118,6 +189,11 @@ export class UnifiedCrawler {
 
       // Crawl the page
       const result = await this.crawlPage(currentUrl)
+      const lastmod = this.lastmods.get(currentUrl)
+      if (lastmod) {
+        result.lastmod = lastmod
+      }
+      result.depth = depth
       results.push(result)
 
       // Track discovered links
@@ -126,6 +202,10 @@ export class UnifiedCrawler {
       // Progressive save if configured
       if (this.shouldProgressivelySave() && !result.error && result.content) {
         await this.progressivelySaveChunks(result)
+      } else if (result.notModified) {
+        this.chunkSync?.keepPage(result.url)
+      } else if (this.shouldProgressivelySave() && result.error) {
+        await this.pages?.savePageError(result)
       }
 
       // Report completed page
@@ -140,10 +220,13 @@ export class UnifiedCrawler {
         })
       }
 
-      // Add subpages if enabled
-      if (this.crawlSubpages && !result.error) {
+      // Add subpages if enabled and the depth limit allows
+      const canGoDeeper = this.scope.maxDepth === null || depth < this.scope.maxDepth
+      if (this.crawlSubpages && canGoDeeper && !result.error) {
         const validSubpages = this.filterValidSubpages(result.links)
-        urlQueue.push(...validSubpages.slice(0, this.maxPages - results.length))
+        urlQueue.push(...validSubpages
+          .slice(0, this.maxPages - results.length)
+          .map(url => ({ url, depth: depth + 1 })))
       }
     }
 
@@ -153,21 +236,57 @@ export class UnifiedCrawler {
     return results
   }
 
+  /**
+   * Hashes of the boilerplate blocks known after this crawl, for the source's
+   * repeated_blocks metadata
+   */
+  repeatedBlocks(): string[] {
+    return this.contentExtractor.repeatedBlocks()
+  }
+
+  /**
+   * Pages to crawl from the site's sitemaps: the ones robots.txt names, else
+   * /sitemap.xml. Limited by the crawl rules like any link.
+   */
+  private async discoverSitemapPages(startUrl: string): Promise<string[]> {
+    const sitemapUrls = this.robots.sitemaps.length > 0
+      ? this.robots.sitemaps
+      : [new URL('/sitemap.xml', startUrl).toString()]
+
+    // Read more than needed; some entries are filtered out below
+    const entries = await new SitemapReader(this.maxPages * 5).read(sitemapUrls)
+
+    const pages: string[] = []
+    for (const entry of entries) {
+      const [url] = this.filterValidSubpages([entry.url])
+      if (!url || pages.includes(url)) continue
+
+      pages.push(url)
+      if (entry.lastmod) {
+        this.lastmods.set(url, entry.lastmod)
+      }
+    }
+
+    console.log(`[UnifiedCrawler] Sitemaps listed ${entries.length} pages, ${pages.length} in scope`)
+    return pages
+  }
+
   /**
    * Crawl a single page - decides between cache, HTTP, and browser rendering
    */
   private async crawlPage(url: string): Promise<CrawlResult> {
     console.log(`[UnifiedCrawler] Crawling ${url}`)
+    const validator = this.validators[url]
 
-    // Check cache first if enabled
-    if (this.useCache) {
+    // Check cache first if enabled; pages of a previous crawl are asked for conditionally instead
+    if (this.useCache && !validator) {
       const cached = await this.cache.get(url)
       if (cached) {
         console.log(`[UnifiedCrawler] Using cached content for ${url}`)
         const $ = cheerio.load(cached.html)
         $('script, style, noscript').remove()
 
-        const content = this.extractContent($)
+        const content = this.contentExtractor.extract($, url)
         const links = this.extractLinks($, url)
         const images = this.extractImages($, url)
 
@@ -182,7 +301,12 @@ export class UnifiedCrawler {
     }
 
     // Try HTTP first (fast and lightweight)
-    const httpResult = await this.crawlWithHttp(url)
+    const httpResult = await this.crawlWithHttp(url, validator)
+
+    if (httpResult.notModified) {
+      console.log(`[UnifiedCrawler] ${url} not modified since the last crawl`)
+      return httpResult
+    }
 
     // Check if we got meaningful content
     if (!httpResult.error && httpResult.content && httpResult.content.length > 500) {
@@ -223,23 +347,41 @@ export class UnifiedCrawler {
     }
 
     // Return browser result if successful, otherwise return HTTP result
-    return browserResult.error ? httpResult : browserResult
+    return browserResult.error
+      ? httpResult
+      : {
+          ...browserResult,
+          etag: httpResult.etag,
+          lastModified: httpResult.lastModified,
+          // The browser doesn't report one; an HTTP error status didn't apply to the rendered page
+          statusCode: httpResult.error ? undefined : httpResult.statusCode
+        }
   }
 
   /**
    * HTTP-based crawling (fast, lightweight)
+   * With a validator from the previous crawl the request is conditional.
    */
-  private async crawlWithHttp(url: string): Promise<CrawlResult> {
+  private async crawlWithHttp(url: string, validator?: PageValidator): Promise<CrawlResult> {
+    let statusCode: number | undefined
     try {
       const response = await fetch(url, {
         headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; AlonChatBot/1.0)',
+          'User-Agent': CRAWLER_USER_AGENT,
           'Accept': 'text/html,application/xhtml+xml',
-          'Accept-Language': 'en-US,en;q=0.9'
+          'Accept-Language': 'en-US,en;q=0.9',
+          ...(validator?.etag && { 'If-None-Match': validator.etag }),
+          ...(validator?.lastModified && { 'If-Modified-Since': validator.lastModified })
         },
         redirect: 'follow'
       })
 
+      statusCode = response.status
+
+      if (response.status === 304) {
+        return { url, title: '', content: '', links: [], images: [], notModified: true, statusCode }
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`)
       }
@@ -257,11 +399,13 @@ export class UnifiedCrawler {
 
       // Extract content
       const title = $('title').text().trim() || $('h1').first().text().trim()
-      const content = this.extractContent($)
+      const content = this.contentExtractor.extract($, url)
       const links = this.extractLinks($, url)
       const images = this.extractImages($, url)
+      const etag = response.headers.get('etag') || undefined
+      const lastModified = response.headers.get('last-modified') || undefined
 
-      return { url, title, content, links, images }
+      return { url, title, content, links, images, etag, lastModified, statusCode }
 
     } catch (error: any) {
       return {
@@ -270,6 +414,7 @@ export class UnifiedCrawler {
         content: '',
         links: [],
         images: [],
+        statusCode,
         error: error.message
       }
     }
@@ -300,7 +445,7 @@ export class UnifiedCrawler {
     const $ = cheerio.load(renderResult.html)
     $('script, style, noscript').remove()
 
-    const content = this.extractContent($)
+    const content = this.contentExtractor.extract($, url)
     const links = this.extractLinks($, url)
     const images = this.extractImages($, url)
 
@@ -313,38 +458,6 @@ export class UnifiedCrawler {
     }
   }
 
-  /**
-   * Extract text content from parsed HTML
-   */
-  private extractContent($: cheerio.CheerioAPI): string {
-    let content = ''
-
-    if (this.fullPageContent) {
-      content = $('body').text().replace(/\s+/g, ' ').trim()
-    } else {
-      // Smart extraction - try main content areas first
-      const selectors = [
-        'main', 'article', '[role="main"]',
-        '.content', '#content', '.main-content', '#main-content'
-      ]
-
-      for (const selector of selectors) {
-        const element = $(selector).first()
-        if (element.length) {
-          content = element.text().replace(/\s+/g, ' ').trim()
-          if (content.length > 100) break
-        }
-      }
-
-      // Fallback to body if no good content found
-      if (content.length < 100) {
-        content = $('body').text().replace(/\s+/g, ' ').trim()
-      }
-    }
-
-    return content.slice(0, 50000) // Limit to 50KB
-  }
-
   /**
    * Extract all links from the page
    */
@@ -386,9 +499,9 @@ export class UnifiedCrawler {
     if (!this.sourceId || !this.agentId || !this.projectId) return
 
     try {
-      // Check if source still exists before saving chunks
-      const { createClient } = await import('@/lib/supabase/server')
-      const supabase = await createClient()
+      // Check if source still exists before saving chunks. Crawls run in the
+      // queue worker, outside any request, so this can't use a session client
+      const supabase = createServiceClient()
       const { data: sourceExists } = await supabase
         .from('sources')
         .select('id')
@@ -400,20 +513,7 @@ export class UnifiedCrawler {
         return
       }
 
-      const chunkCount = await this.chunkManager.appendChunks({
-        sourceId: this.sourceId,
-        agentId: this.agentId,
-        projectId: this.projectId,
-        content: page.content,
-        metadata: {
-          type: 'website',
-          page_url: page.url,
-          page_title: page.title,
-          crawl_timestamp: new Date().toISOString()
-        },
-        chunkSize: 16000,
-        chunkOverlap: 1600
-      })
+      const chunkCount = await this.pages!.savePage(page, this.chunkSync)
 
       console.log(`[UnifiedCrawler] Saved ${chunkCount} chunks for ${page.url}`)
     } catch (error) {
@@ -446,18 +546,21 @@ export class UnifiedCrawler {
   }
 
   /**
-   * Filter valid subpages for crawling
+   * Filter valid subpages for crawling, returned in canonical form
    */
   private filterValidSubpages(links: string[]): string[] {
-    return links.filter(link => {
+    const canonical = Array.from(new Set(links.map(link => this.scope.canonicalize(link))))
+
+    return canonical.filter(link => {
       if (this.crawledUrls.has(link)) return false
 
       try {
         const url = new URL(link)
-        const linkDomain = url.hostname.replace(/^www\./i, '')
 
-        // Same domain check
-        if (linkDomain !== this.baseDomain) return false
+        // Same site, path prefix and include/exclude patterns
+        if (!this.scope.allows(link)) return false
+
+        if (!this.robots.isAllowed(link)) return false
 
         // Skip non-content URLs
         const path = url.pathname.toLowerCase()
@@ -502,18 +605,6 @@ export class UnifiedCrawler {
     }
   }
 
-  /**
-   * Normalize URL (remove trailing slash, etc.)
-   */
-  private normalizeUrl(url: string): string {
-    try {
-      const normalized = new URL(url)
-      return normalized.toString().replace(/\/$/, '')
-    } catch {
-      return url
-    }
-  }
-
   /**
    * Simple delay utility
    */
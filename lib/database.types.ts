@@ -122,7 +122,6 @@ export type Database = {
           provider: string
           provider_id: string | null
           request_template: Json | null
-          response_parser: string | null
           sort_order: number | null
           speed: string | null
           supports_functions: boolean | null
@@ -153,7 +152,6 @@ export type Database = {
           provider: string
           provider_id?: string | null
           request_template?: Json | null
-          response_parser?: string | null
           sort_order?: number | null
           speed?: string | null
           supports_functions?: boolean | null
@@ -184,7 +182,6 @@ export type Database = {
           provider?: string
           provider_id?: string | null
           request_template?: Json | null
-          response_parser?: string | null
           sort_order?: number | null
           speed?: string | null
           supports_functions?: boolean | null
@@ -211,6 +208,9 @@ export type Database = {
           links: Json | null
           metadata: Json | null
           name: string
+          pending_added_chunks: number
+          pending_removed_chunks: number
+          pending_reused_chunks: number
           processing_completed_at: string | null
           processing_started_at: string | null
           project_id: string
@@ -236,6 +236,9 @@ export type Database = {
           links?: Json | null
           metadata?: Json | null
           name: string
+          pending_added_chunks?: number
+          pending_removed_chunks?: number
+          pending_reused_chunks?: number
           processing_completed_at?: string | null
           processing_started_at?: string | null
           project_id: string
@@ -261,6 +264,9 @@ export type Database = {
           links?: Json | null
           metadata?: Json | null
           name?: string
+          pending_added_chunks?: number
+          pending_removed_chunks?: number
+          pending_reused_chunks?: number
           processing_completed_at?: string | null
           processing_started_at?: string | null
           project_id?: string
@@ -277,8 +283,11 @@ export type Database = {
         Row: {
           agent_id: string
           content: string
+          content_hash: string | null
           created_at: string | null
           embedding: string | null
+          embedding_dimensions: number | null
+          embedding_model: string | null
           id: string
           metadata: Json | null
           position: number
@@ -290,8 +299,11 @@ export type Database = {
         Insert: {
           agent_id: string
           content: string
+          content_hash?: string | null
           created_at?: string | null
           embedding?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
           metadata?: Json | null
           position: number
@@ -303,8 +315,11 @@ export type Database = {
         Update: {
           agent_id?: string
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           embedding?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
           metadata?: Json | null
           position?: number
@@ -318,6 +333,8 @@ export type Database = {
       projects: {
         Row: {
           created_at: string | null
+          embedding_model: string
+          embedding_provider: string
           id: string
           name: string
           owner_id: string
@@ -327,6 +344,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          embedding_model?: string
+          embedding_provider?: string
           id?: string
           name: string
           owner_id: string
@@ -336,6 +355,8 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          embedding_model?: string
+          embedding_provider?: string
           id?: string
           name?: string
           owner_id?: string
@@ -379,7 +400,9 @@ export type Database = {
         Row: {
           agent_id: string
           channel: string | null
+          contact_id: string | null
           ended_at: string | null
+          handoff_requested_at: string | null
           id: string
           location: Json | null
           messenger_sender_id: string | null
@@ -387,11 +410,16 @@ export type Database = {
           project_id: string | null
           session_id: string
           started_at: string | null
+          summarized_until: string | null
+          summary: string | null
+          summary_updated_at: string | null
         }
         Insert: {
           agent_id: string
           channel?: string | null
+          contact_id?: string | null
           ended_at?: string | null
+          handoff_requested_at?: string | null
           id?: string
           location?: Json | null
           messenger_sender_id?: string | null
@@ -399,11 +427,16 @@ export type Database = {
           project_id?: string | null
           session_id: string
           started_at?: string | null
+          summarized_until?: string | null
+          summary?: string | null
+          summary_updated_at?: string | null
         }
         Update: {
           agent_id?: string
           channel?: string | null
+          contact_id?: string | null
           ended_at?: string | null
+          handoff_requested_at?: string | null
           id?: string
           location?: Json | null
           messenger_sender_id?: string | null
@@ -411,6 +444,9 @@ export type Database = {
           project_id?: string | null
           session_id?: string
           started_at?: string | null
+          summarized_until?: string | null
+          summary?: string | null
+          summary_updated_at?: string | null
         }
         Relationships: []
       }
@@ -613,9 +649,11 @@ export type Database = {
           conversation_id: string | null
           cost_usd: number | null
           created_at: string | null
+          credential_id: string | null
           credits_used: number | null
           id: string
           input_tokens: number | null
+          key_source: string
           metadata: Json | null
           model: string
           output_tokens: number | null
@@ -629,9 +667,11 @@ export type Database = {
           conversation_id?: string | null
           cost_usd?: number | null
           created_at?: string | null
+          credential_id?: string | null
           credits_used?: number | null
           id?: string
           input_tokens?: number | null
+          key_source?: string
           metadata?: Json | null
           model: string
           output_tokens?: number | null
@@ -645,9 +685,11 @@ export type Database = {
           conversation_id?: string | null
           cost_usd?: number | null
           created_at?: string | null
+          credential_id?: string | null
           credits_used?: number | null
           id?: string
           input_tokens?: number | null
+          key_source?: string
           metadata?: Json | null
           model?: string
           output_tokens?: number | null
@@ -717,10 +759,12 @@ export type Database = {
       ai_providers: {
         Row: {
           api_base_url: string | null
+          api_key_env_var: string | null
           auth_header_name: string | null
           auth_header_prefix: string | null
           config_schema: Json | null
           created_at: string | null
+          default_headers: Json
           display_name: string
           features: Json | null
           id: string
@@ -730,15 +774,19 @@ export type Database = {
           npm_package: string | null
           pricing: Json | null
           provider_class: string
+          query_params: Json
           required_env_vars: Json | null
+          response_mapping: Json
           updated_at: string | null
         }
         Insert: {
           api_base_url?: string | null
+          api_key_env_var?: string | null
           auth_header_name?: string | null
           auth_header_prefix?: string | null
           config_schema?: Json | null
           created_at?: string | null
+          default_headers?: Json
           display_name: string
           features?: Json | null
           id?: string
@@ -748,15 +796,19 @@ export type Database = {
           npm_package?: string | null
           pricing?: Json | null
           provider_class: string
+          query_params?: Json
           required_env_vars?: Json | null
+          response_mapping?: Json
           updated_at?: string | null
         }
         Update: {
           api_base_url?: string | null
+          api_key_env_var?: string | null
           auth_header_name?: string | null
           auth_header_prefix?: string | null
           config_schema?: Json | null
           created_at?: string | null
+          default_headers?: Json
           display_name?: string
           features?: Json | null
           id?: string
@@ -766,14 +818,676 @@ export type Database = {
           npm_package?: string | null
           pricing?: Json | null
           provider_class?: string
+          query_params?: Json
           required_env_vars?: Json | null
+          response_mapping?: Json
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      agent_actions: {
+        Row: {
+          agent_id: string
+          config: Json
+          created_at: string | null
+          description: string
+          enabled: boolean
+          id: string
+          name: string
+          parameters: Json
+          project_id: string
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          config?: Json
+          created_at?: string | null
+          description?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          parameters?: Json
+          project_id: string
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          config?: Json
+          created_at?: string | null
+          description?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          parameters?: Json
+          project_id?: string
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      agent_action_secrets: {
+        Row: {
+          agent_id: string
+          created_at: string | null
+          encrypted_value: string
+          id: string
+          name: string
+          project_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string | null
+          encrypted_value: string
+          id?: string
+          name: string
+          project_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string | null
+          encrypted_value?: string
+          id?: string
+          name?: string
+          project_id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      project_provider_credentials: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          encrypted_key: string
+          id: string
+          key_hint: string | null
+          last_error: string | null
+          last_validated_at: string | null
+          project_id: string
+          provider: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          encrypted_key: string
+          id?: string
+          key_hint?: string | null
+          last_error?: string | null
+          last_validated_at?: string | null
+          project_id: string
+          provider: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          encrypted_key?: string
+          id?: string
+          key_hint?: string | null
+          last_error?: string | null
+          last_validated_at?: string | null
+          project_id?: string
+          provider?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      contacts: {
+        Row: {
+          agent_id: string
+          company: string | null
+          created_at: string | null
+          email: string | null
+          email_normalized: string | null
+          fields: Json
+          first_contact_at: string | null
+          id: string
+          last_contact_at: string | null
+          name: string | null
+          notes: string | null
+          phone: string | null
+          phone_normalized: string | null
+          project_id: string
+          source: string
+          status: string
+          tags: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          company?: string | null
+          created_at?: string | null
+          email?: string | null
+          fields?: Json
+          first_contact_at?: string | null
+          id?: string
+          last_contact_at?: string | null
+          name?: string | null
+          notes?: string | null
+          phone?: string | null
+          project_id: string
+          source?: string
+          status?: string
+          tags?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          company?: string | null
+          created_at?: string | null
+          email?: string | null
+          fields?: Json
+          first_contact_at?: string | null
+          id?: string
+          last_contact_at?: string | null
+          name?: string | null
+          notes?: string | null
+          phone?: string | null
+          project_id?: string
+          source?: string
+          status?: string
+          tags?: string[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      leads: {
+        Row: {
+          action_id: string | null
+          agent_id: string
+          contact_id: string | null
+          conversation_id: string | null
+          created_at: string | null
+          data: Json | null
+          email: string | null
+          id: string
+          name: string | null
+          phone: string | null
+          project_id: string | null
+          session_id: string | null
+          source: string | null
+        }
+        Insert: {
+          action_id?: string | null
+          agent_id: string
+          contact_id?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          data?: Json | null
+          email?: string | null
+          id?: string
+          name?: string | null
+          phone?: string | null
+          project_id?: string | null
+          session_id?: string | null
+          source?: string | null
+        }
+        Update: {
+          action_id?: string | null
+          agent_id?: string
+          contact_id?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          data?: Json | null
+          email?: string | null
+          id?: string
+          name?: string | null
+          phone?: string | null
+          project_id?: string | null
+          session_id?: string | null
+          source?: string | null
+        }
+        Relationships: []
+      }
+      analytics_daily_sentiment: {
+        Row: {
+          agent_id: string
+          avg_score: number | null
+          day: string
+          negative: number
+          neutral: number
+          positive: number
+          project_id: string
+        }
+        Insert: {
+          agent_id: string
+          avg_score?: number | null
+          day: string
+          negative?: number
+          neutral?: number
+          positive?: number
+          project_id: string
+        }
+        Update: {
+          agent_id?: string
+          avg_score?: number | null
+          day?: string
+          negative?: number
+          neutral?: number
+          positive?: number
+          project_id?: string
+        }
+        Relationships: []
+      }
+      analytics_daily_topics: {
+        Row: {
+          agent_id: string
+          conversation_count: number
+          day: string
+          project_id: string
+          question_count: number
+          topic_id: string
+        }
+        Insert: {
+          agent_id: string
+          conversation_count?: number
+          day: string
+          project_id: string
+          question_count?: number
+          topic_id: string
+        }
+        Update: {
+          agent_id?: string
+          conversation_count?: number
+          day?: string
+          project_id?: string
+          question_count?: number
+          topic_id?: string
+        }
+        Relationships: []
+      }
+      conversation_analyses: {
+        Row: {
+          agent_id: string
+          analyzed_at: string | null
+          conversation_date: string
+          conversation_id: string
+          last_message_at: string
+          message_count: number
+          model: string | null
+          primary_topic_id: string | null
+          project_id: string
+          sentiment: string
+          sentiment_score: number
+        }
+        Insert: {
+          agent_id: string
+          analyzed_at?: string | null
+          conversation_date: string
+          conversation_id: string
+          last_message_at: string
+          message_count?: number
+          model?: string | null
+          primary_topic_id?: string | null
+          project_id: string
+          sentiment: string
+          sentiment_score: number
+        }
+        Update: {
+          agent_id?: string
+          analyzed_at?: string | null
+          conversation_date?: string
+          conversation_id?: string
+          last_message_at?: string
+          message_count?: number
+          model?: string | null
+          primary_topic_id?: string | null
+          project_id?: string
+          sentiment?: string
+          sentiment_score?: number
+        }
+        Relationships: []
+      }
+      conversation_analysis_failures: {
+        Row: {
+          agent_id: string
+          attempts: number
+          conversation_id: string
+          last_error: string | null
+          last_message_at: string
+          next_attempt_at: string
+          project_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          attempts?: number
+          conversation_id: string
+          last_error?: string | null
+          last_message_at: string
+          next_attempt_at: string
+          project_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          attempts?: number
+          conversation_id?: string
+          last_error?: string | null
+          last_message_at?: string
+          next_attempt_at?: string
+          project_id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      conversation_topics: {
+        Row: {
+          agent_id: string
+          centroid: string
+          created_at: string | null
+          embedding_model: string
+          id: string
+          label: string
+          project_id: string
+          question_count: number
+          sample_questions: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          centroid: string
+          created_at?: string | null
+          embedding_model: string
+          id?: string
+          label: string
+          project_id: string
+          question_count?: number
+          sample_questions?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          centroid?: string
+          created_at?: string | null
+          embedding_model?: string
+          id?: string
+          label?: string
+          project_id?: string
+          question_count?: number
+          sample_questions?: string[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      message_topics: {
+        Row: {
+          agent_id: string
+          asked_at: string
+          conversation_id: string
+          message_id: string
+          project_id: string
+          question: string
+          similarity: number | null
+          topic_id: string
+        }
+        Insert: {
+          agent_id: string
+          asked_at: string
+          conversation_id: string
+          message_id: string
+          project_id: string
+          question: string
+          similarity?: number | null
+          topic_id: string
+        }
+        Update: {
+          agent_id?: string
+          asked_at?: string
+          conversation_id?: string
+          message_id?: string
+          project_id?: string
+          question?: string
+          similarity?: number | null
+          topic_id?: string
+        }
+        Relationships: []
+      }
+      knowledge_gaps: {
+        Row: {
+          agent_id: string
+          centroid: string
+          created_at: string | null
+          embedding_model: string
+          id: string
+          label: string
+          last_asked_at: string | null
+          project_id: string
+          question_count: number
+          resolved_at: string | null
+          resolved_source_id: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id: string
+          centroid: string
+          created_at?: string | null
+          embedding_model: string
+          id?: string
+          label: string
+          last_asked_at?: string | null
+          project_id: string
+          question_count?: number
+          resolved_at?: string | null
+          resolved_source_id?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string
+          centroid?: string
+          created_at?: string | null
+          embedding_model?: string
+          id?: string
+          label?: string
+          last_asked_at?: string | null
+          project_id?: string
+          question_count?: number
+          resolved_at?: string | null
+          resolved_source_id?: string | null
+          status?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      knowledge_gap_questions: {
+        Row: {
+          agent_id: string
+          answer: string | null
+          conversation_id: string | null
+          created_at: string | null
+          gap_id: string
+          id: string
+          message_id: string | null
+          project_id: string
+          question: string
+          reason: string
+          top_similarity: number | null
+        }
+        Insert: {
+          agent_id: string
+          answer?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          gap_id: string
+          id?: string
+          message_id?: string | null
+          project_id: string
+          question: string
+          reason: string
+          top_similarity?: number | null
+        }
+        Update: {
+          agent_id?: string
+          answer?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          gap_id?: string
+          id?: string
+          message_id?: string | null
+          project_id?: string
+          question?: string
+          reason?: string
+          top_similarity?: number | null
+        }
+        Relationships: []
+      }
+      scaling_alerts: {
+        Row: {
+          acknowledged: boolean | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alert_type: string | null
+          auto_scaled: boolean | null
+          current_value: number | null
+          id: string
+          metadata: Json | null
+          metric_name: string | null
+          recommendation: string | null
+          severity: string | null
+          threshold_value: number | null
+          triggered_at: string | null
+        }
+        Insert: {
+          acknowledged?: boolean | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type?: string | null
+          auto_scaled?: boolean | null
+          current_value?: number | null
+          id?: string
+          metadata?: Json | null
+          metric_name?: string | null
+          recommendation?: string | null
+          severity?: string | null
+          threshold_value?: number | null
+          triggered_at?: string | null
+        }
+        Update: {
+          acknowledged?: boolean | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_type?: string | null
+          auto_scaled?: boolean | null
+          current_value?: number | null
+          id?: string
+          metadata?: Json | null
+          metric_name?: string | null
+          recommendation?: string | null
+          severity?: string | null
+          threshold_value?: number | null
+          triggered_at?: string | null
+        }
+        Relationships: []
+      }
+      agent_activities: {
+        Row: {
+          id: string
+          agent_id: string
+          project_id: string
+          source_id: string | null
+          type: string
+          description: string
+          metadata: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          project_id: string
+          source_id?: string | null
+          type: string
+          description: string
+          metadata?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          project_id?: string
+          source_id?: string | null
+          type?: string
+          description?: string
+          metadata?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      website_pages: {
+        Row: {
+          id: string
+          source_id: string
+          agent_id: string
+          project_id: string
+          url: string
+          title: string | null
+          status: string
+          status_code: number | null
+          content_hash: string | null
+          content_length: number
+          chunk_count: number
+          error_message: string | null
+          crawled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          source_id: string
+          agent_id: string
+          project_id: string
+          url: string
+          title?: string | null
+          status?: string
+          status_code?: number | null
+          content_hash?: string | null
+          content_length?: number
+          chunk_count?: number
+          error_message?: string | null
+          crawled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          source_id?: string
+          agent_id?: string
+          project_id?: string
+          url?: string
+          title?: string | null
+          status?: string
+          status_code?: number | null
+          content_hash?: string | null
+          content_length?: number
+          chunk_count?: number
+          error_message?: string | null
+          crawled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {}
-    Functions: {}
+    Functions: {
+      adjust_pending_chunk_counts: {
+        Args: {
+          p_source_id: string
+          p_added: number
+          p_reused: number
+          p_removed: number
+        }
+        Returns: undefined
+      }
+    }
     Enums: {
       agent_status: "draft" | "training" | "ready" | "error"
       message_role: "user" | "assistant" | "system"
@@ -809,7 +1523,6 @@ export interface AIModel {
   speed?: string | null
   api_endpoint?: string | null
   request_template?: Json | null
-  response_parser?: string | null
   last_tested_at?: string | null
   last_test_status?: string | null
   last_test_message?: string | null
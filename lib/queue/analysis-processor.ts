@@ -0,0 +1,115 @@
+import { Queue, Worker, Job } from 'bullmq'
+import { ConversationAnalyzer } from '@/lib/services/conversation-analyzer'
+import { getSharedConnection, getWorkerConnection } from './redis-connection'
+import { ConversationAnalysisJob } from '@/lib/types/analytics'
+
+// Chats queue a run this long after the message, so it batches the
+// conversations that went quiet in the meantime
+const ANALYSIS_DELAY_MS = 15 * 60 * 1000
+// Pause between the batches of a large backlog
+const BACKLOG_DELAY_MS = 60 * 1000
+
+let analysisQueue: Queue<ConversationAnalysisJob> | null = null
+let analysisWorker: Worker<ConversationAnalysisJob> | null = null
+
+// Initialize queue
+export function initAnalysisQueue() {
+  try {
+    const connection = getSharedConnection()
+    if (!connection) {
+      console.warn('Redis not available, conversation analytics will not be updated')
+      return null
+    }
+
+    analysisQueue = new Queue<ConversationAnalysisJob>('conversation-analysis', {
+      connection,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 60000
+        },
+        removeOnComplete: true,
+        removeOnFail: true
+      }
+    })
+
+    return analysisQueue
+  } catch (error) {
+    console.error('Failed to initialize analysis queue:', error)
+    return null
+  }
+}
+
+// Initialize worker
+export function initAnalysisWorker() {
+  try {
+    const connection = getWorkerConnection()
+    if (!connection) {
+      console.warn('Redis not available, analysis worker will not start')
+      return null
+    }
+
+    analysisWorker = new Worker<ConversationAnalysisJob>(
+      'conversation-analysis',
+      async (job: Job<ConversationAnalysisJob>) => {
+        const result = await new ConversationAnalyzer(job.data.agentId, job.data.projectId).run()
+
+        // Large backlogs are worked through one batch per job; failed
+        // conversations are backed off by the analyzer, not retried here
+        if (result.remaining) {
+          await queueConversationAnalysis(job.data, {
+            delay: BACKLOG_DELAY_MS,
+            jobId: `analysis-${job.data.agentId}-${Date.now()}`
+          })
+        }
+
+        return result
+      },
+      {
+        connection,
+        concurrency: 1
+      }
+    )
+
+    analysisWorker.on('failed', (job, err) => {
+      console.error(`Conversation analysis failed for job ${job?.id}:`, err.message)
+    })
+
+    return analysisWorker
+  } catch (error) {
+    console.error('Failed to initialize analysis worker:', error)
+    return null
+  }
+}
+
+// Add job to queue; while one is pending for the agent further calls are no-ops
+export async function queueConversationAnalysis(
+  data: ConversationAnalysisJob,
+  options: { delay?: number; jobId?: string } = {}
+): Promise<string | null> {
+  if (!analysisQueue) {
+    analysisQueue = initAnalysisQueue()
+    if (!analysisQueue) {
+      return null
+    }
+  }
+
+  try {
+    const job = await analysisQueue.add('analyze', data, {
+      jobId: options.jobId || `analysis-${data.agentId}`,
+      delay: options.delay ?? ANALYSIS_DELAY_MS
+    })
+    return job.id || null
+  } catch (error) {
+    console.error('Failed to queue conversation analysis:', error)
+    return null
+  }
+}
+
+// Initialize worker on startup (call this from your app initialization)
+export function startAnalysisWorker() {
+  if (!analysisWorker) {
+    initAnalysisWorker()
+  }
+}
@@ -1,20 +1,24 @@
 import { startWebsiteWorker } from './website-processor'
+import { startReembeddingWorker } from './reembedding-processor'
+import { startAnalysisWorker } from './analysis-processor'
+import { startMemoryWorker } from './memory-processor'
 
-let initialized = false
-
+// Started from instrumentation.ts when the server boots, and again by /api/init.
+// Each worker starts once; ones that couldn't reach Redis are retried.
 export function initializeQueues() {
-  if (initialized) return
+  console.log('Initializing queue workers...')
 
   // Start website crawl worker
-  console.log('Initializing queue workers...')
   startWebsiteWorker()
 
-  initialized = true
+  // Start embedding model migration worker
+  startReembeddingWorker()
+
+  // Start conversation sentiment/topic analysis worker
+  startAnalysisWorker()
+
+  // Start conversation summary memory worker
+  startMemoryWorker()
+
   console.log('Queue workers initialized')
 }
-
-// Initialize queues when module is imported
-// Only in development mode for now
-if (process.env.NODE_ENV === 'development') {
-  initializeQueues()
-}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Queue, Worker, Job } from 'bullmq'
+import { ConversationMemory } from '@/lib/services/conversation-memory'
+import { getSharedConnection, getWorkerConnection } from './redis-connection'
+import { ConversationMemoryJob } from '@/lib/types/memory'
+
+// Replies queue a refresh this long after they're sent, so a quick
+// back-and-forth is summarized in one call
+const MEMORY_DELAY_MS = 60 * 1000
+
+let memoryQueue: Queue<ConversationMemoryJob> | null = null
+let memoryWorker: Worker<ConversationMemoryJob> | null = null
+
+// Initialize queue
+export function initMemoryQueue() {
+  try {
+    const connection = getSharedConnection()
+    if (!connection) {
+      console.warn('Redis not available, conversation summaries will not be updated')
+      return null
+    }
+
+    memoryQueue = new Queue<ConversationMemoryJob>('conversation-memory', {
+      connection,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 30000
+        },
+        removeOnComplete: true,
+        removeOnFail: true
+      }
+    })
+
+    return memoryQueue
+  } catch (error) {
+    console.error('Failed to initialize memory queue:', error)
+    return null
+  }
+}
+
+// Initialize worker
+export function initMemoryWorker() {
+  try {
+    const connection = getWorkerConnection()
+    if (!connection) {
+      console.warn('Redis not available, memory worker will not start')
+      return null
+    }
+
+    memoryWorker = new Worker<ConversationMemoryJob>(
+      'conversation-memory',
+      async (job: Job<ConversationMemoryJob>) => {
+        const result = await new ConversationMemory(job.data.agentId, job.data.projectId)
+          .refresh(job.data.conversationId)
+
+        // Long conversations from before summaries existed are folded in one batch per job
+        if (result.remaining) {
+          await queueMemoryRefresh(job.data, {
+            delay: 0,
+            jobId: `memory-${job.data.conversationId}-${Date.now()}`
+          })
+        }
+
+        return result
+      },
+      {
+        connection,
+        concurrency: 2
+      }
+    )
+
+    memoryWorker.on('failed', (job, err) => {
+      console.error(`Conversation summary failed for job ${job?.id}:`, err.message)
+    })
+
+    return memoryWorker
+  } catch (error) {
+    console.error('Failed to initialize memory worker:', error)
+    return null
+  }
+}
+
+// Add job to queue; while one is pending for the conversation further calls are no-ops
+export async function queueMemoryRefresh(
+  data: ConversationMemoryJob,
+  options: { delay?: number; jobId?: string } = {}
+): Promise<string | null> {
+  if (!memoryQueue) {
+    memoryQueue = initMemoryQueue()
+    if (!memoryQueue) {
+      return null
+    }
+  }
+
+  try {
+    const job = await memoryQueue.add('refresh', data, {
+      jobId: options.jobId || `memory-${data.conversationId}`,
+      delay: options.delay ?? MEMORY_DELAY_MS
+    })
+    return job.id || null
+  } catch (error) {
+    console.error('Failed to queue conversation summary:', error)
+    return null
+  }
+}
+
+// Initialize worker on startup (call this from your app initialization)
+export function startMemoryWorker() {
+  if (!memoryWorker) {
+    initMemoryWorker()
+  }
+}
@@ -0,0 +1,141 @@
+import { Queue, Worker, Job } from 'bullmq'
+import { createServiceClient } from '@/lib/supabase/service'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import { getSharedConnection, getWorkerConnection } from './redis-connection'
+import { ReembeddingJob } from '@/lib/types/embeddings'
+
+let reembeddingQueue: Queue<ReembeddingJob> | null = null
+let reembeddingWorker: Worker<ReembeddingJob> | null = null
+
+// Initialize queue
+export function initReembeddingQueue() {
+  try {
+    const connection = getSharedConnection()
+    if (!connection) {
+      console.warn('Redis not available, re-embedding will not work')
+      return null
+    }
+
+    reembeddingQueue = new Queue<ReembeddingJob>('reembedding', {
+      connection,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000
+        },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    })
+
+    return reembeddingQueue
+  } catch (error) {
+    console.error('Failed to initialize re-embedding queue:', error)
+    return null
+  }
+}
+
+// Initialize worker
+export function initReembeddingWorker() {
+  try {
+    const connection = getWorkerConnection()
+    if (!connection) {
+      console.warn('Redis not available, re-embedding worker will not start')
+      return null
+    }
+
+    reembeddingWorker = new Worker<ReembeddingJob>(
+      'reembedding',
+      async (job: Job<ReembeddingJob>) => {
+        await processReembedding(job)
+      },
+      {
+        connection,
+        concurrency: 1 // Embedding APIs are rate limited, one agent at a time
+      }
+    )
+
+    reembeddingWorker.on('completed', (job) => {
+      console.log(`Re-embedding completed for job ${job.id}`)
+    })
+
+    reembeddingWorker.on('failed', (job, err) => {
+      console.error(`Re-embedding failed for job ${job?.id}:`, err.message)
+    })
+
+    return reembeddingWorker
+  } catch (error) {
+    console.error('Failed to initialize re-embedding worker:', error)
+    return null
+  }
+}
+
+// Re-embed every chunk of an agent that isn't embedded with the project's current model
+async function processReembedding(job: Job<ReembeddingJob>) {
+  const { agentId, projectId, model } = job.data
+  const supabase = createServiceClient()
+
+  const embeddingService = await EmbeddingService.forProject(projectId)
+  if (embeddingService.model !== model) {
+    console.log(`[Reembedding] Project ${projectId} switched to ${embeddingService.model}, skipping job for ${model}`)
+    return
+  }
+
+  console.log(`[Reembedding] Migrating agent ${agentId} to ${model}`)
+
+  await supabase
+    .from('agents')
+    .update({ status: 'training' })
+    .eq('id', agentId)
+
+  try {
+    const result = await embeddingService.generateEmbeddingsForAgent(agentId, async (progress) => {
+      await job.updateProgress(progress.percentage)
+    })
+
+    if (!result.success) {
+      throw new Error(`${result.totalFailed} chunks failed to re-embed`)
+    }
+
+    await supabase
+      .from('agents')
+      .update({ status: 'ready', last_trained_at: new Date().toISOString() })
+      .eq('id', agentId)
+  } catch (error) {
+    await supabase
+      .from('agents')
+      .update({ status: 'error' })
+      .eq('id', agentId)
+    throw error
+  }
+}
+
+// Add job to queue
+export async function queueReembedding(data: ReembeddingJob): Promise<string | null> {
+  if (!reembeddingQueue) {
+    reembeddingQueue = initReembeddingQueue()
+    if (!reembeddingQueue) {
+      console.error('Re-embedding queue not available')
+      return null
+    }
+  }
+
+  try {
+    const job = await reembeddingQueue.add('reembed', data, {
+      // One pending job per agent and target model
+      jobId: `reembed-${data.agentId}-${data.model.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+    })
+    return job.id || null
+  } catch (error) {
+    console.error('Failed to queue re-embedding:', error)
+    return null
+  }
+}
+
+// Initialize worker on startup (call this from your app initialization)
+export function startReembeddingWorker() {
+  if (!reembeddingWorker) {
+    initReembeddingWorker()
+  }
+}
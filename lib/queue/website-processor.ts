@@ -1,9 +1,20 @@
 import { Queue, Worker, Job } from 'bullmq'
-import { createClient } from '@/lib/supabase/server'
+import { createHash } from 'crypto'
+import { createServiceClient } from '@/lib/supabase/service'
 import { UnifiedCrawler } from '@/lib/crawler/unified-crawler'
 import { ChunkManager } from '@/lib/services/chunk-manager'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import { recordActivity } from '@/lib/services/activity-log'
+import { WebsitePageStore } from '@/lib/services/website-pages'
 import { getSharedConnection, getWorkerConnection } from './redis-connection'
-import { WebsiteCrawlJob } from '@/lib/types/crawler'
+import {
+  CrawlChangeReport,
+  CrawlResult,
+  PageValidator,
+  RecrawlSchedule,
+  WebsiteCrawlJob,
+  resolveCrawlRules
+} from '@/lib/types/crawler'
 
 let websiteQueue: Queue<WebsiteCrawlJob> | null = null
 let websiteWorker: Worker<WebsiteCrawlJob> | null = null
@@ -79,8 +90,57 @@ export function initWebsiteWorker() {
 
 // Process website crawl job using the new UnifiedCrawler
 async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
-  const { sourceId, agentId, projectId, url, crawlSubpages, maxPages } = job.data
-  const supabase = await createClient()
+  const scheduled = job.data.scheduled === true
+  // Jobs run in the worker, outside any request, so there's no session to use
+  const supabase = createServiceClient()
+
+  // Scheduled runs re-read the source, so settings changed since scheduling apply
+  let previous: Record<string, any> = {}
+  let wasTrained = false
+  let jobData = job.data
+  if (scheduled) {
+    const { data: source } = await supabase
+      .from('sources')
+      .select('status, is_trained, website_url, metadata')
+      .eq('id', job.data.sourceId)
+      .maybeSingle()
+
+    if (!source || source.status === 'removed') {
+      console.log(`[WebsiteProcessor] Source ${job.data.sourceId} is gone, removing its recrawl schedule`)
+      await unscheduleRecrawl(job.data.sourceId)
+      return
+    }
+    if (['pending', 'queued', 'processing'].includes(source.status)) {
+      console.log(`[WebsiteProcessor] Source ${job.data.sourceId} is already being crawled, skipping scheduled run`)
+      return
+    }
+
+    previous = (source.metadata || {}) as Record<string, any>
+    wasTrained = source.is_trained === true
+    jobData = {
+      ...job.data,
+      url: source.website_url || previous.url || job.data.url,
+      crawlSubpages: previous.crawl_subpages !== false,
+      maxPages: Math.min(previous.max_pages || job.data.maxPages, 1000),
+      crawlMode: previous.crawl_mode === 'sitemap' ? 'sitemap' : 'links',
+      crawlRules: resolveCrawlRules(previous.crawl_rules),
+      fullPageContent: previous.full_page_content === true
+    }
+  }
+
+  const { sourceId, agentId, projectId, url, crawlSubpages, maxPages, crawlMode = 'links', crawlRules, fullPageContent = false } = jobData
+  // Pages of the previous crawl, fetched conditionally on scheduled runs
+  const previousValidators: Record<string, PageValidator> = scheduled ? previous.page_validators || {} : {}
+  // Boilerplate found by earlier crawls; first crawls have none yet
+  let repeatedBlocks: string[] = previous.repeated_blocks || []
+  if (!scheduled) {
+    const { data: source } = await supabase
+      .from('sources')
+      .select('metadata')
+      .eq('id', sourceId)
+      .maybeSingle()
+    repeatedBlocks = (source?.metadata as Record<string, any> | null)?.repeated_blocks || []
+  }
 
   // Create Supabase Realtime channel for progress updates
   const channel = supabase.channel(`crawl-${sourceId}`)
@@ -116,18 +176,28 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
     // Report initial progress
     await job.updateProgress(10)
 
-    // Clear existing chunks before starting
-    await ChunkManager.deleteChunks(sourceId)
-    console.log(`[WebsiteProcessor] Cleared existing chunks for ${sourceId}`)
+    // Index existing chunks so unchanged content keeps its embeddings
+    const chunkSync = await ChunkManager.beginChunkSync(sourceId)
+    console.log(`[WebsiteProcessor] Indexed existing chunks for ${sourceId}`)
+
+    const pages = new WebsitePageStore(sourceId, agentId, projectId)
+    const excludedUrls = await pages.excludedUrls()
 
     // Initialize UnifiedCrawler with all features
     const crawler = new UnifiedCrawler({
       maxPages,
       crawlSubpages,
+      crawlMode,
+      crawlRules,
+      fullPageContent,
+      repeatedBlocks,
+      validators: previousValidators,
+      excludedUrls,
       sourceId,
       agentId,
       projectId,
-      useCache: true, // Enable caching
+      useCache: !scheduled, // Scheduled runs must see the live pages
+      chunkSync,
       onProgress: async (progress) => {
         // Update job progress
         const progressPercent = Math.floor((progress.current / progress.total) * 80) + 10
@@ -185,11 +255,46 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
 
     await job.updateProgress(90)
 
-    // Calculate totals
+    // Calculate totals; unchanged pages (HTTP 304) keep their previous chunks
     const validPages = crawlResults.filter(r => !r.error && r.content)
-    const totalContent = validPages.reduce((sum, page) => sum + page.content.length, 0)
+    const keptPages = crawlResults.filter(r => r.notModified)
+    const totalContent = validPages.reduce((sum, page) => sum + page.content.length, 0) +
+      keptPages.reduce((sum, page) => sum + (previousValidators[page.url]?.size || 0), 0)
     const sizeKb = Math.ceil(totalContent / 1024)
 
+    // Drop chunks for content that disappeared. If nothing could be crawled
+    // (site down), keep the previous content instead of emptying the source.
+    const crawlSucceeded = validPages.length + keptPages.length > 0
+    const chunkStats = crawlSucceeded
+      ? await ChunkManager.finishChunkSync(chunkSync)
+      : { reused: 0, added: 0, removed: 0 }
+    if (crawlSucceeded) {
+      await pages.removeMissing(crawlResults.map(r => r.url))
+    }
+
+    const pageValidators = buildPageValidators(validPages, keptPages, previousValidators)
+    const changeReport = scheduled
+      ? buildChangeReport(previous, previousValidators, pageValidators)
+      : null
+    const hasChanges = !!changeReport &&
+      changeReport.added.length + changeReport.removed.length + changeReport.modified.length > 0
+
+    if (scheduled && !crawlSucceeded) {
+      throw new Error(`No pages of ${url} could be fetched`)
+    }
+
+    // A trained source stays trained: embed just the chunks of added and modified pages
+    let isTrained = false
+    if (scheduled && wasTrained) {
+      isTrained = true
+      if (hasChanges) {
+        console.log(`[WebsiteProcessor] Embedding changed content of ${sourceId}`)
+        const embeddingService = await EmbeddingService.forProject(projectId)
+        const embedResult = await embeddingService.generateEmbeddingsForAgent(agentId, undefined, sourceId)
+        isTrained = embedResult.success
+      }
+    }
+
     // Get chunk count from database
     const { data: chunks } = await supabase
       .from('source_chunks')
@@ -213,6 +318,19 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
     })
     const discoveredLinks = Array.from(allDiscoveredLinks)
 
+    // Sitemap <lastmod> of each crawled page that had one
+    const pageLastmod = Object.fromEntries(
+      validPages.filter(page => page.lastmod).map(page => [page.url, page.lastmod!])
+    )
+
+    // Settings saved while the crawl ran (such as the recrawl schedule) are kept
+    const { data: current } = await supabase
+      .from('sources')
+      .select('metadata')
+      .eq('id', sourceId)
+      .single()
+    const currentMetadata = (current?.metadata || {}) as Record<string, any>
+
     // Update source status to ready with all metadata
     await supabase
       .from('sources')
@@ -220,17 +338,30 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
         status: 'ready',
         size_kb: sizeKb,
         chunk_count: totalChunks,
-        is_trained: false, // Mark as not trained initially
+        is_trained: isTrained,
         metadata: {
+          ...currentMetadata,
+          crawl_progress: null,
           url,
           crawl_subpages: crawlSubpages,
+          crawl_mode: crawlMode,
+          ...(crawlRules && { crawl_rules: crawlRules }),
+          full_page_content: fullPageContent,
           max_pages: maxPages,
           pages_crawled: validPages.length,
-          crawled_pages: validPages.map(p => p.url),
+          crawled_pages: [...validPages, ...keptPages].map(p => p.url),
+          page_lastmod: pageLastmod,
+          page_validators: pageValidators,
+          repeated_blocks: crawler.repeatedBlocks(),
           discovered_links: discoveredLinks,
           crawl_errors: crawlErrors,
           total_chunks: totalChunks,
-          crawl_completed_at: new Date().toISOString()
+          chunk_sync: chunkStats,
+          crawl_completed_at: new Date().toISOString(),
+          ...(changeReport && {
+            last_change_report: changeReport,
+            last_recrawl_at: new Date().toISOString()
+          })
         },
         updated_at: new Date().toISOString()
       })
@@ -239,6 +370,20 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
     await job.updateProgress(100)
     console.log(`Successfully processed ${validPages.length} pages, ${totalChunks} chunks`)
 
+    if (changeReport) {
+      await recordActivity({
+        agentId,
+        projectId,
+        sourceId,
+        type: 'crawl_completed',
+        description: hasChanges
+          ? `Scheduled re-crawl of ${url}: ${changeReport.added.length} added, ` +
+            `${changeReport.removed.length} removed, ${changeReport.modified.length} modified`
+          : `Scheduled re-crawl of ${url}: no changes`,
+        metadata: { ...changeReport, trained: isTrained }
+      }, supabase)
+    }
+
     // Broadcast crawl completed via Supabase Realtime
     await channel.send({
       type: 'broadcast',
@@ -282,20 +427,86 @@ async function processWebsiteCrawl(job: Job<WebsiteCrawlJob>) {
     // Clean up channel
     await supabase.removeChannel(channel)
 
-    // Update source status to error
+    // Update source status to error. A failed scheduled run leaves the
+    // previous content in place, so the source stays usable.
     await supabase
       .from('sources')
       .update({
-        status: 'error',
+        status: scheduled ? 'ready' : 'error',
         error_message: error.message,
         updated_at: new Date().toISOString()
       })
       .eq('id', sourceId)
 
+    if (scheduled) {
+      await recordActivity({
+        agentId,
+        projectId,
+        sourceId,
+        type: 'crawl_failed',
+        description: `Scheduled re-crawl of ${url} failed: ${error.message}`
+      }, supabase)
+    }
+
     throw error
   }
 }
 
+// Conditional-request validators for the next crawl, keyed by page URL
+function buildPageValidators(
+  fetchedPages: CrawlResult[],
+  keptPages: CrawlResult[],
+  previousValidators: Record<string, PageValidator>
+): Record<string, PageValidator> {
+  const validators: Record<string, PageValidator> = {}
+
+  for (const page of keptPages) {
+    const previous = previousValidators[page.url]
+    if (previous) {
+      validators[page.url] = { ...previous, depth: page.depth ?? previous.depth }
+    }
+  }
+
+  for (const page of fetchedPages) {
+    validators[page.url] = {
+      ...(page.etag && { etag: page.etag }),
+      ...(page.lastModified && { lastModified: page.lastModified }),
+      hash: ChunkManager.hashContent(page.content),
+      size: page.content.length,
+      depth: page.depth ?? 0
+    }
+  }
+
+  return validators
+}
+
+// Compare this crawl's pages with the previous crawl's
+function buildChangeReport(
+  previousMetadata: Record<string, any>,
+  previousValidators: Record<string, PageValidator>,
+  pageValidators: Record<string, PageValidator>
+): CrawlChangeReport {
+  const previousPages = new Set<string>([
+    ...Object.keys(previousValidators),
+    ...(previousMetadata.crawled_pages || [])
+  ])
+  const currentPages = Object.keys(pageValidators)
+
+  const report: CrawlChangeReport = { added: [], removed: [], modified: [], unchanged: 0 }
+  for (const pageUrl of currentPages) {
+    if (!previousPages.has(pageUrl)) {
+      report.added.push(pageUrl)
+    } else if (previousValidators[pageUrl]?.hash !== pageValidators[pageUrl].hash) {
+      report.modified.push(pageUrl)
+    } else {
+      report.unchanged++
+    }
+  }
+  report.removed = Array.from(previousPages).filter(pageUrl => !(pageUrl in pageValidators))
+
+  return report
+}
+
 // Add job to queue
 export async function queueWebsiteCrawl(data: WebsiteCrawlJob): Promise<string | null> {
   if (!websiteQueue) {
@@ -317,6 +528,67 @@ export async function queueWebsiteCrawl(data: WebsiteCrawlJob): Promise<string |
   }
 }
 
+// Cron pattern for a schedule. Daily and weekly runs are spread over
+// 02:00-05:59 UTC by source so they don't all start at once.
+function recrawlPattern(sourceId: string, schedule: RecrawlSchedule): string {
+  if (schedule.frequency === 'cron' && schedule.cron) {
+    return schedule.cron
+  }
+
+  const offset = parseInt(createHash('sha256').update(sourceId).digest('hex').slice(0, 8), 16) % 240
+  const minute = offset % 60
+  const hour = 2 + Math.floor(offset / 60)
+
+  return schedule.frequency === 'weekly' ? `${minute} ${hour} * * 1` : `${minute} ${hour} * * *`
+}
+
+// Create, replace or (for 'off') remove the repeatable recrawl job of a source.
+// Returns false if the queue isn't available.
+export async function scheduleRecrawl(data: WebsiteCrawlJob, schedule: RecrawlSchedule): Promise<boolean> {
+  if (schedule.frequency === 'off') {
+    return unscheduleRecrawl(data.sourceId)
+  }
+
+  if (!websiteQueue) {
+    websiteQueue = initWebsiteQueue()
+    if (!websiteQueue) {
+      console.error('Website queue not available')
+      return false
+    }
+  }
+
+  // Invalid cron patterns throw here and are reported to the caller
+  await websiteQueue.upsertJobScheduler(
+    `recrawl-${data.sourceId}`,
+    { pattern: recrawlPattern(data.sourceId, schedule), tz: 'UTC' },
+    {
+      name: 'scheduled-recrawl',
+      data: { ...data, scheduled: true },
+      // The next run comes soon enough; retries would repeat the failure report
+      opts: { attempts: 1 }
+    }
+  )
+  return true
+}
+
+export async function unscheduleRecrawl(sourceId: string): Promise<boolean> {
+  if (!websiteQueue) {
+    websiteQueue = initWebsiteQueue()
+    if (!websiteQueue) {
+      console.error('Website queue not available')
+      return false
+    }
+  }
+
+  try {
+    await websiteQueue.removeJobScheduler(`recrawl-${sourceId}`)
+    return true
+  } catch (error) {
+    console.error('Failed to remove recrawl schedule:', error)
+    return false
+  }
+}
+
 // Get job status
 export async function getJobStatus(jobId: string) {
   if (!websiteQueue) return null
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { randomBytes } from 'crypto'
+import { ActionExecutor } from '../action-executor'
+import { registerActionHandler } from '@/lib/actions/registry'
+import { encryptSecret } from '@/lib/utils/encryption'
+import { ChatMessage, ToolDefinition } from '@/lib/ai/providers/base'
+import { AgentAction, ActionContext, ToolCallRecord } from '@/lib/types/actions'
+
+const mockQuery: { data: any; error: any } = { data: [], error: null }
+const mockSecretsQuery: { data: any; error: any } = { data: [], error: null }
+const mockFrom = jest.fn((table: string) => {
+  const result = table === 'agent_action_secrets' ? mockSecretsQuery : mockQuery
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    order: async () => result,
+    then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  }
+  return builder
+})
+
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: () => ({ from: mockFrom }) }))
+
+const context: ActionContext = { agentId: 'agent-1', projectId: 'project-1', conversationId: 'conv-1' }
+
+function action(overrides: Partial<AgentAction> = {}): AgentAction {
+  return {
+    id: 'action-1',
+    agent_id: 'agent-1',
+    project_id: 'project-1',
+    type: 'test_echo' as AgentAction['type'],
+    name: 'echo',
+    description: 'Echo the arguments back',
+    parameters: { type: 'object', properties: { text: { type: 'string' } } },
+    config: {},
+    enabled: true,
+    ...overrides
+  }
+}
+
+const handlerCalls: any[] = []
+registerActionHandler('test_echo', async (action, args, context) => {
+  handlerCalls.push({ action, args, context })
+  return { output: `echo: ${args.text}`, data: { length: String(args.text).length } }
+})
+registerActionHandler('test_failing', async () => {
+  throw new Error('Upstream returned 502')
+})
+registerActionHandler('test_secrets', async (_action, _args, context) => {
+  const secrets = await context.secrets!()
+  return { output: `token: ${secrets.API_TOKEN}` }
+})
+
+describe('ActionExecutor', () => {
+  beforeEach(() => {
+    handlerCalls.length = 0
+    mockFrom.mockClear()
+    mockQuery.data = []
+    mockQuery.error = null
+    mockSecretsQuery.data = []
+    mockSecretsQuery.error = null
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('exposes enabled actions as tools', () => {
+    const executor = new ActionExecutor([action()], context)
+
+    expect(executor.hasTools).toBe(true)
+    expect(executor.tools).toEqual([{
+      name: 'echo',
+      description: 'Echo the arguments back',
+      parameters: { type: 'object', properties: { text: { type: 'string' } } }
+    }])
+    expect(new ActionExecutor([], context).hasTools).toBe(false)
+  })
+
+  it('runs the handler for the called action with the chat context', async () => {
+    const executor = new ActionExecutor([action()], context)
+    const record = await executor.execute({ id: 'call-1', name: 'echo', arguments: { text: 'hi' } })
+
+    expect(record).toMatchObject({
+      id: 'call-1',
+      actionId: 'action-1',
+      name: 'echo',
+      arguments: { text: 'hi' },
+      output: 'echo: hi',
+      data: { length: 2 }
+    })
+    expect(record.error).toBeUndefined()
+    expect(record.durationMs).toBeGreaterThanOrEqual(0)
+    expect(handlerCalls).toHaveLength(1)
+    expect(handlerCalls[0].context).toMatchObject({ agentId: 'agent-1', projectId: 'project-1', conversationId: 'conv-1' })
+  })
+
+  it('reports a failing handler to the model instead of throwing', async () => {
+    const executor = new ActionExecutor([action({ type: 'test_failing' as AgentAction['type'] })], context)
+    const record = await executor.execute({ id: 'call-1', name: 'echo', arguments: {} })
+
+    expect(record.error).toBe('Upstream returned 502')
+    expect(record.output).toBe('Error: Upstream returned 502')
+  })
+
+  it('reports calls to unknown actions and action types', async () => {
+    const executor = new ActionExecutor([action({ name: 'odd', type: 'no_such_type' as AgentAction['type'] })], context)
+
+    expect((await executor.execute({ id: 'call-1', name: 'made_up', arguments: {} })).output)
+      .toBe('Error: Unknown action made_up')
+    expect((await executor.execute({ id: 'call-2', name: 'odd', arguments: {} })).output)
+      .toBe('Error: No handler for action type no_such_type')
+  })
+
+  it('loads the agent actions for forAgent', async () => {
+    mockQuery.data = [action()]
+    const executor = await ActionExecutor.forAgent(context)
+
+    expect(mockFrom).toHaveBeenCalledWith('agent_actions')
+    expect(executor.tools?.map(tool => tool.name)).toEqual(['echo'])
+  })
+
+  it('runs without tools when the actions cannot be loaded', async () => {
+    mockQuery.data = null
+    mockQuery.error = { message: 'relation does not exist' }
+
+    expect((await ActionExecutor.forAgent(context)).hasTools).toBe(false)
+  })
+
+  describe('secrets', () => {
+    const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY
+    const secretsLoads = () => mockFrom.mock.calls.filter(([table]) => table === 'agent_action_secrets').length
+
+    beforeEach(() => {
+      process.env.CREDENTIALS_ENCRYPTION_KEY = randomBytes(32).toString('base64')
+      mockSecretsQuery.data = [{ name: 'API_TOKEN', encrypted_value: encryptSecret('tok-123') }]
+    })
+
+    afterEach(() => {
+      if (originalKey === undefined) delete process.env.CREDENTIALS_ENCRYPTION_KEY
+      else process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey
+    })
+
+    it('decrypts the agent secrets once per executor', async () => {
+      const executor = new ActionExecutor([action({ type: 'test_secrets' as AgentAction['type'] })], context)
+
+      expect((await executor.execute({ id: 'call-1', name: 'echo', arguments: {} })).output).toBe('token: tok-123')
+      expect((await executor.execute({ id: 'call-2', name: 'echo', arguments: {} })).output).toBe('token: tok-123')
+      expect(secretsLoads()).toBe(1)
+    })
+
+    it('does not load secrets for handlers that never ask for them', async () => {
+      await new ActionExecutor([action()], context).execute({ id: 'call-1', name: 'echo', arguments: { text: 'hi' } })
+
+      expect(secretsLoads()).toBe(0)
+    })
+
+    it('retries a failed load on the next call', async () => {
+      const executor = new ActionExecutor([action({ type: 'test_secrets' as AgentAction['type'] })], context)
+      mockSecretsQuery.error = { message: 'connection reset' }
+
+      expect((await executor.execute({ id: 'call-1', name: 'echo', arguments: {} })).error)
+        .toBe('Failed to load secrets: connection reset')
+
+      mockSecretsQuery.error = null
+      expect((await executor.execute({ id: 'call-2', name: 'echo', arguments: {} })).output).toBe('token: tok-123')
+      expect(secretsLoads()).toBe(2)
+    })
+  })
+
+  describe('runToolLoop', () => {
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+
+    function toolRound(id: string) {
+      return {
+        content: '',
+        usage,
+        estimatedCost: 0.01,
+        toolCalls: [{ id, name: 'echo', arguments: { text: id } }]
+      }
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    it('returns a reply without tool calls as it is', async () => {
+      const executor = new ActionExecutor([action()], context)
+      const generate = jest.fn(async (_tools?: ToolDefinition[]) => ({ content: 'unused' }))
+      const messages: ChatMessage[] = []
+
+      const { result, toolCalls } = await executor.runToolLoop({ content: 'Hello', usage, estimatedCost: 0.01 }, messages, generate)
+
+      expect(result).toEqual({ content: 'Hello', usage, estimatedCost: 0.01 })
+      expect(toolCalls).toEqual([])
+      expect(messages).toEqual([])
+      expect(generate).not.toHaveBeenCalled()
+    })
+
+    it('sends tool outputs back and sums usage over the rounds', async () => {
+      const executor = new ActionExecutor([action()], context)
+      const generate = jest.fn(async (_tools?: ToolDefinition[]) => ({ content: 'Done', usage, estimatedCost: 0.01 }))
+      const messages: ChatMessage[] = [{ role: 'user', content: 'Echo hi' }]
+      const seen: ToolCallRecord[] = []
+
+      const { result, toolCalls } = await executor.runToolLoop(toolRound('call-1'), messages, generate, record => seen.push(record))
+
+      expect(result.content).toBe('Done')
+      expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 })
+      expect(result.estimatedCost).toBeCloseTo(0.02)
+      expect(toolCalls.map(call => call.output)).toEqual(['echo: call-1'])
+      expect(seen).toEqual(toolCalls)
+      expect(generate).toHaveBeenCalledWith(executor.tools)
+      expect(messages.slice(1)).toEqual([
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'echo', arguments: { text: 'call-1' } }] },
+        { role: 'tool', content: 'echo: call-1', toolCallId: 'call-1', name: 'echo' }
+      ])
+    })
+
+    it('stops offering tools after the last allowed round', async () => {
+      const executor = new ActionExecutor([action()], context)
+      let round = 0
+      const generate = jest.fn(async (_tools?: ToolDefinition[]) => toolRound(`call-${++round + 1}`))
+
+      const { result, toolCalls } = await executor.runToolLoop(toolRound('call-1'), [], generate)
+
+      expect(toolCalls).toHaveLength(5)
+      expect(generate).toHaveBeenCalledTimes(5)
+      expect(generate.mock.calls.map(([tools]) => tools !== undefined)).toEqual([true, true, true, true, false])
+      expect(result.usage?.totalTokens).toBe(15 * 6)
+      expect(result.toolCalls).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { ConversationMemory } from '../conversation-memory'
+
+// The memory worker runs outside any request, where Next.js refuses to hand
+// out cookies; nothing on the refresh path may depend on them
+jest.mock('next/headers', () => ({
+  cookies: () => {
+    throw new Error('`cookies` was called outside a request scope')
+  }
+}))
+
+const mockSummaryRequests: any[] = []
+jest.mock('@/lib/ai/providers/openai', () => ({
+  OpenAIProvider: class {
+    async initialize() {}
+    isConfigured() { return true }
+    estimateCost() { return 0 }
+    async chat(options: any) {
+      mockSummaryRequests.push(options)
+      return { content: 'The visitor asked about returns. ', usage: { promptTokens: 120, completionTokens: 8, totalTokens: 128 } }
+    }
+  }
+}))
+
+const mockWrites: { table: string; op: string; values: any }[] = []
+const mockRows: Record<string, any> = {}
+
+jest.mock('@/lib/supabase/service', () => ({
+  createServiceClient: () => ({
+    from: (table: string) => {
+      let columns = ''
+      const result = () => {
+        if (table !== 'messages') return { data: null, error: null }
+        // The verbatim window selects only created_at; the batch to fold the rest
+        return { data: columns === 'created_at' ? mockRows.window : mockRows.pending, error: null }
+      }
+      const builder: any = {
+        select: (selected: string) => { columns = selected; return builder },
+        eq: () => builder,
+        in: () => builder,
+        lt: () => builder,
+        gt: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        update: (values: any) => { mockWrites.push({ table, op: 'update', values }); return builder },
+        insert: async (values: any) => { mockWrites.push({ table, op: 'insert', values }); return { error: null } },
+        single: async () => ({ data: mockRows[table] ?? null, error: mockRows[table] ? null : { message: 'not found' } }),
+        maybeSingle: async () => ({ data: null, error: null }),
+        then: (resolve: any, reject: any) => Promise.resolve(result()).then(resolve, reject)
+      }
+      return builder
+    }
+  })
+}))
+
+describe('ConversationMemory.refresh', () => {
+  beforeEach(() => {
+    mockSummaryRequests.length = 0
+    mockWrites.length = 0
+    mockRows.agents = { model: 'gpt-4o-mini', config: { memory: { recentTurns: 1 } } }
+    mockRows.ai_models = { name: 'gpt-4o-mini', model_id: 'gpt-4o-mini', provider: 'openai', input_price_per_million: 0.15, output_price_per_million: 0.6 }
+    mockRows.conversations = { id: 'conv-1', summary: null, summarized_until: null }
+    mockRows.window = [{ created_at: '2025-01-01T00:04:00Z' }, { created_at: '2025-01-01T00:03:00Z' }]
+    mockRows.pending = [
+      { role: 'user', content: 'Can I return a jacket?', created_at: '2025-01-01T00:01:00Z' },
+      { role: 'assistant', content: 'Yes, within 30 days.', created_at: '2025-01-01T00:02:00Z' }
+    ]
+  })
+
+  it('writes the summary without a request scope', async () => {
+    const stats = await new ConversationMemory('agent-1', 'project-1').refresh('conv-1')
+
+    expect(stats).toEqual({ folded: 2, remaining: false })
+    expect(mockSummaryRequests).toHaveLength(1)
+    expect(mockSummaryRequests[0].model).toBe('gpt-4o-mini')
+    expect(mockSummaryRequests[0].messages[1].content).toContain('Visitor: Can I return a jacket?')
+
+    expect(mockWrites.find(write => write.table === 'conversations')?.values).toMatchObject({
+      summary: 'The visitor asked about returns.',
+      summarized_until: '2025-01-01T00:02:00Z'
+    })
+    expect(mockWrites.find(write => write.table === 'usage_logs')?.values).toMatchObject({
+      action: 'conversation_summary',
+      total_tokens: 128,
+      key_source: 'platform'
+    })
+  })
+
+  it('leaves the summary alone while the conversation fits the verbatim window', async () => {
+    mockRows.window = [{ created_at: '2025-01-01T00:04:00Z' }]
+
+    expect(await new ConversationMemory('agent-1', 'project-1').refresh('conv-1')).toEqual({ folded: 0, remaining: false })
+    expect(mockSummaryRequests).toHaveLength(0)
+    expect(mockWrites).toHaveLength(0)
+  })
+})
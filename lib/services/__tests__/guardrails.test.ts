@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { Guardrails } from '../guardrails'
+import { DEFAULT_GUARDRAIL_POLICY, GuardrailPolicy, PiiType } from '@/lib/types/guardrails'
+
+jest.mock('@/lib/supabase/service', () => ({ createServiceClient: () => ({}) }))
+jest.mock('@/lib/ai/server-utils', () => ({ chatWithProjectCredentials: jest.fn() }))
+
+const context = { agentId: 'agent-1', projectId: 'project-1', model: '', channel: 'web' }
+
+function piiGuardrails(types: PiiType[]): Guardrails {
+  const policy: GuardrailPolicy = {
+    ...DEFAULT_GUARDRAIL_POLICY,
+    blockedTopics: { ...DEFAULT_GUARDRAIL_POLICY.blockedTopics, topics: [] },
+    pii: { input: true, output: true, action: 'redact', types }
+  }
+  return new Guardrails(policy, context)
+}
+
+describe('Guardrails PII detection', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('masks email addresses', async () => {
+    const verdict = await piiGuardrails(['email']).checkInput('Write to Ada.Lovelace+shop@example.co.uk please')
+
+    expect(verdict.text).toBe('Write to [EMAIL REMOVED] please')
+    expect(verdict.action).toBe('redact')
+    expect(verdict.triggers).toEqual([
+      { stage: 'input', detector: 'pii', action: 'redact', label: 'email', matches: 1 }
+    ])
+  })
+
+  it('masks card numbers that pass the Luhn check', async () => {
+    const verdict = await piiGuardrails(['card']).checkInput('Card 4111 1111 1111 1111 and 5500-0000-0000-0004')
+
+    expect(verdict.text).toBe('Card [CARD REMOVED] and [CARD REMOVED]')
+    expect(verdict.triggers[0].matches).toBe(2)
+  })
+
+  it('leaves long numbers that fail the Luhn check alone', async () => {
+    const text = 'Your order number is 4111 1111 1111 1112'
+    const verdict = await piiGuardrails(['card']).checkInput(text)
+
+    expect(verdict).toEqual({ text, action: null, triggers: [] })
+  })
+
+  it('masks phone numbers with 9 to 15 digits', async () => {
+    const verdict = await piiGuardrails(['phone']).checkInput('Call +1 (555) 123-4567 or 020 7946 0958, not 12-34-56')
+
+    expect(verdict.text).toBe('Call [PHONE REMOVED] or [PHONE REMOVED], not 12-34-56')
+  })
+
+  it('reports card digits as a card, not also as a phone number', async () => {
+    const verdict = await piiGuardrails(['phone', 'card']).checkInput('Pay with 4111111111111111 today')
+
+    expect(verdict.text).toBe('Pay with [CARD REMOVED] today')
+    expect(verdict.triggers.map(trigger => trigger.label)).toEqual(['card'])
+  })
+
+  it('only looks for the configured types', async () => {
+    const text = 'Mail ada@example.com'
+    expect(await piiGuardrails(['phone']).checkInput(text)).toEqual({ text, action: null, triggers: [] })
+  })
+
+  it('blocks instead when the policy says so', async () => {
+    const policy: GuardrailPolicy = {
+      ...DEFAULT_GUARDRAIL_POLICY,
+      pii: { input: true, output: false, action: 'block', types: ['email'] }
+    }
+    const guardrails = new Guardrails(policy, context)
+
+    expect((await guardrails.checkInput('ada@example.com')).text).toBe(DEFAULT_GUARDRAIL_POLICY.blockMessage)
+    expect((await guardrails.checkOutput('ada@example.com')).action).toBeNull()
+  })
+})
+
+describe('Guardrails custom patterns', () => {
+  function patternGuardrails(pattern: string): Guardrails {
+    const policy: GuardrailPolicy = {
+      ...DEFAULT_GUARDRAIL_POLICY,
+      blockedTopics: { ...DEFAULT_GUARDRAIL_POLICY.blockedTopics, topics: [] },
+      patterns: { input: true, output: true, action: 'redact', rules: [{ name: 'order', pattern }] }
+    }
+    return new Guardrails(policy, context)
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('masks what the pattern matches', async () => {
+    const verdict = await patternGuardrails('ORD-\\d{6}').checkOutput('Your orders are ord-123456 and ORD-654321.')
+
+    expect(verdict.text).toBe('Your orders are [ORDER REMOVED] and [ORDER REMOVED].')
+    expect(verdict.triggers[0]).toMatchObject({ detector: 'pattern', matches: 2 })
+  })
+
+  it('skips patterns that refuse the safety check', async () => {
+    const verdict = await patternGuardrails('(a|aa)*$').checkOutput('aaaa')
+
+    expect(verdict.action).toBeNull()
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Skipping pattern "order"'))
+  })
+
+  it('stops a pattern that backtracks for too long', async () => {
+    const startTime = Date.now()
+    const verdict = await patternGuardrails('\\w+\\w+\\w+\\w+\\w+!').checkOutput('a'.repeat(5000))
+
+    expect(verdict.action).toBeNull()
+    expect(Date.now() - startTime).toBeLessThan(1000)
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('was skipped'))
+  })
+})
@@ -0,0 +1,177 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { ChatCompletionResult, ChatMessage, ToolCall, ToolDefinition } from '@/lib/ai/providers/base'
+import { getActionHandler } from '@/lib/actions/registry'
+import { AgentAction, ExecutableAction, ActionContext, ToolCallRecord } from '@/lib/types/actions'
+import { decryptSecret } from '@/lib/utils/encryption'
+import type { KeySource } from '@/lib/ai/project-credentials'
+
+// Model/tool round trips per message before the model must answer in text
+const MAX_TOOL_ROUNDS = 5
+
+export interface ToolLoopResult {
+  content: string
+  usage?: ChatCompletionResult['usage']
+  estimatedCost?: number
+  toolCalls?: ToolCall[]
+  // Whose key paid for the call, see lib/ai/project-credentials
+  keySource?: KeySource
+  credentialId?: string | null
+}
+
+/**
+ * Exposes an agent's enabled actions as tools and runs the calls the model makes
+ */
+export class ActionExecutor {
+  private actions: Map<string, ExecutableAction>
+  private context: ActionContext
+  private secrets: Promise<Record<string, string>> | null = null
+
+  constructor(actions: ExecutableAction[], context: ActionContext) {
+    this.actions = new Map(actions.map(action => [action.name, action]))
+    this.context = context
+  }
+
+  /**
+   * Executor for the agent's enabled actions plus any built-in ones for this chat
+   */
+  static async forAgent(context: ActionContext, builtIn: ExecutableAction[] = []): Promise<ActionExecutor> {
+    const supabase = createServiceClient()
+    const { data: actions, error } = await supabase
+      .from('agent_actions')
+      .select('*')
+      .eq('agent_id', context.agentId)
+      .eq('enabled', true)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[Actions] Failed to load actions:', error)
+    }
+
+    return new ActionExecutor([...((actions || []) as AgentAction[]), ...builtIn], context)
+  }
+
+  get hasTools(): boolean {
+    return this.actions.size > 0
+  }
+
+  get tools(): ToolDefinition[] | undefined {
+    if (!this.hasTools) return undefined
+    return Array.from(this.actions.values()).map(action => ({
+      name: action.name,
+      description: action.description,
+      parameters: action.parameters
+    }))
+  }
+
+  /**
+   * Run one tool call. Failures are reported back to the model as the tool
+   * output rather than thrown, so it can recover or explain to the user.
+   */
+  async execute(call: ToolCall): Promise<ToolCallRecord> {
+    const startTime = Date.now()
+    const action = this.actions.get(call.name)
+    const record: ToolCallRecord = {
+      id: call.id,
+      actionId: action?.id,
+      name: call.name,
+      arguments: call.arguments,
+      output: '',
+      durationMs: 0
+    }
+
+    try {
+      if (!action) {
+        throw new Error(`Unknown action ${call.name}`)
+      }
+
+      const handler = getActionHandler(action.type)
+      if (!handler) {
+        throw new Error(`No handler for action type ${action.type}`)
+      }
+
+      const result = await handler(action, call.arguments, { ...this.context, secrets: () => this.loadSecrets() })
+      record.output = result.output
+      if (result.data !== undefined) record.data = result.data
+      if (result.error) record.error = result.error
+    } catch (error: any) {
+      console.error(`[Actions] ${call.name} failed:`, error)
+      record.error = error.message || 'Unknown error'
+      record.output = `Error: ${record.error}`
+    }
+
+    record.durationMs = Date.now() - startTime
+    return record
+  }
+
+  /**
+   * The agent's action secrets, decrypted once per executor
+   * Values are stored encrypted and only ever decrypted here, for the
+   * handler that is about to use them.
+   */
+  private loadSecrets(): Promise<Record<string, string>> {
+    if (!this.secrets) {
+      this.secrets = (async () => {
+        const supabase = createServiceClient()
+        const { data, error } = await supabase
+          .from('agent_action_secrets')
+          .select('name, encrypted_value')
+          .eq('agent_id', this.context.agentId)
+
+        if (error) {
+          throw new Error(`Failed to load secrets: ${error.message}`)
+        }
+
+        return Object.fromEntries((data || []).map(secret => {
+          try {
+            return [secret.name, decryptSecret(secret.encrypted_value)]
+          } catch (decryptError: any) {
+            throw new Error(`Failed to decrypt secret ${secret.name}: ${decryptError.message}`)
+          }
+        }))
+      })()
+      // A failed load is retried on the next call
+      this.secrets.catch(() => { this.secrets = null })
+    }
+    return this.secrets
+  }
+
+  /**
+   * Run the tool calls in result and send the outputs back with generate,
+   * until the model answers without tools. generate gets no tools on the
+   * last allowed round so the model has to reply in text.
+   * Usage and cost are summed over every round.
+   */
+  async runToolLoop(
+    result: ToolLoopResult,
+    messages: ChatMessage[],
+    generate: (tools?: ToolDefinition[]) => Promise<ToolLoopResult>,
+    onToolCall?: (record: ToolCallRecord) => void
+  ): Promise<{ result: ToolLoopResult; toolCalls: ToolCallRecord[] }> {
+    const toolCalls: ToolCallRecord[] = []
+    const usage: NonNullable<ChatCompletionResult['usage']> = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    let estimatedCost = 0
+
+    for (let round = 1; ; round++) {
+      usage.promptTokens += result.usage?.promptTokens || 0
+      usage.completionTokens += result.usage?.completionTokens || 0
+      usage.totalTokens += result.usage?.totalTokens || 0
+      estimatedCost += result.estimatedCost || 0
+
+      const requested = result.toolCalls
+      if (!requested?.length || round > MAX_TOOL_ROUNDS) break
+
+      messages.push({ role: 'assistant', content: result.content, toolCalls: requested })
+      for (const call of requested) {
+        const record = await this.execute(call)
+        toolCalls.push(record)
+        onToolCall?.(record)
+        messages.push({ role: 'tool', content: record.output, toolCallId: call.id, name: call.name })
+      }
+
+      console.log(`[Actions] Tool round ${round}: ${requested.map(call => call.name).join(', ')}`)
+      result = await generate(round < MAX_TOOL_ROUNDS ? this.tools : undefined)
+    }
+
+    return { result: { ...result, usage, estimatedCost }, toolCalls }
+  }
+}
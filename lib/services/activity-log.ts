@@ -0,0 +1,25 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { RecordActivityInput } from '@/lib/types/activity'
+
+/**
+ * Add an entry to an agent's activity feed
+ * Failures are logged, not thrown; the feed never fails the job reporting to it.
+ */
+export async function recordActivity(input: RecordActivityInput, supabaseClient?: any): Promise<void> {
+  const supabase = supabaseClient || createServiceClient()
+
+  const { error } = await supabase
+    .from('agent_activities')
+    .insert({
+      agent_id: input.agentId,
+      project_id: input.projectId,
+      source_id: input.sourceId || null,
+      type: input.type,
+      description: input.description,
+      metadata: input.metadata || {}
+    })
+
+  if (error) {
+    console.error(`[ActivityLog] Failed to record ${input.type} for agent ${input.agentId}:`, error)
+  }
+}
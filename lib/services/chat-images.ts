@@ -0,0 +1,253 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import type { ChatImage } from '@/lib/ai/providers/base'
+import { validateOutboundUrl } from '@/lib/utils/security'
+import { CHAT_IMAGE_TYPES, MAX_CHAT_IMAGE_BYTES, MAX_CHAT_IMAGES } from '@/lib/types/chat-images'
+
+const BUCKET_NAME = 'chat-images'
+// Long enough for a model call or a look through the chat logs
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+// Messenger and Instagram serve attachments from these hosts; nothing else is fetched
+const ATTACHMENT_HOSTS = ['fbcdn.net', 'fbsbx.com', 'cdninstagram.com']
+const MAX_REDIRECTS = 3
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+}
+
+/**
+ * A chat image with its storage path
+ * Messages keep the path; the URL is signed and expires.
+ */
+export interface StoredChatImage extends ChatImage {
+  path: string
+}
+
+/**
+ * Images visitors send in chat
+ * Stored in the private chat-images bucket under {agentId}/ and handed out as
+ * signed URLs, so vision models and the chat logs can load them for a while
+ * without the photos being public. Messenger and Instagram attachment URLs
+ * expire, so those are copied in as well.
+ */
+export class ChatImageStore {
+  private supabase: any
+  private agentId: string
+
+  constructor(agentId: string) {
+    this.supabase = createServiceClient()
+    this.agentId = agentId
+  }
+
+  async store(data: Blob | ArrayBuffer, contentType: string): Promise<StoredChatImage> {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase()
+    if (!CHAT_IMAGE_TYPES.includes(mimeType)) {
+      throw new Error(`Unsupported image type: ${mimeType || 'unknown'}`)
+    }
+
+    const size = data instanceof Blob ? data.size : data.byteLength
+    if (size > MAX_CHAT_IMAGE_BYTES) {
+      throw new Error(`Image exceeds ${MAX_CHAT_IMAGE_BYTES / 1024 / 1024}MB limit`)
+    }
+
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 10)}.${EXTENSIONS[mimeType]}`
+    const filePath = `${this.agentId}/${fileName}`
+
+    const { error } = await this.supabase.storage
+      .from(BUCKET_NAME)
+      .upload(filePath, data, {
+        contentType: mimeType,
+        cacheControl: '3600',
+        upsert: false
+      })
+
+    if (error) {
+      throw new Error(`Failed to store image: ${error.message}`)
+    }
+
+    const [image] = await this.resolve([filePath])
+    if (!image) {
+      throw new Error('Failed to sign stored image')
+    }
+    return image
+  }
+
+  /**
+   * Copy images from a messaging platform's CDN; ones that fail are skipped
+   */
+  async storeFromUrls(urls: string[]): Promise<StoredChatImage[]> {
+    const stored = await Promise.all(urls.slice(0, MAX_CHAT_IMAGES).map(async (url) => {
+      try {
+        const { data, contentType } = await this.download(url)
+        return await this.store(data, contentType)
+      } catch (error: any) {
+        console.error(`[ChatImageStore] Failed to copy attachment ${url}:`, error.message)
+        return null
+      }
+    }))
+
+    return stored.filter((image): image is StoredChatImage => image !== null)
+  }
+
+  /**
+   * Stored images for the paths or signed URLs in a chat request, with fresh
+   * signed URLs; anything not stored for this agent is dropped
+   */
+  async resolve(references: string[]): Promise<StoredChatImage[]> {
+    const paths = references
+      .map(reference => this.pathOf(reference))
+      .filter((path): path is string => path !== null)
+      .slice(0, MAX_CHAT_IMAGES)
+    if (paths.length === 0) return []
+
+    const signed = await this.signedUrls(paths)
+    return paths
+      .filter(path => signed[path])
+      .map(path => {
+        const extension = path.split('.').pop()?.toLowerCase()
+        const mimeType = Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension)
+        return { url: signed[path], path, ...(mimeType && { mimeType }) }
+      })
+  }
+
+  /**
+   * Signed URLs for stored paths, keyed by path
+   * Paths outside this agent's folder are left out.
+   */
+  async signedUrls(paths: string[]): Promise<Record<string, string>> {
+    const own = paths.filter(path => this.pathOf(path) === path)
+    if (own.length === 0) return {}
+
+    const { data, error } = await this.supabase.storage
+      .from(BUCKET_NAME)
+      .createSignedUrls(own, SIGNED_URL_TTL_SECONDS)
+
+    if (error) {
+      console.error('[ChatImageStore] Failed to sign images:', error.message)
+      return {}
+    }
+
+    const urls: Record<string, string> = {}
+    for (const item of data || []) {
+      if (item.path && item.signedUrl) {
+        urls[item.path] = item.signedUrl
+      }
+    }
+    return urls
+  }
+
+  /**
+   * Storage path for a bare path or one of our signed URLs, if it is an
+   * image stored for this agent
+   */
+  private pathOf(reference: string): string | null {
+    let path = reference
+    if (/^https?:\/\//i.test(reference)) {
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+      let url: URL
+      try {
+        url = new URL(reference)
+      } catch {
+        return null
+      }
+      if (!supabaseUrl || url.origin !== new URL(supabaseUrl).origin) return null
+
+      const prefix = `/storage/v1/object/sign/${BUCKET_NAME}/`
+      if (!url.pathname.startsWith(prefix)) return null
+      path = decodeURIComponent(url.pathname.slice(prefix.length))
+    }
+
+    const fileName = path.startsWith(`${this.agentId}/`) ? path.slice(this.agentId.length + 1) : null
+    if (!fileName || !/^[\w-]+\.(jpg|png|gif|webp)$/.test(fileName)) return null
+    return path
+  }
+
+  /**
+   * Fetch an attachment, following redirects only to attachment hosts and
+   * stopping once the size limit is passed
+   */
+  private async download(url: string): Promise<{ data: ArrayBuffer; contentType: string }> {
+    let target = url
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertAttachmentUrl(target)
+
+      const response = await fetch(target, { redirect: 'manual' })
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel()
+        target = new URL(location, target).toString()
+        continue
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const declaredSize = Number(response.headers.get('content-length'))
+      if (declaredSize > MAX_CHAT_IMAGE_BYTES) {
+        await response.body?.cancel()
+        throw new Error(`Image exceeds ${MAX_CHAT_IMAGE_BYTES / 1024 / 1024}MB limit`)
+      }
+
+      return {
+        data: await readLimited(response, MAX_CHAT_IMAGE_BYTES),
+        contentType: response.headers.get('content-type') || ''
+      }
+    }
+
+    throw new Error('Too many redirects')
+  }
+}
+
+async function assertAttachmentUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error('Invalid attachment URL')
+  }
+
+  const hostname = parsed.hostname.toLowerCase()
+  const allowed = ATTACHMENT_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  if (parsed.protocol !== 'https:' || !allowed) {
+    throw new Error(`Attachment host not allowed: ${hostname}`)
+  }
+
+  const validation = await validateOutboundUrl(url)
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Attachment URL not allowed')
+  }
+}
+
+/**
+ * Read a response body, giving up once it passes maxBytes
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer> {
+  if (!response.body) {
+    return new ArrayBuffer(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new Error(`Image exceeds ${maxBytes / 1024 / 1024}MB limit`)
+    }
+    chunks.push(value)
+  }
+
+  const data = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return data.buffer
+}
@@ -1,6 +1,104 @@
-import { createClient } from '@/lib/supabase/server'
+import { createHash } from 'crypto'
 import { createServiceClient } from '@/lib/supabase/service'
-import { ChunkOptions } from '@/lib/types/crawler'
+import { ChunkOptions, ChunkSyncStats } from '@/lib/types/crawler'
+import { FileProcessor } from '@/lib/sources/file-processor'
+import { countTokens } from '@/lib/ai/tokenizer'
+
+interface ExistingChunk {
+  id: string
+  content_hash: string | null
+  position: number
+  metadata?: Record<string, any> | null
+  // metadata.page_url of website chunks
+  page_url?: string | null
+}
+
+interface ChunkRecord {
+  source_id: string
+  agent_id: string
+  project_id: string
+  content: string
+  content_hash: string
+  position: number
+  tokens: number
+  metadata: Record<string, any>
+}
+
+// JSONB doesn't keep key order, and undefined values are never stored
+function sameJson(a: any, b: any): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const keysA = Object.keys(a).filter(key => a[key] !== undefined)
+  const keysB = Object.keys(b).filter(key => b[key] !== undefined)
+  return keysA.length === keysB.length && keysA.every(key => sameJson(a[key], b[key]))
+}
+
+/**
+ * In-memory index of a source's existing chunks, keyed by content hash
+ * A hash can map to several rows when the same text repeats (e.g. page footers)
+ */
+export class ChunkSyncSession {
+  reused = 0
+  added = 0
+  private byHash = new Map<string, ExistingChunk[]>()
+  private byPage = new Map<string, ExistingChunk[]>()
+  private claimedIds = new Set<string>()
+  private allIds: string[] = []
+
+  constructor(public readonly sourceId: string, existing: ExistingChunk[], private nextPosition = 0) {
+    for (const chunk of existing) {
+      this.allIds.push(chunk.id)
+      if (chunk.page_url) {
+        this.byPage.set(chunk.page_url, [...(this.byPage.get(chunk.page_url) || []), chunk])
+      }
+      // Rows from before content hashing can't be matched and are replaced
+      if (!chunk.content_hash) continue
+      const rows = this.byHash.get(chunk.content_hash) || []
+      rows.push(chunk)
+      this.byHash.set(chunk.content_hash, rows)
+    }
+  }
+
+  claim(hash: string): ExistingChunk | null {
+    const rows = this.byHash.get(hash)
+    const chunk = rows?.shift()
+    if (!chunk) return null
+    this.claimedIds.add(chunk.id)
+    this.reused++
+    return chunk
+  }
+
+  /**
+   * Keep every chunk of a page that wasn't re-fetched because it's unchanged
+   */
+  keepPage(pageUrl: string): number {
+    let kept = 0
+    for (const chunk of this.byPage.get(pageUrl) || []) {
+      if (this.claimedIds.has(chunk.id)) continue
+      this.claimedIds.add(chunk.id)
+      // Nothing else may claim the row by hash
+      const rows = chunk.content_hash ? this.byHash.get(chunk.content_hash) : undefined
+      if (rows?.includes(chunk)) {
+        rows.splice(rows.indexOf(chunk), 1)
+      }
+      kept++
+    }
+    this.reused += kept
+    return kept
+  }
+
+  allocatePositions(count: number): number[] {
+    const start = this.nextPosition
+    this.nextPosition += count
+    return Array.from({ length: count }, (_, index) => start + index)
+  }
+
+  unclaimedIds(): string[] {
+    return this.allIds.filter(id => !this.claimedIds.has(id))
+  }
+}
 
 export class ChunkManager {
   static readonly DEFAULT_CHUNK_SIZE = 8000 // 8KB chunks (increased for better performance)
@@ -8,8 +106,100 @@ export class ChunkManager {
   static readonly MAX_CHUNKS = 1000 // Maximum chunks to prevent array overflow
   static readonly MAX_CONTENT_SIZE = 10 * 1024 * 1024 // 10MB max for chunking
 
+  /**
+   * Start a chunk sync for a source
+   * Chunks written through the session reuse existing rows (and their embeddings)
+   * with the same content hash; finishChunkSync deletes the rows nothing claimed.
+   * With pageUrl, only that page's chunks of a website source are synced.
+   */
+  static async beginChunkSync(sourceId: string, supabaseClient?: any, pageUrl?: string): Promise<ChunkSyncSession> {
+    const supabase = supabaseClient || createServiceClient()
+    const existing: ExistingChunk[] = []
+    const PAGE_SIZE = 1000
+
+    // Page through so sources with more than one PostgREST page of chunks are fully indexed
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('source_chunks')
+        .select('id, content_hash, position, metadata, page_url:metadata->>page_url')
+        .eq('source_id', sourceId)
+
+      if (pageUrl) {
+        query = query.eq('metadata->>page_url', pageUrl)
+      }
+
+      const { data, error } = await query
+        .order('position', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error(`[ChunkManager] Error loading existing chunks:`, error)
+        throw new Error(`Failed to load existing chunks: ${error.message}`)
+      }
+
+      existing.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    if (pageUrl) {
+      // The rest of the source keeps its positions; the page's chunks move after them
+      const { data: last } = await supabase
+        .from('source_chunks')
+        .select('position')
+        .eq('source_id', sourceId)
+        .order('position', { ascending: false })
+        .limit(1)
+
+      return new ChunkSyncSession(sourceId, existing, (last?.[0]?.position ?? -1) + 1)
+    }
+
+    return new ChunkSyncSession(sourceId, existing)
+  }
+
+  /**
+   * Delete the chunks no longer present in the source and record how many
+   * were added, reused and removed for the next training run
+   */
+  static async finishChunkSync(session: ChunkSyncSession, supabaseClient?: any): Promise<ChunkSyncStats> {
+    const supabase = supabaseClient || createServiceClient()
+    const staleIds = session.unclaimedIds()
+    const BATCH_SIZE = 100
+
+    for (let i = 0; i < staleIds.length; i += BATCH_SIZE) {
+      const { error } = await supabase
+        .from('source_chunks')
+        .delete()
+        .in('id', staleIds.slice(i, i + BATCH_SIZE))
+
+      if (error) {
+        console.error(`[ChunkManager] Error deleting stale chunks:`, error)
+        throw new Error(`Failed to delete stale chunks: ${error.message}`)
+      }
+    }
+
+    const stats = { reused: session.reused, added: session.added, removed: staleIds.length }
+
+    if (stats.reused > 0 || stats.added > 0 || stats.removed > 0) {
+      // Reported by the next training run, which subtracts what it reported
+      const { error } = await supabase.rpc('adjust_pending_chunk_counts', {
+        p_source_id: session.sourceId,
+        p_added: stats.added,
+        p_reused: stats.reused,
+        p_removed: stats.removed
+      })
+
+      if (error) {
+        console.error(`[ChunkManager] Error recording chunk changes for source ${session.sourceId}:`, error)
+      }
+    }
+
+    console.log(`[ChunkManager] Synced chunks for source ${session.sourceId}:`, stats)
+    return stats
+  }
+
   /**
    * Split content into chunks and store in database
+   * Unchanged chunks keep their rows and embeddings, see beginChunkSync
    */
   static async storeChunks(options: ChunkOptions): Promise<number> {
     const {
@@ -24,93 +214,63 @@ export class ChunkManager {
     } = options
 
     const supabase = supabaseClient || createServiceClient()
+    let chunks: Array<{ text: string; start: number; end: number }>
+    let extraMetadata: Record<string, any> = {}
 
     // Check content size limits
     if (content.length > this.MAX_CONTENT_SIZE) {
       console.warn(`[ChunkManager] Content too large (${content.length} bytes), skipping chunking for source ${sourceId}`)
       // Store a single chunk with truncated content for now
-      const truncatedContent = content.substring(0, this.MAX_CONTENT_SIZE)
-      const { error } = await supabase
-        .from('source_chunks')
-        .insert({
-          source_id: sourceId,
-          agent_id: agentId,
-          project_id: projectId,
-          content: truncatedContent,
-          position: 0,
-          tokens: this.estimateTokens(truncatedContent),
-          metadata: {
-            ...metadata,
-            chunk_index: 0,
-            total_chunks: 1,
-            truncated: true,
-            original_size: content.length
-          }
-        })
-
-      if (error) {
-        console.error(`[ChunkManager] Error storing truncated content:`, error)
-        throw new Error(`Failed to store content: ${error.message}`)
+      chunks = [{ text: content.substring(0, this.MAX_CONTENT_SIZE), start: 0, end: this.MAX_CONTENT_SIZE }]
+      extraMetadata = { truncated: true, original_size: content.length }
+    } else {
+      // Split content into chunks
+      chunks = this.splitIntoChunks(content, chunkSize, chunkOverlap)
+
+      // Safety check for chunk count
+      if (chunks.length > this.MAX_CHUNKS) {
+        console.warn(`[ChunkManager] Too many chunks (${chunks.length}), limiting to ${this.MAX_CHUNKS}`)
+        chunks.splice(this.MAX_CHUNKS)
       }
-
-      return 1
     }
 
-    // First, delete any existing chunks for this source
-    await this.deleteChunks(sourceId, supabase)
-
-    // Split content into chunks
-    const chunks = this.splitIntoChunks(content, chunkSize, chunkOverlap)
-
-    // Safety check for chunk count
-    if (chunks.length > this.MAX_CHUNKS) {
-      console.warn(`[ChunkManager] Too many chunks (${chunks.length}), limiting to ${this.MAX_CHUNKS}`)
-      chunks.splice(this.MAX_CHUNKS)
-    }
+    const session = await this.beginChunkSync(sourceId, supabase)
 
     if (chunks.length === 0) {
       console.warn(`[ChunkManager] No chunks created for source ${sourceId}`)
+      await this.finishChunkSync(session, supabase)
       return 0
     }
 
-    console.log(`[ChunkManager] Creating ${chunks.length} chunks for source ${sourceId}`)
-
-    // Prepare chunk records
-    const chunkRecords = chunks.map((chunk, index) => ({
-      source_id: sourceId,
-      agent_id: agentId,
-      project_id: projectId,
-      content: chunk.text,
-      position: index,
-      tokens: this.estimateTokens(chunk.text),
-      metadata: {
-        ...metadata,
-        chunk_index: index,
-        total_chunks: chunks.length,
-        start_char: chunk.start,
-        end_char: chunk.end
-      }
-    }))
-
-    // Insert chunks in batches to avoid overwhelming the database
-    const BATCH_SIZE = 50
-    let insertedCount = 0
-
-    for (let i = 0; i < chunkRecords.length; i += BATCH_SIZE) {
-      const batch = chunkRecords.slice(i, i + BATCH_SIZE)
-
-      const { error } = await supabase
-        .from('source_chunks')
-        .insert(batch)
-
-      if (error) {
-        console.error(`[ChunkManager] Error inserting chunks batch ${i / BATCH_SIZE}:`, error)
-        throw new Error(`Failed to store chunks: ${error.message}`)
+    console.log(`[ChunkManager] Syncing ${chunks.length} chunks for source ${sourceId}`)
+
+    const positions = session.allocatePositions(chunks.length)
+    // PDF chunks remember their pages so answers can cite them
+    const pageOffsets = FileProcessor.pageOffsets(content)
+    const chunkRecords = chunks.map((chunk, index) => {
+      const pages = FileProcessor.pageRange(pageOffsets, chunk.start, chunk.end)
+      return {
+        source_id: sourceId,
+        agent_id: agentId,
+        project_id: projectId,
+        content: chunk.text,
+        content_hash: this.hashContent(chunk.text),
+        position: positions[index],
+        tokens: this.estimateTokens(chunk.text),
+        metadata: {
+          ...metadata,
+          chunk_index: index,
+          total_chunks: chunks.length,
+          start_char: chunk.start,
+          end_char: chunk.end,
+          ...(pages && { page_start: pages.start, page_end: pages.end }),
+          ...extraMetadata
+        }
       }
+    })
 
-      insertedCount += batch.length
-      console.log(`[ChunkManager] Inserted ${insertedCount}/${chunkRecords.length} chunks`)
-    }
+    await this.writeChunkRecords(chunkRecords, session, supabase)
+    await this.finishChunkSync(session, supabase)
 
     return chunks.length
   }
@@ -118,33 +278,23 @@ export class ChunkManager {
   /**
    * Append chunks without deleting existing ones (for progressive crawling)
    * This method is specifically for website crawling where we add chunks progressively
+   * Pass a sync session to reuse unchanged chunks from the previous crawl
    */
   static async appendChunks(options: ChunkOptions): Promise<number> {
     const {
       sourceId,
       agentId,
       projectId,
-      content,
       metadata = {},
       chunkSize = this.DEFAULT_CHUNK_SIZE,
       chunkOverlap = this.DEFAULT_OVERLAP,
-      supabaseClient
+      supabaseClient,
+      sync
     } = options
+    let { content } = options
 
     const supabase = supabaseClient || createServiceClient()
 
-    // Get the highest existing position to continue from
-    const { data: existingChunks } = await supabase
-      .from('source_chunks')
-      .select('position')
-      .eq('source_id', sourceId)
-      .order('position', { ascending: false })
-      .limit(1)
-
-    const startPosition = existingChunks && existingChunks.length > 0
-      ? existingChunks[0].position + 1
-      : 0
-
     // Limit content to prevent memory issues (200KB max per page)
     const MAX_CONTENT_PER_PAGE = 200000
     if (content.length > MAX_CONTENT_PER_PAGE) {
@@ -160,7 +310,26 @@ export class ChunkManager {
       return 0
     }
 
-    console.log(`[ChunkManager] Appending ${chunks.length} chunks starting at position ${startPosition} for source ${sourceId}`)
+    let positions: number[]
+    if (sync) {
+      // Allocated synchronously so concurrently crawled pages never share positions
+      positions = sync.allocatePositions(chunks.length)
+    } else {
+      // Get the highest existing position to continue from
+      const { data: existingChunks } = await supabase
+        .from('source_chunks')
+        .select('position')
+        .eq('source_id', sourceId)
+        .order('position', { ascending: false })
+        .limit(1)
+
+      const startPosition = existingChunks && existingChunks.length > 0
+        ? existingChunks[0].position + 1
+        : 0
+      positions = chunks.map((_, index) => startPosition + index)
+    }
+
+    console.log(`[ChunkManager] Appending ${chunks.length} chunks starting at position ${positions[0]} for source ${sourceId}`)
 
     // Prepare chunk records with continued position numbering
     const chunkRecords = chunks.map((chunk, index) => ({
@@ -168,22 +337,60 @@ export class ChunkManager {
       agent_id: agentId,
       project_id: projectId,
       content: chunk.text,
-      position: startPosition + index,
+      content_hash: this.hashContent(chunk.text),
+      position: positions[index],
       tokens: this.estimateTokens(chunk.text),
       metadata: {
         ...metadata,
-        chunk_index: startPosition + index,
+        chunk_index: positions[index],
         start_char: chunk.start,
         end_char: chunk.end
       }
     }))
 
-    // Insert chunks in batches
-    const batchSize = 50
-    let insertedCount = 0
+    await this.writeChunkRecords(chunkRecords, sync || null, supabase)
+
+    return chunks.length
+  }
+
+  /**
+   * Insert new chunk rows; with a sync session, rows whose hash already exists
+   * are claimed instead and updated only when their position or metadata changed
+   */
+  private static async writeChunkRecords(
+    records: ChunkRecord[],
+    session: ChunkSyncSession | null,
+    supabase: any
+  ): Promise<void> {
+    const inserts: ChunkRecord[] = []
+    const moves: Array<ChunkRecord & { id: string }> = []
+
+    for (const record of records) {
+      const existing = session?.claim(record.content_hash)
+      if (!existing) {
+        inserts.push(record)
+      } else if (existing.position !== record.position || !sameJson(existing.metadata || {}, record.metadata)) {
+        // Upsert without the embedding column keeps the stored vector
+        moves.push({ ...record, id: existing.id })
+      }
+    }
 
-    for (let i = 0; i < chunkRecords.length; i += batchSize) {
-      const batch = chunkRecords.slice(i, i + batchSize)
+    const BATCH_SIZE = 50
+
+    for (let i = 0; i < moves.length; i += BATCH_SIZE) {
+      const { error } = await supabase
+        .from('source_chunks')
+        .upsert(moves.slice(i, i + BATCH_SIZE), { onConflict: 'id' })
+
+      if (error) {
+        console.error(`[ChunkManager] Error updating reused chunks:`, error)
+        throw new Error(`Failed to update chunks: ${error.message}`)
+      }
+    }
+
+    let insertedCount = 0
+    for (let i = 0; i < inserts.length; i += BATCH_SIZE) {
+      const batch = inserts.slice(i, i + BATCH_SIZE)
       const { error } = await supabase
         .from('source_chunks')
         .insert(batch)
@@ -195,11 +402,20 @@ export class ChunkManager {
 
       insertedCount += batch.length
       if (insertedCount % 200 === 0) {
-        console.log(`[ChunkManager] Inserted ${insertedCount}/${chunkRecords.length} chunks`)
+        console.log(`[ChunkManager] Inserted ${insertedCount}/${inserts.length} chunks`)
       }
     }
 
-    return chunks.length
+    if (session) {
+      session.added += inserts.length
+    }
+  }
+
+  /**
+   * SHA-256 of the chunk text, matches encode(sha256(convert_to(content, 'UTF8')), 'hex')
+   */
+  static hashContent(text: string): string {
+    return createHash('sha256').update(text, 'utf8').digest('hex')
   }
 
   /**
@@ -372,11 +588,10 @@ export class ChunkManager {
   }
 
   /**
-   * Estimate token count (rough approximation)
-   * OpenAI's rule of thumb: 1 token ≈ 4 characters in English
+   * Token count of a chunk, as the tokenizer sees it
    */
   private static estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4)
+    return countTokens(text)
   }
 
   /**
@@ -0,0 +1,283 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { Contact, ContactSource, ContactWithActivity } from '@/lib/types/leads'
+
+export interface CaptureLeadInput {
+  agentId: string
+  projectId: string
+  conversationId?: string | null
+  sessionId?: string | null
+  actionId?: string | null
+  source: ContactSource
+  name?: string | null
+  email?: string | null
+  phone?: string | null
+  company?: string | null
+  // Any other answers; stored on the lead, and on the contact when it's new
+  // or saved from the dashboard
+  fields?: Record<string, any>
+}
+
+export interface CaptureLeadResult {
+  contact: Contact
+  // false when the details matched an existing contact
+  created: boolean
+  leadId: string
+}
+
+const CONTACT_COLUMNS = ['name', 'email', 'phone', 'company'] as const
+
+/**
+ * Stores captured leads as contacts, one per person per agent
+ * Contacts are matched on normalized email first, then phone. Contacts saved
+ * from the dashboard fill in a match's missing details; captures from
+ * visitors never change a match, since anyone can type a customer's email,
+ * and are kept as their own lead linked to it instead.
+ */
+export class ContactService {
+  private supabase: any
+
+  constructor(supabase?: any) {
+    this.supabase = supabase || createServiceClient()
+  }
+
+  // Must match contacts.email_normalized
+  static normalizeEmail(email?: string | null): string | null {
+    const normalized = email?.trim().toLowerCase()
+    return normalized || null
+  }
+
+  // Must match contacts.phone_normalized
+  static normalizePhone(phone?: string | null): string | null {
+    const digits = phone?.replace(/\D/g, '')
+    return digits || null
+  }
+
+  /**
+   * Split submitted values into contact columns and custom fields
+   */
+  static splitValues(values: Record<string, any>) {
+    const columns: Partial<Record<typeof CONTACT_COLUMNS[number], string>> = {}
+    const fields: Record<string, any> = {}
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined || value === null || value === '') continue
+      if ((CONTACT_COLUMNS as readonly string[]).includes(key)) {
+        columns[key as typeof CONTACT_COLUMNS[number]] = String(value).trim()
+      } else {
+        fields[key] = value
+      }
+    }
+
+    return { ...columns, fields }
+  }
+
+  async findMatch(agentId: string, email?: string | null, phone?: string | null): Promise<Contact | null> {
+    const emailKey = ContactService.normalizeEmail(email)
+    const phoneKey = ContactService.normalizePhone(phone)
+
+    for (const [column, key] of [['email_normalized', emailKey], ['phone_normalized', phoneKey]] as const) {
+      if (!key) continue
+      const { data } = await this.supabase
+        .from('contacts')
+        .select('*')
+        .eq('agent_id', agentId)
+        .eq(column, key)
+        .maybeSingle()
+      if (data) return data
+    }
+
+    return null
+  }
+
+  async upsertContact(input: CaptureLeadInput): Promise<{ contact: Contact; created: boolean }> {
+    const now = new Date().toISOString()
+    const existing = await this.findMatch(input.agentId, input.email, input.phone)
+
+    if (existing) {
+      return { contact: await this.mergeInto(existing, input, now), created: false }
+    }
+
+    const contact = await this.insertContact(input, now)
+    if (contact) {
+      return { contact, created: true }
+    }
+
+    // Created concurrently by another request, merge into that one
+    const raced = await this.findMatch(input.agentId, input.email, input.phone)
+    if (!raced) throw new Error('Failed to save contact: it was created and removed concurrently')
+    return { contact: await this.mergeInto(raced, input, now), created: false }
+  }
+
+  /**
+   * Log a visitor's capture in leads, linked to its contact, and link the
+   * conversation. A contact matching the details is only linked, not changed.
+   */
+  async captureLead(input: CaptureLeadInput): Promise<CaptureLeadResult> {
+    const { contact, created } = await this.findOrCreateContact(input)
+
+    const { data: lead, error } = await this.supabase
+      .from('leads')
+      .insert({
+        agent_id: input.agentId,
+        project_id: input.projectId,
+        contact_id: contact.id,
+        conversation_id: input.conversationId || null,
+        session_id: input.sessionId || null,
+        action_id: input.actionId || null,
+        source: input.source,
+        name: input.name || null,
+        email: input.email || null,
+        phone: input.phone || null,
+        data: { ...(input.fields || {}), ...(input.company ? { company: input.company } : {}) }
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save lead: ${error.message}`)
+    }
+
+    if (input.conversationId) {
+      await this.supabase
+        .from('conversations')
+        .update({ contact_id: contact.id })
+        .eq('id', input.conversationId)
+    }
+
+    console.log(`[Contacts] ${created ? 'Created' : 'Linked'} contact ${contact.id} for agent ${input.agentId} (${input.source})`)
+
+    return { contact, created, leadId: lead.id }
+  }
+
+  private async findOrCreateContact(input: CaptureLeadInput): Promise<{ contact: Contact; created: boolean }> {
+    const now = new Date().toISOString()
+    const existing = await this.findMatch(input.agentId, input.email, input.phone)
+
+    if (existing) {
+      return { contact: await this.touch(existing, now), created: false }
+    }
+
+    const contact = await this.insertContact(input, now)
+    if (contact) {
+      return { contact, created: true }
+    }
+
+    const raced = await this.findMatch(input.agentId, input.email, input.phone)
+    if (!raced) throw new Error('Failed to save contact: it was created and removed concurrently')
+    return { contact: await this.touch(raced, now), created: false }
+  }
+
+  /**
+   * A new contact, or null when one with the same email or phone was created
+   * concurrently
+   */
+  private async insertContact(input: CaptureLeadInput, now: string): Promise<Contact | null> {
+    const { data: contact, error } = await this.supabase
+      .from('contacts')
+      .insert({
+        agent_id: input.agentId,
+        project_id: input.projectId,
+        name: input.name || null,
+        email: input.email || null,
+        phone: input.phone || null,
+        company: input.company || null,
+        fields: input.fields || {},
+        source: input.source,
+        first_contact_at: now,
+        last_contact_at: now
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // 23505: unique email or phone
+      if (error.code === '23505') return null
+      throw new Error(`Failed to save contact: ${error.message}`)
+    }
+
+    return contact
+  }
+
+  /**
+   * An agent's contacts, most recently active first, with how many
+   * conversations and messages each is linked to
+   */
+  async listContacts(agentId: string): Promise<ContactWithActivity[]> {
+    const { data: contacts, error } = await this.supabase
+      .from('contacts')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('last_contact_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load contacts: ${error.message}`)
+    }
+
+    const { data: conversations } = await this.supabase
+      .from('conversations')
+      .select('contact_id, messages(count)')
+      .eq('agent_id', agentId)
+      .not('contact_id', 'is', null)
+
+    const activity = new Map<string, { conversations: number; messages: number }>()
+    for (const conversation of conversations || []) {
+      const entry = activity.get(conversation.contact_id) || { conversations: 0, messages: 0 }
+      entry.conversations++
+      entry.messages += conversation.messages?.[0]?.count || 0
+      activity.set(conversation.contact_id, entry)
+    }
+
+    return (contacts || []).map((contact: Contact) => ({
+      ...contact,
+      conversation_count: activity.get(contact.id)?.conversations || 0,
+      message_count: activity.get(contact.id)?.messages || 0
+    }))
+  }
+
+  // Only the activity time changes; the contact's details stay as they were
+  private async touch(existing: Contact, now: string): Promise<Contact> {
+    const { data: contact, error } = await this.supabase
+      .from('contacts')
+      .update({ last_contact_at: now })
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.warn(`[Contacts] Could not update contact ${existing.id}:`, error.message)
+      return existing
+    }
+
+    return contact
+  }
+
+  private async mergeInto(existing: Contact, input: CaptureLeadInput, now: string): Promise<Contact> {
+    const updates: Record<string, any> = {
+      fields: { ...(existing.fields || {}), ...(input.fields || {}) },
+      last_contact_at: now,
+      updated_at: now
+    }
+
+    // Fill in missing details, never overwrite what the contact already has
+    for (const column of CONTACT_COLUMNS) {
+      if (!existing[column] && input[column]) {
+        updates[column] = input[column]
+      }
+    }
+
+    const { data: contact, error } = await this.supabase
+      .from('contacts')
+      .update(updates)
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    // A phone added here may belong to another contact; keep the match as it was
+    if (error) {
+      console.warn(`[Contacts] Could not merge into contact ${existing.id}:`, error.message)
+      return existing
+    }
+
+    return contact
+  }
+}
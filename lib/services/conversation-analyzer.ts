@@ -0,0 +1,464 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
+import { ChatMessage } from '@/lib/ai/providers/base'
+import type { KeySource } from '@/lib/ai/project-credentials'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import { modelService } from '@/lib/services/model-service'
+import { AnalysisRunStats, Sentiment, SENTIMENTS } from '@/lib/types/analytics'
+import { addToCentroid, cosineSimilarity, formatVector, parseVector } from '@/lib/utils/vectors'
+
+// Conversations quiet for this long are treated as finished enough to analyze
+const IDLE_MINUTES = 10
+// Conversations per run; the queue schedules another run while more are due
+const BATCH_SIZE = 50
+// Cosine similarity a question needs to join an existing topic
+const TOPIC_SIMILARITY_THRESHOLD = 0.8
+// Shorter messages ("hi", "thanks!") aren't worth clustering
+const MIN_QUESTION_LENGTH = 12
+const MAX_SAMPLE_QUESTIONS = 5
+// The end of a long conversation says most about how it went
+const MAX_TRANSCRIPT_CHARS = 6000
+
+const SENTIMENT_PROMPT = `You rate customer conversations with an AI assistant by how the visitor feels.
+Reply with JSON only: {"sentiment": "positive" | "neutral" | "negative", "score": <number from -1 (very negative) to 1 (very positive)>}`
+
+const LABEL_PROMPT = `You name clusters of visitor questions. For each numbered group reply with a short topic label of 2-5 words.
+Reply with a JSON array of strings only, one label per group, in the same order.`
+
+interface Topic {
+  id: string
+  label: string
+  centroid: number[]
+  question_count: number
+  sample_questions: string[]
+  // Needs saving / needs a generated label
+  dirty: boolean
+  unlabeled: boolean
+}
+
+interface Usage {
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  // Set to project once any call in the run used the project's own key
+  keySource: KeySource
+}
+
+function parseJson(text: string, pattern: RegExp): any {
+  const match = text.match(pattern)
+  if (!match) return null
+  try {
+    return JSON.parse(match[0])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Scores conversation sentiment and clusters visitor questions into topics
+ * Works through conversations that have new messages since they were last
+ * analyzed, then rebuilds the daily aggregates for the days it touched.
+ */
+export class ConversationAnalyzer {
+  private supabase: any
+  private agentId: string
+  private projectId: string
+  private topics: Topic[] = []
+  private usage: Usage = { promptTokens: 0, completionTokens: 0, costUsd: 0, keySource: 'platform' }
+
+  constructor(agentId: string, projectId: string) {
+    this.supabase = createServiceClient()
+    this.agentId = agentId
+    this.projectId = projectId
+  }
+
+  /**
+   * Analyze up to limit due conversations
+   * remaining is true when there may be more waiting. Failed conversations are
+   * held back until their next attempt, so a batch that got nothing done
+   * doesn't count as progress.
+   */
+  async run(limit: number = BATCH_SIZE): Promise<AnalysisRunStats & { remaining: boolean }> {
+    const stats: AnalysisRunStats = { conversations: 0, questions: 0, newTopics: 0, failed: 0 }
+
+    const { data: due, error } = await this.supabase.rpc('conversations_due_for_analysis', {
+      p_agent_id: this.agentId,
+      p_idle_minutes: IDLE_MINUTES,
+      p_limit: limit
+    })
+
+    if (error) {
+      throw new Error(`Failed to find conversations to analyze: ${error.message}`)
+    }
+    if (!due || due.length === 0) {
+      return { ...stats, remaining: false }
+    }
+
+    const model = await this.resolveModel()
+    if (!model) {
+      throw new Error('No AI model configured for conversation analysis')
+    }
+
+    const embeddingService = await EmbeddingService.forProject(this.projectId)
+    await this.loadTopics(embeddingService.model)
+
+    const days = new Set<string>()
+
+    for (const { conversation_id, last_message_at } of due) {
+      try {
+        const result = await this.analyzeConversation(conversation_id, last_message_at, model, embeddingService)
+        result.days.forEach(day => days.add(day))
+        stats.conversations++
+        stats.questions += result.questions
+        stats.newTopics += result.newTopics
+      } catch (error: any) {
+        stats.failed++
+        console.error(`[Analytics] Failed to analyze conversation ${conversation_id}:`, error.message)
+        await this.recordFailure(conversation_id, last_message_at, error.message)
+      }
+    }
+
+    await this.labelNewTopics(model)
+
+    if (days.size > 0) {
+      const { error: refreshError } = await this.supabase.rpc('refresh_conversation_analytics', {
+        p_agent_id: this.agentId,
+        p_days: Array.from(days)
+      })
+      if (refreshError) {
+        console.error('[Analytics] Failed to refresh daily aggregates:', refreshError)
+      }
+    }
+
+    await this.logUsage(model)
+
+    console.log(`[Analytics] Agent ${this.agentId}: ${stats.conversations} conversations, ${stats.questions} questions, ${stats.newTopics} new topics, ${stats.failed} failed`)
+
+    return { ...stats, remaining: due.length === limit && stats.conversations > 0 }
+  }
+
+  // Back the conversation off; conversations_due_for_analysis skips it until the next attempt
+  private async recordFailure(conversationId: string, lastMessageAt: string, message: string): Promise<void> {
+    const { error } = await this.supabase.rpc('record_conversation_analysis_failure', {
+      p_conversation_id: conversationId,
+      p_agent_id: this.agentId,
+      p_project_id: this.projectId,
+      p_last_message_at: lastMessageAt,
+      p_error: message?.slice(0, 1000) || 'Unknown error'
+    })
+    if (error) {
+      console.error(`[Analytics] Failed to record failed analysis of ${conversationId}:`, error)
+    }
+  }
+
+  private async analyzeConversation(
+    conversationId: string,
+    lastMessageAt: string,
+    model: string,
+    embeddingService: EmbeddingService
+  ): Promise<{ days: string[]; questions: number; newTopics: number }> {
+    const { data: conversation } = await this.supabase
+      .from('conversations')
+      .select('id, started_at')
+      .eq('id', conversationId)
+      .single()
+
+    const { data: messages } = await this.supabase
+      .from('messages')
+      .select('id, role, content, created_at')
+      .eq('conversation_id', conversationId)
+      .lte('created_at', lastMessageAt)
+      .order('created_at', { ascending: true })
+
+    if (!conversation || !messages?.length) {
+      throw new Error('Conversation has no messages')
+    }
+
+    const { sentiment, score } = await this.classifySentiment(messages, model)
+
+    // Questions not clustered by an earlier run of this conversation
+    const { data: assigned } = await this.supabase
+      .from('message_topics')
+      .select('message_id, topic_id')
+      .eq('conversation_id', conversationId)
+
+    const assignedIds = new Set((assigned || []).map((row: any) => row.message_id))
+    const questions = messages.filter((message: any) =>
+      message.role === 'user' &&
+      !assignedIds.has(message.id) &&
+      message.content.trim().length >= MIN_QUESTION_LENGTH
+    )
+
+    const topicIds: string[] = (assigned || []).map((row: any) => row.topic_id)
+    const days = new Set<string>()
+    let newTopics = 0
+
+    if (questions.length > 0) {
+      const embedded = await embeddingService.embedTexts(questions.map((q: any) => q.content.trim()))
+
+      if (embedded) {
+        const rows = []
+        for (let i = 0; i < questions.length; i++) {
+          const question = questions[i]
+          const { topic, similarity, created } = await this.assignTopic(question.content.trim(), embedded.embeddings[i], embeddingService.model)
+          if (created) newTopics++
+          topicIds.push(topic.id)
+          days.add(question.created_at.slice(0, 10))
+          rows.push({
+            message_id: question.id,
+            topic_id: topic.id,
+            conversation_id: conversationId,
+            agent_id: this.agentId,
+            project_id: this.projectId,
+            question: question.content.trim(),
+            similarity,
+            asked_at: question.created_at
+          })
+        }
+
+        await this.saveTopics()
+
+        const { error } = await this.supabase.from('message_topics').upsert(rows, { onConflict: 'message_id' })
+        if (error) {
+          throw new Error(`Failed to save question topics: ${error.message}`)
+        }
+      } else {
+        console.warn(`[Analytics] Could not embed questions for conversation ${conversationId}, topics skipped`)
+      }
+    }
+
+    // The topic most of the conversation's questions belong to
+    const counts = new Map<string, number>()
+    topicIds.forEach(id => counts.set(id, (counts.get(id) || 0) + 1))
+    const primaryTopicId = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || null
+
+    const conversationDate = (conversation.started_at || messages[0].created_at).slice(0, 10)
+    days.add(conversationDate)
+
+    const { error } = await this.supabase
+      .from('conversation_analyses')
+      .upsert({
+        conversation_id: conversationId,
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        sentiment,
+        sentiment_score: score,
+        primary_topic_id: primaryTopicId,
+        message_count: messages.length,
+        conversation_date: conversationDate,
+        last_message_at: lastMessageAt,
+        model,
+        analyzed_at: new Date().toISOString()
+      }, { onConflict: 'conversation_id' })
+
+    if (error) {
+      throw new Error(`Failed to save analysis: ${error.message}`)
+    }
+
+    await this.supabase
+      .from('conversation_analysis_failures')
+      .delete()
+      .eq('conversation_id', conversationId)
+
+    return { days: Array.from(days), questions: questions.length, newTopics }
+  }
+
+  private async classifySentiment(messages: any[], model: string): Promise<{ sentiment: Sentiment; score: number }> {
+    const transcript = messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => `${message.role === 'user' ? 'Visitor' : 'Assistant'}: ${message.content}`)
+      .join('\n')
+      .slice(-MAX_TRANSCRIPT_CHARS)
+
+    const prompt: ChatMessage[] = [
+      { role: 'system', content: SENTIMENT_PROMPT },
+      { role: 'user', content: transcript }
+    ]
+    const result = await chatWithProjectCredentials(this.projectId, model, prompt, { temperature: 0, maxTokens: 60 })
+    this.trackUsage(result)
+
+    const parsed = parseJson(result.content, /\{[\s\S]*\}/)
+    if (!parsed || !SENTIMENTS.includes(parsed.sentiment)) {
+      throw new Error(`Unexpected sentiment response: ${result.content.slice(0, 200)}`)
+    }
+
+    const fallbackScore = parsed.sentiment === 'positive' ? 0.5 : parsed.sentiment === 'negative' ? -0.5 : 0
+    const score = Number.isFinite(Number(parsed.score)) ? Math.max(-1, Math.min(1, Number(parsed.score))) : fallbackScore
+
+    return { sentiment: parsed.sentiment, score }
+  }
+
+  /**
+   * Put a question in the closest topic, or start a new one
+   * Joining moves the topic's centroid towards the question.
+   */
+  private async assignTopic(question: string, embedding: number[], embeddingModel: string) {
+    let best: Topic | null = null
+    let bestSimilarity = -1
+    for (const topic of this.topics) {
+      const similarity = cosineSimilarity(topic.centroid, embedding)
+      if (similarity > bestSimilarity) {
+        best = topic
+        bestSimilarity = similarity
+      }
+    }
+
+    if (best && bestSimilarity >= TOPIC_SIMILARITY_THRESHOLD) {
+      best.centroid = addToCentroid(best.centroid, best.question_count, embedding)
+      best.question_count++
+      if (best.sample_questions.length < MAX_SAMPLE_QUESTIONS) {
+        best.sample_questions.push(question)
+      }
+      best.dirty = true
+      return { topic: best, similarity: bestSimilarity, created: false }
+    }
+
+    const { data, error } = await this.supabase
+      .from('conversation_topics')
+      .insert({
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        label: question.slice(0, 80),
+        centroid: formatVector(embedding),
+        embedding_model: embeddingModel,
+        question_count: 1,
+        sample_questions: [question]
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create topic: ${error.message}`)
+    }
+
+    const topic: Topic = {
+      id: data.id,
+      label: question.slice(0, 80),
+      centroid: embedding,
+      question_count: 1,
+      sample_questions: [question],
+      dirty: false,
+      unlabeled: true
+    }
+    this.topics.push(topic)
+    return { topic, similarity: 1, created: true }
+  }
+
+  private async loadTopics(embeddingModel: string) {
+    const { data: topics } = await this.supabase
+      .from('conversation_topics')
+      .select('id, label, centroid, question_count, sample_questions')
+      .eq('agent_id', this.agentId)
+      .eq('embedding_model', embeddingModel)
+
+    this.topics = (topics || []).map((topic: any) => ({
+      ...topic,
+      centroid: parseVector(topic.centroid),
+      sample_questions: topic.sample_questions || [],
+      dirty: false,
+      unlabeled: false
+    }))
+  }
+
+  private async saveTopics() {
+    for (const topic of this.topics.filter(t => t.dirty)) {
+      await this.supabase
+        .from('conversation_topics')
+        .update({
+          centroid: formatVector(topic.centroid),
+          question_count: topic.question_count,
+          sample_questions: topic.sample_questions,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', topic.id)
+      topic.dirty = false
+    }
+  }
+
+  /**
+   * Replace the placeholder labels (the first question) of new topics
+   * Failure is harmless: the topic keeps its first question as the label
+   */
+  private async labelNewTopics(model: string) {
+    const unlabeled = this.topics.filter(topic => topic.unlabeled)
+    if (unlabeled.length === 0) return
+
+    try {
+      const groups = unlabeled
+        .map((topic, i) => `${i + 1}. ${topic.sample_questions.slice(0, 3).join(' | ')}`)
+        .join('\n')
+
+      const result = await chatWithProjectCredentials(
+        this.projectId,
+        model,
+        [
+          { role: 'system', content: LABEL_PROMPT },
+          { role: 'user', content: groups }
+        ],
+        { temperature: 0, maxTokens: 20 * unlabeled.length + 50 }
+      )
+      this.trackUsage(result)
+
+      const labels = parseJson(result.content, /\[[\s\S]*\]/)
+      if (!Array.isArray(labels) || labels.length !== unlabeled.length) {
+        throw new Error('Label count does not match')
+      }
+
+      for (let i = 0; i < unlabeled.length; i++) {
+        const label = String(labels[i] || '').trim().slice(0, 80)
+        if (!label) continue
+        unlabeled[i].label = label
+        await this.supabase
+          .from('conversation_topics')
+          .update({ label })
+          .eq('id', unlabeled[i].id)
+      }
+    } catch (error: any) {
+      console.warn('[Analytics] Could not label new topics:', error.message)
+    } finally {
+      unlabeled.forEach(topic => { topic.unlabeled = false })
+    }
+  }
+
+  private async resolveModel(): Promise<string | null> {
+    const { data: agent } = await this.supabase
+      .from('agents')
+      .select('model')
+      .eq('id', this.agentId)
+      .single()
+
+    return agent?.model || modelService.getDefaultModel(true)
+  }
+
+  private trackUsage(result: {
+    usage?: { promptTokens: number; completionTokens: number }
+    estimatedCost?: number
+    keySource?: KeySource
+  }) {
+    this.usage.promptTokens += result.usage?.promptTokens || 0
+    this.usage.completionTokens += result.usage?.completionTokens || 0
+    this.usage.costUsd += result.estimatedCost || 0
+    if (result.keySource === 'project') this.usage.keySource = 'project'
+  }
+
+  private async logUsage(model: string) {
+    const totalTokens = this.usage.promptTokens + this.usage.completionTokens
+    if (totalTokens === 0) return
+
+    await this.supabase
+      .from('usage_logs')
+      .insert({
+        project_id: this.projectId,
+        agent_id: this.agentId,
+        type: 'completion',
+        model,
+        action: 'conversation_analysis',
+        credits_used: Math.max(1, Math.ceil(totalTokens / 100)),
+        input_tokens: this.usage.promptTokens,
+        output_tokens: this.usage.completionTokens,
+        total_tokens: totalTokens,
+        cost_usd: this.usage.costUsd,
+        key_source: this.usage.keySource
+      })
+  }
+}
@@ -0,0 +1,266 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
+import { ChatMessage } from '@/lib/ai/providers/base'
+import type { KeySource } from '@/lib/ai/project-credentials'
+import { countTokens, truncateToTokens } from '@/lib/ai/tokenizer'
+import { modelService } from '@/lib/services/model-service'
+import { MemoryRefreshStats, MemorySettings, resolveMemorySettings } from '@/lib/types/memory'
+
+// Messages folded into the summary per run; the queue schedules another run
+// while more are waiting
+const FOLD_BATCH_SIZE = 40
+// A pasted document shouldn't crowd the rest of the batch out of the prompt
+const MAX_MESSAGE_CHARS = 1500
+// Turns past the verbatim window that the summary doesn't cover yet (the
+// refresh is behind or failed) are sent verbatim too, newest first, up to this
+const MAX_UNSUMMARIZED_TOKENS = 2000
+const MAX_UNSUMMARIZED_MESSAGES = 100
+
+const SUMMARY_PROMPT = `You keep the running summary of a customer's conversation with an AI assistant.
+Update the current summary with the new messages. Keep what the assistant will need later in the conversation: who the visitor is and any details they shared, what they asked for, answers and decisions given, promises made and questions still open. Drop greetings and small talk.
+Write plain prose in the third person, no longer than needed. Reply with the updated summary only.`
+
+export interface MemorySnapshot {
+  // Older turns, condensed; null until the first refresh
+  summary: string | null
+  // The last few turns, plus older ones the summary doesn't cover yet, oldest first
+  recent: ChatMessage[]
+  // User and assistant messages stored before this one
+  totalMessages: number
+}
+
+/**
+ * Summary section for the system prompt
+ */
+export function formatConversationSummary(summary: string | null): string {
+  return summary ? `## CONVERSATION SO FAR:\n${summary}` : ''
+}
+
+/**
+ * Conversation memory: the last few turns verbatim plus a running summary of
+ * everything before them, kept on the conversations row
+ * Replies load it; the conversation-memory queue refreshes the summary in the
+ * background once turns fall out of the verbatim window.
+ */
+export class ConversationMemory {
+  private supabase: any
+  private agentId: string
+  private projectId: string
+
+  constructor(agentId: string, projectId: string) {
+    this.supabase = createServiceClient()
+    this.agentId = agentId
+    this.projectId = projectId
+  }
+
+  /**
+   * Memory to answer the next message with
+   * Call before storing that message, so it isn't part of the history.
+   */
+  async load(
+    conversation: { id: string; summary?: string | null; summarized_until?: string | null },
+    settings: MemorySettings
+  ): Promise<MemorySnapshot> {
+    const { data, count } = await this.supabase
+      .from('messages')
+      .select('role, content, created_at', { count: 'exact' })
+      .eq('conversation_id', conversation.id)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(settings.recentTurns * 2)
+
+    const window = (data || []).reverse()
+    const recent: ChatMessage[] = window.map((message: any) => ({ role: message.role, content: message.content }))
+
+    const olderMessages = (count ?? window.length) > window.length
+    const unsummarized = settings.summarize && olderMessages
+      ? await this.unsummarized(conversation, window[0].created_at)
+      : []
+
+    return {
+      summary: settings.summarize ? conversation.summary || null : null,
+      recent: [...unsummarized, ...recent],
+      totalMessages: count ?? window.length
+    }
+  }
+
+  /**
+   * Messages older than the verbatim window that aren't in the summary yet,
+   * oldest first; the newest of them are kept when they don't all fit
+   */
+  private async unsummarized(
+    conversation: { id: string; summarized_until?: string | null },
+    before: string
+  ): Promise<ChatMessage[]> {
+    let query = this.supabase
+      .from('messages')
+      .select('role, content')
+      .eq('conversation_id', conversation.id)
+      .in('role', ['user', 'assistant'])
+      .lt('created_at', before)
+      .order('created_at', { ascending: false })
+      .limit(MAX_UNSUMMARIZED_MESSAGES)
+
+    if (conversation.summarized_until) {
+      query = query.gt('created_at', conversation.summarized_until)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('[ConversationMemory] Failed to load unsummarized messages:', error)
+      return []
+    }
+
+    const messages: ChatMessage[] = []
+    let tokens = 0
+    for (const message of data || []) {
+      tokens += countTokens(message.content)
+      if (tokens > MAX_UNSUMMARIZED_TOKENS) break
+      messages.unshift({ role: message.role, content: message.content })
+    }
+
+    if (messages.length < (data || []).length) {
+      console.warn(`[ConversationMemory] ${(data || []).length - messages.length} unsummarized messages left out of conversation ${conversation.id}`)
+    }
+    return messages
+  }
+
+  /**
+   * Fold messages that have left the verbatim window into the summary
+   */
+  async refresh(conversationId: string): Promise<MemoryRefreshStats> {
+    const { data: agent } = await this.supabase
+      .from('agents')
+      .select('model, config')
+      .eq('id', this.agentId)
+      .single()
+
+    const settings = resolveMemorySettings(agent?.config)
+    if (!settings.summarize) {
+      return { folded: 0, remaining: false }
+    }
+
+    const { data: conversation, error } = await this.supabase
+      .from('conversations')
+      .select('id, summary, summarized_until')
+      .eq('id', conversationId)
+      .single()
+
+    if (error || !conversation) {
+      throw new Error(`Conversation ${conversationId} not found`)
+    }
+
+    // The oldest message still sent verbatim; everything before it is summarized
+    const { data: window } = await this.supabase
+      .from('messages')
+      .select('created_at')
+      .eq('conversation_id', conversationId)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(settings.recentTurns * 2)
+
+    if (!window || window.length < settings.recentTurns * 2) {
+      return { folded: 0, remaining: false }
+    }
+    const cutoff = window[window.length - 1].created_at
+
+    let query = this.supabase
+      .from('messages')
+      .select('role, content, created_at')
+      .eq('conversation_id', conversationId)
+      .in('role', ['user', 'assistant'])
+      .lt('created_at', cutoff)
+      .order('created_at', { ascending: true })
+      .limit(FOLD_BATCH_SIZE + 1)
+
+    if (conversation.summarized_until) {
+      query = query.gt('created_at', conversation.summarized_until)
+    }
+
+    const { data: pending, error: pendingError } = await query
+    if (pendingError) {
+      throw new Error(`Failed to load messages to summarize: ${pendingError.message}`)
+    }
+    if (!pending || pending.length === 0) {
+      return { folded: 0, remaining: false }
+    }
+
+    const batch = pending.slice(0, FOLD_BATCH_SIZE)
+
+    const model = agent?.model || await modelService.getDefaultModel(true)
+    if (!model) {
+      throw new Error('No AI model configured for conversation summaries')
+    }
+
+    const transcript = batch
+      .map((message: any) => {
+        const speaker = message.role === 'user' ? 'Visitor' : 'Assistant'
+        return `${speaker}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`
+      })
+      .join('\n')
+
+    const prompt: ChatMessage[] = [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Current summary:\n${conversation.summary || '(none yet)'}\n\nNew messages:\n${transcript}`
+      }
+    ]
+    const result = await chatWithProjectCredentials(this.projectId, model, prompt, {
+      temperature: 0,
+      maxTokens: settings.maxSummaryTokens
+    })
+
+    const summary = truncateToTokens(result.content.trim(), settings.maxSummaryTokens, model)
+    if (!summary) {
+      throw new Error('Summary model returned an empty response')
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('conversations')
+      .update({
+        summary,
+        summarized_until: batch[batch.length - 1].created_at,
+        summary_updated_at: new Date().toISOString()
+      })
+      .eq('id', conversationId)
+
+    if (updateError) {
+      throw new Error(`Failed to save conversation summary: ${updateError.message}`)
+    }
+
+    await this.logUsage(model, conversationId, result)
+
+    return { folded: batch.length, remaining: pending.length > FOLD_BATCH_SIZE }
+  }
+
+  private async logUsage(
+    model: string,
+    conversationId: string,
+    result: {
+      usage?: { promptTokens: number; completionTokens: number; totalTokens: number }
+      estimatedCost?: number
+      keySource?: KeySource
+    }
+  ) {
+    const totalTokens = result.usage?.totalTokens || 0
+    if (totalTokens === 0) return
+
+    await this.supabase
+      .from('usage_logs')
+      .insert({
+        project_id: this.projectId,
+        agent_id: this.agentId,
+        type: 'completion',
+        model,
+        action: 'conversation_summary',
+        credits_used: Math.max(1, Math.ceil(totalTokens / 100)),
+        input_tokens: result.usage?.promptTokens || 0,
+        output_tokens: result.usage?.completionTokens || 0,
+        total_tokens: totalTokens,
+        cost_usd: result.estimatedCost || 0,
+        conversation_id: conversationId,
+        key_source: result.keySource || 'platform'
+      })
+  }
+}
@@ -1,6 +1,9 @@
 import { createServiceClient } from '@/lib/supabase/service'
-import { OpenAIProvider } from '@/lib/ai/providers/openai'
-import { EmbeddingOptions, EmbeddingResult } from '@/lib/ai/providers/base'
+import { createEmbeddingProvider, createProjectEmbeddingProvider } from '@/lib/ai/embedding-providers'
+import { KeySource, isCredentialError, isRejectedKeyError, markCredentialInvalid } from '@/lib/ai/project-credentials'
+import { AIProvider, EmbeddingResult } from '@/lib/ai/providers/base'
+import { EmbeddingSettings, DEFAULT_EMBEDDING_SETTINGS, resolveEmbeddingSettings } from '@/lib/types/embeddings'
+import { countTokens } from '@/lib/ai/tokenizer'
 
 export interface EmbeddingChunk {
   id: string
@@ -20,26 +23,102 @@ export interface EmbeddingProgress {
 }
 
 export class EmbeddingService {
-  private provider: OpenAIProvider
+  private providerPromise: Promise<AIProvider> | null = null
+  private settings: EmbeddingSettings
+  private projectId: string | null
+  // Whose key the current provider uses; see lib/ai/project-credentials
+  private keySource: KeySource = 'platform'
+  private credentialId: string | null = null
+  private useProjectKey = true
   private supabase: any
   private BATCH_SIZE = 20 // Process 20 chunks at a time to optimize API calls
   private MAX_RETRIES = 3
   private RETRY_DELAY = 1000 // 1 second
 
-  constructor(apiKey?: string) {
-    this.provider = new OpenAIProvider()
+  constructor(settings?: EmbeddingSettings, projectId?: string) {
+    this.settings = settings || DEFAULT_EMBEDDING_SETTINGS
+    this.projectId = projectId || null
     this.supabase = createServiceClient()
+  }
+
+  /**
+   * Embedding service using the provider/model configured for a project
+   */
+  static async forProject(projectId: string): Promise<EmbeddingService> {
+    const supabase = createServiceClient()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('embedding_provider, embedding_model')
+      .eq('id', projectId)
+      .single()
+
+    return new EmbeddingService(resolveEmbeddingSettings(project), projectId)
+  }
+
+  /**
+   * Embedding service using the provider/model configured for an agent's project
+   */
+  static async forAgent(agentId: string): Promise<EmbeddingService> {
+    const supabase = createServiceClient()
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('project_id')
+      .eq('id', agentId)
+      .single()
+
+    return agent?.project_id
+      ? EmbeddingService.forProject(agent.project_id)
+      : new EmbeddingService()
+  }
+
+  get model(): string {
+    return this.settings.model
+  }
+
+  get providerName(): string {
+    return this.settings.provider
+  }
 
-    // Initialize provider with API key
-    this.provider.initialize({ apiKey: apiKey || process.env.OPENAI_API_KEY })
+  private getProvider(): Promise<AIProvider> {
+    if (!this.providerPromise) {
+      this.providerPromise = this.projectId
+        ? createProjectEmbeddingProvider(this.projectId, this.settings.provider, this.useProjectKey)
+            .then(resolved => {
+              this.keySource = resolved.keySource
+              this.credentialId = resolved.credentialId
+              return resolved.provider
+            })
+        : createEmbeddingProvider(this.settings.provider)
+      // Allow a retry on the next call if initialization failed
+      this.providerPromise.catch(() => {
+        this.providerPromise = null
+      })
+    }
+    return this.providerPromise
   }
 
   /**
-   * Generate embeddings for all chunks of an agent
+   * After the project's own key was refused or ran out of quota, flag it and
+   * re-resolve the provider on the next attempt: the platform key when the
+   * plan allows it, otherwise the attempt fails with ProjectCredentialError
+   */
+  private async handleCredentialFailure(error: any): Promise<void> {
+    if (this.keySource !== 'project' || !isCredentialError(error)) return
+
+    if (isRejectedKeyError(error) && this.credentialId) {
+      await markCredentialInvalid(this.credentialId, error.message)
+    }
+    this.useProjectKey = false
+    this.providerPromise = null
+  }
+
+  /**
+   * Generate embeddings for all chunks of an agent, or of one of its sources
    */
   async generateEmbeddingsForAgent(
     agentId: string,
-    onProgress?: (progress: EmbeddingProgress) => void
+    onProgress?: (progress: EmbeddingProgress) => void,
+    sourceId?: string
   ): Promise<{
     success: boolean
     totalProcessed: number
@@ -49,12 +128,18 @@ export class EmbeddingService {
   }> {
     console.log(`[EmbeddingService] Starting embedding generation for agent ${agentId}`)
 
-    // Fetch all chunks without embeddings
-    const { data: chunks, error: fetchError } = await this.supabase
+    // Fetch chunks without embeddings, or embedded with a different model
+    let query = this.supabase
       .from('source_chunks')
       .select('id, content, agent_id, source_id, position')
       .eq('agent_id', agentId)
-      .is('embedding', null)
+      .or(`embedding.is.null,embedding_model.neq."${this.settings.model}"`)
+
+    if (sourceId) {
+      query = query.eq('source_id', sourceId)
+    }
+
+    const { data: chunks, error: fetchError } = await query
       .order('source_id', { ascending: true })
       .order('position', { ascending: true })
 
@@ -130,7 +215,8 @@ export class EmbeddingService {
     }
 
     // Update source metadata with embedding info
-    await this.updateSourceEmbeddingMetadata(agentId, totalTokens, totalCost)
+    await this.updateSourceEmbeddingMetadata(agentId, totalTokens, totalCost, sourceId)
+    await this.logUsage(agentId, totalTokens, totalCost)
 
     console.log(`[EmbeddingService] Completed embedding generation:`, {
       totalProcessed,
@@ -182,6 +268,8 @@ export class EmbeddingService {
             .from('source_chunks')
             .update({
               embedding: vectorString,
+              embedding_model: this.settings.model,
+              embedding_dimensions: embedding.length,
               updated_at: new Date().toISOString()
             })
             .eq('id', chunk.id)
@@ -196,7 +284,8 @@ export class EmbeddingService {
 
         // Calculate cost and tokens
         tokens += result.usage.totalTokens
-        cost += this.provider.estimateCost(result.usage.totalTokens, result.model)
+        const provider = await this.getProvider()
+        cost += provider.estimateCost(result.usage.totalTokens, this.settings.model)
       } else {
         failed += chunks.length
       }
@@ -216,13 +305,15 @@ export class EmbeddingService {
     retries = 0
   ): Promise<EmbeddingResult | null> {
     try {
-      const result = await this.provider.embed({
+      const provider = await this.getProvider()
+      const result = await provider.embed!({
         input: contents,
-        model: 'text-embedding-3-small'
+        model: this.settings.model
       })
       return result
     } catch (error: any) {
       console.error(`[EmbeddingService] Embedding generation failed (attempt ${retries + 1}):`, error)
+      await this.handleCredentialFailure(error)
 
       if (retries < this.MAX_RETRIES) {
         await this.delay(this.RETRY_DELAY * (retries + 1))
@@ -233,18 +324,47 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Record an embedding run in usage_logs, including whose key paid for it
+   */
+  private async logUsage(agentId: string, totalTokens: number, totalCost: number) {
+    if (!this.projectId || totalTokens === 0) return
+
+    const { error } = await this.supabase
+      .from('usage_logs')
+      .insert({
+        project_id: this.projectId,
+        agent_id: agentId,
+        type: 'embedding',
+        model: this.settings.model,
+        action: 'training',
+        credits_used: 0,
+        input_tokens: totalTokens,
+        output_tokens: 0,
+        total_tokens: totalTokens,
+        cost_usd: totalCost,
+        key_source: this.keySource,
+        credential_id: this.credentialId
+      })
+
+    if (error) {
+      console.error('[EmbeddingService] Failed to log usage:', error)
+    }
+  }
+
   /**
    * Update source metadata with embedding information
    */
   private async updateSourceEmbeddingMetadata(
     agentId: string,
     totalTokens: number,
-    totalCost: number
+    totalCost: number,
+    sourceId?: string
   ) {
-    const { error } = await this.supabase
+    let query = this.supabase
       .from('sources')
       .update({
-        embedding_model: 'text-embedding-3-small',
+        embedding_model: this.settings.model,
         embedding_generated_at: new Date().toISOString(),
         total_embedding_tokens: totalTokens,
         embedding_cost_usd: totalCost,
@@ -252,19 +372,34 @@ export class EmbeddingService {
       })
       .eq('agent_id', agentId)
 
+    if (sourceId) {
+      query = query.eq('id', sourceId)
+    }
+
+    const { error } = await query
+
     if (error) {
       console.error('[EmbeddingService] Failed to update source metadata:', error)
     }
   }
 
+  /**
+   * Embed a list of texts with the configured model, retrying on failure
+   * Returns null if every attempt failed
+   */
+  async embedTexts(texts: string[]): Promise<EmbeddingResult | null> {
+    return this.generateEmbeddingsWithRetry(texts)
+  }
+
   /**
    * Generate embedding for a single text
    */
   async generateEmbedding(text: string): Promise<number[] | null> {
     try {
-      const result = await this.provider.embed({
+      const provider = await this.getProvider()
+      const result = await provider.embed!({
         input: text,
-        model: 'text-embedding-3-small'
+        model: this.settings.model
       })
 
       return result.embeddings[0] || null
@@ -306,7 +441,9 @@ export class EmbeddingService {
       agent_uuid: agentId,
       limit_count: limit,
       similarity_threshold: similarityThreshold,
-      source_types: sourceTypes || null
+      source_types: sourceTypes || null,
+      // Vectors from other models live in a different space (and often dimension)
+      embedding_model_name: this.settings.model
     })
 
     if (error) {
@@ -323,6 +460,19 @@ export class EmbeddingService {
     }))
   }
 
+  /**
+   * Cost in USD of embedding the given number of tokens with the configured model
+   * Returns null if the provider can't be initialized
+   */
+  async estimateCost(tokens: number): Promise<number | null> {
+    try {
+      const provider = await this.getProvider()
+      return provider.estimateCost(tokens, this.settings.model)
+    } catch {
+      return null
+    }
+  }
+
   /**
    * Helper function to add delay
    */
@@ -331,10 +481,9 @@ export class EmbeddingService {
   }
 
   /**
-   * Estimate tokens for text (rough estimation)
+   * Tokens in text for the embedding model
    */
   estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4)
+    return countTokens(text, this.settings.model)
   }
 }
\ No newline at end of file
@@ -0,0 +1,392 @@
+import { Script, createContext } from 'vm'
+import { createServiceClient } from '@/lib/supabase/service'
+import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
+import { logSecurityEvent } from '@/lib/utils/security'
+import {
+  effectiveGuardrailPolicy,
+  GuardrailAction,
+  GuardrailCheck,
+  GuardrailDetector,
+  GuardrailPolicy,
+  GuardrailStage,
+  GuardrailTrigger,
+  GuardrailVerdict,
+  GUARDRAIL_ACTION_PRIORITY,
+  guardrailPatternProblem,
+  PiiType
+} from '@/lib/types/guardrails'
+
+export interface GuardrailContext {
+  agentId: string
+  projectId: string
+  // Model used for moderation and rewrites unless the policy names one;
+  // without either, both are skipped
+  model: string
+  channel: string
+  conversationId?: string
+  userId?: string
+}
+
+interface Detection {
+  detector: GuardrailDetector
+  action: GuardrailAction
+  label: string
+  // Character ranges that matched; moderation flags the whole text
+  spans: Array<[number, number]>
+}
+
+const PII_PATTERNS: Record<PiiType, RegExp> = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  phone: /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g,
+  card: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g
+}
+
+// Custom patterns run in their own context so one that backtracks too long
+// can be stopped; the text they see is capped as well
+const PATTERN_TIMEOUT_MS = 50
+const MAX_PATTERN_INPUT_LENGTH = 20000
+const patternContext = createContext({})
+const patternScript = new Script(
+  'Array.from(text.matchAll(new RegExp(pattern, "gi")), match => [match.index, match.index + match[0].length])'
+)
+
+const MODERATION_PROMPT = `You are a content moderator. Decide whether the text falls into any of these categories: {categories}.
+Reply with JSON only: {"flagged": true or false, "categories": [the categories that apply]}`
+
+const REWRITE_PROMPT = `Rewrite the assistant reply below so it no longer contains {labels}. Keep everything else, including its language, tone, formatting and any [n] citation markers. Reply with the rewritten text only.`
+
+function digitCount(text: string): number {
+  return text.replace(/\D/g, '').length
+}
+
+// Card numbers must pass the Luhn checksum, which rules out most order and reference numbers
+function passesLuhn(text: string): boolean {
+  const digits = text.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10)
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function findAll(text: string, regex: RegExp, accept: (match: string) => boolean = () => true): Array<[number, number]> {
+  const spans: Array<[number, number]> = []
+  for (const match of text.matchAll(regex)) {
+    if (match[0] && accept(match[0])) {
+      spans.push([match.index!, match.index! + match[0].length])
+    }
+  }
+  return spans
+}
+
+/**
+ * Spans where an admin- or agent-defined pattern matches, or null when it
+ * didn't finish within PATTERN_TIMEOUT_MS
+ */
+function findPatternMatches(text: string, pattern: string): Array<[number, number]> | null {
+  patternContext.text = text
+  patternContext.pattern = pattern
+  try {
+    const spans: Array<[number, number]> = patternScript.runInContext(patternContext, { timeout: PATTERN_TIMEOUT_MS })
+    return spans.filter(([start, end]) => end > start)
+  } catch (error: any) {
+    if (error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return null
+    throw error
+  } finally {
+    patternContext.text = ''
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function overlaps(span: [number, number], others: Array<[number, number]>): boolean {
+  return others.some(([start, end]) => span[0] < end && start < span[1])
+}
+
+/**
+ * Input and output checks around a chat reply
+ * Blocked topics, admin-defined patterns and PII are matched locally; the
+ * optional moderation check is a model call. Every trigger is logged as a
+ * security event.
+ */
+export class Guardrails {
+  private supabase: any
+  private policy: GuardrailPolicy
+  private context: GuardrailContext
+
+  constructor(policy: GuardrailPolicy, context: GuardrailContext) {
+    this.supabase = createServiceClient()
+    this.policy = policy
+    this.context = context
+  }
+
+  /**
+   * Guardrails for an agent: the platform policy plus the agent's own checks
+   */
+  static async forAgent(agent: any, context: GuardrailContext): Promise<Guardrails> {
+    const supabase = createServiceClient()
+    const { data: setting } = await supabase
+      .from('system_settings')
+      .select('setting_value')
+      .eq('setting_key', 'guardrail_policy')
+      .maybeSingle()
+
+    return new Guardrails(effectiveGuardrailPolicy(setting?.setting_value, agent.config), context)
+  }
+
+  /**
+   * Whether the reply is checked; streamed replies are held back until it has been
+   */
+  get checksOutput(): boolean {
+    return this.activeChecks('output').length > 0
+  }
+
+  checkInput(text: string): Promise<GuardrailVerdict> {
+    return this.check('input', text)
+  }
+
+  checkOutput(text: string): Promise<GuardrailVerdict> {
+    return this.check('output', text)
+  }
+
+  private activeChecks(stage: GuardrailStage): GuardrailDetector[] {
+    if (!this.policy.enabled) return []
+
+    const checks: Array<[GuardrailDetector, GuardrailCheck, boolean]> = [
+      ['blocked_topic', this.policy.blockedTopics, this.policy.blockedTopics.topics.some(topic => topic.trim())],
+      ['pattern', this.policy.patterns, this.policy.patterns.rules.some(rule => rule.pattern)],
+      ['pii', this.policy.pii, this.policy.pii.types.length > 0],
+      ['moderation', this.policy.moderation, true]
+    ]
+
+    return checks
+      .filter(([, check, configured]) => configured && check[stage])
+      .map(([detector]) => detector)
+  }
+
+  private async check(stage: GuardrailStage, text: string): Promise<GuardrailVerdict> {
+    const active = this.activeChecks(stage)
+    if (active.length === 0 || !text.trim()) {
+      return { text, action: null, triggers: [] }
+    }
+
+    const detections = [
+      ...(active.includes('blocked_topic') ? this.detectTopics(text) : []),
+      ...(active.includes('pattern') ? this.detectPatterns(text) : []),
+      ...(active.includes('pii') ? this.detectPii(text) : []),
+      ...(active.includes('moderation') ? await this.moderate(text) : [])
+    ]
+      // Masking needs something to mask; a whole-text flag is blocked instead
+      .map(detection => (detection.action === 'redact' || detection.action === 'rewrite') && detection.spans.length === 0
+        ? { ...detection, action: 'block' as const }
+        : detection)
+      // Input is never rewritten by a model, only masked
+      .map(detection => stage === 'input' && detection.action === 'rewrite'
+        ? { ...detection, action: 'redact' as const }
+        : detection)
+
+    if (detections.length === 0) {
+      return { text, action: null, triggers: [] }
+    }
+
+    const triggers: GuardrailTrigger[] = detections.map(detection => ({
+      stage,
+      detector: detection.detector,
+      action: detection.action,
+      label: detection.label,
+      matches: Math.max(1, detection.spans.length)
+    }))
+
+    await Promise.all(triggers.map(trigger => logSecurityEvent({
+      type: 'guardrail',
+      userId: this.context.userId,
+      details: {
+        ...trigger,
+        agentId: this.context.agentId,
+        conversationId: this.context.conversationId,
+        channel: this.context.channel
+      }
+    })))
+
+    const action = GUARDRAIL_ACTION_PRIORITY.find(candidate => detections.some(detection => detection.action === candidate))!
+
+    if (action === 'handoff') {
+      await this.requestHandoff()
+      return { text: this.policy.handoffMessage, action, triggers }
+    }
+    if (action === 'block') {
+      return { text: this.policy.blockMessage, action, triggers }
+    }
+
+    if (action === 'rewrite') {
+      // Masked spans stay masked; the model only rewrites around the rest
+      const rewritten = await this.rewrite(this.redact(text, detections, ['redact']), detections)
+      if (rewritten) {
+        return { text: rewritten, action, triggers }
+      }
+    }
+
+    return { text: this.redact(text, detections, ['redact', 'rewrite']), action: 'redact', triggers }
+  }
+
+  private detectTopics(text: string): Detection[] {
+    const { action, topics } = this.policy.blockedTopics
+    return topics
+      .map(topic => topic.trim())
+      .filter(Boolean)
+      .map(topic => ({
+        detector: 'blocked_topic' as const,
+        action,
+        label: topic,
+        spans: findAll(text, new RegExp(`(?<!\\w)${escapeRegex(topic)}(?!\\w)`, 'gi'))
+      }))
+      .filter(detection => detection.spans.length > 0)
+  }
+
+  private detectPatterns(text: string): Detection[] {
+    const { action, rules } = this.policy.patterns
+    const detections: Detection[] = []
+
+    if (text.length > MAX_PATTERN_INPUT_LENGTH) {
+      console.warn(`[Guardrails] Matching patterns against the first ${MAX_PATTERN_INPUT_LENGTH} of ${text.length} characters`)
+    }
+    const scanned = text.slice(0, MAX_PATTERN_INPUT_LENGTH)
+
+    for (const rule of rules) {
+      if (!rule.pattern) continue
+
+      // Checked again here since agent configs can be written without the settings page
+      const problem = guardrailPatternProblem(rule.pattern)
+      if (problem) {
+        console.error(`[Guardrails] Skipping pattern "${rule.name}" (${problem}): ${rule.pattern}`)
+        continue
+      }
+
+      const spans = findPatternMatches(scanned, rule.pattern)
+      if (!spans) {
+        console.error(`[Guardrails] Pattern "${rule.name}" took over ${PATTERN_TIMEOUT_MS}ms and was skipped: ${rule.pattern}`)
+        continue
+      }
+      if (spans.length > 0) {
+        detections.push({ detector: 'pattern', action, label: rule.name || rule.pattern, spans })
+      }
+    }
+
+    return detections
+  }
+
+  private detectPii(text: string): Detection[] {
+    const { action, types } = this.policy.pii
+
+    // Cards first, so their digits aren't reported as phone numbers too
+    const cards = findAll(text, PII_PATTERNS.card, match => passesLuhn(match))
+    const found: Record<PiiType, Array<[number, number]>> = {
+      card: types.includes('card') ? cards : [],
+      email: types.includes('email') ? findAll(text, PII_PATTERNS.email) : [],
+      phone: types.includes('phone')
+        ? findAll(text, PII_PATTERNS.phone, match => digitCount(match) >= 9 && digitCount(match) <= 15)
+          .filter(span => !overlaps(span, cards))
+        : []
+    }
+
+    return types
+      .filter(type => found[type].length > 0)
+      .map(type => ({ detector: 'pii' as const, action, label: type, spans: found[type] }))
+  }
+
+  private async moderate(text: string): Promise<Detection[]> {
+    const { action, categories } = this.policy.moderation
+    const model = this.policy.moderation.model || this.context.model
+    if (!model) return []
+
+    try {
+      const result = await chatWithProjectCredentials(
+        this.context.projectId,
+        model,
+        [
+          { role: 'system', content: MODERATION_PROMPT.replace('{categories}', categories.join(', ')) },
+          { role: 'user', content: text }
+        ],
+        { temperature: 0, maxTokens: 100 }
+      )
+
+      const match = result.content.match(/\{[\s\S]*\}/)
+      const parsed = match ? JSON.parse(match[0]) : null
+      if (!parsed?.flagged) return []
+
+      const flagged: string[] = Array.isArray(parsed.categories) && parsed.categories.length > 0
+        ? parsed.categories.filter((category: unknown): category is string => typeof category === 'string')
+        : ['flagged']
+
+      return flagged.map(category => ({ detector: 'moderation' as const, action, label: category, spans: [] }))
+    } catch (error) {
+      // An unavailable moderator doesn't stop the conversation; the local checks still ran
+      console.error('[Guardrails] Moderation check failed:', error)
+      return []
+    }
+  }
+
+  private redact(text: string, detections: Detection[], actions: GuardrailAction[]): string {
+    const spans = detections
+      .filter(detection => actions.includes(detection.action))
+      .flatMap(detection => detection.spans.map(([start, end]) => ({ start, end, label: detection.label })))
+      .sort((a, b) => b.start - a.start)
+
+    let result = text
+    let boundary = Infinity
+    for (const { start, end, label } of spans) {
+      // Spans are applied from the end; skip ones overlapping an earlier replacement
+      if (end > boundary) continue
+      result = `${result.slice(0, start)}[${label.toUpperCase()} REMOVED]${result.slice(end)}`
+      boundary = start
+    }
+    return result
+  }
+
+  private async rewrite(text: string, detections: Detection[]): Promise<string | null> {
+    const labels = Array.from(new Set(
+      detections
+        .filter(detection => detection.action === 'rewrite')
+        .map(detection => detection.detector === 'pii' ? `${detection.label} details` : `"${detection.label}"`)
+    ))
+
+    const model = this.policy.moderation.model || this.context.model
+    if (!model) return null
+
+    try {
+      const result = await chatWithProjectCredentials(
+        this.context.projectId,
+        model,
+        [
+          { role: 'system', content: REWRITE_PROMPT.replace('{labels}', labels.join(', ')) },
+          { role: 'user', content: text }
+        ],
+        { temperature: 0 }
+      )
+      return result.content.trim() || null
+    } catch (error) {
+      console.error('[Guardrails] Rewrite failed, redacting instead:', error)
+      return null
+    }
+  }
+
+  private async requestHandoff() {
+    if (!this.context.conversationId) return
+
+    const { error } = await this.supabase
+      .from('conversations')
+      .update({ handoff_requested_at: new Date().toISOString() })
+      .eq('id', this.context.conversationId)
+
+    if (error) {
+      console.error('[Guardrails] Failed to flag conversation for handoff:', error)
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import { getReranker } from '@/lib/services/reranker'
+import { RetrievalSettings, RetrievedChunk, DEFAULT_RETRIEVAL_SETTINGS } from '@/lib/types/retrieval'
+
+export interface HybridSearchOptions {
+  limit?: number
+  similarityThreshold?: number
+  sourceTypes?: string[]
+  settings?: Partial<RetrievalSettings>
+  // Needed by rerankers that call a chat model
+  projectId?: string
+  // Fallback model for the LLM reranker when settings.rerankerModel is unset
+  defaultModel?: string
+  // Paraphrases or a hypothetical answer, each searched like the query and
+  // fused with its results before reranking
+  extraQueries?: string[]
+}
+
+/**
+ * Hybrid retriever: pgvector similarity + Postgres full-text search,
+ * fused with reciprocal-rank fusion and optionally reranked
+ */
+export class HybridRetriever {
+  private supabase: any
+  private embeddingService?: EmbeddingService
+
+  // Without an explicit service, each search uses the agent's project embedding model
+  constructor(embeddingService?: EmbeddingService) {
+    this.supabase = createServiceClient()
+    this.embeddingService = embeddingService
+  }
+
+  async search(
+    agentId: string,
+    query: string,
+    options: HybridSearchOptions = {}
+  ): Promise<RetrievedChunk[]> {
+    const {
+      limit = 5,
+      similarityThreshold = 0.7,
+      sourceTypes,
+      projectId,
+      defaultModel
+    } = options
+    const settings: RetrievalSettings = { ...DEFAULT_RETRIEVAL_SETTINGS, ...(options.settings || {}) }
+    const candidateLimit = Math.max(limit, Math.ceil(limit * settings.candidateMultiplier))
+    const embeddingService = this.embeddingService || await EmbeddingService.forAgent(agentId)
+
+    const queries = [query, ...(options.extraQueries || [])]
+    const searches = await Promise.all(queries.map(async (searchQuery) => {
+      const [vectorHits, keywordHits] = await Promise.all([
+        embeddingService.searchSimilarChunks(agentId, searchQuery, candidateLimit, similarityThreshold, sourceTypes),
+        settings.mode === 'hybrid'
+          ? this.searchKeyword(agentId, searchQuery, candidateLimit, sourceTypes)
+          : Promise.resolve([])
+      ])
+
+      const results = settings.mode === 'hybrid'
+        ? this.fuse(vectorHits, keywordHits, settings)
+        : vectorHits.map(hit => ({ ...hit, matchedBy: ['vector' as const] }))
+
+      return { vectorHits: vectorHits.length, keywordHits: keywordHits.length, results }
+    }))
+
+    let results = searches.length > 1
+      ? this.fuseQueries(searches.map(search => search.results), settings)
+      : searches[0].results
+    const vectorHits = searches.reduce((total, search) => total + search.vectorHits, 0)
+    const keywordHits = searches.reduce((total, search) => total + search.keywordHits, 0)
+
+    const reranker = projectId
+      ? getReranker(settings.reranker, { projectId, model: settings.rerankerModel || defaultModel })
+      : null
+
+    if (reranker && results.length > 1) {
+      results = await reranker.rerank(query, results, limit)
+    }
+
+    console.log(`[HybridRetriever] ${vectorHits} vector + ${keywordHits} keyword hits over ${queries.length} queries -> ${Math.min(results.length, limit)} results (mode: ${settings.mode}, reranker: ${reranker?.name || 'none'})`)
+
+    return results.slice(0, limit)
+  }
+
+  /**
+   * Full-text search via the search_chunks_keyword RPC
+   */
+  async searchKeyword(
+    agentId: string,
+    query: string,
+    limit: number,
+    sourceTypes?: string[]
+  ): Promise<Array<{ id: string; content: string; metadata: any; sourceType?: string; rank: number }>> {
+    const { data, error } = await this.supabase.rpc('search_chunks_keyword', {
+      query_text: query,
+      agent_uuid: agentId,
+      limit_count: limit,
+      source_types: sourceTypes || null
+    })
+
+    if (error) {
+      // Missing migration or bad tsquery input shouldn't break vector search
+      console.error('[HybridRetriever] Keyword search error:', error)
+      return []
+    }
+
+    return (data || []).map((item: any) => ({
+      id: item.chunk_id,
+      content: item.content,
+      metadata: item.metadata,
+      sourceType: item.source_type,
+      rank: item.rank
+    }))
+  }
+
+  /**
+   * Reciprocal-rank fusion: score = sum(weight / (k + rank)) over each list a chunk appears in
+   */
+  private fuse(
+    vectorHits: Array<{ id: string; content: string; similarity: number; metadata: any; sourceType?: string }>,
+    keywordHits: Array<{ id: string; content: string; metadata: any; sourceType?: string; rank: number }>,
+    settings: RetrievalSettings
+  ): RetrievedChunk[] {
+    const fused = new Map<string, RetrievedChunk>()
+
+    vectorHits.forEach((hit, index) => {
+      fused.set(hit.id, {
+        ...hit,
+        fusedScore: settings.vectorWeight / (settings.rrfK + index + 1),
+        matchedBy: ['vector']
+      })
+    })
+
+    keywordHits.forEach((hit, index) => {
+      const score = settings.keywordWeight / (settings.rrfK + index + 1)
+      const existing = fused.get(hit.id)
+
+      if (existing) {
+        existing.fusedScore = (existing.fusedScore || 0) + score
+        existing.keywordRank = hit.rank
+        existing.matchedBy.push('keyword')
+      } else {
+        fused.set(hit.id, {
+          id: hit.id,
+          content: hit.content,
+          metadata: hit.metadata,
+          sourceType: hit.sourceType,
+          similarity: 0,
+          keywordRank: hit.rank,
+          fusedScore: score,
+          matchedBy: ['keyword']
+        })
+      }
+    })
+
+    return Array.from(fused.values()).sort((a, b) => (b.fusedScore || 0) - (a.fusedScore || 0))
+  }
+
+  /**
+   * Reciprocal-rank fusion across the result lists of several queries
+   * A chunk keeps its best similarity and every retriever that matched it.
+   */
+  private fuseQueries(lists: RetrievedChunk[][], settings: RetrievalSettings): RetrievedChunk[] {
+    const fused = new Map<string, RetrievedChunk>()
+
+    lists.forEach(list => {
+      list.forEach((chunk, index) => {
+        const score = 1 / (settings.rrfK + index + 1)
+        const existing = fused.get(chunk.id)
+
+        if (existing) {
+          existing.fusedScore = (existing.fusedScore || 0) + score
+          existing.similarity = Math.max(existing.similarity, chunk.similarity)
+          existing.keywordRank = existing.keywordRank ?? chunk.keywordRank
+          chunk.matchedBy.forEach(matched => {
+            if (!existing.matchedBy.includes(matched)) existing.matchedBy.push(matched)
+          })
+        } else {
+          fused.set(chunk.id, { ...chunk, matchedBy: [...chunk.matchedBy], fusedScore: score })
+        }
+      })
+    })
+
+    return Array.from(fused.values()).sort((a, b) => (b.fusedScore || 0) - (a.fusedScore || 0))
+  }
+}
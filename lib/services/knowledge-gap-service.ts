@@ -0,0 +1,290 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { EmbeddingService } from '@/lib/services/embedding-service'
+import {
+  KnowledgeGapReason,
+  KnowledgeGapSettings,
+  KnowledgeGapStatus,
+  KnowledgeGapWithQuestions
+} from '@/lib/types/knowledge-gaps'
+import { addToCentroid, cosineSimilarity, formatVector, parseVector } from '@/lib/utils/vectors'
+
+// Cosine similarity a question needs to join an existing gap
+const GAP_SIMILARITY_THRESHOLD = 0.82
+// Greetings and small talk retrieve nothing but aren't gaps
+const MIN_QUESTION_LENGTH = 12
+// Questions returned per gap in the report
+const QUESTIONS_PER_GAP = 5
+
+// Matched case-insensitively anywhere in the answer; the first one is what
+// the chat route's RAG instructions tell the model to say
+const REFUSAL_PHRASES = [
+  "i don't have that information",
+  'i do not have that information',
+  'not in my knowledge base',
+  "i don't have information about",
+  "i couldn't find any information",
+  "i'm not sure about that",
+  "i don't know"
+]
+
+export interface KnowledgeGapCheck {
+  question: string
+  answer: string
+  // Chunks the retriever returned, before the threshold filter
+  retrieved: Array<{ similarity: number; matchedBy?: string[] }>
+  // Chunks that made it into the prompt
+  relevantCount: number
+  // The model ran an action, which may have answered from elsewhere
+  usedActions: boolean
+}
+
+export interface RecordGapInput {
+  question: string
+  answer: string
+  reason: KnowledgeGapReason
+  topSimilarity: number | null
+  conversationId?: string | null
+  messageId?: string | null
+}
+
+/**
+ * Work out whether an answer was given without knowledge-base support
+ * Returns the reason it was flagged, or null when the answer looks grounded.
+ * A refusal is reported ahead of retrieval reasons since it's the clearest sign
+ * the visitor went without an answer.
+ */
+export function detectKnowledgeGap(
+  check: KnowledgeGapCheck,
+  settings: KnowledgeGapSettings
+): { reason: KnowledgeGapReason; topSimilarity: number | null } | null {
+  if (!settings.enabled || check.question.trim().length < MIN_QUESTION_LENGTH) {
+    return null
+  }
+
+  // Provider errors are reported in the answer text; they aren't gaps
+  if (check.answer.startsWith('⚠️')) {
+    return null
+  }
+
+  const vectorHits = check.retrieved.filter(chunk => chunk.matchedBy?.includes('vector') ?? chunk.similarity > 0)
+  const topSimilarity = vectorHits.length > 0 ? Math.max(...vectorHits.map(chunk => chunk.similarity)) : null
+
+  const answer = check.answer.toLowerCase()
+  const phrases = [...REFUSAL_PHRASES, ...settings.refusalPhrases.map(phrase => phrase.toLowerCase())]
+  if (phrases.some(phrase => phrase && answer.includes(phrase))) {
+    return { reason: 'refusal', topSimilarity }
+  }
+
+  if (check.usedActions) {
+    return null
+  }
+
+  if (check.relevantCount === 0) {
+    return { reason: 'no_context', topSimilarity }
+  }
+
+  if (topSimilarity === null || topSimilarity < settings.similarityFloor) {
+    return { reason: 'low_similarity', topSimilarity }
+  }
+
+  return null
+}
+
+/**
+ * Records flagged questions and groups them into knowledge gaps
+ * A question joins the most similar gap embedded with the same model, or
+ * starts a new one. Asking a resolved gap's question again reopens it, since
+ * the added answer evidently didn't cover it; dismissed gaps stay dismissed.
+ */
+export class KnowledgeGapService {
+  private supabase: any
+  private agentId: string
+  private projectId: string
+
+  constructor(agentId: string, projectId: string, supabase?: any) {
+    this.supabase = supabase || createServiceClient()
+    this.agentId = agentId
+    this.projectId = projectId
+  }
+
+  async record(input: RecordGapInput): Promise<string | null> {
+    const question = input.question.trim()
+    const embeddingService = await EmbeddingService.forProject(this.projectId)
+    const embedding = await embeddingService.generateEmbedding(question)
+    if (!embedding) {
+      console.warn(`[KnowledgeGaps] Could not embed question for agent ${this.agentId}, gap not recorded`)
+      return null
+    }
+
+    const gapId = await this.assignGap(question, embedding, embeddingService.model)
+
+    const { error } = await this.supabase
+      .from('knowledge_gap_questions')
+      .insert({
+        gap_id: gapId,
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        conversation_id: input.conversationId || null,
+        message_id: input.messageId || null,
+        question,
+        answer: input.answer,
+        reason: input.reason,
+        top_similarity: input.topSimilarity
+      })
+
+    if (error) {
+      throw new Error(`Failed to record knowledge gap question: ${error.message}`)
+    }
+
+    return gapId
+  }
+
+  async listGaps(status: KnowledgeGapStatus): Promise<KnowledgeGapWithQuestions[]> {
+    const { data: gaps, error } = await this.supabase
+      .from('knowledge_gaps')
+      .select('id, agent_id, label, question_count, status, resolved_source_id, resolved_at, last_asked_at, created_at')
+      .eq('agent_id', this.agentId)
+      .eq('status', status)
+      .order('question_count', { ascending: false })
+      .order('last_asked_at', { ascending: false })
+      .limit(200)
+
+    if (error) {
+      throw new Error(`Failed to list knowledge gaps: ${error.message}`)
+    }
+    if (!gaps?.length) {
+      return []
+    }
+
+    const { data: questions } = await this.supabase
+      .from('knowledge_gap_questions')
+      .select('id, gap_id, conversation_id, message_id, question, answer, reason, top_similarity, created_at')
+      .in('gap_id', gaps.map((gap: any) => gap.id))
+      .order('created_at', { ascending: false })
+      .limit(gaps.length * QUESTIONS_PER_GAP * 2)
+
+    const byGap = new Map<string, any[]>()
+    for (const question of questions || []) {
+      const list = byGap.get(question.gap_id) || []
+      if (list.length < QUESTIONS_PER_GAP) list.push(question)
+      byGap.set(question.gap_id, list)
+    }
+
+    return gaps.map((gap: any) => ({ ...gap, questions: byGap.get(gap.id) || [] }))
+  }
+
+  async getGap(gapId: string): Promise<KnowledgeGapWithQuestions | null> {
+    const { data: gap } = await this.supabase
+      .from('knowledge_gaps')
+      .select('id, agent_id, label, question_count, status, resolved_source_id, resolved_at, last_asked_at, created_at')
+      .eq('id', gapId)
+      .eq('agent_id', this.agentId)
+      .single()
+
+    if (!gap) return null
+
+    const { data: questions } = await this.supabase
+      .from('knowledge_gap_questions')
+      .select('id, gap_id, conversation_id, message_id, question, answer, reason, top_similarity, created_at')
+      .eq('gap_id', gapId)
+      .order('created_at', { ascending: false })
+      .limit(QUESTIONS_PER_GAP)
+
+    return { ...gap, questions: questions || [] }
+  }
+
+  async setStatus(gapId: string, status: KnowledgeGapStatus, sourceId?: string | null) {
+    const { data, error } = await this.supabase
+      .from('knowledge_gaps')
+      .update({
+        status,
+        resolved_source_id: status === 'resolved' ? sourceId || null : null,
+        resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', gapId)
+      .eq('agent_id', this.agentId)
+      .select('id, status, resolved_source_id, resolved_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update knowledge gap: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Resolve the gap a flagged answer belongs to, if any
+   * Used when the answer is revised from the chat logs.
+   */
+  async resolveForMessage(messageId: string, sourceId: string): Promise<string | null> {
+    const { data: flagged } = await this.supabase
+      .from('knowledge_gap_questions')
+      .select('gap_id')
+      .eq('message_id', messageId)
+      .eq('agent_id', this.agentId)
+      .limit(1)
+      .maybeSingle()
+
+    if (!flagged) return null
+
+    await this.setStatus(flagged.gap_id, 'resolved', sourceId)
+    return flagged.gap_id
+  }
+
+  private async assignGap(question: string, embedding: number[], embeddingModel: string): Promise<string> {
+    const { data: gaps } = await this.supabase
+      .from('knowledge_gaps')
+      .select('id, centroid, question_count, status')
+      .eq('agent_id', this.agentId)
+      .eq('embedding_model', embeddingModel)
+
+    let best: any = null
+    let bestSimilarity = -1
+    for (const gap of gaps || []) {
+      gap.centroid = parseVector(gap.centroid)
+      const similarity = cosineSimilarity(gap.centroid, embedding)
+      if (similarity > bestSimilarity) {
+        best = gap
+        bestSimilarity = similarity
+      }
+    }
+
+    const now = new Date().toISOString()
+
+    if (best && bestSimilarity >= GAP_SIMILARITY_THRESHOLD) {
+      await this.supabase
+        .from('knowledge_gaps')
+        .update({
+          centroid: formatVector(addToCentroid(best.centroid, best.question_count, embedding)),
+          question_count: best.question_count + 1,
+          last_asked_at: now,
+          updated_at: now,
+          ...(best.status === 'resolved' && { status: 'open', resolved_at: null })
+        })
+        .eq('id', best.id)
+      return best.id
+    }
+
+    const { data, error } = await this.supabase
+      .from('knowledge_gaps')
+      .insert({
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        label: question.slice(0, 200),
+        centroid: formatVector(embedding),
+        embedding_model: embeddingModel,
+        question_count: 1,
+        last_asked_at: now
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create knowledge gap: ${error.message}`)
+    }
+
+    return data.id
+  }
+}
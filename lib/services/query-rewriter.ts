@@ -0,0 +1,108 @@
+import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
+import { ChatMessage } from '@/lib/ai/providers/base'
+import { RetrievalSettings } from '@/lib/types/retrieval'
+
+export interface SearchQueries {
+  // Standalone query; results are reranked against it
+  primary: string
+  // Paraphrases and the hypothetical answer, searched alongside it
+  extra: string[]
+}
+
+export interface QueryContext {
+  recent: ChatMessage[]
+  summary: string | null
+}
+
+/**
+ * Turns the latest message into the queries the knowledge base is searched with
+ * One chat call condenses a follow-up and the conversation into a standalone
+ * query, and optionally adds paraphrases and a hypothetical answer (HyDE).
+ * Falls back to the raw message if the call fails or its output can't be parsed.
+ */
+export class QueryRewriter {
+  private static readonly HISTORY_MESSAGES = 6
+  private static readonly MAX_MESSAGE_CHARS = 500
+  private static readonly MAX_PARAPHRASES = 5
+
+  constructor(private projectId: string, private model: string) {}
+
+  async rewrite(message: string, context: QueryContext, settings: RetrievalSettings): Promise<SearchQueries> {
+    const fallback: SearchQueries = { primary: message, extra: [] }
+
+    const hasConversation = context.recent.length > 0 || !!context.summary
+    const condense = settings.queryRewrite && hasConversation
+    const paraphrases = Math.min(Math.max(0, Math.floor(settings.multiQueryCount || 0)), QueryRewriter.MAX_PARAPHRASES)
+    if (!condense && paraphrases === 0 && !settings.hyde) {
+      return fallback
+    }
+
+    const fields = [
+      condense
+        ? '"query": the latest message rewritten as a standalone search query, with pronouns and references resolved from the conversation'
+        : '"query": the latest message, unchanged',
+      paraphrases > 0 && `"paraphrases": an array of ${paraphrases} alternative phrasings of the query using different words`,
+      settings.hyde && '"answer": a short passage of 2-3 sentences that would answer the query, written as it might appear in documentation'
+    ].filter(Boolean)
+
+    const conversation = context.recent
+      .slice(-QueryRewriter.HISTORY_MESSAGES)
+      .map(entry => `${entry.role === 'user' ? 'Visitor' : 'Assistant'}: ${entry.content.substring(0, QueryRewriter.MAX_MESSAGE_CHARS)}`)
+      .join('\n')
+
+    const prompt = [
+      context.summary && `Earlier in the conversation:\n${context.summary}`,
+      conversation && `Recent messages:\n${conversation}`,
+      `Latest message: ${message}`
+    ].filter(Boolean).join('\n\n')
+
+    try {
+      const result = await chatWithProjectCredentials(
+        this.projectId,
+        this.model,
+        [
+          {
+            role: 'system',
+            content: `You write search queries for a knowledge base. Keep the language of the visitor's message. Reply with JSON only, an object with:\n${fields.map(field => `- ${field}`).join('\n')}`
+          },
+          { role: 'user', content: prompt }
+        ],
+        { temperature: 0, maxTokens: 400 }
+      )
+
+      const parsed = this.parse(result.content)
+      if (!parsed) {
+        return fallback
+      }
+
+      const primary = condense && typeof parsed.query === 'string' && parsed.query.trim()
+        ? parsed.query.trim()
+        : message
+
+      const extra = [
+        ...(Array.isArray(parsed.paraphrases) ? parsed.paraphrases.slice(0, paraphrases) : []),
+        ...(settings.hyde && typeof parsed.answer === 'string' ? [parsed.answer] : [])
+      ]
+        .filter((query): query is string => typeof query === 'string' && query.trim().length > 0)
+        .map(query => query.trim())
+        .filter((query, index, all) => query !== primary && all.indexOf(query) === index)
+
+      return { primary, extra }
+    } catch (error) {
+      console.error('[QueryRewriter] Rewrite failed, searching with the raw message:', error)
+      return fallback
+    }
+  }
+
+  private parse(text: string): any {
+    const match = text.match(/\{[\s\S]*\}/)
+    if (!match) return null
+
+    try {
+      return JSON.parse(match[0])
+    } catch {
+      // Unparseable output - caller searches with the raw message
+      return null
+    }
+  }
+}
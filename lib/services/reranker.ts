@@ -0,0 +1,106 @@
+import { chatWithProjectCredentials } from '@/lib/ai/server-utils'
+import { RetrievedChunk } from '@/lib/types/retrieval'
+
+export interface Reranker {
+  name: string
+  rerank(query: string, chunks: RetrievedChunk[], topN: number): Promise<RetrievedChunk[]>
+}
+
+export interface RerankerContext {
+  projectId: string
+  model?: string
+}
+
+type RerankerFactory = (context: RerankerContext) => Reranker | null
+
+/**
+ * Uses a chat model to score each candidate's relevance from 0 to 10
+ * Falls back to the incoming (fused) order if the model output can't be parsed
+ */
+export class LLMReranker implements Reranker {
+  name = 'llm'
+  private static readonly MAX_SNIPPET_CHARS = 1200
+
+  constructor(private projectId: string, private model: string) {}
+
+  async rerank(query: string, chunks: RetrievedChunk[], topN: number): Promise<RetrievedChunk[]> {
+    if (chunks.length <= 1) return chunks.slice(0, topN)
+
+    const passages = chunks
+      .map((chunk, index) => `[${index}] ${chunk.content.substring(0, LLMReranker.MAX_SNIPPET_CHARS)}`)
+      .join('\n\n')
+
+    try {
+      const result = await chatWithProjectCredentials(
+        this.projectId,
+        this.model,
+        [
+          {
+            role: 'system',
+            content: 'You rank passages by how well they answer a search query. Reply with JSON only: an array of {"index": number, "score": number} where score is 0-10. Include every passage.'
+          },
+          {
+            role: 'user',
+            content: `Query: ${query}\n\nPassages:\n${passages}`
+          }
+        ],
+        { temperature: 0, maxTokens: 400 }
+      )
+
+      const scores = this.parseScores(result.content)
+      if (scores.size === 0) {
+        return chunks.slice(0, topN)
+      }
+
+      return chunks
+        .map((chunk, index) => ({ ...chunk, rerankScore: scores.get(index) ?? 0 }))
+        .sort((a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0))
+        .slice(0, topN)
+    } catch (error) {
+      console.error('[LLMReranker] Rerank failed, keeping fused order:', error)
+      return chunks.slice(0, topN)
+    }
+  }
+
+  private parseScores(text: string): Map<number, number> {
+    const scores = new Map<number, number>()
+    const match = text.match(/\[[\s\S]*\]/)
+    if (!match) return scores
+
+    try {
+      const parsed = JSON.parse(match[0])
+      if (Array.isArray(parsed)) {
+        for (const item of parsed) {
+          if (typeof item?.index === 'number' && typeof item?.score === 'number') {
+            scores.set(item.index, item.score)
+          }
+        }
+      }
+    } catch {
+      // Unparseable output - caller keeps the fused order
+    }
+
+    return scores
+  }
+}
+
+const rerankers = new Map<string, RerankerFactory>([
+  ['llm', ({ projectId, model }) => model ? new LLMReranker(projectId, model) : null]
+])
+
+/**
+ * Register an additional reranker (e.g. a hosted cross-encoder)
+ */
+export function registerReranker(name: string, factory: RerankerFactory) {
+  rerankers.set(name, factory)
+}
+
+export function getReranker(name: string, context: RerankerContext): Reranker | null {
+  if (name === 'none') return null
+  const factory = rerankers.get(name)
+  if (!factory) {
+    console.warn(`[Reranker] Unknown reranker "${name}", skipping`)
+    return null
+  }
+  return factory(context)
+}
@@ -0,0 +1,250 @@
+import { createServiceClient } from '@/lib/supabase/service'
+import { ChunkManager, ChunkSyncSession } from '@/lib/services/chunk-manager'
+import { CrawlResult, WebsitePage } from '@/lib/types/crawler'
+
+// Chunk sizes for crawled pages, larger than the defaults to keep page counts manageable
+const PAGE_CHUNK_SIZE = 16000
+const PAGE_CHUNK_OVERLAP = 1600
+
+/**
+ * The pages of one website source, one website_pages row per URL
+ * A page's chunks carry its id as metadata.page_id, so search results can
+ * link to the exact page, and one page can be dropped or re-fetched on its own.
+ */
+export class WebsitePageStore {
+  private supabase: any
+
+  constructor(
+    private sourceId: string,
+    private agentId: string,
+    private projectId: string,
+    supabaseClient?: any
+  ) {
+    this.supabase = supabaseClient || createServiceClient()
+  }
+
+  /**
+   * Record a crawled page and store its chunks; returns the chunk count
+   * Pass the crawl's sync session to reuse unchanged chunks from the previous crawl
+   */
+  async savePage(page: CrawlResult, sync?: ChunkSyncSession): Promise<number> {
+    const crawledAt = new Date().toISOString()
+
+    const { data: row, error } = await this.supabase
+      .from('website_pages')
+      .upsert({
+        source_id: this.sourceId,
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        url: page.url,
+        title: page.title || null,
+        status: 'crawled',
+        status_code: page.statusCode ?? null,
+        content_hash: ChunkManager.hashContent(page.content),
+        content_length: page.content.length,
+        error_message: null,
+        crawled_at: crawledAt,
+        updated_at: crawledAt
+      }, { onConflict: 'source_id,url' })
+      .select('id')
+      .single()
+
+    if (error || !row) {
+      throw new Error(`Failed to save page ${page.url}: ${error?.message || 'no row returned'}`)
+    }
+
+    const chunkCount = await ChunkManager.appendChunks({
+      sourceId: this.sourceId,
+      agentId: this.agentId,
+      projectId: this.projectId,
+      content: page.content,
+      metadata: {
+        type: 'website',
+        page_id: row.id,
+        page_url: page.url,
+        page_title: page.title,
+        ...(page.lastmod && { page_lastmod: page.lastmod }),
+        crawl_timestamp: crawledAt
+      },
+      chunkSize: PAGE_CHUNK_SIZE,
+      chunkOverlap: PAGE_CHUNK_OVERLAP,
+      supabaseClient: this.supabase,
+      sync
+    })
+
+    await this.supabase
+      .from('website_pages')
+      .update({ chunk_count: chunkCount })
+      .eq('id', row.id)
+
+    return chunkCount
+  }
+
+  /**
+   * Record a page the crawl couldn't load. Its chunks are dropped with the
+   * rest of the crawl's stale chunks.
+   */
+  async savePageError(page: CrawlResult): Promise<void> {
+    const { error } = await this.supabase
+      .from('website_pages')
+      .upsert({
+        source_id: this.sourceId,
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        url: page.url,
+        status: 'error',
+        status_code: page.statusCode ?? null,
+        content_hash: null,
+        content_length: 0,
+        chunk_count: 0,
+        error_message: page.error || 'No content',
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'source_id,url' })
+
+    if (error) {
+      console.error(`[WebsitePageStore] Failed to record error for ${page.url}:`, error)
+    }
+  }
+
+  /**
+   * Replace one page's content and chunks after a re-fetch; the rest of the source is untouched
+   */
+  async replacePage(page: CrawlResult): Promise<number> {
+    const sync = await ChunkManager.beginChunkSync(this.sourceId, this.supabase, page.url)
+    const chunkCount = await this.savePage(page, sync)
+    await ChunkManager.finishChunkSync(sync, this.supabase)
+    await this.refreshSourceTotals()
+
+    return chunkCount
+  }
+
+  /**
+   * Drop a page's chunks and keep it listed as excluded, so later crawls skip it
+   * Works for links that were discovered but never crawled too.
+   */
+  async excludePage(url: string): Promise<void> {
+    await this.removeChunks(url)
+
+    const { error } = await this.supabase
+      .from('website_pages')
+      .upsert({
+        source_id: this.sourceId,
+        agent_id: this.agentId,
+        project_id: this.projectId,
+        url,
+        status: 'excluded',
+        chunk_count: 0,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'source_id,url' })
+
+    if (error) {
+      throw new Error(`Failed to exclude page: ${error.message}`)
+    }
+
+    await this.refreshSourceTotals()
+  }
+
+  /**
+   * Delete a page and its chunks. The next crawl adds it back if it still links there.
+   */
+  async deletePage(page: WebsitePage): Promise<void> {
+    await this.removeChunks(page.url)
+
+    const { error } = await this.supabase
+      .from('website_pages')
+      .delete()
+      .eq('id', page.id)
+
+    if (error) {
+      throw new Error(`Failed to delete page: ${error.message}`)
+    }
+
+    await this.refreshSourceTotals()
+  }
+
+  async excludedUrls(): Promise<string[]> {
+    const { data } = await this.supabase
+      .from('website_pages')
+      .select('url')
+      .eq('source_id', this.sourceId)
+      .eq('status', 'excluded')
+
+    return (data || []).map((page: { url: string }) => page.url)
+  }
+
+  /**
+   * Delete the pages a crawl no longer reached; excluded pages stay listed
+   */
+  async removeMissing(crawledUrls: string[]): Promise<number> {
+    const crawled = new Set(crawledUrls)
+    const { data: pages } = await this.supabase
+      .from('website_pages')
+      .select('id, url, status')
+      .eq('source_id', this.sourceId)
+
+    const staleIds = (pages || [])
+      .filter((page: Pick<WebsitePage, 'url' | 'status'>) => page.status !== 'excluded' && !crawled.has(page.url))
+      .map((page: Pick<WebsitePage, 'id'>) => page.id)
+
+    const BATCH_SIZE = 100
+    for (let i = 0; i < staleIds.length; i += BATCH_SIZE) {
+      await this.supabase
+        .from('website_pages')
+        .delete()
+        .in('id', staleIds.slice(i, i + BATCH_SIZE))
+    }
+
+    return staleIds.length
+  }
+
+  /**
+   * Recompute the source's size, chunk count and page list from its pages
+   */
+  async refreshSourceTotals(): Promise<void> {
+    const [{ data: pages }, { data: source }] = await Promise.all([
+      this.supabase
+        .from('website_pages')
+        .select('url, status, content_length, chunk_count')
+        .eq('source_id', this.sourceId)
+        .eq('status', 'crawled'),
+      this.supabase
+        .from('sources')
+        .select('metadata')
+        .eq('id', this.sourceId)
+        .single()
+    ])
+
+    const crawledPages: Array<Pick<WebsitePage, 'url' | 'content_length' | 'chunk_count'>> = pages || []
+    const totalChunks = crawledPages.reduce((sum, page) => sum + page.chunk_count, 0)
+    const totalLength = crawledPages.reduce((sum, page) => sum + page.content_length, 0)
+    const metadata = (source?.metadata || {}) as Record<string, any>
+
+    // Scheduled re-crawls only revisit pages that still have content
+    const crawledUrls = new Set(crawledPages.map(page => page.url))
+    const validators = Object.fromEntries(
+      Object.entries(metadata.page_validators || {}).filter(([url]) => crawledUrls.has(url))
+    )
+
+    await this.supabase
+      .from('sources')
+      .update({
+        chunk_count: totalChunks,
+        size_kb: Math.ceil(totalLength / 1024),
+        metadata: {
+          ...metadata,
+          page_validators: validators,
+          crawled_pages: crawledPages.map(page => page.url),
+          pages_crawled: crawledPages.length,
+          total_chunks: totalChunks
+        },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', this.sourceId)
+  }
+
+  // Through a page-scoped sync, so removed chunks are reported to the next training run
+  private async removeChunks(pageUrl: string): Promise<void> {
+    const sync = await ChunkManager.beginChunkSync(this.sourceId, this.supabase, pageUrl)
+    await ChunkManager.finishChunkSync(sync, this.supabase)
+  }
+}
@@ -1,5 +1,5 @@
-import { OpenAI } from 'openai'
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+import { EmbeddingService } from '@/lib/services/embedding-service'
 
 export interface ChunkData {
   content: string
@@ -16,20 +16,21 @@ export interface ChunkData {
 
 export class TextChunker {
   private splitter: RecursiveCharacterTextSplitter
-  private openai: OpenAI | null = null
+  private embeddingService: EmbeddingService | null
 
-  constructor(chunkSize: number = 512, chunkOverlap: number = 50) {
+  constructor(
+    chunkSize: number = 512,
+    chunkOverlap: number = 50,
+    embeddingService?: EmbeddingService | null
+  ) {
     this.splitter = new RecursiveCharacterTextSplitter({
       chunkSize,
       chunkOverlap,
       separators: ['\n\n', '\n', '.', '!', '?', ';', ',', ' ', '']
     })
 
-    // Initialize OpenAI if API key is available
-    const apiKey = process.env.OPENAI_API_KEY
-    if (apiKey && apiKey !== 'your_openai_api_key_here') {
-      this.openai = new OpenAI({ apiKey })
-    }
+    // Pass null to skip embeddings, omit to use the platform default model
+    this.embeddingService = embeddingService === undefined ? new EmbeddingService() : embeddingService
   }
 
   async chunkText(
@@ -58,8 +59,8 @@ export class TextChunker {
   }
 
   async generateEmbeddings(chunks: ChunkData[]): Promise<ChunkData[]> {
-    if (!this.openai) {
-      console.warn('OpenAI not configured, skipping embeddings')
+    if (!this.embeddingService) {
+      console.warn('No embedding service configured, skipping embeddings')
       return chunks
     }
 
@@ -70,15 +71,15 @@ export class TextChunker {
       const batch = chunks.slice(i, i + batchSize)
 
       try {
-        const response = await this.openai.embeddings.create({
-          model: 'text-embedding-3-small',
-          input: batch.map(chunk => chunk.content)
-        })
+        const response = await this.embeddingService.embedTexts(batch.map(chunk => chunk.content))
+        if (!response) {
+          throw new Error(`Embedding failed with ${this.embeddingService.model}`)
+        }
 
         batch.forEach((chunk, index) => {
           results.push({
             ...chunk,
-            embedding: response.data[index].embedding
+            embedding: response.embeddings[index]
           })
         })
 
@@ -121,7 +122,7 @@ export class TextChunker {
     }
 
     // Generate embeddings for all chunks
-    if (this.openai) {
+    if (this.embeddingService) {
       return this.generateEmbeddings(allChunks)
     }
 
@@ -138,8 +139,9 @@ export async function chunkWebsiteContent(
     url: string
     title: string
     content: string
-  }>
+  }>,
+  embeddingService?: EmbeddingService | null
 ): Promise<ChunkData[]> {
-  const chunker = new TextChunker()
+  const chunker = new TextChunker(512, 50, embeddingService)
   return chunker.processWebsiteContent(pages)
 }
\ No newline at end of file
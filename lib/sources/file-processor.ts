@@ -112,7 +112,7 @@ export class FileProcessor {
       const info = metadataResult?.info ?? {}
 
       const pageSections = pageTexts.map((text, index) => {
-        const header = `--- Page ${index + 1} ---`
+        const header = FileProcessor.pageHeader(index + 1)
         if (!text) return header
         return `${header}\n\n${text}`
       })
@@ -179,6 +179,43 @@ export class FileProcessor {
     }
   }
 
+  // PDF text is stored with a header line before each page's text
+  static pageHeader(pageNumber: number): string {
+    return `--- Page ${pageNumber} ---`
+  }
+
+  /**
+   * Offsets of the page headers in extracted PDF text, in page order
+   * Empty for content without page headers
+   */
+  static pageOffsets(content: string): Array<{ page: number; offset: number }> {
+    const offsets: Array<{ page: number; offset: number }> = []
+    for (const match of content.matchAll(/^--- Page (\d+) ---$/gm)) {
+      offsets.push({ page: Number(match[1]), offset: match.index ?? 0 })
+    }
+    return offsets
+  }
+
+  /**
+   * Pages a span of extracted PDF text covers
+   * A span starting before the first header is counted from the first page.
+   */
+  static pageRange(
+    offsets: Array<{ page: number; offset: number }>,
+    start: number,
+    end: number
+  ): { start: number; end: number } | null {
+    if (offsets.length === 0) return null
+
+    let startPage = offsets[0].page
+    let endPage = offsets[0].page
+    for (const { page, offset } of offsets) {
+      if (offset <= start) startPage = page
+      if (offset < end) endPage = page
+    }
+    return { start: startPage, end: endPage }
+  }
+
   private static async processText(file: File): Promise<ProcessedFile> {
     try {
       const text = await file.text()
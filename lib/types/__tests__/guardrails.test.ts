@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  DEFAULT_GUARDRAIL_POLICY,
+  effectiveGuardrailPolicy,
+  guardrailPatternProblem,
+  MAX_GUARDRAIL_PATTERN_LENGTH
+} from '../guardrails'
+
+describe('guardrailPatternProblem', () => {
+  it.each([
+    'ORD-\\d{6}',
+    '\\b(?:secret|internal)\\b',
+    '(?:ab){2,5}',
+    '(cat|dog) food',
+    '(\\d{1,3}\\.){3}\\d{1,3}',
+    '(?:\\d+-){3}',
+    '.*secret.*',
+    '[a-z]+@[a-z]+',
+    '[)+]+',
+    '[\\]]+x',
+    '(?<year>\\d{4})-\\d{2}'
+  ])('accepts %s', (pattern) => {
+    expect(guardrailPatternProblem(pattern)).toBeNull()
+  })
+
+  it.each([
+    '(a+)+$',
+    '(a*)*',
+    '(?:ab+){2,}',
+    '(a{1,99}){1,99}$',
+    '(a+){20}',
+    '(x+y?)+',
+    '[^](a+)+$',
+    '(\\d+)*x'
+  ])('refuses the nested repetition in %s', (pattern) => {
+    expect(guardrailPatternProblem(pattern)).toBe('Nested repetition such as (a+)+ is not allowed')
+  })
+
+  it.each([
+    '(a|b)*c',
+    '(\\w|\\d)*x',
+    '(a|aa)*$',
+    '((a|b)+)*',
+    '(?:x(a|aa)){2,}'
+  ])('refuses the repeated alternatives in %s', (pattern) => {
+    expect(guardrailPatternProblem(pattern)).toMatch(/^Alternatives inside a repeat/)
+  })
+
+  it('refuses chains of repeated wildcards', () => {
+    expect(guardrailPatternProblem('.*.*.*.*.*.*x')).toBe('At most 2 repeated wildcards such as .* are allowed')
+    expect(guardrailPatternProblem('\\S+\\W+[^x]+')).toBe('At most 2 repeated wildcards such as .* are allowed')
+  })
+
+  it('refuses backreferences', () => {
+    expect(guardrailPatternProblem('(a)\\1')).toBe('Backreferences are not allowed')
+    expect(guardrailPatternProblem('(?<x>a)\\k<x>')).toBe('Backreferences are not allowed')
+  })
+
+  it('refuses invalid and overlong patterns', () => {
+    expect(guardrailPatternProblem('(unclosed')).toBe('Invalid regular expression')
+    expect(guardrailPatternProblem('a'.repeat(MAX_GUARDRAIL_PATTERN_LENGTH + 1))).toMatch(/at most/)
+  })
+})
+
+describe('effectiveGuardrailPolicy', () => {
+  const platform = {
+    ...DEFAULT_GUARDRAIL_POLICY,
+    blockedTopics: { input: true, output: true, action: 'block', topics: ['Competitors'] },
+    pii: { input: false, output: true, action: 'redact', types: ['card'] }
+  }
+
+  it('uses the platform policy when the agent does not override it', () => {
+    expect(effectiveGuardrailPolicy(platform, { guardrails: { override: false, enabled: false } })).toEqual(platform)
+    expect(effectiveGuardrailPolicy(null, {})).toEqual(DEFAULT_GUARDRAIL_POLICY)
+  })
+
+  it('does not let an agent turn the platform policy off', () => {
+    const policy = effectiveGuardrailPolicy(platform, { guardrails: { override: true, enabled: false } })
+
+    expect(policy.enabled).toBe(true)
+    expect(policy.blockedTopics.topics).toEqual(['Competitors'])
+  })
+
+  it('adds the agent checks to the platform ones with the stronger action', () => {
+    const policy = effectiveGuardrailPolicy(platform, {
+      guardrails: {
+        override: true,
+        blockedTopics: { input: false, output: true, action: 'handoff', topics: ['competitors', 'Pricing'] },
+        pii: { input: true, output: false, action: 'redact', types: ['email'] }
+      }
+    })
+
+    expect(policy.blockedTopics).toEqual({
+      input: true,
+      output: true,
+      action: 'handoff',
+      topics: ['Competitors', 'Pricing']
+    })
+    expect(policy.pii).toEqual({ input: true, output: true, action: 'redact', types: ['card', 'email'] })
+  })
+
+  it('keeps the agent settings for detectors the platform leaves unconfigured', () => {
+    const policy = effectiveGuardrailPolicy(platform, {
+      guardrails: {
+        override: true,
+        patterns: { input: true, output: false, action: 'block', rules: [{ name: 'Order', pattern: 'ORD-\\d+' }] }
+      }
+    })
+
+    expect(policy.patterns).toEqual({
+      input: true,
+      output: false,
+      action: 'block',
+      rules: [{ name: 'Order', pattern: 'ORD-\\d+' }]
+    })
+  })
+
+  it('lets an agent turn guardrails on when the platform policy is off', () => {
+    const policy = effectiveGuardrailPolicy({ ...platform, enabled: false }, {
+      guardrails: { override: true, pii: { input: true, output: true, action: 'block', types: ['phone'] } }
+    })
+
+    expect(policy.enabled).toBe(true)
+    expect(policy.pii.types).toEqual(['phone'])
+    expect(policy.blockedTopics.topics).toEqual([])
+  })
+})
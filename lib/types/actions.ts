@@ -0,0 +1,119 @@
+/**
+ * Agent action (tool) type definitions
+ * Actions are stored in agent_actions and exposed to the model as functions
+ */
+
+import type { ChatChannel } from './leads'
+
+export type ActionType = 'lead_capture' | 'http_request'
+
+export type BuiltInActionType = 'lead_form_display' | 'lead_form_capture'
+
+export interface AgentAction {
+  id: string
+  agent_id: string
+  project_id: string
+  type: ActionType
+  // Function name shown to the model: letters, digits, underscores and dashes
+  name: string
+  // Tells the model when to call the action
+  description: string
+  // JSON schema of the arguments the model must supply
+  parameters: Record<string, any>
+  // Type-specific settings (e.g. URL and method for http_request)
+  config: Record<string, any>
+  enabled: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// Generated from agents.config.leadForm for each chat, never stored in agent_actions
+export interface BuiltInAction extends Omit<AgentAction, 'type'> {
+  type: BuiltInActionType
+}
+
+// Anything the executor can offer the model as a tool
+export type ExecutableAction = AgentAction | BuiltInAction
+
+/**
+ * config for http_request actions
+ * url, headers and bodyTemplate may reference arguments as {{name}} (dot paths
+ * allowed) and agent secrets as {{secrets.NAME}}
+ */
+export interface HttpRequestConfig {
+  method: typeof HTTP_ACTION_METHODS[number]
+  url: string
+  headers?: Record<string, string>
+  // JSON document; a string that is exactly "{{name}}" keeps the argument's type.
+  // Without a template the arguments are sent as the body (or query for GET/DELETE)
+  bodyTemplate?: string
+  timeoutMs?: number
+  // Output key -> JSONPath-style selector ($.data.items[0].status, $.items[*].name)
+  responseMapping?: Record<string, string>
+}
+
+export interface ActionContext {
+  agentId: string
+  projectId: string
+  conversationId?: string
+  sessionId?: string
+  channel?: ChatChannel
+  // Set by ActionExecutor: the agent's action secrets, decrypted on first use
+  secrets?: () => Promise<Record<string, string>>
+}
+
+export interface ActionResult {
+  // Returned to the model as the tool message content
+  output: string
+  // Stored with the tool call for the dashboard
+  data?: any
+  // Set when the action ran but failed; output still goes to the model
+  error?: string
+}
+
+/**
+ * A tool call made during a chat turn, persisted in messages.metadata.toolCalls
+ * (a type alias so it can be stored as Json)
+ */
+export type ToolCallRecord = {
+  id: string
+  actionId?: string
+  name: string
+  arguments: Record<string, any>
+  output: string
+  data?: any
+  error?: string
+  durationMs: number
+}
+
+export const ACTION_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/
+
+export const HTTP_ACTION_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const
+
+export const HTTP_ACTION_DEFAULT_TIMEOUT_MS = 10000
+export const HTTP_ACTION_MAX_TIMEOUT_MS = 30000
+
+export const SECRET_NAME_PATTERN = /^[A-Z][A-Z0-9_]{0,63}$/
+
+/**
+ * A request as sent by an http_request action, with secret values masked
+ */
+export type HttpActionTrace = {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: string
+  status?: number
+  responseBody?: string
+}
+
+export const DEFAULT_LEAD_CAPTURE_PARAMETERS = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Full name of the person' },
+    email: { type: 'string', description: 'Email address' },
+    phone: { type: 'string', description: 'Phone number' },
+    notes: { type: 'string', description: 'What the person is interested in' }
+  },
+  required: ['name']
+}
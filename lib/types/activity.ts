@@ -0,0 +1,28 @@
+/**
+ * Agent activity feed type definitions
+ * Rows live in agent_activities and are written by background jobs
+ */
+
+// crawl_completed: a scheduled re-crawl finished; metadata holds its CrawlChangeReport
+// crawl_failed: a scheduled re-crawl failed; the source keeps its previous content
+export type AgentActivityType = 'crawl_completed' | 'crawl_failed'
+
+export interface AgentActivity {
+  id: string
+  agent_id: string
+  project_id: string
+  source_id: string | null
+  type: AgentActivityType
+  description: string
+  metadata: Record<string, any>
+  created_at: string
+}
+
+export interface RecordActivityInput {
+  agentId: string
+  projectId: string
+  sourceId?: string | null
+  type: AgentActivityType
+  description: string
+  metadata?: Record<string, any>
+}
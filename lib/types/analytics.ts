@@ -0,0 +1,56 @@
+/**
+ * Conversation analytics type definitions
+ * Written by the conversation-analysis queue, read by the analytics pages
+ */
+
+export type Sentiment = 'positive' | 'neutral' | 'negative'
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative']
+
+export interface ConversationAnalysisJob {
+  agentId: string
+  projectId: string
+}
+
+export interface AnalysisRunStats {
+  conversations: number
+  questions: number
+  newTopics: number
+  failed: number
+}
+
+export interface DailySentiment {
+  day: string
+  positive: number
+  neutral: number
+  negative: number
+  avg_score: number | null
+}
+
+export interface TopicSummary {
+  id: string
+  label: string
+  sample_questions: string[]
+  question_count: number
+  conversation_count: number
+}
+
+export interface TopicQuestion {
+  message_id: string
+  conversation_id: string
+  question: string
+  asked_at: string
+}
+
+/**
+ * Parse the from/to query parameters (YYYY-MM-DD, inclusive)
+ * Defaults to the last 30 days
+ */
+export function resolveDateRange(searchParams: URLSearchParams): { from: string; to: string } {
+  const isDay = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+  const to = isDay(searchParams.get('to')) ? searchParams.get('to')! : new Date().toISOString().slice(0, 10)
+  const defaultFrom = new Date(`${to}T00:00:00Z`)
+  defaultFrom.setUTCDate(defaultFrom.getUTCDate() - 29)
+  const from = isDay(searchParams.get('from')) ? searchParams.get('from')! : defaultFrom.toISOString().slice(0, 10)
+  return { from, to }
+}
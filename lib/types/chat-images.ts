@@ -0,0 +1,13 @@
+/**
+ * Limits for images visitors send in chat
+ * Shared by the upload endpoint, the messaging webhooks and the chat inputs
+ */
+
+export const CHAT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+export const MAX_CHAT_IMAGES = 4
+
+export const MAX_CHAT_IMAGE_BYTES = 10 * 1024 * 1024
+
+// Sent and stored as the message text when a visitor sends only pictures
+export const IMAGE_ONLY_MESSAGE = '[Image]'
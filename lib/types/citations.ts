@@ -0,0 +1,19 @@
+/**
+ * Citation type definitions
+ * Returned with chat replies so visitors can check where an answer came from
+ */
+
+export interface Citation {
+  // The [n] marker used in the reply text
+  index: number
+  sourceId: string | null
+  sourceName: string
+  sourceType: string
+  // Page the text was crawled from, for website sources
+  url: string | null
+  // website_pages row of that page
+  pageId: string | null
+  // First page the text appears on, for PDFs
+  page: number | null
+  snippet: string
+}
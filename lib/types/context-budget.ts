@@ -0,0 +1,22 @@
+/**
+ * Prompt token accounting, stored on messages.metadata.tokenBudget
+ */
+export interface TokenBreakdown {
+  // Model the tokens were counted for
+  model: string
+  contextWindow: number
+  // Kept free for the model's reply
+  reservedForReply: number
+  // Hidden prompt, agent instructions and other fixed system text
+  instructions: number
+  // Retrieved knowledge, links and their instructions
+  knowledge: number
+  history: number
+  message: number
+  // Everything sent to the model, message framing included
+  total: number
+  // Retrieved chunks left out to fit, lowest similarity first
+  droppedChunks: number
+  // Oldest history messages left out to fit
+  droppedMessages: number
+}
@@ -3,15 +3,157 @@
  * All crawler-related interfaces in one place
  */
 
+import type { ChunkSyncSession } from '@/lib/services/chunk-manager'
+
 export interface CrawlResult {
   url: string
   title: string
   content: string
   links: string[]
   images: string[]
+  // <lastmod> from the sitemap, when the page was listed in one
+  lastmod?: string
+  // Validators for conditional requests on the next crawl
+  etag?: string
+  lastModified?: string
+  // 304 to a conditional request: the page is unchanged and content/links are empty
+  notModified?: boolean
+  // Links followed from the start URL to reach the page
+  depth?: number
+  // HTTP status of the page request, when one was answered
+  statusCode?: number
   error?: string
 }
 
+// crawled: content is chunked; error: the last fetch failed;
+// excluded: removed by the user and skipped by later crawls
+export type WebsitePageStatus = 'crawled' | 'error' | 'excluded'
+
+// A page of a website source, one row in website_pages
+export interface WebsitePage {
+  id: string
+  source_id: string
+  agent_id: string
+  project_id: string
+  url: string
+  title: string | null
+  status: WebsitePageStatus
+  status_code: number | null
+  content_hash: string | null
+  content_length: number
+  chunk_count: number
+  error_message: string | null
+  crawled_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// What the previous crawl saw of a page, stored per URL as page_validators in source metadata
+export type PageValidator = {
+  etag?: string
+  lastModified?: string
+  // Content hash, to tell modified pages from ones a server re-sent unchanged
+  hash: string
+  // Content length in characters, counted for unchanged pages
+  size: number
+  depth: number
+}
+
+export type RecrawlFrequency = 'off' | 'daily' | 'weekly' | 'cron'
+
+// Stored as recrawl_schedule in source metadata; cron is only used with frequency 'cron'
+export type RecrawlSchedule = {
+  frequency: RecrawlFrequency
+  cron: string | null
+}
+
+export const DEFAULT_RECRAWL_SCHEDULE: RecrawlSchedule = { frequency: 'off', cron: null }
+
+export function resolveRecrawlSchedule(stored: any): RecrawlSchedule {
+  const frequency = ['daily', 'weekly', 'cron'].includes(stored?.frequency) ? stored.frequency : 'off'
+  const cron = typeof stored?.cron === 'string' && stored.cron.trim() ? stored.cron.trim() : null
+  return frequency === 'cron' && !cron ? DEFAULT_RECRAWL_SCHEDULE : { frequency, cron }
+}
+
+// Pages a scheduled re-crawl found added, removed or modified since the previous crawl
+export type CrawlChangeReport = {
+  added: string[]
+  removed: string[]
+  modified: string[]
+  unchanged: number
+}
+
+// links: breadth-first from the start URL
+// sitemap: pages listed in the site's sitemaps first, then links if pages remain
+export type CrawlMode = 'links' | 'sitemap'
+
+// keep: every query string is a different page
+// strip-tracking: drop utm_* and click IDs, keep the rest
+// strip: drop query strings except the parameters in keepParams
+export type QueryParamMode = 'keep' | 'strip-tracking' | 'strip'
+
+/**
+ * Per-source limits on which links a crawl follows, stored as crawl_rules in
+ * source metadata (a type alias so it fits Json columns). Patterns are globs
+ * matched against the path (* matches anything), or regular expressions when
+ * written as regex:<pattern>.
+ */
+export type CrawlRules = {
+  // When set, only URLs matching one of these are crawled
+  include: string[]
+  // URLs matching any of these are never crawled; wins over include
+  exclude: string[]
+  // Only crawl under this path. null means the start URL's path, '/' the whole site
+  pathPrefix: string | null
+  // Links followed away from the start URL; null for no limit
+  maxDepth: number | null
+  queryParams: QueryParamMode
+  // Parameters kept when queryParams is 'strip', e.g. page or lang
+  keepParams: string[]
+  // Also crawl docs.example.com etc. when starting from example.com
+  includeSubdomains: boolean
+}
+
+export const DEFAULT_CRAWL_RULES: CrawlRules = {
+  include: [],
+  exclude: [],
+  pathPrefix: null,
+  maxDepth: null,
+  queryParams: 'strip-tracking',
+  keepParams: [],
+  includeSubdomains: false
+}
+
+/**
+ * Crawl rules stored in source metadata (crawl_rules), filled in with defaults
+ */
+export function resolveCrawlRules(stored: any): CrawlRules {
+  const rules = stored && typeof stored === 'object' ? stored : {}
+  const list = (value: any) => Array.isArray(value) ? value.filter((item: any) => typeof item === 'string' && item.trim()) : []
+
+  return {
+    include: list(rules.include),
+    exclude: list(rules.exclude),
+    pathPrefix: typeof rules.pathPrefix === 'string' && rules.pathPrefix.trim() ? rules.pathPrefix.trim() : null,
+    maxDepth: Number.isInteger(rules.maxDepth) && rules.maxDepth >= 0 ? rules.maxDepth : null,
+    queryParams: ['keep', 'strip-tracking', 'strip'].includes(rules.queryParams) ? rules.queryParams : DEFAULT_CRAWL_RULES.queryParams,
+    keepParams: list(rules.keepParams),
+    includeSubdomains: rules.includeSubdomains === true
+  }
+}
+
+/**
+ * Split a comma or newline separated list typed into a form
+ * A regex: pattern takes the rest of its line, since regular expressions may contain commas.
+ */
+export function parsePatternList(value: string): string[] {
+  return value
+    .split('\n')
+    .flatMap(line => line.trim().startsWith('regex:') ? [line] : line.split(','))
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
 export interface CrawlProgress {
   current: number
   total: number
@@ -24,7 +166,17 @@ export interface CrawlProgress {
 export interface CrawlOptions {
   maxPages?: number
   crawlSubpages?: boolean
+  crawlMode?: CrawlMode
+  crawlRules?: CrawlRules
+  // Pages from the previous crawl: fetched conditionally, and re-queued since
+  // an unchanged page returns no links to find them by
+  validators?: Record<string, PageValidator>
+  // Pages the user excluded; never fetched
+  excludedUrls?: string[]
+  // Keep the whole page instead of its main content
   fullPageContent?: boolean
+  // Boilerplate found by earlier crawls, stored as repeated_blocks in source metadata
+  repeatedBlocks?: string[]
   onProgress?: (progress: CrawlProgress) => void | Promise<void>
 }
 
@@ -35,6 +187,22 @@ export interface WebsiteCrawlJob {
   url: string
   crawlSubpages: boolean
   maxPages: number
+  crawlMode?: CrawlMode
+  crawlRules?: CrawlRules
+  fullPageContent?: boolean
+  // Run by a recrawl schedule; settings are re-read from the source
+  scheduled?: boolean
+}
+
+export interface SitemapEntry {
+  url: string
+  lastmod?: string
+}
+
+export interface RobotsRule {
+  allow: boolean
+  // Path pattern; * matches anything, a trailing $ anchors the end
+  path: string
 }
 
 export interface ProgressiveCrawlOptions {
@@ -53,4 +221,14 @@ export interface ChunkOptions {
   chunkSize?: number
   chunkOverlap?: number
   supabaseClient?: any
+  // Reuse unchanged chunks from a previous crawl, see ChunkManager.beginChunkSync
+  sync?: ChunkSyncSession
+}
+
+// A type alias (not an interface) so it can be stored in Json metadata columns
+export type ChunkSyncStats = {
+  // Unchanged chunks whose rows (and embeddings) were kept
+  reused: number
+  added: number
+  removed: number
 }
\ No newline at end of file
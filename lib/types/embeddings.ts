@@ -0,0 +1,46 @@
+/**
+ * Embedding type definitions
+ * Per-project settings are stored in projects.embedding_provider / projects.embedding_model
+ */
+
+export interface EmbeddingSettings {
+  // 'openai', 'google', 'local' or the name of a custom ai_providers row
+  provider: string
+  model: string
+}
+
+export interface EmbeddingModelOption {
+  provider: string
+  model: string
+  label: string
+  dimensions: number
+}
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  provider: 'openai',
+  model: 'text-embedding-3-small'
+}
+
+// Models offered in project settings. Custom providers accept any model name.
+export const EMBEDDING_MODEL_OPTIONS: EmbeddingModelOption[] = [
+  { provider: 'openai', model: 'text-embedding-3-small', label: 'OpenAI text-embedding-3-small', dimensions: 1536 },
+  { provider: 'google', model: 'text-embedding-004', label: 'Google text-embedding-004', dimensions: 768 },
+  { provider: 'local', model: 'local-hash-384', label: 'Local (deterministic, for testing)', dimensions: 384 }
+]
+
+/**
+ * Fill in missing project columns with the platform default
+ */
+export function resolveEmbeddingSettings(project: any): EmbeddingSettings {
+  return {
+    provider: project?.embedding_provider || DEFAULT_EMBEDDING_SETTINGS.provider,
+    model: project?.embedding_model || DEFAULT_EMBEDDING_SETTINGS.model
+  }
+}
+
+export interface ReembeddingJob {
+  agentId: string
+  projectId: string
+  // Model the job was queued for; skipped if the project has switched again since
+  model: string
+}
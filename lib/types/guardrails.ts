@@ -0,0 +1,272 @@
+/**
+ * Guardrail type definitions
+ * The platform policy is stored in system_settings.guardrail_policy; an agent
+ * can add its own checks in agents.config.guardrails
+ */
+
+export type GuardrailStage = 'input' | 'output'
+
+// block: answer with the block message instead
+// redact: mask what matched
+// rewrite: have the model rewrite the reply without it (redacts on input)
+// handoff: answer with the handoff message and flag the conversation for a person
+export type GuardrailAction = 'block' | 'redact' | 'rewrite' | 'handoff'
+
+// Strongest first
+export const GUARDRAIL_ACTION_PRIORITY: GuardrailAction[] = ['handoff', 'block', 'rewrite', 'redact']
+
+export type GuardrailDetector = 'blocked_topic' | 'pattern' | 'pii' | 'moderation'
+
+export type PiiType = 'email' | 'phone' | 'card'
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'card']
+
+export const MODERATION_CATEGORIES = ['hate', 'harassment', 'self-harm', 'sexual', 'violence', 'illegal']
+
+export interface GuardrailCheck {
+  // Run on the visitor's message
+  input: boolean
+  // Run on the model's reply
+  output: boolean
+  action: GuardrailAction
+}
+
+export interface GuardrailPattern {
+  name: string
+  // Regular expression, matched case-insensitively
+  pattern: string
+}
+
+export const MAX_GUARDRAIL_PATTERN_LENGTH = 200
+
+// Bounded repeats above this backtrack as badly as unbounded ones
+const MAX_BOUNDED_REPEAT = 10
+// Repeated wildcards such as .* allowed in one pattern
+const MAX_REPEATED_WILDCARDS = 2
+
+/**
+ * Why a custom pattern can't be used, or null when it can
+ * Patterns run on every message in the shared server process, so ones that
+ * can backtrack catastrophically are refused: a repeated group that itself
+ * repeats, such as (a+)+, alternatives under a repeat, such as (a|aa)*,
+ * chains of repeated wildcards such as .*.*.*, and backreferences. Matching
+ * is also time-limited, since this can't catch everything.
+ */
+export function guardrailPatternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_GUARDRAIL_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_GUARDRAIL_PATTERN_LENGTH} characters`
+  }
+  try {
+    new RegExp(pattern, 'gi')
+  } catch {
+    return 'Invalid regular expression'
+  }
+
+  // One frame per open group, recording whether anything in it repeats many
+  // times and whether it has alternatives
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }]
+  // The quantifier starting at i, if any; *, +, {n,} and bounds above
+  // MAX_BOUNDED_REPEAT count as repeating many times
+  const quantifierAt = (i: number): { length: number; many: boolean } => {
+    const char = pattern[i]
+    if (char === '*' || char === '+') return { length: 1, many: true }
+    if (char === '?') return { length: 1, many: false }
+    const braces = pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/)
+    if (braces) {
+      const max = braces[2] ? braces[3] : braces[1]
+      return { length: braces[0].length, many: max === '' || Number(max) > MAX_BOUNDED_REPEAT }
+    }
+    return { length: 0, many: false }
+  }
+  let repeatedWildcards = 0
+
+  let i = 0
+  while (i < pattern.length) {
+    const char = pattern[i]
+    let group: { repeats: boolean; alternates: boolean } | null = null
+    // Matches nearly any character: ., \S, \W, \D or a negated class
+    let wildcard = false
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        return 'Backreferences are not allowed'
+      }
+      wildcard = /[SWD]/.test(pattern[i + 1] || '')
+      i += 2
+    } else if (char === '[') {
+      // Skip the character class; in JavaScript [] and [^] are complete classes
+      wildcard = pattern[i + 1] === '^'
+      i += pattern[i + 1] === '^' ? 2 : 1
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1
+      }
+      i++
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false })
+      i++
+      // Group prefixes such as ?:, ?=, ?<name> aren't quantifiers
+      const prefix = pattern.slice(i).match(/^\?(<[=!]|<[A-Za-z_]\w*>|[:=!])/)
+      if (prefix) i += prefix[0].length
+      continue
+    } else if (char === ')') {
+      group = groups.pop() || null
+      // Alternatives nested in a group still repeat with it
+      if (group?.alternates) groups[groups.length - 1].alternates = true
+      i++
+    } else {
+      if (char === '|') groups[groups.length - 1].alternates = true
+      wildcard = char === '.'
+      i++
+    }
+
+    const quantifier = quantifierAt(i)
+    const groupRepeats = group?.repeats || false
+    if (quantifier.length === 0) {
+      if (groupRepeats) groups[groups.length - 1].repeats = true
+      continue
+    }
+    if (quantifier.many && groupRepeats) {
+      return 'Nested repetition such as (a+)+ is not allowed'
+    }
+    if (quantifier.many && group?.alternates) {
+      return 'Alternatives inside a repeat such as (a|aa)* are not allowed; use a character class such as [ab]* instead'
+    }
+    if (quantifier.many && wildcard && ++repeatedWildcards > MAX_REPEATED_WILDCARDS) {
+      return `At most ${MAX_REPEATED_WILDCARDS} repeated wildcards such as .* are allowed`
+    }
+    if (quantifier.many || groupRepeats) groups[groups.length - 1].repeats = true
+    i += quantifier.length
+    // Lazy quantifiers
+    if (pattern[i] === '?') i++
+  }
+
+  return null
+}
+
+export interface GuardrailPolicy {
+  enabled: boolean
+  // Words or phrases the assistant must not discuss
+  blockedTopics: GuardrailCheck & { topics: string[] }
+  patterns: GuardrailCheck & { rules: GuardrailPattern[] }
+  pii: GuardrailCheck & { types: PiiType[] }
+  // A model call that flags harmful content
+  moderation: GuardrailCheck & { model?: string; categories: string[] }
+  blockMessage: string
+  handoffMessage: string
+}
+
+export interface AgentGuardrailSettings extends GuardrailPolicy {
+  // Use these settings instead of the platform policy
+  override: boolean
+}
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  enabled: true,
+  blockedTopics: { input: true, output: true, action: 'block', topics: [] },
+  patterns: { input: false, output: true, action: 'redact', rules: [] },
+  pii: { input: false, output: false, action: 'redact', types: PII_TYPES },
+  moderation: { input: false, output: false, action: 'block', categories: MODERATION_CATEGORIES },
+  blockMessage: "I'm sorry, but I can't help with that. Is there anything else I can do for you?",
+  handoffMessage: "I've passed your message on to our team, and someone will get back to you here shortly."
+}
+
+/**
+ * Merge a stored policy over the defaults, one detector at a time
+ */
+export function resolveGuardrailPolicy(stored: any): GuardrailPolicy {
+  const policy = stored && typeof stored === 'object' ? stored : {}
+  return {
+    ...DEFAULT_GUARDRAIL_POLICY,
+    ...policy,
+    blockedTopics: { ...DEFAULT_GUARDRAIL_POLICY.blockedTopics, ...(policy.blockedTopics || {}) },
+    patterns: { ...DEFAULT_GUARDRAIL_POLICY.patterns, ...(policy.patterns || {}) },
+    pii: { ...DEFAULT_GUARDRAIL_POLICY.pii, ...(policy.pii || {}) },
+    moderation: { ...DEFAULT_GUARDRAIL_POLICY.moderation, ...(policy.moderation || {}) }
+  }
+}
+
+/**
+ * The agent's guardrail settings, starting from the defaults when it has none
+ */
+export function resolveAgentGuardrailSettings(config: any): AgentGuardrailSettings {
+  const stored = config && typeof config === 'object' ? config.guardrails : null
+  return { ...resolveGuardrailPolicy(stored), override: !!stored?.override }
+}
+
+function strongerAction(a: GuardrailAction, b: GuardrailAction): GuardrailAction {
+  return GUARDRAIL_ACTION_PRIORITY.indexOf(a) <= GUARDRAIL_ACTION_PRIORITY.indexOf(b) ? a : b
+}
+
+// Where a detector runs and its action when both policies configure it.
+// A detector only counts as configured when it has something to check.
+function combineChecks(platform: GuardrailCheck, platformItems: unknown[], agent: GuardrailCheck, agentItems: unknown[]): GuardrailCheck {
+  const platformApplies = platformItems.length > 0 && (platform.input || platform.output)
+  const agentApplies = agentItems.length > 0 && (agent.input || agent.output)
+  if (!platformApplies) return { input: agent.input, output: agent.output, action: agent.action }
+  if (!agentApplies) return { input: platform.input, output: platform.output, action: platform.action }
+  return {
+    input: platform.input || agent.input,
+    output: platform.output || agent.output,
+    action: strongerAction(platform.action, agent.action)
+  }
+}
+
+function union<T>(a: T[], b: T[], key: (item: T) => string = String): T[] {
+  const seen = new Set(a.map(key))
+  return [...a, ...b.filter(item => !seen.has(key(item)))]
+}
+
+/**
+ * The policy an agent runs with
+ * An agent's own settings add to the platform policy rather than replacing
+ * it: when the platform policy is on, its checks stay in force (with the
+ * stronger action where both configure a detector) and the agent can't turn
+ * guardrails off.
+ */
+export function effectiveGuardrailPolicy(platformPolicy: any, agentConfig: any): GuardrailPolicy {
+  const platform = resolveGuardrailPolicy(platformPolicy)
+  const agentSettings = resolveAgentGuardrailSettings(agentConfig)
+  if (!agentSettings.override) return platform
+
+  const { override, ...agent } = agentSettings
+  if (!platform.enabled) return agent
+  if (!agent.enabled) return platform
+
+  return {
+    ...agent,
+    blockedTopics: {
+      ...combineChecks(platform.blockedTopics, platform.blockedTopics.topics, agent.blockedTopics, agent.blockedTopics.topics),
+      topics: union(platform.blockedTopics.topics, agent.blockedTopics.topics, topic => topic.toLowerCase())
+    },
+    patterns: {
+      ...combineChecks(platform.patterns, platform.patterns.rules, agent.patterns, agent.patterns.rules),
+      rules: union(platform.patterns.rules, agent.patterns.rules, rule => rule.pattern)
+    },
+    pii: {
+      ...combineChecks(platform.pii, platform.pii.types, agent.pii, agent.pii.types),
+      types: union(platform.pii.types, agent.pii.types)
+    },
+    moderation: {
+      ...combineChecks(platform.moderation, platform.moderation.categories, agent.moderation, agent.moderation.categories),
+      model: agent.moderation.model || platform.moderation.model,
+      categories: union(platform.moderation.categories, agent.moderation.categories)
+    }
+  }
+}
+
+export interface GuardrailTrigger {
+  stage: GuardrailStage
+  detector: GuardrailDetector
+  action: GuardrailAction
+  // Topic, pattern name, PII type or moderation category
+  label: string
+  matches: number
+}
+
+export interface GuardrailVerdict {
+  // The text to carry on with: unchanged, redacted, rewritten, or the block/handoff message
+  text: string
+  // Strongest action taken; null when nothing triggered
+  action: GuardrailAction | null
+  triggers: GuardrailTrigger[]
+}
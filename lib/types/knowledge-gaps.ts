@@ -0,0 +1,63 @@
+/**
+ * Knowledge gap type definitions
+ * Per-agent detection settings are stored in agents.config.knowledgeGaps
+ */
+
+// no_context: nothing retrieved above the agent's similarity threshold
+// low_similarity: the best match was under similarityFloor
+// refusal: the answer said the information isn't available
+export type KnowledgeGapReason = 'no_context' | 'low_similarity' | 'refusal'
+
+export type KnowledgeGapStatus = 'open' | 'resolved' | 'dismissed'
+
+export const KNOWLEDGE_GAP_STATUSES: KnowledgeGapStatus[] = ['open', 'resolved', 'dismissed']
+
+export interface KnowledgeGapSettings {
+  enabled: boolean
+  // Answers whose best chunk is less similar than this are flagged
+  similarityFloor: number
+  // Extra phrases, beyond the built-in ones, that mark an answer as a refusal
+  refusalPhrases: string[]
+}
+
+export const DEFAULT_KNOWLEDGE_GAP_SETTINGS: KnowledgeGapSettings = {
+  enabled: true,
+  similarityFloor: 0.75,
+  refusalPhrases: []
+}
+
+/**
+ * Merge stored agent config over the defaults
+ */
+export function resolveKnowledgeGapSettings(config: any): KnowledgeGapSettings {
+  const stored = config && typeof config === 'object' ? config.knowledgeGaps : null
+  return { ...DEFAULT_KNOWLEDGE_GAP_SETTINGS, ...(stored || {}) }
+}
+
+export interface KnowledgeGap {
+  id: string
+  agent_id: string
+  label: string
+  question_count: number
+  status: KnowledgeGapStatus
+  resolved_source_id: string | null
+  resolved_at: string | null
+  last_asked_at: string | null
+  created_at: string | null
+}
+
+export interface KnowledgeGapQuestion {
+  id: string
+  gap_id: string
+  conversation_id: string | null
+  message_id: string | null
+  question: string
+  answer: string | null
+  reason: KnowledgeGapReason
+  top_similarity: number | null
+  created_at: string | null
+}
+
+export interface KnowledgeGapWithQuestions extends KnowledgeGap {
+  questions: KnowledgeGapQuestion[]
+}
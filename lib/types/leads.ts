@@ -0,0 +1,85 @@
+/**
+ * Lead form and contact type definitions
+ * Per-agent form settings are stored in agents.config.leadForm
+ */
+
+export type LeadFieldType = 'text' | 'email' | 'tel' | 'textarea'
+
+export interface LeadFormField {
+  // Key in the submitted values; name/email/phone also fill the contact's columns
+  key: string
+  label: string
+  type: LeadFieldType
+  required: boolean
+}
+
+// on_start: before the first message; after_messages: once the visitor has sent
+// afterMessages messages; model: when the model decides to ask
+export type LeadFormTrigger = 'on_start' | 'after_messages' | 'model'
+
+export interface LeadFormSettings {
+  enabled: boolean
+  title: string
+  description: string
+  fields: LeadFormField[]
+  trigger: LeadFormTrigger
+  afterMessages: number
+  submitLabel: string
+  successMessage: string
+}
+
+export const DEFAULT_LEAD_FORM_SETTINGS: LeadFormSettings = {
+  enabled: false,
+  title: 'Let us know how to reach you',
+  description: '',
+  fields: [
+    { key: 'name', label: 'Name', type: 'text', required: true },
+    { key: 'email', label: 'Email', type: 'email', required: true },
+    { key: 'phone', label: 'Phone', type: 'tel', required: false }
+  ],
+  trigger: 'after_messages',
+  afterMessages: 3,
+  submitLabel: 'Submit',
+  successMessage: 'Thanks! We\'ll be in touch.'
+}
+
+/**
+ * Merge stored agent config over the defaults
+ */
+export function resolveLeadFormSettings(config: any): LeadFormSettings {
+  const stored = config && typeof config === 'object' ? config.leadForm : null
+  return { ...DEFAULT_LEAD_FORM_SETTINGS, ...(stored || {}) }
+}
+
+export type ContactStatus = 'new' | 'contacted' | 'qualified' | 'converted'
+
+export type ContactSource = 'chat' | 'form' | 'messenger' | 'instagram' | 'manual'
+
+export const CONTACT_STATUSES: ContactStatus[] = ['new', 'contacted', 'qualified', 'converted']
+
+export interface Contact {
+  id: string
+  agent_id: string
+  project_id: string
+  name: string | null
+  email: string | null
+  phone: string | null
+  company: string | null
+  // Answers to custom form fields
+  fields: Record<string, any>
+  status: ContactStatus
+  source: ContactSource
+  tags: string[]
+  notes: string | null
+  first_contact_at: string
+  last_contact_at: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type ContactWithActivity = Contact & {
+  conversation_count: number
+  message_count: number
+}
+
+export type ChatChannel = 'web' | 'messenger' | 'instagram'
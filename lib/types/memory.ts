@@ -0,0 +1,41 @@
+/**
+ * Conversation memory type definitions
+ * Per-agent settings are stored in agents.config.memory; the running summary
+ * lives on the conversations row
+ */
+
+export interface MemorySettings {
+  // Most recent user/assistant exchanges sent to the model word for word
+  recentTurns: number
+  // Fold turns older than that into a running summary
+  summarize: boolean
+  // Longest summary the model may write
+  maxSummaryTokens: number
+}
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  recentTurns: 6,
+  summarize: true,
+  maxSummaryTokens: 400
+}
+
+/**
+ * Merge stored agent config over the defaults
+ */
+export function resolveMemorySettings(config: any): MemorySettings {
+  const stored = config && typeof config === 'object' ? config.memory : null
+  return { ...DEFAULT_MEMORY_SETTINGS, ...(stored || {}) }
+}
+
+export interface ConversationMemoryJob {
+  conversationId: string
+  agentId: string
+  projectId: string
+}
+
+export interface MemoryRefreshStats {
+  // Messages folded into the summary by this run
+  folded: number
+  // More messages are waiting to be folded
+  remaining: boolean
+}
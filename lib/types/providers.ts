@@ -0,0 +1,95 @@
+/**
+ * Registered OpenAI-compatible providers (Ollama, vLLM, OpenRouter, Azure, ...)
+ * Stored as ai_providers rows with provider_class 'CustomProvider'; their
+ * models are ai_models rows whose provider is the row's name.
+ */
+
+export type ResponseMappingField =
+  | 'content'
+  | 'model'
+  | 'finishReason'
+  | 'promptTokens'
+  | 'completionTokens'
+  | 'totalTokens'
+
+// Field -> JSONPath into the provider's chat completion response
+export type ResponseMapping = Partial<Record<ResponseMappingField, string>>
+
+export const RESPONSE_MAPPING_FIELDS: ResponseMappingField[] = [
+  'content',
+  'model',
+  'finishReason',
+  'promptTokens',
+  'completionTokens',
+  'totalTokens'
+]
+
+// The OpenAI chat completion shape; a stored mapping only overrides what differs
+export const DEFAULT_RESPONSE_MAPPING: Record<ResponseMappingField, string> = {
+  content: '$.choices[0].message.content',
+  model: '$.model',
+  finishReason: '$.choices[0].finish_reason',
+  promptTokens: '$.usage.prompt_tokens',
+  completionTokens: '$.usage.completion_tokens',
+  totalTokens: '$.usage.total_tokens'
+}
+
+// Provider keys must live in variables named like this, so a registered
+// provider can't be pointed at an unrelated secret such as the service role key
+export const PROVIDER_API_KEY_ENV_VAR_PATTERN = /^CUSTOM_PROVIDER_[A-Z0-9_]+_API_KEY$/
+
+export function isProviderApiKeyEnvVar(name: string | null | undefined): name is string {
+  return !!name && PROVIDER_API_KEY_ENV_VAR_PATTERN.test(name)
+}
+
+export interface RegisteredProvider {
+  id: string
+  name: string
+  display_name: string
+  api_base_url: string | null
+  auth_header_name: string | null
+  auth_header_prefix: string | null
+  // Environment variable holding the API key; null for unauthenticated endpoints
+  api_key_env_var: string | null
+  default_headers: Record<string, string> | null
+  query_params: Record<string, string> | null
+  response_mapping: ResponseMapping | null
+  is_active: boolean | null
+  created_at: string | null
+}
+
+export interface RegisteredProviderModel {
+  id: string
+  name: string
+  display_name: string
+  model_id: string
+  context_window: number | null
+  max_tokens: number | null
+  input_price_per_million: number | null
+  output_price_per_million: number | null
+  is_active: boolean | null
+}
+
+export interface RegisteredProviderWithModels extends RegisteredProvider {
+  // Whether api_key_env_var is set in this environment; null when no key is needed
+  apiKeyConfigured: boolean | null
+  models: RegisteredProviderModel[]
+}
+
+/**
+ * Options CustomProvider.initialize takes for an ai_providers row
+ * config_schema may still carry keys older rows were configured with.
+ */
+export function toCustomProviderOptions(row: any): Record<string, any> {
+  const legacy = row?.config_schema && typeof row.config_schema === 'object' ? row.config_schema : {}
+  return {
+    ...legacy,
+    apiBaseUrl: row.api_base_url,
+    apiKeyEnvVar: [row.api_key_env_var, legacy.apiKeyEnvVar].find(isProviderApiKeyEnvVar) || null,
+    authHeaderName: row.auth_header_name,
+    authHeaderPrefix: row.auth_header_prefix,
+    headers: row.default_headers || {},
+    queryParams: row.query_params || {},
+    responseMapping: row.response_mapping || {}
+  }
+}
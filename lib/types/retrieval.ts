@@ -0,0 +1,63 @@
+/**
+ * Retrieval type definitions
+ * Per-agent settings are stored in agents.config.retrieval
+ */
+
+export type RetrievalMode = 'vector' | 'hybrid'
+
+export type RerankerName = 'none' | 'llm'
+
+export interface RetrievalSettings {
+  mode: RetrievalMode
+  // Reciprocal-rank fusion weights for each retriever
+  vectorWeight: number
+  keywordWeight: number
+  // RRF damping constant, 60 is the value from the original paper
+  rrfK: number
+  // Each retriever fetches limit * candidateMultiplier candidates before fusion
+  candidateMultiplier: number
+  reranker: RerankerName
+  // Model (ai_models.name) used by the LLM reranker
+  rerankerModel?: string
+  // Rewrite follow-ups ("how much is it?") into a standalone query using the conversation
+  queryRewrite: boolean
+  // Paraphrases of the query searched alongside it, 0 for none
+  multiQueryCount: number
+  // Also search with a hypothetical answer to the query (HyDE)
+  hyde: boolean
+  // Model (ai_models.name) that writes the queries, the agent's model when unset
+  queryModel?: string
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  mode: 'hybrid',
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  candidateMultiplier: 4,
+  reranker: 'none',
+  queryRewrite: true,
+  multiQueryCount: 0,
+  hyde: false
+}
+
+export interface RetrievedChunk {
+  id: string
+  content: string
+  // Cosine similarity from the vector search, 0 for keyword-only hits
+  similarity: number
+  metadata: any
+  sourceType?: string
+  keywordRank?: number
+  fusedScore?: number
+  rerankScore?: number
+  matchedBy: Array<'vector' | 'keyword'>
+}
+
+/**
+ * Merge stored agent config over the defaults
+ */
+export function resolveRetrievalSettings(config: any): RetrievalSettings {
+  const stored = config && typeof config === 'object' ? config.retrieval : null
+  return { ...DEFAULT_RETRIEVAL_SETTINGS, ...(stored || {}) }
+}
@@ -0,0 +1,75 @@
+/**
+ * Model routing type definitions
+ * Per-agent policies are stored in agents.config.routing
+ */
+
+export interface RoutingConditions {
+  // Messages of at most this many characters
+  maxMessageChars?: number
+  // Greetings, thanks and other small talk
+  smallTalk?: boolean
+  // The best retrieved passage scored below this similarity (0-1)
+  maxRetrievalScore?: number
+  // Conversations with at least this many earlier messages
+  minConversationMessages?: number
+}
+
+export interface RoutingRule {
+  name: string
+  // Every condition that is set has to hold
+  when: RoutingConditions
+  // ai_models.name the chain starts with when the rule matches
+  model: string
+}
+
+export interface RoutingPolicy {
+  enabled: boolean
+  // The first matching rule picks the starting model, otherwise the agent's model
+  rules: RoutingRule[]
+  // ai_models.name list tried in order when the starting model fails
+  fallbackChain: string[]
+  // Then one catalog model per remaining provider (ai_models.is_fallback first)
+  useCatalogFallbacks: boolean
+}
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  enabled: false,
+  rules: [],
+  fallbackChain: [],
+  useCatalogFallbacks: true
+}
+
+// What the router knows about the message being answered
+export interface RoutingSignals {
+  message: string
+  // Messages in the conversation before this one
+  conversationMessages: number
+  // Best similarity the retriever found; null when retrieval didn't run
+  topRetrievalScore: number | null
+}
+
+export interface RouteAttempt {
+  model: string
+  provider: string
+  error?: string
+  // Skipped without calling because its circuit breaker is open
+  skipped?: boolean
+}
+
+/**
+ * Which model answered and why, stored on messages.metadata.routing
+ */
+export interface RoutingDecision {
+  model: string
+  provider: string
+  reason: string
+  attempts: RouteAttempt[]
+}
+
+/**
+ * Merge stored agent config over the defaults
+ */
+export function resolveRoutingPolicy(config: any): RoutingPolicy {
+  const stored = config && typeof config === 'object' ? config.routing : null
+  return { ...DEFAULT_ROUTING_POLICY, ...(stored || {}) }
+}
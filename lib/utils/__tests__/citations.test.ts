@@ -0,0 +1,121 @@
+import { describe, expect, it } from '@jest/globals'
+import { CitableContext, CitationStream, extractCitations, formatCitationFootnotes } from '../citations'
+
+function context(overrides: Partial<CitableContext> = {}): CitableContext {
+  return {
+    sourceId: 'source-1',
+    sourceName: 'Handbook.pdf',
+    sourceType: 'file',
+    content: 'Returns are accepted within 30 days.',
+    chunkMetadata: { page_start: 1 },
+    ...overrides
+  }
+}
+
+describe('extractCitations', () => {
+  const contexts = [
+    context({ sourceId: 'a', sourceName: 'Returns', chunkMetadata: { page_start: 4 } }),
+    context({ sourceId: 'b', sourceName: 'Shipping', chunkMetadata: { page_start: 2 } }),
+    context({ sourceId: 'a', sourceName: 'Returns', chunkMetadata: { page_start: 4 }, content: 'Same page, another chunk.' })
+  ]
+
+  it('numbers citations by first appearance', () => {
+    const { text, citations } = extractCitations('Ships in 2 days [2]. Returns take 30 days [1].', contexts)
+
+    expect(text).toBe('Ships in 2 days [1]. Returns take 30 days [2].')
+    expect(citations.map(citation => citation.sourceName)).toEqual(['Shipping', 'Returns'])
+    expect(citations.map(citation => citation.index)).toEqual([1, 2])
+  })
+
+  it('gives contexts from the same page of a source one number', () => {
+    const { text, citations } = extractCitations('First [1]. Second [3].', contexts)
+
+    expect(text).toBe('First [1]. Second [1].')
+    expect(citations).toHaveLength(1)
+    expect(citations[0].page).toBe(4)
+  })
+
+  it('splits grouped markers and drops duplicates within them', () => {
+    expect(extractCitations('Both [2, 1, 3].', contexts).text).toBe('Both [1][2].')
+  })
+
+  it('drops markers for contexts that do not exist, with the space before them', () => {
+    const { text, citations } = extractCitations('Made up [7]. Real [2].', contexts)
+
+    expect(text).toBe('Made up. Real [1].')
+    expect(citations).toHaveLength(1)
+  })
+
+  it('leaves markdown links and non-numeric brackets alone', () => {
+    const text = 'See [the docs](https://example.com) and [note].'
+    expect(extractCitations(text, contexts)).toEqual({ text, citations: [] })
+  })
+
+  it('takes the page from legacy page headers in the text', () => {
+    const legacy = context({ chunkMetadata: null, content: 'Intro\n--- Page 3 ---\nMore' })
+    expect(extractCitations('Fact [1].', [legacy]).citations[0].page).toBe(2)
+  })
+
+  it('links website citations to the page instead of a page number', () => {
+    const page = context({
+      sourceType: 'website',
+      chunkMetadata: { page_url: 'https://example.com/returns', page_id: 'page-1', page_start: 1 }
+    })
+    const [citation] = extractCitations('Fact [1].', [page]).citations
+
+    expect(citation.url).toBe('https://example.com/returns')
+    expect(citation.pageId).toBe('page-1')
+    expect(citation.page).toBeNull()
+  })
+})
+
+describe('CitationStream', () => {
+  const contexts = [
+    context({ sourceId: 'a', sourceName: 'Returns' }),
+    context({ sourceId: 'b', sourceName: 'Shipping' }),
+    context({ sourceId: 'c', sourceName: 'Warranty' })
+  ]
+  const reply = 'Ships fast [2]. Returns [1, 3] are free [9].\nSee [the policy](https://example.com) [3]'
+
+  function streamed(chunkSize: number): string {
+    const stream = new CitationStream(contexts)
+    let text = ''
+    for (let i = 0; i < reply.length; i += chunkSize) {
+      text += stream.push(reply.slice(i, i + chunkSize))
+    }
+    return text + stream.flush()
+  }
+
+  it.each([1, 2, 3, 5, 8, 13, reply.length])('matches extractCitations when streamed in chunks of %i', (chunkSize) => {
+    expect(streamed(chunkSize)).toBe(extractCitations(reply, contexts).text)
+  })
+
+  it('holds back an unclosed marker until it closes', () => {
+    const stream = new CitationStream(contexts)
+
+    expect(stream.push('Ships fast [')).toBe('Ships fast')
+    expect(stream.push('2')).toBe('')
+    expect(stream.push('].')).toBe(' [1].')
+  })
+
+  it('releases held-back text that turned out not to be a marker', () => {
+    const stream = new CitationStream(contexts)
+
+    expect(stream.push('Options [')).toBe('Options')
+    expect(stream.push('a]')).toBe(' [a]')
+    expect(stream.push(' end  ')).toBe(' end')
+    expect(stream.flush()).toBe('  ')
+  })
+})
+
+describe('formatCitationFootnotes', () => {
+  it('lists sources with their URL or page', () => {
+    const { citations } = extractCitations('A [1]. B [2].', [
+      context({ sourceName: 'FAQ', sourceType: 'website', chunkMetadata: { page_url: 'https://example.com/faq' } }),
+      context({ sourceId: 'pdf', sourceName: 'Manual.pdf', chunkMetadata: { page_start: 7 } })
+    ])
+
+    expect(formatCitationFootnotes(citations)).toBe('Sources:\n[1] FAQ – https://example.com/faq\n[2] Manual.pdf – page 7')
+    expect(formatCitationFootnotes([])).toBe('')
+  })
+})
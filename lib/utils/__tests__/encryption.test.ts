@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { randomBytes } from 'crypto'
+import { decryptSecret, encryptSecret, isEncryptionConfigured, secretHint } from '../encryption'
+
+describe('encryption', () => {
+  const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = randomBytes(32).toString('base64')
+  })
+
+  afterEach(() => {
+    if (originalKey === undefined) delete process.env.CREDENTIALS_ENCRYPTION_KEY
+    else process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey
+  })
+
+  it('round-trips a secret', () => {
+    const payload = encryptSecret('sk-test-1234567890')
+
+    expect(payload.startsWith('v1:')).toBe(true)
+    expect(payload).not.toContain('sk-test')
+    expect(decryptSecret(payload)).toBe('sk-test-1234567890')
+  })
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'))
+  })
+
+  it('rejects a tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret('secret value').split(':')
+    const tampered = Buffer.from(ciphertext, 'base64')
+    tampered[0] ^= 1
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow()
+  })
+
+  it('rejects a payload encrypted with another key', () => {
+    const payload = encryptSecret('secret value')
+    process.env.CREDENTIALS_ENCRYPTION_KEY = randomBytes(32).toString('base64')
+
+    expect(() => decryptSecret(payload)).toThrow()
+  })
+
+  it('rejects payloads in an unknown format', () => {
+    expect(() => decryptSecret('plain text')).toThrow('Unrecognized encrypted payload')
+    expect(() => decryptSecret('v2:a:b:c')).toThrow('Unrecognized encrypted payload')
+  })
+
+  it('needs a 32-byte key', () => {
+    expect(isEncryptionConfigured()).toBe(true)
+
+    process.env.CREDENTIALS_ENCRYPTION_KEY = randomBytes(16).toString('base64')
+    expect(isEncryptionConfigured()).toBe(false)
+    expect(() => encryptSecret('secret')).toThrow('must be 32 bytes')
+
+    delete process.env.CREDENTIALS_ENCRYPTION_KEY
+    expect(isEncryptionConfigured()).toBe(false)
+    expect(() => encryptSecret('secret')).toThrow('is not set')
+  })
+
+  it('hints at the end of long secrets only', () => {
+    expect(secretHint('sk-abcdefghijkl')).toBe('…ijkl')
+    expect(secretHint('short')).toBe('…')
+  })
+})
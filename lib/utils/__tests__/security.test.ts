@@ -0,0 +1,100 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import dns from 'dns/promises'
+import { validateCrawlUrl, validateOutboundUrl } from '../security'
+
+const mockLookup = jest.spyOn(dns, 'lookup') as unknown as jest.Mock<(...args: any[]) => Promise<{ address: string; family: number }[]>>
+
+describe('validateCrawlUrl', () => {
+  it('adds https to bare domains', () => {
+    expect(validateCrawlUrl('example.com/docs')).toEqual({ valid: true, normalizedUrl: 'https://example.com/docs' })
+  })
+
+  it.each([
+    'http://localhost:3000',
+    'http://127.0.0.1',
+    'http://10.1.2.3',
+    'http://172.16.0.1',
+    'http://192.168.1.1',
+    'http://169.254.169.254/latest/meta-data',
+    'http://0.0.0.0'
+  ])('rejects %s', (url) => {
+    expect(validateCrawlUrl(url).valid).toBe(false)
+  })
+
+  it('reads numeric and shortened IPv4 hosts the way URLs do', () => {
+    expect(validateCrawlUrl('http://2130706433').valid).toBe(false)
+    expect(validateCrawlUrl('http://0x7f000001').valid).toBe(false)
+    expect(validateCrawlUrl('http://127.1').valid).toBe(false)
+  })
+
+  it('rejects cloud metadata hosts', () => {
+    expect(validateCrawlUrl('http://metadata.google.internal/computeMetadata').valid).toBe(false)
+  })
+
+  it('rejects overlong URLs', () => {
+    expect(validateCrawlUrl(`https://example.com/${'a'.repeat(2100)}`).valid).toBe(false)
+  })
+})
+
+describe('validateOutboundUrl', () => {
+  beforeEach(() => {
+    mockLookup.mockReset()
+  })
+
+  afterAll(() => {
+    mockLookup.mockRestore()
+  })
+
+  it('allows hostnames that resolve to public addresses', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+
+    await expect(validateOutboundUrl('https://api.example.com/orders')).resolves.toEqual({
+      valid: true,
+      normalizedUrl: 'https://api.example.com/orders'
+    })
+  })
+
+  it('rejects hostnames that resolve to a private address', async () => {
+    mockLookup.mockResolvedValue([{ address: '10.0.0.8', family: 4 }])
+
+    const result = await validateOutboundUrl('https://internal.example.com')
+    expect(result.valid).toBe(false)
+    expect(result.error).toBe('Private network URLs are not allowed')
+  })
+
+  it('rejects a hostname when any of its addresses is private', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '::1', family: 6 }
+    ])
+
+    expect((await validateOutboundUrl('https://rebind.example.com')).valid).toBe(false)
+  })
+
+  it('rejects hostnames that do not resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('ENOTFOUND'))
+
+    expect(await validateOutboundUrl('https://nowhere.example')).toEqual({
+      valid: false,
+      error: 'Could not resolve nowhere.example'
+    })
+  })
+
+  it.each([
+    'http://[::1]/',
+    'http://[::]/',
+    'http://[fd00::1]/',
+    'http://[fe80::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:a9fe:a9fe]/'
+  ])('rejects the private IPv6 literal %s without a lookup', async (url) => {
+    expect((await validateOutboundUrl(url)).valid).toBe(false)
+    expect(mockLookup).not.toHaveBeenCalled()
+  })
+
+  it('allows public IP literals without a lookup', async () => {
+    expect((await validateOutboundUrl('https://93.184.216.34/')).valid).toBe(true)
+    expect((await validateOutboundUrl('https://[2606:2800:220:1::1]/')).valid).toBe(true)
+    expect(mockLookup).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,153 @@
+import { Citation } from '@/lib/types/citations'
+
+// A retrieved chunk offered to the model as a numbered context
+export interface CitableContext {
+  sourceId: string | null
+  sourceName: string
+  sourceType: string
+  content: string
+  // source_chunks.metadata
+  chunkMetadata?: Record<string, any> | null
+  // sources.metadata
+  sourceMetadata?: Record<string, any> | null
+}
+
+const SNIPPET_LENGTH = 200
+
+// [1] or [1, 3] with any space before it; digits only so markdown links aren't touched
+const MARKER_PATTERN = /(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g
+// The end of a partial reply that may still turn out to be (or precede) a marker
+const PENDING_MARKER_PATTERN = /\s*(\[[\d,\s]*)?$/
+
+export const CITATION_INSTRUCTIONS = `## CITATIONS:
+Each context above is numbered like [1]. After every sentence that uses information from a context, add its number in square brackets, e.g. "Returns are accepted within 30 days [2]." Cite several contexts as [1][3]. Only cite contexts you actually used, and never invent numbers.`
+
+/**
+ * Render contexts for the prompt, numbered from 1 in the order given
+ */
+export function formatCitableContexts(contexts: CitableContext[]): string {
+  return contexts
+    .map((context, index) => `### [${index + 1}] Source: ${context.sourceName}\n${context.content}`)
+    .join('\n\n')
+}
+
+function pageOf(context: CitableContext): number | null {
+  const page = context.chunkMetadata?.page_start
+  if (Number.isInteger(page)) return page
+
+  // Chunks stored before page tracking: use the first page header in the text
+  const header = context.content.match(/^--- Page (\d+) ---$/m)
+  if (!header) return null
+  const pageNumber = Number(header[1])
+  return header.index === 0 || pageNumber === 1 ? pageNumber : pageNumber - 1
+}
+
+function snippetOf(content: string): string {
+  const text = content
+    .replace(/^--- Page \d+ ---$/gm, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text
+}
+
+function toCitation(context: CitableContext, index: number): Citation {
+  return {
+    index,
+    sourceId: context.sourceId,
+    sourceName: context.sourceName,
+    sourceType: context.sourceType,
+    url: context.chunkMetadata?.page_url || context.sourceMetadata?.url || null,
+    pageId: context.chunkMetadata?.page_id || null,
+    page: context.sourceType === 'website' ? null : pageOf(context),
+    snippet: snippetOf(context.content)
+  }
+}
+
+/**
+ * Turn the model's [n] markers into citations
+ * Citations are numbered by first appearance in the reply, and contexts from
+ * the same page of the same source share a number; markers in the text are
+ * rewritten to match. Markers for contexts that don't exist are dropped.
+ */
+export function extractCitations(
+  text: string,
+  contexts: CitableContext[]
+): { text: string; citations: Citation[] } {
+  const citations: Citation[] = []
+  const byKey = new Map<string, number>()
+
+  const cite = (contextNumber: number): number | null => {
+    const context = contexts[contextNumber - 1]
+    if (!context) return null
+
+    const citation = toCitation(context, citations.length + 1)
+    const key = `${citation.sourceId || citation.sourceName}|${citation.url || ''}|${citation.page ?? ''}`
+    const existing = byKey.get(key)
+    if (existing) return existing
+
+    byKey.set(key, citation.index)
+    citations.push(citation)
+    return citation.index
+  }
+
+  const rewritten = text.replace(MARKER_PATTERN, (_, space: string, numbers: string) => {
+    const indexes = numbers
+      .split(',')
+      .map(value => cite(Number(value.trim())))
+      .filter((index): index is number => index !== null)
+
+    // A dropped marker takes the space before it along
+    if (indexes.length === 0) return ''
+    return space + Array.from(new Set(indexes)).map(index => `[${index}]`).join('')
+  })
+
+  return { text: rewritten, citations }
+}
+
+/**
+ * Renumber [n] markers while a reply streams in
+ * push() takes each delta and returns the text that can be shown so far, with
+ * markers numbered as extractCitations numbers the finished reply. Trailing
+ * whitespace and an unclosed [ are held back until the next delta, or flush(),
+ * shows what they are.
+ */
+export class CitationStream {
+  private raw = ''
+  private sent = ''
+
+  constructor(private contexts: CitableContext[]) {}
+
+  push(delta: string): string {
+    this.raw += delta
+    const pending = this.raw.match(PENDING_MARKER_PATTERN)?.[0].length || 0
+    return this.emit(this.raw.slice(0, this.raw.length - pending))
+  }
+
+  flush(): string {
+    return this.emit(this.raw)
+  }
+
+  private emit(text: string): string {
+    // The held-back tail keeps every cut outside a marker, so the rewritten
+    // text only ever grows at the end
+    const rewritten = extractCitations(text, this.contexts).text
+    if (!rewritten.startsWith(this.sent)) return ''
+
+    const delta = rewritten.slice(this.sent.length)
+    this.sent = rewritten
+    return delta
+  }
+}
+
+/**
+ * Plain-text footnotes for channels that can't render links, e.g. Messenger
+ */
+export function formatCitationFootnotes(citations: Citation[]): string {
+  if (citations.length === 0) return ''
+
+  const lines = citations.map(citation => {
+    const location = citation.url || (citation.page ? `page ${citation.page}` : null)
+    return `[${citation.index}] ${citation.sourceName}${location ? ` – ${location}` : ''}`
+  })
+  return `Sources:\n${lines.join('\n')}`
+}
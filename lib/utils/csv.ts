@@ -0,0 +1,19 @@
+/**
+ * Build a CSV document (RFC 4180 quoting)
+ * Cells starting with =, +, - or @ get a leading apostrophe so spreadsheet
+ * apps don't evaluate visitor-supplied text as a formula.
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')
+}
+
+function escapeCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text = Array.isArray(value) ? value.join('; ') : String(value)
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
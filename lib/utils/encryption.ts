@@ -0,0 +1,62 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+/**
+ * AES-256-GCM encryption for secrets stored in the database
+ * The key comes from CREDENTIALS_ENCRYPTION_KEY (32 bytes, base64), e.g.
+ * `openssl rand -base64 32`. Payloads are `v1:<iv>:<tag>:<ciphertext>` so
+ * the format can change without guessing what older rows contain.
+ */
+
+const ALGORITHM = 'aes-256-gcm'
+const VERSION = 'v1'
+
+function getKey(): Buffer {
+  const encoded = process.env.CREDENTIALS_ENCRYPTION_KEY
+  if (!encoded) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set')
+  }
+
+  const key = Buffer.from(encoded, 'base64')
+  if (key.length !== 32) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, base64 encoded')
+  }
+  return key
+}
+
+export function isEncryptionConfigured(): boolean {
+  try {
+    getKey()
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted payload')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8')
+}
+
+// Last characters of a key, enough to recognize it in the UI
+export function secretHint(secret: string): string {
+  return secret.length > 8 ? `…${secret.slice(-4)}` : '…'
+}
@@ -69,17 +69,18 @@ export function extractLinksFromHtml(html: string): ExtractedLink[] {
 
 /**
  * Extract links from plain text (for AI responses)
+ * Markdown links keep their anchor text, as crawled website content does
  */
 export function extractLinksFromText(text: string): ExtractedLink[] {
   const links: ExtractedLink[] = []
 
-  // Regex to match URLs in text
-  const urlRegex = /(https?:\/\/[^\s<>"{}|\\^`\[\]]+)/gi
-  const matches = text.matchAll(urlRegex)
+  // Markdown [text](url) or a bare URL
+  const linkRegex = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<>"{}|\\^`\[\]]+)/gi
+  const matches = text.matchAll(linkRegex)
 
   let index = 0
   for (const match of matches) {
-    const url = match[0]
+    const url = match[2] || match[3]
     const position = match.index
 
     if (position === undefined) continue
@@ -91,11 +92,11 @@ export function extractLinksFromText(text: string): ExtractedLink[] {
 
     links.push({
       id: `link_${Date.now()}_${index}`,
-      text: url,
+      text: match[1]?.trim() || url,
       url: validatedUrl,
       position: {
         start: position,
-        end: position + url.length
+        end: position + match[0].length
       },
       verified: isSafe,
       lastChecked: new Date().toISOString()
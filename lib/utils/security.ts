@@ -3,7 +3,12 @@
  */
 
 import { headers } from 'next/headers'
+import { timingSafeEqual } from 'crypto'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import type IORedis from 'ioredis'
 import { createClient } from '@/lib/supabase/server'
+import { getSharedConnection } from '@/lib/queue/redis-connection'
 
 /**
  * Sanitize error messages for production
@@ -96,6 +101,8 @@ export function validateCrawlUrl(url: string): { valid: boolean; error?: string;
 
       // Check for private IP ranges
       if (
+        (a === 0) || // 0.0.0.0/8
+        (a === 127) || // 127.0.0.0/8 (loopback)
         (a === 10) || // 10.0.0.0/8
         (a === 172 && b >= 16 && b <= 31) || // 172.16.0.0/12
         (a === 192 && b === 168) || // 192.168.0.0/16
@@ -142,6 +149,59 @@ export function validateCrawlUrl(url: string): { valid: boolean; error?: string;
   }
 }
 
+// The IPv4 address behind an IPv4-mapped IPv6 address; URLs write
+// ::ffff:127.0.0.1 as ::ffff:7f00:1, so both forms are read
+function mappedIPv4(address: string): string | undefined {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return dotted[1]
+
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (!hex) return undefined
+  const high = parseInt(hex[1], 16)
+  const low = parseInt(hex[2], 16)
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.')
+}
+
+/**
+ * validateCrawlUrl plus a DNS check, for requests whose URL is not fully
+ * trusted (e.g. HTTP actions). Rejects hostnames that resolve to private,
+ * loopback or link-local addresses.
+ */
+export async function validateOutboundUrl(url: string): Promise<{ valid: boolean; error?: string; normalizedUrl?: string }> {
+  const result = validateCrawlUrl(url)
+  if (!result.valid) return result
+
+  const hostname = new URL(result.normalizedUrl!).hostname.replace(/^\[|\]$/g, '')
+
+  let addresses: { address: string; family: number }[]
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true })
+  } catch {
+    return { valid: false, error: `Could not resolve ${hostname}` }
+  }
+
+  for (const { address, family } of addresses) {
+    const ipv4 = family === 4 ? address : mappedIPv4(address.toLowerCase())
+
+    if (ipv4) {
+      if (!validateCrawlUrl(`http://${ipv4}`).valid) {
+        return { valid: false, error: 'Private network URLs are not allowed' }
+      }
+      continue
+    }
+
+    // IPv6 loopback, unspecified, unique-local (fc00::/7) and link-local (fe80::/10)
+    const normalized = address.toLowerCase()
+    if (normalized === '::1' || normalized === '::' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized)) {
+      return { valid: false, error: 'Private network URLs are not allowed' }
+    }
+  }
+
+  return result
+}
+
 /**
  * Rate limiting by user ID
  * Uses in-memory storage for simplicity, consider Redis for production
@@ -191,6 +251,48 @@ export async function checkRateLimit(
   }
 }
 
+// How often to ask for the shared Redis connection again while it's down
+const RATE_LIMIT_REDIS_RETRY_MS = 30000
+let rateLimitRedis: IORedis | null = null
+let lastRateLimitRedisAttempt = 0
+
+/**
+ * Rate limiting shared by all instances, for public endpoints
+ * Counts in Redis when the shared connection is up; otherwise falls back to
+ * checkRateLimit, which only counts in this instance.
+ */
+export async function checkSharedRateLimit(
+  key: string,
+  limit: number = 10,
+  windowMs: number = 60000
+): Promise<{ allowed: boolean; remaining: number; resetTime: number }> {
+  if (rateLimitRedis?.status !== 'ready' && Date.now() - lastRateLimitRedisAttempt > RATE_LIMIT_REDIS_RETRY_MS) {
+    lastRateLimitRedisAttempt = Date.now()
+    rateLimitRedis = getSharedConnection()
+  }
+  if (rateLimitRedis?.status !== 'ready') {
+    return checkRateLimit(key, limit, windowMs)
+  }
+
+  try {
+    const redisKey = `ratelimit:${key}`
+    // The window starts with the first request and isn't extended by later ones
+    const results = await rateLimitRedis.multi()
+      .set(redisKey, 0, 'PX', windowMs, 'NX')
+      .incr(redisKey)
+      .pttl(redisKey)
+      .exec()
+
+    const count = Number(results?.[1]?.[1] || 0)
+    const ttl = Number(results?.[2]?.[1])
+    const resetTime = Date.now() + (ttl > 0 ? ttl : windowMs)
+    return { allowed: count <= limit, remaining: Math.max(limit - count, 0), resetTime }
+  } catch (error) {
+    console.error('[RateLimit] Redis unavailable, counting in this instance:', error)
+    return checkRateLimit(key, limit, windowMs)
+  }
+}
+
 /**
  * Get user IP address from request headers
  */
@@ -233,12 +335,38 @@ export function validateContentSize(content: string, maxSizeMB: number = 10): {
   return { valid: true }
 }
 
+/**
+ * Headers for a server-to-server call to one of our own API routes
+ * Webhook handlers have no user session; INTERNAL_API_SECRET stands in for one.
+ */
+export function internalRequestHeaders(): Record<string, string> {
+  const secret = process.env.INTERNAL_API_SECRET
+  if (!secret) {
+    console.warn('INTERNAL_API_SECRET is not set; internal API calls will be rejected')
+    return {}
+  }
+  return { Authorization: `Bearer ${secret}` }
+}
+
+/**
+ * Whether a request was made with internalRequestHeaders
+ */
+export function isInternalRequest(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET
+  const header = request.headers.get('authorization')
+  if (!secret || !header) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(header)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
 /**
  * Log security events for auditing
  */
 export async function logSecurityEvent(
   event: {
-    type: 'rate_limit' | 'invalid_url' | 'ssrf_attempt' | 'large_content' | 'unauthorized'
+    type: 'rate_limit' | 'invalid_url' | 'ssrf_attempt' | 'large_content' | 'unauthorized' | 'guardrail'
     userId?: string
     ip?: string
     details?: any
@@ -0,0 +1,81 @@
+/**
+ * Server-sent events helpers shared by the chat route and the chat UIs
+ */
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx, Vercel)
+}
+
+/**
+ * Encode a single named event
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+export function isEventStream(response: Response): boolean {
+  return response.headers.get('content-type')?.includes('text/event-stream') ?? false
+}
+
+/**
+ * Read an event stream produced with formatSSE, calling onEvent for each event
+ */
+export async function readSSEStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (block: string) => {
+    let event = 'message'
+    const dataLines: string[] = []
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim())
+      }
+    }
+
+    if (dataLines.length === 0) return
+
+    let data: any
+    try {
+      data = JSON.parse(dataLines.join('\n'))
+    } catch (error) {
+      console.error('[SSE] Failed to parse event data:', error)
+      return
+    }
+
+    // Errors thrown by the handler propagate to the caller of readSSEStream
+    onEvent(event, data)
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
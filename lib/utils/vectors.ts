@@ -0,0 +1,33 @@
+/**
+ * Helpers for embedding vectors held in memory
+ */
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * pgvector columns come back from PostgREST as '[0.1,0.2,...]' strings
+ */
+export function parseVector(value: string | number[]): number[] {
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
+
+export function formatVector(vector: number[]): string {
+  return `[${vector.join(',')}]`
+}
+
+/**
+ * Running mean of count vectors plus one more
+ */
+export function addToCentroid(centroid: number[], count: number, vector: number[]): number[] {
+  return centroid.map((value, i) => (value * count + vector[i]) / (count + 1))
+}
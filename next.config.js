@@ -55,7 +55,7 @@ const nextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
 
-  serverExternalPackages: ['pdfjs-dist'],
+  serverExternalPackages: ['pdfjs-dist', 'tiktoken'],
 
   // Optimize webpack without band-aids
   webpack: (config, { dev, isServer }) => {
@@ -0,0 +1,54 @@
+-- Hybrid retrieval: full-text search over source_chunks.content
+-- Keyword hits are fused with pgvector hits in HybridRetriever (reciprocal-rank fusion)
+
+-- Generated tsvector column so inserts/updates keep it in sync automatically
+ALTER TABLE source_chunks
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_content_tsv
+  ON source_chunks USING gin(content_tsv);
+
+-- Keyword search with the same result shape as search_similar_chunks
+-- Any query term can match: the plainto_tsquery lexemes are ORed, since
+-- requiring every word of a natural-language question rarely matches a chunk.
+-- Chunks with more (and closer) terms rank higher, and RRF does the rest.
+-- rank uses ts_rank_cd with normalization 32 (rank / (rank + 1)), so it is always in [0, 1)
+CREATE OR REPLACE FUNCTION search_chunks_keyword(
+  query_text TEXT,
+  agent_uuid UUID,
+  limit_count INTEGER DEFAULT 20,
+  source_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  source_id UUID,
+  content TEXT,
+  metadata JSONB,
+  source_type TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH query AS (
+    SELECT replace(plainto_tsquery('english', query_text)::TEXT, ' & ', ' | ')::tsquery AS q
+  )
+  SELECT
+    c.id AS chunk_id,
+    c.source_id,
+    c.content,
+    c.metadata,
+    s.type::TEXT AS source_type,
+    ts_rank_cd(c.content_tsv, query.q, 32) AS rank
+  FROM source_chunks c
+  JOIN sources s ON s.id = c.source_id
+  CROSS JOIN query
+  WHERE c.agent_id = agent_uuid
+    AND c.content_tsv @@ query.q
+    AND s.status <> 'removed'
+    AND (source_types IS NULL OR s.type::TEXT = ANY(source_types))
+  ORDER BY rank DESC
+  LIMIT limit_count;
+$$;
+
+COMMENT ON FUNCTION search_chunks_keyword IS 'Full-text (keyword) chunk search used by hybrid retrieval alongside search_similar_chunks';
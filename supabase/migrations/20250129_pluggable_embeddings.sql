@@ -0,0 +1,114 @@
+-- Pluggable embedding providers
+-- Each project picks its embedding provider/model; every chunk records the model
+-- and dimension it was embedded with so vectors from different models never mix
+
+-- Per-project embedding settings (defaults match the previous hard-wired model)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS embedding_provider TEXT NOT NULL DEFAULT 'openai',
+ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small';
+
+COMMENT ON COLUMN projects.embedding_provider IS 'openai, google, local, or the name of a custom ai_providers row';
+COMMENT ON COLUMN projects.embedding_model IS 'Model used to embed chunks and queries for every agent in the project';
+
+-- Per-chunk model and dimension
+ALTER TABLE source_chunks
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+-- Existing vectors were all produced by text-embedding-3-small
+UPDATE source_chunks
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = 1536
+WHERE embedding IS NOT NULL
+  AND embedding_model IS NULL;
+
+-- Allow vectors of any dimension. ivfflat/hnsw need a fixed dimension, so the
+-- single index is replaced with partial indexes per supported dimension.
+DROP INDEX IF EXISTS idx_source_chunks_embedding;
+
+ALTER TABLE source_chunks
+ALTER COLUMN embedding TYPE vector USING embedding::vector;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_embedding_384
+  ON source_chunks USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+  WHERE embedding_dimensions = 384;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_embedding_768
+  ON source_chunks USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+  WHERE embedding_dimensions = 768;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_embedding_1536
+  ON source_chunks USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dimensions = 1536;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_embedding_model
+  ON source_chunks(agent_id, embedding_model);
+
+-- Replace every existing overload so the RPC resolves to the new signature
+DO $$
+DECLARE
+  fn RECORD;
+BEGIN
+  FOR fn IN
+    SELECT oid::regprocedure AS signature
+    FROM pg_proc
+    WHERE proname = 'search_similar_chunks'
+  LOOP
+    EXECUTE 'DROP FUNCTION IF EXISTS ' || fn.signature;
+  END LOOP;
+END $$;
+
+-- Vector search restricted to chunks embedded with the query's model
+-- The partial HNSW indexes above only serve queries with the same cast and
+-- dimension predicate, so the query is built per dimension. Dimensions
+-- without an index fall back to the uncast column (a sequential scan).
+CREATE FUNCTION search_similar_chunks(
+  query_embedding vector,
+  agent_uuid UUID,
+  limit_count INTEGER DEFAULT 5,
+  similarity_threshold FLOAT DEFAULT 0.7,
+  source_types TEXT[] DEFAULT NULL,
+  embedding_model_name TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  source_id UUID,
+  content TEXT,
+  similarity FLOAT,
+  metadata JSONB,
+  source_type TEXT
+)
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  dims INTEGER := vector_dims(query_embedding);
+  vector_type TEXT := CASE
+    WHEN vector_dims(query_embedding) IN (384, 768, 1536) THEN format('vector(%s)', vector_dims(query_embedding))
+    ELSE 'vector'
+  END;
+BEGIN
+  RETURN QUERY EXECUTE format($query$
+    SELECT
+      c.id,
+      c.source_id,
+      c.content,
+      1 - (c.embedding::%1$s <=> $1::%1$s),
+      c.metadata,
+      s.type::TEXT
+    FROM source_chunks c
+    JOIN sources s ON s.id = c.source_id
+    WHERE c.embedding_dimensions = %2$s
+      AND c.agent_id = $2
+      AND c.embedding IS NOT NULL
+      AND ($3::TEXT IS NULL OR c.embedding_model = $3)
+      AND s.status <> 'removed'
+      AND ($4::TEXT[] IS NULL OR s.type::TEXT = ANY($4))
+      AND 1 - (c.embedding::%1$s <=> $1::%1$s) >= $5
+    ORDER BY c.embedding::%1$s <=> $1::%1$s
+    LIMIT $6
+  $query$, vector_type, dims)
+  USING query_embedding, agent_uuid, embedding_model_name, source_types, similarity_threshold, limit_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_similar_chunks IS 'Cosine-similarity chunk search; only compares vectors from the same embedding model and dimension';
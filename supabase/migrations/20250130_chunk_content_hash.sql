@@ -0,0 +1,44 @@
+-- Incremental re-chunking
+-- Chunks carry a hash of their content; re-chunking a source keeps rows (and
+-- embeddings) whose hash is unchanged, deletes stale rows and inserts new ones
+
+ALTER TABLE source_chunks
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Same hash ChunkManager.hashContent computes (hex SHA-256 of the UTF-8 text)
+UPDATE source_chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_content_hash
+  ON source_chunks(source_id, content_hash);
+
+-- What re-chunking did since the agent was last trained
+ALTER TABLE sources
+ADD COLUMN IF NOT EXISTS pending_added_chunks INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pending_reused_chunks INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pending_removed_chunks INTEGER NOT NULL DEFAULT 0;
+
+-- Change a source's pending counters in one statement: re-chunking adds to
+-- them and /train subtracts what it reported, so counts from a crawl that
+-- finishes while training runs are kept for the next run
+CREATE OR REPLACE FUNCTION adjust_pending_chunk_counts(
+  p_source_id UUID,
+  p_added INTEGER,
+  p_reused INTEGER,
+  p_removed INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE sources
+  SET pending_added_chunks = GREATEST(pending_added_chunks + p_added, 0),
+      pending_reused_chunks = GREATEST(pending_reused_chunks + p_reused, 0),
+      pending_removed_chunks = GREATEST(pending_removed_chunks + p_removed, 0)
+  WHERE id = p_source_id;
+$$;
+
+COMMENT ON COLUMN source_chunks.content_hash IS 'SHA-256 of content, used to reuse unchanged chunks and their embeddings';
+COMMENT ON COLUMN sources.pending_added_chunks IS 'New chunks inserted since the last training run, reported and subtracted by /train';
+COMMENT ON COLUMN sources.pending_reused_chunks IS 'Unchanged chunks kept since the last training run, reported and subtracted by /train';
+COMMENT ON COLUMN sources.pending_removed_chunks IS 'Stale chunks removed since the last training run, reported and subtracted by /train';
@@ -0,0 +1,80 @@
+-- Agent actions (tool/function calling)
+-- Each enabled action is offered to the model as a function; the chat route
+-- runs the calls server-side and records them in messages.metadata.toolCalls
+
+CREATE TABLE IF NOT EXISTS agent_actions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('lead_capture', 'http_request')),
+  name TEXT NOT NULL, -- Function name exposed to the model
+  description TEXT NOT NULL DEFAULT '', -- Tells the model when to call it
+  parameters JSONB NOT NULL DEFAULT '{"type": "object", "properties": {}}', -- JSON schema of the arguments
+  config JSONB NOT NULL DEFAULT '{}', -- Type-specific settings
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_actions_agent_id ON agent_actions(agent_id) WHERE enabled;
+
+ALTER TABLE agent_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view actions in their project" ON agent_actions
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create actions in their project" ON agent_actions
+  FOR INSERT WITH CHECK (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update actions in their project" ON agent_actions
+  FOR UPDATE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete actions in their project" ON agent_actions
+  FOR DELETE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+-- Leads captured by the lead_capture action
+-- The table dates from the workspace schema, bring it up to the project model
+CREATE TABLE IF NOT EXISTS leads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  data JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS session_id TEXT,
+ADD COLUMN IF NOT EXISTS action_id UUID REFERENCES agent_actions(id) ON DELETE SET NULL;
+
+UPDATE leads
+SET project_id = agents.project_id
+FROM agents
+WHERE leads.agent_id = agents.id
+  AND leads.project_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_agent_id ON leads(agent_id, created_at DESC);
+
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leads in their project" ON leads
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete leads in their project" ON leads
+  FOR DELETE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
@@ -0,0 +1,20 @@
+-- Secrets for HTTP actions, referenced from headers/URL/body templates as {{secrets.NAME}}
+-- Values are encrypted with AES-256-GCM (lib/utils/encryption.ts) and only
+-- decrypted by the action executor. RLS is enabled without policies: rows are
+-- only read and written with the service role, after the API has checked
+-- project ownership, and values are never returned to the browser
+
+CREATE TABLE IF NOT EXISTS agent_action_secrets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name ~ '^[A-Z][A-Z0-9_]{0,63}$'),
+  encrypted_value TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_id, name)
+);
+
+ALTER TABLE agent_action_secrets ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE agent_action_secrets IS 'Per-agent secrets for HTTP actions; service role access only';
@@ -0,0 +1,67 @@
+-- Contacts captured from conversations
+-- One row per person per agent, deduplicated by email or phone. Every capture
+-- (form submission or lead_capture call) is still logged in leads.
+
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  -- Dedup keys; ContactService.normalizeEmail/normalizePhone must match these
+  email_normalized TEXT GENERATED ALWAYS AS (NULLIF(lower(btrim(email)), '')) STORED,
+  phone_normalized TEXT GENERATED ALWAYS AS (NULLIF(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), '')) STORED,
+  company TEXT,
+  fields JSONB NOT NULL DEFAULT '{}', -- Answers to custom form fields
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'contacted', 'qualified', 'converted')),
+  source TEXT NOT NULL DEFAULT 'chat' CHECK (source IN ('chat', 'form', 'messenger', 'instagram', 'manual')),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  first_contact_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_contact_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_agent_email
+  ON contacts(agent_id, email_normalized) WHERE email_normalized IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_agent_phone
+  ON contacts(agent_id, phone_normalized) WHERE phone_normalized IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_agent_last_contact
+  ON contacts(agent_id, last_contact_at DESC);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contacts in their project" ON contacts
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create contacts in their project" ON contacts
+  FOR INSERT WITH CHECK (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update contacts in their project" ON contacts
+  FOR UPDATE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete contacts in their project" ON contacts
+  FOR DELETE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+-- Link captures and conversations to the contact
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS source TEXT;
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_contact_id ON leads(contact_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_contact_id ON conversations(contact_id);
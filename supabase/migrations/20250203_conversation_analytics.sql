@@ -0,0 +1,231 @@
+-- Conversation analytics
+-- The conversation-analysis queue scores each conversation's sentiment and
+-- clusters visitors' questions into topics by embedding similarity. Daily
+-- aggregates are rebuilt for the affected days after every run; the
+-- analytics pages read those, and drill down through the per-conversation
+-- and per-question rows.
+
+-- Topics are clusters of similar questions. The centroid is the running mean
+-- of the member embeddings, so only questions embedded with the same model
+-- can join a topic.
+CREATE TABLE IF NOT EXISTS conversation_topics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  centroid vector NOT NULL,
+  embedding_model TEXT NOT NULL,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  sample_questions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_topics_agent
+  ON conversation_topics(agent_id, embedding_model);
+
+-- Topic of each visitor question
+CREATE TABLE IF NOT EXISTS message_topics (
+  message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES conversation_topics(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  similarity REAL,
+  asked_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_topics_topic ON message_topics(topic_id, asked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_topics_conversation ON message_topics(conversation_id);
+
+-- Sentiment of each conversation
+CREATE TABLE IF NOT EXISTS conversation_analyses (
+  conversation_id UUID PRIMARY KEY REFERENCES conversations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  sentiment TEXT NOT NULL CHECK (sentiment IN ('positive', 'neutral', 'negative')),
+  sentiment_score REAL NOT NULL CHECK (sentiment_score BETWEEN -1 AND 1),
+  primary_topic_id UUID REFERENCES conversation_topics(id) ON DELETE SET NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  -- Day the conversation started; what the date-range filters use
+  conversation_date DATE NOT NULL,
+  -- Newest message included in the analysis; later messages make it due again
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  model TEXT,
+  analyzed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_analyses_agent_date
+  ON conversation_analyses(agent_id, conversation_date);
+
+-- Conversations whose last analysis failed. They are retried with backoff, and
+-- given up on after a few attempts until new messages arrive, so one broken
+-- conversation or a provider outage doesn't keep the queue calling the model.
+CREATE TABLE IF NOT EXISTS conversation_analysis_failures (
+  conversation_id UUID PRIMARY KEY REFERENCES conversations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Newest message the failed attempts covered
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_analysis_failures_agent
+  ON conversation_analysis_failures(agent_id);
+
+-- Daily aggregates
+CREATE TABLE IF NOT EXISTS analytics_daily_sentiment (
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  positive INTEGER NOT NULL DEFAULT 0,
+  neutral INTEGER NOT NULL DEFAULT 0,
+  negative INTEGER NOT NULL DEFAULT 0,
+  avg_score REAL,
+  PRIMARY KEY (agent_id, day)
+);
+
+CREATE TABLE IF NOT EXISTS analytics_daily_topics (
+  topic_id UUID NOT NULL REFERENCES conversation_topics(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  conversation_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (topic_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_daily_topics_agent_day
+  ON analytics_daily_topics(agent_id, day);
+
+-- Conversations with messages the last analysis hasn't seen, once they have
+-- been quiet for p_idle_minutes. Failed conversations wait for their next
+-- attempt; new messages make them due straight away.
+CREATE OR REPLACE FUNCTION conversations_due_for_analysis(
+  p_agent_id UUID,
+  p_idle_minutes INTEGER DEFAULT 10,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (conversation_id UUID, last_message_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.id, max(m.created_at)
+  FROM conversations c
+  JOIN messages m ON m.conversation_id = c.id
+  LEFT JOIN conversation_analyses a ON a.conversation_id = c.id
+  LEFT JOIN conversation_analysis_failures f ON f.conversation_id = c.id
+  WHERE c.agent_id = p_agent_id
+  GROUP BY c.id, a.last_message_at, f.last_message_at, f.next_attempt_at
+  HAVING max(m.created_at) < NOW() - make_interval(mins => p_idle_minutes)
+     AND (a.last_message_at IS NULL OR max(m.created_at) > a.last_message_at)
+     AND (f.last_message_at IS NULL OR max(m.created_at) > f.last_message_at OR f.next_attempt_at <= NOW())
+  ORDER BY max(m.created_at)
+  LIMIT p_limit;
+$$;
+
+-- Record a failed analysis and schedule the next attempt: 15 minutes, doubling
+-- per attempt. After p_max_attempts the conversation waits for new messages.
+CREATE OR REPLACE FUNCTION record_conversation_analysis_failure(
+  p_conversation_id UUID,
+  p_agent_id UUID,
+  p_project_id UUID,
+  p_last_message_at TIMESTAMP WITH TIME ZONE,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_attempts INTEGER;
+BEGIN
+  INSERT INTO conversation_analysis_failures AS f
+    (conversation_id, agent_id, project_id, last_message_at, attempts, last_error, next_attempt_at)
+  VALUES
+    (p_conversation_id, p_agent_id, p_project_id, p_last_message_at, 1, p_error, NOW() + INTERVAL '15 minutes')
+  ON CONFLICT (conversation_id) DO UPDATE SET
+    -- Failures on newer messages start counting again
+    attempts = CASE WHEN f.last_message_at = EXCLUDED.last_message_at THEN f.attempts + 1 ELSE 1 END,
+    last_message_at = EXCLUDED.last_message_at,
+    last_error = EXCLUDED.last_error,
+    updated_at = NOW()
+  RETURNING attempts INTO v_attempts;
+
+  UPDATE conversation_analysis_failures
+  SET next_attempt_at = CASE
+    WHEN v_attempts >= p_max_attempts THEN 'infinity'::timestamptz
+    ELSE NOW() + make_interval(mins => 15 * power(2, v_attempts - 1)::integer)
+  END
+  WHERE conversation_id = p_conversation_id;
+
+  RETURN v_attempts;
+END;
+$$;
+
+-- Rebuild the daily aggregates of an agent for the given days
+CREATE OR REPLACE FUNCTION refresh_conversation_analytics(p_agent_id UUID, p_days DATE[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM analytics_daily_sentiment
+  WHERE agent_id = p_agent_id AND day = ANY(p_days);
+
+  INSERT INTO analytics_daily_sentiment (agent_id, project_id, day, positive, neutral, negative, avg_score)
+  SELECT agent_id, project_id, conversation_date,
+         count(*) FILTER (WHERE sentiment = 'positive'),
+         count(*) FILTER (WHERE sentiment = 'neutral'),
+         count(*) FILTER (WHERE sentiment = 'negative'),
+         avg(sentiment_score)
+  FROM conversation_analyses
+  WHERE agent_id = p_agent_id AND conversation_date = ANY(p_days)
+  GROUP BY agent_id, project_id, conversation_date;
+
+  DELETE FROM analytics_daily_topics
+  WHERE agent_id = p_agent_id AND day = ANY(p_days);
+
+  INSERT INTO analytics_daily_topics (topic_id, agent_id, project_id, day, question_count, conversation_count)
+  SELECT topic_id, agent_id, project_id, asked_at::date,
+         count(*), count(DISTINCT conversation_id)
+  FROM message_topics
+  WHERE agent_id = p_agent_id AND asked_at::date = ANY(p_days)
+  GROUP BY topic_id, agent_id, project_id, asked_at::date;
+END;
+$$;
+
+ALTER TABLE conversation_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_analysis_failures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_daily_sentiment ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_daily_topics ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read; rows are written by the analysis worker with the service role
+CREATE POLICY "Users can view topics in their project" ON conversation_topics
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view message topics in their project" ON message_topics
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view conversation analyses in their project" ON conversation_analyses
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view daily sentiment in their project" ON analytics_daily_sentiment
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view daily topics in their project" ON analytics_daily_topics
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
@@ -0,0 +1,73 @@
+-- Knowledge gaps
+-- The chat route flags answers given without good knowledge-base support:
+-- nothing retrieved above the similarity threshold, a weak best match, or
+-- the model saying it doesn't know. Flagged questions are grouped by
+-- embedding similarity so the same missing answer shows up once, with a
+-- count, in the knowledge gaps report.
+
+-- A group of similar unanswered questions. Like conversation_topics, the
+-- centroid is the running mean of the member embeddings.
+CREATE TABLE IF NOT EXISTS knowledge_gaps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- The first question asked; a readable stand-in for the group
+  label TEXT NOT NULL,
+  centroid vector NOT NULL,
+  embedding_model TEXT NOT NULL,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  -- Q&A source added to fill the gap
+  resolved_source_id UUID REFERENCES sources(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  last_asked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_gaps_agent
+  ON knowledge_gaps(agent_id, status, last_asked_at DESC);
+
+-- Each flagged question, linked to the assistant message that answered it
+CREATE TABLE IF NOT EXISTS knowledge_gap_questions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  gap_id UUID NOT NULL REFERENCES knowledge_gaps(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  answer TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('no_context', 'low_similarity', 'refusal')),
+  top_similarity REAL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_gap_questions_gap
+  ON knowledge_gap_questions(gap_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_gap_questions_message
+  ON knowledge_gap_questions(message_id);
+
+ALTER TABLE knowledge_gaps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE knowledge_gap_questions ENABLE ROW LEVEL SECURITY;
+
+-- Gaps are recorded with the service role; owners review and resolve them
+CREATE POLICY "Users can view knowledge gaps in their project" ON knowledge_gaps
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update knowledge gaps in their project" ON knowledge_gaps
+  FOR UPDATE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete knowledge gaps in their project" ON knowledge_gaps
+  FOR DELETE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view knowledge gap questions in their project" ON knowledge_gap_questions
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
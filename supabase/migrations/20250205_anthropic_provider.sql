@@ -0,0 +1,56 @@
+-- Anthropic provider: Claude models in the catalog now that AnthropicProvider is implemented
+
+-- The provider supports tool use, streaming and vision
+UPDATE ai_providers
+SET features = '{"streaming": true, "functions": true, "vision": true}'::jsonb,
+    updated_at = NOW()
+WHERE name = 'anthropic';
+
+-- Add the Claude models Anthropic currently serves
+INSERT INTO ai_models (
+  name, display_name, provider, model_id, description,
+  context_window, max_tokens,
+  input_price_per_million, output_price_per_million,
+  supports_vision, supports_functions, supports_streaming,
+  is_active, sort_order
+) VALUES
+  ('claude-sonnet-4-5', 'Claude Sonnet 4.5', 'anthropic', 'claude-sonnet-4-5-20250929',
+   'Balanced Claude model for complex reasoning and writing',
+   200000, 64000, 3.00, 15.00, true, true, true, true, 70),
+
+  ('claude-haiku-4-5', 'Claude Haiku 4.5', 'anthropic', 'claude-haiku-4-5-20251001',
+   'Fast, affordable Claude model for everyday support',
+   200000, 64000, 1.00, 5.00, true, true, true, true, 80),
+
+  ('claude-opus-4-5', 'Claude Opus 4.5', 'anthropic', 'claude-opus-4-5-20251101',
+   'Most capable Claude model for highly complex tasks',
+   200000, 64000, 5.00, 25.00, true, true, true, true, 90)
+
+ON CONFLICT (name) DO UPDATE SET
+  display_name = EXCLUDED.display_name,
+  model_id = EXCLUDED.model_id,
+  description = EXCLUDED.description,
+  context_window = EXCLUDED.context_window,
+  max_tokens = EXCLUDED.max_tokens,
+  input_price_per_million = EXCLUDED.input_price_per_million,
+  output_price_per_million = EXCLUDED.output_price_per_million,
+  supports_vision = EXCLUDED.supports_vision,
+  supports_functions = EXCLUDED.supports_functions,
+  supports_streaming = EXCLUDED.supports_streaming,
+  is_active = EXCLUDED.is_active,
+  sort_order = EXCLUDED.sort_order,
+  updated_at = NOW();
+
+-- Anthropic has retired the Claude 3 and 3.5 models, so calls to them fail
+UPDATE ai_models
+SET is_active = false, updated_at = NOW()
+WHERE provider = 'anthropic'
+AND name IN ('claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku', 'claude-3-5-sonnet', 'claude-3-5-haiku');
+
+-- Link the new models to the provider
+UPDATE ai_models
+SET provider_id = ai_providers.id
+FROM ai_providers
+WHERE ai_models.provider = ai_providers.name
+AND ai_models.provider = 'anthropic'
+AND ai_models.provider_id IS NULL;
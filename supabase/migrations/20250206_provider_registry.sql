@@ -0,0 +1,28 @@
+-- Registry of OpenAI-compatible providers (Ollama, vLLM, OpenRouter, Azure OpenAI, ...)
+-- Registered providers are ai_providers rows with provider_class 'CustomProvider';
+-- their models are ai_models rows whose provider is the registered name
+
+ALTER TABLE ai_providers
+ADD COLUMN IF NOT EXISTS api_key_env_var TEXT CHECK (api_key_env_var ~ '^CUSTOM_PROVIDER_[A-Z0-9_]+_API_KEY$' AND length(api_key_env_var) <= 128),
+ADD COLUMN IF NOT EXISTS default_headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS query_params JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS response_mapping JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN ai_providers.api_key_env_var IS 'Environment variable holding the API key, named CUSTOM_PROVIDER_<NAME>_API_KEY so no other server secret can be sent to a provider; NULL calls the endpoint without auth';
+COMMENT ON COLUMN ai_providers.default_headers IS 'Extra headers sent with every request, e.g. HTTP-Referer for OpenRouter';
+COMMENT ON COLUMN ai_providers.query_params IS 'Query parameters added to every request, e.g. api-version for Azure OpenAI';
+COMMENT ON COLUMN ai_providers.response_mapping IS 'Field -> JSONPath overrides for reading chat completions (content, model, finishReason, promptTokens, completionTokens, totalTokens)';
+
+-- Custom providers used to fall back to CUSTOM_API_KEY or a key named in config_schema.
+-- Those names may point at any variable, so each provider gets its own
+-- CUSTOM_PROVIDER_<NAME>_API_KEY, which has to be set before it is used again.
+UPDATE ai_providers
+SET api_key_env_var = COALESCE(
+  CASE WHEN config_schema->>'apiKeyEnvVar' ~ '^CUSTOM_PROVIDER_[A-Z0-9_]+_API_KEY$' THEN config_schema->>'apiKeyEnvVar' END,
+  'CUSTOM_PROVIDER_' || upper(regexp_replace(name, '[^A-Za-z0-9]+', '_', 'g')) || '_API_KEY'
+)
+WHERE provider_class = 'CustomProvider'
+AND api_key_env_var IS NULL;
+
+-- Response parsing is declarative now; parser code stored in the database is never run
+ALTER TABLE ai_models DROP COLUMN IF EXISTS response_parser;
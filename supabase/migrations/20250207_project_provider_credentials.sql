@@ -0,0 +1,39 @@
+-- Per-project provider API keys ("bring your own key")
+-- Keys are encrypted by the app (AES-256-GCM, CREDENTIALS_ENCRYPTION_KEY)
+-- before they're stored. RLS is enabled without policies: rows are only read
+-- and written with the service role, after the API has checked project
+-- ownership, and keys are never returned to the browser.
+
+CREATE TABLE IF NOT EXISTS project_provider_credentials (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  encrypted_key TEXT NOT NULL,
+  key_hint TEXT,
+  status TEXT NOT NULL DEFAULT 'valid' CHECK (status IN ('valid', 'invalid')),
+  last_validated_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (project_id, provider)
+);
+
+ALTER TABLE project_provider_credentials ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE project_provider_credentials IS 'Encrypted per-project provider API keys; service role access only';
+COMMENT ON COLUMN project_provider_credentials.status IS 'invalid once the provider refused the key; calls then use platform keys only if the plan allows it';
+
+-- Whose key paid for each call
+ALTER TABLE usage_logs
+  ADD COLUMN IF NOT EXISTS key_source TEXT NOT NULL DEFAULT 'platform' CHECK (key_source IN ('platform', 'project')),
+  ADD COLUMN IF NOT EXISTS credential_id UUID REFERENCES project_provider_credentials(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_project_key_source ON usage_logs(project_id, key_source, created_at);
+
+-- Plans that may fall back to platform keys when a project's own key fails
+UPDATE plans
+SET features = COALESCE(features, '{}'::jsonb) || '{"platform_key_fallback": true}'::jsonb
+WHERE name IN ('standard', 'premium', 'custom');
+
+COMMENT ON TABLE ai_providers IS 'AI providers available in the platform. Platform API keys are stored in environment variables; projects can add their own encrypted keys in project_provider_credentials.';
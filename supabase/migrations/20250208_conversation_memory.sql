@@ -0,0 +1,12 @@
+-- Conversation memory
+-- Replies send the last few turns word for word; everything before them is
+-- folded into a running summary by the conversation-memory queue.
+-- summarized_until is the created_at of the newest message in the summary.
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Recent-window and fold queries walk a conversation's messages by time
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+  ON messages(conversation_id, created_at DESC);
@@ -0,0 +1,14 @@
+-- Guardrails
+-- The platform policy lives in system_settings.guardrail_policy and is edited
+-- under Admin -> Guardrails; agents may replace it in agents.config.guardrails.
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_public) VALUES
+  ('guardrail_policy', '{"enabled": true}', 'json', 'security', 'Input and output checks applied to every agent without its own guardrails', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Set when a guardrail hands the conversation to a person
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS handoff_requested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_handoff
+  ON conversations(agent_id, handoff_requested_at)
+  WHERE handoff_requested_at IS NOT NULL;
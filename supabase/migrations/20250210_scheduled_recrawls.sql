@@ -0,0 +1,31 @@
+-- Scheduled re-crawls of website sources
+-- Schedules live in sources.metadata.recrawl_schedule and run as BullMQ job
+-- schedulers on the website-crawl queue. Each run fetches pages conditionally
+-- (ETag / Last-Modified from sources.metadata.page_validators) and records a
+-- change report here, in the agent's activity feed.
+
+CREATE TABLE IF NOT EXISTS agent_activities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  source_id UUID REFERENCES sources(id) ON DELETE SET NULL,
+  -- e.g. crawl_completed, crawl_failed
+  type TEXT NOT NULL,
+  description TEXT NOT NULL,
+  -- Change report: added, removed and modified page URLs
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_activities_agent
+  ON agent_activities(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_activities_source
+  ON agent_activities(source_id, created_at DESC);
+
+ALTER TABLE agent_activities ENABLE ROW LEVEL SECURITY;
+
+-- Activities are recorded with the service role by background jobs
+CREATE POLICY "Users can view activities in their project" ON agent_activities
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
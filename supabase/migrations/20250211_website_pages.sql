@@ -0,0 +1,85 @@
+-- Per-page records for website sources
+-- Each crawled page gets a website_pages row; its chunks carry the row id as
+-- metadata.page_id, so search results link to the exact page and single
+-- pages can be excluded, re-fetched or deleted without re-crawling the site.
+
+CREATE TABLE IF NOT EXISTS website_pages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  -- crawled, error (last fetch failed) or excluded (skipped by later crawls)
+  status TEXT NOT NULL DEFAULT 'crawled' CHECK (status IN ('crawled', 'error', 'excluded')),
+  status_code INTEGER,
+  content_hash TEXT,
+  content_length INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  crawled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (source_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_pages_agent ON website_pages(agent_id);
+CREATE INDEX IF NOT EXISTS idx_website_pages_status ON website_pages(source_id, status);
+
+-- Deleting or re-fetching one page looks up its chunks by URL
+CREATE INDEX IF NOT EXISTS idx_source_chunks_page_url
+  ON source_chunks(source_id, (metadata->>'page_url'));
+
+ALTER TABLE website_pages ENABLE ROW LEVEL SECURITY;
+
+-- Pages are written with the service role by crawls; owners list and manage them
+CREATE POLICY "Users can view website pages in their project" ON website_pages
+  FOR SELECT USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update website pages in their project" ON website_pages
+  FOR UPDATE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete website pages in their project" ON website_pages
+  FOR DELETE USING (project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  ));
+
+-- Pages of existing crawls, from their chunks
+INSERT INTO website_pages (source_id, agent_id, project_id, url, title, status, content_length, chunk_count, crawled_at)
+SELECT
+  c.source_id,
+  c.agent_id,
+  c.project_id,
+  c.metadata->>'page_url',
+  MAX(c.metadata->>'page_title'),
+  'crawled',
+  SUM(LENGTH(c.content)),
+  COUNT(*),
+  MAX(c.created_at)
+FROM source_chunks c
+JOIN sources s ON s.id = c.source_id
+WHERE s.type = 'website'
+  AND c.metadata->>'page_url' IS NOT NULL
+GROUP BY c.source_id, c.agent_id, c.project_id, c.metadata->>'page_url'
+ON CONFLICT (source_id, url) DO NOTHING;
+
+UPDATE source_chunks c
+SET metadata = c.metadata || jsonb_build_object('page_id', p.id)
+FROM website_pages p
+WHERE p.source_id = c.source_id
+  AND p.url = c.metadata->>'page_url';
+
+-- Links excluded before pages existed
+INSERT INTO website_pages (source_id, agent_id, project_id, url, status)
+SELECT s.id, s.agent_id, s.project_id, excluded.url, 'excluded'
+FROM sources s
+CROSS JOIN LATERAL jsonb_array_elements_text(s.metadata->'excluded_links') AS excluded(url)
+WHERE s.type = 'website'
+  AND jsonb_typeof(s.metadata->'excluded_links') = 'array'
+ON CONFLICT (source_id, url) DO UPDATE SET status = 'excluded', chunk_count = 0;
+
+COMMENT ON TABLE website_pages IS 'Pages of website sources; chunks reference them through metadata.page_id';
@@ -0,0 +1,20 @@
+-- Private storage bucket for images visitors send in chat
+-- Objects live under {agent_id}/ and are only served through short-lived
+-- signed URLs created by the server with the service role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-images',
+  'chat-images',
+  false,
+  10485760, -- 10MB limit, matches MAX_CHAT_IMAGE_BYTES
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;